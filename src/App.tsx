@@ -4,6 +4,7 @@ import Onboarding from './components/Onboarding';
 import Dashboard from './components/Dashboard';
 import Auth from './components/Auth';
 import { useTelegram } from './hooks/useTelegram';
+import { useI18n } from './hooks/useI18n';
 import { supabase } from './lib/supabase';
 
 // Типы для состояния приложения
@@ -37,6 +38,7 @@ function App() {
   const DEV_MODE_SKIP_AUTH = true;
 
   const { tg, user: telegramUser } = useTelegram();
+  const { t } = useI18n();
   
   // 🔧 ФИКТИВНЫЕ ДАННЫЕ для разработки
   const mockUser = {
@@ -356,7 +358,7 @@ function App() {
             className="w-16 h-16 border-4 border-blue-500/30 border-t-blue-500 rounded-full mx-auto mb-4"
           />
           <h2 className="text-white text-xl font-semibold mb-2">JobMatch AI</h2>
-          <p className="text-gray-300">Инициализация приложения...</p>
+          <p className="text-gray-300">{t('app.initializing')}</p>
         </motion.div>
       </div>
     );
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Building, Calendar } from 'lucide-react';
+import {
+  APPLICATION_STAGES,
+  ApplicationStage,
+  GenerationSummary,
+  getFormattedCreatedDate,
+  getScoreColor,
+  getStatusColor,
+  getStatusText
+} from '../types/generation';
+import { groupGenerationsByStage } from '../lib/applicationTracker';
+
+interface ApplicationBoardProps {
+  generations: GenerationSummary[];
+  onOpen: (generationId: string) => void;
+  onStageChange: (generationId: string, stage: ApplicationStage) => void;
+}
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Доска откликов по этапам найма
+ *
+ * Колонка на каждый этап. Карточку можно перетащить в другую колонку
+ * или выбрать этап в списке на карточке (на мобильных перетаскивание недоступно).
+ */
+const ApplicationBoard: React.FC<ApplicationBoardProps> = ({ generations, onOpen, onStageChange }) => {
+  const [dragOverStage, setDragOverStage] = useState<ApplicationStage | null>(null);
+  const groups = groupGenerationsByStage(generations);
+
+  const handleDrop = (e: React.DragEvent, stage: ApplicationStage) => {
+    e.preventDefault();
+    setDragOverStage(null);
+
+    const generationId = e.dataTransfer.getData('text/plain');
+    const generation = generations.find(gen => gen.id === generationId);
+    if (generation && generation.application_stage !== stage) {
+      onStageChange(generationId, stage);
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {APPLICATION_STAGES.map(stage => (
+        <div
+          key={stage}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOverStage(stage);
+          }}
+          onDragLeave={() => setDragOverStage(null)}
+          onDrop={(e) => handleDrop(e, stage)}
+          className={`flex-shrink-0 w-64 bg-white/5 border rounded-2xl p-3 transition-colors ${
+            dragOverStage === stage ? 'border-blue-500/50 bg-blue-500/10' : 'border-white/10'
+          }`}
+        >
+          <div className="flex items-center justify-between mb-3">
+            <h3 className={`font-medium text-sm ${getStatusColor(stage)}`}>{getStatusText(stage)}</h3>
+            <span className="text-gray-500 text-xs">{groups[stage].length}</span>
+          </div>
+
+          <div className="space-y-2 min-h-[3rem]">
+            {groups[stage].map(generation => (
+              <div
+                key={generation.id}
+                draggable
+                onDragStart={(e) => e.dataTransfer.setData('text/plain', generation.id)}
+                onClick={() => onOpen(generation.id)}
+                className="bg-gray-900/50 border border-white/10 rounded-xl p-3 cursor-pointer hover:bg-white/10 transition-colors"
+              >
+                <div className="flex items-start justify-between gap-2 mb-1">
+                  <p className="text-white text-sm font-medium">{generation.title || generation.job_title}</p>
+                  {generation.overall_score !== null && (
+                    <span className={`text-xs font-medium ${getScoreColor(generation.overall_score)}`}>
+                      {generation.overall_score}%
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1 text-xs text-gray-400">
+                  <Building className="w-3 h-3" />
+                  <span>{generation.company_name}</span>
+                </div>
+                <div className="flex items-center space-x-1 text-xs text-gray-500 mb-2">
+                  <Calendar className="w-3 h-3" />
+                  <span>{getFormattedCreatedDate(generation)}</span>
+                </div>
+                <select
+                  value={generation.application_stage}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => onStageChange(generation.id, e.target.value as ApplicationStage)}
+                  className="w-full bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white text-xs"
+                >
+                  {APPLICATION_STAGES.map(option => (
+                    <option key={option} value={option}>{getStatusText(option)}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ApplicationBoard;
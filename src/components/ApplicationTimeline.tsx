@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Plus, Trash2, AlertTriangle, Bell, Copy } from 'lucide-react';
+import {
+  APPLICATION_STAGES,
+  ApplicationEvent,
+  ApplicationReminder,
+  ApplicationStage,
+  getStatusColor,
+  getStatusText
+} from '../types/generation';
+import {
+  addApplicationEvent,
+  cancelApplicationReminder,
+  deleteApplicationEvent,
+  getApplicationStage,
+  listApplicationEvents,
+  listApplicationReminders,
+  MAX_APPLICATION_NOTE_LENGTH
+} from '../lib/applicationTracker';
+import { useI18n } from '../hooks/useI18n';
+
+interface ApplicationTimelineProps {
+  generationId: string;
+  userId: string;
+  currentStage: ApplicationStage;
+  onStageChange: (generationId: string, stage: ApplicationStage) => void;
+}
+
+/**
+ * Дата для input[type=date] в локальном часовом поясе
+ */
+function toDateInputValue(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: История этапов отклика
+ *
+ * Показывает переходы генерации по этапам найма с датами и заметками
+ * и позволяет добавить новый переход (в том числе задним числом) или удалить ошибочный.
+ * Ниже - напоминания о follow-up, которые планирует переход на этап "Отправлен".
+ */
+const ApplicationTimeline: React.FC<ApplicationTimelineProps> = ({
+  generationId,
+  userId,
+  currentStage,
+  onStageChange
+}) => {
+  const { t, locale, formatDate } = useI18n();
+  const [events, setEvents] = useState<ApplicationEvent[]>([]);
+  const [reminders, setReminders] = useState<ApplicationReminder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stage, setStage] = useState<ApplicationStage>(currentStage);
+  const [date, setDate] = useState(() => toDateInputValue(new Date()));
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+    Promise.all([listApplicationEvents(generationId), listApplicationReminders(generationId)])
+      .then(([eventsData, remindersData]) => {
+        if (cancelled) return;
+        setEvents(eventsData);
+        setReminders(remindersData);
+      })
+      .catch((err: unknown) => {
+        console.error('❌ Ошибка загрузки истории отклика:', err);
+        if (!cancelled) setError(t('timeline.loadFailed', { message: err instanceof Error ? err.message : String(err) }));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [generationId, t]);
+
+  /**
+   * Перечитывание этапа и напоминаний после изменений (их пересчитывают триггеры в БД)
+   */
+  const syncStage = async () => {
+    const [latestStage, latestReminders] = await Promise.all([
+      getApplicationStage(generationId),
+      listApplicationReminders(generationId),
+    ]);
+    onStageChange(generationId, latestStage);
+    setReminders(latestReminders);
+  };
+
+  const handleAdd = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      // Переход на сегодня записываем с текущим временем, чтобы он был последним за день
+      const occurredAt = date === toDateInputValue(new Date())
+        ? new Date().toISOString()
+        : new Date(`${date}T12:00:00`).toISOString();
+
+      const event = await addApplicationEvent(userId, generationId, { stage, note, occurred_at: occurredAt });
+      console.log('✅ Переход отклика сохранен:', event.stage);
+
+      setEvents(prev => [...prev, event].sort(
+        (a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime()
+      ));
+      setNote('');
+      await syncStage();
+    } catch (err) {
+      console.error('❌ Ошибка сохранения перехода:', err);
+      setError(t('timeline.saveFailed', { message: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (eventId: string) => {
+    if (!confirm(t('timeline.deleteConfirm'))) {
+      return;
+    }
+
+    setError(null);
+
+    try {
+      await deleteApplicationEvent(eventId);
+      setEvents(prev => prev.filter(event => event.id !== eventId));
+      await syncStage();
+    } catch (err) {
+      console.error('❌ Ошибка удаления перехода:', err);
+      setError(t('timeline.deleteFailed', { message: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const handleCancelReminder = async (reminderId: string) => {
+    setError(null);
+
+    try {
+      await cancelApplicationReminder(reminderId);
+      setReminders(prev => prev.map(reminder => (
+        reminder.id === reminderId ? { ...reminder, status: 'cancelled' } : reminder
+      )));
+    } catch (err) {
+      console.error('❌ Ошибка отмены напоминания:', err);
+      setError(t('timeline.cancelReminderFailed', { message: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const visibleReminders = reminders.filter(reminder => reminder.status === 'pending' || reminder.status === 'sent');
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex items-center space-x-2 text-gray-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>{t('timeline.loading')}</span>
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-gray-400 text-sm">{t('timeline.empty')}</p>
+      ) : (
+        <ol className="space-y-2 border-l border-white/10 pl-4">
+          {events.map(event => (
+            <li key={event.id} className="flex items-start justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className={`font-medium ${getStatusColor(event.stage)}`}>{getStatusText(event.stage, locale)}</span>
+                  <span className="text-gray-500">{formatDate(event.occurred_at)}</span>
+                </div>
+                {event.note && (
+                  <p className="text-gray-300 text-sm whitespace-pre-wrap">{event.note}</p>
+                )}
+              </div>
+              <button
+                onClick={() => handleDelete(event.id)}
+                className="p-1 hover:bg-red-500/20 rounded-lg transition-colors text-gray-500 hover:text-red-400"
+                title={t('timeline.delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="bg-white/5 border border-white/10 rounded-xl p-4 space-y-3">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <select
+            value={stage}
+            onChange={(e) => setStage(e.target.value as ApplicationStage)}
+            className="flex-1 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm"
+          >
+            {APPLICATION_STAGES.map(option => (
+              <option key={option} value={option}>{getStatusText(option, locale)}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={date}
+            max={toDateInputValue(new Date())}
+            onChange={(e) => setDate(e.target.value)}
+            className="bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm"
+          />
+        </div>
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          maxLength={MAX_APPLICATION_NOTE_LENGTH}
+          rows={2}
+          placeholder={t('timeline.notePlaceholder')}
+          className="w-full bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white text-sm placeholder-gray-400"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={isSaving || !date}
+          className="flex items-center space-x-2 px-4 py-2 bg-blue-600/20 hover:bg-blue-600/30 border border-blue-500/30 text-blue-300 rounded-xl transition-colors text-sm disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          <span>{t('timeline.add')}</span>
+        </button>
+      </div>
+
+      {visibleReminders.length > 0 && (
+        <div className="space-y-2">
+          {visibleReminders.map(reminder => (
+            <div key={reminder.id} className="bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-3 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center space-x-2 text-sm text-yellow-300">
+                  <Bell className="w-4 h-4" />
+                  <span>
+                    {reminder.status === 'pending'
+                      ? t('timeline.reminderPending', { date: formatDate(reminder.due_at) })
+                      : t('timeline.reminderSent', { date: formatDate(reminder.sent_at ?? reminder.updated_at) })}
+                  </span>
+                </div>
+                {reminder.status === 'pending' && (
+                  <button
+                    onClick={() => handleCancelReminder(reminder.id)}
+                    className="text-xs text-gray-400 hover:text-white transition-colors"
+                  >
+                    {t('timeline.cancelReminder')}
+                  </button>
+                )}
+              </div>
+              {reminder.follow_up_text && (
+                <div className="flex items-start justify-between gap-3">
+                  <p className="text-gray-300 text-sm whitespace-pre-wrap">{reminder.follow_up_text}</p>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(reminder.follow_up_text!)}
+                    className="p-1 hover:bg-white/10 rounded-lg transition-colors text-gray-400 hover:text-white flex-shrink-0"
+                    title={t('timeline.copyFollowUp')}
+                  >
+                    <Copy className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/30 rounded-xl p-3 flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApplicationTimeline;
@@ -2,11 +2,22 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Mail, Send, CheckCircle, AlertCircle, Sparkles, ArrowRight, User, TestTube, X, Key, AlertTriangle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../lib/i18n';
 
 interface AuthProps {
   onAuthSuccess: () => void;
 }
 
+/**
+ * Ключи сообщений об ошибках тестового входа по HTTP статусу test-user-auth
+ */
+const TEST_LOGIN_ERROR_KEYS: Partial<Record<number, MessageKey>> = {
+  401: 'auth.testInvalidCredentials',
+  403: 'auth.testDevOnly',
+  500: 'auth.testServerConfig',
+};
+
 /**
  * Компонент аутентификации через Magic Link
  * Обеспечивает вход/регистрацию пользователей через email
@@ -21,6 +32,7 @@ interface AuthProps {
  * 4. Создается профиль в таблице profiles с указанным именем
  */
 const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
+  const { t } = useI18n();
   const [email, setEmail] = useState('');
   const [firstName, setFirstName] = useState('');
   const [loading, setLoading] = useState(false);
@@ -59,8 +71,10 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || errorData.message || `HTTP error! status: ${response.status}`);
+        const errorData = await response.json().catch(() => ({}));
+        // Сообщение сервера на его языке - запасной вариант для неизвестных статусов
+        const errorKey = TEST_LOGIN_ERROR_KEYS[response.status];
+        throw new Error(errorKey ? t(errorKey) : errorData.error || errorData.message || t('auth.testFailed'));
       }
 
       const { session, user, message } = await response.json();
@@ -80,25 +94,9 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
       
       onAuthSuccess();
       
-    } catch (err: any) {
+    } catch (err) {
       console.error('❌ Ошибка тестового входа:', err);
-      
-      // Обрабатываем различные типы ошибок
-      let errorMessage = 'Произошла ошибка при входе';
-      
-      if (err.message) {
-        if (err.message.includes('Неверные учетные данные')) {
-          errorMessage = 'Неверное имя пользователя или ключ доступа';
-        } else if (err.message.includes('режима разработки')) {
-          errorMessage = 'Тестовый вход доступен только в режиме разработки';
-        } else if (err.message.includes('Конфигурация сервера')) {
-          errorMessage = 'Сервер не настроен. Обратитесь к администратору';
-        } else {
-          errorMessage = err.message;
-        }
-      }
-      
-      setTestError(errorMessage);
+      setTestError((err instanceof Error && err.message) || t('auth.testFailed'));
     } finally {
       setIsTestLoading(false);
     }
@@ -158,7 +156,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
       console.log('📧 Отправка Magic Link с редиректом на:', redirectUrl);
       console.log('👤 Данные пользователя:', { 
         email: email.trim().toLowerCase(), 
-        firstName: firstName.trim() || 'Пользователь' 
+        firstName: firstName.trim() || t('auth.defaultName') 
       });
 
       // Отправляем Magic Link через Supabase Auth с метаданными пользователя
@@ -170,7 +168,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
           // НОВОЕ: Дополнительные данные для создания профиля
           data: {
             email: email.trim().toLowerCase(),
-            first_name: firstName.trim() || 'Пользователь',
+            first_name: firstName.trim() || t('auth.defaultName'),
             username: firstName.trim() || email.split('@')[0],
             auth_provider: 'magic_link',
             created_at: new Date().toISOString(),
@@ -184,14 +182,14 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
 
       // Успешная отправка
       setStep('sent');
-      setMessage('Проверьте вашу почту! Мы отправили ссылку для входа.');
+      setMessage(t('auth.checkMail'));
       
     } catch (err: any) {
       console.error('❌ Ошибка при отправке Magic Link:', err);
       setError(
         err.message === 'Invalid email' 
-          ? 'Пожалуйста, введите корректный email адрес'
-          : err.message || 'Произошла ошибка при отправке ссылки. Попробуйте еще раз.'
+          ? t('auth.invalidEmail')
+          : err.message || t('auth.sendFailed')
       );
     } finally {
       setLoading(false);
@@ -227,11 +225,11 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
           >
             <Sparkles className="w-8 h-8 text-white" />
           </motion.div>
-          <h2 className="text-2xl font-bold text-white mb-2">Добро пожаловать!</h2>
+          <h2 className="text-2xl font-bold text-white mb-2">{t('auth.welcome')}</h2>
           <p className="text-gray-300">
             {step === 'input' 
-              ? 'Войдите или зарегистрируйтесь с помощью Magic Link'
-              : 'Ссылка для входа отправлена на вашу почту'
+              ? t('auth.subtitle')
+              : t('auth.subtitleSent')
             }
           </p>
         </div>
@@ -249,7 +247,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
               <User className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
               <input
                 type="text"
-                placeholder="Ваше имя"
+                placeholder={t('auth.namePlaceholder')}
                 value={firstName}
                 onChange={(e) => setFirstName(e.target.value)}
                 className="w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl pl-12 pr-4 py-4 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
@@ -286,12 +284,12 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
                   >
                     <Send className="w-5 h-5" />
                   </motion.div>
-                  <span>Отправляем ссылку...</span>
+                  <span>{t('auth.sending')}</span>
                 </>
               ) : (
                 <>
                   <Send className="w-5 h-5" />
-                  <span>Получить Magic Link</span>
+                  <span>{t('auth.getMagicLink')}</span>
                 </>
               )}
             </motion.button>
@@ -313,27 +311,27 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
             </motion.div>
             
             <div>
-              <h3 className="text-white font-semibold text-lg mb-2">Ссылка отправлена!</h3>
+              <h3 className="text-white font-semibold text-lg mb-2">{t('auth.linkSent')}</h3>
               <p className="text-gray-300 text-sm mb-4">
-                Проверьте почту <span className="text-blue-400 font-medium">{email}</span> и перейдите по ссылке для входа
+                {t('auth.followLinkBefore')} <span className="text-blue-400 font-medium">{email}</span> {t('auth.followLinkAfter')}
               </p>
               
               {/* ОБНОВЛЕНО: Показываем имя пользователя если указано */}
               {firstName && (
                 <p className="text-gray-300 text-sm mb-4">
-                  Привет, <span className="text-purple-400 font-medium">{firstName}</span>! 👋
+                  {t('auth.greetingBefore')} <span className="text-purple-400 font-medium">{firstName}</span>! 👋
                 </p>
               )}
               
               {/* ОБНОВЛЕННАЯ ИНФОРМАЦИЯ: Показываем куда будет редирект */}
               <div className="bg-blue-500/10 border border-blue-500/20 rounded-xl p-3 mb-4">
                 <p className="text-blue-300 text-xs">
-                  После клика по ссылке вы будете перенаправлены на:<br />
+                  {t('auth.redirectTo')}<br />
                   <span className="font-mono text-blue-400">{getRedirectUrl()}</span>
                 </p>
                 {import.meta.env.DEV && (
                   <p className="text-green-400 text-xs mt-2">
-                    ✅ Режим разработки: гарантированный редирект на localhost
+                    {t('auth.devRedirect')}
                   </p>
                 )}
               </div>
@@ -345,7 +343,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
                 className="w-full py-3 px-4 bg-white/10 hover:bg-white/20 rounded-2xl transition-colors text-gray-300 hover:text-white flex items-center justify-center space-x-2"
               >
                 <ArrowRight className="w-4 h-4" />
-                <span>Отправить на другой email</span>
+                <span>{t('auth.otherEmail')}</span>
               </button>
             </div>
           </motion.div>
@@ -358,7 +356,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
           className="w-full bg-gradient-to-r from-green-600 to-teal-600 text-white font-semibold py-4 px-6 rounded-2xl shadow-xl transition-all flex items-center justify-center space-x-2"
         >
           <TestTube className="w-5 h-5" />
-          <span>Войти как тестер</span>
+          <span>{t('auth.testerLogin')}</span>
         </motion.button>
 
         {/* Сообщения об успехе */}
@@ -388,12 +386,12 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
         {/* Информация о Magic Link */}
         {step === 'input' && (
           <div className="bg-blue-500/10 border border-blue-500/20 rounded-2xl p-4">
-            <h4 className="text-white font-medium mb-2">🔗 Что такое Magic Link?</h4>
+            <h4 className="text-white font-medium mb-2">{t('auth.magicLinkTitle')}</h4>
             <ul className="text-gray-300 text-sm space-y-1">
-              <li>• Безопасный вход без пароля</li>
-              <li>• Ссылка действует 1 час</li>
-              <li>• Автоматическая регистрация новых пользователей</li>
-              <li>• Проверьте папку "Спам" если письмо не пришло</li>
+              <li>{t('auth.magicLinkSecure')}</li>
+              <li>{t('auth.magicLinkExpires')}</li>
+              <li>{t('auth.magicLinkSignup')}</li>
+              <li>{t('auth.magicLinkSpam')}</li>
             </ul>
           </div>
         )}
@@ -401,12 +399,12 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
         {/* НОВАЯ ИНФОРМАЦИЯ: Подсказка о поле имени */}
         {step === 'input' && (
           <div className="bg-purple-500/10 border border-purple-500/20 rounded-2xl p-4">
-            <h4 className="text-white font-medium mb-2">👤 Зачем нужно имя?</h4>
+            <h4 className="text-white font-medium mb-2">{t('auth.nameWhyTitle')}</h4>
             <ul className="text-gray-300 text-sm space-y-1">
-              <li>• Персонализация интерфейса приложения</li>
-              <li>• Создание профессиональных сопроводительных писем</li>
-              <li>• Улучшение пользовательского опыта</li>
-              <li>• Можно изменить позже в настройках профиля</li>
+              <li>{t('auth.nameWhyInterface')}</li>
+              <li>{t('auth.nameWhyLetters')}</li>
+              <li>{t('auth.nameWhyExperience')}</li>
+              <li>{t('auth.nameWhyChange')}</li>
             </ul>
           </div>
         )}
@@ -429,8 +427,8 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
                   <TestTube className="w-6 h-6 text-green-400" />
                 </div>
                 <div>
-                  <h3 className="text-white font-semibold text-lg">Тестовый вход</h3>
-                  <p className="text-gray-400 text-sm">Введите учетные данные тестера</p>
+                  <h3 className="text-white font-semibold text-lg">{t('auth.testTitle')}</h3>
+                  <p className="text-gray-400 text-sm">{t('auth.testSubtitle')}</p>
                 </div>
               </div>
               <button
@@ -453,7 +451,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
                 <User className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
                 <input
                   type="text"
-                  placeholder="Имя пользователя"
+                  placeholder={t('auth.testUsername')}
                   value={testUsername}
                   onChange={(e) => setTestUsername(e.target.value)}
                   className="w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl pl-12 pr-4 py-4 text-white placeholder-gray-400 focus:border-green-500 focus:ring-2 focus:ring-green-500/20 transition-all"
@@ -467,7 +465,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
                 <Key className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
                 <input
                   type="password"
-                  placeholder="Ключ доступа"
+                  placeholder={t('auth.testKey')}
                   value={testKey}
                   onChange={(e) => setTestKey(e.target.value)}
                   className="w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl pl-12 pr-4 py-4 text-white placeholder-gray-400 focus:border-green-500 focus:ring-2 focus:ring-green-500/20 transition-all"
@@ -492,12 +490,12 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
                     >
                       <TestTube className="w-5 h-5" />
                     </motion.div>
-                    <span>Проверяем...</span>
+                    <span>{t('auth.testChecking')}</span>
                   </>
                 ) : (
                   <>
                     <TestTube className="w-5 h-5" />
-                    <span>Войти</span>
+                    <span>{t('auth.testSubmit')}</span>
                   </>
                 )}
               </motion.button>
@@ -508,7 +506,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
               <div className="bg-red-500/20 border border-red-500/30 rounded-xl p-4 mt-4">
                 <div className="flex items-center space-x-2 mb-2">
                   <AlertTriangle className="w-5 h-5 text-red-400" />
-                  <h4 className="text-red-400 font-medium">Ошибка входа</h4>
+                  <h4 className="text-red-400 font-medium">{t('auth.testErrorTitle')}</h4>
                 </div>
                 <p className="text-red-300 text-sm">{testError}</p>
               </div>
@@ -516,7 +514,7 @@ const Auth: React.FC<AuthProps> = ({ onAuthSuccess }) => {
 
             {/* Список тестовых аккаунтов */}
             <div className="bg-green-500/10 border border-green-500/20 rounded-xl p-4 mt-4">
-              <h4 className="text-white font-medium mb-3">🧪 Тестовые аккаунты:</h4>
+              <h4 className="text-white font-medium mb-3">{t('auth.testAccounts')}</h4>
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between items-center p-2 bg-white/5 rounded-lg">
                   <span className="text-green-300 font-mono">tester1</span>
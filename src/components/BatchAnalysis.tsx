@@ -0,0 +1,455 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, CheckCircle, ExternalLink, FileText, Layers, Loader2, RefreshCw, User, XCircle } from 'lucide-react';
+import { isAiGatewayError } from '../lib/aiGateway';
+import {
+  BATCH_CONCURRENCY,
+  BATCH_MAX_VACANCIES,
+  BatchRow,
+  analyzeBatchVacancy,
+  generateBatchLetter,
+  getBatchStatusText,
+  getTopRowsForLetters,
+  parseBatchUrls,
+  rankBatchRows,
+  runWithConcurrency
+} from '../lib/batchAnalysis';
+import { listSavedResumes } from '../lib/resumeStorage';
+import { SavedResume } from '../types/savedResume';
+import { getScoreColor } from '../types/generation';
+import { useI18n } from '../hooks/useI18n';
+
+interface BatchAnalysisProps {
+  userId: string;
+  onClose: () => void; // Возврат в личный кабинет
+  onUploadResume: () => void; // Переход к загрузке резюме, если сохраненных нет
+}
+
+const STATUS_STYLES: Record<BatchRow['status'], string> = {
+  queued: 'bg-gray-500/20 text-gray-300',
+  analysing: 'bg-blue-500/20 text-blue-300',
+  scored: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300'
+};
+
+/**
+ * Пакетный анализ вакансий
+ *
+ * Пользователь вставляет до 20 ссылок, каждая проходит анализ и скорринг
+ * с выбранным резюме, результаты выводятся таблицей по убыванию балла.
+ * Для лучших N вакансий письма генерируются и сохраняются одной кнопкой.
+ */
+const BatchAnalysis: React.FC<BatchAnalysisProps> = ({ userId, onClose, onUploadResume }) => {
+  const { t, locale } = useI18n();
+  const [resumes, setResumes] = useState<SavedResume[]>([]);
+  const [selectedResumeId, setSelectedResumeId] = useState<string>('');
+  const [isLoadingResumes, setIsLoadingResumes] = useState(true);
+  const [urlsText, setUrlsText] = useState('');
+  const [inputErrors, setInputErrors] = useState<string[]>([]);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isGeneratingLetters, setIsGeneratingLetters] = useState(false);
+  const [topCount, setTopCount] = useState(5);
+  const [error, setError] = useState<string | null>(null);
+
+  // Отмена запросов пакета при размонтировании компонента
+  const abortControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Загружаем сохраненные резюме, по умолчанию выбираем основное
+  useEffect(() => {
+    let cancelled = false;
+
+    listSavedResumes(userId)
+      .then(savedResumes => {
+        if (cancelled) return;
+        setResumes(savedResumes);
+        const defaultResume = savedResumes.find(resume => resume.is_default) ?? savedResumes[0];
+        setSelectedResumeId(defaultResume?.id ?? '');
+      })
+      .catch((err: unknown) => {
+        console.error('❌ Ошибка загрузки резюме для пакетного анализа:', err);
+        if (!cancelled) setError(t('batch.resumesLoadFailed', { message: err instanceof Error ? err.message : String(err) }));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingResumes(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, t]);
+
+  const selectedResume = resumes.find(resume => resume.id === selectedResumeId) ?? null;
+  const rankedRows = rankBatchRows(rows);
+  const scoredCount = rows.filter(row => row.status === 'scored').length;
+  const finishedCount = rows.filter(row => row.status === 'scored' || row.status === 'failed').length;
+  const rowsForLetters = getTopRowsForLetters(rows, topCount);
+
+  const updateRow = (id: string, patch: Partial<BatchRow>) => {
+    setRows(prev => prev.map(row => (row.id === id ? { ...row, ...patch } : row)));
+  };
+
+  /**
+   * Анализ и скорринг одной вакансии с обновлением статуса строки
+   */
+  const processRow = async (row: BatchRow, signal: AbortSignal) => {
+    if (!selectedResume) return;
+
+    updateRow(row.id, { status: 'analysing', error: undefined });
+
+    try {
+      const { jobData, scoring } = await analyzeBatchVacancy(row, selectedResume.resume_data_json, userId, { signal });
+      updateRow(row.id, { status: 'scored', jobData, scoring });
+    } catch (err) {
+      if (isAiGatewayError(err) && err.code === 'aborted') {
+        updateRow(row.id, { status: 'queued' });
+        return;
+      }
+
+      console.error('❌ Ошибка пакетного анализа вакансии:', row.url, err);
+      updateRow(row.id, { status: 'failed', error: (err instanceof Error && err.message) || t('batch.analysisFailed') });
+    }
+  };
+
+  /**
+   * Запуск обработки строк с ограничением параллельных запросов
+   */
+  const runRows = async (rowsToProcess: BatchRow[]) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsRunning(true);
+    try {
+      await runWithConcurrency(rowsToProcess, BATCH_CONCURRENCY, row => processRow(row, controller.signal), controller.signal);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        setIsRunning(false);
+      }
+    }
+  };
+
+  /**
+   * Старт пакетного анализа по вставленным ссылкам
+   */
+  const startBatch = async () => {
+    if (!selectedResume) {
+      setError(t('batch.selectResume'));
+      return;
+    }
+
+    const { rows: parsedRows, errors } = parseBatchUrls(urlsText, locale);
+    setInputErrors(errors);
+    setError(null);
+
+    if (parsedRows.length === 0) {
+      setError(t('batch.noSupportedUrls'));
+      return;
+    }
+
+    console.log('📦 Запуск пакетного анализа:', parsedRows.length, 'вакансий');
+    setRows(parsedRows);
+    await runRows(parsedRows);
+  };
+
+  const stopBatch = () => {
+    abortControllerRef.current?.abort();
+    setIsRunning(false);
+    setIsGeneratingLetters(false);
+  };
+
+  /**
+   * Повтор строк с ошибкой и продолжение остановленного пакета
+   */
+  const resumeBatch = async () => {
+    const pendingRows = rows.filter(row => row.status === 'failed' || row.status === 'queued');
+    setRows(prev => prev.map(row => (row.status === 'failed' ? { ...row, status: 'queued', error: undefined } : row)));
+    await runRows(pendingRows);
+  };
+
+  /**
+   * Генерация и сохранение писем для лучших N вакансий
+   */
+  const generateTopLetters = async () => {
+    if (!selectedResume || rowsForLetters.length === 0) return;
+
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsGeneratingLetters(true);
+    setError(null);
+    setRows(prev => prev.map(row => (
+      rowsForLetters.some(target => target.id === row.id)
+        ? { ...row, letterStatus: 'generating', letterError: undefined }
+        : row
+    )));
+
+    try {
+      await runWithConcurrency(rowsForLetters, BATCH_CONCURRENCY, async row => {
+        try {
+          const generationId = await generateBatchLetter(row, selectedResume.resume_data_json, userId, {
+            signal: controller.signal
+          }, locale);
+          updateRow(row.id, { letterStatus: 'saved', generationId });
+        } catch (err) {
+          if (isAiGatewayError(err) && err.code === 'aborted') {
+            updateRow(row.id, { letterStatus: undefined });
+            return;
+          }
+
+          console.error('❌ Ошибка генерации письма для вакансии:', row.url, err);
+          updateRow(row.id, { letterStatus: 'failed', letterError: err instanceof Error ? err.message : String(err) });
+        }
+      }, controller.signal);
+    } finally {
+      // После остановки часть строк так и не взята в работу
+      setRows(prev => prev.map(row => (row.letterStatus === 'generating' ? { ...row, letterStatus: undefined } : row)));
+      if (abortControllerRef.current === controller) {
+        setIsGeneratingLetters(false);
+      }
+    }
+  };
+
+  const renderScore = (score: number | undefined) => (
+    <span className={`font-semibold ${getScoreColor(score ?? null)}`}>
+      {score === undefined ? '—' : score}
+    </span>
+  );
+
+  const renderLetterCell = (row: BatchRow) => {
+    switch (row.letterStatus) {
+      case 'generating':
+        return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />;
+      case 'saved':
+        return <span title={t('batch.letterSaved')}><CheckCircle className="w-4 h-4 text-green-400" /></span>;
+      case 'failed':
+        return <span title={row.letterError}><XCircle className="w-4 h-4 text-red-400" /></span>;
+      default:
+        return <span className="text-gray-500">—</span>;
+    }
+  };
+
+  if (isLoadingResumes) {
+    return (
+      <div className="text-center py-8">
+        <Loader2 className="w-8 h-8 text-blue-400 animate-spin mx-auto mb-4" />
+        <p className="text-gray-300">{t('batch.loadingResumes')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onClose}
+          className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl transition-colors text-gray-300 hover:text-white"
+        >
+          <User className="w-4 h-4" />
+          <span className="text-sm">{t('batch.dashboard')}</span>
+        </button>
+      </div>
+
+      <div className="text-center">
+        <div className="w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-500 rounded-2xl flex items-center justify-center mx-auto mb-4">
+          <Layers className="w-8 h-8 text-white" />
+        </div>
+        <h2 className="text-2xl font-bold text-white mb-2">{t('batch.title')}</h2>
+        <p className="text-gray-300">
+          {t('batch.subtitle', { max: BATCH_MAX_VACANCIES })}
+        </p>
+      </div>
+
+      {resumes.length === 0 ? (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-6 text-center">
+          <p className="text-yellow-300 mb-4">{t('batch.noResumes')}</p>
+          <button
+            onClick={onUploadResume}
+            className="px-6 py-3 bg-blue-600/20 hover:bg-blue-600/30 border border-blue-500/30 text-blue-300 rounded-xl transition-all"
+          >
+            {t('batch.uploadResume')}
+          </button>
+        </div>
+      ) : (
+        <>
+          {/* Выбор резюме */}
+          <div>
+            <label className="block text-gray-300 text-sm mb-2">{t('batch.resume')}</label>
+            <select
+              value={selectedResumeId}
+              onChange={(e) => setSelectedResumeId(e.target.value)}
+              disabled={isRunning || isGeneratingLetters}
+              className="w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl px-4 py-3 text-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
+            >
+              {resumes.map(resume => (
+                <option key={resume.id} value={resume.id}>
+                  {resume.version_label}{resume.is_default ? ` (${t('batch.defaultResume')})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Список ссылок */}
+          <div>
+            <label className="block text-gray-300 text-sm mb-2">{t('batch.urls')}</label>
+            <textarea
+              value={urlsText}
+              onChange={(e) => setUrlsText(e.target.value)}
+              disabled={isRunning}
+              rows={6}
+              placeholder={'https://hh.ru/vacancy/123456\nhttps://career.habr.com/vacancies/123456'}
+              className="w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl px-4 py-3 text-white placeholder-gray-400 font-mono text-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
+            />
+          </div>
+
+          {inputErrors.length > 0 && (
+            <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-4 text-yellow-300 text-sm space-y-1">
+              {inputErrors.map(inputError => (
+                <p key={inputError}>• {inputError}</p>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-500/20 border border-red-500/30 rounded-2xl p-4 flex items-center space-x-2 text-red-400">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3">
+            {isRunning || isGeneratingLetters ? (
+              <button
+                onClick={stopBatch}
+                className="flex-1 py-4 px-6 rounded-2xl font-semibold bg-red-600/20 hover:bg-red-600/30 border border-red-500/30 text-red-300 transition-all"
+              >
+                {t('batch.stop')}
+              </button>
+            ) : (
+              <motion.button
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={startBatch}
+                disabled={!urlsText.trim() || !selectedResume}
+                className="flex-1 py-4 px-6 rounded-2xl font-semibold bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('batch.start')}
+              </motion.button>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Таблица результатов */}
+      {rows.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm text-gray-300">
+            <span>
+              {t('batch.progress', { finished: finishedCount, total: rows.length, scored: scoredCount })}
+            </span>
+            {isRunning && <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />}
+          </div>
+
+          <div className="overflow-x-auto bg-white/5 border border-white/10 rounded-2xl">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left border-b border-white/10">
+                  <th className="p-3">#</th>
+                  <th className="p-3">{t('batch.column.vacancy')}</th>
+                  <th className="p-3">{t('batch.column.status')}</th>
+                  <th className="p-3 text-center">{t('batch.column.total')}</th>
+                  <th className="p-3 text-center">{t('batch.column.hard')}</th>
+                  <th className="p-3 text-center">{t('batch.column.soft')}</th>
+                  <th className="p-3 text-center">{t('batch.column.experience')}</th>
+                  <th className="p-3 text-center">{t('batch.column.position')}</th>
+                  <th className="p-3 text-center">{t('batch.column.letter')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rankedRows.map((row, index) => {
+                  const breakdown = row.scoring?.scoring_result.breakdown;
+                  return (
+                    <tr key={row.id} className="border-b border-white/5 last:border-0">
+                      <td className="p-3 text-gray-400">{index + 1}</td>
+                      <td className="p-3">
+                        <div className="text-white font-medium">
+                          {row.jobData?.job_title || row.siteName}
+                        </div>
+                        <div className="flex items-center space-x-1 text-gray-400 text-xs">
+                          <span>{row.jobData?.company_name || row.url}</span>
+                          <a href={row.url} target="_blank" rel="noopener noreferrer" className="hover:text-blue-300">
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        </div>
+                        {row.error && <div className="text-red-400 text-xs mt-1">{row.error}</div>}
+                      </td>
+                      <td className="p-3">
+                        <span className={`inline-flex items-center space-x-1 px-2 py-1 rounded-lg text-xs ${STATUS_STYLES[row.status]}`}>
+                          {row.status === 'analysing' && <Loader2 className="w-3 h-3 animate-spin" />}
+                          <span>{getBatchStatusText(row.status, locale)}</span>
+                        </span>
+                      </td>
+                      <td className="p-3 text-center">{renderScore(row.scoring?.scoring_result.total_score)}</td>
+                      <td className="p-3 text-center">{renderScore(breakdown?.hard_skills.score)}</td>
+                      <td className="p-3 text-center">{renderScore(breakdown?.soft_skills.score)}</td>
+                      <td className="p-3 text-center">{renderScore(breakdown?.experience_match.score)}</td>
+                      <td className="p-3 text-center">{renderScore(breakdown?.position_match.score)}</td>
+                      <td className="p-3">
+                        <div className="flex justify-center">{renderLetterCell(row)}</div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {!isRunning && rows.some(row => row.status === 'failed' || row.status === 'queued') && (
+            <button
+              onClick={resumeBatch}
+              className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl transition-colors text-gray-300 text-sm"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>{t('batch.continue')}</span>
+            </button>
+          )}
+
+          {/* Письма для лучших вакансий */}
+          {scoredCount > 0 && (
+            <div className="bg-green-500/10 border border-green-500/20 rounded-2xl p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+              <div className="flex items-center space-x-2 text-gray-300 text-sm flex-1">
+                <span>{t('batch.topLettersBefore')}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={BATCH_MAX_VACANCIES}
+                  value={topCount}
+                  onChange={(e) => setTopCount(Math.min(BATCH_MAX_VACANCIES, Math.max(1, Number(e.target.value) || 1)))}
+                  disabled={isGeneratingLetters}
+                  className="w-16 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white text-center"
+                />
+                <span>{t('batch.topLettersAfter')}</span>
+              </div>
+              <button
+                onClick={generateTopLetters}
+                disabled={isRunning || isGeneratingLetters || rowsForLetters.length === 0}
+                className="flex items-center justify-center space-x-2 px-4 py-3 bg-green-600/20 hover:bg-green-600/30 border border-green-500/30 rounded-xl text-green-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isGeneratingLetters ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+                <span>
+                  {rowsForLetters.length > 0
+                    ? t('batch.createLetters', { count: rowsForLetters.length })
+                    : t('batch.lettersCreated')}
+                </span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchAnalysis;
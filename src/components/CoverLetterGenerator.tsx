@@ -1,14 +1,53 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FileText, Send, Edit3, Save, X, CheckCircle, AlertCircle, Loader2, Brain, Sparkles } from 'lucide-react';
+import { FileText, Send, Edit3, Save, X, CheckCircle, AlertCircle, Loader2, Brain, Sparkles, Plus, Undo2, Redo2, UserCog } from 'lucide-react';
 import { ResumeData, getFullName } from '../types/resumeData';
+import { generateLetter, isAiGatewayError, LetterCustomization, LetterLength, LetterStyle } from '../lib/aiGateway';
+import {
+  LETTER_LENGTH_TITLE_KEYS,
+  LETTER_STYLE_TITLE_KEYS,
+  LetterVariant,
+  LetterVariantConfig,
+  MAX_LETTER_VARIANTS,
+  MAX_STORED_LETTER_VARIANTS
+} from '../types/letterVariant';
+import { createLetterVariant, markPrimaryVariant } from '../lib/letterVariants';
+import { getLetterProfileSettings, LetterProfile } from '../types/letterProfile';
+import { listLetterProfiles } from '../lib/letterProfiles';
+import {
+  createLetterHistory,
+  LetterHistory,
+  pushLetterHistory,
+  redoLetterHistory,
+  undoLetterHistory
+} from '../lib/letterRewrite';
+import {
+  detectResumeLanguage,
+  detectVacancyLanguage,
+  LETTER_LANGUAGE_NAME_KEYS,
+  LETTER_LANGUAGE_TITLES,
+  LetterLanguage,
+  suggestLetterLanguage
+} from '../lib/letterLanguage';
+import { useI18n } from '../hooks/useI18n';
+import LetterVariantsComparison from './LetterVariantsComparison';
+import LetterFragmentEditor from './LetterFragmentEditor';
+import LetterProfileEditor from './LetterProfileEditor';
 
 interface CoverLetterGeneratorProps {
   onGenerationComplete: (letter: string) => void;
   onEditingStateChange: (isEditing: boolean, hasUnsavedChanges: boolean) => void;
+  onVariantsChange: (variants: LetterVariant[] | null) => void;
+  onLanguageChange: (language: LetterLanguage) => void;
+  /** Профиль голоса основного варианта (null - пресет стиля) */
+  onProfileChange: (profileId: string | null) => void;
   savedLetter: string;
+  savedVariants: LetterVariant[] | null;
+  savedLanguage: LetterLanguage | null;
   resumeData: ResumeData | null;
   jobData: any;
+  /** Без пользователя профили голоса недоступны */
+  userId?: string;
 }
 
 /**
@@ -22,6 +61,13 @@ interface CoverLetterGeneratorProps {
  *   - Навыки для акцента (лимит 4)
  * - Интерактивное редактирование сгенерированного письма
  * - Отслеживание состояния редактирования для Dashboard
+ * - Параллельная генерация 2-4 вариантов (разные стили и длины) со сравнением
+ *   и сборкой письма из абзацев разных вариантов
+ * - AI-правки выделенных фрагментов с отменой и повтором
+ * - Язык письма (предлагается по языку вакансии); резюме на другом языке
+ *   переводится на сервере перед генерацией
+ * - Профили голоса пользователя (образцы абзацев, стоп-слова, приветствие,
+ *   подпись, максимальная длина) выбираются вместо пресетов стиля
  * 
  * Логика работы:
  * 1. Пользователь настраивает стиль и акценты (опционально)
@@ -32,10 +78,18 @@ interface CoverLetterGeneratorProps {
 const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({ 
   onGenerationComplete, 
   onEditingStateChange,
+  onVariantsChange,
+  onLanguageChange,
+  onProfileChange,
   savedLetter, 
+  savedVariants,
+  savedLanguage,
   resumeData, 
-  jobData 
+  jobData,
+  userId
 }) => {
+  const { t } = useI18n();
+
   // Основные состояния
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedLetter, setGeneratedLetter] = useState(savedLetter || '');
@@ -45,9 +99,23 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
   const [isEditing, setIsEditing] = useState(false);
   const [editedLetter, setEditedLetter] = useState('');
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+
+  // История правок письма (AI-правки фрагментов и ручное редактирование)
+  const [letterHistory, setLetterHistory] = useState<LetterHistory>(() => createLetterHistory(savedLetter || ''));
   
   // НОВЫЕ состояния для настроек письма
-  const [letterStyle, setLetterStyle] = useState<'neutral' | 'creative' | 'startup' | 'formal'>('neutral');
+  const [letterStyle, setLetterStyle] = useState<LetterStyle>('neutral');
+  const [letterLength, setLetterLength] = useState<LetterLength>('medium');
+  const [letterLanguage, setLetterLanguage] = useState<LetterLanguage>(() => savedLanguage ?? suggestLetterLanguage(jobData));
+
+  // Профили голоса: выбранный профиль заменяет пресет стиля (letterStyle остается neutral)
+  const [profiles, setProfiles] = useState<LetterProfile[]>([]);
+  const [letterProfile, setLetterProfile] = useState<LetterProfile | null>(null);
+  const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+
+  // Дополнительные варианты письма (кроме основного стиля и длины)
+  const [extraVariantConfigs, setExtraVariantConfigs] = useState<LetterVariantConfig[]>([]);
+  const [variants, setVariants] = useState<LetterVariant[]>(savedVariants || []);
   
   // Состояния для акцентов
   const [selectedExperience, setSelectedExperience] = useState<string[]>([]);
@@ -66,14 +134,39 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
     return `${day}${month}${year}_${hours}${minutes}`;
   };
 
+  // Отмена запроса генерации при размонтировании компонента
+  const abortControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Восстановление сохраненного письма при монтировании
   useEffect(() => {
     if (savedLetter && !generatedLetter) {
       setGeneratedLetter(savedLetter);
       setEditedLetter(savedLetter);
+      setLetterHistory(createLetterHistory(savedLetter));
     }
   }, [savedLetter, generatedLetter]);
 
+  // Загрузка профилей голоса пользователя
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+
+    listLetterProfiles(userId)
+      .then(data => {
+        if (!cancelled) setProfiles(data);
+      })
+      .catch((err: any) => {
+        console.error('❌ Ошибка загрузки профилей письма:', err);
+        if (!cancelled) setError(t('letterProfile.loadFailed', { message: err.message }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, t]);
+
   // Уведомление родительского компонента о состоянии редактирования
   useEffect(() => {
     onEditingStateChange(isEditing, hasUnsavedChanges);
@@ -84,7 +177,7 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
    */
   const generateCoverLetter = async () => {
     if (!resumeData || !jobData) {
-      setError('Отсутствуют данные резюме или вакансии');
+      setError(t('letter.missingData'));
       return;
     }
 
@@ -93,46 +186,70 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
 
     try {
       const userId = generateDevUserId();
+      const configs: LetterVariantConfig[] = [
+        { style: letterStyle, length: letterLength, profile: letterProfile },
+        ...extraVariantConfigs
+      ];
       
-      // Формируем payload с настройками стиля и акцентов
-      const requestPayload = {
-        resume_data: resumeData,
-        job_data: jobData,
-        user_id: userId,
-        customization: {
-          letter_style: letterStyle,
-          highlight_experience: selectedExperience,
-          highlight_education: selectedEducation,
-          highlight_skills: selectedSkills
-        }
-      };
-
-      console.log('📤 Генерация письма с настройками:', requestPayload);
-
-      const response = await fetch('https://77xihg.buildship.run/third-cv-generation', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestPayload),
+      // Формируем настройки стиля (или профиля) и акцентов для каждого варианта
+      const buildCustomization = (config: LetterVariantConfig): LetterCustomization => ({
+        letter_style: config.style,
+        letter_length: config.length,
+        letter_language: letterLanguage,
+        ...(config.profile && { letter_profile: getLetterProfileSettings(config.profile) }),
+        highlight_experience: selectedExperience,
+        highlight_education: selectedEducation,
+        highlight_skills: selectedSkills
       });
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      console.log('📤 Генерация письма с настройками:', configs.map(buildCustomization));
+
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+      const signal = abortControllerRef.current.signal;
+
+      // Варианты генерируются параллельно; неудача одного не отменяет остальные
+      const results = await Promise.allSettled(configs.map(config => generateLetter(
+        { resumeData, jobData, userId, customization: buildCustomization(config) },
+        { signal }
+      )));
+
+      if (signal.aborted) return;
+
+      const generated = results.flatMap((result, index) => result.status === 'fulfilled'
+        ? [createLetterVariant(result.value.letter_text, configs[index])]
+        : []);
+
+      if (generated.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
       }
 
-      const data = await response.json();
-      const letter = data.letter_text || data.cover_letter || data.letter || 'Письмо не сгенерировано';
-      
+      const failedCount = results.length - generated.length;
+      if (failedCount > 0) {
+        console.warn('⚠️ Не все варианты письма сгенерированы:', results);
+        setError(t('letter.variantsFailed', { failed: failedCount, total: results.length }));
+      }
+
+      // Один вариант хранится как обычное письмо, без списка вариантов
+      const nextVariants = generated.length > 1 ? markPrimaryVariant(generated, generated[0].id) : [];
+      const letter = generated[0].letter_text;
+
+      setVariants(nextVariants);
+      onVariantsChange(nextVariants.length > 0 ? nextVariants : null);
       setGeneratedLetter(letter);
       setEditedLetter(letter);
+      setLetterHistory(createLetterHistory(letter));
+      onLanguageChange(letterLanguage);
+      onProfileChange(generated[0].profile_id ?? null);
       onGenerationComplete(letter);
       
-      console.log('✅ Письмо сгенерировано успешно');
+      console.log('✅ Письмо сгенерировано успешно, вариантов:', generated.length);
       
     } catch (err: any) {
+      if (isAiGatewayError(err) && err.code === 'aborted') return;
+
       console.error('❌ Ошибка генерации письма:', err);
-      setError(`Не удалось сгенерировать письмо: ${err.message}`);
+      setError(t('letter.failed', { message: err.message }));
     } finally {
       setIsGenerating(false);
     }
@@ -149,12 +266,74 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
 
   /**
    * Сохранить изменения
+   *
+   * Правки относятся к основному варианту - его текст обновляется вместе с письмом
    */
   const saveChanges = () => {
-    setGeneratedLetter(editedLetter);
     setIsEditing(false);
     setHasUnsavedChanges(false);
-    onGenerationComplete(editedLetter);
+    showLetter(pushLetterHistory(letterHistory, editedLetter));
+  };
+
+  /**
+   * Показ состояния письма из истории
+   *
+   * Текст основного варианта обновляется вместе с письмом
+   */
+  const showLetter = (history: LetterHistory) => {
+    const letter = history.present;
+
+    setLetterHistory(history);
+    setGeneratedLetter(letter);
+    setEditedLetter(letter);
+    onGenerationComplete(letter);
+
+    if (variants.length > 0) {
+      updateVariants(variants.map(variant => (
+        variant.is_primary ? { ...variant, letter_text: letter } : variant
+      )));
+    }
+  };
+
+  /**
+   * Применение принятой AI-правки фрагмента
+   */
+  const applyFragmentRewrite = (letter: string) => {
+    console.log('✅ AI-правка фрагмента принята');
+    showLetter(pushLetterHistory(letterHistory, letter));
+  };
+
+  const undoLetterChange = () => showLetter(undoLetterHistory(letterHistory));
+  const redoLetterChange = () => showLetter(redoLetterHistory(letterHistory));
+
+  /**
+   * Обновление списка вариантов с уведомлением Dashboard
+   */
+  const updateVariants = (nextVariants: LetterVariant[]) => {
+    setVariants(nextVariants);
+    onVariantsChange(nextVariants.length > 0 ? nextVariants : null);
+  };
+
+  /**
+   * Выбор основного варианта: его текст становится письмом
+   */
+  const selectPrimaryVariant = (variantId: string) => {
+    const primary = variants.find(variant => variant.id === variantId);
+    if (!primary) return;
+
+    updateVariants(markPrimaryVariant(variants, variantId));
+    onProfileChange(primary.profile_id ?? null);
+    setGeneratedLetter(primary.letter_text);
+    setEditedLetter(primary.letter_text);
+    setLetterHistory(createLetterHistory(primary.letter_text));
+    onGenerationComplete(primary.letter_text);
+  };
+
+  /**
+   * Добавление варианта, собранного из абзацев
+   */
+  const addMergedVariant = (variant: LetterVariant) => {
+    updateVariants([...variants, variant]);
   };
 
   /**
@@ -179,6 +358,10 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
    */
   const resetAllSettings = () => {
     setLetterStyle('neutral');
+    setLetterLength('medium');
+    setLetterProfile(null);
+    setLetterLanguage(suggestLetterLanguage(jobData));
+    setExtraVariantConfigs([]);
     setSelectedExperience([]);
     setSelectedEducation([]);
     setSelectedSkills([]);
@@ -186,8 +369,8 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
 
   // Получение опций для dropdown из данных резюме
   const experienceOptions = resumeData?.experience.map((exp, index) => ({
-    value: `${exp.position} в ${exp.company}`,
-    label: `${exp.position} в ${exp.company}`,
+    value: t('letter.experienceAt', { position: exp.position, company: exp.company }),
+    label: t('letter.experienceAt', { position: exp.position, company: exp.company }),
     key: `exp-${index}`
   })) || [];
 
@@ -206,6 +389,81 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
     key: `skill-${index}`
   }));
 
+  // Функции для работы с профилями голоса
+  const selectStyle = (style: LetterStyle) => {
+    setLetterStyle(style);
+    setLetterProfile(null);
+  };
+
+  const selectProfile = (profile: LetterProfile) => {
+    setLetterStyle('neutral');
+    setLetterProfile(profile);
+  };
+
+  /**
+   * Обновление списка профилей после редактора: выбранные профили
+   * заменяются свежими версиями, удаленные - сбрасываются на пресет
+   */
+  const handleProfilesChange = (nextProfiles: LetterProfile[]) => {
+    const refresh = (profile: LetterProfile | null | undefined) => (
+      profile ? nextProfiles.find(item => item.id === profile.id) ?? null : null
+    );
+
+    setProfiles(nextProfiles);
+    setLetterProfile(refresh(letterProfile));
+    setExtraVariantConfigs(prev => prev.map(config => ({ ...config, profile: refresh(config.profile) })));
+  };
+
+  // Значение select для варианта: пресет стиля или "profile:<id>"
+  const PROFILE_OPTION_PREFIX = 'profile:';
+
+  const getVariantOptionValue = (config: LetterVariantConfig) => (
+    config.profile ? `${PROFILE_OPTION_PREFIX}${config.profile.id}` : config.style
+  );
+
+  const selectVariantOption = (index: number, value: string) => {
+    const profile = value.startsWith(PROFILE_OPTION_PREFIX)
+      ? profiles.find(item => item.id === value.slice(PROFILE_OPTION_PREFIX.length)) ?? null
+      : null;
+    updateVariantConfig(index, profile ? { style: 'neutral', profile } : { style: value as LetterStyle, profile: null });
+  };
+
+  // Функции для работы с дополнительными вариантами
+  const addVariantConfig = () => {
+    if (extraVariantConfigs.length < MAX_LETTER_VARIANTS - 1) {
+      setExtraVariantConfigs(prev => [...prev, { style: letterStyle, length: letterLength, profile: letterProfile }]);
+    }
+  };
+
+  const updateVariantConfig = (index: number, changes: Partial<LetterVariantConfig>) => {
+    setExtraVariantConfigs(prev => prev.map((config, i) => (i === index ? { ...config, ...changes } : config)));
+  };
+
+  const removeVariantConfig = (index: number) => {
+    setExtraVariantConfigs(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Быстрые наборы: тот же стиль разной длины или разные стили той же длины
+  const applyLengthPreset = () => {
+    setExtraVariantConfigs((Object.keys(LETTER_LENGTH_TITLE_KEYS) as LetterLength[])
+      .filter(length => length !== letterLength)
+      .map(length => ({ style: letterStyle, length, profile: letterProfile })));
+  };
+
+  // С выбранным профилем в набор попадают все пресеты, сколько поместится
+  const applyStylePreset = () => {
+    setExtraVariantConfigs((Object.keys(LETTER_STYLE_TITLE_KEYS) as LetterStyle[])
+      .filter(style => letterProfile || style !== letterStyle)
+      .slice(0, MAX_LETTER_VARIANTS - 1)
+      .map(style => ({ style, length: letterLength })));
+  };
+
+  const variantCount = extraVariantConfigs.length + 1;
+
+  // Язык вакансии для подсказки и язык резюме для предупреждения о переводе
+  const vacancyLanguage = detectVacancyLanguage(jobData);
+  const resumeLanguage = detectResumeLanguage(resumeData);
+
   // Функции для работы с тегами
   const removeExperience = (index: number) => {
     setSelectedExperience(prev => prev.filter((_, i) => i !== index));
@@ -241,9 +499,9 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
     <div className="space-y-6">
       {/* Заголовок */}
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-white mb-2">Генерация сопроводительного письма</h2>
+        <h2 className="text-2xl font-bold text-white mb-2">{t('letter.title')}</h2>
         <p className="text-gray-300">
-          ИИ создаст персональное письмо на основе вашего резюме и вакансии
+          {t('letter.subtitle')}
         </p>
       </div>
 
@@ -253,57 +511,216 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
           <div className="bg-gray-500/10 border border-gray-500/20 rounded-2xl p-6">
             <div className="flex items-center space-x-2 mb-4">
               <Brain className="w-6 h-6 text-purple-400" />
-              <h3 className="text-white font-semibold text-lg">🤖 Что делает ИИ:</h3>
+              <h3 className="text-white font-semibold text-lg">{t('letter.aboutTitle')}</h3>
             </div>
             <ul className="text-gray-300 space-y-2">
-              <li>• Анализирует ваши навыки и опыт из резюме</li>
-              <li>• Изучает требования и культуру компании</li>
-              <li>• Создает персональное письмо под конкретную вакансию</li>
-              <li>• Подчеркивает ключевые совпадения с требованиями</li>
-              <li>• Использует профессиональный тон и структуру</li>
-              <li>• Выделяет релевантные навыки, опыт и образование</li>
-              <li>• Возвращает структурированный ответ с метаданными</li>
+              <li>{t('letter.about.skills')}</li>
+              <li>{t('letter.about.company')}</li>
+              <li>{t('letter.about.personal')}</li>
+              <li>{t('letter.about.matches')}</li>
+              <li>{t('letter.about.tone')}</li>
+              <li>{t('letter.about.relevant')}</li>
+              <li>{t('letter.about.metadata')}</li>
             </ul>
           </div>
 
+          {/* Язык письма */}
+          <div className="bg-cyan-500/10 border border-cyan-500/20 rounded-2xl p-6">
+            <h3 className="text-cyan-400 font-semibold mb-4">{t('letter.languageTitle')}</h3>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3">
+              {(Object.keys(LETTER_LANGUAGE_TITLES) as LetterLanguage[]).map(language => (
+                <button
+                  key={language}
+                  onClick={() => setLetterLanguage(language)}
+                  className={`py-2 rounded-xl border text-sm transition-all ${
+                    letterLanguage === language
+                      ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                      : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  {LETTER_LANGUAGE_TITLES[language]}
+                  {language === vacancyLanguage && <span className="ml-1 text-xs opacity-70">{t('letter.vacancyLanguage')}</span>}
+                </button>
+              ))}
+            </div>
+
+            {resumeLanguage && resumeLanguage !== letterLanguage && (
+              <p className="text-xs text-gray-300">
+                {t('letter.resumeTranslation', {
+                  resumeLanguage: t(LETTER_LANGUAGE_NAME_KEYS[resumeLanguage]),
+                  letterLanguage: t(LETTER_LANGUAGE_NAME_KEYS[letterLanguage])
+                })}
+              </p>
+            )}
+          </div>
+
           {/* Выбор стиля письма */}
           <div className="bg-blue-500/10 border border-blue-500/20 rounded-2xl p-6">
-            <div className="flex items-center space-x-2 mb-4">
-              <FileText className="w-5 h-5 text-blue-400" />
-              <h3 className="text-blue-400 font-semibold">📝 Стиль письма</h3>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2">
+                <FileText className="w-5 h-5 text-blue-400" />
+                <h3 className="text-blue-400 font-semibold">{t('letter.styleTitle')}</h3>
+              </div>
+              {userId && (
+                <button
+                  onClick={() => setIsProfileEditorOpen(prev => !prev)}
+                  className="flex items-center space-x-1 px-3 py-1 bg-blue-600/20 hover:bg-blue-600/30 rounded-lg transition-colors text-xs text-blue-300"
+                >
+                  <UserCog className="w-4 h-4" />
+                  <span>{t('letterProfile.manage')}</span>
+                </button>
+              )}
             </div>
+
+            {userId && isProfileEditorOpen && (
+              <LetterProfileEditor
+                userId={userId}
+                profiles={profiles}
+                onProfilesChange={handleProfilesChange}
+                onClose={() => setIsProfileEditorOpen(false)}
+              />
+            )}
             
             <div className="grid grid-cols-2 gap-3 mb-4">
-              {[
-                { key: 'neutral', label: 'Нейтральный', desc: 'Классический деловой стиль' },
-                { key: 'creative', label: 'Креативный', desc: 'Яркий и запоминающийся' },
-                { key: 'startup', label: 'Стартап', desc: 'Современный и гибкий' },
-                { key: 'formal', label: 'Строгий', desc: 'Консервативный и официальный' }
-              ].map((style) => (
+              {(Object.keys(LETTER_STYLE_TITLE_KEYS) as LetterStyle[]).map((style) => (
+                <motion.button
+                  key={style}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => selectStyle(style)}
+                  className={`p-3 rounded-xl border transition-all text-left ${
+                    !letterProfile && letterStyle === style
+                      ? 'bg-blue-500/20 border-blue-500/50 text-blue-300'
+                      : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  <div className="font-medium mb-1">{t(LETTER_STYLE_TITLE_KEYS[style])}</div>
+                  <div className="text-xs opacity-80">{t(`letterStyle.${style}.description`)}</div>
+                </motion.button>
+              ))}
+              {profiles.map(profile => (
                 <motion.button
-                  key={style.key}
+                  key={profile.id}
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
-                  onClick={() => setLetterStyle(style.key as any)}
+                  onClick={() => selectProfile(profile)}
                   className={`p-3 rounded-xl border transition-all text-left ${
-                    letterStyle === style.key
+                    letterProfile?.id === profile.id
                       ? 'bg-blue-500/20 border-blue-500/50 text-blue-300'
                       : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
                   }`}
                 >
-                  <div className="font-medium mb-1">{style.label}</div>
-                  <div className="text-xs opacity-80">{style.desc}</div>
+                  <div className="font-medium mb-1">
+                    {profile.name}
+                    <span className="ml-2 text-xs opacity-70">{t('letterProfile.badge')}</span>
+                  </div>
+                  <div className="text-xs opacity-80">{t('letterProfile.description', { samples: profile.sample_paragraphs.length })}</div>
                 </motion.button>
               ))}
             </div>
             
+            {/* Длина письма */}
+            <div className="flex gap-2 mb-4">
+              {(Object.keys(LETTER_LENGTH_TITLE_KEYS) as LetterLength[]).map(length => (
+                <button
+                  key={length}
+                  onClick={() => setLetterLength(length)}
+                  className={`flex-1 py-2 rounded-xl border text-sm transition-all ${
+                    letterLength === length
+                      ? 'bg-blue-500/20 border-blue-500/50 text-blue-300'
+                      : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  {t(LETTER_LENGTH_TITLE_KEYS[length])}
+                </button>
+              ))}
+            </div>
+            
             <div className="text-sm text-blue-300">
-              ✅ Выбран стиль: <strong>{
-                letterStyle === 'neutral' ? 'Нейтральный' :
-                letterStyle === 'creative' ? 'Креативный' :
-                letterStyle === 'startup' ? 'Стартап' : 'Строгий'
-              }</strong>
+              ✅ {t('letter.selectedStyle')} <strong>{letterProfile?.name ?? t(LETTER_STYLE_TITLE_KEYS[letterStyle])}</strong>,
+              {' '}{t('letter.selectedLength')} <strong>{t(LETTER_LENGTH_TITLE_KEYS[letterLength]).toLowerCase()}</strong>
+            </div>
+          </div>
+
+          {/* Дополнительные варианты письма */}
+          <div className="bg-green-500/10 border border-green-500/20 rounded-2xl p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-green-400 font-semibold">{t('letter.variantsTitle')}</h3>
+              <span className="text-xs text-gray-400">{t('letter.variantsCount', { count: variantCount, max: MAX_LETTER_VARIANTS })}</span>
             </div>
+
+            <p className="text-gray-300 text-sm mb-4">
+              {t('letter.variantsHint')}
+            </p>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              <button
+                onClick={applyLengthPreset}
+                className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors text-xs text-gray-300"
+              >
+                {t('letter.presetLengths')}
+              </button>
+              <button
+                onClick={applyStylePreset}
+                className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition-colors text-xs text-gray-300"
+              >
+                {t('letter.presetStyles')}
+              </button>
+            </div>
+
+            {extraVariantConfigs.length > 0 && (
+              <div className="space-y-2 mb-4">
+                {extraVariantConfigs.map((config, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-gray-400 text-sm w-6">{index + 2}.</span>
+                    <select
+                      value={getVariantOptionValue(config)}
+                      onChange={(e) => selectVariantOption(index, e.target.value)}
+                      className="flex-1 bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl px-3 py-2 text-white text-sm"
+                    >
+                      <optgroup label={t('letterProfile.presetsGroup')}>
+                        {(Object.keys(LETTER_STYLE_TITLE_KEYS) as LetterStyle[]).map(style => (
+                          <option key={style} value={style}>{t(LETTER_STYLE_TITLE_KEYS[style])}</option>
+                        ))}
+                      </optgroup>
+                      {profiles.length > 0 && (
+                        <optgroup label={t('letterProfile.profilesGroup')}>
+                          {profiles.map(profile => (
+                            <option key={profile.id} value={getVariantOptionValue({ ...config, profile })}>{profile.name}</option>
+                          ))}
+                        </optgroup>
+                      )}
+                    </select>
+                    <select
+                      value={config.length}
+                      onChange={(e) => updateVariantConfig(index, { length: e.target.value as LetterLength })}
+                      className="flex-1 bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl px-3 py-2 text-white text-sm"
+                    >
+                      {(Object.keys(LETTER_LENGTH_TITLE_KEYS) as LetterLength[]).map(length => (
+                        <option key={length} value={length}>{t(LETTER_LENGTH_TITLE_KEYS[length])}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => removeVariantConfig(index)}
+                      className="p-2 text-red-400 hover:text-red-300"
+                      title={t('letter.removeVariant')}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <button
+              onClick={addVariantConfig}
+              disabled={variantCount >= MAX_LETTER_VARIANTS}
+              className="flex items-center space-x-1 px-3 py-1 bg-green-600/20 hover:bg-green-600/30 rounded-lg transition-colors text-sm text-green-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{t('letter.addVariant')}</span>
+            </button>
           </div>
 
           {/* Настройки акцентов */}
@@ -311,20 +728,20 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
             <div className="flex items-center justify-between mb-4">
               <div className="flex items-center space-x-2">
                 <Sparkles className="w-5 h-5 text-purple-400" />
-                <h3 className="text-purple-400 font-semibold">🎯 Акценты в письме</h3>
+                <h3 className="text-purple-400 font-semibold">{t('letter.highlightsTitle')}</h3>
               </div>
               <button
                 onClick={resetAllSettings}
                 className="px-3 py-1 bg-gray-500/20 hover:bg-gray-500/30 rounded-lg transition-colors text-xs text-gray-300"
               >
-                Сбросить все
+                {t('letter.resetAll')}
               </button>
             </div>
             
             <div className="space-y-4">
               {/* Опыт для акцента */}
               <div>
-                <label className="block text-gray-300 text-sm font-medium mb-2">💼 Опыт для акцента (макс. 2):</label>
+                <label className="block text-gray-300 text-sm font-medium mb-2">{t('letter.experienceLabel', { max: 2 })}</label>
                 
                 {/* Теги выбранного опыта */}
                 {selectedExperience.length > 0 && (
@@ -357,10 +774,10 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
                 >
                   <option value="">
                     {selectedExperience.length >= 2 
-                      ? 'Достигнут лимит (2/2)' 
+                      ? t('letter.limitReached', { max: 2 })
                       : experienceOptions.filter(opt => !selectedExperience.includes(opt.value)).length === 0
-                      ? 'Нет доступных вариантов'
-                      : 'Выберите опыт для акцента'
+                      ? t('letter.noOptions')
+                      : t('letter.selectExperience')
                     }
                   </option>
                   {experienceOptions
@@ -375,7 +792,7 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
 
               {/* Образование для акцента */}
               <div>
-                <label className="block text-gray-300 text-sm font-medium mb-2">🎓 Образование для акцента (макс. 2):</label>
+                <label className="block text-gray-300 text-sm font-medium mb-2">{t('letter.educationLabel', { max: 2 })}</label>
                 
                 {/* Теги выбранного образования */}
                 {selectedEducation.length > 0 && (
@@ -408,10 +825,10 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
                 >
                   <option value="">
                     {selectedEducation.length >= 2 
-                      ? 'Достигнут лимит (2/2)' 
+                      ? t('letter.limitReached', { max: 2 })
                       : educationOptions.filter(opt => !selectedEducation.includes(opt.value)).length === 0
-                      ? 'Нет доступных вариантов'
-                      : 'Выберите образование для акцента'
+                      ? t('letter.noOptions')
+                      : t('letter.selectEducation')
                     }
                   </option>
                   {educationOptions
@@ -426,7 +843,7 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
 
               {/* Навыки для акцента */}
               <div>
-                <label className="block text-gray-300 text-sm font-medium mb-2">🛠️ Навыки для акцента (макс. 4):</label>
+                <label className="block text-gray-300 text-sm font-medium mb-2">{t('letter.skillsLabel', { max: 4 })}</label>
                 
                 {/* Теги выбранных навыков */}
                 {selectedSkills.length > 0 && (
@@ -459,10 +876,10 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
                 >
                   <option value="">
                     {selectedSkills.length >= 4 
-                      ? 'Достигнут лимит (4/4)' 
+                      ? t('letter.limitReached', { max: 4 })
                       : skillOptions.filter(opt => !selectedSkills.includes(opt.value)).length === 0
-                      ? 'Нет доступных вариантов'
-                      : 'Выберите навыки для акцента'
+                      ? t('letter.noOptions')
+                      : t('letter.selectSkills')
                     }
                   </option>
                   {skillOptions
@@ -478,16 +895,16 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
               {/* Сводка выбранных настроек */}
               {(selectedExperience.length > 0 || selectedEducation.length > 0 || selectedSkills.length > 0) && (
                 <div className="bg-white/5 rounded-xl p-3 mt-4">
-                  <h4 className="text-white font-medium mb-2 text-sm">✨ Выбранные акценты:</h4>
+                  <h4 className="text-white font-medium mb-2 text-sm">{t('letter.selectedHighlights')}</h4>
                   <div className="text-xs text-gray-300 space-y-1">
                     {selectedExperience.length > 0 && (
-                      <div>💼 <strong>Опыт:</strong> {selectedExperience.join(', ')}</div>
+                      <div>💼 <strong>{t('letter.experience')}</strong> {selectedExperience.join(', ')}</div>
                     )}
                     {selectedEducation.length > 0 && (
-                      <div>🎓 <strong>Образование:</strong> {selectedEducation.join(', ')}</div>
+                      <div>🎓 <strong>{t('letter.education')}</strong> {selectedEducation.join(', ')}</div>
                     )}
                     {selectedSkills.length > 0 && (
-                      <div>🛠️ <strong>Навыки:</strong> {selectedSkills.join(', ')}</div>
+                      <div>🛠️ <strong>{t('letter.skills')}</strong> {selectedSkills.join(', ')}</div>
                     )}
                   </div>
                 </div>
@@ -511,12 +928,12 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
                 >
                   <Loader2 className="w-5 h-5" />
                 </motion.div>
-                <span>Генерируем письмо...</span>
+                <span>{variantCount > 1 ? t('letter.generatingVariants', { count: variantCount }) : t('letter.generating')}</span>
               </>
             ) : (
               <>
                 <Sparkles className="w-5 h-5" />
-                <span>Сгенерировать письмо</span>
+                <span>{variantCount > 1 ? t('letter.generateVariants', { count: variantCount }) : t('letter.generate')}</span>
               </>
             )}
           </motion.button>
@@ -528,42 +945,55 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
               <CheckCircle className="w-6 h-6 text-green-400" />
-              <span className="text-green-400 font-medium">Письмо готово!</span>
+              <span className="text-green-400 font-medium">{t('letter.ready')}</span>
             </div>
             <button
               onClick={() => {
                 setGeneratedLetter('');
                 setEditedLetter('');
+                setLetterHistory(createLetterHistory(''));
                 setError(null);
+                updateVariants([]);
                 onGenerationComplete('');
               }}
               className="text-blue-400 hover:text-blue-300 text-sm underline transition-colors"
             >
-              Сгенерировать новое
+              {t('letter.regenerate')}
             </button>
           </div>
 
+          {/* Сравнение вариантов */}
+          {variants.length > 1 && !isEditing && (
+            <LetterVariantsComparison
+              variants={variants}
+              jobData={jobData}
+              onSelectPrimary={selectPrimaryVariant}
+              onAddVariant={addMergedVariant}
+              canAddVariant={variants.length < MAX_STORED_LETTER_VARIANTS}
+            />
+          )}
+
           {/* Письмо */}
           <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
             {isEditing ? (
               /* Режим редактирования */
               <div className="space-y-4">
                 <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-white font-medium">✏️ Редактирование письма</h3>
+                  <h3 className="text-white font-medium">{t('letter.editTitle')}</h3>
                   <div className="flex space-x-2">
                     <button
                       onClick={saveChanges}
                       className="px-3 py-1 bg-green-600/20 hover:bg-green-600/30 rounded-lg transition-colors text-sm text-green-300 flex items-center space-x-1"
                     >
                       <Save className="w-3 h-3" />
-                      <span>Сохранить</span>
+                      <span>{t('common.save')}</span>
                     </button>
                     <button
                       onClick={cancelEditing}
                       className="px-3 py-1 bg-red-600/20 hover:bg-red-600/30 rounded-lg transition-colors text-sm text-red-300 flex items-center space-x-1"
                     >
                       <X className="w-3 h-3" />
-                      <span>Отмена</span>
+                      <span>{t('common.cancel')}</span>
                     </button>
                   </div>
                 </div>
@@ -572,13 +1002,13 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
                   value={editedLetter}
                   onChange={(e) => handleLetterChange(e.target.value)}
                   className="w-full h-96 bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl p-4 text-white resize-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
-                  placeholder="Редактируйте текст письма..."
+                  placeholder={t('letter.editPlaceholder')}
                 />
                 
                 {hasUnsavedChanges && (
                   <div className="text-yellow-400 text-sm flex items-center space-x-1">
                     <AlertCircle className="w-4 h-4" />
-                    <span>У вас есть несохраненные изменения</span>
+                    <span>{t('letter.unsavedChanges')}</span>
                   </div>
                 )}
               </div>
@@ -586,40 +1016,68 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
               /* Режим просмотра */
               <div>
                 <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-white font-medium">📝 Сопроводительное письмо</h3>
-                  <button
-                    onClick={startEditing}
-                    className="px-3 py-1 bg-blue-600/20 hover:bg-blue-600/30 rounded-lg transition-colors text-sm text-blue-300 flex items-center space-x-1"
-                  >
-                    <Edit3 className="w-3 h-3" />
-                    <span>Редактировать</span>
-                  </button>
+                  <h3 className="text-white font-medium">
+                    {variants.length > 1 ? t('letter.primaryVariant') : t('letter.coverLetter')}
+                  </h3>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={undoLetterChange}
+                      disabled={letterHistory.past.length === 0}
+                      className="p-1.5 bg-white/5 hover:bg-white/10 rounded-lg transition-colors text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title={t('letter.undo')}
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={redoLetterChange}
+                      disabled={letterHistory.future.length === 0}
+                      className="p-1.5 bg-white/5 hover:bg-white/10 rounded-lg transition-colors text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                      title={t('letter.redo')}
+                    >
+                      <Redo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={startEditing}
+                      className="px-3 py-1 bg-blue-600/20 hover:bg-blue-600/30 rounded-lg transition-colors text-sm text-blue-300 flex items-center space-x-1"
+                    >
+                      <Edit3 className="w-3 h-3" />
+                      <span>{t('common.edit')}</span>
+                    </button>
+                  </div>
                 </div>
                 
-                <div className="text-white whitespace-pre-wrap leading-relaxed bg-white/5 rounded-xl p-4 max-h-96 overflow-y-auto">
-                  {generatedLetter}
-                </div>
+                <LetterFragmentEditor
+                  letter={generatedLetter}
+                  skills={selectedSkills}
+                  userId={generateDevUserId()}
+                  onApply={applyFragmentRewrite}
+                />
               </div>
             )}
           </div>
 
           {/* Информация о настройках */}
           <div className="bg-gray-500/10 border border-gray-500/20 rounded-xl p-4">
-            <h4 className="text-white font-medium mb-2 text-sm">⚙️ Использованные настройки:</h4>
+            <h4 className="text-white font-medium mb-2 text-sm">{t('letter.settingsTitle')}</h4>
             <div className="text-xs text-gray-300 space-y-1">
-              <div>📝 <strong>Стиль:</strong> {
-                letterStyle === 'neutral' ? 'Нейтральный' :
-                letterStyle === 'creative' ? 'Креативный' :
-                letterStyle === 'startup' ? 'Стартап' : 'Строгий'
-              }</div>
+              {letterProfile ? (
+                <div>🗣️ <strong>{t('letterProfile.settingsProfile')}</strong> {letterProfile.name}</div>
+              ) : (
+                <div>📝 <strong>{t('letter.settingsStyle')}</strong> {t(LETTER_STYLE_TITLE_KEYS[letterStyle])}</div>
+              )}
+              <div>📏 <strong>{t('letter.settingsLength')}</strong> {t(LETTER_LENGTH_TITLE_KEYS[letterLength])}</div>
+              <div>🌐 <strong>{t('letter.settingsLanguage')}</strong> {LETTER_LANGUAGE_TITLES[letterLanguage]}</div>
+              {variants.length > 1 && (
+                <div>📑 <strong>{t('letter.settingsVariants')}</strong> {variants.length}</div>
+              )}
               {selectedExperience.length > 0 && (
-                <div>💼 <strong>Акцент на опыте:</strong> {selectedExperience.join(', ')}</div>
+                <div>💼 <strong>{t('letter.settingsExperience')}</strong> {selectedExperience.join(', ')}</div>
               )}
               {selectedEducation.length > 0 && (
-                <div>🎓 <strong>Акцент на образовании:</strong> {selectedEducation.join(', ')}</div>
+                <div>🎓 <strong>{t('letter.settingsEducation')}</strong> {selectedEducation.join(', ')}</div>
               )}
               {selectedSkills.length > 0 && (
-                <div>🛠️ <strong>Акцент на навыках:</strong> {selectedSkills.join(', ')}</div>
+                <div>🛠️ <strong>{t('letter.settingsSkills')}</strong> {selectedSkills.join(', ')}</div>
               )}
             </div>
           </div>
@@ -631,7 +1089,7 @@ const CoverLetterGenerator: React.FC<CoverLetterGeneratorProps> = ({
         <div className="bg-red-500/20 border border-red-500/30 rounded-2xl p-4">
           <div className="flex items-center space-x-2 mb-2">
             <AlertCircle className="w-5 h-5 text-red-400" />
-            <h3 className="text-red-400 font-medium">Ошибка генерации</h3>
+            <h3 className="text-red-400 font-medium">{t('letter.errorTitle')}</h3>
           </div>
           <p className="text-red-300 text-sm">{error}</p>
         </div>
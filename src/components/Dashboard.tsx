@@ -1,14 +1,35 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Upload, Link2, FileText, BarChart3, Settings, User, Mail, LogOut, Plus, Calendar, Building, Star, Eye, Trash2, Search, Filter } from 'lucide-react';
+import { Upload, Link2, FileText, BarChart3, FileCheck, Settings, User, Mail, LogOut, Plus, Calendar, Building, Star, Eye, Trash2, Search, Filter, Layers, MessageSquare, List, LayoutGrid, Flag } from 'lucide-react';
 import ResumeUpload from './ResumeUpload';
 import JobAnalysis from './JobAnalysis';
 import CoverLetterGenerator from './CoverLetterGenerator';
 import MatchingResults from './MatchingResults';
+import TailoredResume from './TailoredResume';
+import InterviewPrep from './InterviewPrep';
+import InterviewQuestionList from './InterviewQuestionList';
 import FinalResults from './FinalResults';
+import BatchAnalysis from './BatchAnalysis';
+import MissingSkillsSummary from './MissingSkillsSummary';
+import ApplicationBoard from './ApplicationBoard';
+import ApplicationTimeline from './ApplicationTimeline';
+import LetterVariantsComparison from './LetterVariantsComparison';
+import LanguageSwitcher from './LanguageSwitcher';
 import { supabase } from '../lib/supabase';
+import { useI18n } from '../hooks/useI18n';
+import { isMessageKey } from '../lib/i18n';
+import { exportCoverLetterPdf } from '../lib/pdfExport';
+import { exportCoverLetterDocx } from '../lib/docxExport';
+import { exportTailoredResumePdf } from '../lib/resumePdfExport';
+import { getDefaultResume } from '../lib/resumeStorage';
+import { addApplicationEvent, getApplicationStage } from '../lib/applicationTracker';
+import { markPrimaryVariant, setPrimaryLetterVariant } from '../lib/letterVariants';
 import { ResumeData } from '../types/resumeData';
-import { Generation, GenerationSummary, getFormattedCreatedDate, getScoreColor, getStatusText, getStatusColor } from '../types/generation';
+import { TailoredResume as TailoredResumeData } from '../types/tailoredResume';
+import { InterviewPrep as InterviewPrepData } from '../types/interviewPrep';
+import { LetterVariant } from '../types/letterVariant';
+import { LetterLanguage } from '../lib/letterLanguage';
+import { ApplicationStage, Generation, GenerationSummary, getFormattedCreatedDate, getScoreColor, getStatusText, getStatusColor } from '../types/generation';
 
 interface DashboardProps {
   user: {
@@ -18,26 +39,34 @@ interface DashboardProps {
   } | null;
 }
 
-// Типы для шагов процесса
-type Step = 'dashboard' | 'upload' | 'analyze' | 'generate' | 'scoring' | 'final';
+// Типы для шагов процесса ('batch' - пакетный анализ вне пошагового мастера)
+type Step = 'dashboard' | 'upload' | 'analyze' | 'generate' | 'scoring' | 'interview' | 'tailor' | 'final' | 'batch';
 
 // Данные шагов
 const steps = [
-  { id: 'dashboard', title: 'Личный кабинет', icon: User, description: 'Просмотр сохраненных генераций и создание новых' },
-  { id: 'upload', title: 'Загрузка Резюме', icon: Upload, description: 'Загрузите ваше резюме в формате PDF или DOCX' },
-  { id: 'analyze', title: 'Загрузка вакансии', icon: Link2, description: 'Вставьте ссылку на интересную вакансию' },
-  { id: 'generate', title: 'Генерация Письма', icon: FileText, description: 'Сгенерируйте персональное сопроводительное письмо' },
-  { id: 'scoring', title: 'Скорринг', icon: BarChart3, description: 'Посмотрите анализ соответствия и рекомендации' },
-  { id: 'final', title: 'Итого', icon: Mail, description: 'Финальные результаты и отправка' }
-];
+  { id: 'dashboard', titleKey: 'steps.dashboard.title', icon: User, descriptionKey: 'steps.dashboard.description' },
+  { id: 'upload', titleKey: 'steps.upload.title', icon: Upload, descriptionKey: 'steps.upload.description' },
+  { id: 'analyze', titleKey: 'steps.analyze.title', icon: Link2, descriptionKey: 'steps.analyze.description' },
+  { id: 'generate', titleKey: 'steps.generate.title', icon: FileText, descriptionKey: 'steps.generate.description' },
+  { id: 'scoring', titleKey: 'steps.scoring.title', icon: BarChart3, descriptionKey: 'steps.scoring.description' },
+  { id: 'interview', titleKey: 'steps.interview.title', icon: MessageSquare, descriptionKey: 'steps.interview.description' },
+  { id: 'tailor', titleKey: 'steps.tailor.title', icon: FileCheck, descriptionKey: 'steps.tailor.description' },
+  { id: 'final', titleKey: 'steps.final.title', icon: Mail, descriptionKey: 'steps.final.description' }
+] as const;
 
 // Интерфейсы для сохранения данных
 interface SavedData {
   resume: File | null;
+  resumeId: string | null; // Сохраненная версия резюме из таблицы resumes
   resumeData: ResumeData | null; // Типизированные данные из резюме
   jobAnalysis: any;
   coverLetter: string;
+  letterVariants: LetterVariant[] | null; // Варианты письма, если генерировалось несколько
+  letterLanguage: LetterLanguage | null; // Язык письма, выбранный при генерации
+  letterProfileId: string | null; // Профиль голоса основного варианта письма
   matchingResults: any;
+  tailoredResume: TailoredResumeData | null; // Адаптированное под вакансию резюме
+  interviewPrep: InterviewPrepData | null; // Вопросы к собеседованию
 }
 
 /**
@@ -45,6 +74,13 @@ interface SavedData {
  * Добавлено отображение имени пользователя и кнопка выхода
  */
 const Dashboard: React.FC<DashboardProps> = ({ user }) => {
+  const { t } = useI18n();
+
+  // Название измерения скорринга; неизвестные измерения показываются как есть
+  const getDimensionTitle = (dimension: string) => {
+    const key = `scoring.dimension.${dimension}`;
+    return isMessageKey(key) ? t(key) : dimension;
+  };
   const [currentStep, setCurrentStep] = useState<Step>('dashboard');
   const [showUserMenu, setShowUserMenu] = useState(false);
   
@@ -54,8 +90,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   const [generationsError, setGenerationsError] = useState<string | null>(null);
   const [selectedGeneration, setSelectedGeneration] = useState<Generation | null>(null);
   const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'date' | 'score' | 'company'>('date');
+  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
   
   // Состояния для отслеживания завершения этапов
   const [resumeUploaded, setResumeUploaded] = useState(false);
@@ -70,10 +108,16 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   // Сохраненные данные для каждого этапа
   const [savedData, setSavedData] = useState<SavedData>({
     resume: null,
+    resumeId: null,
     resumeData: null,
     jobAnalysis: null,
     coverLetter: '',
-    matchingResults: null
+    letterVariants: null,
+    letterLanguage: null,
+    letterProfileId: null,
+    matchingResults: null,
+    tailoredResume: null,
+    interviewPrep: null
   });
 
   /**
@@ -97,7 +141,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           company_name,
           overall_score,
           title,
-          status
+          status,
+          application_stage,
+          vacancy_key:job_data_json->source->>vacancy_key,
+          job_skills:job_data_json->skills,
+          job_required_skills:job_data_json->required_skills,
+          resume_skills:resume_data_json->skills
         `)
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
@@ -108,11 +157,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       }
 
       console.log('✅ Загружено генераций:', generations?.length || 0);
-      setSavedGenerations(generations || []);
+      // JSON-поля навыков приходят как Json; их форму гарантирует валидация при сохранении
+      setSavedGenerations((generations || []) as unknown as GenerationSummary[]);
 
     } catch (err: any) {
       console.error('❌ Ошибка загрузки генераций:', err);
-      setGenerationsError(`Не удалось загрузить историю: ${err.message}`);
+      setGenerationsError(t('dashboard.loadFailed', { message: err.message }));
     } finally {
       setIsLoadingGenerations(false);
     }
@@ -144,7 +194,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
 
     } catch (err: any) {
       console.error('❌ Ошибка загрузки деталей:', err);
-      alert(`Не удалось загрузить детали: ${err.message}`);
+      alert(t('dashboard.detailsFailed', { message: err.message }));
     } finally {
       setIsLoadingDetails(false);
     }
@@ -154,7 +204,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
    * НОВАЯ ФУНКЦИЯ: Удаление генерации
    */
   const deleteGeneration = async (generationId: string) => {
-    if (!confirm('Вы уверены, что хотите удалить эту генерацию? Это действие нельзя отменить.')) {
+    if (!confirm(t('dashboard.confirmDelete'))) {
       return;
     }
 
@@ -184,14 +234,94 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
 
     } catch (err: any) {
       console.error('❌ Ошибка удаления:', err);
-      alert(`Не удалось удалить генерацию: ${err.message}`);
+      alert(t('dashboard.deleteFailed', { message: err.message }));
+    }
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Обновление этапа отклика в списке и в открытых деталях
+   */
+  const updateGenerationStage = (generationId: string, stage: ApplicationStage) => {
+    setSavedGenerations(prev => prev.map(gen => (
+      gen.id === generationId ? { ...gen, application_stage: stage } : gen
+    )));
+    setSelectedGeneration(prev => (
+      prev?.id === generationId ? { ...prev, application_stage: stage } : prev
+    ));
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Перевод отклика на другой этап с доски
+   */
+  const changeApplicationStage = async (generationId: string, stage: ApplicationStage) => {
+    if (!user?.id) return;
+
+    try {
+      console.log('📌 Перевод отклика на этап:', generationId, stage);
+
+      await addApplicationEvent(user.id, generationId, { stage });
+      updateGenerationStage(generationId, await getApplicationStage(generationId));
+
+    } catch (err: any) {
+      console.error('❌ Ошибка смены этапа отклика:', err);
+      alert(t('dashboard.stageFailed', { message: err.message }));
+    }
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Выбор основного варианта письма в сохраненной генерации
+   */
+  const selectSavedPrimaryVariant = async (variantId: string) => {
+    if (!selectedGeneration?.letter_variants_json) return;
+
+    try {
+      console.log('⭐ Выбор основного варианта письма:', selectedGeneration.id, variantId);
+
+      await setPrimaryLetterVariant(selectedGeneration.id, variantId);
+
+      const variants = markPrimaryVariant(selectedGeneration.letter_variants_json, variantId);
+      const primary = variants.find(variant => variant.is_primary);
+      setSelectedGeneration({
+        ...selectedGeneration,
+        cover_letter_text: primary?.letter_text ?? selectedGeneration.cover_letter_text,
+        letter_profile_id: primary?.profile_id ?? null,
+        letter_variants_json: variants
+      });
+
+    } catch (err: any) {
+      console.error('❌ Ошибка выбора основного варианта:', err);
+      alert(t('dashboard.variantFailed', { message: err.message }));
+    }
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Экспорт сохраненной генерации в PDF
+   */
+  const exportGenerationPdf = async (generation: Generation) => {
+    setIsExportingPdf(true);
+
+    try {
+      await exportCoverLetterPdf({
+        coverLetter: generation.cover_letter_text,
+        resumeData: generation.resume_data_json,
+        jobData: generation.job_data_json,
+        scoringResults: generation.scoring_results_json
+      });
+    } catch (err: any) {
+      console.error('❌ Ошибка экспорта PDF:', err);
+      alert(t('dashboard.pdfFailed', { message: err.message }));
+    } finally {
+      setIsExportingPdf(false);
     }
   };
 
   /**
    * НОВАЯ ФУНКЦИЯ: Начать новую генерацию
+   * 
+   * Если у пользователя есть резюме по умолчанию, подставляем его
+   * и сразу переходим к загрузке вакансии
    */
-  const startNewGeneration = () => {
+  const startNewGeneration = async () => {
     console.log('🆕 Начинаем новую генерацию');
     
     // Сбрасываем все состояния
@@ -205,11 +335,36 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     // Очищаем сохраненные данные
     setSavedData({
       resume: null,
+      resumeId: null,
       resumeData: null,
       jobAnalysis: null,
       coverLetter: '',
-      matchingResults: null
+      letterVariants: null,
+      letterLanguage: null,
+      letterProfileId: null,
+      matchingResults: null,
+      tailoredResume: null,
+      interviewPrep: null
     });
+
+    if (user?.id) {
+      try {
+        const defaultResume = await getDefaultResume(user.id);
+        if (defaultResume) {
+          console.log('📄 Используем резюме по умолчанию:', defaultResume.version_label);
+          setSavedData(prev => ({
+            ...prev,
+            resumeId: defaultResume.id,
+            resumeData: defaultResume.resume_data_json
+          }));
+          setResumeUploaded(true);
+          setCurrentStep('analyze');
+          return;
+        }
+      } catch (err: any) {
+        console.error('❌ Ошибка загрузки резюме по умолчанию:', err);
+      }
+    }
     
     // Переходим к первому шагу
     setCurrentStep('upload');
@@ -250,10 +405,11 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   };
 
   // ОБНОВЛЕННАЯ ФУНКЦИЯ - обрабатывает загрузку резюме и его данные
-  const handleResumeUpload = (data: { file: File; resumeData: ResumeData }) => {
+  const handleResumeUpload = (data: { file: File | null; resumeData: ResumeData; savedResumeId?: string | null }) => {
     setSavedData(prev => ({ 
       ...prev, 
       resume: data.file,
+      resumeId: data.savedResumeId ?? null,
       resumeData: data.resumeData 
     }));
     setResumeUploaded(true);
@@ -273,7 +429,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
         ...prev, 
         jobAnalysis: null, 
         coverLetter: '', 
-        matchingResults: null 
+        letterVariants: null,
+        letterLanguage: null,
+        letterProfileId: null,
+        matchingResults: null,
+        tailoredResume: null,
+        interviewPrep: null
       }));
     } else {
       setJobAnalyzed(true);
@@ -285,6 +446,18 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
     setLetterGenerated(true);
   };
 
+  const handleLetterVariantsChange = (letterVariants: LetterVariant[] | null) => {
+    setSavedData(prev => ({ ...prev, letterVariants }));
+  };
+
+  const handleLetterLanguageChange = (letterLanguage: LetterLanguage) => {
+    setSavedData(prev => ({ ...prev, letterLanguage }));
+  };
+
+  const handleLetterProfileChange = (letterProfileId: string | null) => {
+    setSavedData(prev => ({ ...prev, letterProfileId }));
+  };
+
   // НОВАЯ ФУНКЦИЯ: Обработчик изменения состояния редактирования письма
   const handleCoverLetterEditingStateChange = (isEditing: boolean, hasUnsavedChanges: boolean) => {
     setIsCoverLetterEditing(isEditing);
@@ -292,10 +465,19 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
   };
 
   const handleScoringComplete = (scoringData: any) => {
-    setSavedData(prev => ({ ...prev, matchingResults: scoringData }));
+    // Вопросы к собеседованию построены по прежнему скоррингу
+    setSavedData(prev => ({ ...prev, matchingResults: scoringData, interviewPrep: null }));
     setScoringCompleted(true);
   };
 
+  const handleTailoringComplete = (tailoredResume: TailoredResumeData | null) => {
+    setSavedData(prev => ({ ...prev, tailoredResume }));
+  };
+
+  const handleInterviewPrepComplete = (interviewPrep: InterviewPrepData | null) => {
+    setSavedData(prev => ({ ...prev, interviewPrep }));
+  };
+
   /**
    * НОВАЯ ФУНКЦИЯ: Обработчик успешного сохранения генерации
    */
@@ -306,7 +488,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
 
   // Переход к следующему этапу
   const goToNextStep = () => {
-    const stepOrder: Step[] = ['dashboard', 'upload', 'analyze', 'generate', 'scoring', 'final'];
+    const stepOrder: Step[] = ['dashboard', 'upload', 'analyze', 'generate', 'scoring', 'interview', 'tailor', 'final'];
     const currentIndex = stepOrder.indexOf(currentStep);
     if (currentIndex < stepOrder.length - 1) {
       setCurrentStep(stepOrder[currentIndex + 1]);
@@ -327,6 +509,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
         return letterGenerated && !isCoverLetterEditing && !hasUnsavedCoverLetterChanges;
       case 'scoring':
         return scoringCompleted;
+      case 'interview':
+      case 'tailor':
+        return true; // Необязательные этапы, можно пропустить
       case 'final':
         return false; // Последний этап
       default:
@@ -382,6 +567,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
             onUploadComplete={handleResumeUpload}
             savedFile={savedData.resume}
             savedResumeData={savedData.resumeData}
+            userId={user?.id}
+            savedResumeId={savedData.resumeId}
           />
         );
       case 'analyze':
@@ -389,6 +576,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           <JobAnalysis 
             onAnalysisComplete={handleJobAnalysis}
             savedAnalysis={savedData.jobAnalysis}
+            previousGenerations={savedGenerations}
           />
         );
       case 'generate':
@@ -397,8 +585,14 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
             onGenerationComplete={handleLetterGeneration}
             onEditingStateChange={handleCoverLetterEditingStateChange}
             savedLetter={savedData.coverLetter}
+            onVariantsChange={handleLetterVariantsChange}
+            savedVariants={savedData.letterVariants}
+            onLanguageChange={handleLetterLanguageChange}
+            savedLanguage={savedData.letterLanguage}
+            onProfileChange={handleLetterProfileChange}
             resumeData={savedData.resumeData} // Передаем структурированные данные
             jobData={savedData.jobAnalysis}
+            userId={user?.id}
           />
         );
       case 'scoring':
@@ -408,17 +602,53 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
             resumeData={savedData.resumeData} // Передаем структурированные данные
             jobData={savedData.jobAnalysis}
             savedResults={savedData.matchingResults}
+            language={savedData.letterLanguage ?? undefined}
           />
         );
+      case 'interview':
+        return (
+          <InterviewPrep
+            onPrepComplete={handleInterviewPrepComplete}
+            resumeData={savedData.resumeData}
+            jobData={savedData.jobAnalysis}
+            scoringResults={savedData.matchingResults}
+            savedPrep={savedData.interviewPrep}
+            userId={user?.id}
+          />
+        );
+      case 'tailor':
+        return (
+          <TailoredResume
+            onTailoringComplete={handleTailoringComplete}
+            resumeData={savedData.resumeData}
+            jobData={savedData.jobAnalysis}
+            scoringResults={savedData.matchingResults}
+            savedTailoredResume={savedData.tailoredResume}
+          />
+        );
+      case 'batch':
+        return user?.id ? (
+          <BatchAnalysis
+            userId={user.id}
+            onClose={returnToDashboard}
+            onUploadResume={startNewGeneration}
+          />
+        ) : null;
       case 'final':
         return (
           <FinalResults 
             coverLetter={savedData.coverLetter}
+            letterVariants={savedData.letterVariants}
+            letterLanguage={savedData.letterLanguage ?? undefined}
+            letterProfileId={savedData.letterProfileId}
             matchingResults={savedData.matchingResults}
             resumeData={savedData.resumeData}
             jobData={savedData.jobAnalysis}
+            tailoredResume={savedData.tailoredResume}
+            interviewPrep={savedData.interviewPrep}
             user={user}
             onGenerationSaved={handleGenerationSaved}
+            previousGenerations={savedGenerations}
           />
         );
       default:
@@ -434,9 +664,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       <div className="space-y-6">
         {/* Заголовок личного кабинета */}
         <div className="text-center">
-          <h2 className="text-2xl font-bold text-white mb-2">Личный кабинет</h2>
+          <h2 className="text-2xl font-bold text-white mb-2">{t('dashboard.title')}</h2>
           <p className="text-gray-300">
-            Управляйте своими сопроводительными письмами и результатами скорринга
+            {t('dashboard.subtitle')}
           </p>
         </div>
 
@@ -448,9 +678,21 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-4 px-6 rounded-2xl shadow-xl transition-all flex items-center justify-center space-x-2"
         >
           <Plus className="w-5 h-5" />
-          <span>Создать новое письмо</span>
+          <span>{t('dashboard.newLetter')}</span>
         </motion.button>
 
+        {/* Пакетный анализ нескольких вакансий */}
+        <button
+          onClick={() => setCurrentStep('batch')}
+          className="w-full bg-white/10 hover:bg-white/20 border border-white/20 text-white font-medium py-3 px-6 rounded-2xl transition-all flex items-center justify-center space-x-2"
+        >
+          <Layers className="w-5 h-5" />
+          <span>{t('dashboard.batchAnalysis')}</span>
+        </button>
+
+        {/* Недостающие навыки по всем сохраненным вакансиям */}
+        <MissingSkillsSummary generations={savedGenerations} />
+
         {/* Поиск и фильтры */}
         <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-4">
           <div className="flex flex-col sm:flex-row gap-4">
@@ -459,7 +701,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
               <input
                 type="text"
-                placeholder="Поиск по должности, компании..."
+                placeholder={t('dashboard.searchPlaceholder')}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl pl-10 pr-4 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
@@ -474,11 +716,29 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                 onChange={(e) => setSortBy(e.target.value as 'date' | 'score' | 'company')}
                 className="bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl pl-10 pr-8 py-2 text-white focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all appearance-none"
               >
-                <option value="date">По дате</option>
-                <option value="score">По баллу</option>
-                <option value="company">По компании</option>
+                <option value="date">{t('dashboard.sortDate')}</option>
+                <option value="score">{t('dashboard.sortScore')}</option>
+                <option value="company">{t('dashboard.sortCompany')}</option>
               </select>
             </div>
+
+            {/* Вид: список или доска по этапам отклика */}
+            <div className="flex bg-white/10 border border-white/20 rounded-xl p-1">
+              <button
+                onClick={() => setViewMode('list')}
+                className={`p-1.5 rounded-lg transition-colors ${viewMode === 'list' ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-white'}`}
+                title={t('dashboard.viewList')}
+              >
+                <List className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setViewMode('board')}
+                className={`p-1.5 rounded-lg transition-colors ${viewMode === 'board' ? 'bg-white/20 text-white' : 'text-gray-400 hover:text-white'}`}
+                title={t('dashboard.viewBoard')}
+              >
+                <LayoutGrid className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
 
@@ -492,7 +752,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                 transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
                 className="w-8 h-8 border-2 border-blue-500/30 border-t-blue-500 rounded-full mx-auto mb-4"
               />
-              <p className="text-gray-300">Загружаем ваши генерации...</p>
+              <p className="text-gray-300">{t('dashboard.loadingGenerations')}</p>
             </div>
           ) : generationsError ? (
             /* Состояние ошибки */
@@ -502,7 +762,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                 onClick={loadSavedGenerations}
                 className="px-4 py-2 bg-red-600/20 hover:bg-red-600/30 rounded-xl transition-colors text-red-300"
               >
-                Попробовать снова
+                {t('common.retry')}
               </button>
             </div>
           ) : filteredAndSortedGenerations.length === 0 ? (
@@ -510,12 +770,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
             <div className="text-center py-12">
               <Mail className="w-16 h-16 text-gray-400 mx-auto mb-4" />
               <h3 className="text-white font-medium mb-2">
-                {searchQuery ? 'Ничего не найдено' : 'У вас пока нет сохраненных писем'}
+                {searchQuery ? t('dashboard.nothingFound') : t('dashboard.empty')}
               </h3>
               <p className="text-gray-400 mb-6">
                 {searchQuery 
-                  ? 'Попробуйте изменить поисковый запрос'
-                  : 'Создайте свое первое сопроводительное письмо'
+                  ? t('dashboard.changeQuery')
+                  : t('dashboard.createFirstHint')
                 }
               </p>
               {!searchQuery && (
@@ -523,10 +783,17 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                   onClick={startNewGeneration}
                   className="px-6 py-3 bg-blue-600/20 hover:bg-blue-600/30 border border-blue-500/30 text-blue-300 rounded-xl transition-all"
                 >
-                  Создать первое письмо
+                  {t('dashboard.createFirst')}
                 </button>
               )}
             </div>
+          ) : viewMode === 'board' ? (
+            /* Доска откликов по этапам */
+            <ApplicationBoard
+              generations={filteredAndSortedGenerations}
+              onOpen={loadGenerationDetails}
+              onStageChange={changeApplicationStage}
+            />
           ) : (
             /* Список генераций */
             <div className="grid gap-4">
@@ -567,6 +834,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                         <span className={`px-2 py-1 rounded-lg text-xs ${getStatusColor(generation.status)} bg-current/10`}>
                           {getStatusText(generation.status)}
                         </span>
+                        <span className={`px-2 py-1 rounded-lg text-xs ${getStatusColor(generation.application_stage)} bg-current/10`}>
+                          {getStatusText(generation.application_stage)}
+                        </span>
                       </div>
                     </div>
                     
@@ -577,7 +847,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                           loadGenerationDetails(generation.id);
                         }}
                         className="p-2 hover:bg-white/10 rounded-xl transition-colors text-gray-400 hover:text-white"
-                        title="Просмотреть детали"
+                        title={t('dashboard.viewDetails')}
                       >
                         <Eye className="w-4 h-4" />
                       </button>
@@ -587,7 +857,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                           deleteGeneration(generation.id);
                         }}
                         className="p-2 hover:bg-red-500/20 rounded-xl transition-colors text-gray-400 hover:text-red-400"
-                        title="Удалить"
+                        title={t('common.delete')}
                       >
                         <Trash2 className="w-4 h-4" />
                       </button>
@@ -614,7 +884,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           <div>
             <h1 className="text-2xl font-bold text-white">JobMatch AI</h1>
             <p className="text-gray-300 text-sm">
-              Привет, <span className="text-blue-400 font-medium">{user?.firstName || 'пользователь'}</span>! 👋
+              {t('dashboard.greetingBefore')} <span className="text-blue-400 font-medium">{user?.firstName || t('dashboard.defaultName')}</span>! 👋
               {import.meta.env.DEV && (
                 <span className="ml-2 text-xs bg-yellow-500/20 text-yellow-400 px-2 py-1 rounded-lg">
                   🔧 DEV
@@ -665,15 +935,17 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                   <div className="space-y-2">
                     <button className="w-full flex items-center space-x-3 px-3 py-2 rounded-xl hover:bg-white/10 transition-colors text-gray-300 hover:text-white">
                       <Settings className="w-4 h-4" />
-                      <span>Настройки профиля</span>
+                      <span>{t('dashboard.profileSettings')}</span>
                     </button>
+
+                    <LanguageSwitcher />
                     
                     <button 
                       onClick={handleSignOut}
                       className="w-full flex items-center space-x-3 px-3 py-2 rounded-xl hover:bg-red-500/20 transition-colors text-red-400 hover:text-red-300"
                     >
                       <LogOut className="w-4 h-4" />
-                      <span>Выйти</span>
+                      <span>{t('dashboard.signOut')}</span>
                     </button>
                   </div>
                 </div>
@@ -692,8 +964,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
       )}
 
       {/* Индикатор прогресса */}
-      {/* Показываем индикатор прогресса только если не в личном кабинете */}
-      {currentStep !== 'dashboard' && (
+      {/* Показываем индикатор прогресса только в пошаговом мастере */}
+      {currentStep !== 'dashboard' && currentStep !== 'batch' && (
         <div className="px-6 py-4">
           <div className="flex items-center justify-between mb-4">
             {/* Кнопка возврата в личный кабинет */}
@@ -702,12 +974,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
               className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl transition-colors text-gray-300 hover:text-white"
             >
               <User className="w-4 h-4" />
-              <span className="text-sm">Личный кабинет</span>
+              <span className="text-sm">{t('dashboard.title')}</span>
             </button>
             
             <div className="text-center">
-              <h3 className="text-white font-medium">Создание письма</h3>
-              <p className="text-gray-400 text-sm">Шаг {steps.findIndex(s => s.id === currentStep)} из {steps.length - 1}</p>
+              <h3 className="text-white font-medium">{t('dashboard.wizardTitle')}</h3>
+              <p className="text-gray-400 text-sm">{t('dashboard.stepOf', { step: steps.findIndex(s => s.id === currentStep), total: steps.length - 1 })}</p>
             </div>
             
             <div className="w-20"></div> {/* Spacer для центрирования */}
@@ -721,7 +993,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                 (step.id === 'upload' && resumeUploaded) ||
                 (step.id === 'analyze' && jobAnalyzed) ||
                 (step.id === 'generate' && letterGenerated) ||
-                (step.id === 'scoring' && scoringCompleted);
+                (step.id === 'scoring' && scoringCompleted) ||
+                (step.id === 'interview' && !!savedData.interviewPrep) ||
+                (step.id === 'tailor' && !!savedData.tailoredResume);
               
               return (
                 <div key={step.id} className="flex flex-col items-center">
@@ -730,7 +1004,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                     whileTap={{ scale: 0.95 }}
                     onClick={() => {
                       // Разрешаем переход только на завершенные этапы или текущий
-                      const stepOrder: Step[] = ['upload', 'analyze', 'generate', 'scoring', 'final'];
+                      const stepOrder: Step[] = ['upload', 'analyze', 'generate', 'scoring', 'interview', 'tailor', 'final'];
                       const targetIndex = stepOrder.indexOf(step.id as Step);
                       const currentIndex = stepOrder.indexOf(currentStep);
                       
@@ -753,7 +1027,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                   <span className={`text-xs mt-1 text-center max-w-[60px] leading-tight ${
                     isActive ? 'text-white font-medium' : 'text-gray-400'
                   }`}>
-                    {step.title}
+                    {t(step.titleKey)}
                   </span>
                 </div>
               );
@@ -775,7 +1049,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
           {renderStepContent()}
           
           {/* Кнопка "Далее" - показываем на всех этапах кроме последнего */}
-          {currentStep !== 'final' && currentStep !== 'dashboard' && (
+          {currentStep !== 'final' && currentStep !== 'dashboard' && currentStep !== 'batch' && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
@@ -791,7 +1065,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                     : 'bg-gray-600/50 text-gray-400 cursor-not-allowed'
                 }`}
               >
-                {canProceedToNext() ? 'Далее →' : 'Завершите текущий этап'}
+                {canProceedToNext() ? t('dashboard.next') : t('dashboard.finishStep')}
               </button>
             </motion.div>
           )}
@@ -814,7 +1088,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                   transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
                   className="w-8 h-8 border-2 border-blue-500/30 border-t-blue-500 rounded-full mx-auto mb-4"
                 />
-                <p className="text-gray-300">Загружаем детали...</p>
+                <p className="text-gray-300">{t('dashboard.loadingDetails')}</p>
               </div>
             ) : (
               <div className="space-y-6">
@@ -829,7 +1103,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                       <span>{getFormattedCreatedDate(selectedGeneration)}</span>
                       {selectedGeneration.overall_score !== null && (
                         <span className={`px-2 py-1 rounded-lg font-medium ${getScoreColor(selectedGeneration.overall_score)} bg-current/10`}>
-                          Скорринг: {selectedGeneration.overall_score}%
+                          {t('dashboard.score', { score: selectedGeneration.overall_score })}
                         </span>
                       )}
                     </div>
@@ -846,22 +1120,60 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                 <div className="bg-white/5 rounded-2xl p-6">
                   <h3 className="text-white font-semibold mb-4 flex items-center space-x-2">
                     <FileText className="w-5 h-5" />
-                    <span>Сопроводительное письмо</span>
+                    <span>{t('dashboard.coverLetter')}</span>
                   </h3>
-                  <div className="bg-gray-900/50 rounded-xl p-4 max-h-60 overflow-y-auto">
-                    <pre className="text-gray-300 text-sm leading-relaxed whitespace-pre-wrap font-sans">
-                      {selectedGeneration.cover_letter_text}
-                    </pre>
+                  {selectedGeneration.letter_variants_json && selectedGeneration.letter_variants_json.length > 1 ? (
+                    <LetterVariantsComparison
+                      variants={selectedGeneration.letter_variants_json}
+                      jobData={selectedGeneration.job_data_json}
+                      onSelectPrimary={selectSavedPrimaryVariant}
+                    />
+                  ) : (
+                    <div className="bg-gray-900/50 rounded-xl p-4 max-h-60 overflow-y-auto">
+                      <pre className="text-gray-300 text-sm leading-relaxed whitespace-pre-wrap font-sans">
+                        {selectedGeneration.cover_letter_text}
+                      </pre>
+                    </div>
+                  )}
+                  <div className="mt-3 flex flex-wrap gap-3">
+                    <button
+                      onClick={() => {
+                        navigator.clipboard.writeText(selectedGeneration.cover_letter_text);
+                        alert(t('dashboard.letterCopied'));
+                      }}
+                      className="px-4 py-2 bg-blue-600/20 hover:bg-blue-600/30 rounded-xl transition-colors text-blue-300 text-sm"
+                    >
+                      {t('dashboard.copyLetter')}
+                    </button>
+                    <button
+                      onClick={() => exportGenerationPdf(selectedGeneration)}
+                      disabled={isExportingPdf}
+                      className="px-4 py-2 bg-purple-600/20 hover:bg-purple-600/30 rounded-xl transition-colors text-purple-300 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isExportingPdf ? t('dashboard.creatingPdf') : t('dashboard.downloadPdf')}
+                    </button>
+                    <button
+                      onClick={() => exportCoverLetterDocx({
+                        coverLetter: selectedGeneration.cover_letter_text,
+                        resumeData: selectedGeneration.resume_data_json,
+                        jobData: selectedGeneration.job_data_json
+                      })}
+                      className="px-4 py-2 bg-indigo-600/20 hover:bg-indigo-600/30 rounded-xl transition-colors text-indigo-300 text-sm"
+                    >
+                      {t('dashboard.downloadWord')}
+                    </button>
+                    {selectedGeneration.tailored_resume_json && (
+                      <button
+                        onClick={() => exportTailoredResumePdf(
+                          selectedGeneration.tailored_resume_json!,
+                          selectedGeneration.job_data_json
+                        ).catch((err: any) => alert(t('dashboard.pdfFailed', { message: err.message })))}
+                        className="px-4 py-2 bg-green-600/20 hover:bg-green-600/30 rounded-xl transition-colors text-green-300 text-sm"
+                      >
+                        {t('dashboard.tailoredResumePdf')}
+                      </button>
+                    )}
                   </div>
-                  <button
-                    onClick={() => {
-                      navigator.clipboard.writeText(selectedGeneration.cover_letter_text);
-                      alert('Письмо скопировано в буфер обмена!');
-                    }}
-                    className="mt-3 px-4 py-2 bg-blue-600/20 hover:bg-blue-600/30 rounded-xl transition-colors text-blue-300 text-sm"
-                  >
-                    Копировать письмо
-                  </button>
                 </div>
 
                 {/* Результаты скорринга */}
@@ -869,16 +1181,13 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                   <div className="bg-white/5 rounded-2xl p-6">
                     <h3 className="text-white font-semibold mb-4 flex items-center space-x-2">
                       <BarChart3 className="w-5 h-5" />
-                      <span>Результаты скорринга</span>
+                      <span>{t('dashboard.scoringResults')}</span>
                     </h3>
                     <div className="grid grid-cols-2 gap-4">
                       {selectedGeneration.scoring_results_json.scoring_result?.breakdown && Object.entries(selectedGeneration.scoring_results_json.scoring_result.breakdown).map(([key, value]: [string, any]) => (
                         <div key={key} className="bg-gray-900/50 rounded-xl p-3">
                           <div className="text-sm text-gray-400 mb-1">
-                            {key === 'hard_skills' ? '💻 Технические навыки' :
-                             key === 'soft_skills' ? '🤝 Гибкие навыки' :
-                             key === 'experience_match' ? '💼 Соответствие опыта' :
-                             key === 'position_match' ? '🎯 Соответствие должности' : key}
+                            {getDimensionTitle(key)}
                           </div>
                           <div className="text-lg font-bold text-white mb-2">{value.score}%</div>
                           <div className="text-xs text-gray-300">{value.summary}</div>
@@ -888,19 +1197,47 @@ const Dashboard: React.FC<DashboardProps> = ({ user }) => {
                   </div>
                 )}
 
+                {/* Этапы отклика */}
+                {user?.id && (
+                  <div className="bg-white/5 rounded-2xl p-6">
+                    <h3 className="text-white font-semibold mb-4 flex items-center space-x-2">
+                      <Flag className="w-5 h-5" />
+                      <span>{t('dashboard.applicationStage', { stage: getStatusText(selectedGeneration.application_stage) })}</span>
+                    </h3>
+                    <ApplicationTimeline
+                      key={selectedGeneration.id}
+                      generationId={selectedGeneration.id}
+                      userId={user.id}
+                      currentStage={selectedGeneration.application_stage}
+                      onStageChange={updateGenerationStage}
+                    />
+                  </div>
+                )}
+
+                {/* Подготовка к собеседованию */}
+                {selectedGeneration.interview_prep_json && (
+                  <div className="bg-white/5 rounded-2xl p-6">
+                    <h3 className="text-white font-semibold mb-4 flex items-center space-x-2">
+                      <MessageSquare className="w-5 h-5" />
+                      <span>{t('dashboard.interviewPrep')}</span>
+                    </h3>
+                    <InterviewQuestionList prep={selectedGeneration.interview_prep_json} />
+                  </div>
+                )}
+
                 {/* Действия */}
                 <div className="flex justify-end space-x-3">
                   <button
                     onClick={() => deleteGeneration(selectedGeneration.id)}
                     className="px-4 py-2 bg-red-600/20 hover:bg-red-600/30 rounded-xl transition-colors text-red-300"
                   >
-                    Удалить
+                    {t('common.delete')}
                   </button>
                   <button
                     onClick={() => setSelectedGeneration(null)}
                     className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl transition-colors text-white"
                   >
-                    Закрыть
+                    {t('common.close')}
                   </button>
                 </div>
               </div>
@@ -1,8 +1,19 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Mail, Copy, CheckCircle, Send, FileText, BarChart3, Star, Award, Building, Briefcase, Timer, RefreshCw, Loader2, Save, Database } from 'lucide-react';
+import { Mail, Copy, CheckCircle, Send, FileText, BarChart3, Star, Award, Building, Briefcase, Timer, RefreshCw, Loader2, Save, Database, Download, AlertTriangle, FileDown, GraduationCap } from 'lucide-react';
 import { ResumeData, getFullName } from '../types/resumeData';
-import { supabase } from '../lib/supabase';
+import { TailoredResume } from '../types/tailoredResume';
+import { InterviewPrep } from '../types/interviewPrep';
+import { LetterVariant } from '../types/letterVariant';
+import { CreateGenerationData, GenerationSummary } from '../types/generation';
+import { saveGeneration } from '../lib/generationStorage';
+import { exportCoverLetterPdf } from '../lib/pdfExport';
+import { exportCoverLetterDocx } from '../lib/docxExport';
+import { buildSkillGapReport } from '../lib/skillGap';
+import { buildScoringText } from '../lib/scoring';
+import { LetterLanguage } from '../lib/letterLanguage';
+import { useI18n } from '../hooks/useI18n';
+import SkillGapReport from './SkillGapReport';
 
 /**
  * НОВЫЙ ИНТЕРФЕЙС: Структура ответа от нового API скорринга
@@ -41,32 +52,49 @@ interface NewScoringResponse {
 
 interface FinalResultsProps {
   coverLetter: string;
+  letterVariants?: LetterVariant[] | null; // Варианты письма, если генерировалось несколько
+  letterLanguage?: LetterLanguage; // Язык письма - на нем выводятся текст скорринга и подписи PDF/DOCX
+  letterProfileId?: string | null; // Профиль голоса основного варианта письма
   matchingResults: NewScoringResponse | null;
   resumeData?: ResumeData | null; // НОВОЕ: добавляем типизированные данные резюме
   jobData?: any; // НОВОЕ: добавляем данные вакансии
+  tailoredResume?: TailoredResume | null; // Адаптированное резюме (необязательный этап)
+  interviewPrep?: InterviewPrep | null; // Вопросы к собеседованию (необязательный этап)
   user: {
     id: string;
     firstName?: string;
     lastName?: string;
   } | null;
   onGenerationSaved?: () => void; // НОВЫЙ проп для уведомления о сохранении
+  previousGenerations?: GenerationSummary[]; // Сохраненные генерации для ранжирования недостающих навыков
 }
 
-const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResults, resumeData, jobData, user, onGenerationSaved }) => {
+const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, letterVariants, letterLanguage = 'ru', letterProfileId, matchingResults, resumeData, jobData, tailoredResume, interviewPrep, user, onGenerationSaved, previousGenerations = [] }) => {
+  const { t, locale } = useI18n();
+
   // НОВЫЕ состояния для сохранения
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saveSuccess, setShowSaveSuccess] = useState(false);
-  const [activeTab, setActiveTab] = useState<'letter' | 'scoring'>('letter');
+  const [activeTab, setActiveTab] = useState<'letter' | 'scoring' | 'skills'>('letter');
   const [showCopyNotification, setShowCopyNotification] = useState(false);
   const [showCopyScoringNotification, setShowCopyScoringNotification] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [includeScoringInPdf, setIncludeScoringInPdf] = useState(true);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Отчет о недостающих навыках строится локально из резюме и вакансии
+  const skillGapReport = useMemo(
+    () => (resumeData && jobData ? buildSkillGapReport(resumeData, jobData, previousGenerations, locale) : null),
+    [resumeData, jobData, previousGenerations, locale]
+  );
 
 
   /**
    * НОВАЯ ФУНКЦИЯ: Генерация текстового представления скорринга
    * 
    * Создает копируемый текст результатов скорринга в читаемом формате
-   * для вставки в письма или документы
+   * для вставки в письма или документы. Подписи выводятся на языке письма
    * 
    * Формат вывода:
    * 1. Технические навыки: 60%. Анализ...
@@ -78,35 +106,7 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
    * 
    * @returns строка с форматированными результатами скорринга
    */
-  const generateScoringText = (): string => {
-    if (!matchingResults?.scoring_result) {
-      return 'Результаты скорринга недоступны. Выполните анализ соответствия на предыдущем шаге.';
-    }
-
-    const breakdown = matchingResults.scoring_result.breakdown;
-    const totalScore = matchingResults.scoring_result.total_score;
-    const recruiterRec = matchingResults.scoring_result.recruiter_recommendation;
-
-    const scoringText = `Ниже приведены значения скорринга вакансии и кандидата:
-
-1. Технические навыки: ${breakdown.hard_skills.score}%.
-"${breakdown.hard_skills.summary}"
-
-2. Гибкие навыки: ${breakdown.soft_skills.score}%.
-"${breakdown.soft_skills.summary}"
-
-3. Соответствие опыта: ${breakdown.experience_match.score}%.
-"${breakdown.experience_match.summary}"
-
-4. Соответствие должности: ${breakdown.position_match.score}%.
-"${breakdown.position_match.summary}"
-
-5. Итого: ${totalScore}%
-
-6. Рекомендация для рекрутера от ИИ: "${recruiterRec}"`;
-
-    return scoringText;
-  };
+  const generateScoringText = (): string => buildScoringText(matchingResults, letterLanguage);
 
   /**
    * НОВАЯ ФУНКЦИЯ: Копирование текста скорринга
@@ -141,12 +141,12 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
           }, 2000);
         } catch (fallbackError) {
           console.error('Fallback копирование также не удалось:', fallbackError);
-          alert('Не удалось скопировать текст. Попробуйте выделить и скопировать вручную.');
+          alert(t('common.copyFailed'));
         }
       });
     } catch (error) {
       console.error('Clipboard API недоступен:', error);
-      alert('Функция копирования недоступна в вашем браузере');
+      alert(t('final.copyUnavailable'));
     }
   };
 
@@ -158,7 +158,7 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
    */
   const handleSaveGeneration = async () => {
     if (!matchingResults || !coverLetter || !resumeData || !jobData || !user) {
-      setSaveError('Отсутствуют необходимые данные для сохранения');
+      setSaveError(t('final.missingData'));
       return;
     }
 
@@ -168,23 +168,23 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
     try {
       console.log('💾 Начинаем сохранение генерации в базу данных');
       
-      // Получаем текущую сессию пользователя
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      
-      if (sessionError || !session) {
-        throw new Error('Пользователь не аутентифицирован');
-      }
-
       // Подготавливаем данные для сохранения
-      const saveData = {
-        job_title: jobData.job_title || jobData.title || 'Неизвестная должность',
-        company_name: jobData.company_name || 'Неизвестная компания',
+      const saveData: CreateGenerationData = {
+        job_title: jobData.job_title || jobData.title || t('final.unknownPosition'),
+        company_name: jobData.company_name || t('final.unknownCompany'),
         overall_score: matchingResults.scoring_result.total_score,
         cover_letter_text: coverLetter,
+        letter_variants_json: letterVariants ?? null,
+        letter_profile_id: letterProfileId ?? null,
         scoring_results_json: matchingResults,
         resume_data_json: resumeData,
         job_data_json: jobData,
-        title: `${jobData.job_title || 'Должность'} в ${jobData.company_name || 'компании'}`,
+        tailored_resume_json: tailoredResume ?? null,
+        interview_prep_json: interviewPrep ?? null,
+        title: t('final.generationTitle', {
+          position: jobData.job_title || t('final.positionFallback'),
+          company: jobData.company_name || t('final.companyFallback')
+        }),
         status: 'completed'
       };
 
@@ -193,27 +193,17 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
         company_name: saveData.company_name,
         overall_score: saveData.overall_score,
         letter_length: saveData.cover_letter_text.length,
+        letter_variants: saveData.letter_variants_json?.length ?? 0,
+        letter_profile_id: saveData.letter_profile_id,
         has_scoring: !!saveData.scoring_results_json,
         has_resume: !!saveData.resume_data_json,
-        has_job_data: !!saveData.job_data_json
-      });
-
-      // Отправляем запрос на Edge Function
-      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/save-generation`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${session.access_token}`,
-        },
-        body: JSON.stringify(saveData),
+        has_job_data: !!saveData.job_data_json,
+        has_tailored_resume: !!saveData.tailored_resume_json,
+        interview_questions: saveData.interview_prep_json?.questions.length ?? 0
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
-      }
-
-      const result = await response.json();
+      // Данные проверяются по схемам внутри saveGeneration
+      const result = await saveGeneration(saveData);
       console.log('✅ Генерация успешно сохранена:', result);
 
       // Показываем уведомление об успешном сохранении
@@ -228,12 +218,53 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
 
     } catch (error: any) {
       console.error('❌ Ошибка при сохранении генерации:', error);
-      setSaveError(`Не удалось сохранить результаты: ${error.message}`);
+      setSaveError(t('final.saveFailed', { message: error.message }));
     } finally {
       setIsSaving(false);
     }
   };
 
+  /**
+   * НОВАЯ ФУНКЦИЯ: Экспорт письма в PDF
+   * 
+   * Первая страница - письмо с шапкой кандидата,
+   * вторая (опционально) - результаты скорринга
+   */
+  const handleExportPdf = async () => {
+    setIsExportingPdf(true);
+    setExportError(null);
+
+    try {
+      await exportCoverLetterPdf({
+        coverLetter,
+        resumeData,
+        jobData,
+        scoringResults: matchingResults,
+        includeScoring: includeScoringInPdf,
+        letterLanguage
+      });
+    } catch (error: any) {
+      console.error('❌ Ошибка при экспорте PDF:', error);
+      setExportError(t('final.pdfFailed', { message: error.message }));
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Экспорт письма в DOCX для откликов на hh.ru
+   */
+  const handleExportDocx = () => {
+    setExportError(null);
+
+    try {
+      exportCoverLetterDocx({ coverLetter, resumeData, jobData, letterLanguage });
+    } catch (error: any) {
+      console.error('❌ Ошибка при экспорте DOCX:', error);
+      setExportError(t('final.docxFailed', { message: error.message }));
+    }
+  };
+
   /**
    * ОБНОВЛЕННАЯ ФУНКЦИЯ: Копирование письма с уведомлением
    * 
@@ -281,12 +312,12 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
           }, 2000);
         } catch (fallbackError) {
           console.error('Fallback копирование также не удалось:', fallbackError);
-          alert('Не удалось скопировать текст. Попробуйте выделить и скопировать вручную.');
+          alert(t('common.copyFailed'));
         }
       });
     } catch (error) {
       console.error('Clipboard API недоступен:', error);
-      alert('Функция копирования недоступна в вашем браузере');
+      alert(t('final.copyUnavailable'));
     }
   };
 
@@ -305,12 +336,12 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
 
   // Определение уровня соответствия
   const getMatchLevel = (score: number) => {
-    if (score >= 90) return 'Превосходное соответствие';
-    if (score >= 80) return 'Отличное соответствие';
-    if (score >= 70) return 'Хорошее соответствие';
-    if (score >= 60) return 'Среднее соответствие';
-    if (score >= 40) return 'Низкое соответствие';
-    return 'Слабое соответствие';
+    if (score >= 90) return t('final.matchLevel.excellent');
+    if (score >= 80) return t('final.matchLevel.great');
+    if (score >= 70) return t('final.matchLevel.good');
+    if (score >= 60) return t('final.matchLevel.average');
+    if (score >= 40) return t('final.matchLevel.low');
+    return t('final.matchLevel.weak');
   };
 
   return (
@@ -338,8 +369,8 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
               <CheckCircle className="w-6 h-6 text-white" />
             </motion.div>
             <div>
-              <p className="text-white font-semibold">Скопировано!</p>
-              <p className="text-green-100 text-sm">Сопроводительное письмо скопировано в буфер обмена</p>
+              <p className="text-white font-semibold">{t('common.copied')}</p>
+              <p className="text-green-100 text-sm">{t('final.letterCopied')}</p>
             </div>
           </div>
           
@@ -376,8 +407,8 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
               <Database className="w-6 h-6 text-white" />
             </motion.div>
             <div>
-              <p className="text-white font-semibold">Результаты сохранены!</p>
-              <p className="text-green-100 text-sm">Генерация добавлена в ваш личный кабинет</p>
+              <p className="text-white font-semibold">{t('final.saved')}</p>
+              <p className="text-green-100 text-sm">{t('final.savedHint')}</p>
             </div>
           </div>
           
@@ -413,8 +444,8 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
               <CheckCircle className="w-6 h-6 text-white" />
             </motion.div>
             <div>
-              <p className="text-white font-semibold">Скорринг скопирован!</p>
-              <p className="text-purple-100 text-sm">Текст результатов скопирован в буфер обмена</p>
+              <p className="text-white font-semibold">{t('final.scoringCopied')}</p>
+              <p className="text-purple-100 text-sm">{t('final.scoringCopiedHint')}</p>
             </div>
           </div>
           
@@ -439,9 +470,9 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
             <CheckCircle className="w-8 h-8 text-white" />
           </div>
         </motion.div>
-        <h2 className="text-2xl font-bold text-white mb-2">Готово! 🎉</h2>
+        <h2 className="text-2xl font-bold text-white mb-2">{t('final.title')}</h2>
         <p className="text-gray-300">
-          Ваше сопроводительное письмо и анализ соответствия готовы
+          {t('final.subtitle')}
         </p>
       </div>
 
@@ -456,26 +487,26 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
             <div className="text-2xl font-bold text-white mb-1">
               {matchingResults?.scoring_result?.total_score || 0}%
             </div>
-            <div className="text-sm text-gray-300">Соответствие</div>
+            <div className="text-sm text-gray-300">{t('final.match')}</div>
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-white mb-1">
               {coverLetter.split(' ').length}
             </div>
-            <div className="text-sm text-gray-300">Слов в письме</div>
+            <div className="text-sm text-gray-300">{t('final.words')}</div>
           </div>
         </div>
         
         {/* НОВОЕ: Информация о PDF */}
         <div className="bg-green-500/10 border border-green-500/20 rounded-2xl p-4 mt-4">
-          <h4 className="text-white font-medium mb-2">📄 PDF содержит:</h4>
+          <h4 className="text-white font-medium mb-2">{t('final.pdfTitle')}</h4>
           <ul className="text-gray-300 text-sm space-y-1">
-            <li>• <strong>Полное сопроводительное письмо</strong> в профессиональном оформлении</li>
-            <li>• <strong>Общий балл соответствия</strong> с цветовой индикацией и графиками</li>
-            <li>• <strong>Детальные метрики</strong> по всем критериям с прогресс-барами</li>
-            <li>• <strong>Персональные рекомендации</strong> от Gemini AI для улучшения</li>
-            <li>• <strong>Информация о кандидате</strong> и метаданные анализа</li>
-            <li>• <strong>Готовый к печати формат</strong> для презентации работодателю</li>
+            <li>• <strong>{t('final.pdf.letter')}</strong> {t('final.pdf.letterText')}</li>
+            <li>• <strong>{t('final.pdf.score')}</strong> {t('final.pdf.scoreText')}</li>
+            <li>• <strong>{t('final.pdf.metrics')}</strong> {t('final.pdf.metricsText')}</li>
+            <li>• <strong>{t('final.pdf.recommendations')}</strong> {t('final.pdf.recommendationsText')}</li>
+            <li>• <strong>{t('final.pdf.candidate')}</strong> {t('final.pdf.candidateText')}</li>
+            <li>• <strong>{t('final.pdf.print')}</strong> {t('final.pdf.printText')}</li>
           </ul>
         </div>
       </motion.div>
@@ -491,7 +522,7 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
           }`}
         >
           <FileText className="w-4 h-4" />
-          <span>Письмо</span>
+          <span>{t('final.tabLetter')}</span>
         </button>
         <button
           onClick={() => setActiveTab('scoring')}
@@ -502,7 +533,18 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
           }`}
         >
           <BarChart3 className="w-4 h-4" />
-          <span>Скорринг</span>
+          <span>{t('final.tabScoring')}</span>
+        </button>
+        <button
+          onClick={() => setActiveTab('skills')}
+          className={`flex-1 py-3 px-4 rounded-xl transition-all flex items-center justify-center space-x-2 ${
+            activeTab === 'skills'
+              ? 'bg-green-500/20 text-green-300'
+              : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          <GraduationCap className="w-4 h-4" />
+          <span>{t('final.tabSkills')}</span>
         </button>
       </div>
 
@@ -523,13 +565,34 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
             </div>
             
             {/* Действия с письмом */}
-            <div className="grid grid-cols-2 gap-3">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
               <button
                 onClick={copyLetter}
                 className="flex items-center justify-center space-x-2 py-3 px-4 bg-blue-600/20 hover:bg-blue-600/30 border border-blue-500/30 text-blue-300 rounded-2xl transition-all duration-200 hover:scale-105 active:scale-95"
               >
                 <Copy className="w-4 h-4" />
-                <span>Копировать</span>
+                <span>{t('common.copy')}</span>
+              </button>
+              
+              <button
+                onClick={handleExportPdf}
+                className="flex items-center justify-center space-x-2 py-3 px-4 bg-purple-600/20 hover:bg-purple-600/30 border border-purple-500/30 text-purple-300 rounded-2xl transition-all duration-200 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isExportingPdf}
+              >
+                {isExportingPdf ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4" />
+                )}
+                <span>PDF</span>
+              </button>
+              
+              <button
+                onClick={handleExportDocx}
+                className="flex items-center justify-center space-x-2 py-3 px-4 bg-indigo-600/20 hover:bg-indigo-600/30 border border-indigo-500/30 text-indigo-300 rounded-2xl transition-all duration-200 hover:scale-105 active:scale-95"
+              >
+                <FileDown className="w-4 h-4" />
+                <span>Word</span>
               </button>
               
               {/* НОВАЯ КНОПКА: Сохранить вместо PDF */}
@@ -541,35 +604,61 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
                 {isSaving ? (
                   <>
                     <Loader2 className="w-4 h-4 animate-spin" />
-                    <span>Сохраняем...</span>
+                    <span>{t('final.saving')}</span>
                   </>
                 ) : (
                   <>
                     <Save className="w-4 h-4" />
-                    <span>Сохранить</span>
+                    <span>{t('common.save')}</span>
                   </>
                 )}
               </button>
             </div>
             
+            {/* Настройка экспорта: страница со скоррингом */}
+            {matchingResults && (
+              <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={includeScoringInPdf}
+                  onChange={(e) => setIncludeScoringInPdf(e.target.checked)}
+                  className="rounded border-white/20 bg-white/10"
+                />
+                <span>{t('final.includeScoring')}</span>
+              </label>
+            )}
+
+            {/* Отображение ошибок экспорта */}
+            {exportError && (
+              <div className="bg-red-500/20 border border-red-500/30 rounded-xl p-4">
+                <p className="text-red-300 text-sm">{exportError}</p>
+                <button
+                  onClick={() => setExportError(null)}
+                  className="text-red-400 hover:text-red-300 text-sm underline transition-colors mt-2"
+                >
+                  {t('scoring.hideError')}
+                </button>
+              </div>
+            )}
+
             {/* НОВОЕ: Отображение ошибок сохранения */}
             {saveError && (
               <div className="bg-red-500/20 border border-red-500/30 rounded-xl p-4 mt-4">
                 <div className="flex items-center space-x-2 mb-2">
                   <AlertTriangle className="w-5 h-5 text-red-400" />
-                  <h4 className="text-red-400 font-medium">Ошибка сохранения</h4>
+                  <h4 className="text-red-400 font-medium">{t('final.saveErrorTitle')}</h4>
                 </div>
                 <p className="text-red-300 text-sm">{saveError}</p>
                 <button
                   onClick={() => setSaveError(null)}
                   className="text-red-400 hover:text-red-300 text-sm underline transition-colors mt-2"
                 >
-                  Скрыть ошибку
+                  {t('scoring.hideError')}
                 </button>
               </div>
             )}
           </div>
-        ) : (
+        ) : activeTab === 'scoring' ? (
           /* ОБНОВЛЕННАЯ ВКЛАДКА: Результаты скорринга с текстовым форматом */
           <div className="space-y-6">
             {matchingResults ? (
@@ -577,26 +666,26 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
                 {/* Краткая сводка */}
                 <div className="text-center">
                   <div className="text-4xl font-bold text-white mb-4">
-                    🎯 Общий балл: {matchingResults.scoring_result.total_score}%
+                    {t('final.totalScore', { score: matchingResults.scoring_result.total_score })}
                   </div>
                   <p className="text-gray-300 text-lg mb-2">
                     {getMatchLevel(matchingResults.scoring_result.total_score)}
                   </p>
                   <p className="text-gray-400 text-sm">
-                    🤖 Анализ выполнен через Gemini AI v2.0
+                    {t('final.poweredBy')}
                   </p>
                 </div>
 
                 {/* НОВОЕ: Текстовый формат для копирования */}
                 <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
                   <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-white font-semibold text-lg">📊 Результаты для копирования</h3>
+                    <h3 className="text-white font-semibold text-lg">{t('final.copyTitle')}</h3>
                     <button
                       onClick={copyScoringText}
                       className="flex items-center justify-center space-x-2 py-2 px-4 bg-purple-600/20 hover:bg-purple-600/30 border border-purple-500/30 text-purple-300 rounded-xl transition-all duration-200 hover:scale-105 active:scale-95"
                     >
                       <Copy className="w-4 h-4" />
-                      <span>Копировать текст</span>
+                      <span>{t('final.copyText')}</span>
                     </button>
                   </div>
                   
@@ -607,7 +696,7 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
                   </div>
                   
                   <p className="text-gray-400 text-xs mt-3">
-                    💡 Этот текст можно скопировать и вставить в письмо рекрутеру или отчет
+                    {t('final.copyHint')}
                   </p>
                 </div>
 
@@ -617,25 +706,25 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
                     <div className="text-2xl font-bold text-white">
                       💻 {matchingResults.scoring_result.breakdown.hard_skills.score}%
                     </div>
-                    <div className="text-blue-400 text-sm font-medium">Технические навыки</div>
+                    <div className="text-blue-400 text-sm font-medium">{t('scoring.dimensionName.hard_skills')}</div>
                   </div>
                   <div className="bg-green-500/10 border border-green-500/20 rounded-xl p-4 text-center">
                     <div className="text-2xl font-bold text-white">
                       🤝 {matchingResults.scoring_result.breakdown.soft_skills.score}%
                     </div>
-                    <div className="text-green-400 text-sm font-medium">Гибкие навыки</div>
+                    <div className="text-green-400 text-sm font-medium">{t('scoring.dimensionName.soft_skills')}</div>
                   </div>
                   <div className="bg-purple-500/10 border border-purple-500/20 rounded-xl p-4 text-center">
                     <div className="text-2xl font-bold text-white">
                       💼 {matchingResults.scoring_result.breakdown.experience_match.score}%
                     </div>
-                    <div className="text-purple-400 text-sm font-medium">Соответствие опыта</div>
+                    <div className="text-purple-400 text-sm font-medium">{t('scoring.dimensionName.experience_match')}</div>
                   </div>
                   <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-xl p-4 text-center">
                     <div className="text-2xl font-bold text-white">
                       🎯 {matchingResults.scoring_result.breakdown.position_match.score}%
                     </div>
-                    <div className="text-yellow-400 text-sm font-medium">Соответствие должности</div>
+                    <div className="text-yellow-400 text-sm font-medium">{t('scoring.dimensionName.position_match')}</div>
                   </div>
                 </div>
               </div>
@@ -644,9 +733,9 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
               <div className="text-center py-8">
                 <div className="bg-gray-500/10 border border-gray-500/20 rounded-2xl p-6">
                   <RefreshCw className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-                  <h3 className="text-white font-medium mb-2">Данные скорринга недоступны</h3>
+                  <h3 className="text-white font-medium mb-2">{t('final.scoringUnavailable')}</h3>
                   <p className="text-gray-400 text-sm">
-                    Вернитесь к шагу "Скорринг" для выполнения анализа соответствия
+                    {t('final.scoringUnavailableHint')}
                   </p>
                 </div>
               </div>
@@ -655,18 +744,29 @@ const FinalResults: React.FC<FinalResultsProps> = ({ coverLetter, matchingResult
             {/* ОБНОВЛЕННАЯ ИНФОРМАЦИЯ: О сохранении вместо PDF */}
             {matchingResults && (
               <div className="bg-green-500/10 border border-green-500/20 rounded-2xl p-4">
-                <h4 className="text-white font-medium mb-2">💾 Что будет сохранено:</h4>
+                <h4 className="text-white font-medium mb-2">{t('final.savedTitle')}</h4>
                 <ul className="text-gray-300 text-sm space-y-1">
-                  <li>• <strong>Полное сопроводительное письмо</strong> для повторного использования</li>
-                  <li>• <strong>Детальные результаты скорринга</strong> по всем 4 параметрам</li>
-                  <li>• <strong>Данные резюме и вакансии</strong> для контекста</li>
-                  <li>• <strong>Персональные рекомендации</strong> от Gemini AI</li>
-                  <li>• <strong>История генераций</strong> в личном кабинете</li>
-                  <li>• <strong>Возможность повторного просмотра</strong> и анализа</li>
+                  <li>• <strong>{t('final.saved.letter')}</strong> {t('final.saved.letterText')}</li>
+                  <li>• <strong>{t('final.saved.scoring')}</strong> {t('final.saved.scoringText')}</li>
+                  <li>• <strong>{t('final.saved.data')}</strong> {t('final.saved.dataText')}</li>
+                  {interviewPrep && <li>• <strong>{t('final.saved.interview')}</strong> {t('final.saved.interviewText')}</li>}
+                  <li>• <strong>{t('final.saved.recommendations')}</strong> {t('final.saved.recommendationsText')}</li>
+                  <li>• <strong>{t('final.saved.history')}</strong> {t('final.saved.historyText')}</li>
+                  <li>• <strong>{t('final.saved.review')}</strong> {t('final.saved.reviewText')}</li>
                 </ul>
               </div>
             )}
           </div>
+        ) : (
+          /* НОВАЯ ВКЛАДКА: Недостающие навыки и план развития */
+          skillGapReport ? (
+            <SkillGapReport report={skillGapReport} />
+          ) : (
+            <div className="bg-gray-500/10 border border-gray-500/20 rounded-2xl p-6 text-center">
+              <h3 className="text-white font-medium mb-2">{t('final.skillsUnavailable')}</h3>
+              <p className="text-gray-400 text-sm">{t('final.skillsUnavailableHint')}</p>
+            </div>
+          )
         )}
       </motion.div>
     </div>
@@ -0,0 +1,61 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTelegram } from '../hooks/useTelegram';
+import { createI18nValue, I18nContext } from '../hooks/useI18n';
+import { detectLocale, findMissingMessageKeys, Locale, resolveLocale, setCurrentLocale } from '../lib/i18n';
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+}
+
+const LOCALE_STORAGE_KEY = 'jobmatch-locale';
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Провайдер языка интерфейса
+ *
+ * Язык выбирается один раз при запуске: сохраненный выбор пользователя,
+ * затем language_code из Telegram, затем языки браузера. Выбор в переключателе
+ * сохраняется в localStorage и имеет приоритет при следующих запусках.
+ */
+const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const { user: telegramUser } = useTelegram();
+
+  const [locale, setLocaleState] = useState<Locale>(() => detectLocale({
+    stored: localStorage.getItem(LOCALE_STORAGE_KEY),
+    browserLanguages: navigator.languages,
+  }));
+
+  // Язык Telegram доступен после инициализации WebApp
+  useEffect(() => {
+    const telegramLocale = resolveLocale(telegramUser?.languageCode);
+    if (telegramLocale && !localStorage.getItem(LOCALE_STORAGE_KEY)) {
+      setLocaleState(telegramLocale);
+    }
+  }, [telegramUser?.languageCode]);
+
+  useEffect(() => {
+    setCurrentLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Пропуски в каталогах видны в консоли при разработке
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+    for (const [catalogLocale, keys] of Object.entries(findMissingMessageKeys())) {
+      if (keys.length > 0) {
+        console.warn(`⚠️ В каталоге ${catalogLocale} нет переводов:`, keys);
+      }
+    }
+  }, []);
+
+  const value = useMemo(() => createI18nValue(locale, (next: Locale) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    setLocaleState(next);
+  }), [locale]);
+
+  // Хелперы вне React читают текущий язык до первого эффекта
+  setCurrentLocale(locale);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
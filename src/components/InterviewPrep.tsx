@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { MessageSquare, Loader2, AlertTriangle, RefreshCw } from 'lucide-react';
+import { ResumeData } from '../types/resumeData';
+import { JobData, ScoringResults } from '../types/generation';
+import { InterviewPrep as InterviewPrepData, SCORING_BREAKDOWN_TITLE_KEYS, getWeakAreas } from '../types/interviewPrep';
+import { generateInterviewQuestions, isAiGatewayError } from '../lib/aiGateway';
+import InterviewQuestionList from './InterviewQuestionList';
+import { useI18n } from '../hooks/useI18n';
+
+interface InterviewPrepProps {
+  onPrepComplete: (prep: InterviewPrepData | null) => void;
+  resumeData: ResumeData | null;
+  jobData: JobData | null;
+  scoringResults: ScoringResults | null;
+  savedPrep: InterviewPrepData | null;
+  userId?: string;
+}
+
+/**
+ * НОВЫЙ ЭТАП: Подготовка к собеседованию
+ *
+ * По вакансии, резюме и итогам скорринга генерирует вероятные вопросы
+ * с планом ответа. Вопросы сфокусированы на слабых критериях скорринга,
+ * а план ответа ссылается на пункты опыта из резюме.
+ * Этап необязательный - его можно пропустить кнопкой "Далее".
+ */
+const InterviewPrep: React.FC<InterviewPrepProps> = ({
+  onPrepComplete,
+  resumeData,
+  jobData,
+  scoringResults,
+  savedPrep,
+  userId
+}) => {
+  const { t } = useI18n();
+  const [prep, setPrep] = useState<InterviewPrepData | null>(savedPrep);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Отмена запроса при уходе с этапа
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const weakAreas = scoringResults ? getWeakAreas(scoringResults) : [];
+
+  const startGeneration = async () => {
+    if (!resumeData || !jobData || !scoringResults || !userId) {
+      setError(t('interview.missingData'));
+      return;
+    }
+
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      console.log('🎤 Генерация вопросов к собеседованию, слабые зоны:', weakAreas);
+
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+      const result = await generateInterviewQuestions(
+        { resumeData, jobData, scoringResults, weakAreas, userId },
+        { signal: abortControllerRef.current.signal }
+      );
+
+      console.log('✅ Получено вопросов:', result.questions.length);
+      setPrep(result);
+      onPrepComplete(result);
+    } catch (err) {
+      if (isAiGatewayError(err) && err.code === 'aborted') return;
+
+      console.error('❌ Ошибка генерации вопросов к собеседованию:', err);
+      setError(t('interview.generateFailed', { message: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const resetPrep = () => {
+    setPrep(null);
+    setError(null);
+    onPrepComplete(null);
+  };
+
+  const errorBlock = error && (
+    <div className="bg-red-500/20 border border-red-500/30 rounded-2xl p-4 flex items-start space-x-3">
+      <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+      <p className="text-red-300 text-sm">{error}</p>
+    </div>
+  );
+
+  // Начальное состояние: предлагаем подготовить вопросы
+  if (!prep) {
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-white mb-2">{t('interview.title')}</h2>
+          <p className="text-gray-300">
+            {t('interview.subtitle')}
+          </p>
+        </div>
+
+        {weakAreas.length > 0 && scoringResults && (
+          <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-4">
+            <h3 className="text-white font-medium mb-2">{t('interview.focusTitle')}</h3>
+            <ul className="text-gray-300 text-sm space-y-1">
+              {weakAreas.map(area => (
+                <li key={area}>
+                  • {t(SCORING_BREAKDOWN_TITLE_KEYS[area])}: {scoringResults.scoring_result.breakdown[area].score}%
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={startGeneration}
+          disabled={!resumeData || !jobData || !scoringResults || isGenerating}
+          className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-4 px-6 rounded-2xl shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all hover:from-blue-500 hover:to-purple-500 flex items-center justify-center space-x-2"
+        >
+          {isGenerating ? <Loader2 className="w-5 h-5 animate-spin" /> : <MessageSquare className="w-5 h-5" />}
+          <span>{isGenerating ? t('interview.generating') : t('interview.generate')}</span>
+        </motion.button>
+
+        {errorBlock}
+
+        <div className="bg-gray-500/10 border border-gray-500/20 rounded-2xl p-4">
+          <h3 className="text-white font-medium mb-2">🎤 {t('interview.benefitsTitle')}</h3>
+          <ul className="text-gray-300 text-sm space-y-1">
+            <li>• {t('interview.benefitQuestions')}</li>
+            <li>• {t('interview.benefitOutline')}</li>
+            <li>• {t('interview.benefitExperience')}</li>
+            <li>• {t('interview.benefitOptional')}</li>
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-1">{t('interview.title')}</h2>
+          <p className="text-gray-300 text-sm">{t('interview.questionCount', { count: prep.questions.length })}</p>
+        </div>
+        <button
+          onClick={resetPrep}
+          className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl transition-colors text-gray-300 text-sm"
+        >
+          <RefreshCw className="w-4 h-4" />
+          <span>{t('interview.reset')}</span>
+        </button>
+      </div>
+
+      {errorBlock}
+
+      <InterviewQuestionList prep={prep} />
+    </div>
+  );
+};
+
+export default InterviewPrep;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Briefcase, Lightbulb } from 'lucide-react';
+import {
+  INTERVIEW_QUESTION_CATEGORY_TITLE_KEYS,
+  InterviewPrep,
+  SCORING_BREAKDOWN_TITLE_KEYS
+} from '../types/interviewPrep';
+import { useI18n } from '../hooks/useI18n';
+
+interface InterviewQuestionListProps {
+  prep: InterviewPrep;
+}
+
+/**
+ * Список вопросов к собеседованию с планом ответа
+ *
+ * Используется на этапе подготовки и в деталях сохраненной генерации
+ */
+const InterviewQuestionList: React.FC<InterviewQuestionListProps> = ({ prep }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-4">
+      {prep.weak_areas.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-400">{t('interview.weakAreasFocus')}</span>
+          {prep.weak_areas.map(area => (
+            <span key={area} className="px-2 py-1 bg-red-500/10 border border-red-500/20 text-red-300 rounded-lg text-xs">
+              {t(SCORING_BREAKDOWN_TITLE_KEYS[area])}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {prep.questions.map((question, index) => (
+        <div key={index} className="bg-gray-900/50 border border-white/10 rounded-xl p-4 space-y-3">
+          <div>
+            <div className="flex flex-wrap gap-2 mb-2">
+              <span className="px-2 py-0.5 bg-blue-500/10 border border-blue-500/20 text-blue-300 rounded-lg text-xs">
+                {t(INTERVIEW_QUESTION_CATEGORY_TITLE_KEYS[question.category])}
+              </span>
+              <span className="px-2 py-0.5 bg-white/5 border border-white/10 text-gray-400 rounded-lg text-xs">
+                {t(SCORING_BREAKDOWN_TITLE_KEYS[question.focus_area])}
+              </span>
+            </div>
+            <p className="text-white font-medium">{index + 1}. {question.question}</p>
+            {question.why_asked && (
+              <p className="text-gray-400 text-sm mt-1">{question.why_asked}</p>
+            )}
+          </div>
+
+          {question.answer_outline.length > 0 && (
+            <div>
+              <div className="flex items-center space-x-2 mb-1">
+                <Lightbulb className="w-4 h-4 text-yellow-400" />
+                <span className="text-gray-300 text-sm font-medium">{t('interview.answerOutline')}</span>
+              </div>
+              <ul className="text-gray-300 text-sm space-y-1">
+                {question.answer_outline.map((point, pointIndex) => (
+                  <li key={pointIndex}>• {point}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {question.experience_refs.length > 0 && (
+            <div>
+              <div className="flex items-center space-x-2 mb-1">
+                <Briefcase className="w-4 h-4 text-green-400" />
+                <span className="text-gray-300 text-sm font-medium">{t('interview.experienceRefs')}</span>
+              </div>
+              <ul className="space-y-1">
+                {question.experience_refs.map(ref => (
+                  <li
+                    key={`${ref.experience_index}-${ref.bullet_index}`}
+                    className="text-sm border-l-2 border-green-500/40 pl-3"
+                  >
+                    <span className="text-gray-400">{[ref.position, ref.company].filter(Boolean).join(', ')}: </span>
+                    <span className="text-gray-200">{ref.bullet}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default InterviewQuestionList;
@@ -1,174 +1,82 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Link2, Search, CheckCircle, AlertCircle, ExternalLink, Loader2, MapPin, Building, Briefcase, Clock, CreditCard as Edit3, X } from 'lucide-react';
+import { Link2, Search, CheckCircle, AlertCircle, ExternalLink, Loader2, MapPin, Building, Briefcase, Clock, CreditCard as Edit3, X, FileText, Upload, Wallet } from 'lucide-react';
+import {
+  AnalyzeVacancyRequest,
+  analyzeVacancy,
+  getAiGatewayStageUrl,
+  isAiGatewayError,
+  VACANCY_FILE_EXTENSIONS,
+  VACANCY_FILE_MAX_SIZE,
+  VACANCY_TEXT_MAX_LENGTH,
+  VACANCY_TEXT_MIN_LENGTH
+} from '../lib/aiGateway';
+import { GenerationSummary, VacancySource, formatVacancySalary, getVacancySourceText } from '../types/generation';
+import { JOB_SITE_ADAPTERS, validateJobUrl } from '../lib/jobSites';
+import { formatDate, translate } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
 
 interface JobAnalysisProps {
   onAnalysisComplete: (analysisData: any) => void;
   savedAnalysis: any;
+  previousGenerations?: GenerationSummary[]; // Сохраненные генерации для поиска повторных вакансий
 }
 
 /**
- * НОВАЯ ФУНКЦИЯ: Валидация URL вакансии
- * 
- * Проверяет, что введенный URL принадлежит одному из поддерживаемых сайтов
- * и имеет корректный формат
- * 
- * Поддерживаемые сайты:
- * - HeadHunter (hh.ru, hh.kz, hh.by и другие домены)
- * - LinkedIn (linkedin.com)
- * - Djinni (djinni.co)
- * - Habr Career (career.habr.com)
- * - SuperJob (superjob.ru)
- * - Work.ua (work.ua)
- * - Rabota.ua (rabota.ua)
- * - Jobs.ua (jobs.ua)
- * 
- * @param url - URL для валидации
+ * НОВАЯ ФУНКЦИЯ: Валидация текста или файла вакансии
+ *
+ * Используется, когда вакансия не доступна по ссылке: неподдерживаемый сайт,
+ * пост в Telegram канале или текст, присланный рекрутером в чат
+ *
+ * @param text - вставленный текст вакансии
+ * @param file - выбранный файл вакансии (имеет приоритет над текстом)
  * @returns объект с результатом валидации и сообщением об ошибке
  */
-const validateJobUrl = (url: string): { isValid: boolean; error?: string; detectedSite?: string } => {
-  // Проверяем, что URL не пустой
-  if (!url || url.trim().length === 0) {
-    return {
-      isValid: false,
-      error: 'Введите URL вакансии'
-    };
-  }
-
-  const trimmedUrl = url.trim();
-
-  // Проверяем базовый формат URL
-  let parsedUrl: URL;
-  try {
-    // Добавляем https:// если протокол не указан
-    const urlToCheck = trimmedUrl.startsWith('http') ? trimmedUrl : `https://${trimmedUrl}`;
-    parsedUrl = new URL(urlToCheck);
-  } catch (error) {
-    return {
-      isValid: false,
-      error: 'Некорректный формат URL. Пример: https://hh.ru/vacancy/123456'
-    };
-  }
-
-  // Список поддерживаемых доменов с их названиями
-  const supportedSites = [
-    // HeadHunter (различные домены)
-    { domains: ['hh.ru', 'hh.kz', 'hh.by', 'hh.uz', 'hh.kg'], name: 'HeadHunter', pathPattern: /\/vacancy\/\d+/ },
-    
-    // LinkedIn
-    { domains: ['linkedin.com', 'www.linkedin.com'], name: 'LinkedIn', pathPattern: /\/jobs\/view\/\d+/ },
-    
-    // Djinni
-    { domains: ['djinni.co', 'www.djinni.co'], name: 'Djinni', pathPattern: /\/jobs\/\d+/ },
-    
-    // Habr Career
-    { domains: ['career.habr.com'], name: 'Habr Career', pathPattern: /\/vacancies\/\d+/ },
-    
-    // SuperJob
-    { domains: ['superjob.ru', 'www.superjob.ru'], name: 'SuperJob', pathPattern: /\/vakansii\// },
-    
-    // Украинские сайты
-    { domains: ['work.ua', 'www.work.ua'], name: 'Work.ua', pathPattern: /\/jobs\/\d+/ },
-    { domains: ['rabota.ua', 'www.rabota.ua'], name: 'Rabota.ua', pathPattern: /\/company\d+\/vacancy\d+/ },
-    { domains: ['jobs.ua', 'www.jobs.ua'], name: 'Jobs.ua', pathPattern: /\/vacancy\// },
-    
-    // Можно добавить другие сайты по мере необходимости
-  ];
-
-  // Проверяем домен
-  const hostname = parsedUrl.hostname.toLowerCase();
-  const matchedSite = supportedSites.find(site => 
-    site.domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`))
-  );
-
-  if (!matchedSite) {
-    return {
-      isValid: false,
-      error: `Сайт "${hostname}" не поддерживается. Используйте один из поддерживаемых сайтов.`
-    };
+const validateVacancyInput = (text: string, file: File | null): { isValid: boolean; error?: string } => {
+  if (file) {
+    const extension = '.' + file.name.split('.').pop()?.toLowerCase();
+    if (!VACANCY_FILE_EXTENSIONS.includes(extension)) {
+      return {
+        isValid: false,
+        error: translate('jobAnalysis.fileTypeUnsupported')
+      };
+    }
+    if (file.size > VACANCY_FILE_MAX_SIZE) {
+      return {
+        isValid: false,
+        error: translate('jobAnalysis.fileTooLarge', { size: VACANCY_FILE_MAX_SIZE / 1024 / 1024 })
+      };
+    }
+    return { isValid: true };
   }
 
-  // Дополнительная проверка пути для некоторых сайтов
-  const pathname = parsedUrl.pathname;
-  if (matchedSite.pathPattern && !matchedSite.pathPattern.test(pathname)) {
+  const trimmedText = text.trim();
+  if (trimmedText.length < VACANCY_TEXT_MIN_LENGTH) {
     return {
       isValid: false,
-      error: `Некорректный формат ссылки для ${matchedSite.name}. Убедитесь, что это прямая ссылка на вакансию.`
+      error: translate('jobAnalysis.textTooShort', { min: VACANCY_TEXT_MIN_LENGTH })
     };
   }
-
-  // Проверяем, что URL использует HTTPS (рекомендуется)
-  if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+  if (trimmedText.length > VACANCY_TEXT_MAX_LENGTH) {
     return {
       isValid: false,
-      error: 'URL должен использовать протокол HTTP или HTTPS'
+      error: translate('jobAnalysis.textTooLong', { max: VACANCY_TEXT_MAX_LENGTH })
     };
   }
 
-  return {
-    isValid: true,
-    detectedSite: matchedSite.name
-  };
+  return { isValid: true };
 };
 
-/**
- * НОВАЯ ФУНКЦИЯ: Гибкий парсинг данных вакансии
- * 
- * Извлекает только ключевые поля из ответа API:
- * - title (job_title)
- * - skills: { hard_skills, soft_skills, languages }
- * 
- * Если поле отсутствует - оставляет пустым массив/строку
- * 
- * @param rawData - сырые данные от API
- * @returns объект с базовыми полями вакансии
- */
-const parseJobDataFlexibly = (rawData: any) => {
-  console.log('🔍 Гибкий парсинг данных вакансии:', rawData);
-  
-  // ИСПРАВЛЕНИЕ: Извлекаем вложенный объект job_data если он есть
-  const actualJobData = rawData?.job_data || rawData;
-  console.log('🔍 Фактические данные для парсинга (после извлечения job_data):', actualJobData);
-  
-  // Извлекаем title из actualJobData
-  const title = actualJobData?.job_title || actualJobData?.title || '';
-  
-  // Извлекаем навыки
-  const skills = {
-    hard_skills: Array.isArray(actualJobData?.skills?.hard_skills) ? actualJobData.skills.hard_skills : 
-                 Array.isArray(actualJobData?.required_skills) ? actualJobData.required_skills : [],
-    soft_skills: Array.isArray(actualJobData?.skills?.soft_skills) ? actualJobData.skills.soft_skills : [],
-    languages: Array.isArray(actualJobData?.skills?.languages) ? actualJobData.skills.languages : []
-  };
-  
-  // Сохраняем остальные поля для совместимости
-  const parsedData = {
-    job_title: title,
-    title: title, // Дублируем для совместимости
-    skills: skills,
-    // Сохраняем остальные поля из actualJobData
-    company_name: actualJobData?.company_name || '',
-    location: actualJobData?.location || {},
-    employment_type: actualJobData?.employment_type || '',
-    experience_level: actualJobData?.experience_level || '',
-    industry: actualJobData?.industry || '',
-    description: actualJobData?.description || '',
-    required_skills: skills.hard_skills // Для обратной совместимости
-  };
-  
-  console.log('✅ Результат гибкого парсинга:', parsedData);
-  return parsedData;
-};
 /**
  * НОВОЕ: Анимированные сообщения для этапов анализа вакансии
  * Каждое сообщение отображается последовательно с задержкой
  */
 const LOADING_MESSAGES = [
-  { id: 1, text: "Отправляем данные...", delay: 0 },
-  { id: 2, text: "Обрабатываем информацию...", delay: 3000 },
-  { id: 3, text: "Генерируем результат...", delay: 6000 },
-  { id: 4, text: "Получаем результат", delay: 9000 }
-];
+  { id: 1, textKey: 'jobAnalysis.loading.sending', delay: 0 },
+  { id: 2, textKey: 'jobAnalysis.loading.processing', delay: 3000 },
+  { id: 3, textKey: 'jobAnalysis.loading.generating', delay: 6000 },
+  { id: 4, textKey: 'jobAnalysis.loading.receiving', delay: 9000 }
+] as const;
 
 /**
  * Генерация тестового user_id в формате ddmmyy_hhmm для dev режима
@@ -192,8 +100,8 @@ const generateDevUserId = (): string => {
  * ОБНОВЛЕННЫЙ компонент анализа вакансий
  * 
  * Новая логика работы с API:
- * 1. Пользователь вводит URL вакансии
- * 2. Отправляем POST запрос с vacancy_url и user_id
+ * 1. Пользователь вводит URL вакансии, вставляет текст или загружает файл (PDF, DOCX, TXT)
+ * 2. Отправляем POST запрос с vacancy_url, vacancy_text или vacancy_file и user_id
  * 3. Получаем JSON с данными вакансии
  * 4. Отображаем извлеченную информацию
  * 
@@ -206,8 +114,14 @@ const generateDevUserId = (): string => {
  * - location: { city, country }
  * - required_skills: массив навыков
  */
-const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnalysis }) => {
+const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnalysis, previousGenerations = [] }) => {
+  const { t } = useI18n();
   const [jobUrl, setJobUrl] = useState('');
+  // Режим ввода: ссылка или текст/файл вакансии
+  const [inputMode, setInputMode] = useState<'url' | 'text'>('url');
+  const [vacancyText, setVacancyText] = useState('');
+  const [vacancyFile, setVacancyFile] = useState<File | null>(null);
+  const [isDragActive, setIsDragActive] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<any>(savedAnalysis);
   const [error, setError] = useState<string | null>(null);
@@ -234,6 +148,10 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
     console.log('🔧 Сгенерирован тестовый user_id для анализа вакансии:', userId);
   }, []);
 
+  // Отмена запроса анализа при размонтировании компонента
+  const abortControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Восстанавливаем сохраненные данные при монтировании
   useEffect(() => {
     if (savedAnalysis && !analysisResult) {
@@ -279,70 +197,30 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
   }, [isAnalyzing]);
 
   /**
-   * ОБНОВЛЕННАЯ ФУНКЦИЯ: Гибкий анализ вакансии через API
+   * ОБНОВЛЕННАЯ ФУНКЦИЯ: Гибкий анализ вакансии через AI-шлюз
    * 
    * Логика работы:
-   * 1. Отправляем POST запрос с JSON body: { vacancy_url, user_id }
-   * 2. Получаем JSON ответ и парсим гибко
+   * 1. Отправляем ссылку, текст или файл вакансии и user_id через analyzeVacancy
+   * 2. Получаем нормализованные данные вакансии с указанием источника
    * 3. Если данных нет - оставляем поля пустыми для ручного заполнения
    * 
-   * @param url - URL вакансии для анализа
+   * @param input - ссылка, текст или файл вакансии для анализа
    * @param userId - идентификатор пользователя
    */
-  const analyzeJobVacancy = async (url: string, userId: string) => {
+  const analyzeJobVacancy = async (input: Omit<AnalyzeVacancyRequest, 'userId'>, userId: string) => {
     setError(null);
     setIsAnalyzing(true);
 
     try {
-      console.log('📤 Отправка вакансии на анализ:', {
-        vacancy_url: url,
-        user_id: userId,
-        endpoint: 'https://77xihg.buildship.run/second-vacancy-upload'
-      });
-
-      // Отправляем запрос на эндпоинт загрузки вакансии
-      const response = await fetch('https://77xihg.buildship.run/second-vacancy-upload', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          vacancy_url: url.trim(),
-          user_id: userId
-        }),
-      });
-
-      console.log('🌐 Получен ответ от API:', {
-        status: response.status,
-        statusText: response.statusText,
-        ok: response.ok,
-        headers: Object.fromEntries(response.headers.entries())
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Ошибка API (response not ok):', {
-          status: response.status,
-          statusText: response.statusText,
-          errorText: errorText
-        });
-        throw new Error(`Ошибка API: ${response.status} - ${errorText}`);
-      }
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
 
-      // Парсим JSON ответ
-      const data = await response.json();
-      console.log('📥 Сырые данные от API (полный объект):', data);
-      console.log('📥 Размер данных от API:', JSON.stringify(data).length, 'символов');
-      
-      // НОВОЕ: Гибкий парсинг данных
-      const parsedData = parseJobDataFlexibly(data);
-      console.log('🔄 Результат parseJobDataFlexibly:', parsedData);
-      console.log('🔄 Проверка ключевых полей после парсинга:');
-      console.log('  - job_title:', parsedData.job_title);
-      console.log('  - company_name:', parsedData.company_name);
-      console.log('  - skills.hard_skills:', parsedData.skills?.hard_skills);
-      console.log('  - skills.soft_skills:', parsedData.skills?.soft_skills);
-      console.log('  - location:', parsedData.location);
+      // Шлюз нормализует ответ API (в том числе вложенный job_data)
+      const parsedData = await analyzeVacancy(
+        { ...input, userId },
+        { signal: abortControllerRef.current.signal }
+      );
+      console.log('🔄 Нормализованные данные вакансии:', parsedData);
       
       console.log('💾 Вызываем setAnalysisResult с данными:', parsedData);
       setAnalysisResult(parsedData);
@@ -372,6 +250,8 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
       console.log('✅ Анализ вакансии завершен успешно!');
       
     } catch (err: any) {
+      if (isAiGatewayError(err) && err.code === 'aborted') return;
+
       console.error('❌ КРИТИЧЕСКАЯ ОШИБКА в analyzeJobVacancy:', {
         name: err.name,
         message: err.message,
@@ -379,7 +259,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
         fullError: err
       });
       
-      const userError = `Не удалось проанализировать вакансию: ${err.message}`;
+      const userError = t('jobAnalysis.failed', { message: err.message });
       console.error('❌ Устанавливаем error для пользователя:', userError);
       setError(userError);
       
@@ -387,6 +267,11 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
       setIsAnalyzing(false);
       
       // НОВОЕ: При ошибке создаем пустую структуру для ручного заполнения
+      const source: VacancySource = input.vacancyUrl
+        ? { type: 'url', url: input.vacancyUrl, vacancy_key: validateJobUrl(input.vacancyUrl).vacancyKey }
+        : input.vacancyFile
+        ? { type: 'file', file_name: input.vacancyFile.name }
+        : { type: 'text' };
       const emptyData = {
         job_title: '',
         title: '',
@@ -401,7 +286,8 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
         experience_level: '',
         industry: '',
         description: '',
-        required_skills: []
+        required_skills: [],
+        source
       };
       
       setAnalysisResult(emptyData);
@@ -467,28 +353,79 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
   };
   // Обработчик анализа вакансии
   const handleAnalyze = async () => {
+    if (inputMode === 'text') {
+      const validation = validateVacancyInput(vacancyText, vacancyFile);
+      if (!validation.isValid) {
+        setError(validation.error || t('jobAnalysis.invalidText'));
+        return;
+      }
+
+      console.log('✅ Валидация текста вакансии пройдена:', vacancyFile
+        ? { file: vacancyFile.name, size: vacancyFile.size }
+        : { textLength: vacancyText.trim().length });
+
+      await analyzeJobVacancy(
+        vacancyFile ? { vacancyFile } : { vacancyText: vacancyText.trim() },
+        currentUserId
+      );
+      return;
+    }
+
     if (!jobUrl.trim()) return;
 
     // Проверяем URL перед отправкой запроса
     const validation = validateJobUrl(jobUrl);
     if (!validation.isValid) {
-      setError(validation.error || 'Некорректный URL вакансии');
+      setError(validation.error || t('jobAnalysis.invalidUrl'));
       return;
     }
 
     console.log('✅ URL валидация пройдена:', {
       url: jobUrl.trim(),
-      detectedSite: validation.detectedSite
+      canonicalUrl: validation.canonicalUrl,
+      detectedSite: validation.detectedSite,
+      vacancyKey: validation.vacancyKey
     });
 
-    await analyzeJobVacancy(jobUrl.trim(), currentUserId);
+    await analyzeJobVacancy({ vacancyUrl: validation.canonicalUrl || jobUrl.trim() }, currentUserId);
   };
 
+  /**
+   * НОВАЯ ФУНКЦИЯ: Выбор файла вакансии (через input или drag-and-drop)
+   */
+  const selectVacancyFile = (file: File) => {
+    const validation = validateVacancyInput('', file);
+    if (!validation.isValid) {
+      setError(validation.error || t('jobAnalysis.invalidFile'));
+      return;
+    }
+    setError(null);
+    setVacancyFile(file);
+  };
+
+  const handleVacancyDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragActive(false);
+
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      selectVacancyFile(files[0]);
+    }
+  };
+
+  // Кнопка анализа доступна, когда введенные данные проходят валидацию
+  const canAnalyze = inputMode === 'url'
+    ? jobUrl.trim().length > 0 && validateJobUrl(jobUrl).isValid
+    : validateVacancyInput(vacancyText, vacancyFile).isValid;
+
   // Сброс анализа для новой вакансии - ИСПРАВЛЕННАЯ ФУНКЦИЯ
   const resetAnalysis = () => {
     // Полностью очищаем все состояния
     setAnalysisResult(null);
     setJobUrl('');
+    setVacancyText('');
+    setVacancyFile(null);
     setError(null);
     setIsAnalyzing(false);
     setIsEditing(false);
@@ -538,8 +475,8 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
               <CheckCircle className="w-6 h-6 text-white" />
             </motion.div>
             <div>
-              <p className="text-white font-semibold">Изменения сохранены!</p>
-              <p className="text-green-100 text-sm">Данные вакансии обновлены</p>
+              <p className="text-white font-semibold">{t('jobAnalysis.editsSaved')}</p>
+              <p className="text-green-100 text-sm">{t('jobAnalysis.editsSavedHint')}</p>
             </div>
           </div>
           
@@ -554,9 +491,9 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
 
       {/* Заголовок */}
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-white mb-2">Анализ вакансии</h2>
+        <h2 className="text-2xl font-bold text-white mb-2">{t('jobAnalysis.title')}</h2>
         <p className="text-gray-300">
-          Вставьте ссылку на интересную вакансию из любого сайта
+          {t('jobAnalysis.subtitle')}
         </p>
       </div>
 
@@ -569,8 +506,8 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
           </div>
           <div className="text-yellow-300 text-xs space-y-1">
             <p>• User ID: <span className="font-mono bg-yellow-500/20 px-2 py-1 rounded">{currentUserId}</span></p>
-            <p>• Эндпоинт: <span className="font-mono">https://77xihg.buildship.run2_vacancy_upload</span></p>
-            <p>• Формат: JSON (vacancy_url: text, user_id: text)</p>
+            <p>• Эндпоинт: <span className="font-mono">{getAiGatewayStageUrl('analyzeVacancy')}</span></p>
+            <p>• Формат: JSON (vacancy_url или vacancy_text, user_id) или multipart (vacancy_file, user_id)</p>
           </div>
         </div>
       )}
@@ -578,16 +515,38 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
       {/* Поле ввода URL - показываем только если нет результата */}
       {!analysisResult && (
         <div className="space-y-4">
+          {/* НОВОЕ: Переключатель режима ввода */}
+          <div className="grid grid-cols-2 gap-2 bg-white/5 border border-white/10 rounded-2xl p-1">
+            {([
+              { mode: 'url', labelKey: 'jobAnalysis.mode.url', icon: Link2 },
+              { mode: 'text', labelKey: 'jobAnalysis.mode.text', icon: FileText }
+            ] as const).map(({ mode, labelKey, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => {
+                  setInputMode(mode);
+                  setError(null);
+                }}
+                disabled={isAnalyzing}
+                className={`flex items-center justify-center space-x-2 py-2 rounded-xl text-sm transition-colors ${
+                  inputMode === mode ? 'bg-blue-500/30 text-white' : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                <span>{t(labelKey)}</span>
+              </button>
+            ))}
+          </div>
+
+          {inputMode === 'url' ? (
+          <>
           {/* НОВОЕ: Информация о валидации URL */}
           <div className="bg-blue-500/10 border border-blue-500/20 rounded-2xl p-4">
-            <h3 className="text-blue-400 font-medium mb-2">🔗 Поддерживаемые форматы ссылок:</h3>
+            <h3 className="text-blue-400 font-medium mb-2">{t('jobAnalysis.supportedFormats')}</h3>
             <div className="text-blue-300 text-sm space-y-1">
-              <p>• <strong>HeadHunter:</strong> https://hh.ru/vacancy/123456</p>
-              <p>• <strong>LinkedIn:</strong> https://linkedin.com/jobs/view/123456</p>
-              <p>• <strong>Djinni:</strong> https://djinni.co/jobs/123456</p>
-              <p>• <strong>Habr Career:</strong> https://career.habr.com/vacancies/123456</p>
-              <p>• <strong>SuperJob:</strong> https://superjob.ru/vakansii/...</p>
-              <p>• <strong>Work.ua:</strong> https://work.ua/jobs/123456</p>
+              {JOB_SITE_ADAPTERS.map(adapter => (
+                <p key={adapter.id}>• <strong>{adapter.name}:</strong> {adapter.exampleUrl}</p>
+              ))}
             </div>
           </div>
 
@@ -609,10 +568,27 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
               {(() => {
                 const validation = validateJobUrl(jobUrl);
                 if (validation.isValid) {
+                  // Дедупликация: та же вакансия могла прийти по другой ссылке (мобильной, с utm и т.п.)
+                  const previous = previousGenerations.find(
+                    generation => generation.vacancy_key && generation.vacancy_key === validation.vacancyKey
+                  );
                   return (
-                    <div className="flex items-center space-x-2 text-green-400">
-                      <CheckCircle className="w-4 h-4" />
-                      <span>✅ {validation.detectedSite} - URL корректен</span>
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2 text-green-400">
+                        <CheckCircle className="w-4 h-4" />
+                        <span>{t('jobAnalysis.urlValid', { site: validation.detectedSite ?? '' })}</span>
+                      </div>
+                      {previous && (
+                        <div className="flex items-center space-x-2 text-yellow-400">
+                          <AlertCircle className="w-4 h-4" />
+                          <span>
+                            {t('jobAnalysis.alreadyGenerated', {
+                              title: previous.title || previous.job_title,
+                              date: formatDate(previous.created_at)
+                            })}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   );
                 } else {
@@ -626,12 +602,94 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
               })()}
             </div>
           )}
+          </>
+          ) : (
+          <>
+          {/* НОВЫЙ БЛОК: Текст вакансии или файл */}
+          <div className="bg-blue-500/10 border border-blue-500/20 rounded-2xl p-4">
+            <h3 className="text-blue-400 font-medium mb-2">{t('jobAnalysis.noLinkTitle')}</h3>
+            <div className="text-blue-300 text-sm space-y-1">
+              <p>{t('jobAnalysis.noLinkText')}</p>
+              <p>{t('jobAnalysis.noLinkFile', { size: VACANCY_FILE_MAX_SIZE / 1024 / 1024 })}</p>
+            </div>
+          </div>
+
+          {vacancyFile ? (
+            <div className="flex items-center justify-between bg-white/10 border border-white/20 rounded-2xl p-4">
+              <div className="flex items-center space-x-3 min-w-0">
+                <FileText className="w-5 h-5 text-blue-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-white text-sm font-medium truncate">{vacancyFile.name}</p>
+                  <p className="text-gray-400 text-xs">{(vacancyFile.size / 1024).toFixed(1)} KB</p>
+                </div>
+              </div>
+              <button
+                onClick={() => setVacancyFile(null)}
+                disabled={isAnalyzing}
+                title={t('jobAnalysis.removeFile')}
+                className="p-1.5 text-gray-400 hover:text-red-400 transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ) : (
+            <>
+              <textarea
+                value={vacancyText}
+                onChange={(e) => setVacancyText(e.target.value)}
+                rows={8}
+                maxLength={VACANCY_TEXT_MAX_LENGTH}
+                placeholder={t('jobAnalysis.textPlaceholder')}
+                className="w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-2xl px-4 py-3 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all resize-y"
+                disabled={isAnalyzing}
+              />
+              <div
+                onDragEnter={(e) => { e.preventDefault(); setIsDragActive(true); }}
+                onDragOver={(e) => e.preventDefault()}
+                onDragLeave={(e) => { e.preventDefault(); setIsDragActive(false); }}
+                onDrop={handleVacancyDrop}
+                className={`border-2 border-dashed rounded-2xl p-4 text-center transition-colors ${
+                  isDragActive ? 'border-blue-500 bg-blue-500/10' : 'border-gray-500'
+                }`}
+              >
+                <input
+                  type="file"
+                  accept=".pdf,.docx,.txt,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) selectVacancyFile(file);
+                    e.target.value = '';
+                  }}
+                  className="hidden"
+                  id="vacancy-file-upload"
+                  disabled={isAnalyzing}
+                />
+                <div className="flex items-center justify-center space-x-2 text-gray-400 text-sm">
+                  <Upload className="w-4 h-4" />
+                  <span>
+                    {t('jobAnalysis.dropBefore')}{' '}
+                    <label htmlFor="vacancy-file-upload" className="text-blue-400 underline cursor-pointer hover:text-blue-300">
+                      {t('jobAnalysis.chooseFile')}
+                    </label>
+                  </span>
+                </div>
+              </div>
+              {vacancyText.trim().length > 0 && vacancyText.trim().length < VACANCY_TEXT_MIN_LENGTH && (
+                <div className="flex items-center space-x-2 text-sm text-yellow-400">
+                  <AlertCircle className="w-4 h-4" />
+                  <span>{t('jobAnalysis.moreChars', { count: VACANCY_TEXT_MIN_LENGTH - vacancyText.trim().length })}</span>
+                </div>
+              )}
+            </>
+          )}
+          </>
+          )}
 
           <motion.button
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
             onClick={handleAnalyze}
-            disabled={!jobUrl.trim() || isAnalyzing || !validateJobUrl(jobUrl).isValid}
+            disabled={!canAnalyze || isAnalyzing}
             className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-4 px-6 rounded-2xl shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center space-x-2"
           >
             {isAnalyzing ? (
@@ -642,12 +700,12 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                 >
                   <Search className="w-5 h-5" />
                 </motion.div>
-                <span>Анализируем вакансию...</span>
+                <span>{t('jobAnalysis.analyzing')}</span>
               </>
             ) : (
               <>
                 <Search className="w-5 h-5" />
-                <span>Анализировать вакансию</span>
+                <span>{t('jobAnalysis.analyze')}</span>
               </>
             )}
           </motion.button>
@@ -670,7 +728,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
             >
               <Loader2 className="w-8 h-8 text-blue-400" />
             </motion.div>
-            <h3 className="text-white font-semibold text-lg">Анализируем вакансию</h3>
+            <h3 className="text-white font-semibold text-lg">{t('jobAnalysis.analyzingTitle')}</h3>
           </div>
 
           {/* Анимированные сообщения */}
@@ -728,7 +786,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                           : 'text-gray-400'
                       }`}
                     >
-                      {message.text}
+                      {t(message.textKey)}
                     </motion.span>
 
                     {/* Анимированные точки для текущего сообщения */}
@@ -765,7 +823,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
           {/* Прогресс-бар */}
           <div className="mt-6">
             <div className="flex justify-between text-sm text-gray-400 mb-2">
-              <span>Прогресс</span>
+              <span>{t('jobAnalysis.progress')}</span>
               <span>{Math.round(((currentMessageIndex + 1) / LOADING_MESSAGES.length) * 100)}%</span>
             </div>
             <div className="w-full bg-gray-700 rounded-full h-2">
@@ -791,17 +849,42 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
               <CheckCircle className="w-6 h-6 text-green-400" />
-              <span className="text-green-400 font-medium">Вакансия проанализирована!</span>
+              <span className="text-green-400 font-medium">{t('jobAnalysis.done')}</span>
             </div>
             {/* ИСПРАВЛЕННАЯ КНОПКА - теперь вызывает resetAnalysis */}
             <button
               onClick={resetAnalysis}
               className="text-blue-400 hover:text-blue-300 text-sm underline transition-colors"
             >
-              Анализировать другую
+              {t('jobAnalysis.analyzeAnother')}
             </button>
           </div>
 
+          {/* НОВОЕ: Источник данных вакансии */}
+          {analysisResult.source && (
+            <div className="flex items-center space-x-2 text-sm text-gray-400">
+              {analysisResult.source.type === 'url' ? (
+                <>
+                  <Link2 className="w-4 h-4" />
+                  <a
+                    href={analysisResult.source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-400 hover:text-blue-300 underline truncate flex items-center space-x-1"
+                  >
+                    <span className="truncate">{analysisResult.source.url}</span>
+                    <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                  </a>
+                </>
+              ) : (
+                <>
+                  <FileText className="w-4 h-4" />
+                  <span>{getVacancySourceText(analysisResult.source)}</span>
+                </>
+              )}
+            </div>
+          )}
+
           {/* НОВАЯ КАРТОЧКА: Информация о вакансии с полями из API */}
           <div className="bg-green-500/10 border border-green-500/20 rounded-2xl p-6">
             <div className="space-y-6">
@@ -810,11 +893,11 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                 {/* Название должности и компания */}
                 <div>
                   <h3 className="text-white font-semibold text-xl mb-2">
-                    {analysisResult.job_title || 'Название должности'}
+                    {analysisResult.job_title || t('jobAnalysis.positionPlaceholder')}
                   </h3>
                   <div className="flex items-center space-x-2 text-green-400">
                     <Building className="w-4 h-4" />
-                    <span className="font-medium">{analysisResult.company_name || 'Название компании'}</span>
+                    <span className="font-medium">{analysisResult.company_name || t('jobAnalysis.companyPlaceholder')}</span>
                   </div>
                 </div>
 
@@ -825,12 +908,20 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                     <span>
                       {analysisResult.location.city && analysisResult.location.country 
                         ? `${analysisResult.location.city}, ${analysisResult.location.country}`
-                        : analysisResult.location.city || analysisResult.location.country || 'Локация не указана'
+                        : analysisResult.location.city || analysisResult.location.country || t('jobAnalysis.locationUnknown')
                       }
                     </span>
                   </div>
                 )}
 
+                {/* Зарплатная вилка (приходит из API hh.ru) */}
+                {analysisResult.salary && (
+                  <div className="flex items-center space-x-2 text-gray-300">
+                    <Wallet className="w-4 h-4" />
+                    <span>{formatVacancySalary(analysisResult.salary)}</span>
+                  </div>
+                )}
+
                 {/* Дополнительная информация в сетке */}
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
                   {/* Тип занятости */}
@@ -838,7 +929,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                     <div className="bg-blue-500/10 border border-blue-500/20 rounded-xl p-3">
                       <div className="flex items-center space-x-2 mb-1">
                         <Briefcase className="w-4 h-4 text-blue-400" />
-                        <span className="text-blue-400 text-sm font-medium">Тип занятости</span>
+                        <span className="text-blue-400 text-sm font-medium">{t('jobAnalysis.employmentType')}</span>
                       </div>
                       <p className="text-white text-sm">{analysisResult.employment_type}</p>
                     </div>
@@ -849,7 +940,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                     <div className="bg-purple-500/10 border border-purple-500/20 rounded-xl p-3">
                       <div className="flex items-center space-x-2 mb-1">
                         <Clock className="w-4 h-4 text-purple-400" />
-                        <span className="text-purple-400 text-sm font-medium">Опыт</span>
+                        <span className="text-purple-400 text-sm font-medium">{t('jobAnalysis.experience')}</span>
                       </div>
                       <p className="text-white text-sm">{analysisResult.experience_level}</p>
                     </div>
@@ -860,7 +951,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                     <div className="bg-green-500/10 border border-green-500/20 rounded-xl p-3">
                       <div className="flex items-center space-x-2 mb-1">
                         <Building className="w-4 h-4 text-green-400" />
-                        <span className="text-green-400 text-sm font-medium">Отрасль</span>
+                        <span className="text-green-400 text-sm font-medium">{t('jobAnalysis.industry')}</span>
                       </div>
                       <p className="text-white text-sm">{analysisResult.industry}</p>
                     </div>
@@ -870,13 +961,13 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
 
               {/* Заголовок с кнопкой редактирования */}
               <div className="flex items-center justify-between mb-4">
-                <h3 className="text-white font-semibold text-lg">📋 Данные вакансии</h3>
+                <h3 className="text-white font-semibold text-lg">{t('jobAnalysis.dataTitle')}</h3>
                 <button
                   onClick={() => setIsEditing(!isEditing)}
                   className="px-3 py-2 bg-blue-500/20 hover:bg-blue-500/30 rounded-xl transition-colors text-sm text-blue-300 flex items-center space-x-1"
                 >
                   <Edit3 className="w-4 h-4" />
-                  <span>{isEditing ? 'Сохранить' : 'Редактировать'}</span>
+                  <span>{isEditing ? t('common.save') : t('common.edit')}</span>
                 </button>
               </div>
 
@@ -885,28 +976,29 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                 <div className="space-y-4">
                   {/* Редактирование названия должности */}
                   <div>
-                    <label className="block text-gray-300 text-sm font-medium mb-2">🎯 Название должности:</label>
+                    <label className="block text-gray-300 text-sm font-medium mb-2">{t('jobAnalysis.positionLabel')}</label>
                     <input
                       type="text"
                       value={editableData.title}
                       onChange={(e) => setEditableData(prev => ({ ...prev, title: e.target.value }))}
                       className="w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
-                      placeholder="Введите название должности"
+                      placeholder={t('jobAnalysis.positionInput')}
                     />
                   </div>
 
                   {/* Редактирование навыков */}
                   {['hard_skills', 'soft_skills', 'languages'].map((category) => {
-                    const categoryNames = {
-                      hard_skills: '💻 Технические навыки',
-                      soft_skills: '🤝 Гибкие навыки', 
-                      languages: '🌍 Языки'
+                    const categoryIcons = {
+                      hard_skills: '💻',
+                      soft_skills: '🤝',
+                      languages: '🌍'
                     };
+                    const categoryName = t(`skills.${category as keyof typeof categoryIcons}`);
                     
                     return (
                       <div key={category}>
                         <label className="block text-gray-300 text-sm font-medium mb-2">
-                          {categoryNames[category as keyof typeof categoryNames]}:
+                          {categoryIcons[category as keyof typeof categoryIcons]} {categoryName}:
                         </label>
                         
                         {/* Список текущих навыков */}
@@ -929,7 +1021,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                           <input
                             type="text"
                             className="flex-1 bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all text-sm"
-                            placeholder={`Добавить ${categoryNames[category as keyof typeof categoryNames].toLowerCase()}`}
+                            placeholder={t('jobAnalysis.addTo', { category: categoryName.toLowerCase() })}
                             onKeyPress={(e) => {
                               if (e.key === 'Enter') {
                                 addSkill(category as any, (e.target as HTMLInputElement).value);
@@ -945,7 +1037,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                             }}
                             className="px-3 py-2 bg-green-500/20 hover:bg-green-500/30 rounded-xl transition-colors text-sm text-green-300"
                           >
-                            Добавить
+                            {t('common.add')}
                           </button>
                         </div>
                       </div>
@@ -957,7 +1049,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                     onClick={handleSaveEdits}
                     className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-3 px-4 rounded-xl shadow-xl transition-all hover:from-blue-500 hover:to-purple-500"
                   >
-                    ✅ Сохранить изменения
+                    {t('common.saveChanges')}
                   </button>
                 </div>
               ) : (
@@ -965,20 +1057,20 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                 <div className="space-y-4">
                   {/* Название должности */}
                   <div className="bg-white/5 rounded-xl p-4">
-                    <h4 className="text-blue-400 font-medium mb-2">🎯 Название должности</h4>
+                    <h4 className="text-blue-400 font-medium mb-2">{t('jobAnalysis.positionTitle')}</h4>
                     <p className="text-white text-lg font-semibold">
-                      {analysisResult.job_title || analysisResult.title || 'Не указано'}
+                      {analysisResult.job_title || analysisResult.title || t('jobAnalysis.notSpecified')}
                     </p>
                   </div>
 
                   {/* НОВОЕ: Требуемые навыки */}
                   <div className="bg-white/5 rounded-xl p-4">
-                    <h4 className="text-blue-400 font-medium mb-3">🛠️ Навыки и требования</h4>
+                    <h4 className="text-blue-400 font-medium mb-3">{t('jobAnalysis.skillsTitle')}</h4>
                     
                     {/* Технические навыки */}
                     {analysisResult.skills?.hard_skills?.length > 0 && (
                       <div className="mb-3">
-                        <span className="text-gray-300 text-sm font-medium mb-2 block">💻 Технические навыки:</span>
+                        <span className="text-gray-300 text-sm font-medium mb-2 block">💻 {t('skills.hard_skills')}:</span>
                         <div className="flex flex-wrap gap-2">
                           {analysisResult.skills.hard_skills.map((skill: string, index: number) => (
                             <span key={index} className="bg-blue-500/20 text-blue-300 px-2 py-1 rounded-lg text-xs">
@@ -992,7 +1084,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                     {/* Гибкие навыки */}
                     {analysisResult.skills?.soft_skills?.length > 0 && (
                       <div className="mb-3">
-                        <span className="text-gray-300 text-sm font-medium mb-2 block">🤝 Гибкие навыки:</span>
+                        <span className="text-gray-300 text-sm font-medium mb-2 block">🤝 {t('skills.soft_skills')}:</span>
                         <div className="flex flex-wrap gap-2">
                           {analysisResult.skills.soft_skills.map((skill: string, index: number) => (
                             <span key={index} className="bg-green-500/20 text-green-300 px-2 py-1 rounded-lg text-xs">
@@ -1006,7 +1098,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                     {/* Языки */}
                     {analysisResult.skills?.languages?.length > 0 && (
                       <div>
-                        <span className="text-gray-300 text-sm font-medium mb-2 block">🌍 Языки:</span>
+                        <span className="text-gray-300 text-sm font-medium mb-2 block">🌍 {t('skills.languages')}:</span>
                         <div className="flex flex-wrap gap-2">
                           {analysisResult.skills.languages.map((language: string, index: number) => (
                             <span key={index} className="bg-purple-500/20 text-purple-300 px-2 py-1 rounded-lg text-xs">
@@ -1021,7 +1113,7 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
                     {(!analysisResult.skills?.hard_skills?.length && 
                       !analysisResult.skills?.soft_skills?.length && 
                       !analysisResult.skills?.languages?.length) && (
-                      <p className="text-gray-400 text-sm italic">Навыки не извлечены. Нажмите "Редактировать" для ручного добавления.</p>
+                      <p className="text-gray-400 text-sm italic">{t('jobAnalysis.noSkills')}</p>
                     )}
                   </div>
                 </div>
@@ -1036,34 +1128,28 @@ const JobAnalysis: React.FC<JobAnalysisProps> = ({ onAnalysisComplete, savedAnal
         <div className="bg-red-500/10 border border-red-500/20 rounded-2xl p-4">
           <div className="flex items-center space-x-2 mb-2">
             <AlertCircle className="w-5 h-5 text-red-400" />
-            <h3 className="text-red-400 font-medium">Ошибка анализа</h3>
+            <h3 className="text-red-400 font-medium">{t('jobAnalysis.errorTitle')}</h3>
           </div>
           <p className="text-red-300 text-sm mb-4">{error}</p>
           
           {/* НОВОЕ: Информация о поддерживаемых сайтах при ошибке */}
           <div className="bg-green-500/10 border border-green-500/20 rounded-2xl p-4">
-            <h3 className="text-white font-medium mb-2">✅ Поддерживаемые сайты:</h3>
+            <h3 className="text-white font-medium mb-2">{t('jobAnalysis.supportedSites')}</h3>
             <div className="grid grid-cols-2 gap-2 text-gray-300 text-sm">
-              <div>• <strong>HeadHunter</strong> (hh.ru, hh.kz)</div>
-              <div>• <strong>LinkedIn</strong> (linkedin.com)</div>
-              <div>• <strong>Djinni</strong> (djinni.co)</div>
-              <div>• <strong>Habr Career</strong> (career.habr.com)</div>
-              <div>• <strong>SuperJob</strong> (superjob.ru)</div>
-              <div>• <strong>Avito Работа</strong> (avito.ru)</div>
-              <div>• <strong>Rabota.ru</strong> (rabota.ru)</div>
-              <div>• <strong>Zarplata.ru</strong> (zarplata.ru)</div>
-              <div>• <strong>Work.ua</strong> (work.ua)</div>
+              {JOB_SITE_ADAPTERS.map(adapter => (
+                <div key={adapter.id}>• <strong>{adapter.name}</strong> ({adapter.domains.join(', ')})</div>
+              ))}
             </div>
             
             {/* ОБНОВЛЕННАЯ информация о гибком парсинге */}
             <div className="mt-4 pt-4 border-t border-gray-500/20">
-              <h4 className="text-white font-medium mb-2">📊 Гибкий парсинг данных:</h4>
+              <h4 className="text-white font-medium mb-2">{t('jobAnalysis.parsingTitle')}</h4>
               <ul className="text-gray-300 text-sm space-y-1">
-                <li>• <strong>Приоритет:</strong> title, skills (hard/soft/languages)</li>
-                <li>• <strong>Если нет данных:</strong> поля остаются пустыми</li>
-                <li>• <strong>Ручное редактирование:</strong> можно добавить любые навыки</li>
-                <li>• <strong>Без строгой валидации:</strong> принимаем любой формат JSON</li>
-                <li>• <strong>Гибкость:</strong> работает даже при ошибках API</li>
+                <li>• <strong>{t('jobAnalysis.parsing.priority')}</strong> {t('jobAnalysis.parsing.priorityText')}</li>
+                <li>• <strong>{t('jobAnalysis.parsing.noData')}</strong> {t('jobAnalysis.parsing.noDataText')}</li>
+                <li>• <strong>{t('jobAnalysis.parsing.manual')}</strong> {t('jobAnalysis.parsing.manualText')}</li>
+                <li>• <strong>{t('jobAnalysis.parsing.lenient')}</strong> {t('jobAnalysis.parsing.lenientText')}</li>
+                <li>• <strong>{t('jobAnalysis.parsing.flexible')}</strong> {t('jobAnalysis.parsing.flexibleText')}</li>
               </ul>
             </div>
           </div>
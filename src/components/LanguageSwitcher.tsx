@@ -0,0 +1,32 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+import { Locale, LOCALE_TITLES, LOCALES } from '../lib/i18n';
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Переключатель языка интерфейса
+ *
+ * Названия языков показываются на самих языках, выбор сохраняется I18nProvider
+ */
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="w-full flex items-center space-x-3 px-3 py-2 rounded-xl hover:bg-white/10 transition-colors text-gray-300">
+      <Globe className="w-4 h-4" />
+      <span className="sr-only">{t('common.language')}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="flex-1 bg-transparent text-gray-300 hover:text-white focus:outline-none cursor-pointer"
+        aria-label={t('common.language')}
+      >
+        {LOCALES.map(option => (
+          <option key={option} value={option} className="bg-gray-900">{LOCALE_TITLES[option]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,297 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Wand2, Check, X, Loader2, AlertCircle } from 'lucide-react';
+import { FragmentRewriteAction, FragmentTargetLanguage, isAiGatewayError, rewriteFragment } from '../lib/aiGateway';
+import {
+  diffWords,
+  expandToParagraph,
+  FRAGMENT_ACTION_TITLE_KEYS,
+  getFragmentContext,
+  LetterSelection,
+  MAX_FRAGMENT_LENGTH,
+  replaceFragment
+} from '../lib/letterRewrite';
+import { LETTER_LANGUAGE_TITLES } from '../lib/letterLanguage';
+import { useI18n } from '../hooks/useI18n';
+
+interface LetterFragmentEditorProps {
+  letter: string;
+  /** Навыки для действия «Подчеркнуть навык» (акценты из настроек письма) */
+  skills: string[];
+  userId: string;
+  /** Принятая правка: новый текст письма целиком */
+  onApply: (letter: string) => void;
+}
+
+/**
+ * Предложенная правка фрагмента, ожидающая решения пользователя
+ */
+interface RewriteProposal {
+  selection: LetterSelection;
+  action: FragmentRewriteAction;
+  original: string;
+  rewritten: string;
+}
+
+/**
+ * Смещения выделения внутри контейнера с текстом письма
+ */
+function getSelectionInContainer(container: HTMLElement): LetterSelection | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null;
+
+  const prefix = document.createRange();
+  prefix.selectNodeContents(container);
+  prefix.setEnd(range.startContainer, range.startOffset);
+
+  const start = prefix.toString().length;
+  return { start, end: start + range.toString().length };
+}
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Точечные AI-правки письма
+ *
+ * Пользователь выделяет фрагмент в тексте письма и выбирает действие:
+ * сократить, сделать официальнее, добавить метрику, подчеркнуть навык
+ * или перевести абзац. В rewrite-fragment уходит только фрагмент и текст
+ * вокруг него, результат показывается как diff и применяется после подтверждения.
+ */
+const LetterFragmentEditor: React.FC<LetterFragmentEditorProps> = ({ letter, skills, userId, onApply }) => {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const [selection, setSelection] = useState<LetterSelection | null>(null);
+  const [proposal, setProposal] = useState<RewriteProposal | null>(null);
+  const [pendingAction, setPendingAction] = useState<FragmentRewriteAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [skill, setSkill] = useState(skills[0] ?? '');
+  const [targetLanguage, setTargetLanguage] = useState<FragmentTargetLanguage>('en');
+
+  // Отмена запроса при размонтировании компонента
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Письмо изменилось (отмена, повтор, другой вариант) - прежнее выделение неактуально
+  useEffect(() => {
+    abortControllerRef.current?.abort();
+    setSelection(null);
+    setProposal(null);
+    setPendingAction(null);
+    setError(null);
+  }, [letter]);
+
+  useEffect(() => {
+    if (!skills.includes(skill)) {
+      setSkill(skills[0] ?? '');
+    }
+  }, [skills, skill]);
+
+  const handleMouseUp = () => {
+    if (proposal || pendingAction || !containerRef.current) return;
+
+    const next = getSelectionInContainer(containerRef.current);
+    if (next && letter.slice(next.start, next.end).trim()) {
+      setSelection(next);
+      setError(null);
+    }
+  };
+
+  const runAction = async (action: FragmentRewriteAction) => {
+    if (!selection) return;
+
+    // Перевод применяется к абзацу целиком
+    const target = action === 'translate' ? expandToParagraph(letter, selection) : selection;
+    const fragment = letter.slice(target.start, target.end);
+
+    if (fragment.length > MAX_FRAGMENT_LENGTH) {
+      setError(t('letterRewrite.tooLong', { max: MAX_FRAGMENT_LENGTH }));
+      return;
+    }
+
+    const context = getFragmentContext(letter, target);
+
+    setPendingAction(action);
+    setSelection(target);
+    setError(null);
+
+    try {
+      console.log('✏️ Переписываем фрагмент письма:', action, fragment.length);
+
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+      const { fragment_text } = await rewriteFragment({
+        action,
+        fragment,
+        contextBefore: context.before,
+        contextAfter: context.after,
+        skill: action === 'emphasize_skill' ? skill : undefined,
+        targetLanguage: action === 'translate' ? targetLanguage : undefined,
+        userId,
+      }, { signal: abortControllerRef.current.signal });
+
+      setProposal({ selection: target, action, original: fragment, rewritten: fragment_text.trim() });
+
+    } catch (err) {
+      if (isAiGatewayError(err) && err.code === 'aborted') return;
+      console.error('❌ Ошибка переписывания фрагмента:', err);
+      setError((err instanceof Error && err.message) || t('letterRewrite.failed'));
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const acceptProposal = () => {
+    if (!proposal) return;
+    onApply(replaceFragment(letter, proposal.selection, proposal.rewritten));
+  };
+
+  const clearSelection = () => {
+    abortControllerRef.current?.abort();
+    setSelection(null);
+    setProposal(null);
+    setPendingAction(null);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const highlighted = proposal?.selection ?? selection;
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        onMouseUp={handleMouseUp}
+        className="text-white whitespace-pre-wrap leading-relaxed bg-white/5 rounded-xl p-4 max-h-96 overflow-y-auto"
+      >
+        {highlighted ? (
+          <>
+            {letter.slice(0, highlighted.start)}
+            <mark className="bg-purple-500/30 text-white rounded">{letter.slice(highlighted.start, highlighted.end)}</mark>
+            {letter.slice(highlighted.end)}
+          </>
+        ) : letter}
+      </div>
+
+      {!selection && !proposal && (
+        <p className="text-xs text-gray-400 flex items-center space-x-1">
+          <Wand2 className="w-3 h-3" />
+          <span>{t('letterRewrite.hint')}</span>
+        </p>
+      )}
+
+      {/* Действия над выделением */}
+      {selection && !proposal && (
+        <div className="bg-purple-500/10 border border-purple-500/20 rounded-xl p-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {(['shorten', 'formalize', 'add_metric'] as FragmentRewriteAction[]).map(action => (
+              <button
+                key={action}
+                onClick={() => runAction(action)}
+                disabled={!!pendingAction}
+                className="flex items-center space-x-1 px-3 py-1 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg transition-colors text-sm text-purple-300 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pendingAction === action && <Loader2 className="w-3 h-3 animate-spin" />}
+                <span>{t(FRAGMENT_ACTION_TITLE_KEYS[action])}</span>
+              </button>
+            ))}
+            <button
+              onClick={clearSelection}
+              className="ml-auto p-1 text-gray-400 hover:text-white transition-colors"
+              title={t('letterRewrite.clearSelection')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={skill}
+              onChange={(e) => setSkill(e.target.value)}
+              disabled={skills.length === 0}
+              className="bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white text-sm disabled:opacity-50"
+            >
+              {skills.length === 0 ? (
+                <option value="">{t('letterRewrite.noSkills')}</option>
+              ) : skills.map(item => (
+                <option key={item} value={item}>{item}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => runAction('emphasize_skill')}
+              disabled={!!pendingAction || !skill}
+              className="flex items-center space-x-1 px-3 py-1 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg transition-colors text-sm text-purple-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'emphasize_skill' && <Loader2 className="w-3 h-3 animate-spin" />}
+              <span>{t(FRAGMENT_ACTION_TITLE_KEYS.emphasize_skill)}</span>
+            </button>
+
+            <select
+              value={targetLanguage}
+              onChange={(e) => setTargetLanguage(e.target.value as FragmentTargetLanguage)}
+              className="bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white text-sm"
+            >
+              {(Object.keys(LETTER_LANGUAGE_TITLES) as FragmentTargetLanguage[]).map(language => (
+                <option key={language} value={language}>{LETTER_LANGUAGE_TITLES[language]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => runAction('translate')}
+              disabled={!!pendingAction}
+              className="flex items-center space-x-1 px-3 py-1 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg transition-colors text-sm text-purple-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {pendingAction === 'translate' && <Loader2 className="w-3 h-3 animate-spin" />}
+              <span>{t(FRAGMENT_ACTION_TITLE_KEYS.translate)}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Предложенная правка */}
+      {proposal && (
+        <div className="bg-purple-500/10 border border-purple-500/20 rounded-xl p-3 space-y-3">
+          <h4 className="text-purple-300 font-medium text-sm">{t('letterRewrite.proposal', { action: t(FRAGMENT_ACTION_TITLE_KEYS[proposal.action]) })}</h4>
+          <div className="text-sm whitespace-pre-wrap leading-relaxed bg-white/5 rounded-lg p-3">
+            {diffWords(proposal.original, proposal.rewritten).map((segment, index) => (
+              <span
+                key={index}
+                className={
+                  segment.type === 'added' ? 'bg-green-500/20 text-green-300' :
+                  segment.type === 'removed' ? 'bg-red-500/20 text-red-300 line-through' :
+                  'text-gray-300'
+                }
+              >
+                {segment.text}
+              </span>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={acceptProposal}
+              className="px-3 py-1 bg-green-600/20 hover:bg-green-600/30 rounded-lg transition-colors text-sm text-green-300 flex items-center space-x-1"
+            >
+              <Check className="w-3 h-3" />
+              <span>{t('letterRewrite.accept')}</span>
+            </button>
+            <button
+              onClick={clearSelection}
+              className="px-3 py-1 bg-red-600/20 hover:bg-red-600/30 rounded-lg transition-colors text-sm text-red-300 flex items-center space-x-1"
+            >
+              <X className="w-3 h-3" />
+              <span>{t('letterRewrite.reject')}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-red-300 text-sm flex items-center space-x-1">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LetterFragmentEditor;
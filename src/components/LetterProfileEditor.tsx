@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { Loader2, Plus, Save, Trash2, X, AlertCircle } from 'lucide-react';
+import {
+  createEmptyLetterProfileSettings,
+  getLetterProfileSettings,
+  LETTER_PROFILE_LIMITS,
+  LetterProfile,
+  LetterProfileSettings,
+  validateLetterProfileSettings
+} from '../types/letterProfile';
+import { createLetterProfile, deleteLetterProfile, updateLetterProfile } from '../lib/letterProfiles';
+import { useI18n } from '../hooks/useI18n';
+
+interface LetterProfileEditorProps {
+  userId: string;
+  profiles: LetterProfile[];
+  /** Список профилей после создания, изменения или удаления */
+  onProfilesChange: (profiles: LetterProfile[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Поля формы: списки редактируются как текст
+ * (абзацы разделяются пустой строкой, слова - запятой или переводом строки)
+ */
+interface LetterProfileForm {
+  name: string;
+  sampleParagraphs: string;
+  avoidWords: string;
+  greeting: string;
+  signOff: string;
+  maxLength: string;
+}
+
+function toForm(settings: LetterProfileSettings): LetterProfileForm {
+  return {
+    name: settings.name,
+    sampleParagraphs: settings.sample_paragraphs.join('\n\n'),
+    avoidWords: settings.avoid_words.join(', '),
+    greeting: settings.greeting ?? '',
+    signOff: settings.sign_off ?? '',
+    maxLength: settings.max_length?.toString() ?? '',
+  };
+}
+
+function fromForm(form: LetterProfileForm): LetterProfileSettings {
+  return getLetterProfileSettings({
+    name: form.name,
+    sample_paragraphs: form.sampleParagraphs.split(/\n\s*\n/),
+    avoid_words: form.avoidWords.split(/[,\n]/),
+    greeting: form.greeting,
+    sign_off: form.signOff,
+    max_length: form.maxLength.trim() ? Number(form.maxLength) : null,
+  });
+}
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Редактор профилей голоса
+ *
+ * Профиль - образцы абзацев пользователя, слова, которых надо избегать,
+ * приветствие, подпись и максимальная длина письма. Профили выбираются
+ * в CoverLetterGenerator вместо пресетов стиля.
+ */
+const LetterProfileEditor: React.FC<LetterProfileEditorProps> = ({ userId, profiles, onProfilesChange, onClose }) => {
+  const { t } = useI18n();
+
+  // null - создание нового профиля
+  const [editingId, setEditingId] = useState<string | null>(profiles[0]?.id ?? null);
+  const [form, setForm] = useState<LetterProfileForm>(() => toForm(profiles[0] ?? createEmptyLetterProfileSettings()));
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const selectProfile = (profile: LetterProfile | null) => {
+    setEditingId(profile?.id ?? null);
+    setForm(toForm(profile ?? createEmptyLetterProfileSettings()));
+    setErrors([]);
+  };
+
+  const updateForm = (changes: Partial<LetterProfileForm>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    const settings = fromForm(form);
+    const validation = validateLetterProfileSettings(settings);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      if (editingId) {
+        const profile = await updateLetterProfile(editingId, settings);
+        onProfilesChange(profiles.map(item => (item.id === profile.id ? profile : item)));
+        setForm(toForm(profile));
+      } else {
+        const profile = await createLetterProfile(userId, settings);
+        onProfilesChange([...profiles, profile]);
+        selectProfile(profile);
+      }
+      console.log('✅ Профиль письма сохранен:', settings.name);
+    } catch (err) {
+      console.error('❌ Ошибка сохранения профиля письма:', err);
+      setErrors([t('letterProfile.saveFailed', { message: err instanceof Error ? err.message : String(err) })]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId || !confirm(t('letterProfile.deleteConfirm'))) {
+      return;
+    }
+
+    setIsSaving(true);
+    setErrors([]);
+
+    try {
+      await deleteLetterProfile(editingId);
+      const nextProfiles = profiles.filter(profile => profile.id !== editingId);
+      onProfilesChange(nextProfiles);
+      selectProfile(nextProfiles[0] ?? null);
+    } catch (err) {
+      console.error('❌ Ошибка удаления профиля письма:', err);
+      setErrors([t('letterProfile.deleteFailed', { message: err instanceof Error ? err.message : String(err) })]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full bg-white/10 backdrop-blur-xl border border-white/20 rounded-xl px-3 py-2 text-white text-sm';
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-white font-medium text-sm">{t('letterProfile.editorTitle')}</h4>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title={t('common.close')}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => selectProfile(profile)}
+            className={`px-3 py-1 rounded-lg border text-xs transition-all ${
+              editingId === profile.id
+                ? 'bg-blue-500/20 border-blue-500/50 text-blue-300'
+                : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+            }`}
+          >
+            {profile.name}
+          </button>
+        ))}
+        <button
+          onClick={() => selectProfile(null)}
+          className={`flex items-center space-x-1 px-3 py-1 rounded-lg border text-xs transition-all ${
+            editingId === null
+              ? 'bg-green-500/20 border-green-500/50 text-green-300'
+              : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+          }`}
+        >
+          <Plus className="w-3 h-3" />
+          <span>{t('letterProfile.new')}</span>
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-gray-300 text-sm font-medium mb-1">{t('letterProfile.name')}</label>
+          <input
+            type="text"
+            value={form.name}
+            maxLength={LETTER_PROFILE_LIMITS.nameMaxLength}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            placeholder={t('letterProfile.namePlaceholder')}
+            className={inputClassName}
+          />
+        </div>
+
+        <div>
+          <label className="block text-gray-300 text-sm font-medium mb-1">
+            {t('letterProfile.samples', { max: LETTER_PROFILE_LIMITS.maxSampleParagraphs })}
+          </label>
+          <textarea
+            value={form.sampleParagraphs}
+            onChange={(e) => updateForm({ sampleParagraphs: e.target.value })}
+            placeholder={t('letterProfile.samplesPlaceholder')}
+            rows={6}
+            className={`${inputClassName} resize-y`}
+          />
+        </div>
+
+        <div>
+          <label className="block text-gray-300 text-sm font-medium mb-1">
+            {t('letterProfile.avoidWords', { max: LETTER_PROFILE_LIMITS.maxAvoidWords })}
+          </label>
+          <input
+            type="text"
+            value={form.avoidWords}
+            onChange={(e) => updateForm({ avoidWords: e.target.value })}
+            placeholder={t('letterProfile.avoidWordsPlaceholder')}
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-1">{t('letterProfile.greeting')}</label>
+            <input
+              type="text"
+              value={form.greeting}
+              maxLength={LETTER_PROFILE_LIMITS.phraseMaxLength}
+              onChange={(e) => updateForm({ greeting: e.target.value })}
+              placeholder={t('letterProfile.greetingPlaceholder')}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-gray-300 text-sm font-medium mb-1">{t('letterProfile.signOff')}</label>
+            <input
+              type="text"
+              value={form.signOff}
+              maxLength={LETTER_PROFILE_LIMITS.phraseMaxLength}
+              onChange={(e) => updateForm({ signOff: e.target.value })}
+              placeholder={t('letterProfile.signOffPlaceholder')}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-gray-300 text-sm font-medium mb-1">
+            {t('letterProfile.maxLength', {
+              min: LETTER_PROFILE_LIMITS.minLetterLength,
+              max: LETTER_PROFILE_LIMITS.maxLetterLength
+            })}
+          </label>
+          <input
+            type="number"
+            value={form.maxLength}
+            min={LETTER_PROFILE_LIMITS.minLetterLength}
+            max={LETTER_PROFILE_LIMITS.maxLetterLength}
+            step={100}
+            onChange={(e) => updateForm({ maxLength: e.target.value })}
+            placeholder={t('letterProfile.maxLengthPlaceholder')}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="mt-3 bg-red-500/20 border border-red-500/30 rounded-xl p-3">
+          <div className="flex items-center space-x-2 mb-1">
+            <AlertCircle className="w-4 h-4 text-red-400" />
+            <span className="text-red-400 text-sm font-medium">{t('letterProfile.errorTitle')}</span>
+          </div>
+          <ul className="text-red-300 text-xs space-y-1">
+            {errors.map((error, index) => <li key={index}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-between mt-4">
+        {editingId ? (
+          <button
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="flex items-center space-x-1 px-3 py-1 bg-red-600/20 hover:bg-red-600/30 rounded-lg transition-colors text-sm text-red-300 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>{t('common.delete')}</span>
+          </button>
+        ) : <span />}
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center space-x-1 px-3 py-1 bg-blue-600/20 hover:bg-blue-600/30 rounded-lg transition-colors text-sm text-blue-300 disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          <span>{editingId ? t('common.save') : t('letterProfile.create')}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LetterProfileEditor;
@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { Star, Combine, Plus, X } from 'lucide-react';
+import { getLetterWordCount, getScoreColor, JobData } from '../types/generation';
+import { getLetterVariantTitle, LetterVariant } from '../types/letterVariant';
+import {
+  createLetterVariant,
+  getKeywordCoverage,
+  mergeLetterParagraphs,
+  ParagraphSelection,
+  splitLetterParagraphs
+} from '../lib/letterVariants';
+import { useI18n } from '../hooks/useI18n';
+
+interface LetterVariantsComparisonProps {
+  variants: LetterVariant[];
+  jobData: JobData | null;
+  onSelectPrimary: (variantId: string) => void;
+  /** Без обработчика инструмент сборки из абзацев скрыт */
+  onAddVariant?: (variant: LetterVariant) => void;
+  /** Можно ли добавить еще один вариант (лимит хранения) */
+  canAddVariant?: boolean;
+}
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Сравнение вариантов письма
+ *
+ * Варианты показываются рядом: число слов, покрытие ключевых навыков вакансии
+ * и кнопка выбора основного варианта. В режиме сборки абзацы из разных
+ * вариантов отмечаются по порядку и объединяются в новый вариант.
+ */
+const LetterVariantsComparison: React.FC<LetterVariantsComparisonProps> = ({
+  variants,
+  jobData,
+  onSelectPrimary,
+  onAddVariant,
+  canAddVariant = true
+}) => {
+  const { t } = useI18n();
+  const [isMergeMode, setIsMergeMode] = useState(false);
+  const [selection, setSelection] = useState<ParagraphSelection[]>([]);
+
+  const coverage = useMemo(
+    () => new Map(variants.map(variant => [variant.id, getKeywordCoverage(variant.letter_text, jobData)])),
+    [variants, jobData]
+  );
+
+  const mergedText = mergeLetterParagraphs(variants, selection);
+
+  const toggleParagraph = (variantId: string, paragraphIndex: number) => {
+    setSelection(prev => {
+      const exists = prev.some(item => item.variantId === variantId && item.paragraphIndex === paragraphIndex);
+      return exists
+        ? prev.filter(item => !(item.variantId === variantId && item.paragraphIndex === paragraphIndex))
+        : [...prev, { variantId, paragraphIndex }];
+    });
+  };
+
+  const addMergedVariant = () => {
+    if (!onAddVariant || !mergedText) return;
+    onAddVariant(createLetterVariant(mergedText, null));
+    setSelection([]);
+    setIsMergeMode(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      {onAddVariant && (
+        <div className="flex items-center justify-between">
+          <p className="text-gray-300 text-sm">{t('letterVariants.count', { count: variants.length })}</p>
+          <button
+            onClick={() => {
+              setIsMergeMode(prev => !prev);
+              setSelection([]);
+            }}
+            className={`flex items-center space-x-1 px-3 py-1 rounded-lg transition-colors text-sm ${
+              isMergeMode
+                ? 'bg-purple-600/30 text-purple-200'
+                : 'bg-purple-600/20 hover:bg-purple-600/30 text-purple-300'
+            }`}
+          >
+            <Combine className="w-4 h-4" />
+            <span>{isMergeMode ? t('letterVariants.exitMerge') : t('letterVariants.merge')}</span>
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {variants.map(variant => {
+          const variantCoverage = coverage.get(variant.id);
+          const paragraphs = splitLetterParagraphs(variant.letter_text);
+
+          return (
+            <div
+              key={variant.id}
+              className={`flex-1 min-w-[280px] bg-white/5 border rounded-2xl p-4 space-y-3 ${
+                variant.is_primary ? 'border-green-500/40' : 'border-white/10'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <h4 className="text-white font-medium text-sm">{getLetterVariantTitle(variant)}</h4>
+                {variant.is_primary ? (
+                  <span className="flex items-center space-x-1 text-green-400 text-xs">
+                    <Star className="w-3 h-3 fill-current" />
+                    <span>{t('letterVariants.primary')}</span>
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => onSelectPrimary(variant.id)}
+                    className="text-xs text-blue-400 hover:text-blue-300 underline transition-colors"
+                  >
+                    {t('letterVariants.makePrimary')}
+                  </button>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between text-xs text-gray-400">
+                <span>{t('letterVariants.words', { count: getLetterWordCount({ cover_letter_text: variant.letter_text }) })}</span>
+                {variantCoverage && variantCoverage.coverage !== null && (
+                  <span className={getScoreColor(variantCoverage.coverage)}>
+                    {t('letterVariants.coverage', { coverage: variantCoverage.coverage })}
+                  </span>
+                )}
+              </div>
+
+              {variantCoverage && variantCoverage.coverage !== null && (
+                <div>
+                  <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-blue-500 to-green-500"
+                      style={{ width: `${variantCoverage.coverage}%` }}
+                    />
+                  </div>
+                  {variantCoverage.missing.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {t('letterVariants.notMentioned', { skills: variantCoverage.missing.slice(0, 5).join(', ') })}
+                      {variantCoverage.missing.length > 5 && t('letterVariants.andMore', { count: variantCoverage.missing.length - 5 })}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {isMergeMode ? (
+                <div className="space-y-2 max-h-96 overflow-y-auto">
+                  {paragraphs.map((paragraph, index) => {
+                    const order = selection.findIndex(item => item.variantId === variant.id && item.paragraphIndex === index);
+                    return (
+                      <button
+                        key={index}
+                        onClick={() => toggleParagraph(variant.id, index)}
+                        className={`w-full text-left text-sm rounded-xl p-3 border transition-colors ${
+                          order >= 0
+                            ? 'bg-purple-500/20 border-purple-500/40 text-white'
+                            : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+                        }`}
+                      >
+                        {order >= 0 && (
+                          <span className="inline-block mr-2 px-1.5 rounded bg-purple-500/40 text-purple-100 text-xs">
+                            {order + 1}
+                          </span>
+                        )}
+                        {paragraph}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-white text-sm whitespace-pre-wrap leading-relaxed bg-white/5 rounded-xl p-3 max-h-96 overflow-y-auto">
+                  {variant.letter_text}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isMergeMode && (
+        <div className="bg-purple-500/10 border border-purple-500/20 rounded-2xl p-4 space-y-3">
+          <h4 className="text-purple-300 font-medium text-sm">{t('letterVariants.mergedTitle')}</h4>
+          {mergedText ? (
+            <div className="text-white text-sm whitespace-pre-wrap leading-relaxed bg-white/5 rounded-xl p-3 max-h-64 overflow-y-auto">
+              {mergedText}
+            </div>
+          ) : (
+            <p className="text-gray-400 text-sm">{t('letterVariants.mergeHint')}</p>
+          )}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={addMergedVariant}
+              disabled={!mergedText || !canAddVariant}
+              className="flex items-center space-x-1 px-3 py-1 bg-purple-600/20 hover:bg-purple-600/30 rounded-lg transition-colors text-sm text-purple-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{t('letterVariants.addMerged')}</span>
+            </button>
+            {selection.length > 0 && (
+              <button
+                onClick={() => setSelection([])}
+                className="flex items-center space-x-1 px-3 py-1 bg-gray-500/20 hover:bg-gray-500/30 rounded-lg transition-colors text-sm text-gray-300"
+              >
+                <X className="w-4 h-4" />
+                <span>{t('letterVariants.resetSelection')}</span>
+              </button>
+            )}
+            {!canAddVariant && (
+              <span className="text-xs text-yellow-400">{t('letterVariants.limitReached')}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LetterVariantsComparison;
@@ -1,59 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { BarChart3, CheckCircle, XCircle, TrendingUp, Award, AlertTriangle, RefreshCw, Target, MapPin, Building, Clock, Star, Loader2, Brain, Zap, Shield, Database, Timer, Gauge, Users, Briefcase, ThumbsUp, ArrowRight } from 'lucide-react';
 import { ResumeData, getFullName } from '../types/resumeData';
+import { ScoringResults } from '../types/generation';
+import { getAiGatewayStageUrl, isAiGatewayError } from '../lib/aiGateway';
+import { performScoringAnalysis } from '../lib/scoring';
+import { LetterLanguage } from '../lib/letterLanguage';
+import { useI18n } from '../hooks/useI18n';
+import { isMessageKey } from '../lib/i18n';
+import { computeSkillPreScore } from '../../supabase/functions/_shared/skillMatching.ts';
+import SkillPreScore from './SkillPreScore';
 
 interface MatchingResultsProps {
   onScoringComplete: (scoringData: any) => void;
   resumeData: ResumeData | null; // Типизированные данные резюме из API
   jobData: any;    // Данные вакансии из API
   savedResults: any;
-}
-
-/**
- * ОБНОВЛЕННЫЙ ИНТЕРФЕЙС: Новая схема ответа от API скорринга
- * 
- * Соответствует обновленной схеме JSON с фокусом на детализированные метрики:
- * - total_score: общая оценка соответствия (0-100)
- * - breakdown: детализация по 4 параметрам с score, summary, description
- * - recommendation: категория совпадения
- * - recruiter_recommendation: рекомендации для рекрутера
- * - candidate_recommendation: рекомендации для кандидата
- */
-interface NewScoringResponse {
-  scoring_result: {
-    // Общий балл соответствия
-    total_score: number;
-    
-    // Детализация по параметрам
-    breakdown: {
-      hard_skills: {
-        score: number;      // 0-100: Балл по техническим навыкам
-        summary: string;    // Краткий анализ совпадений
-        description: string; // Объяснение важности параметра
-      };
-      soft_skills: {
-        score: number;      // 0-100: Балл по гибким навыкам
-        summary: string;    // Краткий анализ совпадений
-        description: string; // Объяснение важности параметра
-      };
-      experience_match: {
-        score: number;      // 0-100: Балл по соответствию опыта
-        summary: string;    // Краткий анализ совпадений
-        description: string; // Объяснение важности параметра
-      };
-      position_match: {
-        score: number;      // 0-100: Балл по соответствию должности
-        summary: string;    // Краткий анализ совпадений
-        description: string; // Объяснение важности параметра
-      };
-    };
-    
-    // Категория совпадения и рекомендации
-    recommendation: string;           // Категория (good_match, excellent_match и т.д.)
-    recruiter_recommendation: string; // Советы для рекрутера
-    candidate_recommendation: string; // Советы для кандидата
-  };
+  language?: LetterLanguage; // Язык письма - на нем AI пишет выводы скорринга
 }
 
 /**
@@ -61,13 +24,13 @@ interface NewScoringResponse {
  * Отражают новый процесс анализа с детализированными метриками
  */
 const SCORING_MESSAGES = [
-  { id: 1, text: "Отправляем данные в Gemini AI...", delay: 0 },
-  { id: 2, text: "Анализируем технические навыки...", delay: 3000 },
-  { id: 3, text: "Оцениваем гибкие навыки...", delay: 6000 },
-  { id: 4, text: "Проверяем соответствие опыта...", delay: 9000 },
-  { id: 5, text: "Анализируем соответствие должности...", delay: 12000 },
-  { id: 6, text: "Формируем рекомендации...", delay: 15000 }
-];
+  { id: 1, textKey: 'scoring.progress.sending', delay: 0 },
+  { id: 2, textKey: 'scoring.progress.hardSkills', delay: 3000 },
+  { id: 3, textKey: 'scoring.progress.softSkills', delay: 6000 },
+  { id: 4, textKey: 'scoring.progress.experience', delay: 9000 },
+  { id: 5, textKey: 'scoring.progress.position', delay: 12000 },
+  { id: 6, textKey: 'scoring.progress.recommendations', delay: 15000 }
+] as const;
 
 /**
  * Генерация тестового user_id в формате ddmmyy_hhmm для dev режима
@@ -87,375 +50,25 @@ const generateDevUserId = (): string => {
   return `${day}${month}${year}_${hours}${minutes}`;
 };
 
-/**
- * ОБНОВЛЕННАЯ ФУНКЦИЯ: Валидация данных перед отправкой на скорринг
- * 
- * Проверяет наличие всех необходимых данных для анализа соответствия
- * 
- * @param resumeData - данные резюме
- * @param jobData - данные вакансии
- * @param userId - идентификатор пользователя
- * @returns объект с результатом валидации
- */
-const validateScoringData = (resumeData: ResumeData | null, jobData: any, userId: string) => {
-  const errors: string[] = [];
-
-  console.log('🔍 ВАЛИДАЦИЯ ДАННЫХ ДЛЯ НОВОГО СКОРРИНГА:');
-  console.log('📄 Resume Data:', resumeData);
-  console.log('💼 Job Data:', jobData);
-  console.log('👤 User ID:', userId);
-
-  // Проверка данных резюме
-  if (!resumeData) {
-    errors.push('Отсутствуют данные резюме');
-    console.error('❌ Данные резюме отсутствуют полностью');
-  } else {
-    console.log('✅ Данные резюме присутствуют');
-    console.log('  - Имя:', resumeData.personal_info.first_name);
-    console.log('  - Фамилия:', resumeData.personal_info.last_name);
-    console.log('  - Навыки:', resumeData.skills);
-    console.log('  - Опыт работы:', resumeData.experience);
-    console.log('  - Образование:', resumeData.education);
-    
-    // Проверка критически важных полей резюме
-    if (!resumeData.personal_info.first_name || resumeData.personal_info.first_name.trim().length === 0) {
-      errors.push('В резюме отсутствует имя кандидата');
-      console.error('❌ В резюме отсутствует имя кандидата');
-    }
-    if (!resumeData.personal_info.last_name || resumeData.personal_info.last_name.trim().length === 0) {
-      errors.push('В резюме отсутствует фамилия кандидата');
-      console.error('❌ В резюме отсутствует фамилия кандидата');
-    }
-    if (!resumeData.skills.hard_skills.length && !resumeData.skills.soft_skills.length) {
-      errors.push('В резюме не указаны навыки');
-      console.error('❌ В резюме не указаны навыки');
-    } else {
-      // Проверяем, что навыки содержат осмысленные данные
-      const hardSkills = resumeData.skills.hard_skills;
-      const softSkills = resumeData.skills.soft_skills;
-      const totalSkills = [...hardSkills, ...softSkills];
-      
-      const validSkills = totalSkills.filter((skill: any) => 
-        skill && typeof skill === 'string' && skill.trim().length > 0
-      );
-      
-      if (validSkills.length === 0) {
-        errors.push('Навыки в резюме пустые или некорректные');
-        console.error('❌ Навыки в резюме пустые или некорректные');
-      }
-    }
-    
-    // Проверка опыта работы
-    if (resumeData.experience.length === 0) {
-      console.warn('⚠️ В резюме нет записей об опыте работы');
-    } else {
-      const validExperience = resumeData.experience.filter((exp: any) => 
-        exp && exp.position && exp.position.trim().length > 0
-      );
-      if (validExperience.length === 0) {
-        console.warn('⚠️ Опыт работы в резюме не содержит валидных позиций');
-      }
-    }
-  }
-
-  // Проверка данных вакансии
-  if (!jobData) {
-    errors.push('Отсутствуют данные вакансии');
-    console.error('❌ Данные вакансии отсутствуют полностью');
-  } else {
-    console.log('✅ Данные вакансии присутствуют');
-    console.log('  - Должность:', jobData.job_title);
-    console.log('  - Компания:', jobData.company_name);
-    console.log('  - Требуемые навыки:', jobData.required_skills);
-    console.log('  - Локация:', jobData.location);
-    console.log('  - Отрасль:', jobData.industry);
-    
-    if (!jobData.job_title || jobData.job_title.trim().length === 0) {
-      errors.push('В вакансии не указана должность');
-      console.error('❌ В вакансии не указана должность');
-    }
-    if (!jobData.company_name || jobData.company_name.trim().length === 0) {
-      errors.push('В вакансии не указана компания');
-      console.error('❌ В вакансии не указана компания');
-    }
-    
-    // Проверка требуемых навыков
-    if (!jobData.required_skills || !Array.isArray(jobData.required_skills) || jobData.required_skills.length === 0) {
-      console.warn('⚠️ В вакансии не указаны требуемые навыки');
-    } else {
-      const validRequiredSkills = jobData.required_skills.filter((skill: any) => 
-        skill && typeof skill === 'string' && skill.trim().length > 0
-      );
-      if (validRequiredSkills.length === 0) {
-        console.warn('⚠️ Требуемые навыки в вакансии пустые или некорректные');
-      }
-    }
-    
-    // Проверка описания вакансии
-    if (!jobData.description || jobData.description.trim().length === 0) {
-      console.warn('⚠️ В вакансии отсутствует описание');
-    }
-  }
-
-  // Проверка user_id
-  if (!userId || userId.trim().length === 0) {
-    errors.push('Отсутствует идентификатор пользователя');
-    console.error('❌ Отсутствует user_id');
-  } else {
-    console.log('✅ User ID присутствует:', userId);
-    
-    // Проверка формата user_id
-    if (userId.length < 3) {
-      errors.push('Некорректный формат идентификатора пользователя');
-      console.error('❌ Некорректный формат user_id:', userId);
-    }
-  }
-
-  const isValid = errors.length === 0;
-  console.log(`📊 РЕЗУЛЬТАТ ВАЛИДАЦИИ: ${isValid ? '✅ УСПЕШНО' : '❌ ОШИБКИ'}`);
-  if (!isValid) {
-    console.error('❌ Ошибки валидации:', errors);
-  } else {
-    console.log('✅ Все данные прошли валидацию, готовы к отправке на новый API');
-  }
-
-  return {
-    isValid,
-    errors
-  };
-};
-
-/**
- * ОБНОВЛЕННАЯ ФУНКЦИЯ: Отправка запроса к новому API эндпоинту для скорринга
- * 
- * Логика работы:
- * 1. Валидирует входные данные
- * 2. Формирует JSON payload с resume_data, job_data и user_id
- * 3. Отправляет POST запрос на новый эндпоинт
- * 4. Обрабатывает ответ согласно новой схеме с scoring_result
- * 5. Обрабатывает ошибки и возвращает понятные сообщения
- * 
- * @param resumeData - данные резюме из предыдущего шага
- * @param jobData - данные вакансии из предыдущего шага
- * @param userId - идентификатор пользователя
- * @returns Promise<NewScoringResponse> - результаты скорринга от нового API
- */
-const performScoringAnalysis = async (
-  resumeData: ResumeData, 
-  jobData: any,
-  userId: string
-): Promise<NewScoringResponse> => {
-  console.log('🚀 НАЧАЛО ФУНКЦИИ performScoringAnalysis (НОВЫЙ API)');
-  console.log('📥 Входные параметры:');
-  console.log('  - resumeData:', resumeData);
-  console.log('  - jobData:', jobData);
-  console.log('  - userId:', userId);
-
-  // Валидация входных данных
-  const validation = validateScoringData(resumeData, jobData, userId);
-  if (!validation.isValid) {
-    const errorMessage = `Ошибка валидации данных: ${validation.errors.join(', ')}`;
-    console.error('❌ ВАЛИДАЦИЯ НЕ ПРОЙДЕНА:', errorMessage);
-    throw new Error(errorMessage);
-  }
-
-  // Формирование payload для нового API
-  const requestPayload = {
-    resume_data: resumeData,
-    job_data: jobData,
-    user_id: userId
-  };
-
-  console.log('📦 ФОРМИРОВАНИЕ PAYLOAD ДЛЯ НОВОГО API:');
-  console.log('📤 Полный requestPayload:', JSON.stringify(requestPayload, null, 2));
-  console.log('📊 Размер payload:', JSON.stringify(requestPayload).length, 'символов');
-  
-  // Детальная проверка каждого поля
-  console.log('🔍 ДЕТАЛЬНАЯ ПРОВЕРКА PAYLOAD:');
-  console.log('  ✓ resume_data присутствует:', !!requestPayload.resume_data);
-  console.log('  ✓ job_data присутствует:', !!requestPayload.job_data);
-  console.log('  ✓ user_id присутствует:', !!requestPayload.user_id);
-
-  console.log('📤 Отправка запроса на новый API скорринга через Gemini AI:', {
-    endpoint: 'https://77xihg.buildship.run/fouth-scoring',
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'User-Agent': 'JobMatch-AI/2.0-NewSchema',
-      'X-Requested-With': 'XMLHttpRequest'
-    },
-    payloadSize: JSON.stringify(requestPayload).length,
-    timestamp: new Date().toISOString()
-  });
-
-  try {
-    // Отправка POST запроса к новому эндпоинту
-    const response = await fetch('https://77xihg.buildship.run/fouth-scoring', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        'User-Agent': 'JobMatch-AI/2.0-NewSchema',
-        'X-Requested-With': 'XMLHttpRequest'
-      },
-      body: JSON.stringify(requestPayload)
-    });
-
-    console.log('📡 ОТВЕТ ОТ НОВОГО API:');
-    console.log('  - Статус:', response.status);
-    console.log('  - Status Text:', response.statusText);
-    console.log('  - Headers:', Object.fromEntries(response.headers.entries()));
-
-    // Проверка статуса ответа
-    if (!response.ok) {
-      let errorMessage = `HTTP Error: ${response.status} ${response.statusText}`;
-      
-      try {
-        const errorData = await response.json();
-        console.error('❌ Ошибка нового API (JSON):', errorData);
-        if (errorData.error || errorData.message) {
-          errorMessage = errorData.error || errorData.message;
-        }
-      } catch (parseError) {
-        const errorText = await response.text();
-        console.error('❌ Ошибка нового API (TEXT):', errorText);
-        if (errorText) {
-          errorMessage = errorText;
-        }
-      }
-      
-      console.error('❌ Ошибка нового API при скорринге:', {
-        status: response.status,
-        statusText: response.statusText,
-        errorMessage
-      });
-      
-      throw new Error(errorMessage);
-    }
-
-    // Парсинг JSON ответа
-    const responseData = await response.json();
-    console.log('✅ УСПЕШНЫЙ ОТВЕТ ОТ НОВОГО API:');
-    console.log('📥 Полный responseData:', JSON.stringify(responseData, null, 2));
-
-    // Валидация структуры ответа согласно новой схеме
-    console.log('🔍 ВАЛИДАЦИЯ СТРУКТУРЫ НОВОГО ОТВЕТА:');
-    
-    // Проверяем, что responseData является объектом
-    if (!responseData || typeof responseData !== 'object') {
-      console.error('❌ Ответ нового API не является объектом:', responseData);
-      throw new Error('Некорректный формат ответа API: ожидался объект');
-    }
-    
-    // Проверяем наличие scoring_result
-    if (!responseData.scoring_result) {
-      console.error('❌ ОТСУТСТВУЕТ scoring_result в ответе:', Object.keys(responseData));
-      throw new Error('Ответ API не содержит обязательное поле: scoring_result');
-    }
-    
-    const scoringResult = responseData.scoring_result;
-    console.log('✅ scoring_result найден:', typeof scoringResult);
-    
-    // Проверяем обязательные поля в scoring_result
-    const requiredFields = ['total_score', 'breakdown', 'recommendation', 'recruiter_recommendation', 'candidate_recommendation'];
-    for (const field of requiredFields) {
-      const isPresent = scoringResult[field] !== undefined;
-      console.log(`  - ${field}: ${isPresent ? '✅' : '❌'}`);
-      if (!isPresent) {
-        console.error('❌ ОТСУТСТВУЕТ ОБЯЗАТЕЛЬНОЕ ПОЛЕ В scoring_result:', field);
-        console.error('❌ Полный ответ API:', JSON.stringify(responseData, null, 2));
-        throw new Error(`Ответ API не содержит обязательное поле: scoring_result.${field}`);
-      }
-    }
-
-    // Проверка структуры breakdown
-    console.log('🔍 ВАЛИДАЦИЯ СТРУКТУРЫ breakdown:');
-    const breakdown = scoringResult.breakdown;
-    const breakdownFields = ['hard_skills', 'soft_skills', 'experience_match', 'position_match'];
-    
-    for (const field of breakdownFields) {
-      const isPresent = breakdown && breakdown[field] !== undefined;
-      console.log(`  - breakdown.${field}: ${isPresent ? '✅' : '❌'}`);
-      
-      if (isPresent) {
-        const item = breakdown[field];
-        const itemFields = ['score', 'summary', 'description'];
-        for (const itemField of itemFields) {
-          const itemIsPresent = item[itemField] !== undefined;
-          console.log(`    - ${field}.${itemField}: ${itemIsPresent ? '✅' : '❌'}`);
-        }
-      }
-    }
-
-    if (!breakdown || 
-        !breakdown.hard_skills || !breakdown.soft_skills || 
-        !breakdown.experience_match || !breakdown.position_match) {
-      console.error('❌ Некорректная структура breakdown:', breakdown);
-      throw new Error('Некорректная структура поля breakdown в ответе API');
-    }
-
-    // Проверка диапазонов значений (0-100)
-    const scoreFields = [
-      { name: 'total_score', value: scoringResult.total_score },
-      { name: 'breakdown.hard_skills.score', value: breakdown.hard_skills.score },
-      { name: 'breakdown.soft_skills.score', value: breakdown.soft_skills.score },
-      { name: 'breakdown.experience_match.score', value: breakdown.experience_match.score },
-      { name: 'breakdown.position_match.score', value: breakdown.position_match.score }
-    ];
-
-    console.log('🔍 ПРОВЕРКА ДИАПАЗОНОВ ЗНАЧЕНИЙ (0-100):');
-    for (const scoreField of scoreFields) {
-      const isValid = typeof scoreField.value === 'number' && scoreField.value >= 0 && scoreField.value <= 100;
-      console.log(`  - ${scoreField.name}: ${scoreField.value} ${isValid ? '✅' : '⚠️'}`);
-      if (!isValid) {
-        console.warn(`⚠️ Значение ${scoreField.name} вне диапазона 0-100: ${scoreField.value}`);
-      }
-    }
-
-    console.log('✅ НОВЫЙ СКОРРИНГ УСПЕШНО ВЫПОЛНЕН ЧЕРЕЗ GEMINI AI');
-    console.log('📊 Итоговые результаты:');
-    console.log('  - Общий балл:', scoringResult.total_score);
-    console.log('  - Технические навыки:', breakdown.hard_skills.score);
-    console.log('  - Гибкие навыки:', breakdown.soft_skills.score);
-    console.log('  - Соответствие опыта:', breakdown.experience_match.score);
-    console.log('  - Соответствие должности:', breakdown.position_match.score);
-    console.log('  - Категория совпадения:', scoringResult.recommendation);
-
-    return responseData as NewScoringResponse;
-
-  } catch (error: any) {
-    console.error('❌ ОШИБКА В performScoringAnalysis (НОВЫЙ API):', error);
-    
-    // Обработка различных типов ошибок
-    if (error.name === 'TypeError' && error.message.includes('fetch')) {
-      const networkError = 'Ошибка сети: не удается подключиться к новому серверу скорринга';
-      console.error('❌ Сетевая ошибка:', networkError);
-      throw new Error(networkError);
-    }
-    
-    if (error.name === 'SyntaxError') {
-      const parseError = 'Ошибка парсинга ответа: новый сервер вернул некорректный JSON';
-      console.error('❌ Ошибка парсинга:', parseError);
-      throw new Error(parseError);
-    }
-    
-    // Передаем ошибку дальше, если она уже обработана
-    throw error;
-  }
-};
-
 const MatchingResults: React.FC<MatchingResultsProps> = ({ 
   onScoringComplete, 
   resumeData, 
   jobData, 
-  savedResults 
+  savedResults,
+  language
 }) => {
+  const { t } = useI18n();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisComplete, setAnalysisComplete] = useState(!!savedResults);
-  const [scoringData, setScoringData] = useState<NewScoringResponse | null>(savedResults || null);
+  const [scoringData, setScoringData] = useState<ScoringResults | null>(savedResults || null);
   const [error, setError] = useState<string | null>(null);
   const [currentUserId, setCurrentUserId] = useState<string>('');
+
+  // Мгновенная локальная оценка навыков - доступна до ответа AI
+  const preScore = useMemo(
+    () => (resumeData && jobData ? computeSkillPreScore(resumeData, jobData) : null),
+    [resumeData, jobData]
+  );
   
   // Состояние для анимированных сообщений
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
@@ -468,6 +81,10 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
     console.log('🔧 Сгенерирован тестовый user_id для нового скорринга:', userId);
   }, []);
 
+  // Отмена запроса скорринга при размонтировании компонента
+  const abortControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Восстанавливаем сохраненные результаты при монтировании
   useEffect(() => {
     if (savedResults && !scoringData) {
@@ -528,11 +145,11 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
     // Дополнительная проверка данных перед началом анализа
     if (!resumeData || !jobData || !currentUserId) {
       const missingData = [];
-      if (!resumeData) missingData.push('данные резюме');
-      if (!jobData) missingData.push('данные вакансии');
-      if (!currentUserId) missingData.push('идентификатор пользователя');
+      if (!resumeData) missingData.push(t('scoring.missing.resume'));
+      if (!jobData) missingData.push(t('scoring.missing.job'));
+      if (!currentUserId) missingData.push(t('scoring.missing.user'));
       
-      const errorMessage = `Отсутствуют критически важные данные: ${missingData.join(', ')}`;
+      const errorMessage = t('scoring.missingData', { items: missingData.join(', ') });
       console.error('❌ КРИТИЧЕСКАЯ ОШИБКА ПЕРЕД АНАЛИЗОМ:', errorMessage);
       setError(errorMessage);
       return;
@@ -544,7 +161,12 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
       console.log('🚀 Начинаем новый скорринг через Gemini AI');
       
       // Вызов функции скорринга с новым API
-      const scoringResult = await performScoringAnalysis(resumeData, jobData, currentUserId);
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+      const scoringResult = await performScoringAnalysis(resumeData, jobData, currentUserId, {
+        signal: abortControllerRef.current.signal,
+        language
+      });
 
       console.log('✅ ПОЛУЧЕН РЕЗУЛЬТАТ НОВОГО СКОРРИНГА:', scoringResult);
 
@@ -558,10 +180,12 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
       console.log('✅ Новый скорринг успешно выполнен и отображен');
       
     } catch (err: any) {
+      if (isAiGatewayError(err) && err.code === 'aborted') return;
+
       console.error('❌ ОШИБКА ПРИ ВЫПОЛНЕНИИ НОВОГО СКОРРИНГА:', err);
       
       // Устанавливаем понятное сообщение об ошибке для пользователя
-      const userFriendlyError = err.message || 'Произошла неизвестная ошибка при анализе соответствия';
+      const userFriendlyError = err.message || t('scoring.unknownError');
       console.error('❌ Пользовательское сообщение об ошибке:', userFriendlyError);
       setError(userFriendlyError);
       setIsAnalyzing(false);
@@ -589,18 +213,8 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
 
   // Определение текста категории совпадения
   const getRecommendationText = (rec: string) => {
-    switch (rec) {
-      case 'excellent_match':
-        return 'Превосходное совпадение!';
-      case 'good_match':
-        return 'Хорошее совпадение!';
-      case 'average_match':
-        return 'Среднее совпадение.';
-      case 'low_match':
-        return 'Низкое совпадение.';
-      default:
-        return '';
-    }
+    const key = `scoring.recommendation.${rec}`;
+    return isMessageKey(key) ? t(key) : '';
   };
 
   // Если анализ еще не запущен
@@ -608,9 +222,9 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
     return (
       <div className="space-y-6">
         <div className="text-center">
-          <h2 className="text-2xl font-bold text-white mb-2">Скорринг соответствия</h2>
+          <h2 className="text-2xl font-bold text-white mb-2">{t('scoring.title')}</h2>
           <p className="text-gray-300">
-            Проанализируем совместимость вашего резюме с вакансией через новый Gemini AI
+            {t('scoring.subtitle')}
           </p>
         </div>
 
@@ -623,7 +237,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
             </div>
             <div className="text-yellow-300 text-xs space-y-1">
               <p>• User ID: <span className="font-mono bg-yellow-500/20 px-2 py-1 rounded">{currentUserId}</span></p>
-              <p>• Эндпоинт: <span className="font-mono">https://77xihg.buildship.run/fouth-scoring</span></p>
+              <p>• Эндпоинт: <span className="font-mono">{getAiGatewayStageUrl('scoreMatch')}</span></p>
               <p>• Данные резюме: {resumeData ? '✅ Загружены' : '❌ Отсутствуют'}</p>
               <p>• Данные вакансии: {jobData ? '✅ Загружены' : '❌ Отсутствуют'}</p>
               <p>• Схема: Новая с детализированными метриками и рекомендациями</p>
@@ -633,14 +247,16 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
 
         {/* Информация о данных для анализа */}
         <div className="bg-blue-500/10 border border-blue-500/20 rounded-2xl p-6">
-          <h3 className="text-white font-medium mb-4">📊 Данные для нового скорринга:</h3>
+          <h3 className="text-white font-medium mb-4">{t('scoring.inputTitle')}</h3>
           <div className="space-y-3">
             {resumeData && (
               <div className="flex items-center space-x-3">
                 <CheckCircle className="w-5 h-5 text-green-400" />
                 <span className="text-gray-300">
-                  Резюме: {getFullName(resumeData)}
-                  {` (${resumeData.skills.hard_skills.length + resumeData.skills.soft_skills.length} навыков)`}
+                  {t('scoring.inputResume', {
+                    name: getFullName(resumeData),
+                    count: resumeData.skills.hard_skills.length + resumeData.skills.soft_skills.length
+                  })}
                 </span>
               </div>
             )}
@@ -648,13 +264,15 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
               <div className="flex items-center space-x-3">
                 <CheckCircle className="w-5 h-5 text-green-400" />
                 <span className="text-gray-300">
-                  Вакансия: {jobData.job_title} в {jobData.company_name}
+                  {t('scoring.inputJob', { position: jobData.job_title, company: jobData.company_name })}
                 </span>
               </div>
             )}
           </div>
         </div>
 
+        {preScore && <SkillPreScore preScore={preScore} />}
+
         {/* Кнопка запуска анализа */}
         <motion.button
           whileHover={{ scale: 1.02 }}
@@ -664,18 +282,18 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
           className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-4 px-6 rounded-2xl shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all hover:from-blue-500 hover:to-purple-500 flex items-center justify-center space-x-2"
         >
           <BarChart3 className="w-5 h-5" />
-          <span>Запустить анализ с Gemini AI</span>
+          <span>{t('scoring.start')}</span>
         </motion.button>
 
         {/* ОБНОВЛЕННАЯ информация о том, что будет проанализировано */}
         <div className="bg-gray-500/10 border border-gray-500/20 rounded-2xl p-4">
-          <h3 className="text-white font-medium mb-2">🤖 Что анализирует новый Gemini AI:</h3>
+          <h3 className="text-white font-medium mb-2">{t('scoring.aboutTitle')}</h3>
           <ul className="text-gray-300 text-sm space-y-1">
-            <li>• <strong>Технические навыки:</strong> Анализ соответствия hard skills</li>
-            <li>• <strong>Гибкие навыки:</strong> Оценка soft skills и коммуникативных способностей</li>
-            <li>• <strong>Соответствие опыта:</strong> Релевантность прошлого опыта работы</li>
-            <li>• <strong>Соответствие должности:</strong> Подходящость для конкретной позиции</li>
-            <li>• <strong>Рекомендации:</strong> Персональные советы для кандидата и рекрутера</li>
+            <li>• <strong>{t('scoring.about.hardSkills')}</strong> {t('scoring.about.hardSkillsText')}</li>
+            <li>• <strong>{t('scoring.about.softSkills')}</strong> {t('scoring.about.softSkillsText')}</li>
+            <li>• <strong>{t('scoring.about.experience')}</strong> {t('scoring.about.experienceText')}</li>
+            <li>• <strong>{t('scoring.about.position')}</strong> {t('scoring.about.positionText')}</li>
+            <li>• <strong>{t('scoring.about.recommendations')}</strong> {t('scoring.about.recommendationsText')}</li>
           </ul>
         </div>
       </div>
@@ -686,9 +304,9 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
     <div className="space-y-6">
       {/* Заголовок */}
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-white mb-2">Скорринг соответствия</h2>
+        <h2 className="text-2xl font-bold text-white mb-2">{t('scoring.title')}</h2>
         <p className="text-gray-300">
-          Детализированный анализ с Gemini AI
+          {t('scoring.subtitleRunning')}
         </p>
       </div>
 
@@ -708,7 +326,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
             >
               <Brain className="w-8 h-8 text-purple-400" />
             </motion.div>
-            <h3 className="text-white font-semibold text-lg">Новый Gemini AI выполняет детальный анализ</h3>
+            <h3 className="text-white font-semibold text-lg">{t('scoring.running')}</h3>
           </div>
 
           {/* Анимированные сообщения */}
@@ -766,7 +384,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
                           : 'text-gray-400'
                       }`}
                     >
-                      {message.text}
+                      {t(message.textKey)}
                     </motion.span>
 
                     {/* Анимированные точки для текущего сообщения */}
@@ -803,7 +421,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
           {/* Прогресс-бар */}
           <div className="mt-6">
             <div className="flex justify-between text-sm text-gray-400 mb-2">
-              <span>Прогресс анализа</span>
+              <span>{t('scoring.progressLabel')}</span>
               <span>{Math.round(((currentMessageIndex + 1) / SCORING_MESSAGES.length) * 100)}%</span>
             </div>
             <div className="w-full bg-gray-700 rounded-full h-2">
@@ -818,6 +436,14 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
         </motion.div>
       )}
 
+      {/* Локальная оценка навыков: во время анализа и для сверки с AI */}
+      {preScore && (
+        <SkillPreScore
+          preScore={preScore}
+          aiHardSkillsScore={analysisComplete ? scoringData?.scoring_result.breakdown.hard_skills.score : undefined}
+        />
+      )}
+
       {/* Отображение ошибок API */}
       {error && (
         <motion.div
@@ -828,13 +454,13 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
           <div className="flex items-start space-x-3">
             <AlertTriangle className="w-6 h-6 text-red-400 flex-shrink-0 mt-0.5" />
             <div>
-              <h4 className="text-red-400 font-medium mb-1">Ошибка анализа соответствия</h4>
+              <h4 className="text-red-400 font-medium mb-1">{t('scoring.errorTitle')}</h4>
               <p className="text-red-300 text-sm mb-3">{error}</p>
               <button
                 onClick={() => setError(null)}
                 className="text-red-400 hover:text-red-300 text-sm underline transition-colors"
               >
-                Скрыть ошибку
+                {t('scoring.hideError')}
               </button>
             </div>
           </div>
@@ -849,13 +475,13 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
             <div className="flex items-start justify-between gap-6">
               <div className="flex-1 text-center">
                 <h2 className="text-white text-2xl font-bold mb-2">
-                  🎯 Общий балл соответствия: {scoringData.scoring_result.total_score}%
+                  {t('scoring.totalScore', { score: scoringData.scoring_result.total_score })}
                 </h2>
                 <p className="text-gray-300">
                   {getRecommendationText(scoringData.scoring_result.recommendation)}
                 </p>
                 <p className="text-gray-400 text-sm mt-2">
-                  🤖 Анализ выполнен Gemini AI
+                  {t('scoring.poweredBy')}
                 </p>
               </div>
               <button
@@ -888,26 +514,26 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
                   cursor: 'pointer'
                 }}
               >
-                🔄 Повторить анализ
+                {t('scoring.rerun')}
               </button>
             </div>
           </div>
 
           {/* 2. Упрощенная таблица результатов */}
           <div className="p-6" style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)', border: '1px solid rgba(255, 255, 255, 0.1)', borderRadius: '16px' }}>
-            <h3 className="text-white text-xl font-semibold mb-4">📊 Детализация соответствия</h3>
+            <h3 className="text-white text-xl font-semibold mb-4">{t('scoring.breakdownTitle')}</h3>
             
             <table style={{ width: '100%', borderCollapse: 'collapse' }}>
               <thead>
                 <tr style={{ borderBottom: '1px solid rgba(255, 255, 255, 0.1)' }}>
                   <th style={{ color: '#ffffff', fontWeight: '600', padding: '12px', textAlign: 'left', width: '30%' }}>
-                    Параметр
+                    {t('scoring.columnParameter')}
                   </th>
                   <th style={{ color: '#ffffff', fontWeight: '600', padding: '12px', textAlign: 'center', width: '15%' }}>
-                    Балл
+                    {t('scoring.columnScore')}
                   </th>
                   <th style={{ color: '#ffffff', fontWeight: '600', padding: '12px', textAlign: 'left', width: '55%' }}>
-                    Анализ
+                    {t('scoring.columnAnalysis')}
                   </th>
                 </tr>
               </thead>
@@ -915,7 +541,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
                 {/* Технические навыки */}
                 <tr style={{ borderBottom: '1px solid rgba(255, 255, 255, 0.05)' }}>
                   <td style={{ padding: '16px 12px', color: '#60a5fa', fontWeight: '500' }}>
-                    💻 Технические навыки
+                    {t('scoring.dimension.hard_skills')}
                   </td>
                   <td style={{ padding: '16px 12px', textAlign: 'center' }}>
                     <span style={{ 
@@ -942,7 +568,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
                 {/* Гибкие навыки */}
                 <tr style={{ borderBottom: '1px solid rgba(255, 255, 255, 0.05)' }}>
                   <td style={{ padding: '16px 12px', color: '#34d399', fontWeight: '500' }}>
-                    🤝 Гибкие навыки
+                    {t('scoring.dimension.soft_skills')}
                   </td>
                   <td style={{ padding: '16px 12px', textAlign: 'center' }}>
                     <span style={{ 
@@ -969,7 +595,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
                 {/* Соответствие опыта */}
                 <tr style={{ borderBottom: '1px solid rgba(255, 255, 255, 0.05)' }}>
                   <td style={{ padding: '16px 12px', color: '#a78bfa', fontWeight: '500' }}>
-                    💼 Соответствие опыта
+                    {t('scoring.dimension.experience_match')}
                   </td>
                   <td style={{ padding: '16px 12px', textAlign: 'center' }}>
                     <span style={{ 
@@ -996,7 +622,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
                 {/* Соответствие должности */}
                 <tr>
                   <td style={{ padding: '16px 12px', color: '#facc15', fontWeight: '500' }}>
-                    🎯 Соответствие должности
+                    {t('scoring.dimension.position_match')}
                   </td>
                   <td style={{ padding: '16px 12px', textAlign: 'center' }}>
                     <span style={{ 
@@ -1028,7 +654,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
             {/* Рекомендации для кандидата */}
             <div className="p-6" style={{ backgroundColor: 'rgba(59, 130, 246, 0.1)', border: '1px solid rgba(59, 130, 246, 0.2)', borderRadius: '16px' }}>
               <h3 className="text-white font-semibold mb-3">
-                👤 Рекомендации для вас (кандидата)
+                {t('scoring.candidateTitle')}
               </h3>
               <p style={{ color: '#d1d5db', fontSize: '14px', lineHeight: '1.6', margin: '0' }}>
                 {scoringData.scoring_result.candidate_recommendation}
@@ -1038,7 +664,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
             {/* Рекомендации для рекрутера */}
             <div className="p-6" style={{ backgroundColor: 'rgba(16, 185, 129, 0.1)', border: '1px solid rgba(16, 185, 129, 0.2)', borderRadius: '16px' }}>
               <h3 className="text-white font-semibold mb-3">
-                🎯 Что увидит рекрутер
+                {t('scoring.recruiterTitle')}
               </h3>
               <p style={{ color: '#d1d5db', fontSize: '14px', lineHeight: '1.6', margin: '0' }}>
                 {scoringData.scoring_result.recruiter_recommendation}
@@ -1049,7 +675,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
           {/* 4. Общая рекомендация */}
           <div className="p-6" style={{ backgroundColor: 'rgba(139, 92, 246, 0.1)', border: '1px solid rgba(139, 92, 246, 0.2)', borderRadius: '16px' }}>
             <h3 className="text-white font-semibold mb-3">
-              🎓 Общая категория соответствия
+              {t('scoring.categoryTitle')}
             </h3>
             <p style={{ color: '#d1d5db', fontSize: '16px', fontWeight: '500', margin: '0' }}>
               {scoringData.scoring_result.recommendation}
@@ -1069,7 +695,7 @@ const MatchingResults: React.FC<MatchingResultsProps> = ({
                 minWidth: '200px'
               }}
             >
-              Далее →
+              {t('dashboard.next')}
             </button>
           </div>
         </div> 
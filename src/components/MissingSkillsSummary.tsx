@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { GraduationCap } from 'lucide-react';
+import { GenerationSummary } from '../types/generation';
+import { SKILL_GAP_CATEGORY_TITLE_KEYS, aggregateMissingSkills } from '../lib/skillGap';
+import { useI18n } from '../hooks/useI18n';
+
+interface MissingSkillsSummaryProps {
+  generations: GenerationSummary[];
+}
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Навыки, которых чаще всего не хватает по всем сохраненным вакансиям
+ */
+const MissingSkillsSummary: React.FC<MissingSkillsSummaryProps> = ({ generations }) => {
+  const { t } = useI18n();
+  const { skills, vacancies } = useMemo(() => aggregateMissingSkills(generations), [generations]);
+
+  if (skills.length === 0) return null;
+
+  const maxCount = skills[0].count;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+      <div className="flex items-center space-x-2 mb-1">
+        <GraduationCap className="w-5 h-5 text-blue-400" />
+        <h3 className="text-white font-semibold">{t('skillGap.summaryTitle')}</h3>
+      </div>
+      <p className="text-gray-400 text-sm mb-4">{t('skillGap.summaryVacancies', { count: vacancies })}</p>
+
+      <div className="space-y-3">
+        {skills.map(stat => (
+          <div key={stat.skill}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-white">
+                {stat.skill}
+                <span className="text-gray-500 ml-2">{t(SKILL_GAP_CATEGORY_TITLE_KEYS[stat.category])}</span>
+              </span>
+              <span className="text-gray-300">{t('skillGap.summaryCount', { count: stat.count, total: vacancies })}</span>
+            </div>
+            <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-blue-500 to-purple-500 rounded-full"
+                style={{ width: `${(stat.count / maxCount) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MissingSkillsSummary;
@@ -1,44 +1,46 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronRight, Sparkles, Upload, Target, Rocket } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
 
 interface OnboardingProps {
   onComplete: () => void;
 }
 
-// Данные слайдов онбординга
+// Данные слайдов онбординга (тексты - ключи каталогов локализации)
 const slides = [
   {
     id: 1,
     icon: Sparkles,
-    title: 'Создавайте выигрышные сопроводительные письма за секунды',
-    description: 'Наш ИИ анализирует вакансию и ваше резюме, создавая персонализированное письмо, которое привлечет внимание HR.',
+    titleKey: 'onboarding.slide1.title',
+    descriptionKey: 'onboarding.slide1.description',
     gradient: 'from-purple-600 to-blue-600'
   },
   {
     id: 2,
     icon: Upload,
-    title: 'Просто загрузите резюме и вставьте ссылку на вакансию',
-    description: 'Загрузите своё резюме один раз, а затем просто вставляйте ссылки на интересные вакансии. ИИ сделает всё остальное.',
+    titleKey: 'onboarding.slide2.title',
+    descriptionKey: 'onboarding.slide2.description',
     gradient: 'from-blue-600 to-cyan-600'
   },
   {
     id: 3,
     icon: Target,
-    title: 'Проверьте соответствие перед подачей заявки',
-    description: 'Получите оценку совместимости и рекомендации по улучшению. Перестаньте тратить время на неподходящие вакансии.',
+    titleKey: 'onboarding.slide3.title',
+    descriptionKey: 'onboarding.slide3.description',
     gradient: 'from-cyan-600 to-teal-600'
   },
   {
     id: 4,
     icon: Rocket,
-    title: 'Вы готовы! Давайте начнём',
-    description: 'Увеличьте свои шансы на получение работы мечты с JobMatch AI.',
+    titleKey: 'onboarding.slide4.title',
+    descriptionKey: 'onboarding.slide4.description',
     gradient: 'from-teal-600 to-green-600'
   }
-];
+] as const;
 
 const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
+  const { t } = useI18n();
   const [currentSlide, setCurrentSlide] = useState(0);
 
   // Переход к следующему слайду
@@ -127,7 +129,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
               transition={{ delay: 0.3 }}
               className="text-3xl font-bold text-white mb-6 leading-tight"
             >
-              {current.title}
+              {t(current.titleKey)}
             </motion.h1>
 
             {/* Описание */}
@@ -137,7 +139,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
               transition={{ delay: 0.4 }}
               className="text-lg text-gray-300 leading-relaxed max-w-sm"
             >
-              {current.description}
+              {t(current.descriptionKey)}
             </motion.p>
           </motion.div>
         </AnimatePresence>
@@ -151,7 +153,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
           className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-4 px-6 rounded-2xl shadow-xl backdrop-blur-xl border border-white/10 flex items-center justify-center space-x-2 hover:from-blue-500 hover:to-purple-500 transition-all duration-300 transform hover:scale-[1.02] active:scale-[0.98]"
         >
           <span className="text-lg">
-            {currentSlide === slides.length - 1 ? 'Начать работу' : 'Продолжить'}
+            {currentSlide === slides.length - 1 ? t('onboarding.start') : t('onboarding.continue')}
           </span>
           <ChevronRight className="w-5 h-5" />
         </motion.button>
@@ -165,7 +167,7 @@ const Onboarding: React.FC<OnboardingProps> = ({ onComplete }) => {
             onClick={onComplete}
             className="mt-4 text-gray-400 hover:text-white transition-colors text-center py-2"
           >
-            Пропустить
+            {t('onboarding.skip')}
           </motion.button>
         )}
       </div>
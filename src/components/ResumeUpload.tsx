@@ -1,12 +1,20 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, CheckCircle, AlertCircle, X, FileText, Loader2, Brain, Zap, Database, Clock, CreditCard as Edit3, AlertTriangle } from 'lucide-react';
-import { ResumeData, validateResumeData, getFullName, getTotalSkillsCount } from '../types/resumeData';
+import { Upload, CheckCircle, AlertCircle, X, FileText, Loader2, Brain, Zap, Database, Clock, CreditCard as Edit3, AlertTriangle, Star, Trash2, History } from 'lucide-react';
+import { ResumeData, validateResumeEditData, getFullName, getTotalSkillsCount } from '../types/resumeData';
+import { parseResume, isAiGatewayError } from '../lib/aiGateway';
+import { listSavedResumes, uploadResumeFile, saveResumeVersion, saveResumeEdit, setDefaultResume, deleteSavedResume } from '../lib/resumeStorage';
+import { ResumeVersion, SavedResume, getDefaultVersionLabel } from '../types/savedResume';
+import ResumeVersionHistory from './ResumeVersionHistory';
+import { formatDate } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
 
 interface ResumeUploadProps {
-  onUploadComplete: (data: { file: File; resumeData: any }) => void;
+  onUploadComplete: (data: { file: File | null; resumeData: ResumeData; savedResumeId?: string | null }) => void;
   savedFile: File | null;
   savedResumeData: any;
+  userId?: string; // ID пользователя для сохранения резюме между генерациями
+  savedResumeId?: string | null; // Выбранная сохраненная версия резюме
 }
 
 /**
@@ -14,15 +22,15 @@ interface ResumeUploadProps {
  * 8 этапов по 4 секунды каждый (общая длительность 32 секунды)
  */
 const PARSING_MESSAGES = [
-  { id: 1, text: "Загружаем резюме на сервер...", delay: 0 },
-  { id: 2, text: "Инициализируем нейросети для анализа...", delay: 2000 },
-  { id: 3, text: "Глубокий анализ структуры документа...", delay: 4000 },
-  { id: 4, text: "Извлечение персональной информации...", delay: 6000 },
-  { id: 5, text: "Анализ навыков и компетенций...", delay: 8000 },
-  { id: 6, text: "Обработка опыта работы и образования...", delay: 10000 },
-  { id: 7, text: "Генерация карьерных рекомендаций...", delay: 12000 },
-  { id: 8, text: "Финализация и валидация данных...", delay: 14000 }
-];
+  { id: 1, textKey: 'resume.parsing.uploading', delay: 0 },
+  { id: 2, textKey: 'resume.parsing.init', delay: 2000 },
+  { id: 3, textKey: 'resume.parsing.structure', delay: 4000 },
+  { id: 4, textKey: 'resume.parsing.personal', delay: 6000 },
+  { id: 5, textKey: 'resume.parsing.skills', delay: 8000 },
+  { id: 6, textKey: 'resume.parsing.experience', delay: 10000 },
+  { id: 7, textKey: 'resume.parsing.recommendations', delay: 12000 },
+  { id: 8, textKey: 'resume.parsing.finalizing', delay: 14000 }
+] as const;
 
 /**
  * Генерация тестового user_id в формате ddmmyy_hhmm для dev режима
@@ -42,120 +50,6 @@ const generateDevUserId = (): string => {
   return `${day}${month}${year}_${hours}${minutes}`;
 };
 
-/**
- * НОВАЯ ФУНКЦИЯ: Гибкий парсинг ответа без строгой валидации
- * 
- * Принимает данные "как есть" и передает полный объект дальше
- * На фронте показывает только ключевые поля для пользователя
- * 
- * @param file - файл резюме для парсинга
- * @param userId - идентификатор пользователя
- * @returns Promise<any> - полные данные резюме без валидации
- */
-const parseResumeAPI = async (file: File, userId: string): Promise<any> => {
-  console.log('📄 Начинаем прямую загрузку и парсинг резюме:', {
-    fileName: file.name,
-    fileSize: file.size,
-    fileType: file.type,
-    userId,
-    endpoint: 'https://77xihg.buildship.run/first-resume-upload',
-    timeout: '120 секунд'
-  });
-
-  // Создаем AbortController с увеличенным таймаутом для парсинга больших файлов
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => {
-    console.error('⏰ Таймаут парсинга резюме (120 секунд)');
-    controller.abort();
-  }, 120000);
-
-  try {
-    // Формируем FormData согласно требованиям API
-    const formData = new FormData();
-    formData.append('file_itself', file);
-    formData.append('user_id', userId);
-    formData.append('File_path', `resume_${userId}_${Date.now()}_${file.name}`);
-
-    console.log('📤 Отправляем файл на API парсинга:', {
-      fileName: file.name,
-      userId: userId,
-      filePath: `resume_${userId}_${Date.now()}_${file.name}`
-    });
-
-    // Отправляем POST запрос с FormData
-    const response = await fetch('https://77xihg.buildship.run/first-resume-upload', {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'JobMatch-AI/1.0',
-        'X-Requested-With': 'XMLHttpRequest'
-        // Content-Type не устанавливаем - браузер сам установит для FormData
-      },
-      body: formData,
-      signal: controller.signal
-    });
-
-    // Очищаем таймаут
-    clearTimeout(timeoutId);
-
-    console.log('📡 Ответ от API:', {
-      status: response.status,
-      statusText: response.statusText,
-      headers: Object.fromEntries(response.headers.entries())
-    });
-
-    // Проверяем статус ответа
-    if (!response.ok) {
-      let errorMessage = `HTTP Error: ${response.status} ${response.statusText}`;
-      
-      try {
-        // Пытаемся получить детали ошибки
-        const errorData = await response.json();
-        console.error('❌ Ошибка API (JSON):', errorData);
-        errorMessage = errorData.error || errorData.message || errorMessage;
-      } catch (parseError) {
-        // Fallback на текстовую ошибку
-        const errorText = await response.text();
-        console.error('❌ Ошибка API (TEXT):', errorText);
-        if (errorText) errorMessage = errorText;
-      }
-      
-      throw new Error(errorMessage);
-    }
-
-    // Парсим JSON ответ с данными резюме
-    const responseData = await response.json();
-    console.log('✅ Получены сырые данные от API:', responseData);
-
-    // НОВОЕ: Принимаем данные как есть, без валидации
-    console.log('✅ Парсинг резюме завершен без валидации схемы');
-    console.log('📊 Размер полученных данных:', JSON.stringify(responseData).length, 'символов');
-
-    return responseData;
-
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    
-    console.error('❌ Ошибка API парсинга резюме:', error);
-    
-    // Обработка различных типов ошибок
-    if (error.name === 'AbortError') {
-      throw new Error('Время ожидания парсинга истекло (120 секунд). Файл слишком большой или сложный для обработки.');
-    }
-    
-    if (error.name === 'TypeError' && error.message.includes('fetch')) {
-      throw new Error('Ошибка сети: не удается подключиться к серверу парсинга резюме');
-    }
-    
-    if (error.name === 'SyntaxError') {
-      throw new Error('Сервер вернул некорректный ответ. Возможно, файл поврежден или имеет неподдерживаемый формат.');
-    }
-    
-    // Передаем ошибку как есть
-    throw error;
-  }
-};
-
 /**
  * НОВАЯ ФУНКЦИЯ: Гибкое извлечение данных для отображения на фронте
  * 
@@ -216,7 +110,8 @@ const extractDisplayData = (rawData: any) => {
   return displayData;
 };
 
-const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile, savedResumeData }) => {
+const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile, savedResumeData, userId, savedResumeId }) => {
+  const { t } = useI18n();
   const [isDragActive, setIsDragActive] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
@@ -229,6 +124,18 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
   const [editableData, setEditableData] = useState<any>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [showSaveSuccess, setShowSaveSuccess] = useState(false);
+
+  // Сохраненные версии резюме пользователя
+  const [savedResumes, setSavedResumes] = useState<SavedResume[]>([]);
+  const [isLoadingSavedResumes, setIsLoadingSavedResumes] = useState(false);
+  const [selectedResume, setSelectedResume] = useState<SavedResume | null>(null);
+  const [versionLabel, setVersionLabel] = useState('');
+  const [isSavingVersion, setIsSavingVersion] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+
+  // История правок выбранного сохраненного резюме
+  const [showHistory, setShowHistory] = useState(false);
+  const [lastVersionId, setLastVersionId] = useState<string | null>(null);
   
   // Состояние для глубокого анализа с анимированными сообщениями
   const [currentMessageIndex, setCurrentMessageIndex] = useState(0);
@@ -241,6 +148,10 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
     console.log('🔧 Сгенерирован тестовый user_id для парсинга резюме:', userId);
   }, []);
 
+  // Отмена запроса парсинга при размонтировании компонента
+  const abortControllerRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Восстанавливаем сохраненные данные при монтировании
   useEffect(() => {
     if (savedFile && !uploadedFile) {
@@ -248,9 +159,41 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
     }
     if (savedResumeData && !resumeData) {
       setResumeData(savedResumeData);
+      setEditableData(savedResumeData);
+      setDisplayData(extractDisplayData(savedResumeData));
     }
   }, [savedFile, savedResumeData, uploadedFile, resumeData]);
 
+  /**
+   * НОВЫЙ ЭФФЕКТ: Загрузка сохраненных версий резюме пользователя
+   */
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    setIsLoadingSavedResumes(true);
+
+    listSavedResumes(userId)
+      .then(resumes => {
+        if (cancelled) return;
+        console.log('📚 Загружено сохраненных резюме:', resumes.length);
+        setSavedResumes(resumes);
+        if (savedResumeId) {
+          setSelectedResume(resumes.find(resume => resume.id === savedResumeId) || null);
+        }
+      })
+      .catch(err => {
+        console.error('❌ Ошибка загрузки сохраненных резюме:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingSavedResumes(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, savedResumeId]);
+
   /**
    * НОВЫЙ ЭФФЕКТ: Глубокий анализ с анимированными сообщениями
    * 8 шагов по 5 секунд каждый с плавным появлением
@@ -295,7 +238,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
     if (file.size > MAX_FILE_SIZE) {
       return {
         isValid: false,
-        error: `Файл слишком большой. Максимальный размер: ${MAX_FILE_SIZE / 1024 / 1024}MB`
+        error: t('resume.fileTooLarge', { size: MAX_FILE_SIZE / 1024 / 1024 })
       };
     }
 
@@ -303,7 +246,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
     if (!ALLOWED_TYPES.includes(file.type)) {
       return {
         isValid: false,
-        error: 'Неподдерживаемый тип файла. Используйте PDF или DOCX'
+        error: t('resume.fileTypeUnsupported')
       };
     }
 
@@ -312,7 +255,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
     if (!ALLOWED_EXTENSIONS.includes(fileExtension)) {
       return {
         isValid: false,
-        error: 'Неподдерживаемое расширение файла. Используйте .pdf или .docx'
+        error: t('resume.fileExtensionUnsupported')
       };
     }
 
@@ -337,7 +280,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
     // Клиентская валидация файла
     const validation = validateFile(file);
     if (!validation.isValid) {
-      setError(validation.error || 'Ошибка валидации файла');
+      setError(validation.error || t('resume.fileValidationFailed'));
       return;
     }
 
@@ -348,7 +291,12 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
 
     try {
       // Вызываем API параллельно с анимацией
-      const parsedData = await parseResumeAPI(file, currentUserId);
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+      const parsedData = await parseResume(
+        { file, userId: currentUserId },
+        { signal: abortControllerRef.current.signal }
+      );
       
       // Вычисляем, сколько времени прошло с начала
       const elapsedTime = Date.now() - startTime;
@@ -381,17 +329,118 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
 
       console.log('✅ Глубокий анализ резюме завершен успешно');
 
+      // Сохраняем файл и данные для следующих генераций (не блокирует переход дальше)
+      persistUploadedResume(file, parsedData);
+
     } catch (error: any) {
+      if (isAiGatewayError(error) && error.code === 'aborted') return;
+
       console.error('❌ Ошибка глубокого анализа резюме:', error);
       
       setIsParsing(false);
       
       // Устанавливаем понятное сообщение об ошибке
-      let errorMessage = error.message || 'Произошла ошибка при глубоком анализе резюме';
+      let errorMessage = error.message || t('resume.parseFailed');
       setError(errorMessage);
     }
   };
 
+  /**
+   * НОВАЯ ФУНКЦИЯ: Сохранение загруженного резюме в личном кабинете
+   *
+   * Загружает исходный файл в Storage и создает новую версию в таблице resumes.
+   * Ошибка сохранения не мешает текущей генерации - показываем предупреждение.
+   */
+  const persistUploadedResume = async (file: File, parsedData: ResumeData) => {
+    if (!userId) return;
+
+    setStorageWarning(null);
+
+    try {
+      const filePath = await uploadResumeFile(file);
+      const saved = await saveResumeVersion({
+        file_path: filePath,
+        file_name: file.name,
+        resume_data: parsedData,
+        version_label: getDefaultVersionLabel()
+      });
+
+      console.log('💾 Резюме сохранено в личном кабинете:', saved.id);
+      addSavedResume(saved);
+      setSelectedResume(saved);
+      onUploadComplete({ file, resumeData: parsedData, savedResumeId: saved.id });
+    } catch (err: any) {
+      console.error('❌ Ошибка сохранения резюме в личном кабинете:', err);
+      setStorageWarning(t('resume.notStored', { message: err.message }));
+    }
+  };
+
+  /**
+   * Добавление новой версии в начало списка с учетом флага "по умолчанию"
+   */
+  const addSavedResume = (saved: SavedResume) => {
+    setSavedResumes(prev => [
+      saved,
+      ...prev.map(resume => (saved.is_default ? { ...resume, is_default: false } : resume))
+    ]);
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Выбор сохраненного резюме без повторного парсинга
+   */
+  const selectSavedResume = (resume: SavedResume) => {
+    console.log('📄 Выбрано сохраненное резюме:', resume.version_label);
+
+    setError(null);
+    setUploadedFile(null);
+    setSelectedResume(resume);
+    setShowHistory(false);
+    setResumeData(resume.resume_data_json);
+    setEditableData(resume.resume_data_json);
+    setDisplayData(extractDisplayData(resume.resume_data_json));
+    setIsEditing(false);
+    setHasUnsavedChanges(false);
+
+    onUploadComplete({
+      file: null,
+      resumeData: resume.resume_data_json,
+      savedResumeId: resume.id
+    });
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Назначение резюме по умолчанию
+   */
+  const handleSetDefaultResume = async (resume: SavedResume) => {
+    try {
+      await setDefaultResume(resume.id);
+      setSavedResumes(prev => prev.map(item => ({ ...item, is_default: item.id === resume.id })));
+    } catch (err: any) {
+      console.error('❌ Ошибка назначения резюме по умолчанию:', err);
+      setError(t('resume.setDefaultFailed', { message: err.message }));
+    }
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Удаление сохраненной версии резюме
+   */
+  const handleDeleteSavedResume = async (resume: SavedResume) => {
+    if (!confirm(t('resume.deleteConfirm', { label: resume.version_label }))) {
+      return;
+    }
+
+    try {
+      await deleteSavedResume(resume);
+      setSavedResumes(prev => prev.filter(item => item.id !== resume.id));
+      if (selectedResume?.id === resume.id) {
+        setSelectedResume(null);
+      }
+    } catch (err: any) {
+      console.error('❌ Ошибка удаления резюме:', err);
+      setError(t('resume.deleteFailed', { message: err.message }));
+    }
+  };
+
   /**
    * ОБНОВЛЕННАЯ ФУНКЦИЯ: Загрузка файла в Supabase Storage (УДАЛЕНА)
    * 
@@ -444,6 +493,9 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
    */
   const removeFile = () => {
     setUploadedFile(null);
+    setSelectedResume(null);
+    setShowHistory(false);
+    setStorageWarning(null);
     setResumeData(null);
     setDisplayData(null);
     setError(null);
@@ -458,59 +510,17 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
     console.log('🔧 Сгенерирован новый user_id для следующей загрузки:', newUserId);
   };
 
-  /**
-   * НОВАЯ ФУНКЦИЯ: Валидация редактируемых данных резюме
-   */
-  const validateResumeEditData = (data: any): { isValid: boolean; errors: string[] } => {
-    const errors: string[] = [];
-
-    // Проверка персональной информации
-    if (!data.personal_info?.first_name || data.personal_info.first_name.trim().length === 0) {
-      errors.push('Имя не может быть пустым');
-    }
-    if (!data.personal_info?.last_name || data.personal_info.last_name.trim().length === 0) {
-      errors.push('Фамилия не может быть пустой');
-    }
-    if (!data.personal_info?.email || data.personal_info.email.trim().length === 0) {
-      errors.push('Email не может быть пустым');
-    } else {
-      // Простая валидация email
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(data.personal_info.email.trim())) {
-        errors.push('Введите корректный email адрес');
-      }
-    }
-    if (!data.personal_info?.phone || data.personal_info.phone.trim().length === 0) {
-      errors.push('Телефон не может быть пустым');
-    }
-
-    // Проверка желаемой позиции
-    if (!data.desired_position || data.desired_position.trim().length === 0) {
-      errors.push('Желаемая позиция не может быть пустой');
-    }
-
-    // Проверка summary
-    if (!data.summary || data.summary.trim().length === 0) {
-      errors.push('Краткое описание не может быть пустым');
-    }
-
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
-  };
-
   /**
    * НОВАЯ ФУНКЦИЯ: Сохранение отредактированных данных резюме
    */
-  const handleSaveResumeEdits = () => {
-    if (!editableData) return;
+  const handleSaveResumeEdits = (): boolean => {
+    if (!editableData) return false;
 
-    // Валидация данных
+    // Валидация данных по схеме RESUME_EDIT_SCHEMA
     const validation = validateResumeEditData(editableData);
     if (!validation.isValid) {
-      setError(`Ошибка валидации: ${validation.errors.join(', ')}`);
-      return;
+      setError(t('resume.validationFailed', { errors: validation.errors.join(', ') }));
+      return false;
     }
 
     // Очищаем ошибки и сохраняем изменения
@@ -531,14 +541,104 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
     }, 3000); // Скрываем через 3 секунды
 
     // Передаем обновленные данные в родительский компонент
-    if (uploadedFile) {
+    if (uploadedFile || selectedResume) {
       onUploadComplete({
         file: uploadedFile,
-        resumeData: editableData
+        resumeData: editableData,
+        savedResumeId: selectedResume?.id ?? null
       });
     }
 
     console.log('✅ Сохранены отредактированные данные резюме:', editableData);
+    return true;
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Сохранение правок с записью в историю изменений
+   *
+   * Для сохраненного резюме правка записывается в resume_versions.
+   * Ошибка записи не отменяет правку в текущей генерации - показываем предупреждение.
+   */
+  const handleSaveAndRecordEdits = async () => {
+    const data = editableData;
+    if (!handleSaveResumeEdits() || !userId || !selectedResume) return;
+
+    setStorageWarning(null);
+
+    try {
+      const version = await saveResumeEdit(selectedResume.id, data);
+      console.log('🕓 Правка резюме записана в историю:', version.id);
+      applySavedResumeData(selectedResume.id, data);
+      setLastVersionId(version.id);
+    } catch (err: any) {
+      console.error('❌ Ошибка записи правки в историю:', err);
+      setStorageWarning(t('resume.editNotStored', { message: err.message }));
+    }
+  };
+
+  /**
+   * Обновление данных сохраненного резюме в локальном списке
+   */
+  const applySavedResumeData = (resumeId: string, data: ResumeData) => {
+    const update = (resume: SavedResume) => (resume.id === resumeId ? { ...resume, resume_data_json: data } : resume);
+    setSavedResumes(prev => prev.map(update));
+    setSelectedResume(prev => (prev ? update(prev) : prev));
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Восстановление резюме из истории изменений
+   */
+  const handleRestoreVersion = (version: ResumeVersion) => {
+    const data = version.resume_data_json;
+
+    setError(null);
+    setResumeData(data);
+    setEditableData(data);
+    setDisplayData(extractDisplayData(data));
+    setIsEditing(false);
+    setHasUnsavedChanges(false);
+    applySavedResumeData(version.resume_id, data);
+    setLastVersionId(version.id);
+
+    onUploadComplete({
+      file: uploadedFile,
+      resumeData: data,
+      savedResumeId: version.resume_id
+    });
+  };
+
+  /**
+   * НОВАЯ ФУНКЦИЯ: Сохранение отредактированного резюме как новой версии
+   *
+   * Новая версия ссылается на тот же исходный файл
+   */
+  const handleSaveAsNewVersion = async () => {
+    if (!userId || !editableData) return;
+
+    const data = editableData;
+    if (!handleSaveResumeEdits()) return;
+
+    setIsSavingVersion(true);
+
+    try {
+      const saved = await saveResumeVersion({
+        file_path: selectedResume?.file_path ?? null,
+        file_name: selectedResume?.file_name ?? uploadedFile?.name ?? null,
+        resume_data: data,
+        version_label: versionLabel.trim() || getDefaultVersionLabel()
+      });
+
+      console.log('💾 Сохранена новая версия резюме:', saved.id);
+      addSavedResume(saved);
+      setSelectedResume(saved);
+      setVersionLabel('');
+      onUploadComplete({ file: uploadedFile, resumeData: data, savedResumeId: saved.id });
+    } catch (err: any) {
+      console.error('❌ Ошибка сохранения версии резюме:', err);
+      setError(t('resume.versionSaveFailed', { message: err.message }));
+    } finally {
+      setIsSavingVersion(false);
+    }
   };
 
   /**
@@ -712,8 +812,8 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
               <CheckCircle className="w-6 h-6 text-white" />
             </motion.div>
             <div>
-              <p className="text-white font-semibold">Изменения сохранены!</p>
-              <p className="text-green-100 text-sm">Данные резюме обновлены и готовы к использованию</p>
+              <p className="text-white font-semibold">{t('resume.editsSaved')}</p>
+              <p className="text-green-100 text-sm">{t('resume.editsSavedHint')}</p>
             </div>
           </div>
           
@@ -729,9 +829,9 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
 
       {/* Заголовок */}
       <div className="text-center">
-        <h2 className="text-2xl font-bold text-white mb-2">Загрузите ваше резюме</h2>
+        <h2 className="text-2xl font-bold text-white mb-2">{t('resume.title')}</h2>
         <p className="text-gray-300">
-          Поддерживаются файлы PDF и DOCX размером до 10MB
+          {t('resume.subtitle')}
         </p>
       </div>
 
@@ -752,6 +852,55 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
         </div>
       )}
 
+      {/* НОВЫЙ БЛОК: Сохраненные резюме */}
+      {!uploadedFile && !resumeData && !isParsing && (isLoadingSavedResumes || savedResumes.length > 0) && (
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-3">
+          <div className="flex items-center space-x-2">
+            <History className="w-5 h-5 text-blue-400" />
+            <h3 className="text-white font-medium">{t('resume.savedTitle')}</h3>
+            {isLoadingSavedResumes && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+          </div>
+          {savedResumes.map(resume => (
+            <div key={resume.id} className="flex items-center justify-between bg-white/5 rounded-xl p-3">
+              <div className="min-w-0">
+                <p className="text-white text-sm font-medium truncate">
+                  {resume.version_label}
+                  {resume.is_default && <span className="ml-2 text-yellow-400 text-xs">{t('resume.default')}</span>}
+                </p>
+                <p className="text-gray-400 text-xs truncate">
+                  {resume.file_name || t('resume.noFile')} • {formatDate(resume.created_at)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <button
+                  onClick={() => selectSavedResume(resume)}
+                  className="px-3 py-1.5 bg-blue-500/20 hover:bg-blue-500/30 rounded-lg transition-colors text-blue-300 text-sm"
+                >
+                  {t('resume.use')}
+                </button>
+                {!resume.is_default && (
+                  <button
+                    onClick={() => handleSetDefaultResume(resume)}
+                    title={t('resume.makeDefault')}
+                    className="p-1.5 text-gray-400 hover:text-yellow-400 transition-colors"
+                  >
+                    <Star className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDeleteSavedResume(resume)}
+                  title={t('common.delete')}
+                  className="p-1.5 text-gray-400 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          <p className="text-gray-500 text-xs">{t('resume.orUploadNew')}</p>
+        </div>
+      )}
+
       {/* Зона загрузки - показываем только если файл не загружен */}
       {!uploadedFile && !resumeData && (
         <motion.div
@@ -785,14 +934,14 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
 
           <div>
             <p className="text-white font-semibold text-lg mb-2">
-              {isDragActive ? 'Отпустите файл здесь' : isParsing ? 'Анализируем резюме...' : 'Перетащите файл сюда'}
+              {isDragActive ? t('resume.dropActive') : isParsing ? t('resume.analyzing') : t('resume.dropHere')}
             </p>
             <p className="text-gray-400">
               {!isParsing && (
                 <>
-                  или{' '}
+                  {t('resume.or')}{' '}
                   <label htmlFor="file-upload" className="text-blue-400 underline cursor-pointer hover:text-blue-300">
-                    выберите файл
+                    {t('resume.chooseFile')}
                   </label>
                 </>
               )}
@@ -818,8 +967,8 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
               <Brain className="w-8 h-8 text-purple-400" />
             </motion.div>
             <div className="text-center">
-              <h3 className="text-white font-semibold text-lg">Глубокий анализ резюме с помощью ИИ</h3>
-              <p className="text-orange-400 text-sm mt-1">⏳ Процесс может занять до 2 минут</p>
+              <h3 className="text-white font-semibold text-lg">{t('resume.deepTitle')}</h3>
+              <p className="text-orange-400 text-sm mt-1">{t('resume.deepDuration')}</p>
             </div>
           </div>
 
@@ -878,7 +1027,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                           : 'text-gray-400'
                       }`}
                     >
-                      {message.text}
+                      {t(message.textKey)}
                     </motion.span>
                   </motion.div>
                 );
@@ -889,7 +1038,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
           {/* Прогресс-бар глубокого анализа */}
           <div className="mt-6">
             <div className="flex justify-between text-sm text-gray-400 mb-2">
-              <span>Прогресс глубокого анализа</span>
+              <span>{t('resume.deepProgress')}</span>
               <span>{Math.round(((currentMessageIndex + 1) / PARSING_MESSAGES.length) * 100)}%</span>
             </div>
             <div className="w-full bg-gray-700 rounded-full h-2">
@@ -906,21 +1055,21 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
           <div className="mt-4 bg-blue-500/10 border border-blue-500/20 rounded-xl p-3">
             <div className="flex items-center space-x-2 mb-1">
               <Brain className="w-4 h-4 text-blue-400" />
-              <span className="text-blue-400 text-sm font-medium">Процесс глубокого анализа</span>
+              <span className="text-blue-400 text-sm font-medium">{t('resume.deepProcess')}</span>
             </div>
             <p className="text-gray-300 text-xs">
-              ИИ проводит детальный анализ всех аспектов вашего резюме.
+              {t('resume.deepProcessText')}
               <br />
-              <span className="text-orange-400 font-semibold">Время выполнения: до 2 минут</span>
+              <span className="text-orange-400 font-semibold">{t('resume.deepProcessTime')}</span>
               <br />
-              <span className="text-green-400">Минимальная демонстрация: 32 секунды</span>
+              <span className="text-green-400">{t('resume.deepProcessMin')}</span>
             </p>
           </div>
         </motion.div>
       )}
 
       {/* Успешно загруженный файл и данные */}
-      {uploadedFile && displayData && (
+      {(uploadedFile || resumeData) && displayData && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -934,9 +1083,13 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                 <div className="flex items-center space-x-2">
                   <FileText className="w-5 h-5 text-green-400" />
                   <div>
-                    <p className="text-white font-medium">{uploadedFile.name}</p>
+                    <p className="text-white font-medium">
+                      {uploadedFile?.name || selectedResume?.version_label || t('resume.savedResume')}
+                    </p>
                     <p className="text-green-400 text-sm">
-                      {(uploadedFile.size / 1024 / 1024).toFixed(2)} MB • Обработано успешно
+                      {uploadedFile
+                        ? t('resume.processed', { size: (uploadedFile.size / 1024 / 1024).toFixed(2) })
+                        : t('resume.loadedFromAccount')}
                     </p>
                   </div>
                 </div>
@@ -959,24 +1112,42 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                   className="px-3 py-2 bg-blue-500/20 hover:bg-blue-500/30 rounded-xl transition-colors text-sm text-blue-300 flex items-center space-x-1"
                 >
                   <Edit3 className="w-4 h-4" />
-                  <span>{isEditing ? 'Отменить' : 'Редактировать'}</span>
+                  <span>{isEditing ? t('common.cancel') : t('common.edit')}</span>
                 </button>
+                {selectedResume && (
+                  <button
+                    onClick={() => setShowHistory(prev => !prev)}
+                    title={t('resume.history')}
+                    className={`p-2 rounded-xl transition-colors ${showHistory ? 'bg-blue-500/30 text-blue-300' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+                )}
                 <button
                   onClick={removeFile}
                   className="text-red-400 hover:text-red-300 text-sm underline transition-colors"
                 >
-                  Удалить файл
+                  {t('resume.removeFile')}
                 </button>
               </div>
             </div>
           </div>
 
+          {/* НОВЫЙ БЛОК: История изменений сохраненного резюме */}
+          {selectedResume && showHistory && !isEditing && (
+            <ResumeVersionHistory
+              resume={selectedResume}
+              refreshKey={lastVersionId}
+              onRestore={handleRestoreVersion}
+            />
+          )}
+
           {/* НОВЫЕ извлеченные данные резюме - только ключевые поля */}
           <div className="bg-blue-500/10 border border-blue-500/20 rounded-2xl p-6 space-y-4">
             <div className="flex items-center space-x-2 mb-4">
               <Database className="w-5 h-5 text-blue-400" />
               <h3 className="text-white font-semibold">
-                {isEditing ? 'Редактирование данных резюме:' : 'Ключевые извлеченные данные:'}
+                {isEditing ? t('resume.editingTitle') : t('resume.extractedTitle')}
               </h3>
             </div>
 
@@ -985,26 +1156,26 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
               <div className="space-y-6">
                 {/* Персональная информация */}
                 <div className="bg-white/5 rounded-xl p-4">
-                  <h4 className="text-blue-400 font-medium mb-4">👤 Персональная информация</h4>
+                  <h4 className="text-blue-400 font-medium mb-4">{t('resume.personalInfo')}</h4>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
-                      <label className="block text-gray-300 text-sm font-medium mb-2">Имя:</label>
+                      <label className="block text-gray-300 text-sm font-medium mb-2">{t('resume.firstName')}</label>
                       <input
                         type="text"
                         value={editableData?.personal_info?.first_name || ''}
                         onChange={(e) => handleFieldChange('personal_info', e.target.value, 'first_name')}
                         className="w-full bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
-                        placeholder="Введите имя"
+                        placeholder={t('resume.firstNamePlaceholder')}
                       />
                     </div>
                     <div>
-                      <label className="block text-gray-300 text-sm font-medium mb-2">Фамилия:</label>
+                      <label className="block text-gray-300 text-sm font-medium mb-2">{t('resume.lastName')}</label>
                       <input
                         type="text"
                         value={editableData?.personal_info?.last_name || ''}
                         onChange={(e) => handleFieldChange('personal_info', e.target.value, 'last_name')}
                         className="w-full bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
-                        placeholder="Введите фамилию"
+                        placeholder={t('resume.lastNamePlaceholder')}
                       />
                     </div>
                     <div>
@@ -1018,7 +1189,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                       />
                     </div>
                     <div>
-                      <label className="block text-gray-300 text-sm font-medium mb-2">Телефон:</label>
+                      <label className="block text-gray-300 text-sm font-medium mb-2">{t('resume.phone')}</label>
                       <input
                         type="tel"
                         value={editableData?.personal_info?.phone || ''}
@@ -1032,23 +1203,23 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
 
                 {/* Желаемая позиция */}
                 <div className="bg-white/5 rounded-xl p-4">
-                  <h4 className="text-yellow-400 font-medium mb-2">🎯 Желаемая позиция</h4>
+                  <h4 className="text-yellow-400 font-medium mb-2">{t('resume.desiredPosition')}</h4>
                   <input
                     type="text"
                     value={editableData?.desired_position || ''}
                     onChange={(e) => handleFieldChange('desired_position', e.target.value)}
                     className="w-full bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
-                    placeholder="Например: Frontend Developer"
+                    placeholder={t('resume.desiredPositionPlaceholder')}
                   />
                 </div>
 
                 {/* Навыки */}
                 <div className="bg-white/5 rounded-xl p-4">
-                  <h4 className="text-green-400 font-medium mb-3">🛠️ Навыки</h4>
+                  <h4 className="text-green-400 font-medium mb-3">{t('resume.skills')}</h4>
                   
                   {/* Технические навыки */}
                   <div className="mb-4">
-                    <span className="text-gray-300 text-sm font-medium mb-2 block">💻 Технические навыки:</span>
+                    <span className="text-gray-300 text-sm font-medium mb-2 block">💻 {t('skills.hard_skills')}:</span>
                     <div className="flex flex-wrap gap-2 mb-2">
                       {(editableData?.skills?.hard_skills || []).map((skill: string, index: number) => (
                         <span key={index} className="bg-blue-500/20 text-blue-300 px-2 py-1 rounded-lg text-sm flex items-center space-x-1">
@@ -1066,7 +1237,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                       <input
                         type="text"
                         className="flex-1 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all text-sm"
-                        placeholder="Добавить технический навык"
+                        placeholder={t('resume.addHardSkill')}
                         onKeyPress={(e) => {
                           if (e.key === 'Enter') {
                             addResumeSkill('hard_skills', (e.target as HTMLInputElement).value);
@@ -1082,14 +1253,14 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                         }}
                         className="px-3 py-2 bg-blue-500/20 hover:bg-blue-500/30 rounded-xl transition-colors text-sm text-blue-300"
                       >
-                        Добавить
+                        {t('common.add')}
                       </button>
                     </div>
                   </div>
 
                   {/* Гибкие навыки */}
                   <div className="mb-4">
-                    <span className="text-gray-300 text-sm font-medium mb-2 block">🤝 Гибкие навыки:</span>
+                    <span className="text-gray-300 text-sm font-medium mb-2 block">🤝 {t('skills.soft_skills')}:</span>
                     <div className="flex flex-wrap gap-2 mb-2">
                       {(editableData?.skills?.soft_skills || []).map((skill: string, index: number) => (
                         <span key={index} className="bg-green-500/20 text-green-300 px-2 py-1 rounded-lg text-sm flex items-center space-x-1">
@@ -1107,7 +1278,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                       <input
                         type="text"
                         className="flex-1 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all text-sm"
-                        placeholder="Добавить гибкий навык"
+                        placeholder={t('resume.addSoftSkill')}
                         onKeyPress={(e) => {
                           if (e.key === 'Enter') {
                             addResumeSkill('soft_skills', (e.target as HTMLInputElement).value);
@@ -1123,14 +1294,14 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                         }}
                         className="px-3 py-2 bg-green-500/20 hover:bg-green-500/30 rounded-xl transition-colors text-sm text-green-300"
                       >
-                        Добавить
+                        {t('common.add')}
                       </button>
                     </div>
                   </div>
 
                   {/* Языки */}
                   <div>
-                    <span className="text-gray-300 text-sm font-medium mb-2 block">🌍 Языки:</span>
+                    <span className="text-gray-300 text-sm font-medium mb-2 block">🌍 {t('skills.languages')}:</span>
                     <div className="flex flex-wrap gap-2 mb-2">
                       {(editableData?.skills?.languages || []).map((language: string, index: number) => (
                         <span key={index} className="bg-purple-500/20 text-purple-300 px-2 py-1 rounded-lg text-sm flex items-center space-x-1">
@@ -1148,7 +1319,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                       <input
                         type="text"
                         className="flex-1 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all text-sm"
-                        placeholder="Добавить язык"
+                        placeholder={t('resume.addLanguage')}
                         onKeyPress={(e) => {
                           if (e.key === 'Enter') {
                             addResumeSkill('languages', (e.target as HTMLInputElement).value);
@@ -1164,7 +1335,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                         }}
                         className="px-3 py-2 bg-purple-500/20 hover:bg-purple-500/30 rounded-xl transition-colors text-sm text-purple-300"
                       >
-                        Добавить
+                        {t('common.add')}
                       </button>
                     </div>
                   </div>
@@ -1172,25 +1343,47 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
 
                 {/* Краткое описание */}
                 <div className="bg-white/5 rounded-xl p-4">
-                  <h4 className="text-cyan-400 font-medium mb-2">📄 Краткое описание</h4>
+                  <h4 className="text-cyan-400 font-medium mb-2">{t('resume.summary')}</h4>
                   <textarea
                     value={editableData?.summary || ''}
                     onChange={(e) => handleFieldChange('summary', e.target.value)}
                     className="w-full bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all resize-none"
                     rows={4}
-                    placeholder="Опишите ваши профессиональные цели и ключевые достижения..."
+                    placeholder={t('resume.summaryPlaceholder')}
                   />
                 </div>
 
                 {/* Кнопка сохранения */}
                 <div className="flex justify-center">
                   <button
-                    onClick={handleSaveResumeEdits}
+                    onClick={handleSaveAndRecordEdits}
                     className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-3 px-4 rounded-xl shadow-xl transition-all hover:from-blue-500 hover:to-purple-500"
                   >
-                    ✅ Сохранить изменения
+                    {t('common.saveChanges')}
                   </button>
                 </div>
+
+                {/* НОВОЕ: Сохранение как новой версии */}
+                {userId && (
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <input
+                      type="text"
+                      value={versionLabel}
+                      onChange={(e) => setVersionLabel(e.target.value)}
+                      maxLength={100}
+                      className="flex-1 bg-white/10 border border-white/20 rounded-xl px-3 py-2 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 transition-all"
+                      placeholder={getDefaultVersionLabel()}
+                    />
+                    <button
+                      onClick={handleSaveAsNewVersion}
+                      disabled={isSavingVersion}
+                      className="flex items-center justify-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl transition-colors text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSavingVersion && <Loader2 className="w-4 h-4 animate-spin" />}
+                      <span>{t('resume.saveAsVersion')}</span>
+                    </button>
+                  </div>
+                )}
                 
                 {/* Предупреждение о несохраненных изменениях */}
                 {hasUnsavedChanges && (
@@ -1198,7 +1391,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                     <div className="flex items-center space-x-2">
                       <AlertTriangle className="w-4 h-4 text-yellow-400" />
                       <p className="text-yellow-300 text-sm">
-                        У вас есть несохраненные изменения. Нажмите "Сохранить изменения" перед переходом к следующему шагу.
+                        {t('resume.unsavedChanges')}
                       </p>
                     </div>
                   </div>
@@ -1209,7 +1402,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
               <div className="space-y-4">
                 {/* 1. Персональная информация */}
                 <div className="bg-white/5 rounded-xl p-4">
-                  <h4 className="text-blue-400 font-medium mb-2">👤 Персональная информация</h4>
+                  <h4 className="text-blue-400 font-medium mb-2">{t('resume.personalInfo')}</h4>
                   <div className="text-center">
                     <p className="text-white text-lg font-semibold">
                       {displayData.personal_info.first_name} {displayData.personal_info.last_name}
@@ -1219,20 +1412,20 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
 
                 {/* 2. Желаемая позиция */}
                 <div className="bg-white/5 rounded-xl p-4">
-                  <h4 className="text-yellow-400 font-medium mb-2">🎯 Желаемая позиция</h4>
+                  <h4 className="text-yellow-400 font-medium mb-2">{t('resume.desiredPosition')}</h4>
                   <p className="text-white text-lg font-semibold text-center">
-                    {displayData.desired_position || 'Не указана'}
+                    {displayData.desired_position || t('resume.positionUnknown')}
                   </p>
                 </div>
 
                 {/* 3. Навыки - гибкое отображение */}
                 <div className="bg-white/5 rounded-xl p-4">
-                  <h4 className="text-green-400 font-medium mb-3">🛠️ Навыки</h4>
+                  <h4 className="text-green-400 font-medium mb-3">{t('resume.skills')}</h4>
                   
                   {/* Технические навыки */}
                   {displayData.skills.hard_skills?.length > 0 && (
                     <div className="mb-3">
-                      <span className="text-gray-300 text-sm font-medium mb-2 block">💻 Технические навыки:</span>
+                      <span className="text-gray-300 text-sm font-medium mb-2 block">💻 {t('skills.hard_skills')}:</span>
                       <div className="flex flex-wrap gap-2">
                         {displayData.skills.hard_skills.map((skill: string, index: number) => (
                           <span key={index} className="bg-blue-500/20 text-blue-300 px-2 py-1 rounded-lg text-xs">
@@ -1246,7 +1439,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                   {/* Гибкие навыки */}
                   {displayData.skills.soft_skills?.length > 0 && (
                     <div className="mb-3">
-                      <span className="text-gray-300 text-sm font-medium mb-2 block">🤝 Гибкие навыки:</span>
+                      <span className="text-gray-300 text-sm font-medium mb-2 block">🤝 {t('skills.soft_skills')}:</span>
                       <div className="flex flex-wrap gap-2">
                         {displayData.skills.soft_skills.map((skill: string, index: number) => (
                           <span key={index} className="bg-green-500/20 text-green-300 px-2 py-1 rounded-lg text-xs">
@@ -1260,7 +1453,7 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                   {/* Языки */}
                   {displayData.skills.languages?.length > 0 && (
                     <div>
-                      <span className="text-gray-300 text-sm font-medium mb-2 block">🌍 Языки:</span>
+                      <span className="text-gray-300 text-sm font-medium mb-2 block">🌍 {t('skills.languages')}:</span>
                       <div className="flex flex-wrap gap-2">
                         {displayData.skills.languages.map((language: string, index: number) => (
                           <span key={index} className="bg-purple-500/20 text-purple-300 px-2 py-1 rounded-lg text-xs">
@@ -1275,14 +1468,14 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
                   {(!displayData.skills.hard_skills?.length && 
                     !displayData.skills.soft_skills?.length && 
                     !displayData.skills.languages?.length) && (
-                    <p className="text-gray-400 text-sm italic">Навыки не извлечены из резюме</p>
+                    <p className="text-gray-400 text-sm italic">{t('resume.noSkills')}</p>
                   )}
                 </div>
 
                 {/* 4. Резюме кандидата (summary) */}
                 {displayData.summary && (
                   <div className="bg-white/5 rounded-xl p-4">
-                    <h4 className="text-cyan-400 font-medium mb-2">📄 Резюме кандидата</h4>
+                    <h4 className="text-cyan-400 font-medium mb-2">{t('resume.candidateSummary')}</h4>
                     <p className="text-white text-sm leading-relaxed">
                       {displayData.summary}
                     </p>
@@ -1294,11 +1487,11 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
             {!isEditing && (
               /* Информационная панель - показываем только в режиме просмотра */
               <div className="bg-gray-500/10 border border-gray-500/20 rounded-xl p-3 mt-4">
-                <h4 className="text-gray-400 font-medium mb-1 text-sm">📊 Полные данные сохранены</h4>
+                <h4 className="text-gray-400 font-medium mb-1 text-sm">{t('resume.fullDataTitle')}</h4>
                 <div className="text-xs text-gray-500 space-y-1">
-                  <p>• <span className="text-white">Весь объект данных от API сохранен</span></p>
-                  <p>• <span className="text-white">Отображаются только ключевые поля</span></p>
-                  <p className="text-green-400 font-medium">✓ Полные данные передаются на следующие шаги</p>
+                  <p>• <span className="text-white">{t('resume.fullDataApi')}</span></p>
+                  <p>• <span className="text-white">{t('resume.fullDataKeyFields')}</span></p>
+                  <p className="text-green-400 font-medium">{t('resume.fullDataNextSteps')}</p>
                 </div>
               </div>
             )}
@@ -1316,29 +1509,37 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
           <div className="flex items-start space-x-3">
             <AlertCircle className="w-6 h-6 text-red-400 flex-shrink-0 mt-0.5" />
             <div>
-              <p className="text-red-400 font-medium mb-1">Ошибка обработки резюме</p>
+              <p className="text-red-400 font-medium mb-1">{t('resume.errorTitle')}</p>
               <p className="text-red-300 text-sm mb-3">{error}</p>
               <button
                 onClick={() => setError(null)}
                 className="text-red-400 hover:text-red-300 text-sm underline transition-colors"
               >
-                Скрыть ошибку
+                {t('resume.hideError')}
               </button>
             </div>
           </div>
         </motion.div>
       )}
 
+      {/* Предупреждение о несохраненном в личном кабинете резюме */}
+      {storageWarning && (
+        <div className="bg-yellow-500/20 border border-yellow-500/30 rounded-2xl p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+          <p className="text-yellow-300 text-sm">{storageWarning}</p>
+        </div>
+      )}
+
       {/* Информация о поддерживаемых форматах */}
       {!uploadedFile && !resumeData && !isParsing && (
         <div className="bg-blue-500/10 border border-blue-500/20 rounded-2xl p-4">
-          <h3 className="text-white font-medium mb-2">📋 Требования к файлу:</h3>
+          <h3 className="text-white font-medium mb-2">{t('resume.requirementsTitle')}</h3>
           <ul className="text-gray-300 text-sm space-y-1">
-            <li>• Поддерживаемые форматы: PDF, DOCX</li>
-            <li>• Максимальный размер: 10 МБ</li>
-            <li>• Файл должен содержать текстовую информацию</li>
-            <li>• Рекомендуется структурированное резюме</li>
-            <li>• <strong>Время обработки:</strong> до 2 минут для сложных резюме</li>
+            <li>{t('resume.requirements.formats')}</li>
+            <li>{t('resume.requirements.size')}</li>
+            <li>{t('resume.requirements.text')}</li>
+            <li>{t('resume.requirements.structured')}</li>
+            <li>• <strong>{t('resume.requirements.time')}</strong> {t('resume.requirements.timeText')}</li>
           </ul>
         </div>
       )}
@@ -1348,12 +1549,12 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
         <div className="bg-purple-500/10 border border-purple-500/20 rounded-2xl p-4">
           <div className="flex items-center space-x-2 mb-1">
             <Clock className="w-4 h-4 text-blue-400" />
-            <span className="text-blue-400 text-sm font-medium">Простая анимация</span>
+            <span className="text-blue-400 text-sm font-medium">{t('resume.animationTitle')}</span>
           </div>
           <p className="text-gray-300 text-xs">
-            4 простых шага по 1 секунде каждый.
+            {t('resume.animationSteps')}
             <br />
-            Если API быстрее - ждем завершения анимации.
+            {t('resume.animationWait')}
           </p>
         </div>
       )}
@@ -1361,13 +1562,13 @@ const ResumeUpload: React.FC<ResumeUploadProps> = ({ onUploadComplete, savedFile
       {/* НОВАЯ ИНФОРМАЦИЯ: О парсинге и таймауте */}
       {!uploadedFile && !resumeData && !isParsing && (
         <div className="bg-purple-500/10 border border-purple-500/20 rounded-2xl p-4">
-          <h3 className="text-white font-medium mb-2">🤖 Как работает обработка:</h3>
+          <h3 className="text-white font-medium mb-2">{t('resume.howTitle')}</h3>
           <ul className="text-gray-300 text-sm space-y-1">
-            <li>• <strong>Глубина:</strong> 8 этапов по 4 секунды каждый</li>
-            <li>• <strong>Качество:</strong> Минимум 32 секунды детального анализа</li>
-            <li>• <strong>ИИ-анализ:</strong> Нейросети обрабатывают все аспекты резюме</li>
-            <li>• <strong>Терпение:</strong> Процесс может занять до 2 минут</li>
-            <li>• <strong>Гибкость:</strong> Принимаем данные как есть, без строгой валидации</li>
+            <li>• <strong>{t('resume.how.depth')}</strong> {t('resume.how.depthText')}</li>
+            <li>• <strong>{t('resume.how.quality')}</strong> {t('resume.how.qualityText')}</li>
+            <li>• <strong>{t('resume.how.ai')}</strong> {t('resume.how.aiText')}</li>
+            <li>• <strong>{t('resume.how.patience')}</strong> {t('resume.how.patienceText')}</li>
+            <li>• <strong>{t('resume.how.flexible')}</strong> {t('resume.how.flexibleText')}</li>
           </ul>
         </div>
       )}
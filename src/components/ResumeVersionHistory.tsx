@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { History, Loader2, RotateCcw, GitCompare, Plus, Minus } from 'lucide-react';
+import { ResumeDiff, ListDiff, FieldChange, TextDiffSegment, diffResumeData, diffText } from '../types/resumeDiff';
+import { listResumeVersions, saveResumeEdit } from '../lib/resumeStorage';
+import { ResumeVersion, SavedResume } from '../types/savedResume';
+import { useI18n } from '../hooks/useI18n';
+
+interface ResumeVersionHistoryProps {
+  resume: SavedResume;
+  /** Меняется после каждой сохраненной правки, чтобы перезагрузить историю */
+  refreshKey?: string | null;
+  onRestore: (version: ResumeVersion) => void;
+}
+
+const VERSION_DATE_FORMAT: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' };
+
+/**
+ * Пословный diff с подсветкой добавленного и удаленного текста
+ */
+const DiffText: React.FC<{ segments: TextDiffSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, index) =>
+      segment.type === 'added' ? (
+        <ins key={index} className="bg-green-500/25 text-green-200 no-underline rounded px-0.5">{segment.text}</ins>
+      ) : segment.type === 'removed' ? (
+        <del key={index} className="bg-red-500/25 text-red-200 rounded px-0.5">{segment.text}</del>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const FieldChanges: React.FC<{ changes: FieldChange[] }> = ({ changes }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-1">
+      {changes.map(change => (
+        <p key={change.path} className="text-sm">
+          <span className="text-gray-400">{t(change.labelKey)}: </span>
+          {change.before && <del className="text-red-300 mr-2">{change.before}</del>}
+          {change.after && <ins className="text-green-300 no-underline">{change.after}</ins>}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+const ListChanges: React.FC<{ label: string; list: ListDiff }> = ({ label, list }) => {
+  if (list.added.length === 0 && list.removed.length === 0) return null;
+
+  return (
+    <div className="text-sm">
+      <span className="text-gray-400">{label}: </span>
+      <span className="inline-flex flex-wrap gap-1">
+        {list.added.map(item => (
+          <span key={`+${item}`} className="flex items-center bg-green-500/20 text-green-300 rounded-lg px-2 py-0.5">
+            <Plus className="w-3 h-3 mr-1" />{item}
+          </span>
+        ))}
+        {list.removed.map(item => (
+          <span key={`-${item}`} className="flex items-center bg-red-500/20 text-red-300 rounded-lg px-2 py-0.5 line-through">
+            <Minus className="w-3 h-3 mr-1" />{item}
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * Отображение сравнения двух версий резюме по разделам
+ */
+const ResumeDiffView: React.FC<{ diff: ResumeDiff }> = ({ diff }) => {
+  const { t } = useI18n();
+
+  if (!diff.hasChanges) {
+    return <p className="text-gray-400 text-sm">{t('resumeHistory.noDifferences')}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff.personal_info.length > 0 && (
+        <div>
+          <h5 className="text-blue-400 font-medium text-sm mb-1">👤 {t('resumeHistory.personalInfo')}</h5>
+          <FieldChanges changes={diff.personal_info} />
+        </div>
+      )}
+
+      {diff.profile.length > 0 && (
+        <div>
+          <h5 className="text-cyan-400 font-medium text-sm mb-1">📄 {t('resumeHistory.profile')}</h5>
+          <div className="space-y-1">
+            {diff.profile.map(change => (
+              <p key={change.path} className="text-sm text-gray-200">
+                <span className="text-gray-400">{t(change.labelKey)}: </span>
+                <DiffText segments={diffText(change.before, change.after)} />
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(diff.skills.hard_skills.added.length + diff.skills.hard_skills.removed.length +
+        diff.skills.soft_skills.added.length + diff.skills.soft_skills.removed.length +
+        diff.skills.languages.added.length + diff.skills.languages.removed.length) > 0 && (
+        <div className="space-y-1">
+          <h5 className="text-purple-400 font-medium text-sm mb-1">🧠 {t('resumeHistory.skills')}</h5>
+          <ListChanges label={t('resumeHistory.hardSkills')} list={diff.skills.hard_skills} />
+          <ListChanges label={t('resumeHistory.softSkills')} list={diff.skills.soft_skills} />
+          <ListChanges label={t('resumeHistory.languages')} list={diff.skills.languages} />
+        </div>
+      )}
+
+      {diff.experience.length > 0 && (
+        <div>
+          <h5 className="text-green-400 font-medium text-sm mb-1">💼 {t('resumeHistory.experience')}</h5>
+          <div className="space-y-3">
+            {diff.experience.map((change, index) => (
+              <div key={`${change.type}-${index}`} className="bg-white/5 rounded-xl p-3 space-y-1">
+                <p className="text-white text-sm font-medium">
+                  {change.type === 'added' && <span className="text-green-400 mr-2">{t('resumeHistory.added')}</span>}
+                  {change.type === 'removed' && <span className="text-red-400 mr-2">{t('resumeHistory.removed')}</span>}
+                  {change.type === 'changed' && <span className="text-yellow-400 mr-2">{t('resumeHistory.changed')}</span>}
+                  {change.title || t('resumeHistory.untitled')}
+                </p>
+                {change.fields.length > 0 && <FieldChanges changes={change.fields} />}
+                {change.bullets.filter(bullet => bullet.type !== 'unchanged').map((bullet, bulletIndex) => (
+                  <p key={bulletIndex} className="text-sm text-gray-200 pl-3">
+                    • {bullet.type === 'changed' && bullet.segments && <DiffText segments={bullet.segments} />}
+                    {bullet.type === 'added' && <ins className="text-green-300 no-underline">{bullet.after}</ins>}
+                    {bullet.type === 'removed' && <del className="text-red-300">{bullet.before}</del>}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(diff.education.added.length > 0 || diff.education.removed.length > 0) && (
+        <div>
+          <h5 className="text-orange-400 font-medium text-sm mb-1">🎓 {t('resumeHistory.education')}</h5>
+          <ListChanges label={t('resumeHistory.institutions')} list={diff.education} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * НОВЫЙ БЛОК: История правок сохраненного резюме
+ *
+ * Показывает список сохраненных правок, сравнивает любые две из них
+ * по полям и позволяет восстановить старую версию. Восстановление
+ * не удаляет историю, а записывает старые данные новой правкой.
+ */
+const ResumeVersionHistory: React.FC<ResumeVersionHistoryProps> = ({ resume, refreshKey, onRestore }) => {
+  const { t, formatDateTime } = useI18n();
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    listResumeVersions(resume.id)
+      .then(items => {
+        if (cancelled) return;
+        console.log('🕓 Загружено правок резюме:', items.length);
+        setVersions(items);
+        // По умолчанию сравниваем последнюю правку с предыдущей
+        setCompareId(items[0]?.id ?? null);
+        setBaseId(items[1]?.id ?? null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('❌ Ошибка загрузки истории резюме:', err);
+        setError(t('resumeHistory.loadFailed', { message: err.message }));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [resume.id, refreshKey, t]);
+
+  const diff = useMemo(() => {
+    const base = versions.find(version => version.id === baseId);
+    const compare = versions.find(version => version.id === compareId);
+    if (!base || !compare) return null;
+    return diffResumeData(base.resume_data_json, compare.resume_data_json);
+  }, [versions, baseId, compareId]);
+
+  const handleRestore = async (version: ResumeVersion) => {
+    if (!confirm(t('resumeHistory.restoreConfirm', { date: formatDateTime(version.created_at, VERSION_DATE_FORMAT) }))) {
+      return;
+    }
+
+    setRestoringId(version.id);
+    setError(null);
+
+    try {
+      const restored = await saveResumeEdit(resume.id, version.resume_data_json, version.id);
+      console.log('♻️ Резюме восстановлено из версии:', version.id);
+      onRestore(restored);
+    } catch (err: any) {
+      console.error('❌ Ошибка восстановления версии резюме:', err);
+      setError(t('resumeHistory.restoreFailed', { message: err.message }));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // Нумерация версий от самой старой, 0 - версия не найдена
+  const versionIndex = (id: string) => {
+    const index = versions.findIndex(version => version.id === id);
+    return index === -1 ? 0 : versions.length - index;
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/5 border border-white/10 rounded-2xl p-4 space-y-4"
+    >
+      <div className="flex items-center space-x-2">
+        <History className="w-5 h-5 text-blue-400" />
+        <h3 className="text-white font-medium">{t('resumeHistory.title')}</h3>
+        {isLoading && <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />}
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+
+      {!isLoading && versions.length === 0 && !error && (
+        <p className="text-gray-400 text-sm">{t('resumeHistory.empty')}</p>
+      )}
+
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {versions.map((version, index) => (
+          <div key={version.id} className="flex items-center justify-between bg-white/5 rounded-xl p-3">
+            <div className="min-w-0">
+              <p className="text-white text-sm font-medium">
+                {t('resumeHistory.version', { number: versionIndex(version.id) })}
+                {index === 0 && <span className="ml-2 text-green-400 text-xs">{t('resumeHistory.current')}</span>}
+                {version.restored_from && (
+                  <span className="ml-2 text-yellow-400 text-xs">
+                    {t('resumeHistory.restoredFrom', { number: versionIndex(version.restored_from) || '?' })}
+                  </span>
+                )}
+              </p>
+              <p className="text-gray-400 text-xs">{formatDateTime(version.created_at, VERSION_DATE_FORMAT)}</p>
+            </div>
+            <div className="flex items-center space-x-2 flex-shrink-0">
+              <label className="flex items-center space-x-1 text-xs text-gray-400" title={t('resumeHistory.compareBeforeTitle')}>
+                <input
+                  type="radio"
+                  name="base-version"
+                  checked={baseId === version.id}
+                  onChange={() => setBaseId(version.id)}
+                />
+                <span>{t('resumeHistory.compareBefore')}</span>
+              </label>
+              <label className="flex items-center space-x-1 text-xs text-gray-400" title={t('resumeHistory.compareAfterTitle')}>
+                <input
+                  type="radio"
+                  name="compare-version"
+                  checked={compareId === version.id}
+                  onChange={() => setCompareId(version.id)}
+                />
+                <span>{t('resumeHistory.compareAfter')}</span>
+              </label>
+              {index > 0 && (
+                <button
+                  onClick={() => handleRestore(version)}
+                  disabled={restoringId !== null}
+                  title={t('resumeHistory.restore')}
+                  className="p-1.5 text-gray-400 hover:text-blue-400 transition-colors disabled:opacity-50"
+                >
+                  {restoringId === version.id
+                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                    : <RotateCcw className="w-4 h-4" />}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {diff && baseId && compareId && (
+        <div className="border-t border-white/10 pt-4">
+          <div className="flex items-center space-x-2 mb-3">
+            <GitCompare className="w-4 h-4 text-purple-400" />
+            <h4 className="text-white text-sm font-medium">
+              {t('resumeHistory.version', { number: versionIndex(baseId) })} → {t('resumeHistory.version', { number: versionIndex(compareId) })}
+            </h4>
+          </div>
+          <ResumeDiffView diff={diff} />
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ResumeVersionHistory;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { CheckCircle, Download, GraduationCap, TrendingUp } from 'lucide-react';
+import { SkillGapReport as SkillGapReportData, exportSkillGapReport } from '../lib/skillGap';
+import { useI18n } from '../hooks/useI18n';
+
+interface SkillGapReportProps {
+  report: SkillGapReportData;
+}
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Отчет о недостающих навыках с планом развития
+ *
+ * Навыки сгруппированы по категориям; внутри категории - по востребованности
+ * в сохраненных вакансиях пользователя
+ */
+const SkillGapReport: React.FC<SkillGapReportProps> = ({ report }) => {
+  const { t, locale } = useI18n();
+
+  if (report.total_missing === 0) {
+    return (
+      <div className="bg-green-500/10 border border-green-500/20 rounded-2xl p-6 text-center">
+        <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-4" />
+        <h3 className="text-white font-medium mb-2">{t('skillGap.emptyTitle')}</h3>
+        <p className="text-gray-400 text-sm">{t('skillGap.emptyDescription')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-white font-semibold text-lg flex items-center space-x-2">
+            <GraduationCap className="w-5 h-5 text-blue-400" />
+            <span>{t('skillGap.title')}</span>
+          </h3>
+          <p className="text-gray-400 text-sm mt-1">
+            {t('skillGap.missingCount', { count: report.total_missing })}
+            {report.history_size > 0 && ` • ${t('skillGap.historyDemand', { count: report.history_size })}`}
+          </p>
+        </div>
+        <button
+          onClick={() => exportSkillGapReport(report, locale)}
+          className="flex items-center justify-center space-x-2 py-2 px-4 bg-blue-600/20 hover:bg-blue-600/30 border border-blue-500/30 text-blue-300 rounded-xl transition-all duration-200 hover:scale-105 active:scale-95 flex-shrink-0"
+        >
+          <Download className="w-4 h-4" />
+          <span>{t('skillGap.download')}</span>
+        </button>
+      </div>
+
+      {report.groups.map(group => (
+        <div key={group.category} className="bg-white/5 backdrop-blur-xl border border-white/10 rounded-2xl p-6">
+          <h4 className="text-white font-medium mb-4">{group.title}</h4>
+          <div className="space-y-4">
+            {group.items.map(item => (
+              <div key={item.skill}>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-white font-medium">{item.skill}</span>
+                  {item.demand > 0 && (
+                    <span className="flex items-center space-x-1 text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-500/20 rounded-lg px-2 py-1">
+                      <TrendingUp className="w-3 h-3" />
+                      <span>{t('skillGap.demand', { count: item.demand })}</span>
+                    </span>
+                  )}
+                </div>
+                <ul className="text-gray-300 text-sm space-y-1">
+                  {item.actions.map(action => (
+                    <li key={action}>• {action}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SkillGapReport;
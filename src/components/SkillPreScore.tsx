@@ -0,0 +1,164 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Zap, CheckCircle, XCircle, PlusCircle, Languages } from 'lucide-react';
+import {
+  ScoreAgreement,
+  SkillOverlap,
+  SkillPreScore as SkillPreScoreData,
+  reconcileHardSkillScore,
+} from '../../supabase/functions/_shared/skillMatching.ts';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../lib/i18n';
+
+interface SkillPreScoreProps {
+  preScore: SkillPreScoreData;
+  /** Балл AI за hard skills; пока AI не ответил - undefined */
+  aiHardSkillsScore?: number;
+}
+
+/**
+ * Ключи пояснений к расхождению локальной оценки и оценки AI
+ */
+const AGREEMENT_KEYS: Record<ScoreAgreement, MessageKey> = {
+  agree: 'skillPreScore.agreement.agree',
+  ai_higher: 'skillPreScore.agreement.ai_higher',
+  ai_lower: 'skillPreScore.agreement.ai_lower',
+};
+
+/**
+ * Цвет процента покрытия
+ */
+const getCoverageColor = (coverage: number): string => {
+  if (coverage >= 70) return 'text-green-400';
+  if (coverage >= 40) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+/**
+ * Список навыков в виде меток
+ */
+const SkillChips: React.FC<{ skills: string[]; className: string }> = ({ skills, className }) => (
+  <div className="flex flex-wrap gap-2">
+    {skills.map(skill => (
+      <span key={skill} className={`px-2 py-1 rounded-lg text-xs border ${className}`}>
+        {skill}
+      </span>
+    ))}
+  </div>
+);
+
+/**
+ * Блок покрытия одного списка навыков
+ */
+const OverlapSection: React.FC<{ title: string; overlap: SkillOverlap; showExtra: boolean }> = ({ title, overlap, showExtra }) => {
+  const { t } = useI18n();
+
+  if (overlap.coverage === null) {
+    return (
+      <div>
+        <h4 className="text-white font-medium mb-1">{title}</h4>
+        <p className="text-gray-400 text-sm">{t('skillPreScore.noRequirements')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-white font-medium">{title}</h4>
+        <span className={`font-bold ${getCoverageColor(overlap.coverage)}`}>
+          {overlap.coverage}% ({t('skillPreScore.matchedOf', {
+            matched: overlap.matched.length,
+            total: overlap.matched.length + overlap.missing.length
+          })})
+        </span>
+      </div>
+
+      {overlap.matched.length > 0 && (
+        <div>
+          <div className="flex items-center space-x-2 mb-2">
+            <CheckCircle className="w-4 h-4 text-green-400" />
+            <span className="text-gray-300 text-sm">{t('skillPreScore.matched')}</span>
+          </div>
+          <SkillChips
+            skills={overlap.matched.map(match =>
+              match.kind === 'exact' ? match.required : `${match.required} ≈ ${match.candidate}`
+            )}
+            className="bg-green-500/10 border-green-500/20 text-green-300"
+          />
+        </div>
+      )}
+
+      {overlap.missing.length > 0 && (
+        <div>
+          <div className="flex items-center space-x-2 mb-2">
+            <XCircle className="w-4 h-4 text-red-400" />
+            <span className="text-gray-300 text-sm">{t('skillPreScore.missing')}</span>
+          </div>
+          <SkillChips skills={overlap.missing} className="bg-red-500/10 border-red-500/20 text-red-300" />
+        </div>
+      )}
+
+      {showExtra && overlap.extra.length > 0 && (
+        <div>
+          <div className="flex items-center space-x-2 mb-2">
+            <PlusCircle className="w-4 h-4 text-blue-400" />
+            <span className="text-gray-300 text-sm">{t('skillPreScore.extra')}</span>
+          </div>
+          <SkillChips skills={overlap.extra} className="bg-blue-500/10 border-blue-500/20 text-blue-300" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * НОВЫЙ КОМПОНЕНТ: Мгновенная локальная оценка навыков
+ *
+ * Показывается сразу, пока AI скорринг еще выполняется.
+ * После ответа AI сверяет локальное покрытие hard skills с баллом AI.
+ */
+const SkillPreScore: React.FC<SkillPreScoreProps> = ({ preScore, aiHardSkillsScore }) => {
+  const { t } = useI18n();
+  const reconciliation = aiHardSkillsScore !== undefined
+    ? reconcileHardSkillScore(preScore, aiHardSkillsScore)
+    : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/5 border border-white/10 rounded-2xl p-6 space-y-5"
+    >
+      <div className="flex items-center space-x-2">
+        <Zap className="w-5 h-5 text-yellow-400" />
+        <h3 className="text-white font-semibold">{t('skillPreScore.title')}</h3>
+      </div>
+      <p className="text-gray-400 text-sm -mt-3">
+        {t('skillPreScore.description')}
+      </p>
+
+      <OverlapSection title={t('skillPreScore.hardSkills')} overlap={preScore.hardSkills} showExtra />
+
+      <div className="flex items-start space-x-2">
+        <Languages className="w-4 h-4 text-gray-400 mt-1 flex-shrink-0" />
+        <div className="flex-1">
+          <OverlapSection title={t('skillPreScore.languages')} overlap={preScore.languages} showExtra={false} />
+        </div>
+      </div>
+
+      {reconciliation && (
+        <div className="border-t border-white/10 pt-4 text-sm">
+          <p className="text-gray-300">
+            {t('skillPreScore.localScore')} <strong>{reconciliation.local}%</strong>, {t('skillPreScore.aiScore')} <strong>{reconciliation.ai}%</strong>
+          </p>
+          <p className="text-gray-400 mt-1">
+            {t(AGREEMENT_KEYS[reconciliation.agreement])}
+          </p>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default SkillPreScore;
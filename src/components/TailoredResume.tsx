@@ -0,0 +1,363 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileCheck, Pin, PinOff, Eye, EyeOff, Download, Loader2, Wand2, AlertTriangle, RefreshCw } from 'lucide-react';
+import { ResumeData, getFullName } from '../types/resumeData';
+import { JobData, ScoringResults } from '../types/generation';
+import {
+  RESUME_SECTIONS,
+  RESUME_TEMPLATES,
+  ResumeSectionId,
+  ResumeTemplateId,
+  TailoredResume as TailoredResumeData,
+  TailoringSettings,
+  getSectionTitle,
+  getVisibleSections
+} from '../types/tailoredResume';
+import { getDefaultTailoringSettings, splitByKeywords, tailorResume } from '../lib/resumeTailoring';
+import { exportTailoredResumePdf } from '../lib/resumePdfExport';
+import { useI18n } from '../hooks/useI18n';
+
+interface TailoredResumeProps {
+  onTailoringComplete: (tailoredResume: TailoredResumeData | null) => void;
+  resumeData: ResumeData | null;
+  jobData: Partial<JobData> | null;
+  scoringResults: ScoringResults | null;
+  savedTailoredResume: TailoredResumeData | null;
+}
+
+/**
+ * Текст с подсветкой ключевых слов вакансии
+ */
+const HighlightedText: React.FC<{ text: string; keywords: string[] }> = ({ text, keywords }) => (
+  <>
+    {splitByKeywords(text, keywords).map((segment, index) =>
+      segment.matched ? (
+        <mark key={index} className="bg-yellow-400/30 text-yellow-100 rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+/**
+ * НОВЫЙ ЭТАП: Адаптированное резюме
+ *
+ * Переупорядочивает пункты опыта и навыки по релевантности вакансии,
+ * подсвечивает совпавшие ключевые слова, позволяет закрепить или скрыть
+ * секции и скачать результат в PDF в одном из шаблонов.
+ * Этап необязательный - его можно пропустить кнопкой "Далее".
+ */
+const TailoredResume: React.FC<TailoredResumeProps> = ({
+  onTailoringComplete,
+  resumeData,
+  jobData,
+  scoringResults,
+  savedTailoredResume
+}) => {
+  const { t, locale } = useI18n();
+  const [tailored, setTailored] = useState<TailoredResumeData | null>(savedTailoredResume);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Пересборка резюме с новыми настройками и передача результата в Dashboard
+   */
+  const applySettings = (settings: TailoringSettings) => {
+    if (!resumeData) return;
+
+    const result = tailorResume(resumeData, jobData, settings);
+    console.log('🧩 Резюме адаптировано:', {
+      matched_keywords: result.matched_keywords.length,
+      template: settings.template,
+      visible_sections: getVisibleSections(settings)
+    });
+
+    setTailored(result);
+    onTailoringComplete(result);
+  };
+
+  const startTailoring = () => {
+    applySettings(getDefaultTailoringSettings(scoringResults));
+  };
+
+  const resetTailoring = () => {
+    setTailored(null);
+    setError(null);
+    onTailoringComplete(null);
+  };
+
+  const toggleSection = (sectionId: ResumeSectionId, field: 'pinned_sections' | 'hidden_sections') => {
+    if (!tailored) return;
+
+    const current = tailored.settings[field];
+    const next = current.includes(sectionId)
+      ? current.filter(id => id !== sectionId)
+      : [...current, sectionId];
+
+    applySettings({ ...tailored.settings, [field]: next });
+  };
+
+  const selectTemplate = (template: ResumeTemplateId) => {
+    if (!tailored) return;
+    applySettings({ ...tailored.settings, template });
+  };
+
+  const handleExportPdf = async () => {
+    if (!tailored) return;
+
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      await exportTailoredResumePdf(tailored, jobData);
+    } catch (err: any) {
+      console.error('❌ Ошибка экспорта резюме в PDF:', err);
+      setError(t('tailoredResume.pdfFailed', { message: err.message }));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /**
+   * Превью секции адаптированного резюме
+   */
+  const renderSectionPreview = (sectionId: ResumeSectionId, data: TailoredResumeData) => {
+    const resume = data.resume_data;
+    const keywords = data.matched_keywords;
+
+    switch (sectionId) {
+      case 'summary':
+        return resume.summary ? (
+          <p className="text-gray-300 text-sm leading-relaxed">
+            <HighlightedText text={resume.summary} keywords={keywords} />
+          </p>
+        ) : null;
+      case 'experience':
+        return (
+          <div className="space-y-4">
+            {resume.experience.map((job, index) => (
+              <div key={index}>
+                <p className="text-white font-medium">{job.position}, {job.company}</p>
+                {(job.start_date || job.end_date) && (
+                  <p className="text-gray-500 text-xs mb-1">
+                    {[job.start_date, job.end_date].filter(Boolean).join(' — ')}
+                  </p>
+                )}
+                <ul className="space-y-1">
+                  {job.bullet_list.map((bullet, bulletIndex) => (
+                    <li key={bulletIndex} className="text-gray-300 text-sm">
+                      • <HighlightedText text={bullet} keywords={keywords} />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        );
+      case 'skills':
+        return (
+          <div className="flex flex-wrap gap-2">
+            {[...resume.skills.hard_skills, ...resume.skills.soft_skills].map((skill, index) => (
+              <span key={index} className="px-2 py-1 bg-white/10 rounded-lg text-gray-300 text-sm">
+                <HighlightedText text={skill} keywords={keywords} />
+              </span>
+            ))}
+          </div>
+        );
+      case 'education':
+        return (
+          <div className="space-y-2">
+            {resume.education.map((edu, index) => (
+              <div key={index}>
+                <p className="text-white text-sm font-medium">{edu.institution}</p>
+                <p className="text-gray-400 text-xs">
+                  {[edu.degree, edu.field_of_study, edu.graduation_year].filter(Boolean).join(', ')}
+                </p>
+              </div>
+            ))}
+          </div>
+        );
+      case 'languages':
+        return <p className="text-gray-300 text-sm">{resume.skills.languages.join(', ')}</p>;
+      default:
+        return null;
+    }
+  };
+
+  // Начальное состояние: предлагаем адаптировать резюме
+  if (!tailored) {
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-white mb-2">{t('tailoredResume.title')}</h2>
+          <p className="text-gray-300">
+            {t('tailoredResume.subtitle')}
+          </p>
+        </div>
+
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={startTailoring}
+          disabled={!resumeData || !jobData}
+          className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white font-semibold py-4 px-6 rounded-2xl shadow-xl disabled:opacity-50 disabled:cursor-not-allowed transition-all hover:from-blue-500 hover:to-purple-500 flex items-center justify-center space-x-2"
+        >
+          <Wand2 className="w-5 h-5" />
+          <span>{t('tailoredResume.start')}</span>
+        </motion.button>
+
+        <div className="bg-gray-500/10 border border-gray-500/20 rounded-2xl p-4">
+          <h3 className="text-white font-medium mb-2">🧩 {t('tailoredResume.changesTitle')}</h3>
+          <ul className="text-gray-300 text-sm space-y-1">
+            <li>• {t('tailoredResume.changeExperience')}</li>
+            <li>• {t('tailoredResume.changeSkills')}</li>
+            <li>• {t('tailoredResume.changeKeywords')}</li>
+            <li>• {t('tailoredResume.changeOptional')}</li>
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
+  const visibleSections = getVisibleSections(tailored.settings);
+
+  return (
+    <div className="space-y-6">
+      {/* Заголовок */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-1">{t('tailoredResume.title')}</h2>
+          <p className="text-gray-300 text-sm">
+            {t('tailoredResume.matches', { count: tailored.matched_keywords.length })}
+          </p>
+        </div>
+        <button
+          onClick={resetTailoring}
+          className="flex items-center space-x-2 px-4 py-2 bg-white/10 hover:bg-white/20 rounded-xl transition-colors text-gray-300 text-sm"
+        >
+          <RefreshCw className="w-4 h-4" />
+          <span>{t('tailoredResume.reset')}</span>
+        </button>
+      </div>
+
+      {/* Совпавшие ключевые слова */}
+      {tailored.matched_keywords.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tailored.matched_keywords.map(keyword => (
+            <span key={keyword} className="px-3 py-1 bg-yellow-400/20 border border-yellow-400/30 text-yellow-200 rounded-full text-xs">
+              {keyword}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Выбор шаблона */}
+      <div>
+        <h3 className="text-white font-medium mb-3">{t('tailoredResume.template')}</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {RESUME_TEMPLATES.map(template => (
+            <button
+              key={template.id}
+              onClick={() => selectTemplate(template.id)}
+              className={`text-left p-4 rounded-2xl border transition-all ${
+                tailored.settings.template === template.id
+                  ? 'bg-blue-600/20 border-blue-500/50'
+                  : 'bg-white/5 border-white/10 hover:bg-white/10'
+              }`}
+            >
+              <p className="text-white font-medium text-sm">{t(template.titleKey)}</p>
+              <p className="text-gray-400 text-xs mt-1">{t(template.descriptionKey)}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Управление секциями */}
+      <div>
+        <h3 className="text-white font-medium mb-3">{t('tailoredResume.sections')}</h3>
+        <div className="space-y-2">
+          {RESUME_SECTIONS.map(section => {
+            const isPinned = tailored.settings.pinned_sections.includes(section.id);
+            const isHidden = tailored.settings.hidden_sections.includes(section.id);
+
+            return (
+              <div
+                key={section.id}
+                className={`flex items-center justify-between p-3 rounded-xl border border-white/10 ${
+                  isHidden ? 'bg-white/0 opacity-50' : 'bg-white/5'
+                }`}
+              >
+                <span className="text-gray-200 text-sm">{t(section.titleKey)}</span>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => toggleSection(section.id, 'pinned_sections')}
+                    title={isPinned ? t('tailoredResume.unpin') : t('tailoredResume.pin')}
+                    className={`p-2 rounded-lg transition-colors ${
+                      isPinned ? 'bg-purple-600/30 text-purple-300' : 'bg-white/5 text-gray-400 hover:text-white'
+                    }`}
+                  >
+                    {isPinned ? <Pin className="w-4 h-4" /> : <PinOff className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => toggleSection(section.id, 'hidden_sections')}
+                    title={isHidden ? t('tailoredResume.show') : t('tailoredResume.hide')}
+                    className="p-2 rounded-lg bg-white/5 text-gray-400 hover:text-white transition-colors"
+                  >
+                    {isHidden ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Превью */}
+      <div className="bg-white/5 border border-white/10 rounded-2xl p-6 space-y-5">
+        <div>
+          <p className="text-white text-xl font-bold">{getFullName(tailored.resume_data)}</p>
+          {tailored.resume_data.desired_position && (
+            <p className="text-gray-400 text-sm">{tailored.resume_data.desired_position}</p>
+          )}
+        </div>
+        {visibleSections.map(sectionId => (
+          <div key={sectionId}>
+            <h4 className="text-blue-300 text-sm font-semibold uppercase tracking-wide mb-2 flex items-center space-x-2">
+              {tailored.settings.pinned_sections.includes(sectionId) && <Pin className="w-3 h-3" />}
+              <span>{getSectionTitle(sectionId, locale)}</span>
+            </h4>
+            {renderSectionPreview(sectionId, tailored)}
+          </div>
+        ))}
+      </div>
+
+      {/* Ошибки экспорта */}
+      {error && (
+        <div className="bg-red-500/20 border border-red-500/30 rounded-2xl p-4 flex items-start space-x-3">
+          <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+          <p className="text-red-300 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Скачивание */}
+      <button
+        onClick={handleExportPdf}
+        disabled={isExporting}
+        className="w-full flex items-center justify-center space-x-2 py-3 px-4 bg-purple-600/20 hover:bg-purple-600/30 border border-purple-500/30 text-purple-300 rounded-2xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        <span>{t('tailoredResume.downloadPdf')}</span>
+      </button>
+
+      <p className="text-gray-500 text-xs flex items-center space-x-1">
+        <FileCheck className="w-3 h-3" />
+        <span>{t('tailoredResume.savedWithGeneration')}</span>
+      </p>
+    </div>
+  );
+};
+
+export default TailoredResume;
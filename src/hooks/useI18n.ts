@@ -0,0 +1,42 @@
+import { createContext, useContext } from 'react';
+import {
+  DEFAULT_LOCALE,
+  formatDate,
+  formatDateTime,
+  formatNumber,
+  Locale,
+  MessageKey,
+  MessageParams,
+  translate
+} from '../lib/i18n';
+
+/**
+ * Контекст локализации: текущий язык, переключение и форматирование
+ */
+export interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+/**
+ * Значение по умолчанию - русский язык без переключения (компоненты вне I18nProvider)
+ */
+export function createI18nValue(locale: Locale, setLocale: (locale: Locale) => void = () => {}): I18nContextValue {
+  return {
+    locale,
+    setLocale,
+    t: (key, params) => translate(key, params, locale),
+    formatDate: (value, options) => formatDate(value, options, locale),
+    formatDateTime: (value, options) => formatDateTime(value, options, locale),
+    formatNumber: (value, options) => formatNumber(value, options, locale),
+  };
+}
+
+export const I18nContext = createContext<I18nContextValue>(createI18nValue(DEFAULT_LOCALE));
+
+// Хук для перевода строк интерфейса
+export const useI18n = () => useContext(I18nContext);
@@ -7,6 +7,7 @@ interface TelegramUser {
   lastName?: string;
   username?: string;
   photoUrl?: string;
+  languageCode?: string;
 }
 
 // Хук для работы с Telegram WebApp API
@@ -28,7 +29,8 @@ export const useTelegram = () => {
           firstName: telegramUser.first_name,
           lastName: telegramUser.last_name,
           username: telegramUser.username,
-          photoUrl: telegramUser.photo_url
+          photoUrl: telegramUser.photo_url,
+          languageCode: telegramUser.language_code
         });
       } else {
         // Для тестирования вне Telegram
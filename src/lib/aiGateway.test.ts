@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiGatewayError, analyzeVacancy, generateLetter } from './aiGateway';
+import { ResumeData } from '../types/resumeData';
+import { JobData } from '../types/generation';
+
+/**
+ * Тесты транспорта AI-шлюза: отмена, таймауты и повторы запросов
+ *
+ * fetch подменяется заглушкой, сессия Supabase отсутствует
+ */
+
+vi.mock('./supabase', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: null } }) } },
+}));
+
+const LETTER_REQUEST = {
+  resumeData: {} as ResumeData,
+  jobData: {} as JobData,
+  userId: 'user-1',
+  customization: { letter_style: 'neutral' as const, highlight_experience: [], highlight_education: [], highlight_skills: [] },
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Ошибка, которой завершился запрос
+ */
+async function catchGatewayError(promise: Promise<unknown>): Promise<AiGatewayError> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(AiGatewayError);
+    return error as AiGatewayError;
+  }
+  throw new Error('Запрос завершился без ошибки');
+}
+
+/**
+ * fetch, который отвечает только после отмены запроса
+ */
+const hangingFetch = (_input: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  });
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('AI-шлюз', () => {
+  it('уже отмененный запрос не отправляется', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await catchGatewayError(generateLetter(LETTER_REQUEST, { signal: controller.signal }));
+
+    expect(error.code).toBe('aborted');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('генерация письма не повторяется после 5xx', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: 'upstream.error' }, 502));
+
+    const error = await catchGatewayError(generateLetter(LETTER_REQUEST));
+
+    expect(error.code).toBe('http');
+    expect(error.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('генерация письма не повторяется после таймаута', async () => {
+    fetchMock.mockImplementation(hangingFetch);
+
+    const error = await catchGatewayError(generateLetter(LETTER_REQUEST, { timeoutMs: 10 }));
+
+    expect(error.code).toBe('timeout');
+    expect(error.retryable).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('генерация письма повторяется после 429', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: 'rate_limited' }, 429))
+      .mockResolvedValueOnce(jsonResponse({ letter_text: 'Здравствуйте!' }));
+
+    await expect(generateLetter(LETTER_REQUEST)).resolves.toEqual({ letter_text: 'Здравствуйте!' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('анализ вакансии повторяется после таймаута', async () => {
+    fetchMock.mockImplementation(hangingFetch);
+
+    const error = await catchGatewayError(
+      analyzeVacancy({ vacancyUrl: 'https://hh.ru/vacancy/1', userId: 'user-1' }, { timeoutMs: 10, retries: 1 })
+    );
+
+    expect(error.code).toBe('timeout');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,729 @@
+import { supabase } from './supabase';
+import { ResumeData } from '../types/resumeData';
+import { JobData, ScoringResults, VacancySalary, VacancySource } from '../types/generation';
+import { InterviewPrep, ScoringBreakdownKey, validateInterviewPrep } from '../types/interviewPrep';
+import { LetterProfileSettings } from '../types/letterProfile';
+import { LetterLanguage } from '../../supabase/functions/_shared/languageDetection.ts';
+import { getCurrentLocale, translate } from './i18n';
+
+/**
+ * Клиент AI-шлюза для этапов пайплайна
+ *
+ * Единая точка обращения к AI-бэкенду вместо отдельных fetch в компонентах:
+ * - parseResume: парсинг файла резюме в ResumeData
+ * - analyzeVacancy: извлечение JobData по ссылке, тексту или файлу вакансии
+ * - scoreMatch: скорринг соответствия резюме и вакансии
+ * - generateLetter: генерация сопроводительного письма
+ * - interviewQuestions: вопросы к собеседованию по итогам скорринга
+ * - rewriteFragment: переписывание выделенного фрагмента письма
+ *
+ * По умолчанию запросы идут через серверные прокси Supabase Edge Functions
+ * (parse-resume, analyze-vacancy, score-match, generate-letter, interview-questions,
+ * rewrite-fragment), которые
+ * проверяют JWT пользователя и хранят секреты upstream на сервере.
+ * Переменная окружения VITE_AI_GATEWAY_URL позволяет направить staging
+ * на локальный мок-сервер с теми же путями.
+ * Все этапы используют одинаковые таймауты, повторы с экспоненциальной
+ * задержкой, отмену через AbortController и нормализованные ошибки.
+ */
+
+// ============================================================================
+// КОНФИГУРАЦИЯ
+// ============================================================================
+
+const DEFAULT_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`;
+
+/**
+ * Базовый URL шлюза без завершающего слэша
+ */
+export const AI_GATEWAY_BASE_URL: string = (
+  import.meta.env.VITE_AI_GATEWAY_URL || DEFAULT_BASE_URL
+).replace(/\/+$/, '');
+
+/**
+ * Этапы AI пайплайна
+ */
+export type AiGatewayStage =
+  | 'parseResume'
+  | 'analyzeVacancy'
+  | 'scoreMatch'
+  | 'generateLetter'
+  | 'interviewQuestions'
+  | 'rewriteFragment';
+
+/**
+ * Пути эндпоинтов относительно базового URL (имена Edge Functions)
+ */
+const STAGE_PATHS: Record<AiGatewayStage, string> = {
+  parseResume: '/parse-resume',
+  analyzeVacancy: '/analyze-vacancy',
+  scoreMatch: '/score-match',
+  generateLetter: '/generate-letter',
+  interviewQuestions: '/interview-questions',
+  rewriteFragment: '/rewrite-fragment',
+};
+
+/**
+ * Таймауты по умолчанию для каждого этапа (мс)
+ * Парсинг больших файлов резюме занимает заметно больше времени,
+ * генерация письма может включать перевод резюме на язык письма
+ */
+const STAGE_TIMEOUTS: Record<AiGatewayStage, number> = {
+  parseResume: 120000,
+  analyzeVacancy: 60000,
+  scoreMatch: 90000,
+  generateLetter: 180000,
+  interviewQuestions: 90000,
+  rewriteFragment: 60000,
+};
+
+/**
+ * Ограничения для текста и файла вакансии (совпадают с analyze-vacancy)
+ */
+export const VACANCY_TEXT_MIN_LENGTH = 50;
+export const VACANCY_TEXT_MAX_LENGTH = 50000;
+export const VACANCY_FILE_MAX_SIZE = 10 * 1024 * 1024; // 10MB в байтах
+export const VACANCY_FILE_EXTENSIONS = ['.pdf', '.docx', '.txt'];
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY = 1000;
+
+/**
+ * Этапы генерации: после таймаута или 5xx upstream может продолжать работу,
+ * и повтор запустил бы вторую платную генерацию (с повторным переводом резюме).
+ * Для них повторяются только сетевые ошибки и 429
+ */
+const GENERATION_STAGES: ReadonlySet<AiGatewayStage> = new Set<AiGatewayStage>([
+  'generateLetter',
+  'interviewQuestions',
+  'rewriteFragment',
+]);
+
+/**
+ * Полный URL эндпоинта этапа
+ */
+export function getAiGatewayStageUrl(stage: AiGatewayStage): string {
+  return `${AI_GATEWAY_BASE_URL}${STAGE_PATHS[stage]}`;
+}
+
+// ============================================================================
+// ОШИБКИ
+// ============================================================================
+
+/**
+ * Категория ошибки шлюза
+ */
+export type AiGatewayErrorCode = 'timeout' | 'aborted' | 'network' | 'http' | 'invalid_response';
+
+/**
+ * Нормализованная ошибка шлюза
+ * message всегда содержит понятный пользователю текст
+ */
+export class AiGatewayError extends Error {
+  readonly stage: AiGatewayStage;
+  readonly code: AiGatewayErrorCode;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(
+    stage: AiGatewayStage,
+    code: AiGatewayErrorCode,
+    message: string,
+    options: { status?: number; retryable?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'AiGatewayError';
+    this.stage = stage;
+    this.code = code;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+/**
+ * Проверка, что ошибка является ошибкой шлюза
+ */
+export function isAiGatewayError(error: unknown): error is AiGatewayError {
+  return error instanceof AiGatewayError;
+}
+
+// ============================================================================
+// КОНТРАКТЫ ЗАПРОСОВ И ОТВЕТОВ
+// ============================================================================
+
+/**
+ * Общие параметры вызова любого этапа
+ */
+export interface AiGatewayRequestOptions {
+  /** Внешний сигнал отмены (например, при размонтировании компонента) */
+  signal?: AbortSignal;
+  /** Таймаут одной попытки в миллисекундах */
+  timeoutMs?: number;
+  /** Количество повторов после первой неудачной попытки */
+  retries?: number;
+}
+
+export interface ParseResumeRequest {
+  file: File;
+  userId: string;
+}
+
+/**
+ * Источник вакансии: указывается ровно одно из полей vacancyUrl, vacancyText, vacancyFile
+ */
+export interface AnalyzeVacancyRequest {
+  /** Ссылка на вакансию */
+  vacancyUrl?: string;
+  /** Текст вакансии, вставленный пользователем */
+  vacancyText?: string;
+  /** Файл вакансии (PDF, DOCX или TXT) */
+  vacancyFile?: File;
+  userId: string;
+}
+
+export interface ScoreMatchRequest {
+  resumeData: ResumeData;
+  jobData: JobData;
+  /** Язык выводов и рекомендаций скорринга (по умолчанию русский) */
+  language?: LetterLanguage;
+  userId: string;
+}
+
+/**
+ * Стиль сопроводительного письма
+ */
+export type LetterStyle = 'neutral' | 'creative' | 'startup' | 'formal';
+
+/**
+ * Длина сопроводительного письма
+ */
+export type LetterLength = 'short' | 'medium' | 'long';
+
+/**
+ * Настройки генерации письма
+ */
+export interface LetterCustomization {
+  letter_style: LetterStyle;
+  /** Желаемая длина; без нее upstream пишет письмо средней длины */
+  letter_length?: LetterLength;
+  /** Язык письма; резюме на другом языке переводится на сервере */
+  letter_language?: LetterLanguage;
+  /** Профиль голоса пользователя вместо пресета; letter_style при этом neutral */
+  letter_profile?: LetterProfileSettings;
+  highlight_experience: string[];
+  highlight_education: string[];
+  highlight_skills: string[];
+}
+
+export interface GenerateLetterRequest {
+  resumeData: ResumeData;
+  jobData: JobData;
+  userId: string;
+  customization: LetterCustomization;
+}
+
+/**
+ * Действие над выделенным фрагментом письма
+ */
+export type FragmentRewriteAction = 'shorten' | 'formalize' | 'add_metric' | 'emphasize_skill' | 'translate';
+
+/**
+ * Язык перевода фрагмента
+ */
+export type FragmentTargetLanguage = LetterLanguage;
+
+/**
+ * Переписывание фрагмента: в запрос уходит только фрагмент и текст вокруг него
+ */
+export interface RewriteFragmentRequest {
+  action: FragmentRewriteAction;
+  fragment: string;
+  contextBefore: string;
+  contextAfter: string;
+  /** Навык для emphasize_skill */
+  skill?: string;
+  /** Язык для translate */
+  targetLanguage?: FragmentTargetLanguage;
+  userId: string;
+}
+
+export interface InterviewQuestionsRequest {
+  resumeData: ResumeData;
+  jobData: JobData;
+  scoringResults: ScoringResults;
+  /** Слабые критерии скорринга, на которых нужно сфокусировать вопросы */
+  weakAreas: ScoringBreakdownKey[];
+  userId: string;
+}
+
+/**
+ * Данные вакансии после нормализации ответа API
+ * title дублирует job_title для совместимости с сохраненными анализами
+ */
+export type AnalyzedVacancy = JobData & { title: string };
+
+export interface GenerateLetterResponse {
+  letter_text: string;
+}
+
+export interface RewriteFragmentResponse {
+  fragment_text: string;
+}
+
+// ============================================================================
+// ТРАНСПОРТ
+// ============================================================================
+
+/**
+ * Ожидание с поддержкой отмены
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Извлечение текста ошибки из ответа сервера
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const fallback = `HTTP Error: ${response.status} ${response.statusText}`;
+  try {
+    const text = await response.text();
+    if (!text) return fallback;
+    try {
+      const data = JSON.parse(text);
+      return data?.error || data?.message || fallback;
+    } catch {
+      return text;
+    }
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Заголовки запроса: авторизация текущей сессии и язык интерфейса (Accept-Language) для текстов ошибок прокси
+ * Прокси определяют пользователя по JWT, user_id из тела запроса игнорируется
+ */
+async function getRequestHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const headers: Record<string, string> = { 'Accept-Language': getCurrentLocale() };
+  if (session) headers['Authorization'] = `Bearer ${session.access_token}`;
+  return headers;
+}
+
+/**
+ * Одна попытка запроса с таймаутом
+ */
+async function attemptRequest(
+  stage: AiGatewayStage,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<unknown> {
+  // Уже отмененный signal не вызывает событие abort - запрос не отправляем
+  if (signal?.aborted) {
+    throw new AiGatewayError(stage, 'aborted', translate('gateway.aborted'));
+  }
+
+  const isGeneration = GENERATION_STAGES.has(stage);
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      const headers = { ...(init.headers as Record<string, string>), ...(await getRequestHeaders()) };
+      response = await fetch(getAiGatewayStageUrl(stage), { ...init, headers, signal: controller.signal });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new AiGatewayError(stage, 'aborted', translate('gateway.aborted'));
+      }
+      if (timedOut) {
+        throw new AiGatewayError(
+          stage,
+          'timeout',
+          translate('gateway.timeout', { seconds: Math.round(timeoutMs / 1000) }),
+          { retryable: !isGeneration }
+        );
+      }
+      console.error(`❌ [${stage}] Сетевая ошибка:`, error);
+      throw new AiGatewayError(stage, 'network', translate('gateway.network'), { retryable: true });
+    }
+
+    if (!response.ok) {
+      const message = await readErrorMessage(response);
+      throw new AiGatewayError(stage, 'http', message, {
+        status: response.status,
+        retryable: response.status === 429 || (response.status >= 500 && !isGeneration),
+      });
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new AiGatewayError(stage, 'invalid_response', translate('gateway.invalidJson'));
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Запрос к этапу шлюза с повторами и экспоненциальной задержкой
+ * Повторяются только таймауты, сетевые ошибки, 429 и 5xx
+ * (для этапов генерации - только сетевые ошибки и 429, см. GENERATION_STAGES)
+ */
+async function requestStage(
+  stage: AiGatewayStage,
+  buildInit: () => RequestInit,
+  options: AiGatewayRequestOptions = {}
+): Promise<unknown> {
+  const timeoutMs = options.timeoutMs ?? STAGE_TIMEOUTS[stage];
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      console.log(`📤 [${stage}] Попытка ${attempt + 1}/${retries + 1}:`, getAiGatewayStageUrl(stage));
+      return await attemptRequest(stage, buildInit(), timeoutMs, options.signal);
+    } catch (error) {
+      if (!isAiGatewayError(error) || !error.retryable || attempt >= retries) {
+        throw error;
+      }
+      const backoff = DEFAULT_RETRY_DELAY * 2 ** attempt;
+      console.warn(`⚠️ [${stage}] ${error.message}. Повтор через ${backoff}мс`);
+      try {
+        await delay(backoff, options.signal);
+      } catch {
+        throw new AiGatewayError(stage, 'aborted', translate('gateway.aborted'));
+      }
+    }
+  }
+}
+
+function jsonInit(payload: unknown): RequestInit {
+  return {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// ============================================================================
+// НОРМАЛИЗАЦИЯ ОТВЕТОВ
+// ============================================================================
+
+/**
+ * Зарплатная вилка из ответа или undefined, если ее нет
+ */
+function toVacancySalary(value: unknown): VacancySalary | undefined {
+  if (!isObject(value) || typeof value.currency !== 'string') return undefined;
+
+  const toAmount = (amount: unknown) => (typeof amount === 'number' ? amount : null);
+  const salary: VacancySalary = {
+    from: toAmount(value.from),
+    to: toAmount(value.to),
+    currency: value.currency,
+  };
+  if (typeof value.gross === 'boolean') salary.gross = value.gross;
+
+  return salary.from === null && salary.to === null ? undefined : salary;
+}
+
+/**
+ * Нормализация данных вакансии
+ * API может вернуть данные как на верхнем уровне, так и внутри job_data
+ */
+export function normalizeVacancyResponse(rawData: unknown): AnalyzedVacancy {
+  const source = isObject(rawData) && isObject(rawData.job_data) ? rawData.job_data : rawData;
+  const data = isObject(source) ? source : {};
+  const skills = isObject(data.skills) ? data.skills : {};
+
+  const title = typeof data.job_title === 'string' ? data.job_title
+    : typeof data.title === 'string' ? data.title : '';
+
+  const hardSkills = Array.isArray(skills.hard_skills)
+    ? toStringArray(skills.hard_skills)
+    : toStringArray(data.required_skills);
+
+  return {
+    job_title: title,
+    title,
+    company_name: typeof data.company_name === 'string' ? data.company_name : '',
+    location: isObject(data.location) ? (data.location as JobData['location']) : {},
+    employment_type: typeof data.employment_type === 'string' ? data.employment_type : '',
+    experience_level: typeof data.experience_level === 'string' ? data.experience_level : '',
+    industry: typeof data.industry === 'string' ? data.industry : '',
+    description: typeof data.description === 'string' ? data.description : '',
+    skills: {
+      hard_skills: hardSkills,
+      soft_skills: toStringArray(skills.soft_skills),
+      languages: toStringArray(skills.languages),
+    },
+    required_skills: hardSkills,
+    salary: toVacancySalary(data.salary),
+  };
+}
+
+/**
+ * Проверка структуры ответа скорринга
+ */
+export function normalizeScoringResponse(rawData: unknown): ScoringResults {
+  const invalid = (message: string) => new AiGatewayError('scoreMatch', 'invalid_response', message);
+
+  if (!isObject(rawData)) {
+    throw invalid(translate('gateway.notObject'));
+  }
+
+  const result = rawData.scoring_result;
+  if (!isObject(result)) {
+    throw invalid(translate('gateway.missingField', { field: 'scoring_result' }));
+  }
+
+  for (const field of ['total_score', 'breakdown', 'recommendation', 'recruiter_recommendation', 'candidate_recommendation']) {
+    if (result[field] === undefined) {
+      throw invalid(translate('gateway.missingField', { field: `scoring_result.${field}` }));
+    }
+  }
+
+  const breakdown = result.breakdown;
+  if (
+    !isObject(breakdown) ||
+    !isObject(breakdown.hard_skills) || !isObject(breakdown.soft_skills) ||
+    !isObject(breakdown.experience_match) || !isObject(breakdown.position_match)
+  ) {
+    throw invalid(translate('gateway.invalidBreakdown'));
+  }
+
+  return rawData as unknown as ScoringResults;
+}
+
+/**
+ * Извлечение текста письма
+ * Разные версии API возвращают текст под разными ключами
+ */
+export function normalizeLetterResponse(rawData: unknown): GenerateLetterResponse {
+  const data = isObject(rawData) ? rawData : {};
+  const letter = [data.letter_text, data.cover_letter, data.letter]
+    .find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+
+  if (!letter) {
+    throw new AiGatewayError('generateLetter', 'invalid_response', translate('gateway.noLetterText'));
+  }
+
+  return { letter_text: letter };
+}
+
+/**
+ * Извлечение текста переписанного фрагмента
+ */
+export function normalizeFragmentResponse(rawData: unknown): RewriteFragmentResponse {
+  const data = isObject(rawData) ? rawData : {};
+  const fragment = [data.fragment_text, data.text]
+    .find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+
+  if (!fragment) {
+    throw new AiGatewayError('rewriteFragment', 'invalid_response', translate('gateway.noFragmentText'));
+  }
+
+  return { fragment_text: fragment };
+}
+
+/**
+ * Проверка подготовки к собеседованию по схеме
+ */
+export function normalizeInterviewPrepResponse(rawData: unknown): InterviewPrep {
+  const validation = validateInterviewPrep(rawData);
+  if (!validation.isValid) {
+    console.error('❌ Ответ interview-questions не соответствует схеме:', validation.errors);
+    throw new AiGatewayError('interviewQuestions', 'invalid_response', translate('gateway.invalidInterviewPrep'));
+  }
+
+  return rawData as InterviewPrep;
+}
+
+// ============================================================================
+// ПУБЛИЧНЫЙ API
+// ============================================================================
+
+/**
+ * Парсинг файла резюме
+ * Данные возвращаются как есть: компонент загрузки сам извлекает поля для отображения
+ */
+export async function parseResume(
+  request: ParseResumeRequest,
+  options?: AiGatewayRequestOptions
+): Promise<ResumeData> {
+  const filePath = `resume_${request.userId}_${Date.now()}_${request.file.name}`;
+
+  const data = await requestStage('parseResume', () => {
+    const formData = new FormData();
+    formData.append('file_itself', request.file);
+    formData.append('user_id', request.userId);
+    formData.append('File_path', filePath);
+    // Content-Type не устанавливаем - браузер сам установит для FormData
+    return { method: 'POST', headers: { 'Accept': 'application/json' }, body: formData };
+  }, options);
+
+  if (!isObject(data)) {
+    throw new AiGatewayError('parseResume', 'invalid_response', translate('gateway.invalidResume'));
+  }
+
+  return data as unknown as ResumeData;
+}
+
+/**
+ * Анализ вакансии по ссылке, тексту или файлу
+ *
+ * TXT файлы читаются в браузере и отправляются как текст,
+ * PDF и DOCX - как multipart/form-data с полем vacancy_file.
+ * В результат добавляется источник данных (source).
+ */
+export async function analyzeVacancy(
+  request: AnalyzeVacancyRequest,
+  options?: AiGatewayRequestOptions
+): Promise<AnalyzedVacancy> {
+  const { vacancyUrl, vacancyFile, userId } = request;
+  let vacancyText = request.vacancyText;
+  let buildInit: () => RequestInit;
+  let source: VacancySource;
+
+  if (vacancyFile && vacancyFile.name.toLowerCase().endsWith('.txt')) {
+    vacancyText = await vacancyFile.text();
+  }
+
+  if (vacancyUrl) {
+    source = { type: 'url', url: vacancyUrl.trim() };
+    buildInit = () => jsonInit({ vacancy_url: vacancyUrl.trim(), user_id: userId });
+  } else if (vacancyText !== undefined) {
+    source = vacancyFile ? { type: 'file', file_name: vacancyFile.name } : { type: 'text' };
+    const text = vacancyText.trim();
+    buildInit = () => jsonInit({ vacancy_text: text, user_id: userId });
+  } else if (vacancyFile) {
+    source = { type: 'file', file_name: vacancyFile.name };
+    buildInit = () => {
+      const formData = new FormData();
+      formData.append('vacancy_file', vacancyFile);
+      formData.append('user_id', userId);
+      // Content-Type не устанавливаем - браузер сам установит для FormData
+      return { method: 'POST', headers: { 'Accept': 'application/json' }, body: formData };
+    };
+  } else {
+    throw new AiGatewayError('analyzeVacancy', 'invalid_response', translate('gateway.vacancySourceRequired'));
+  }
+
+  const data = await requestStage('analyzeVacancy', buildInit, options);
+
+  return { ...normalizeVacancyResponse(data), source };
+}
+
+/**
+ * Скорринг соответствия резюме и вакансии
+ */
+export async function scoreMatch(
+  request: ScoreMatchRequest,
+  options?: AiGatewayRequestOptions
+): Promise<ScoringResults> {
+  const data = await requestStage('scoreMatch', () => jsonInit({
+    resume_data: request.resumeData,
+    job_data: request.jobData,
+    language: request.language,
+    user_id: request.userId,
+  }), options);
+
+  return normalizeScoringResponse(data);
+}
+
+/**
+ * Генерация сопроводительного письма
+ */
+export async function generateLetter(
+  request: GenerateLetterRequest,
+  options?: AiGatewayRequestOptions
+): Promise<GenerateLetterResponse> {
+  const data = await requestStage('generateLetter', () => jsonInit({
+    resume_data: request.resumeData,
+    job_data: request.jobData,
+    user_id: request.userId,
+    customization: request.customization,
+  }), options);
+
+  return normalizeLetterResponse(data);
+}
+
+/**
+ * Генерация вопросов к собеседованию с планом ответа
+ *
+ * В запрос уходят только баллы и краткие итоги breakdown - подробные
+ * описания скорринга для вопросов не нужны
+ */
+export async function generateInterviewQuestions(
+  request: InterviewQuestionsRequest,
+  options?: AiGatewayRequestOptions
+): Promise<InterviewPrep> {
+  const breakdown = request.scoringResults.scoring_result.breakdown;
+  const scoringBreakdown = Object.fromEntries(
+    Object.entries(breakdown).map(([key, item]) => [key, { score: item.score, summary: item.summary }])
+  );
+
+  const data = await requestStage('interviewQuestions', () => jsonInit({
+    resume_data: request.resumeData,
+    job_data: request.jobData,
+    scoring_breakdown: scoringBreakdown,
+    weak_areas: request.weakAreas,
+    user_id: request.userId,
+  }), options);
+
+  return normalizeInterviewPrepResponse(data);
+}
+
+/**
+ * Переписывание выделенного фрагмента письма
+ */
+export async function rewriteFragment(
+  request: RewriteFragmentRequest,
+  options?: AiGatewayRequestOptions
+): Promise<RewriteFragmentResponse> {
+  const data = await requestStage('rewriteFragment', () => jsonInit({
+    action: request.action,
+    fragment: request.fragment,
+    context_before: request.contextBefore,
+    context_after: request.contextAfter,
+    skill: request.skill,
+    target_language: request.targetLanguage,
+    user_id: request.userId,
+  }), options);
+
+  return normalizeFragmentResponse(data);
+}
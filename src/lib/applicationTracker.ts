@@ -0,0 +1,193 @@
+import { supabase } from './supabase';
+import {
+  APPLICATION_STAGES,
+  ApplicationEvent,
+  ApplicationReminder,
+  ApplicationStage,
+  GenerationSummary
+} from '../types/generation';
+import { getCurrentLocale, Locale, translate } from './i18n';
+
+/**
+ * Трекер откликов: этапы найма для сохраненных генераций
+ *
+ * - Каждый переход хранится событием в таблице application_events (дата + заметка)
+ * - Текущий этап generations.application_stage пересчитывает триггер в БД
+ *   по последнему событию, поэтому после изменений этап перечитывается из generations
+ * - Переход на этап 'applied' планирует напоминание о follow-up (application_reminders),
+ *   любой следующий переход его отменяет; отправляет напоминания Edge Function send-reminders
+ * - Чтение и запись - напрямую через клиент Supabase (RLS)
+ */
+
+/** Максимальная длина заметки (ограничение в таблице application_events) */
+export const MAX_APPLICATION_NOTE_LENGTH = 2000;
+
+/**
+ * Данные нового перехода на этап
+ */
+export interface CreateApplicationEventData {
+  stage: ApplicationStage;
+  note?: string | null;
+  /** Дата перехода (ISO 8601), по умолчанию - текущий момент */
+  occurred_at?: string;
+}
+
+/**
+ * Валидация данных перехода перед записью
+ */
+export function validateApplicationEventData(
+  data: CreateApplicationEventData,
+  locale: Locale = getCurrentLocale()
+): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!APPLICATION_STAGES.includes(data.stage)) {
+    errors.push(translate('data.unknownStage', { stage: data.stage }, locale));
+  }
+
+  if (data.note && data.note.length > MAX_APPLICATION_NOTE_LENGTH) {
+    errors.push(translate('data.noteTooLong', { max: MAX_APPLICATION_NOTE_LENGTH }, locale));
+  }
+
+  if (data.occurred_at && isNaN(new Date(data.occurred_at).getTime())) {
+    errors.push(translate('data.invalidStageDate', undefined, locale));
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * История переходов генерации, от ранних к поздним
+ */
+export async function listApplicationEvents(generationId: string): Promise<ApplicationEvent[]> {
+  const { data, error } = await supabase
+    .from('application_events')
+    .select('*')
+    .eq('generation_id', generationId)
+    .order('occurred_at', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Запись перехода генерации на этап
+ */
+export async function addApplicationEvent(
+  userId: string,
+  generationId: string,
+  data: CreateApplicationEventData
+): Promise<ApplicationEvent> {
+  const validation = validateApplicationEventData(data);
+  if (!validation.isValid) {
+    throw new Error(validation.errors.join('; '));
+  }
+
+  const { data: event, error } = await supabase
+    .from('application_events')
+    .insert({
+      user_id: userId,
+      generation_id: generationId,
+      stage: data.stage,
+      note: data.note?.trim() || null,
+      occurred_at: data.occurred_at ?? new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return event;
+}
+
+/**
+ * Удаление перехода (этап генерации откатится к предыдущему событию)
+ */
+export async function deleteApplicationEvent(eventId: string): Promise<void> {
+  const { error } = await supabase
+    .from('application_events')
+    .delete()
+    .eq('id', eventId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Текущий этап генерации после пересчета триггером
+ */
+export async function getApplicationStage(generationId: string): Promise<ApplicationStage> {
+  const { data, error } = await supabase
+    .from('generations')
+    .select('application_stage')
+    .eq('id', generationId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data.application_stage;
+}
+
+/**
+ * Напоминания генерации, новые сверху
+ */
+export async function listApplicationReminders(generationId: string): Promise<ApplicationReminder[]> {
+  const { data, error } = await supabase
+    .from('application_reminders')
+    .select('*')
+    .eq('generation_id', generationId)
+    .order('due_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Отмена ожидающего напоминания
+ *
+ * Других изменений RLS не допускает: пользователь может менять только status,
+ * и только с 'pending' на 'cancelled'
+ */
+export async function cancelApplicationReminder(reminderId: string): Promise<void> {
+  const { error } = await supabase
+    .from('application_reminders')
+    .update({ status: 'cancelled' })
+    .eq('id', reminderId)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Группировка генераций по этапам для доски (порядок внутри этапа сохраняется)
+ */
+export function groupGenerationsByStage(
+  generations: GenerationSummary[]
+): Record<ApplicationStage, GenerationSummary[]> {
+  const groups = Object.fromEntries(
+    APPLICATION_STAGES.map(stage => [stage, [] as GenerationSummary[]])
+  ) as Record<ApplicationStage, GenerationSummary[]>;
+
+  for (const generation of generations) {
+    groups[generation.application_stage].push(generation);
+  }
+
+  return groups;
+}
@@ -0,0 +1,235 @@
+import { AiGatewayRequestOptions, AnalyzedVacancy, LetterCustomization, analyzeVacancy, generateLetter } from './aiGateway';
+import { saveGeneration } from './generationStorage';
+import { validateJobUrl } from './jobSites';
+import { performScoringAnalysis } from './scoring';
+import { ResumeData } from '../types/resumeData';
+import { ScoringResults } from '../types/generation';
+import { getCurrentLocale, Locale, MessageKey, translate } from './i18n';
+
+/**
+ * Пакетный анализ: одно резюме против нескольких вакансий
+ *
+ * Каждая ссылка проходит анализ вакансии и скорринг с ограничением
+ * параллельных запросов. Для лучших вакансий письма генерируются
+ * и сохраняются в генерации одним действием.
+ */
+
+export const BATCH_MAX_VACANCIES = 20;
+export const BATCH_CONCURRENCY = 3;
+
+/**
+ * Статус строки пакета
+ */
+export type BatchRowStatus = 'queued' | 'analysing' | 'scored' | 'failed';
+
+/**
+ * Статус письма для строки пакета
+ */
+export type BatchLetterStatus = 'generating' | 'saved' | 'failed';
+
+/**
+ * Строка пакета - одна вакансия
+ */
+export interface BatchRow {
+  /** Ключ вакансии ("hh:123456"), уникален в пакете */
+  id: string;
+  /** Каноническая ссылка на вакансию */
+  url: string;
+  /** Название сайта */
+  siteName: string;
+  status: BatchRowStatus;
+  jobData?: AnalyzedVacancy;
+  scoring?: ScoringResults;
+  error?: string;
+  letterStatus?: BatchLetterStatus;
+  letterError?: string;
+  /** ID сохраненной генерации с письмом */
+  generationId?: string;
+}
+
+/**
+ * Результат разбора списка ссылок
+ */
+export interface BatchUrlParseResult {
+  rows: BatchRow[];
+  errors: string[];
+}
+
+/**
+ * Настройки письма для пакетной генерации - как по умолчанию в мастере
+ */
+export const BATCH_LETTER_CUSTOMIZATION: LetterCustomization = {
+  letter_style: 'neutral',
+  highlight_experience: [],
+  highlight_education: [],
+  highlight_skills: [],
+};
+
+/**
+ * Разбор вставленного списка ссылок (по одной на строку, через пробел или запятую)
+ *
+ * Неподдерживаемые ссылки и повторы одной вакансии попадают в errors,
+ * остальные становятся строками пакета в статусе queued
+ */
+export function parseBatchUrls(text: string, locale: Locale = getCurrentLocale()): BatchUrlParseResult {
+  const rows: BatchRow[] = [];
+  const errors: string[] = [];
+
+  const candidates = text.split(/[\s,]+/).map(item => item.trim()).filter(item => item.length > 0);
+
+  for (const candidate of candidates) {
+    const validation = validateJobUrl(candidate);
+    if (!validation.isValid || !validation.canonicalUrl || !validation.vacancyKey) {
+      errors.push(`${candidate}: ${validation.error}`);
+      continue;
+    }
+
+    if (rows.some(row => row.id === validation.vacancyKey)) {
+      errors.push(`${candidate}: ${translate('batch.duplicateVacancy', undefined, locale)}`);
+      continue;
+    }
+
+    rows.push({
+      id: validation.vacancyKey,
+      url: validation.canonicalUrl,
+      siteName: validation.detectedSite ?? '',
+      status: 'queued',
+    });
+  }
+
+  if (rows.length > BATCH_MAX_VACANCIES) {
+    errors.push(translate('batch.tooManyVacancies', { max: BATCH_MAX_VACANCIES }, locale));
+  }
+
+  return { rows: rows.slice(0, BATCH_MAX_VACANCIES), errors };
+}
+
+/**
+ * Обработка элементов не более чем limit задачами одновременно
+ *
+ * Ошибки worker должен обрабатывать сам; после отмены новые элементы не берутся
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
+
+/**
+ * Анализ вакансии и скорринг для одной строки пакета
+ */
+export async function analyzeBatchVacancy(
+  row: BatchRow,
+  resumeData: ResumeData,
+  userId: string,
+  options?: AiGatewayRequestOptions
+): Promise<{ jobData: AnalyzedVacancy; scoring: ScoringResults }> {
+  console.log('📦 Пакетный анализ вакансии:', row.url);
+
+  const jobData = await analyzeVacancy({ vacancyUrl: row.url, userId }, options);
+  const scoring = await performScoringAnalysis(resumeData, jobData, userId, options);
+
+  return { jobData, scoring };
+}
+
+/**
+ * Генерация письма для строки пакета и сохранение генерации
+ *
+ * @returns ID сохраненной генерации
+ */
+export async function generateBatchLetter(
+  row: BatchRow,
+  resumeData: ResumeData,
+  userId: string,
+  options?: AiGatewayRequestOptions,
+  locale: Locale = getCurrentLocale()
+): Promise<string> {
+  if (!row.jobData || !row.scoring) {
+    throw new Error(translate('batch.notAnalyzed', undefined, locale));
+  }
+
+  const { letter_text: letter } = await generateLetter(
+    { resumeData, jobData: row.jobData, userId, customization: BATCH_LETTER_CUSTOMIZATION },
+    options
+  );
+
+  const jobData = row.jobData;
+  const result = await saveGeneration({
+    job_title: jobData.job_title || translate('final.unknownPosition', undefined, locale),
+    company_name: jobData.company_name || translate('final.unknownCompany', undefined, locale),
+    overall_score: row.scoring.scoring_result.total_score,
+    cover_letter_text: letter,
+    scoring_results_json: row.scoring,
+    resume_data_json: resumeData,
+    job_data_json: jobData,
+    tailored_resume_json: null,
+    title: translate('final.generationTitle', {
+      position: jobData.job_title || translate('final.positionFallback', undefined, locale),
+      company: jobData.company_name || translate('final.companyFallback', undefined, locale)
+    }, locale),
+    status: 'completed',
+  });
+
+  console.log('✅ Письмо для вакансии сохранено:', row.url, result.generation_id);
+
+  return result.generation_id;
+}
+
+/**
+ * Сортировка пакета: оцененные по убыванию общего балла,
+ * затем обрабатываемые в исходном порядке, ошибки в конце
+ */
+export function rankBatchRows(rows: BatchRow[]): BatchRow[] {
+  const statusOrder: Record<BatchRowStatus, number> = { scored: 0, analysing: 1, queued: 1, failed: 2 };
+
+  return rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      const byStatus = statusOrder[a.row.status] - statusOrder[b.row.status];
+      if (byStatus !== 0) return byStatus;
+
+      const byScore = (b.row.scoring?.scoring_result.total_score ?? 0) - (a.row.scoring?.scoring_result.total_score ?? 0);
+      return byScore !== 0 ? byScore : a.index - b.index;
+    })
+    .map(({ row }) => row);
+}
+
+/**
+ * Лучшие N оцененных вакансий, для которых письмо еще не сохранено
+ */
+export function getTopRowsForLetters(rows: BatchRow[], count: number): BatchRow[] {
+  return rankBatchRows(rows)
+    .filter(row => row.status === 'scored')
+    .slice(0, count)
+    .filter(row => row.letterStatus !== 'saved' && row.letterStatus !== 'generating');
+}
+
+/**
+ * Ключи текстового описания статуса строки
+ */
+const BATCH_STATUS_KEYS: Record<BatchRowStatus, MessageKey> = {
+  queued: 'batch.status.queued',
+  analysing: 'batch.status.analysing',
+  scored: 'batch.status.scored',
+  failed: 'batch.status.failed',
+};
+
+/**
+ * Текстовое описание статуса строки
+ */
+export function getBatchStatusText(status: BatchRowStatus, locale: Locale = getCurrentLocale()): string {
+  const key = BATCH_STATUS_KEYS[status];
+  return translate(key ?? 'status.unknown', undefined, locale);
+}
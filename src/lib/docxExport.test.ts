@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { buildCoverLetterDocx } from './docxExport';
+import { crc32 } from './zipWriter';
+import { formatLetterDate } from './letterExport';
+import { ResumeData } from '../types/resumeData';
+
+/**
+ * Round-trip тест DOCX: архив распаковывается независимой библиотекой (fflate),
+ * после чего проверяются [Content_Types].xml и текст word/document.xml
+ */
+
+const resumeData: ResumeData = {
+  personal_info: {
+    first_name: 'Анна',
+    last_name: 'Смирнова',
+    email: 'anna@example.com',
+    phone: '+7 900 000-00-00',
+    website: 'https://anna.dev',
+    location: { city: 'Казань' },
+  },
+  skills: { hard_skills: ['TypeScript'], soft_skills: [], languages: [] },
+  education: [],
+  experience: [],
+  summary: '',
+  desired_position: 'Frontend-разработчик',
+  similar_positions: [],
+};
+
+const coverLetter = [
+  'Здравствуйте!',
+  'Меня заинтересовала вакансия в R&D <команде> "Яндекса".\nГотова обсудить детали.',
+  'С уважением,\nАнна',
+].join('\n\n');
+
+const date = new Date(2026, 9, 19, 12, 30);
+
+function unzipDocx() {
+  const docx = buildCoverLetterDocx({
+    coverLetter,
+    resumeData,
+    jobData: { company_name: 'Яндекс', job_title: 'Frontend-разработчик' },
+  }, date);
+  return unzipSync(docx);
+}
+
+/**
+ * Абзацы документа: текст всех <w:t> абзаца, <w:br/> - перенос строки
+ */
+function getParagraphTexts(documentXml: string): string[] {
+  const unescape = (value: string) => value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+  return Array.from(documentXml.matchAll(/<w:p>(.*?)<\/w:p>/g), ([, content]) => (
+    Array.from(content.matchAll(/<w:br\/>|<w:t[^>]*>(.*?)<\/w:t>/g), ([tag, text]) => (
+      tag === '<w:br/>' ? '\n' : unescape(text)
+    )).join('')
+  ));
+}
+
+describe('buildCoverLetterDocx', () => {
+  it('собирает корректный ZIP со всеми частями OOXML пакета', () => {
+    const files = unzipDocx();
+
+    expect(Object.keys(files).sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'word/_rels/document.xml.rels',
+      'word/document.xml',
+      'word/styles.xml',
+    ]);
+
+    // fflate не проверяет CRC при распаковке без сжатия - сверяем вручную
+    const docx = buildCoverLetterDocx({ coverLetter }, date);
+    const view = new DataView(docx.buffer, docx.byteOffset, docx.byteLength);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(unzipSync(docx)['[Content_Types].xml']));
+  });
+
+  it('объявляет типы содержимого документа и стилей', () => {
+    const contentTypes = strFromU8(unzipDocx()['[Content_Types].xml']);
+
+    expect(contentTypes).toContain('<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>');
+    expect(contentTypes).toContain(
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+    );
+    expect(contentTypes).toContain(
+      '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+    );
+  });
+
+  it('пишет шапку кандидата, дату, вакансию и абзацы письма', () => {
+    const documentXml = strFromU8(unzipDocx()['word/document.xml']);
+    const paragraphs = getParagraphTexts(documentXml);
+
+    expect(paragraphs[0]).toBe('Анна Смирнова');
+    expect(paragraphs[1]).toBe('anna@example.com  •  +7 900 000-00-00  •  https://anna.dev  •  Казань');
+    expect(paragraphs).toContain(formatLetterDate(date));
+    expect(paragraphs.some(text => text.endsWith('Яндекс'))).toBe(true);
+    expect(paragraphs.some(text => text.endsWith('Frontend-разработчик'))).toBe(true);
+
+    // Абзацы письма идут последними, одиночные переносы сохраняются
+    expect(paragraphs.slice(-3)).toEqual([
+      'Здравствуйте!',
+      'Меня заинтересовала вакансия в R&D <команде> "Яндекса".\nГотова обсудить детали.',
+      'С уважением,\nАнна',
+    ]);
+  });
+
+  it('экранирует спецсимволы XML', () => {
+    const documentXml = strFromU8(unzipDocx()['word/document.xml']);
+
+    expect(documentXml).toContain('R&amp;D &lt;команде&gt; &quot;Яндекса&quot;');
+    expect(documentXml).not.toContain('<команде>');
+  });
+
+  it('без резюме и вакансии содержит только дату и текст письма', () => {
+    const files = unzipSync(buildCoverLetterDocx({ coverLetter: 'Единственный абзац' }, date));
+    const paragraphs = getParagraphTexts(strFromU8(files['word/document.xml']));
+
+    expect(paragraphs.filter(text => text.length > 0)).toEqual([formatLetterDate(date), 'Единственный абзац']);
+  });
+
+  it('подписи, дата и язык документа следуют языку письма', () => {
+    const files = unzipSync(buildCoverLetterDocx({
+      coverLetter: 'Dear hiring manager,\n\nI am excited to apply for the Frontend Developer position.',
+      jobData: { company_name: 'Acme', job_title: 'Frontend Developer' },
+    }, date));
+    const paragraphs = getParagraphTexts(strFromU8(files['word/document.xml']));
+
+    expect(paragraphs).toContain('October 19, 2026');
+    expect(paragraphs).toContain('Company: Acme');
+    expect(paragraphs).toContain('Position: Frontend Developer');
+    expect(strFromU8(files['word/styles.xml'])).toContain('<w:lang w:val="en-US"/>');
+  });
+
+  it('выбранный язык письма важнее языка текста', () => {
+    const files = unzipSync(buildCoverLetterDocx({ coverLetter, letterLanguage: 'uk', jobData: { company_name: 'Яндекс' } }, date));
+    const paragraphs = getParagraphTexts(strFromU8(files['word/document.xml']));
+
+    expect(paragraphs).toContain(formatLetterDate(date, 'uk'));
+    expect(paragraphs).toContain('Компанія: Яндекс');
+    expect(strFromU8(files['word/styles.xml'])).toContain('<w:lang w:val="uk-UA"/>');
+  });
+});
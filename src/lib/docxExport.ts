@@ -0,0 +1,203 @@
+import { ResumeData, getFullName } from '../types/resumeData';
+import { JobData } from '../types/generation';
+import { createZip } from './zipWriter';
+import {
+  formatLetterDate,
+  getCandidateContacts,
+  getExportFileName,
+  getExportLanguage,
+  LETTER_EXPORT_LABELS,
+  splitLetterParagraphs
+} from './letterExport';
+import { LetterLanguage } from './letterLanguage';
+
+/**
+ * Экспорт сопроводительного письма в DOCX (Word)
+ *
+ * Документ собирается вручную как минимальный OOXML пакет:
+ * [Content_Types].xml, _rels/.rels, word/document.xml, word/styles.xml
+ * и word/_rels/document.xml.rels, упакованные в ZIP без сжатия.
+ * Содержимое: шапка кандидата из personal_info, дата, компания и должность,
+ * абзацы cover_letter_text. Подписи, дата и язык проверки орфографии - на языке письма.
+ */
+
+export interface CoverLetterDocxOptions {
+  /** Текст сопроводительного письма */
+  coverLetter: string;
+  /** Данные резюме для шапки кандидата */
+  resumeData?: ResumeData | null;
+  /** Данные вакансии для строки "Компания / Должность" и имени файла */
+  jobData?: Partial<JobData> | null;
+  /** Язык письма для подписей; по умолчанию определяется по тексту письма */
+  letterLanguage?: LetterLanguage | null;
+}
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+/**
+ * Формирование word/styles.xml
+ *
+ * Шрифт Calibri 11pt, интервал 1.15 и 8pt после абзаца - как в шаблоне Word по умолчанию;
+ * язык документа задает проверку орфографии в Word
+ */
+function buildStylesXml(languageTag: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="${languageTag}"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+</w:styles>`;
+}
+
+// Серый цвет для второстепенных строк (контакты, дата, вакансия)
+const MUTED_COLOR = '6C757D';
+
+/**
+ * Экранирование спецсимволов XML
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Управляющие символы недопустимы в XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Абзац документа
+ *
+ * Одиночные переносы строк внутри абзаца превращаются в <w:br/>
+ */
+function paragraph(
+  text: string,
+  options: { bold?: boolean; size?: number; color?: string; spacingAfter?: number } = {}
+): string {
+  const runProps = [
+    options.bold ? '<w:b/><w:bCs/>' : '',
+    options.color ? `<w:color w:val="${options.color}"/>` : '',
+    options.size ? `<w:sz w:val="${options.size * 2}"/><w:szCs w:val="${options.size * 2}"/>` : '',
+  ].join('');
+  const rPr = runProps ? `<w:rPr>${runProps}</w:rPr>` : '';
+  const pPr = options.spacingAfter !== undefined
+    ? `<w:pPr><w:spacing w:after="${options.spacingAfter}"/></w:pPr>`
+    : '';
+
+  const runs = text
+    .split('\n')
+    .map((line, index) => `${index > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('');
+
+  return `<w:p>${pPr}<w:r>${rPr}${runs}</w:r></w:p>`;
+}
+
+/**
+ * Горизонтальная линия под шапкой кандидата
+ */
+function ruleParagraph(): string {
+  return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CED4DA"/></w:pBdr><w:spacing w:after="240"/></w:pPr></w:p>';
+}
+
+/**
+ * Формирование word/document.xml
+ */
+export function buildDocumentXml(options: CoverLetterDocxOptions, date: Date = new Date()): string {
+  const body: string[] = [];
+  const language = getExportLanguage(options.coverLetter, options.letterLanguage);
+  const labels = LETTER_EXPORT_LABELS[language];
+
+  if (options.resumeData) {
+    const fullName = getFullName(options.resumeData);
+    if (fullName) {
+      body.push(paragraph(fullName, { bold: true, size: 16, spacingAfter: 40 }));
+    }
+    const contacts = getCandidateContacts(options.resumeData);
+    if (contacts.length > 0) {
+      body.push(paragraph(contacts.join('  •  '), { size: 10, color: MUTED_COLOR, spacingAfter: 40 }));
+    }
+    body.push(ruleParagraph());
+  }
+
+  body.push(paragraph(formatLetterDate(date, language), { size: 10, color: MUTED_COLOR, spacingAfter: 40 }));
+
+  const companyName = options.jobData?.company_name;
+  const jobTitle = options.jobData?.job_title;
+  if (companyName) {
+    body.push(paragraph(`${labels.company}: ${companyName}`, { size: 10, color: MUTED_COLOR, spacingAfter: 0 }));
+  }
+  if (jobTitle) {
+    body.push(paragraph(`${labels.position}: ${jobTitle}`, { size: 10, color: MUTED_COLOR, spacingAfter: 0 }));
+  }
+  body.push(paragraph(''));
+
+  for (const text of splitLetterParagraphs(options.coverLetter)) {
+    body.push(paragraph(text));
+  }
+
+  // Поля страницы A4: 2 см (1134 twips)
+  const sectionProps =
+    '<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>' +
+    '<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr>';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body.join('')}${sectionProps}</w:body></w:document>`;
+}
+
+/**
+ * Сборка DOCX файла
+ *
+ * @returns байты DOCX (ZIP архив)
+ */
+export function buildCoverLetterDocx(options: CoverLetterDocxOptions, date: Date = new Date()): Uint8Array {
+  const language = getExportLanguage(options.coverLetter, options.letterLanguage);
+
+  return createZip([
+    { path: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { path: '_rels/.rels', data: ROOT_RELS_XML },
+    { path: 'word/document.xml', data: buildDocumentXml(options, date) },
+    { path: 'word/styles.xml', data: buildStylesXml(LETTER_EXPORT_LABELS[language].languageTag) },
+    { path: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS_XML },
+  ], date);
+}
+
+/**
+ * Сборка DOCX и скачивание файла
+ */
+export function exportCoverLetterDocx(options: CoverLetterDocxOptions): void {
+  const blob = new Blob([buildCoverLetterDocx(options)], { type: DOCX_MIME_TYPE });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  const language = getExportLanguage(options.coverLetter, options.letterLanguage);
+  link.download = getExportFileName(options.jobData, 'docx', LETTER_EXPORT_LABELS[language].fileNamePrefix);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Откладываем освобождение URL, чтобы браузер успел начать скачивание
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
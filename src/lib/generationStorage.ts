@@ -0,0 +1,59 @@
+import { supabase } from './supabase';
+import { CreateGenerationData, validateCreateGenerationData } from '../types/generation';
+import { translate } from './i18n';
+
+/**
+ * Сохранение генераций (письмо + скорринг + данные резюме и вакансии)
+ *
+ * Запись идет через Edge Function save-generation: она проверяет JWT
+ * и повторно валидирует данные по схемам. Чтение и удаление - напрямую
+ * через клиент Supabase (RLS).
+ */
+
+const SAVE_GENERATION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/save-generation`;
+
+/**
+ * Результат сохранения генерации
+ */
+export interface SavedGenerationResult {
+  generation_id: string;
+  created_at: string;
+}
+
+/**
+ * Сохранение генерации
+ *
+ * Данные проверяются по схемам до отправки, чтобы не сохранять поврежденный скорринг
+ *
+ * @param data - данные генерации
+ * @returns ID и дата создания сохраненной генерации
+ */
+export async function saveGeneration(data: CreateGenerationData): Promise<SavedGenerationResult> {
+  const validation = validateCreateGenerationData(data);
+  if (!validation.isValid) {
+    console.error('❌ Данные генерации не прошли валидацию:', validation.errors);
+    throw new Error(validation.errors.join('; '));
+  }
+
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+  if (sessionError || !session) {
+    throw new Error(translate('data.notAuthenticated'));
+  }
+
+  const response = await fetch(SAVE_GENERATION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(data),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result as SavedGenerationResult;
+}
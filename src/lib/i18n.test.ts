@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { CATALOGS, DEFAULT_LOCALE, findMissingMessageKeys, LOCALES, MessageKey, Messages } from './i18n';
+
+/**
+ * Тесты каталогов сообщений: все языки содержат ключи эталонного каталога
+ * и используют в переводах те же параметры
+ */
+
+/**
+ * Имена параметров сообщения: {name} и {count, plural, ...}
+ */
+function getMessageParams(message: string): string[] {
+  return [...new Set([...message.matchAll(/\{\s*(\w+)\s*[,}]/g)].map(match => match[1]))].sort();
+}
+
+describe('findMissingMessageKeys', () => {
+  it('в каталогах всех языков нет пропущенных и пустых ключей', () => {
+    expect(findMissingMessageKeys()).toEqual({ ru: [], en: [], uk: [] });
+  });
+
+  it('находит пропущенные и пустые ключи', () => {
+    const keys = Object.keys(CATALOGS[DEFAULT_LOCALE]) as MessageKey[];
+    const [missingKey, emptyKey] = keys;
+
+    const en: Partial<Messages> = { ...CATALOGS.en };
+    delete en[missingKey];
+    const uk: Partial<Messages> = { ...CATALOGS.uk, [emptyKey]: '' };
+
+    expect(findMissingMessageKeys({ ru: CATALOGS.ru, en, uk })).toEqual({
+      ru: [],
+      en: [missingKey],
+      uk: [emptyKey],
+    });
+  });
+});
+
+describe('CATALOGS', () => {
+  it('переводы используют те же параметры, что и эталонный каталог', () => {
+    for (const [key, message] of Object.entries(CATALOGS[DEFAULT_LOCALE]) as [MessageKey, string][]) {
+      for (const locale of LOCALES) {
+        expect(getMessageParams(CATALOGS[locale][key]), `${locale}: ${key}`).toEqual(getMessageParams(message));
+      }
+    }
+  });
+});
@@ -0,0 +1,247 @@
+import { MessageKey, ru } from '../locales/ru';
+import { en } from '../locales/en';
+import { uk } from '../locales/uk';
+
+/**
+ * Локализация интерфейса
+ *
+ * - Типизированные ключи сообщений: каталог ru - эталон, en и uk объявлены
+ *   как Record<MessageKey, string>, поэтому пропущенный ключ - ошибка компиляции
+ * - Подстановки в стиле ICU: {name}, {count, number}, {count, plural, one {...} other {...}},
+ *   {value, select, a {...} other {...}}
+ * - Форматирование дат и чисел через Intl для выбранного языка
+ * - Текущий язык доступен вне React (хелперы типов, заголовок Accept-Language шлюза)
+ */
+
+// ============================================================================
+// ЯЗЫКИ
+// ============================================================================
+
+export type Locale = 'ru' | 'en' | 'uk';
+
+export const LOCALES: readonly Locale[] = ['ru', 'en', 'uk'];
+
+export const DEFAULT_LOCALE: Locale = 'ru';
+
+/**
+ * Названия языков для переключателя (на самих языках)
+ */
+export const LOCALE_TITLES: Record<Locale, string> = {
+  ru: 'Русский',
+  en: 'English',
+  uk: 'Українська',
+};
+
+/** Теги BCP 47 для Intl */
+const INTL_LOCALES: Record<Locale, string> = {
+  ru: 'ru-RU',
+  en: 'en-US',
+  uk: 'uk-UA',
+};
+
+export type { MessageKey };
+export type Messages = Record<MessageKey, string>;
+
+export const CATALOGS: Record<Locale, Messages> = { ru, en, uk };
+
+/**
+ * Значения подстановок в сообщение
+ */
+export type MessageParams = Record<string, string | number>;
+
+// ============================================================================
+// ТЕКУЩИЙ ЯЗЫК
+// ============================================================================
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+export function getCurrentLocale(): Locale {
+  return currentLocale;
+}
+
+/**
+ * Смена текущего языка; вызывается I18nProvider
+ */
+export function setCurrentLocale(locale: Locale): void {
+  currentLocale = locale;
+}
+
+export function getIntlLocale(locale: Locale = currentLocale): string {
+  return INTL_LOCALES[locale];
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Ключ есть в эталонном каталоге - для ключей, собранных из данных ('scoring.dimension.' + измерение)
+ */
+export function isMessageKey(value: string): value is MessageKey {
+  return Object.prototype.hasOwnProperty.call(CATALOGS[DEFAULT_LOCALE], value);
+}
+
+/**
+ * Язык интерфейса по тегу языка ('uk-UA', 'en', 'ru_RU')
+ * null - язык не поддерживается
+ */
+export function resolveLocale(tag: string | null | undefined): Locale | null {
+  if (!tag) return null;
+  const language = tag.toLowerCase().split(/[-_]/)[0];
+  return isLocale(language) ? language : null;
+}
+
+/**
+ * Выбор языка интерфейса
+ *
+ * Порядок: язык, выбранный пользователем в переключателе, язык Telegram
+ * (language_code), языки браузера, русский по умолчанию
+ */
+export function detectLocale(sources: {
+  stored?: string | null;
+  telegramLanguageCode?: string | null;
+  browserLanguages?: readonly string[];
+}): Locale {
+  const candidates = [sources.stored, sources.telegramLanguageCode, ...(sources.browserLanguages ?? [])];
+
+  for (const candidate of candidates) {
+    const locale = resolveLocale(candidate);
+    if (locale) return locale;
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+// ============================================================================
+// ФОРМАТИРОВАНИЕ
+// ============================================================================
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions, locale: Locale = currentLocale): string {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], options).format(value);
+}
+
+export function formatDate(
+  value: string | number | Date,
+  options?: Intl.DateTimeFormatOptions,
+  locale: Locale = currentLocale
+): string {
+  return new Date(value).toLocaleDateString(INTL_LOCALES[locale], options);
+}
+
+export function formatDateTime(
+  value: string | number | Date,
+  options?: Intl.DateTimeFormatOptions,
+  locale: Locale = currentLocale
+): string {
+  return new Date(value).toLocaleString(INTL_LOCALES[locale], options);
+}
+
+/**
+ * Позиция закрывающей фигурной скобки с учетом вложенности
+ */
+function findClosingBrace(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Варианты plural/select: "one {...} few {...} other {...}"
+ */
+function parseOptions(text: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  let i = 0;
+
+  while (i < text.length) {
+    const open = text.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(text, open);
+    if (close === -1) break;
+
+    const selector = text.slice(i, open).trim();
+    if (selector) options[selector] = text.slice(open + 1, close);
+    i = close + 1;
+  }
+
+  return options;
+}
+
+function formatArgument(body: string, params: MessageParams, locale: Locale): string {
+  const [name, type] = body.split(',', 2).map(part => part.trim());
+  const value = params[name];
+
+  if (value === undefined) return `{${body}}`;
+  if (type === undefined) return typeof value === 'number' ? formatNumber(value, undefined, locale) : value;
+  if (type === 'number') return formatNumber(Number(value), undefined, locale);
+
+  const optionsStart = body.indexOf(',', body.indexOf(',') + 1);
+  const options = parseOptions(optionsStart === -1 ? '' : body.slice(optionsStart + 1));
+
+  if (type === 'plural') {
+    const count = Number(value);
+    const category = new Intl.PluralRules(INTL_LOCALES[locale]).select(count);
+    const branch = options[`=${count}`] ?? options[category] ?? options.other ?? '';
+    return formatMessage(branch.replace(/#/g, formatNumber(count, undefined, locale)), params, locale);
+  }
+
+  if (type === 'select') {
+    return formatMessage(options[String(value)] ?? options.other ?? '', params, locale);
+  }
+
+  return `{${body}}`;
+}
+
+/**
+ * Подстановка параметров в шаблон сообщения
+ * Неизвестные аргументы остаются в тексте как есть, чтобы ошибку было видно в интерфейсе
+ */
+export function formatMessage(template: string, params: MessageParams = {}, locale: Locale = currentLocale): string {
+  let result = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const open = template.indexOf('{', i);
+    if (open === -1) {
+      result += template.slice(i);
+      break;
+    }
+
+    const close = findClosingBrace(template, open);
+    if (close === -1) {
+      result += template.slice(i);
+      break;
+    }
+
+    result += template.slice(i, open) + formatArgument(template.slice(open + 1, close), params, locale);
+    i = close + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Перевод сообщения; если в каталоге языка строка пустая - берется русская
+ */
+export function translate(key: MessageKey, params?: MessageParams, locale: Locale = currentLocale): string {
+  const template = CATALOGS[locale][key] || CATALOGS[DEFAULT_LOCALE][key] || key;
+  return formatMessage(template, params, locale);
+}
+
+// ============================================================================
+// ПРОВЕРКА КАТАЛОГОВ
+// ============================================================================
+
+/**
+ * Ключи эталонного каталога, которых нет (или они пустые) в каталогах других языков
+ * Типы ловят пропуски при сборке; функция нужна для каталогов, собранных вне TypeScript
+ */
+export function findMissingMessageKeys(catalogs: Record<Locale, Partial<Messages>> = CATALOGS): Record<Locale, MessageKey[]> {
+  const keys = Object.keys(CATALOGS[DEFAULT_LOCALE]) as MessageKey[];
+
+  return Object.fromEntries(
+    LOCALES.map(locale => [locale, keys.filter(key => !catalogs[locale]?.[key])])
+  ) as Record<Locale, MessageKey[]>;
+}
@@ -0,0 +1,12 @@
+import { createPathJobSiteAdapter } from './types';
+
+/**
+ * Djinni: /jobs/123456 и /jobs/123456-python-developer
+ */
+export const djinniAdapter = createPathJobSiteAdapter({
+  id: 'djinni',
+  name: 'Djinni',
+  domains: ['djinni.co'],
+  exampleUrl: 'https://djinni.co/jobs/123456',
+  pathPattern: /^\/jobs\/(\d+)(?:-[^/]*)?\/?$/,
+});
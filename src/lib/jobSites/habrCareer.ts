@@ -0,0 +1,12 @@
+import { createPathJobSiteAdapter } from './types';
+
+/**
+ * Habr Career
+ */
+export const habrCareerAdapter = createPathJobSiteAdapter({
+  id: 'habr',
+  name: 'Habr Career',
+  domains: ['career.habr.com'],
+  exampleUrl: 'https://career.habr.com/vacancies/123456',
+  pathPattern: /^\/vacancies\/(\d+)\/?$/,
+});
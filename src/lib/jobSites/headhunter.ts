@@ -0,0 +1,14 @@
+import { createPathJobSiteAdapter } from './types';
+
+/**
+ * HeadHunter: hh.ru и национальные домены
+ *
+ * Региональные и мобильные поддомены (spb.hh.ru, m.hh.ru) ведут на ту же вакансию
+ */
+export const headhunterAdapter = createPathJobSiteAdapter({
+  id: 'hh',
+  name: 'HeadHunter',
+  domains: ['hh.ru', 'hh.kz', 'hh.by', 'hh.uz', 'hh.kg'],
+  exampleUrl: 'https://hh.ru/vacancy/123456',
+  pathPattern: /^\/vacancy\/(\d+)\/?$/,
+});
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { findJobSiteAdapter, getVacancyKey, JOB_SITE_ADAPTERS, validateJobUrl } from './index';
+import { JobSiteAdapter } from './types';
+import { headhunterAdapter } from './headhunter';
+import { linkedinAdapter } from './linkedin';
+import { djinniAdapter } from './djinni';
+import { habrCareerAdapter } from './habrCareer';
+import { superjobAdapter } from './superjob';
+import { workUaAdapter } from './workUa';
+import { rabotaUaAdapter } from './rabotaUa';
+import { jobsUaAdapter } from './jobsUa';
+
+/**
+ * Тесты адаптеров сайтов с вакансиями: распознавание ссылки на вакансию,
+ * каноническая ссылка и ID вакансии
+ */
+
+interface AdapterCase {
+  adapter: JobSiteAdapter;
+  /** Ссылки на вакансию: [ссылка, каноническая ссылка, ID] */
+  vacancies: [string, string, string][];
+  /** Ссылки сайта, которые не являются вакансиями */
+  notVacancies: string[];
+}
+
+const CASES: AdapterCase[] = [
+  {
+    adapter: headhunterAdapter,
+    vacancies: [
+      ['https://hh.ru/vacancy/123456', 'https://hh.ru/vacancy/123456', '123456'],
+      ['https://spb.hh.ru/vacancy/123456/?from=search&hhtmFrom=vacancy_search_list', 'https://hh.ru/vacancy/123456', '123456'],
+      ['https://m.hh.kz/vacancy/98765#description', 'https://hh.kz/vacancy/98765', '98765'],
+    ],
+    notVacancies: [
+      'https://hh.ru/search/vacancy?text=python',
+      'https://hh.ru/employer/1740',
+      'https://hh.ru/employer/1740/vacancy/123456',
+      'https://hh.ru/vacancy/123456/response',
+      'https://hh.ru/vacancy/abc',
+    ],
+  },
+  {
+    adapter: linkedinAdapter,
+    vacancies: [
+      ['https://linkedin.com/jobs/view/123456', 'https://www.linkedin.com/jobs/view/123456', '123456'],
+      ['https://www.linkedin.com/jobs/view/python-developer-at-acme-3901234567/?trk=feed', 'https://www.linkedin.com/jobs/view/3901234567', '3901234567'],
+      ['https://www.linkedin.com/jobs/search/?currentJobId=3901234567&keywords=python', 'https://www.linkedin.com/jobs/view/3901234567', '3901234567'],
+    ],
+    notVacancies: [
+      'https://www.linkedin.com/jobs/search/?keywords=python',
+      'https://www.linkedin.com/company/acme',
+    ],
+  },
+  {
+    adapter: djinniAdapter,
+    vacancies: [
+      ['https://djinni.co/jobs/123456', 'https://djinni.co/jobs/123456', '123456'],
+      ['https://djinni.co/jobs/123456-python-developer/?utm_source=telegram', 'https://djinni.co/jobs/123456-python-developer', '123456'],
+    ],
+    notVacancies: [
+      'https://djinni.co/jobs/',
+      'https://djinni.co/jobs/?primary_keyword=Python',
+      'https://djinni.co/jobs/123456-python-developer/apply',
+    ],
+  },
+  {
+    adapter: habrCareerAdapter,
+    vacancies: [
+      ['https://career.habr.com/vacancies/1000123456', 'https://career.habr.com/vacancies/1000123456', '1000123456'],
+      ['https://career.habr.com/vacancies/1000123456/?utm_campaign=mail', 'https://career.habr.com/vacancies/1000123456', '1000123456'],
+    ],
+    notVacancies: [
+      'https://career.habr.com/vacancies?q=react',
+      'https://career.habr.com/companies/yandex/vacancies',
+      'https://career.habr.com/vacancies/1000123456/responses',
+    ],
+  },
+  {
+    adapter: superjobAdapter,
+    vacancies: [
+      ['https://spb.superjob.ru/vakansii/python-developer-46123456.html', 'https://www.superjob.ru/vakansii/python-developer-46123456.html', '46123456'],
+      ['https://superjob.ru/vakansii/frontend-razrabotchik-46123457.html?utm_source=x', 'https://www.superjob.ru/vakansii/frontend-razrabotchik-46123457.html', '46123457'],
+    ],
+    notVacancies: [
+      'https://www.superjob.ru/resume/python-developer-123.html',
+      'https://www.superjob.ru/clients/acme-123.html',
+      'https://www.superjob.ru/vakansii/programmist.html',
+      'https://spb.superjob.ru/vakansii/',
+    ],
+  },
+  {
+    adapter: workUaAdapter,
+    vacancies: [
+      ['https://work.ua/jobs/123456', 'https://www.work.ua/jobs/123456', '123456'],
+      ['https://www.work.ua/ru/jobs/123456/', 'https://www.work.ua/ru/jobs/123456', '123456'],
+    ],
+    notVacancies: [
+      'https://www.work.ua/jobs-kyiv-python/',
+      'https://www.work.ua/jobs/by-company/123/',
+    ],
+  },
+  {
+    adapter: rabotaUaAdapter,
+    vacancies: [
+      ['https://rabota.ua/company123/vacancy456', 'https://rabota.ua/company123/vacancy456', '456'],
+      ['https://rabota.ua/company123/vacancy456/?utm_source=robota', 'https://rabota.ua/company123/vacancy456', '456'],
+    ],
+    notVacancies: [
+      'https://rabota.ua/company123',
+      'https://rabota.ua/zapros/python/kyiv',
+    ],
+  },
+  {
+    adapter: jobsUaAdapter,
+    vacancies: [
+      ['https://jobs.ua/vacancy/kiev/python-developer-123456', 'https://www.jobs.ua/vacancy/kiev/python-developer-123456', '123456'],
+      ['https://www.jobs.ua/vacancy/kiev/python-developer-123456/?utm_source=x', 'https://www.jobs.ua/vacancy/kiev/python-developer-123456', '123456'],
+    ],
+    notVacancies: [
+      'https://www.jobs.ua/vacancy/',
+      'https://www.jobs.ua/vacancy/kiev/',
+      'https://www.jobs.ua/vacancy/kiev/python-developer-123456/apply',
+      'https://jobs.ua/resume/kiev',
+      'https://jobs.ua/company/acme',
+    ],
+  },
+];
+
+describe('JOB_SITE_ADAPTERS', () => {
+  it('каждый адаптер реестра покрыт тестом', () => {
+    expect(CASES.map(({ adapter }) => adapter.id).sort()).toEqual(JOB_SITE_ADAPTERS.map(adapter => adapter.id).sort());
+  });
+
+  it('пример ссылки каждого адаптера проходит валидацию', () => {
+    for (const adapter of JOB_SITE_ADAPTERS) {
+      expect(validateJobUrl(adapter.exampleUrl).adapter?.id).toBe(adapter.id);
+    }
+  });
+});
+
+for (const { adapter, vacancies, notVacancies } of CASES) {
+  describe(`адаптер ${adapter.name}`, () => {
+    it('находится по домену и поддоменам', () => {
+      for (const domain of adapter.domains) {
+        expect(findJobSiteAdapter(domain)).toBe(adapter);
+        expect(findJobSiteAdapter(`www.${domain.toUpperCase()}`)).toBe(adapter);
+      }
+    });
+
+    it('распознает ссылки на вакансию, канонизирует их и извлекает ID', () => {
+      for (const [url, canonicalUrl, vacancyId] of vacancies) {
+        const parsedUrl = new URL(url);
+        expect(adapter.isVacancyUrl(parsedUrl), url).toBe(true);
+        expect(adapter.normalizeUrl(parsedUrl)).toBe(canonicalUrl);
+        expect(adapter.extractVacancyId(parsedUrl)).toBe(vacancyId);
+      }
+    });
+
+    it('отклоняет ссылки сайта, которые не ведут на вакансию', () => {
+      for (const url of notVacancies) {
+        expect(adapter.isVacancyUrl(new URL(url)), url).toBe(false);
+
+        const validation = validateJobUrl(url);
+        expect(validation.isValid).toBe(false);
+        expect(validation.error).toBeTruthy();
+      }
+    });
+  });
+}
+
+describe('validateJobUrl', () => {
+  it('строит ключ вакансии из ID сайта', () => {
+    expect(getVacancyKey('spb.hh.ru/vacancy/123456?from=main')).toBe('hh:123456');
+    expect(getVacancyKey('https://jobs.ua/vacancy/kiev/python-developer-123456/')).toBe('jobsua:123456');
+    expect(getVacancyKey('https://www.jobs.ua/vacancy/')).toBeNull();
+  });
+
+  it('отклоняет пустые, некорректные и неподдерживаемые ссылки', () => {
+    for (const url of ['', '   ', 'ftp://hh.ru/vacancy/1', 'https://avito.ru/vakansii/123', 'https://zarplata.ru/vacancy/123']) {
+      const validation = validateJobUrl(url);
+      expect(validation.isValid, url).toBe(false);
+      expect(validation.error).toBeTruthy();
+      expect(getVacancyKey(url)).toBeNull();
+    }
+  });
+});
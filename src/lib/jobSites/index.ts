@@ -0,0 +1,135 @@
+import { JobSiteAdapter, matchesDomain } from './types';
+import { translate } from '../i18n';
+import { headhunterAdapter } from './headhunter';
+import { linkedinAdapter } from './linkedin';
+import { djinniAdapter } from './djinni';
+import { habrCareerAdapter } from './habrCareer';
+import { superjobAdapter } from './superjob';
+import { workUaAdapter } from './workUa';
+import { rabotaUaAdapter } from './rabotaUa';
+import { jobsUaAdapter } from './jobsUa';
+
+export type { JobSiteAdapter } from './types';
+
+/**
+ * Реестр поддерживаемых сайтов с вакансиями
+ *
+ * Проверка ссылок, дедупликация вакансий и подсказки в UI строятся по этому списку.
+ * Новый сайт добавляется отдельным модулем с адаптером и записью здесь.
+ * Порядок определяет порядок подсказок в UI.
+ */
+export const JOB_SITE_ADAPTERS: JobSiteAdapter[] = [
+  headhunterAdapter,
+  linkedinAdapter,
+  djinniAdapter,
+  habrCareerAdapter,
+  superjobAdapter,
+  workUaAdapter,
+  rabotaUaAdapter,
+  jobsUaAdapter,
+];
+
+/**
+ * Результат разбора ссылки на вакансию
+ */
+export interface JobUrlValidation {
+  isValid: boolean;
+  error?: string;
+  /** Название сайта из адаптера */
+  detectedSite?: string;
+  adapter?: JobSiteAdapter;
+  /** Каноническая ссылка без трекинговых параметров */
+  canonicalUrl?: string;
+  /** Ключ для дедупликации: "hh:123456" или каноническая ссылка, если ID нет */
+  vacancyKey?: string;
+}
+
+/**
+ * Поиск адаптера по домену
+ */
+export function findJobSiteAdapter(hostname: string): JobSiteAdapter | undefined {
+  const host = hostname.toLowerCase();
+  return JOB_SITE_ADAPTERS.find(adapter => adapter.domains.some(domain => matchesDomain(host, domain)));
+}
+
+/**
+ * Разбор строки в URL; https:// добавляется, если протокол не указан
+ */
+function parseUrl(url: string): URL | null {
+  const trimmedUrl = url.trim();
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:/i.test(trimmedUrl) ? trimmedUrl : `https://${trimmedUrl}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Валидация URL вакансии
+ *
+ * Проверяет, что введенный URL принадлежит одному из сайтов реестра
+ * и является прямой ссылкой на вакансию
+ *
+ * @param url - URL для валидации
+ * @returns объект с результатом валидации, сайтом и канонической ссылкой
+ */
+export function validateJobUrl(url: string): JobUrlValidation {
+  // Проверяем, что URL не пустой
+  if (!url || url.trim().length === 0) {
+    return {
+      isValid: false,
+      error: translate('jobUrl.empty')
+    };
+  }
+
+  // Проверяем базовый формат URL
+  const parsedUrl = parseUrl(url);
+  if (!parsedUrl) {
+    return {
+      isValid: false,
+      error: translate('jobUrl.invalidFormat', { example: JOB_SITE_ADAPTERS[0].exampleUrl })
+    };
+  }
+
+  if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') {
+    return {
+      isValid: false,
+      error: translate('jobUrl.invalidProtocol')
+    };
+  }
+
+  // Проверяем домен
+  const adapter = findJobSiteAdapter(parsedUrl.hostname);
+  if (!adapter) {
+    return {
+      isValid: false,
+      error: translate('jobUrl.unsupportedSite', { host: parsedUrl.hostname.toLowerCase() })
+    };
+  }
+
+  // Проверяем, что это ссылка на вакансию, а не на поиск или компанию
+  if (!adapter.isVacancyUrl(parsedUrl)) {
+    return {
+      isValid: false,
+      error: translate('jobUrl.notVacancy', { site: adapter.name })
+    };
+  }
+
+  const canonicalUrl = adapter.normalizeUrl(parsedUrl);
+  const vacancyId = adapter.extractVacancyId(parsedUrl);
+
+  return {
+    isValid: true,
+    detectedSite: adapter.name,
+    adapter,
+    canonicalUrl,
+    vacancyKey: vacancyId ? `${adapter.id}:${vacancyId}` : canonicalUrl
+  };
+}
+
+/**
+ * Ключ вакансии для дедупликации или null для неподдерживаемой ссылки
+ */
+export function getVacancyKey(url: string): string | null {
+  return validateJobUrl(url).vacancyKey ?? null;
+}
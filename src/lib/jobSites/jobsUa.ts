@@ -0,0 +1,13 @@
+import { createPathJobSiteAdapter } from './types';
+
+/**
+ * Jobs.ua: /vacancy/kiev/python-developer-123456
+ */
+export const jobsUaAdapter = createPathJobSiteAdapter({
+  id: 'jobsua',
+  name: 'Jobs.ua',
+  domains: ['jobs.ua'],
+  canonicalHost: 'www.jobs.ua',
+  exampleUrl: 'https://jobs.ua/vacancy/kiev/python-developer-123456',
+  pathPattern: /^\/vacancy\/[^/]+\/[^/]+-(\d+)\/?$/,
+});
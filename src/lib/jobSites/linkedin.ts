@@ -0,0 +1,34 @@
+import { createPathJobSiteAdapter, JobSiteAdapter } from './types';
+
+const viewAdapter = createPathJobSiteAdapter({
+  id: 'linkedin',
+  name: 'LinkedIn',
+  domains: ['linkedin.com'],
+  canonicalHost: 'www.linkedin.com',
+  exampleUrl: 'https://linkedin.com/jobs/view/123456',
+  // /jobs/view/123456 и /jobs/view/python-developer-at-company-123456
+  pathPattern: /\/jobs\/view\/(?:[^/]*-)?(\d+)/,
+});
+
+/**
+ * ID вакансии из поиска и подборок LinkedIn (/jobs/search/?currentJobId=123456)
+ */
+const getCurrentJobId = (url: URL): string | null => {
+  const id = url.searchParams.get('currentJobId');
+  return id && /^\d+$/.test(id) ? id : null;
+};
+
+/**
+ * LinkedIn: прямые ссылки на вакансию и ссылки из поиска с currentJobId
+ *
+ * Все варианты приводятся к https://www.linkedin.com/jobs/view/{id}
+ */
+export const linkedinAdapter: JobSiteAdapter = {
+  ...viewAdapter,
+  isVacancyUrl: url => viewAdapter.isVacancyUrl(url) || getCurrentJobId(url) !== null,
+  extractVacancyId: url => viewAdapter.extractVacancyId(url) ?? getCurrentJobId(url),
+  normalizeUrl: url => {
+    const id = viewAdapter.extractVacancyId(url) ?? getCurrentJobId(url);
+    return id ? `https://www.linkedin.com/jobs/view/${id}` : viewAdapter.normalizeUrl(url);
+  },
+};
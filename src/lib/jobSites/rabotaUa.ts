@@ -0,0 +1,12 @@
+import { createPathJobSiteAdapter } from './types';
+
+/**
+ * Rabota.ua: /company123/vacancy456
+ */
+export const rabotaUaAdapter = createPathJobSiteAdapter({
+  id: 'rabotaua',
+  name: 'Rabota.ua',
+  domains: ['rabota.ua'],
+  exampleUrl: 'https://rabota.ua/company123/vacancy456',
+  pathPattern: /^\/company\d+\/vacancy(\d+)\/?$/,
+});
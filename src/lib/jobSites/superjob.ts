@@ -0,0 +1,15 @@
+import { createPathJobSiteAdapter } from './types';
+
+/**
+ * SuperJob: /vakansii/python-developer-123456.html
+ *
+ * Региональные поддомены (spb.superjob.ru) приводятся к www.superjob.ru
+ */
+export const superjobAdapter = createPathJobSiteAdapter({
+  id: 'superjob',
+  name: 'SuperJob',
+  domains: ['superjob.ru'],
+  canonicalHost: 'www.superjob.ru',
+  exampleUrl: 'https://superjob.ru/vakansii/python-developer-123456.html',
+  pathPattern: /^\/vakansii\/[^/]+-(\d+)\.html$/,
+});
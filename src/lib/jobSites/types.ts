@@ -0,0 +1,69 @@
+/**
+ * Адаптер сайта с вакансиями
+ *
+ * Каждый поддерживаемый сайт описывается одним модулем в src/lib/jobSites:
+ * домены, проверка ссылки, каноническая ссылка, ID вакансии и подсказка для UI
+ */
+export interface JobSiteAdapter {
+  /** Короткий идентификатор сайта, используется в ключе вакансии ("hh:123456") */
+  id: string;
+  /** Название для отображения */
+  name: string;
+  /** Домены сайта; поддомены (m., www., региональные) совпадают автоматически */
+  domains: string[];
+  /** Пример ссылки на вакансию для подсказки в UI */
+  exampleUrl: string;
+  /** Является ли ссылка прямой ссылкой на вакансию */
+  isVacancyUrl: (url: URL) => boolean;
+  /** Каноническая ссылка: https, основной домен, без трекинговых параметров */
+  normalizeUrl: (url: URL) => string;
+  /** ID вакансии на сайте или null, если его нет в ссылке */
+  extractVacancyId: (url: URL) => string | null;
+}
+
+/**
+ * Параметры адаптера, у которого вакансия определяется по пути ссылки
+ */
+export interface PathJobSiteAdapterOptions {
+  id: string;
+  name: string;
+  domains: string[];
+  exampleUrl: string;
+  /** Путь ссылки на вакансию; первая группа - ID вакансии, если он есть */
+  pathPattern: RegExp;
+  /** Хост канонической ссылки, по умолчанию первый домен из domains */
+  canonicalHost?: string;
+}
+
+/**
+ * Проверка, что хост относится к домену (сам домен или его поддомен)
+ */
+export function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Создание адаптера для сайта, где вакансия определяется по пути ссылки
+ */
+export function createPathJobSiteAdapter(options: PathJobSiteAdapterOptions): JobSiteAdapter {
+  const { pathPattern } = options;
+  const canonicalHost = options.canonicalHost ?? options.domains[0];
+
+  const resolveHost = (url: URL): string => {
+    const hostname = url.hostname.toLowerCase();
+    // Национальные домены (hh.kz, hh.by) сохраняются, поддомены заменяются на основной хост
+    const domain = options.domains.find(item => matchesDomain(hostname, item));
+    return domain && domain !== options.domains[0] ? domain : canonicalHost;
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    domains: options.domains,
+    exampleUrl: options.exampleUrl,
+    isVacancyUrl: url => pathPattern.test(url.pathname),
+    // Query-параметры (utm_*, from, hhtmFrom и т.п.) и якорь отбрасываются
+    normalizeUrl: url => `https://${resolveHost(url)}${url.pathname.replace(/\/+$/, '') || '/'}`,
+    extractVacancyId: url => pathPattern.exec(url.pathname)?.[1] ?? null,
+  };
+}
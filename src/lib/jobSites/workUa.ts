@@ -0,0 +1,13 @@
+import { createPathJobSiteAdapter } from './types';
+
+/**
+ * Work.ua: /jobs/123456, в том числе языковые версии /ru/jobs/123456
+ */
+export const workUaAdapter = createPathJobSiteAdapter({
+  id: 'workua',
+  name: 'Work.ua',
+  domains: ['work.ua'],
+  canonicalHost: 'www.work.ua',
+  exampleUrl: 'https://work.ua/jobs/123456',
+  pathPattern: /^(?:\/(?:ru|en))?\/jobs\/(\d+)\/?$/,
+});
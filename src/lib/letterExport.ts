@@ -0,0 +1,118 @@
+import { ResumeData } from '../types/resumeData';
+import { JobData } from '../types/generation';
+import { DEFAULT_LETTER_LANGUAGE, detectTextLanguage, LetterLanguage } from './letterLanguage';
+
+/**
+ * Общие утилиты экспорта сопроводительного письма (PDF, DOCX)
+ *
+ * Подписи документа выводятся на языке письма, а не интерфейса:
+ * письмо на английском уходит работодателю с английской шапкой и датой
+ */
+
+/**
+ * Подписи экспорта на языках письма
+ */
+export interface LetterExportLabels {
+  /** Тег языка для дат и атрибута языка документа */
+  languageTag: string;
+  company: string;
+  position: string;
+  fileNamePrefix: string;
+  scoringTitle: string;
+  totalScore: string;
+  recruiterRecommendation: string;
+  candidateRecommendation: string;
+}
+
+export const LETTER_EXPORT_LABELS: Record<LetterLanguage, LetterExportLabels> = {
+  ru: {
+    languageTag: 'ru-RU',
+    company: 'Компания',
+    position: 'Должность',
+    fileNamePrefix: 'Сопроводительное_письмо',
+    scoringTitle: 'Анализ соответствия',
+    totalScore: 'Общий балл',
+    recruiterRecommendation: 'Рекомендация для рекрутера',
+    candidateRecommendation: 'Рекомендация для кандидата',
+  },
+  en: {
+    languageTag: 'en-US',
+    company: 'Company',
+    position: 'Position',
+    fileNamePrefix: 'Cover_letter',
+    scoringTitle: 'Match analysis',
+    totalScore: 'Overall score',
+    recruiterRecommendation: 'Recommendation for the recruiter',
+    candidateRecommendation: 'Recommendation for the candidate',
+  },
+  uk: {
+    languageTag: 'uk-UA',
+    company: 'Компанія',
+    position: 'Посада',
+    fileNamePrefix: 'Супровідний_лист',
+    scoringTitle: 'Аналіз відповідності',
+    totalScore: 'Загальний бал',
+    recruiterRecommendation: 'Рекомендація для рекрутера',
+    candidateRecommendation: 'Рекомендація для кандидата',
+  },
+  kk: {
+    languageTag: 'kk-KZ',
+    company: 'Компания',
+    position: 'Лауазым',
+    fileNamePrefix: 'Ілеспе_хат',
+    scoringTitle: 'Сәйкестік талдауы',
+    totalScore: 'Жалпы балл',
+    recruiterRecommendation: 'Рекрутерге ұсыныс',
+    candidateRecommendation: 'Кандидатқа ұсыныс',
+  },
+};
+
+/**
+ * Язык экспорта: выбранный при генерации или определенный по тексту письма
+ * (у сохраненных генераций язык письма не хранится)
+ */
+export function getExportLanguage(coverLetter: string, letterLanguage?: LetterLanguage | null): LetterLanguage {
+  return letterLanguage ?? detectTextLanguage(coverLetter) ?? DEFAULT_LETTER_LANGUAGE;
+}
+
+/**
+ * Контакты кандидата для шапки письма: email, телефон, сайт, город
+ */
+export function getCandidateContacts(resumeData: ResumeData): string[] {
+  const info = resumeData.personal_info;
+  return [info.email, info.phone, info.website, info.location?.city]
+    .filter((value): value is string => !!value && value.trim().length > 0);
+}
+
+/**
+ * Дата письма, например "19 октября 2026 г." или "October 19, 2026"
+ */
+export function formatLetterDate(date: Date = new Date(), language: LetterLanguage = DEFAULT_LETTER_LANGUAGE): string {
+  return date.toLocaleDateString(LETTER_EXPORT_LABELS[language].languageTag, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Разбиение текста письма на абзацы по пустым строкам
+ */
+export function splitLetterParagraphs(coverLetter: string): string[] {
+  return coverLetter
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0);
+}
+
+/**
+ * Имя файла для экспорта, например "Сопроводительное_письмо_Яндекс.pdf"
+ */
+export function getExportFileName(
+  jobData: Partial<JobData> | null | undefined,
+  extension: string,
+  prefix = LETTER_EXPORT_LABELS[DEFAULT_LETTER_LANGUAGE].fileNamePrefix
+): string {
+  const suffix = (jobData?.company_name || jobData?.job_title || '')
+    .replace(/[<>:"/\\|?*]/g, '')
+    .trim()
+    .replace(/\s+/g, '_')
+    .substring(0, 50);
+  return `${prefix}${suffix ? `_${suffix}` : ''}.${extension}`;
+}
@@ -0,0 +1,66 @@
+import { JobData } from '../types/generation';
+import { ResumeData } from '../types/resumeData';
+import { MessageKey } from './i18n';
+import {
+  collectResumeText,
+  detectTextLanguage,
+  isLetterLanguage,
+  LETTER_LANGUAGES,
+  LetterLanguage
+} from '../../supabase/functions/_shared/languageDetection.ts';
+
+/**
+ * Язык сопроводительного письма
+ *
+ * Язык по умолчанию предлагается по описанию вакансии: для LinkedIn и Djinni
+ * письма обычно ждут на английском. Определение языка общее с generate-letter,
+ * который по нему решает, нужно ли переводить резюме.
+ */
+
+export { detectTextLanguage, isLetterLanguage, LETTER_LANGUAGES };
+export type { LetterLanguage };
+
+/** Язык письма, если язык вакансии определить не удалось */
+export const DEFAULT_LETTER_LANGUAGE: LetterLanguage = 'ru';
+
+/**
+ * Названия языков на самих языках
+ */
+export const LETTER_LANGUAGE_TITLES: Record<LetterLanguage, string> = {
+  en: 'English',
+  ru: 'Русский',
+  uk: 'Українська',
+  kk: 'Қазақша',
+};
+
+/**
+ * Ключи названий языков на языке интерфейса для подсказок
+ */
+export const LETTER_LANGUAGE_NAME_KEYS: Record<LetterLanguage, MessageKey> = {
+  en: 'letterLanguage.name.en',
+  ru: 'letterLanguage.name.ru',
+  uk: 'letterLanguage.name.uk',
+  kk: 'letterLanguage.name.kk',
+};
+
+/**
+ * Язык вакансии по описанию, для коротких описаний - вместе с названием должности
+ */
+export function detectVacancyLanguage(jobData: JobData | null): LetterLanguage | null {
+  if (!jobData) return null;
+  return detectTextLanguage(jobData.description || '') ?? detectTextLanguage(`${jobData.job_title} ${jobData.description}`);
+}
+
+/**
+ * Язык письма, предлагаемый для вакансии
+ */
+export function suggestLetterLanguage(jobData: JobData | null): LetterLanguage {
+  return detectVacancyLanguage(jobData) ?? DEFAULT_LETTER_LANGUAGE;
+}
+
+/**
+ * Язык резюме по описанию и опыту работы
+ */
+export function detectResumeLanguage(resumeData: ResumeData | null): LetterLanguage | null {
+  return resumeData ? detectTextLanguage(collectResumeText(resumeData)) : null;
+}
@@ -0,0 +1,81 @@
+import { supabase } from './supabase';
+import { LetterProfile, LetterProfileSettings } from '../types/letterProfile';
+import { translate } from './i18n';
+
+/**
+ * Хранение профилей голоса для сопроводительных писем
+ *
+ * - Профили читаются и изменяются напрямую через клиент Supabase (RLS)
+ * - Профиль, с которым сгенерировано письмо, записывается в generations.letter_profile_id
+ *   через save-generation
+ */
+
+/**
+ * Профили пользователя в порядке создания
+ */
+export async function listLetterProfiles(userId: string): Promise<LetterProfile[]> {
+  const { data, error } = await supabase
+    .from('letter_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Создание профиля
+ */
+export async function createLetterProfile(userId: string, settings: LetterProfileSettings): Promise<LetterProfile> {
+  const { data, error } = await supabase
+    .from('letter_profiles')
+    .insert({ ...settings, user_id: userId })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Изменение настроек профиля
+ */
+export async function updateLetterProfile(profileId: string, settings: LetterProfileSettings): Promise<LetterProfile> {
+  const { data, error } = await supabase
+    .from('letter_profiles')
+    .update(settings)
+    .eq('id', profileId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  // RLS скрывает чужие профили - обновление просто не находит строку
+  if (!data) {
+    throw new Error(translate('data.letterProfileNotFound'));
+  }
+
+  return data;
+}
+
+/**
+ * Удаление профиля; в сохраненных генерациях ссылка на него становится NULL
+ */
+export async function deleteLetterProfile(profileId: string): Promise<void> {
+  const { error } = await supabase
+    .from('letter_profiles')
+    .delete()
+    .eq('id', profileId);
+
+  if (error) {
+    throw error;
+  }
+}
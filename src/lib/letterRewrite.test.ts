@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createLetterHistory,
+  diffWords,
+  expandToParagraph,
+  getFragmentContext,
+  MAX_CONTEXT_LENGTH,
+  MAX_LETTER_HISTORY,
+  pushLetterHistory,
+  redoLetterHistory,
+  replaceFragment,
+  undoLetterHistory,
+} from './letterRewrite';
+
+/**
+ * Тесты точечного переписывания: выделение, замена фрагмента, diff и история правок
+ */
+
+const LETTER = 'Здравствуйте!\n\nМеня заинтересовала вакансия. Я работаю с React пять лет.\n\nС уважением,\nАнна';
+
+/** Склейка участков diff обратно в исходный и переписанный текст */
+function rebuild(segments: ReturnType<typeof diffWords>) {
+  return {
+    before: segments.filter(segment => segment.type !== 'added').map(segment => segment.text).join(''),
+    after: segments.filter(segment => segment.type !== 'removed').map(segment => segment.text).join(''),
+  };
+}
+
+describe('expandToParagraph', () => {
+  it('расширяет выделение до границ абзаца', () => {
+    const start = LETTER.indexOf('React');
+    const selection = expandToParagraph(LETTER, { start, end: start + 5 });
+
+    expect(LETTER.slice(selection.start, selection.end)).toBe('Меня заинтересовала вакансия. Я работаю с React пять лет.');
+  });
+
+  it('первый и последний абзацы ограничены началом и концом письма', () => {
+    expect(expandToParagraph(LETTER, { start: 0, end: 3 })).toEqual({ start: 0, end: 'Здравствуйте!'.length });
+
+    const last = expandToParagraph(LETTER, { start: LETTER.length - 2, end: LETTER.length });
+    expect(LETTER.slice(last.start, last.end)).toBe('С уважением,\nАнна');
+  });
+
+  it('выделение через несколько абзацев охватывает их целиком', () => {
+    const selection = expandToParagraph(LETTER, { start: 5, end: LETTER.indexOf('вакансия') });
+
+    expect(LETTER.slice(selection.start, selection.end)).toBe(LETTER.split('\n\nС уважением')[0]);
+  });
+
+  it('письмо без абзацев выделяется полностью', () => {
+    expect(expandToParagraph('Одна строка', { start: 2, end: 4 })).toEqual({ start: 0, end: 11 });
+  });
+});
+
+describe('getFragmentContext', () => {
+  it('обрезает текст вокруг фрагмента до MAX_CONTEXT_LENGTH', () => {
+    const letter = `${'а'.repeat(MAX_CONTEXT_LENGTH + 10)}ФРАГМЕНТ${'б'.repeat(MAX_CONTEXT_LENGTH + 10)}`;
+    const start = MAX_CONTEXT_LENGTH + 10;
+    const { before, after } = getFragmentContext(letter, { start, end: start + 'ФРАГМЕНТ'.length });
+
+    expect(before).toBe('а'.repeat(MAX_CONTEXT_LENGTH));
+    expect(after).toBe('б'.repeat(MAX_CONTEXT_LENGTH));
+  });
+});
+
+describe('replaceFragment', () => {
+  it('сохраняет пробелы и переносы по краям исходного фрагмента', () => {
+    const letter = 'Первый абзац.\n\n  Второй абзац.  \n\nТретий абзац.';
+    const start = letter.indexOf('\n\n');
+    const end = letter.lastIndexOf('\n\n') + 2;
+
+    expect(replaceFragment(letter, { start, end }, '  Новый абзац.\n')).toBe(
+      'Первый абзац.\n\n  Новый абзац.  \n\nТретий абзац.'
+    );
+  });
+
+  it('заменяет фрагмент в середине предложения', () => {
+    const start = LETTER.indexOf('пять лет');
+    const result = replaceFragment(LETTER, { start, end: start + 'пять лет'.length }, 'более пяти лет');
+
+    expect(result).toContain('Я работаю с React более пяти лет.');
+  });
+});
+
+describe('diffWords', () => {
+  it('склейка участков восстанавливает оба текста', () => {
+    const pairs: [string, string][] = [
+      ['Я работаю с React пять лет.', 'Я более пяти лет работаю с React и TypeScript.'],
+      ['Здравствуйте!\n\nМеня заинтересовала вакансия.', 'Добрый день!\nМеня очень заинтересовала ваша вакансия.'],
+      ['', 'Новый текст'],
+      ['Старый текст', ''],
+      ['  пробелы  по краям ', 'пробелы по краям'],
+    ];
+
+    for (const [before, after] of pairs) {
+      expect(rebuild(diffWords(before, after))).toEqual({ before, after });
+    }
+  });
+
+  it('одинаковые тексты дают один общий участок', () => {
+    expect(diffWords('Без изменений', 'Без изменений')).toEqual([{ type: 'equal', text: 'Без изменений' }]);
+  });
+
+  it('соседние участки одного типа объединяются', () => {
+    expect(diffWords('Я работаю с React', 'Я давно и успешно работаю с React')).toEqual([
+      { type: 'equal', text: 'Я ' },
+      { type: 'added', text: 'давно и успешно ' },
+      { type: 'equal', text: 'работаю с React' },
+    ]);
+  });
+});
+
+describe('история правок письма', () => {
+  it('отмена и повтор возвращают прежние состояния', () => {
+    let history = createLetterHistory('v1');
+    history = pushLetterHistory(history, 'v2');
+    history = pushLetterHistory(history, 'v3');
+
+    history = undoLetterHistory(history);
+    expect(history).toEqual({ past: ['v1'], present: 'v2', future: ['v3'] });
+
+    history = undoLetterHistory(history);
+    expect(history).toEqual({ past: [], present: 'v1', future: ['v2', 'v3'] });
+    expect(undoLetterHistory(history)).toBe(history);
+
+    history = redoLetterHistory(history);
+    expect(history).toEqual({ past: ['v1'], present: 'v2', future: ['v3'] });
+  });
+
+  it('новая правка после отмены очищает повтор', () => {
+    let history = pushLetterHistory(createLetterHistory('v1'), 'v2');
+    history = undoLetterHistory(history);
+    history = pushLetterHistory(history, 'v2b');
+
+    expect(history).toEqual({ past: ['v1'], present: 'v2b', future: [] });
+    expect(redoLetterHistory(history)).toBe(history);
+  });
+
+  it('то же состояние не добавляется в историю', () => {
+    const history = pushLetterHistory(createLetterHistory('v1'), 'v2');
+
+    expect(pushLetterHistory(history, 'v2')).toBe(history);
+  });
+
+  it('хранит не больше MAX_LETTER_HISTORY прошлых состояний', () => {
+    let history = createLetterHistory('v0');
+    for (let version = 1; version <= MAX_LETTER_HISTORY + 5; version++) {
+      history = pushLetterHistory(history, `v${version}`);
+    }
+
+    expect(history.past).toHaveLength(MAX_LETTER_HISTORY);
+    expect(history.past[0]).toBe('v5');
+    expect(history.present).toBe(`v${MAX_LETTER_HISTORY + 5}`);
+  });
+});
@@ -0,0 +1,197 @@
+import { FragmentRewriteAction } from './aiGateway';
+import { MessageKey } from './i18n';
+
+/**
+ * Точечное переписывание фрагментов письма
+ *
+ * - Границы выделения, расширение до абзаца и текст вокруг фрагмента
+ * - Пословный diff исходного и переписанного фрагмента для принятия или отклонения
+ * - История правок письма для отмены и повтора
+ */
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Ограничения совпадают с rewrite-fragment */
+export const MAX_FRAGMENT_LENGTH = 3000;
+export const MAX_CONTEXT_LENGTH = 1000;
+
+/** Сколько состояний письма хранится для отмены */
+export const MAX_LETTER_HISTORY = 50;
+
+/**
+ * Ключи названий действий над фрагментом в каталогах локализации
+ */
+export const FRAGMENT_ACTION_TITLE_KEYS: Record<FragmentRewriteAction, MessageKey> = {
+  shorten: 'letterRewrite.shorten',
+  formalize: 'letterRewrite.formalize',
+  add_metric: 'letterRewrite.add_metric',
+  emphasize_skill: 'letterRewrite.emphasize_skill',
+  translate: 'letterRewrite.translate',
+};
+
+// ============================================================================
+// ВЫДЕЛЕНИЕ
+// ============================================================================
+
+/**
+ * Выделенный фрагмент: смещения в тексте письма [start, end)
+ */
+export interface LetterSelection {
+  start: number;
+  end: number;
+}
+
+/**
+ * Расширение выделения до границ абзаца (абзацы разделены пустой строкой)
+ */
+export function expandToParagraph(letter: string, selection: LetterSelection): LetterSelection {
+  const separator = /\n\s*\n/g;
+  let start = 0;
+  let end = letter.length;
+
+  for (const match of letter.matchAll(separator)) {
+    const matchStart = match.index ?? 0;
+    const matchEnd = matchStart + match[0].length;
+    if (matchEnd <= selection.start) {
+      start = matchEnd;
+    } else if (matchStart >= selection.end) {
+      end = matchStart;
+      break;
+    }
+  }
+
+  return { start, end };
+}
+
+/**
+ * Текст до и после фрагмента, обрезанный до MAX_CONTEXT_LENGTH
+ */
+export function getFragmentContext(letter: string, selection: LetterSelection): { before: string; after: string } {
+  return {
+    before: letter.slice(Math.max(0, selection.start - MAX_CONTEXT_LENGTH), selection.start),
+    after: letter.slice(selection.end, selection.end + MAX_CONTEXT_LENGTH),
+  };
+}
+
+/**
+ * Замена фрагмента письма
+ *
+ * Пробелы и переносы по краям исходного фрагмента сохраняются,
+ * чтобы переписанный текст не склеивался с соседним
+ */
+export function replaceFragment(letter: string, selection: LetterSelection, replacement: string): string {
+  const original = letter.slice(selection.start, selection.end);
+  const leading = original.match(/^\s*/)?.[0] ?? '';
+  const trailing = original.match(/\s*$/)?.[0] ?? '';
+
+  return letter.slice(0, selection.start) + leading + replacement.trim() + trailing + letter.slice(selection.end);
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Участок diff: общий, удаленный или добавленный текст
+ */
+export interface DiffSegment {
+  type: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+/**
+ * Пословный diff по наибольшей общей подпоследовательности
+ * Пробелы остаются в токенах, поэтому склейка участков дает исходные тексты
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\S+\s*|\s+/g) ?? [];
+  const b = after.match(/\S+\s*|\s+/g) ?? [];
+
+  // lcs[i][j] - длина общей подпоследовательности суффиксов a[i..] и b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return segments;
+}
+
+// ============================================================================
+// ИСТОРИЯ ПРАВОК
+// ============================================================================
+
+/**
+ * История письма: прошлые состояния, текущее и отмененные
+ */
+export interface LetterHistory {
+  past: string[];
+  present: string;
+  future: string[];
+}
+
+export function createLetterHistory(letter: string): LetterHistory {
+  return { past: [], present: letter, future: [] };
+}
+
+/**
+ * Новое состояние письма; отмененные правки после него недоступны
+ */
+export function pushLetterHistory(history: LetterHistory, letter: string): LetterHistory {
+  if (letter === history.present) return history;
+
+  return {
+    past: [...history.past, history.present].slice(-MAX_LETTER_HISTORY),
+    present: letter,
+    future: [],
+  };
+}
+
+export function undoLetterHistory(history: LetterHistory): LetterHistory {
+  if (history.past.length === 0) return history;
+
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoLetterHistory(history: LetterHistory): LetterHistory {
+  if (history.future.length === 0) return history;
+
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
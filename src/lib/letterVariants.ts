@@ -0,0 +1,106 @@
+import { supabase } from './supabase';
+import { JobData } from '../types/generation';
+import { LetterVariant, LetterVariantConfig } from '../types/letterVariant';
+import { findSkillMentions, SkillMentions } from '../../supabase/functions/_shared/skillMatching.ts';
+import { translate } from './i18n';
+
+/**
+ * Работа с вариантами сопроводительного письма
+ *
+ * - Покрытие ключевых навыков вакансии в тексте варианта
+ * - Разбиение на абзацы и сборка нового варианта из выбранных абзацев
+ * - Выбор основного варианта в сохраненной генерации (RPC set_primary_letter_variant)
+ */
+
+/**
+ * Выбранный для сборки абзац
+ */
+export interface ParagraphSelection {
+  variantId: string;
+  paragraphIndex: number;
+}
+
+/**
+ * Новый вариант письма
+ */
+export function createLetterVariant(
+  letterText: string,
+  config: LetterVariantConfig | null,
+  isPrimary = false
+): LetterVariant {
+  return {
+    id: crypto.randomUUID(),
+    style: config?.style ?? null,
+    length: config?.length ?? null,
+    letter_text: letterText,
+    is_primary: isPrimary,
+    profile_id: config?.profile?.id ?? null,
+    profile_name: config?.profile?.name ?? null,
+  };
+}
+
+/**
+ * Отметка основного варианта (остальные снимаются)
+ */
+export function markPrimaryVariant(variants: LetterVariant[], variantId: string): LetterVariant[] {
+  return variants.map(variant => ({ ...variant, is_primary: variant.id === variantId }));
+}
+
+/**
+ * Ключевые навыки вакансии для проверки покрытия: hard skills,
+ * для старых анализов - required_skills
+ */
+export function getJobKeywords(jobData: JobData | null): string[] {
+  if (!jobData) return [];
+  const hardSkills = jobData.skills?.hard_skills ?? [];
+  return hardSkills.length > 0 ? hardSkills : jobData.required_skills ?? [];
+}
+
+/**
+ * Покрытие ключевых навыков вакансии текстом письма
+ */
+export function getKeywordCoverage(letterText: string, jobData: JobData | null): SkillMentions {
+  return findSkillMentions(letterText, getJobKeywords(jobData));
+}
+
+/**
+ * Абзацы письма (разделены пустой строкой)
+ */
+export function splitLetterParagraphs(letterText: string): string[] {
+  return letterText
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0);
+}
+
+/**
+ * Сборка письма из выбранных абзацев в порядке выбора
+ */
+export function mergeLetterParagraphs(variants: LetterVariant[], selection: ParagraphSelection[]): string {
+  return selection
+    .map(({ variantId, paragraphIndex }) => {
+      const variant = variants.find(item => item.id === variantId);
+      return variant ? splitLetterParagraphs(variant.letter_text)[paragraphIndex] : undefined;
+    })
+    .filter((paragraph): paragraph is string => !!paragraph)
+    .join('\n\n');
+}
+
+/**
+ * Выбор основного варианта в сохраненной генерации
+ *
+ * Текст варианта копируется в cover_letter_text на стороне БД
+ */
+export async function setPrimaryLetterVariant(generationId: string, variantId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('set_primary_letter_variant', {
+    generation_id: generationId,
+    variant_id: variantId,
+  });
+
+  if (error) {
+    throw error;
+  }
+  if (data === false) {
+    throw new Error(translate('data.letterVariantNotFound'));
+  }
+}
@@ -0,0 +1,287 @@
+import type { jsPDF } from 'jspdf';
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import dejaVuSansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import { ResumeData, getFullName } from '../types/resumeData';
+import { JobData, ScoringResults } from '../types/generation';
+import {
+  formatLetterDate,
+  getCandidateContacts,
+  getExportFileName,
+  getExportLanguage,
+  LETTER_EXPORT_LABELS,
+  splitLetterParagraphs
+} from './letterExport';
+import { SCORING_TEXT_LABELS } from './scoring';
+import { LetterLanguage } from './letterLanguage';
+import { translate } from './i18n';
+
+/**
+ * Экспорт сопроводительного письма и отчета скорринга в PDF
+ *
+ * Страница 1: шапка кандидата из personal_info, дата, вакансия и текст письма
+ * Страница 2 (опционально): общий балл, 4 метрики breakdown с прогресс-барами,
+ * рекомендации для рекрутера и кандидата
+ *
+ * Подписи, дата и имя файла - на языке письма.
+ * Стандартные шрифты jsPDF не содержат кириллицы, поэтому в документ
+ * встраивается DejaVu Sans. jsPDF и шрифты загружаются лениво при первом экспорте.
+ */
+
+export interface CoverLetterPdfOptions {
+  /** Текст сопроводительного письма */
+  coverLetter: string;
+  /** Данные резюме для шапки кандидата */
+  resumeData?: ResumeData | null;
+  /** Данные вакансии для строки "Компания / Должность" и имени файла */
+  jobData?: Partial<JobData> | null;
+  /** Результаты скорринга для второй страницы */
+  scoringResults?: ScoringResults | null;
+  /** Добавлять ли страницу со скоррингом (по умолчанию - если есть данные) */
+  includeScoring?: boolean;
+  /** Язык письма для подписей; по умолчанию определяется по тексту письма */
+  letterLanguage?: LetterLanguage | null;
+}
+
+// Размеры страницы A4 и поля в миллиметрах
+export const PAGE_WIDTH = 210;
+export const PAGE_HEIGHT = 297;
+export const MARGIN = 20;
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+export const FONT_FAMILY = 'DejaVuSans';
+
+// Цвета (RGB)
+export const COLOR_TEXT: [number, number, number] = [33, 37, 41];
+export const COLOR_MUTED: [number, number, number] = [108, 117, 125];
+const COLOR_RULE: [number, number, number] = [206, 212, 218];
+const COLOR_BAR_BG: [number, number, number] = [233, 236, 239];
+
+/**
+ * Метрики breakdown в порядке отображения; подписи - из SCORING_TEXT_LABELS
+ */
+const BREAKDOWN_KEYS: (keyof ScoringResults['scoring_result']['breakdown'])[] = [
+  'hard_skills',
+  'soft_skills',
+  'experience_match',
+  'position_match',
+];
+
+let fontsPromise: Promise<{ regular: string; bold: string }> | null = null;
+
+/**
+ * Загрузка TTF файла в бинарную строку для виртуальной ФС jsPDF
+ */
+async function loadFontBinary(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(translate('pdf.fontLoadFailed', { status: response.status }));
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return binary;
+}
+
+/**
+ * Шрифты с кириллицей (кэшируются после первой загрузки)
+ */
+function loadFonts(): Promise<{ regular: string; bold: string }> {
+  if (!fontsPromise) {
+    fontsPromise = Promise.all([loadFontBinary(dejaVuSansUrl), loadFontBinary(dejaVuSansBoldUrl)])
+      .then(([regular, bold]) => ({ regular, bold }))
+      .catch(error => {
+        fontsPromise = null;
+        throw error;
+      });
+  }
+  return fontsPromise;
+}
+
+/**
+ * Цвет балла в том же диапазоне, что и getScoreColor в интерфейсе
+ */
+function getScoreRgb(score: number): [number, number, number] {
+  if (score >= 80) return [34, 197, 94];
+  if (score >= 60) return [234, 179, 8];
+  return [239, 68, 68];
+}
+
+/**
+ * Создание A4 документа со встроенными шрифтами DejaVu Sans
+ */
+export async function createPdfDocument(): Promise<jsPDF> {
+  const [{ jsPDF: JsPDF }, fonts] = await Promise.all([import('jspdf'), loadFonts()]);
+
+  const doc = new JsPDF({ unit: 'mm', format: 'a4' });
+  doc.addFileToVFS('DejaVuSans.ttf', fonts.regular);
+  doc.addFont('DejaVuSans.ttf', FONT_FAMILY, 'normal');
+  doc.addFileToVFS('DejaVuSans-Bold.ttf', fonts.bold);
+  doc.addFont('DejaVuSans-Bold.ttf', FONT_FAMILY, 'bold');
+
+  return doc;
+}
+
+/**
+ * Курсор вывода текста с автоматическим переносом на новую страницу
+ */
+export class PdfWriter {
+  y = MARGIN;
+
+  constructor(private readonly doc: jsPDF) {}
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  text(
+    value: string,
+    options: { size?: number; bold?: boolean; color?: [number, number, number]; gapAfter?: number; indent?: number } = {}
+  ) {
+    const size = options.size ?? 11;
+    const lineHeight = size * 0.45;
+    this.doc.setFont(FONT_FAMILY, options.bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...(options.color ?? COLOR_TEXT));
+
+    const indent = options.indent ?? 0;
+    const lines: string[] = this.doc.splitTextToSize(value, CONTENT_WIDTH - indent);
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, MARGIN + indent, this.y + lineHeight * 0.8);
+      this.y += lineHeight;
+    }
+    this.y += options.gapAfter ?? 0;
+  }
+
+  rule(gapAfter = 6, color: [number, number, number] = COLOR_RULE) {
+    this.doc.setDrawColor(...color);
+    this.doc.setLineWidth(0.3);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    this.y += gapAfter;
+  }
+
+  scoreBar(label: string, score: number) {
+    this.ensureSpace(14);
+    this.doc.setFont(FONT_FAMILY, 'bold');
+    this.doc.setFontSize(11);
+    this.doc.setTextColor(...COLOR_TEXT);
+    this.doc.text(label, MARGIN, this.y + 4);
+    this.doc.text(`${score}%`, PAGE_WIDTH - MARGIN, this.y + 4, { align: 'right' });
+    this.y += 6;
+
+    const clamped = Math.max(0, Math.min(100, score));
+    this.doc.setFillColor(...COLOR_BAR_BG);
+    this.doc.roundedRect(MARGIN, this.y, CONTENT_WIDTH, 3, 1.5, 1.5, 'F');
+    if (clamped > 0) {
+      this.doc.setFillColor(...getScoreRgb(clamped));
+      this.doc.roundedRect(MARGIN, this.y, (CONTENT_WIDTH * clamped) / 100, 3, 1.5, 1.5, 'F');
+    }
+    this.y += 6;
+  }
+}
+
+/**
+ * Шапка кандидата: имя и контакты
+ */
+function renderCandidateHeader(writer: PdfWriter, resumeData: ResumeData) {
+  const fullName = getFullName(resumeData);
+  if (fullName) {
+    writer.text(fullName, { size: 18, bold: true, gapAfter: 2 });
+  }
+
+  const contacts = getCandidateContacts(resumeData);
+  if (contacts.length > 0) {
+    writer.text(contacts.join('  •  '), { size: 10, color: COLOR_MUTED, gapAfter: 3 });
+  }
+
+  writer.rule();
+}
+
+/**
+ * Страница с результатами скорринга
+ */
+function renderScoringPage(doc: jsPDF, writer: PdfWriter, scoringResults: ScoringResults, language: LetterLanguage) {
+  const result = scoringResults.scoring_result;
+  const labels = LETTER_EXPORT_LABELS[language];
+
+  doc.addPage();
+  writer.y = MARGIN;
+
+  writer.text(labels.scoringTitle, { size: 18, bold: true, gapAfter: 2 });
+  writer.text(`${labels.totalScore}: ${result.total_score}%`, {
+    size: 14,
+    bold: true,
+    color: getScoreRgb(result.total_score),
+    gapAfter: 3,
+  });
+  writer.rule();
+
+  for (const key of BREAKDOWN_KEYS) {
+    const item = result.breakdown[key];
+    writer.scoreBar(SCORING_TEXT_LABELS[language][key], item.score);
+    if (item.summary) {
+      writer.text(item.summary, { size: 10, color: COLOR_MUTED, gapAfter: 5 });
+    }
+  }
+
+  writer.rule();
+
+  if (result.recruiter_recommendation) {
+    writer.text(labels.recruiterRecommendation, { size: 12, bold: true, gapAfter: 2 });
+    writer.text(result.recruiter_recommendation, { size: 10, gapAfter: 6 });
+  }
+
+  if (result.candidate_recommendation) {
+    writer.text(labels.candidateRecommendation, { size: 12, bold: true, gapAfter: 2 });
+    writer.text(result.candidate_recommendation, { size: 10 });
+  }
+}
+
+/**
+ * Сборка PDF документа
+ */
+export async function buildCoverLetterPdf(options: CoverLetterPdfOptions): Promise<jsPDF> {
+  const doc = await createPdfDocument();
+  const writer = new PdfWriter(doc);
+  const language = getExportLanguage(options.coverLetter, options.letterLanguage);
+  const labels = LETTER_EXPORT_LABELS[language];
+
+  if (options.resumeData) {
+    renderCandidateHeader(writer, options.resumeData);
+  }
+
+  writer.text(formatLetterDate(new Date(), language), { size: 10, color: COLOR_MUTED, gapAfter: 2 });
+
+  const jobTitle = options.jobData?.job_title;
+  const companyName = options.jobData?.company_name;
+  if (companyName) writer.text(`${labels.company}: ${companyName}`, { size: 10, color: COLOR_MUTED });
+  if (jobTitle) writer.text(`${labels.position}: ${jobTitle}`, { size: 10, color: COLOR_MUTED });
+  writer.y += 6;
+
+  const paragraphs = splitLetterParagraphs(options.coverLetter);
+  for (const paragraph of paragraphs) {
+    writer.text(paragraph, { size: 11, gapAfter: 4 });
+  }
+
+  const includeScoring = options.includeScoring ?? !!options.scoringResults;
+  if (includeScoring && options.scoringResults?.scoring_result) {
+    renderScoringPage(doc, writer, options.scoringResults, language);
+  }
+
+  return doc;
+}
+
+/**
+ * Сборка PDF и скачивание файла
+ */
+export async function exportCoverLetterPdf(options: CoverLetterPdfOptions): Promise<void> {
+  const doc = await buildCoverLetterPdf(options);
+  const language = getExportLanguage(options.coverLetter, options.letterLanguage);
+  doc.save(getExportFileName(options.jobData, 'pdf', LETTER_EXPORT_LABELS[language].fileNamePrefix));
+}
@@ -0,0 +1,216 @@
+import type { jsPDF } from 'jspdf';
+import { getFullName } from '../types/resumeData';
+import { JobData } from '../types/generation';
+import { ResumeSectionId, ResumeTemplateId, TailoredResume, getSectionTitle, getVisibleSections } from '../types/tailoredResume';
+import { COLOR_MUTED, COLOR_TEXT, MARGIN, PAGE_WIDTH, PdfWriter, createPdfDocument } from './pdfExport';
+import { getCandidateContacts } from './letterExport';
+import { containsKeyword } from './resumeTailoring';
+import { translate } from './i18n';
+
+/**
+ * Экспорт адаптированного резюме в PDF
+ *
+ * Секции выводятся в порядке getVisibleSections (закрепленные первыми,
+ * скрытые пропускаются). Совпавшие с вакансией навыки выделяются
+ * отдельной строкой акцентным цветом шаблона.
+ */
+
+type Rgb = [number, number, number];
+
+/**
+ * Параметры оформления шаблона
+ */
+interface ResumeTemplateStyle {
+  /** Цвет имени и заголовков секций */
+  accent: Rgb;
+  /** Цветная полоса в шапке (только modern) */
+  headerBand: boolean;
+  /** Заголовки секций заглавными буквами */
+  uppercaseHeadings: boolean;
+  nameSize: number;
+  headingSize: number;
+  bodySize: number;
+  /** Отступ после секции, мм */
+  sectionGap: number;
+}
+
+const TEMPLATE_STYLES: Record<ResumeTemplateId, ResumeTemplateStyle> = {
+  classic: {
+    accent: COLOR_TEXT,
+    headerBand: false,
+    uppercaseHeadings: true,
+    nameSize: 20,
+    headingSize: 12,
+    bodySize: 10.5,
+    sectionGap: 6,
+  },
+  modern: {
+    accent: [37, 99, 235],
+    headerBand: true,
+    uppercaseHeadings: false,
+    nameSize: 22,
+    headingSize: 13,
+    bodySize: 10.5,
+    sectionGap: 6,
+  },
+  compact: {
+    accent: [55, 65, 81],
+    headerBand: false,
+    uppercaseHeadings: true,
+    nameSize: 16,
+    headingSize: 10.5,
+    bodySize: 9,
+    sectionGap: 3,
+  },
+};
+
+/**
+ * Заголовок секции с линией
+ */
+function renderHeading(writer: PdfWriter, title: string, style: ResumeTemplateStyle) {
+  writer.ensureSpace(12);
+  writer.text(style.uppercaseHeadings ? title.toUpperCase() : title, {
+    size: style.headingSize,
+    bold: true,
+    color: style.accent,
+    gapAfter: 1,
+  });
+  writer.rule(3, style.accent);
+}
+
+/**
+ * Вывод одной секции резюме
+ */
+function renderSection(
+  writer: PdfWriter,
+  sectionId: ResumeSectionId,
+  tailored: TailoredResume,
+  style: ResumeTemplateStyle
+) {
+  const resume = tailored.resume_data;
+  const body = style.bodySize;
+
+  switch (sectionId) {
+    case 'summary':
+      if (!resume.summary) return;
+      renderHeading(writer, getSectionTitle(sectionId), style);
+      writer.text(resume.summary, { size: body });
+      break;
+
+    case 'experience':
+      if (resume.experience.length === 0) return;
+      renderHeading(writer, getSectionTitle(sectionId), style);
+      resume.experience.forEach((job, index) => {
+        const period = [job.start_date, job.end_date].filter(Boolean).join(' — ');
+        writer.text(`${job.position}, ${job.company}`, { size: body + 0.5, bold: true });
+        if (period) {
+          writer.text(period, { size: body - 1, color: COLOR_MUTED, gapAfter: 1 });
+        }
+        for (const bullet of job.bullet_list) {
+          writer.text(`•  ${bullet}`, { size: body, indent: 3 });
+        }
+        if (index < resume.experience.length - 1) writer.y += 2;
+      });
+      break;
+
+    case 'skills': {
+      const allSkills = [...resume.skills.hard_skills, ...resume.skills.soft_skills];
+      if (allSkills.length === 0) return;
+      renderHeading(writer, getSectionTitle(sectionId), style);
+
+      const isMatched = (skill: string) =>
+        tailored.matched_keywords.some(keyword => containsKeyword(skill, keyword) || containsKeyword(keyword, skill));
+      const matched = allSkills.filter(isMatched);
+      const other = allSkills.filter(skill => !isMatched(skill));
+
+      if (matched.length > 0) {
+        writer.text(translate('pdf.keySkills', { skills: matched.join(', ') }), {
+          size: body,
+          bold: true,
+          color: style.accent,
+          gapAfter: 1,
+        });
+      }
+      if (other.length > 0) {
+        const otherText = other.join(', ');
+        writer.text(matched.length > 0 ? translate('pdf.otherSkills', { skills: otherText }) : otherText, { size: body });
+      }
+      break;
+    }
+
+    case 'education':
+      if (resume.education.length === 0) return;
+      renderHeading(writer, getSectionTitle(sectionId), style);
+      for (const edu of resume.education) {
+        writer.text(edu.institution, { size: body, bold: true });
+        const details = [edu.degree, edu.field_of_study, edu.graduation_year].filter(Boolean).join(', ');
+        if (details) writer.text(details, { size: body - 0.5, color: COLOR_MUTED });
+        writer.y += 1;
+      }
+      break;
+
+    case 'languages':
+      if (resume.skills.languages.length === 0) return;
+      renderHeading(writer, getSectionTitle(sectionId), style);
+      writer.text(resume.skills.languages.join(', '), { size: body });
+      break;
+  }
+
+  writer.y += style.sectionGap;
+}
+
+/**
+ * Сборка PDF документа адаптированного резюме
+ */
+export async function buildTailoredResumePdf(tailored: TailoredResume): Promise<jsPDF> {
+  const doc = await createPdfDocument();
+  const writer = new PdfWriter(doc);
+  const style = TEMPLATE_STYLES[tailored.settings.template] ?? TEMPLATE_STYLES.classic;
+  const resume = tailored.resume_data;
+
+  if (style.headerBand) {
+    doc.setFillColor(...style.accent);
+    doc.rect(0, 0, PAGE_WIDTH, 6, 'F');
+    writer.y = MARGIN - 4;
+  }
+
+  writer.text(getFullName(resume), { size: style.nameSize, bold: true, color: style.accent, gapAfter: 1 });
+  if (resume.desired_position) {
+    writer.text(resume.desired_position, { size: style.bodySize + 1.5, gapAfter: 1 });
+  }
+  const contacts = getCandidateContacts(resume);
+  if (contacts.length > 0) {
+    writer.text(contacts.join('  •  '), { size: style.bodySize - 1, color: COLOR_MUTED });
+  }
+  writer.y += style.sectionGap;
+
+  for (const sectionId of getVisibleSections(tailored.settings)) {
+    renderSection(writer, sectionId, tailored, style);
+  }
+
+  return doc;
+}
+
+/**
+ * Имя файла на языке интерфейса, например "Резюме_Иван_Петров_Яндекс.pdf"
+ */
+function getResumeFileName(tailored: TailoredResume, jobData?: Partial<JobData> | null): string {
+  return `${translate('pdf.resumeFileNamePrefix')}_${[getFullName(tailored.resume_data), jobData?.company_name]
+    .filter(Boolean)
+    .join('_')
+    .replace(/[<>:"/\\|?*]/g, '')
+    .trim()
+    .replace(/\s+/g, '_')
+    .substring(0, 80)}.pdf`;
+}
+
+/**
+ * Сборка PDF адаптированного резюме и скачивание файла
+ */
+export async function exportTailoredResumePdf(
+  tailored: TailoredResume,
+  jobData?: Partial<JobData> | null
+): Promise<void> {
+  const doc = await buildTailoredResumePdf(tailored);
+  doc.save(getResumeFileName(tailored, jobData));
+}
@@ -0,0 +1,209 @@
+import { supabase } from './supabase';
+import { ResumeData, validateResumeData } from '../types/resumeData';
+import { translate } from './i18n';
+import { CreateSavedResumeData, ResumeVersion, SavedResume } from '../types/savedResume';
+
+/**
+ * Хранение резюме пользователя между генерациями
+ *
+ * - Исходный файл загружается в bucket resumes (папка user_id/) по подписанному URL
+ *   от Edge Function upload-resume
+ * - Распарсенные данные сохраняются в таблицу resumes через ту же функцию
+ * - Чтение, удаление и выбор резюме по умолчанию - напрямую через клиент Supabase (RLS)
+ * - Каждая сохраненная правка резюме записывается в таблицу resume_versions (история изменений)
+ */
+
+const UPLOAD_RESUME_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/upload-resume`;
+
+/**
+ * Вызов Edge Function upload-resume с токеном текущей сессии
+ */
+async function callUploadResumeFunction<T>(body: Record<string, unknown>): Promise<T> {
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+  if (sessionError || !session) {
+    throw new Error(translate('data.notAuthenticated'));
+  }
+
+  const response = await fetch(UPLOAD_RESUME_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return result as T;
+}
+
+/**
+ * Список сохраненных версий резюме, новые сверху
+ */
+export async function listSavedResumes(userId: string): Promise<SavedResume[]> {
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Резюме по умолчанию (или null, если пользователь еще ничего не сохранял)
+ */
+export async function getDefaultResume(userId: string): Promise<SavedResume | null> {
+  const { data, error } = await supabase
+    .from('resumes')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_default', true)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Загрузка исходного файла резюме в Storage
+ *
+ * @returns путь файла в bucket resumes
+ */
+export async function uploadResumeFile(file: File): Promise<string> {
+  const { path, token } = await callUploadResumeFunction<{ path: string; token: string }>({
+    action: 'create_upload_url',
+    fileName: file.name,
+    fileSize: file.size,
+    contentType: file.type,
+  });
+
+  const { error } = await supabase.storage
+    .from('resumes')
+    .uploadToSignedUrl(path, token, file, { contentType: file.type });
+
+  if (error) {
+    throw error;
+  }
+
+  return path;
+}
+
+/**
+ * Сохранение новой версии резюме
+ * Первая версия пользователя автоматически становится резюме по умолчанию
+ */
+export async function saveResumeVersion(data: CreateSavedResumeData): Promise<SavedResume> {
+  const { resume } = await callUploadResumeFunction<{ resume: SavedResume }>({
+    action: 'save_resume',
+    ...data,
+  });
+
+  return resume;
+}
+
+/**
+ * Выбор резюме по умолчанию
+ */
+export async function setDefaultResume(resumeId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('set_default_resume', { resume_id: resumeId });
+
+  if (error) {
+    throw error;
+  }
+  if (data === false) {
+    throw new Error(translate('data.resumeNotFound'));
+  }
+}
+
+/**
+ * Удаление версии резюме вместе с файлом, если на него больше никто не ссылается
+ */
+export async function deleteSavedResume(resume: SavedResume): Promise<void> {
+  const { error } = await supabase
+    .from('resumes')
+    .delete()
+    .eq('id', resume.id)
+    .eq('user_id', resume.user_id);
+
+  if (error) {
+    throw error;
+  }
+
+  if (!resume.file_path) return;
+
+  // Отредактированные версии ссылаются на тот же файл, что и исходная
+  const { count } = await supabase
+    .from('resumes')
+    .select('id', { count: 'exact', head: true })
+    .eq('file_path', resume.file_path);
+
+  if (!count) {
+    const { error: storageError } = await supabase.storage.from('resumes').remove([resume.file_path]);
+    if (storageError) {
+      console.warn('⚠️ Не удалось удалить файл резюме из Storage:', storageError);
+    }
+  }
+}
+
+/**
+ * История правок резюме, новые сверху
+ */
+export async function listResumeVersions(resumeId: string): Promise<ResumeVersion[]> {
+  const { data, error } = await supabase
+    .from('resume_versions')
+    .select('*')
+    .eq('resume_id', resumeId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Сохранение правки резюме: обновляет данные резюме и добавляет запись в историю
+ *
+ * @param restoredFrom - ID правки, если данные восстановлены из истории
+ */
+export async function saveResumeEdit(
+  resumeId: string,
+  resumeData: ResumeData,
+  restoredFrom: string | null = null
+): Promise<ResumeVersion> {
+  // Правка проверяется полной схемой: резюме по умолчанию уходит в генерации без изменений
+  const validation = validateResumeData(resumeData);
+  if (!validation.isValid) {
+    throw new Error(translate('resume.validationFailed', { errors: validation.errors.join(', ') }));
+  }
+
+  const { data, error } = await supabase.rpc('save_resume_edit', {
+    resume_id: resumeId,
+    resume_data: resumeData,
+    restored_from: restoredFrom,
+  });
+
+  if (error) {
+    throw error;
+  }
+  // Для чужого или удаленного резюме функция возвращает пустую запись
+  if (!data?.id) {
+    throw new Error(translate('data.resumeNotFound'));
+  }
+
+  return data as ResumeVersion;
+}
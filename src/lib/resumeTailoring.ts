@@ -0,0 +1,212 @@
+import { ResumeData } from '../types/resumeData';
+import { JobData, ScoringResults } from '../types/generation';
+import { ResumeSectionId, TailoredResume, TailoringSettings } from '../types/tailoredResume';
+
+/**
+ * Адаптация резюме под вакансию
+ *
+ * Работает локально, без обращения к AI:
+ * 1. Собирает ключевые слова вакансии (навыки и должность)
+ * 2. Сортирует пункты bullet_list каждого места работы по числу совпадений
+ * 3. Поднимает совпавшие hard/soft skills в начало списков
+ * 4. Возвращает найденные ключевые слова для подсветки
+ *
+ * Сортировка стабильная: при равной релевантности исходный порядок сохраняется.
+ */
+
+/**
+ * Фрагмент текста для подсветки ключевых слов
+ */
+export interface HighlightSegment {
+  text: string;
+  matched: boolean;
+}
+
+/**
+ * Приведение текста к виду для сравнения
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/ё/g, 'е').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Регулярное выражение для поиска ключевого слова целиком
+ * (не внутри другого слова: "Java" не совпадает с "JavaScript")
+ */
+function keywordPattern(keyword: string, flags = 'iu'): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(keyword)}(?![\\p{L}\\p{N}])`, flags);
+}
+
+/**
+ * Ключевые слова вакансии: hard/soft skills, required_skills и должность
+ */
+export function collectJobKeywords(jobData: Partial<JobData> | null | undefined): string[] {
+  if (!jobData) return [];
+
+  const candidates = [
+    ...(jobData.skills?.hard_skills ?? []),
+    ...(jobData.skills?.soft_skills ?? []),
+    ...(jobData.required_skills ?? []),
+    ...(jobData.job_title ? [jobData.job_title] : []),
+  ];
+
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string') continue;
+    const keyword = candidate.trim();
+    const key = normalize(keyword);
+    if (key.length < 2 || seen.has(key)) continue;
+    seen.add(key);
+    keywords.push(keyword);
+  }
+  return keywords;
+}
+
+/**
+ * Проверка вхождения ключевого слова в текст
+ */
+export function containsKeyword(text: string, keyword: string): boolean {
+  return keywordPattern(normalize(keyword)).test(normalize(text));
+}
+
+/**
+ * Релевантность текста: число совпавших ключевых слов
+ */
+export function getRelevance(text: string, keywords: string[]): number {
+  return keywords.reduce((count, keyword) => count + (containsKeyword(text, keyword) ? 1 : 0), 0);
+}
+
+/**
+ * Стабильная сортировка по убыванию релевантности
+ */
+function sortByRelevance(items: string[], keywords: string[]): string[] {
+  return items
+    .map((item, index) => ({ item, index, relevance: getRelevance(item, keywords) }))
+    .sort((a, b) => b.relevance - a.relevance || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+/**
+ * Навык совпадает, если он встречается среди ключевых слов или содержит одно из них
+ */
+function sortSkills(skills: string[], keywords: string[]): string[] {
+  const isMatched = (skill: string) =>
+    keywords.some(keyword => containsKeyword(skill, keyword) || containsKeyword(keyword, skill));
+
+  return skills
+    .map((skill, index) => ({ skill, index, matched: isMatched(skill) }))
+    .sort((a, b) => Number(b.matched) - Number(a.matched) || a.index - b.index)
+    .map(({ skill }) => skill);
+}
+
+/**
+ * Текстовое представление резюме для поиска совпадений
+ */
+function getResumeText(resumeData: ResumeData): string {
+  return [
+    resumeData.summary,
+    resumeData.desired_position,
+    ...resumeData.skills.hard_skills,
+    ...resumeData.skills.soft_skills,
+    ...resumeData.skills.languages,
+    ...resumeData.experience.flatMap(job => [job.position, ...job.bullet_list]),
+    ...resumeData.education.flatMap(edu => [edu.degree ?? '', edu.field_of_study ?? '']),
+  ].join('\n');
+}
+
+/**
+ * Настройки по умолчанию
+ *
+ * Если скорринг показал, что опыт соответствует вакансии лучше навыков,
+ * закрепляем опыт работы, иначе - навыки
+ */
+export function getDefaultTailoringSettings(scoringResults?: ScoringResults | null): TailoringSettings {
+  const breakdown = scoringResults?.scoring_result?.breakdown;
+  let pinned: ResumeSectionId[] = ['skills'];
+
+  if (breakdown && breakdown.experience_match.score > breakdown.hard_skills.score) {
+    pinned = ['experience'];
+  }
+
+  return {
+    template: 'classic',
+    pinned_sections: pinned,
+    hidden_sections: [],
+  };
+}
+
+/**
+ * Адаптация резюме под вакансию
+ *
+ * @param resumeData - исходное резюме (не изменяется)
+ * @param jobData - данные вакансии
+ * @param settings - пользовательские настройки секций и шаблона
+ * @returns адаптированное резюме
+ */
+export function tailorResume(
+  resumeData: ResumeData,
+  jobData: Partial<JobData> | null | undefined,
+  settings: TailoringSettings
+): TailoredResume {
+  const keywords = collectJobKeywords(jobData);
+
+  const tailoredData: ResumeData = {
+    ...resumeData,
+    skills: {
+      ...resumeData.skills,
+      hard_skills: sortSkills(resumeData.skills.hard_skills, keywords),
+      soft_skills: sortSkills(resumeData.skills.soft_skills, keywords),
+    },
+    experience: resumeData.experience.map(job => ({
+      ...job,
+      bullet_list: sortByRelevance(job.bullet_list, keywords),
+    })),
+  };
+
+  const resumeText = getResumeText(resumeData);
+  const matchedKeywords = keywords.filter(keyword => containsKeyword(resumeText, keyword));
+
+  return {
+    resume_data: tailoredData,
+    matched_keywords: matchedKeywords,
+    settings,
+    tailored_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Разбиение текста на фрагменты для подсветки совпавших ключевых слов
+ */
+export function splitByKeywords(text: string, keywords: string[]): HighlightSegment[] {
+  if (!text || keywords.length === 0) {
+    return [{ text, matched: false }];
+  }
+
+  // Более длинные ключевые слова проверяем первыми ("React Native" раньше "React")
+  const sorted = [...keywords].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(
+    sorted.map(keyword => keywordPattern(keyword).source).join('|'),
+    'giu'
+  );
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start), matched: false });
+    }
+    segments.push({ text: match[0], matched: true });
+    lastIndex = start + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), matched: false });
+  }
+
+  return segments;
+}
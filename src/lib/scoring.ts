@@ -0,0 +1,330 @@
+import { ResumeData } from '../types/resumeData';
+import { JobData, ScoringResults } from '../types/generation';
+import { scoreMatch, AiGatewayRequestOptions } from './aiGateway';
+import { LetterLanguage } from './letterLanguage';
+import { getCurrentLocale, Locale, translate } from './i18n';
+
+/**
+ * Скорринг соответствия резюме и вакансии
+ *
+ * Общий для пошагового мастера (MatchingResults) и пакетного анализа вакансий
+ */
+
+/**
+ * Параметры скорринга: запрос к шлюзу и язык выводов
+ */
+export interface ScoringOptions extends AiGatewayRequestOptions {
+  /** Язык выводов и рекомендаций (язык письма) */
+  language?: LetterLanguage;
+}
+
+/**
+ * ОБНОВЛЕННАЯ ФУНКЦИЯ: Валидация данных перед отправкой на скорринг
+ * 
+ * Проверяет наличие всех необходимых данных для анализа соответствия
+ * 
+ * @param resumeData - данные резюме
+ * @param jobData - данные вакансии
+ * @param userId - идентификатор пользователя
+ * @param locale - язык сообщений об ошибках
+ * @returns объект с результатом валидации
+ */
+export const validateScoringData = (
+  resumeData: ResumeData | null,
+  jobData: JobData | null,
+  userId: string,
+  locale: Locale = getCurrentLocale()
+) => {
+  const errors: string[] = [];
+
+  console.log('🔍 ВАЛИДАЦИЯ ДАННЫХ ДЛЯ НОВОГО СКОРРИНГА:');
+  console.log('📄 Resume Data:', resumeData);
+  console.log('💼 Job Data:', jobData);
+  console.log('👤 User ID:', userId);
+
+  // Проверка данных резюме
+  if (!resumeData) {
+    errors.push(translate('data.scoringResumeMissing', undefined, locale));
+    console.error('❌ Данные резюме отсутствуют полностью');
+  } else {
+    console.log('✅ Данные резюме присутствуют');
+    console.log('  - Имя:', resumeData.personal_info.first_name);
+    console.log('  - Фамилия:', resumeData.personal_info.last_name);
+    console.log('  - Навыки:', resumeData.skills);
+    console.log('  - Опыт работы:', resumeData.experience);
+    console.log('  - Образование:', resumeData.education);
+    
+    // Проверка критически важных полей резюме
+    if (!resumeData.personal_info.first_name || resumeData.personal_info.first_name.trim().length === 0) {
+      errors.push(translate('data.scoringFirstNameMissing', undefined, locale));
+      console.error('❌ В резюме отсутствует имя кандидата');
+    }
+    if (!resumeData.personal_info.last_name || resumeData.personal_info.last_name.trim().length === 0) {
+      errors.push(translate('data.scoringLastNameMissing', undefined, locale));
+      console.error('❌ В резюме отсутствует фамилия кандидата');
+    }
+    if (!resumeData.skills.hard_skills.length && !resumeData.skills.soft_skills.length) {
+      errors.push(translate('data.scoringSkillsMissing', undefined, locale));
+      console.error('❌ В резюме не указаны навыки');
+    } else {
+      // Проверяем, что навыки содержат осмысленные данные
+      const hardSkills = resumeData.skills.hard_skills;
+      const softSkills = resumeData.skills.soft_skills;
+      const totalSkills = [...hardSkills, ...softSkills];
+      
+      const validSkills = totalSkills.filter(skill => 
+        skill && typeof skill === 'string' && skill.trim().length > 0
+      );
+      
+      if (validSkills.length === 0) {
+        errors.push(translate('data.scoringSkillsInvalid', undefined, locale));
+        console.error('❌ Навыки в резюме пустые или некорректные');
+      }
+    }
+    
+    // Проверка опыта работы
+    if (resumeData.experience.length === 0) {
+      console.warn('⚠️ В резюме нет записей об опыте работы');
+    } else {
+      const validExperience = resumeData.experience.filter(exp => 
+        exp && exp.position && exp.position.trim().length > 0
+      );
+      if (validExperience.length === 0) {
+        console.warn('⚠️ Опыт работы в резюме не содержит валидных позиций');
+      }
+    }
+  }
+
+  // Проверка данных вакансии
+  if (!jobData) {
+    errors.push(translate('data.scoringJobMissing', undefined, locale));
+    console.error('❌ Данные вакансии отсутствуют полностью');
+  } else {
+    console.log('✅ Данные вакансии присутствуют');
+    console.log('  - Должность:', jobData.job_title);
+    console.log('  - Компания:', jobData.company_name);
+    console.log('  - Требуемые навыки:', jobData.required_skills);
+    console.log('  - Локация:', jobData.location);
+    console.log('  - Отрасль:', jobData.industry);
+    
+    if (!jobData.job_title || jobData.job_title.trim().length === 0) {
+      errors.push(translate('data.scoringJobTitleMissing', undefined, locale));
+      console.error('❌ В вакансии не указана должность');
+    }
+    if (!jobData.company_name || jobData.company_name.trim().length === 0) {
+      errors.push(translate('data.scoringCompanyMissing', undefined, locale));
+      console.error('❌ В вакансии не указана компания');
+    }
+    
+    // Проверка требуемых навыков
+    if (!jobData.required_skills || !Array.isArray(jobData.required_skills) || jobData.required_skills.length === 0) {
+      console.warn('⚠️ В вакансии не указаны требуемые навыки');
+    } else {
+      const validRequiredSkills = jobData.required_skills.filter(skill => 
+        skill && typeof skill === 'string' && skill.trim().length > 0
+      );
+      if (validRequiredSkills.length === 0) {
+        console.warn('⚠️ Требуемые навыки в вакансии пустые или некорректные');
+      }
+    }
+    
+    // Проверка описания вакансии
+    if (!jobData.description || jobData.description.trim().length === 0) {
+      console.warn('⚠️ В вакансии отсутствует описание');
+    }
+  }
+
+  // Проверка user_id
+  if (!userId || userId.trim().length === 0) {
+    errors.push(translate('data.scoringUserIdMissing', undefined, locale));
+    console.error('❌ Отсутствует user_id');
+  } else {
+    console.log('✅ User ID присутствует:', userId);
+    
+    // Проверка формата user_id
+    if (userId.length < 3) {
+      errors.push(translate('data.scoringUserIdInvalid', undefined, locale));
+      console.error('❌ Некорректный формат user_id:', userId);
+    }
+  }
+
+  const isValid = errors.length === 0;
+  console.log(`📊 РЕЗУЛЬТАТ ВАЛИДАЦИИ: ${isValid ? '✅ УСПЕШНО' : '❌ ОШИБКИ'}`);
+  if (!isValid) {
+    console.error('❌ Ошибки валидации:', errors);
+  } else {
+    console.log('✅ Все данные прошли валидацию, готовы к отправке на новый API');
+  }
+
+  return {
+    isValid,
+    errors
+  };
+};
+
+/**
+ * ОБНОВЛЕННАЯ ФУНКЦИЯ: Отправка запроса к новому API эндпоинту для скорринга
+ * 
+ * Логика работы:
+ * 1. Валидирует входные данные
+ * 2. Отправляет resume_data, job_data и user_id через AI-шлюз (scoreMatch)
+ * 3. Шлюз проверяет ответ согласно новой схеме с scoring_result
+ * 4. Проверяет диапазоны баллов и логирует итог
+ * 
+ * @param resumeData - данные резюме из предыдущего шага
+ * @param jobData - данные вакансии из предыдущего шага
+ * @param userId - идентификатор пользователя
+ * @param options - параметры запроса к шлюзу (сигнал отмены, таймаут) и язык выводов
+ * @returns Promise<ScoringResults> - результаты скорринга от нового API
+ */
+export const performScoringAnalysis = async (
+  resumeData: ResumeData, 
+  jobData: JobData,
+  userId: string,
+  options: ScoringOptions = {}
+): Promise<ScoringResults> => {
+  console.log('🚀 НАЧАЛО ФУНКЦИИ performScoringAnalysis (НОВЫЙ API)');
+  console.log('📥 Входные параметры:');
+  console.log('  - resumeData:', resumeData);
+  console.log('  - jobData:', jobData);
+  console.log('  - userId:', userId);
+
+  // Валидация входных данных
+  const validation = validateScoringData(resumeData, jobData, userId);
+  if (!validation.isValid) {
+    const errorMessage = translate('data.scoringValidationFailed', { errors: validation.errors.join(', ') });
+    console.error('❌ ВАЛИДАЦИЯ НЕ ПРОЙДЕНА:', errorMessage);
+    throw new Error(errorMessage);
+  }
+
+  try {
+    // Шлюз проверяет структуру ответа (scoring_result и breakdown)
+    const responseData = await scoreMatch({ resumeData, jobData, userId, language: options.language }, options);
+
+    const { scoring_result: scoringResult } = responseData;
+    const breakdown = scoringResult.breakdown;
+
+    // Проверка диапазонов значений (0-100)
+    const scoreFields = [
+      { name: 'total_score', value: scoringResult.total_score },
+      { name: 'breakdown.hard_skills.score', value: breakdown.hard_skills.score },
+      { name: 'breakdown.soft_skills.score', value: breakdown.soft_skills.score },
+      { name: 'breakdown.experience_match.score', value: breakdown.experience_match.score },
+      { name: 'breakdown.position_match.score', value: breakdown.position_match.score }
+    ];
+
+    for (const scoreField of scoreFields) {
+      const isValid = typeof scoreField.value === 'number' && scoreField.value >= 0 && scoreField.value <= 100;
+      if (!isValid) {
+        console.warn(`⚠️ Значение ${scoreField.name} вне диапазона 0-100: ${scoreField.value}`);
+      }
+    }
+
+    console.log('✅ НОВЫЙ СКОРРИНГ УСПЕШНО ВЫПОЛНЕН ЧЕРЕЗ GEMINI AI');
+    console.log('📊 Итоговые результаты:');
+    console.log('  - Общий балл:', scoringResult.total_score);
+    console.log('  - Технические навыки:', breakdown.hard_skills.score);
+    console.log('  - Гибкие навыки:', breakdown.soft_skills.score);
+    console.log('  - Соответствие опыта:', breakdown.experience_match.score);
+    console.log('  - Соответствие должности:', breakdown.position_match.score);
+    console.log('  - Категория совпадения:', scoringResult.recommendation);
+
+    return responseData;
+
+  } catch (error) {
+    console.error('❌ ОШИБКА В performScoringAnalysis (НОВЫЙ API):', error);
+    throw error;
+  }
+};
+
+/**
+ * Подписи текста скорринга на языках письма
+ */
+export const SCORING_TEXT_LABELS: Record<LetterLanguage, {
+  unavailable: string;
+  intro: string;
+  hard_skills: string;
+  soft_skills: string;
+  experience_match: string;
+  position_match: string;
+  total: string;
+  recruiter_recommendation: string;
+}> = {
+  ru: {
+    unavailable: 'Результаты скорринга недоступны. Выполните анализ соответствия на предыдущем шаге.',
+    intro: 'Ниже приведены значения скорринга вакансии и кандидата:',
+    hard_skills: 'Технические навыки',
+    soft_skills: 'Гибкие навыки',
+    experience_match: 'Соответствие опыта',
+    position_match: 'Соответствие должности',
+    total: 'Итого',
+    recruiter_recommendation: 'Рекомендация для рекрутера от ИИ',
+  },
+  en: {
+    unavailable: 'Scoring results are not available. Run the match analysis in the previous step.',
+    intro: 'Below are the candidate-to-vacancy match scores:',
+    hard_skills: 'Hard skills',
+    soft_skills: 'Soft skills',
+    experience_match: 'Experience match',
+    position_match: 'Position match',
+    total: 'Total',
+    recruiter_recommendation: 'AI recommendation for the recruiter',
+  },
+  uk: {
+    unavailable: 'Результати скорингу недоступні. Виконайте аналіз відповідності на попередньому кроці.',
+    intro: 'Нижче наведено значення скорингу вакансії та кандидата:',
+    hard_skills: 'Технічні навички',
+    soft_skills: "М'які навички",
+    experience_match: 'Відповідність досвіду',
+    position_match: 'Відповідність посаді',
+    total: 'Разом',
+    recruiter_recommendation: 'Рекомендація для рекрутера від ШІ',
+  },
+  kk: {
+    unavailable: 'Скоринг нәтижелері қолжетімсіз. Алдыңғы қадамда сәйкестік талдауын орындаңыз.',
+    intro: 'Төменде вакансия мен кандидаттың скоринг мәндері берілген:',
+    hard_skills: 'Техникалық дағдылар',
+    soft_skills: 'Икемді дағдылар',
+    experience_match: 'Тәжірибенің сәйкестігі',
+    position_match: 'Лауазымның сәйкестігі',
+    total: 'Барлығы',
+    recruiter_recommendation: 'ЖИ-дің рекрутерге ұсынысы',
+  },
+};
+
+/**
+ * Текстовое представление скорринга для копирования в письма и документы
+ *
+ * Подписи выводятся на языке письма; выводы скорринга приходят
+ * от AI уже на этом языке
+ *
+ * @param results - результаты скорринга или null, если скорринг не выполнен
+ * @param language - язык письма
+ */
+export const buildScoringText = (results: ScoringResults | null, language: LetterLanguage = 'ru'): string => {
+  const labels = SCORING_TEXT_LABELS[language];
+
+  if (!results?.scoring_result) {
+    return labels.unavailable;
+  }
+
+  const { breakdown, total_score: totalScore, recruiter_recommendation: recruiterRec } = results.scoring_result;
+
+  return `${labels.intro}
+
+1. ${labels.hard_skills}: ${breakdown.hard_skills.score}%.
+"${breakdown.hard_skills.summary}"
+
+2. ${labels.soft_skills}: ${breakdown.soft_skills.score}%.
+"${breakdown.soft_skills.summary}"
+
+3. ${labels.experience_match}: ${breakdown.experience_match.score}%.
+"${breakdown.experience_match.summary}"
+
+4. ${labels.position_match}: ${breakdown.position_match.score}%.
+"${breakdown.position_match.summary}"
+
+5. ${labels.total}: ${totalScore}%
+
+6. ${labels.recruiter_recommendation}: "${recruiterRec}"`;
+};
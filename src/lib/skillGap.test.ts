@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateMissingSkills, buildSkillGapReport, countSkillDemand, getLearningActions } from './skillGap';
+import { ResumeData } from '../types/resumeData';
+import { JobData } from '../types/generation';
+
+/**
+ * Тесты отчета о недостающих навыках: востребованность, группировка и рекомендации
+ */
+
+/** Резюме, в котором заполнены только навыки */
+const resumeWithSkills = (skills: ResumeData['skills']) => ({ skills }) as Partial<ResumeData> as ResumeData;
+
+const RESUME = resumeWithSkills({
+  hard_skills: ['JavaScript', 'React', 'Postgres'],
+  soft_skills: ['Коммуникация'],
+  languages: ['Английский B2', 'Немецкий'],
+});
+
+const JOB: JobData = {
+  job_title: 'Frontend-разработчик',
+  company_name: 'Яндекс',
+  skills: {
+    hard_skills: ['JS', 'TypeScript', 'Docker', 'Redux', 'Kubernetes', 'Next.js', 'PostgreSQL'],
+    soft_skills: ['Коммуникация', 'Наставничество'],
+    languages: ['English C1', 'German', 'French'],
+  },
+};
+
+const jobSkills = (hard_skills: string[], languages: string[] = []) => ({
+  job_skills: { hard_skills, soft_skills: [], languages },
+});
+
+describe('countSkillDemand', () => {
+  it('считает вакансии по каноническим названиям, без повторов внутри одной вакансии', () => {
+    const demand = countSkillDemand([
+      jobSkills(['Docker', 'docker', 'TS']),
+      jobSkills(['Docker', 'TypeScript'], ['English']),
+      { job_skills: null, job_required_skills: ['Docker'] },
+      {},
+    ]);
+
+    expect(Object.fromEntries(demand)).toEqual({ docker: 3, typescript: 2, english: 1 });
+  });
+});
+
+describe('buildSkillGapReport', () => {
+  it('группирует недостающие навыки по категориям в порядке отображения', () => {
+    const report = buildSkillGapReport(RESUME, JOB, [], 'ru');
+
+    expect(report.groups.map(group => [group.category, group.items.map(item => item.skill)])).toEqual([
+      ['programming_language', ['TypeScript']],
+      ['framework', ['Redux', 'Next.js']],
+      ['infrastructure', ['Docker', 'Kubernetes']],
+      ['soft', ['Наставничество']],
+      ['language', ['English C1', 'French']],
+    ]);
+    expect(report.groups[0].title).toBe('Языки программирования и разметки');
+    expect(report.total_missing).toBe(8);
+    expect(report.history_size).toBe(0);
+  });
+
+  it('ранжирует навыки внутри категории по востребованности', () => {
+    const history = [jobSkills(['Kubernetes', 'Next.js']), jobSkills(['Kubernetes']), jobSkills(['Kubernetes'])];
+    const report = buildSkillGapReport(RESUME, JOB, history, 'ru');
+
+    const infrastructure = report.groups.find(group => group.category === 'infrastructure');
+    expect(infrastructure?.items.map(item => [item.skill, item.demand])).toEqual([['Kubernetes', 3], ['Docker', 0]]);
+
+    const framework = report.groups.find(group => group.category === 'framework');
+    expect(framework?.items.map(item => item.skill)).toEqual(['Next.js', 'Redux']);
+    expect(report.history_size).toBe(3);
+  });
+
+  it('язык с уровнем ниже требуемого считается недостающим', () => {
+    const languages = (resume: string[], job: string[]) =>
+      buildSkillGapReport(
+        resumeWithSkills({ hard_skills: [], soft_skills: [], languages: resume }),
+        { job_title: '', company_name: '', skills: { hard_skills: [], soft_skills: [], languages: job } },
+        [],
+        'ru'
+      ).groups.flatMap(group => group.items.map(item => item.skill));
+
+    expect(languages(['English B2'], ['English C1'])).toEqual(['English C1']);
+    expect(languages(['English — fluent'], ['English B2'])).toEqual([]);
+    expect(languages(['English'], ['English C1'])).toEqual([]);
+    expect(languages(['English B2'], ['English'])).toEqual([]);
+  });
+
+  it('пустой отчет, если все навыки есть в резюме', () => {
+    const report = buildSkillGapReport(RESUME, { job_title: '', company_name: '', required_skills: ['React', 'JS'] }, [], 'ru');
+
+    expect(report.groups).toEqual([]);
+    expect(report.total_missing).toBe(0);
+  });
+});
+
+describe('getLearningActions', () => {
+  it('действия категории и предложение добавить навык в резюме', () => {
+    expect(getLearningActions('Docker', 'infrastructure', 0, 'ru')).toEqual([
+      'Разверните свой проект с использованием Docker',
+      'Пройдите практический курс или лабораторные работы по Docker',
+      'Если Docker у вас уже есть, добавьте навык в резюме с примером применения',
+    ]);
+  });
+
+  it('для гибких навыков не предлагается добавить их в резюме', () => {
+    expect(getLearningActions('Наставничество', 'soft', 0, 'ru')).toHaveLength(2);
+  });
+
+  it('востребованный навык получает первым пункт о приоритете', () => {
+    const actions = getLearningActions('Kubernetes', 'infrastructure', 3, 'en');
+
+    expect(actions).toHaveLength(4);
+    expect(actions[0]).toContain('3');
+    expect(getLearningActions('Kubernetes', 'infrastructure', 2, 'en')).toHaveLength(3);
+  });
+});
+
+describe('aggregateMissingSkills', () => {
+  it('считает недостающие навыки по генерациям и пропускает генерации без навыков', () => {
+    const resume_skills = RESUME.skills;
+    const result = aggregateMissingSkills([
+      { ...jobSkills(['Docker', 'React']), resume_skills },
+      { ...jobSkills(['docker', 'Kafka']), resume_skills },
+      jobSkills(['Docker']),
+    ], 1);
+
+    expect(result).toEqual({ skills: [{ skill: 'Docker', category: 'infrastructure', count: 2 }], vacancies: 2 });
+  });
+});
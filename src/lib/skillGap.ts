@@ -0,0 +1,387 @@
+import { ResumeData } from '../types/resumeData';
+import { GenerationSummary, JobData } from '../types/generation';
+import { getExportFileName } from './letterExport';
+import { getCurrentLocale, Locale, MessageKey, translate } from './i18n';
+import { SkillsSource, compareSkills, getLanguageLevel, normalizeSkill } from '../../supabase/functions/_shared/skillMatching.ts';
+
+/**
+ * Отчет о недостающих навыках и план развития
+ *
+ * Недостающие навыки - навыки вакансии, которых нет в резюме (с учетом синонимов).
+ * Они группируются по категориям и ранжируются по тому, как часто встречаются
+ * в сохраненных генерациях пользователя: навык, который требуют многие вакансии,
+ * важнее изучить первым.
+ *
+ * Для языков сравнивается и уровень: "English B2" в резюме не покрывает "English C1"
+ * в вакансии. Если уровень не указан хотя бы с одной стороны, язык считается покрытым.
+ */
+
+/**
+ * Категория навыка
+ */
+export type SkillGapCategory =
+  | 'programming_language'
+  | 'framework'
+  | 'database'
+  | 'infrastructure'
+  | 'tool'
+  | 'other_hard'
+  | 'soft'
+  | 'language';
+
+/**
+ * Ключи названий категорий в порядке отображения
+ */
+export const SKILL_GAP_CATEGORY_TITLE_KEYS: Record<SkillGapCategory, MessageKey> = {
+  programming_language: 'skillGap.category.programming_language',
+  framework: 'skillGap.category.framework',
+  database: 'skillGap.category.database',
+  infrastructure: 'skillGap.category.infrastructure',
+  tool: 'skillGap.category.tool',
+  other_hard: 'skillGap.category.other_hard',
+  soft: 'skillGap.category.soft',
+  language: 'skillGap.category.language',
+};
+
+// Категории технических навыков по каноническим названиям из skillMatching
+const HARD_SKILL_CATEGORIES: Record<string, SkillGapCategory> = {
+  'javascript': 'programming_language',
+  'typescript': 'programming_language',
+  'python': 'programming_language',
+  'java': 'programming_language',
+  'golang': 'programming_language',
+  'c#': 'programming_language',
+  'c++': 'programming_language',
+  'php': 'programming_language',
+  'ruby': 'programming_language',
+  'kotlin': 'programming_language',
+  'swift': 'programming_language',
+  'rust': 'programming_language',
+  'scala': 'programming_language',
+  'sql': 'programming_language',
+  'html': 'programming_language',
+  'css': 'programming_language',
+  'node.js': 'framework',
+  'react': 'framework',
+  'vue': 'framework',
+  'angular': 'framework',
+  'next.js': 'framework',
+  'django': 'framework',
+  'flask': 'framework',
+  'fastapi': 'framework',
+  'spring': 'framework',
+  '.net': 'framework',
+  'laravel': 'framework',
+  'express': 'framework',
+  'redux': 'framework',
+  'postgresql': 'database',
+  'mysql': 'database',
+  'mongodb': 'database',
+  'redis': 'database',
+  'elasticsearch': 'database',
+  'clickhouse': 'database',
+  'oracle': 'database',
+  'sqlite': 'database',
+  'docker': 'infrastructure',
+  'kubernetes': 'infrastructure',
+  'ci/cd': 'infrastructure',
+  'linux': 'infrastructure',
+  'aws': 'infrastructure',
+  'gcp': 'infrastructure',
+  'azure': 'infrastructure',
+  'kafka': 'infrastructure',
+  'rabbitmq': 'infrastructure',
+  'terraform': 'infrastructure',
+  'ansible': 'infrastructure',
+  'nginx': 'infrastructure',
+  'git': 'tool',
+  'jira': 'tool',
+  'confluence': 'tool',
+  'figma': 'tool',
+  'excel': 'tool',
+  'postman': 'tool',
+  '1c': 'tool',
+};
+
+// Ключи шаблонов действий по категориям; {skill} заменяется названием навыка
+const LEARNING_ACTION_KEYS: Record<SkillGapCategory, MessageKey[]> = {
+  programming_language: ['skillGap.action.languageCourse', 'skillGap.action.languageRewrite'],
+  framework: ['skillGap.action.frameworkProject', 'skillGap.action.frameworkDocs'],
+  database: ['skillGap.action.databaseSchema', 'skillGap.action.databaseQueries'],
+  infrastructure: ['skillGap.action.infrastructureDeploy', 'skillGap.action.infrastructureCourse'],
+  tool: ['skillGap.action.toolPractice'],
+  other_hard: ['skillGap.action.otherCourse'],
+  soft: ['skillGap.action.softExample', 'skillGap.action.softFeedback'],
+  language: ['skillGap.action.foreignPractice', 'skillGap.action.foreignCertificate'],
+};
+
+/**
+ * Недостающий навык
+ */
+export interface SkillGapItem {
+  /** Навык в написании вакансии */
+  skill: string;
+  category: SkillGapCategory;
+  /** Во скольких сохраненных вакансиях требуется навык */
+  demand: number;
+  /** Рекомендуемые действия для изучения */
+  actions: string[];
+}
+
+/**
+ * Группа недостающих навыков одной категории
+ */
+export interface SkillGapGroup {
+  category: SkillGapCategory;
+  title: string;
+  items: SkillGapItem[];
+}
+
+/**
+ * Отчет о недостающих навыках для одной вакансии
+ */
+export interface SkillGapReport {
+  job_title: string;
+  company_name: string;
+  /** Количество сохраненных вакансий, по которым посчитана востребованность */
+  history_size: number;
+  groups: SkillGapGroup[];
+  total_missing: number;
+}
+
+/**
+ * Навыки из сохраненной генерации, загружаемые в список генераций
+ */
+type GenerationSkills = Pick<GenerationSummary, 'job_skills' | 'job_required_skills' | 'resume_skills'>;
+
+/**
+ * Категория технического навыка по словарю; неизвестные - other_hard
+ */
+export function getHardSkillCategory(skill: string): SkillGapCategory {
+  return HARD_SKILL_CATEGORIES[normalizeSkill(skill)] ?? 'other_hard';
+}
+
+/**
+ * Рекомендуемые действия для навыка
+ */
+export function getLearningActions(
+  skill: string,
+  category: SkillGapCategory,
+  demand: number,
+  locale: Locale = getCurrentLocale()
+): string[] {
+  const actions = LEARNING_ACTION_KEYS[category].map(key => translate(key, { skill }, locale));
+
+  if (category !== 'soft') {
+    actions.push(translate('skillGap.action.addToResume', { skill }, locale));
+  }
+  if (demand >= 3) {
+    actions.unshift(translate('skillGap.action.highDemand', { count: demand }, locale));
+  }
+
+  return actions;
+}
+
+/**
+ * Навыки вакансии из генерации в виде SkillsSource
+ */
+function toJobSkills(generation: GenerationSkills): SkillsSource {
+  return {
+    skills: generation.job_skills ?? undefined,
+    required_skills: generation.job_required_skills ?? undefined,
+  };
+}
+
+/**
+ * Языки вакансии, которых нет в резюме или которыми кандидат владеет на более низком уровне
+ */
+function findMissingLanguages(candidate: readonly string[], required: readonly string[]): string[] {
+  const overlap = compareSkills(candidate, required);
+  const belowLevel = new Set(
+    overlap.matched
+      .filter(match => {
+        const requiredLevel = getLanguageLevel(match.required);
+        const candidateLevel = getLanguageLevel(match.candidate);
+        return requiredLevel !== null && candidateLevel !== null && candidateLevel < requiredLevel;
+      })
+      .map(match => match.required)
+  );
+
+  // Порядок вакансии сохраняется
+  return [...new Set(required.map(skill => skill.trim()))]
+    .filter(skill => overlap.missing.includes(skill) || belowLevel.has(skill));
+}
+
+/**
+ * Недостающие навыки вакансии по категориям (без учета истории)
+ */
+function findMissingSkills(resume: SkillsSource, job: SkillsSource): { skill: string; category: SkillGapCategory }[] {
+  const jobHardSkills = job.skills?.hard_skills?.length ? job.skills.hard_skills : job.required_skills ?? [];
+
+  return [
+    ...compareSkills(resume.skills?.hard_skills ?? [], jobHardSkills).missing
+      .map(skill => ({ skill, category: getHardSkillCategory(skill) })),
+    ...compareSkills(resume.skills?.soft_skills ?? [], job.skills?.soft_skills ?? []).missing
+      .map(skill => ({ skill, category: 'soft' as const })),
+    ...findMissingLanguages(resume.skills?.languages ?? [], job.skills?.languages ?? [])
+      .map(skill => ({ skill, category: 'language' as const })),
+  ];
+}
+
+/**
+ * Востребованность навыков: в скольких сохраненных вакансиях встречается каждый навык
+ *
+ * @returns канонический навык → количество вакансий
+ */
+export function countSkillDemand(generations: GenerationSkills[]): Map<string, number> {
+  const demand = new Map<string, number>();
+
+  for (const generation of generations) {
+    const job = toJobSkills(generation);
+    const skills = new Set(
+      [
+        ...(job.skills?.hard_skills?.length ? job.skills.hard_skills : job.required_skills ?? []),
+        ...(job.skills?.soft_skills ?? []),
+        ...(job.skills?.languages ?? []),
+      ].map(normalizeSkill)
+    );
+    skills.forEach(skill => demand.set(skill, (demand.get(skill) ?? 0) + 1));
+  }
+
+  return demand;
+}
+
+/**
+ * Построение отчета о недостающих навыках для вакансии
+ *
+ * @param resumeData - данные резюме
+ * @param jobData - данные вакансии
+ * @param history - сохраненные генерации пользователя для ранжирования по востребованности
+ * @param locale - язык названий категорий и рекомендаций
+ */
+export function buildSkillGapReport(
+  resumeData: ResumeData,
+  jobData: JobData,
+  history: GenerationSkills[] = [],
+  locale: Locale = getCurrentLocale()
+): SkillGapReport {
+  const demand = countSkillDemand(history);
+
+  const items: SkillGapItem[] = findMissingSkills(resumeData, jobData).map(({ skill, category }) => {
+    const count = demand.get(normalizeSkill(skill)) ?? 0;
+    return { skill, category, demand: count, actions: getLearningActions(skill, category, count, locale) };
+  });
+
+  const groups = (Object.keys(SKILL_GAP_CATEGORY_TITLE_KEYS) as SkillGapCategory[])
+    .map(category => ({
+      category,
+      title: translate(SKILL_GAP_CATEGORY_TITLE_KEYS[category], undefined, locale),
+      // Стабильная сортировка сохраняет порядок вакансии при равной востребованности
+      items: items.filter(item => item.category === category).sort((a, b) => b.demand - a.demand),
+    }))
+    .filter(group => group.items.length > 0);
+
+  return {
+    job_title: jobData.job_title || '',
+    company_name: jobData.company_name || '',
+    history_size: history.length,
+    groups,
+    total_missing: items.length,
+  };
+}
+
+/**
+ * Навык, которого не хватает в нескольких вакансиях
+ */
+export interface MissingSkillStat {
+  skill: string;
+  category: SkillGapCategory;
+  /** Во скольких вакансиях навык требуется, но отсутствует в резюме */
+  count: number;
+}
+
+/**
+ * Топ недостающих навыков по всем сохраненным генерациям
+ *
+ * Генерации без навыков вакансии или резюме пропускаются
+ *
+ * @returns навыки и количество учтенных вакансий
+ */
+export function aggregateMissingSkills(
+  generations: GenerationSkills[],
+  limit = 10
+): { skills: MissingSkillStat[]; vacancies: number } {
+  const stats = new Map<string, MissingSkillStat>();
+  let vacancies = 0;
+
+  for (const generation of generations) {
+    if (!generation.resume_skills || (!generation.job_skills && !generation.job_required_skills)) continue;
+    vacancies++;
+
+    const missing = findMissingSkills({ skills: generation.resume_skills }, toJobSkills(generation));
+    for (const { skill, category } of missing) {
+      const key = normalizeSkill(skill);
+      const stat = stats.get(key);
+      if (stat) {
+        stat.count++;
+      } else {
+        stats.set(key, { skill, category, count: 1 });
+      }
+    }
+  }
+
+  const skills = Array.from(stats.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+
+  return { skills, vacancies };
+}
+
+/**
+ * Текст отчета в Markdown для экспорта
+ */
+export function skillGapReportToMarkdown(report: SkillGapReport, locale: Locale = getCurrentLocale()): string {
+  const vacancy = report.job_title && report.company_name
+    ? translate('skillGap.vacancyAtCompany', { title: report.job_title, company: report.company_name }, locale)
+    : report.job_title || report.company_name;
+  const title = translate('skillGap.title', undefined, locale);
+  const lines = [`# ${vacancy ? `${title}: ${vacancy}` : title}`, ''];
+
+  if (report.total_missing === 0) {
+    lines.push(translate('skillGap.noMissing', undefined, locale));
+    return lines.join('\n');
+  }
+
+  lines.push(translate('skillGap.missingCount', { count: report.total_missing }, locale));
+  if (report.history_size > 0) {
+    lines.push(translate('skillGap.historyNote', { count: report.history_size }, locale));
+  }
+
+  for (const group of report.groups) {
+    lines.push('', `## ${group.title}`);
+    for (const item of group.items) {
+      const demand = item.demand > 0 ? ` (${translate('skillGap.demand', { count: item.demand }, locale)})` : '';
+      lines.push('', `### ${item.skill}${demand}`);
+      item.actions.forEach(action => lines.push(`- ${action}`));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Скачивание отчета в Markdown
+ */
+export function exportSkillGapReport(report: SkillGapReport, locale: Locale = getCurrentLocale()): void {
+  const blob = new Blob([skillGapReportToMarkdown(report, locale)], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getExportFileName(report, 'md', translate('skillGap.fileNamePrefix', undefined, locale));
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,140 @@
+/**
+ * Минимальный ZIP архиватор без сжатия (метод STORE)
+ *
+ * Используется для сборки OOXML документов (DOCX) прямо в браузере
+ * без внешних зависимостей. Имена файлов пишутся в UTF-8 (флаг 0x0800).
+ */
+
+export interface ZipEntry {
+  /** Путь файла внутри архива, например "word/document.xml" */
+  path: string;
+  /** Содержимое файла (строки кодируются в UTF-8) */
+  data: string | Uint8Array;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Таблица CRC-32 (полином 0xEDB88320), строится один раз
+ */
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * Контрольная сумма CRC-32 для заголовков ZIP
+ */
+export function crc32(bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Дата и время в формате MS-DOS для заголовков ZIP
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Сборка ZIP архива из списка файлов
+ *
+ * @param entries - файлы архива в порядке записи
+ * @param modifiedAt - дата изменения для всех файлов
+ * @returns байты архива
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const dos = toDosDateTime(modifiedAt);
+
+  const files = entries.map(entry => {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data), offset: 0 };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  // Локальные заголовки и данные файлов
+  for (const file of files) {
+    file.offset = offset;
+    view.setUint32(offset, LOCAL_FILE_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // метод сжатия: STORE
+    view.setUint16(offset + 10, dos.time, true);
+    view.setUint16(offset + 12, dos.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(file.name, offset + 30);
+    output.set(file.data, offset + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+  }
+
+  // Центральный каталог
+  const centralOffset = offset;
+  for (const file of files) {
+    view.setUint32(offset, CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, dos.time, true);
+    view.setUint16(offset + 14, dos.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    view.setUint16(offset + 30, 0, true); // длина extra
+    view.setUint16(offset + 32, 0, true); // длина комментария
+    view.setUint16(offset + 34, 0, true); // номер диска
+    view.setUint16(offset + 36, 0, true); // внутренние атрибуты
+    view.setUint32(offset + 38, 0, true); // внешние атрибуты
+    view.setUint32(offset + 42, file.offset, true);
+    output.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  }
+
+  // Конец центрального каталога
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 4, 0, true);
+  view.setUint16(offset + 6, 0, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  view.setUint16(offset + 20, 0, true);
+
+  return output;
+}
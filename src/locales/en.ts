@@ -0,0 +1,862 @@
+import { MessageKey } from './ru';
+
+/**
+ * Английский каталог сообщений интерфейса
+ * Набор ключей совпадает с русским каталогом (проверяется типом)
+ */
+export const en: Record<MessageKey, string> = {
+  // Общие
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.saveChanges': '✅ Save changes',
+  'common.add': 'Add',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.copy': 'Copy',
+  'common.copied': 'Copied!',
+  'common.retry': 'Try again',
+  'common.loading': 'Loading...',
+  'common.back': 'Back',
+  'common.next': 'Next',
+  'common.language': 'Language',
+  'common.copyFailed': 'Could not copy the text. Try selecting and copying it manually.',
+
+  // Приложение и онбординг
+  'app.initializing': 'Initializing the app...',
+  'onboarding.slide1.title': 'Create winning cover letters in seconds',
+  'onboarding.slide1.description': 'Our AI analyzes the vacancy and your resume to write a personalized letter that gets HR\'s attention.',
+  'onboarding.slide2.title': 'Just upload your resume and paste a vacancy link',
+  'onboarding.slide2.description': 'Upload your resume once, then just paste links to vacancies you like. The AI does the rest.',
+  'onboarding.slide3.title': 'Check your match before you apply',
+  'onboarding.slide3.description': 'Get a match score and improvement tips. Stop wasting time on vacancies that don\'t fit.',
+  'onboarding.slide4.title': 'You\'re all set! Let\'s begin',
+  'onboarding.slide4.description': 'Boost your chances of landing your dream job with JobMatch AI.',
+  'onboarding.start': 'Get started',
+  'onboarding.continue': 'Continue',
+  'onboarding.skip': 'Skip',
+
+  // Статусы генераций и этапы откликов
+  'status.completed': 'Completed',
+  'status.draft': 'Draft',
+  'status.archived': 'Archived',
+  'status.prepared': 'Prepared',
+  'status.applied': 'Applied',
+  'status.recruiter_screen': 'Recruiter screen',
+  'status.interview': 'Interview',
+  'status.offer': 'Offer',
+  'status.rejected': 'Rejected',
+  'status.withdrawn': 'Withdrawn',
+  'status.unknown': 'Unknown',
+  'vacancySource.url': 'From a link',
+  'vacancySource.text': 'Pasted text',
+  'vacancySource.file': 'File {fileName}',
+  'vacancySource.unknown': 'Source not specified',
+  'salary.notSpecified': 'Salary not specified',
+  'salary.range': '{from} – {to}',
+  'salary.from': 'from {from}',
+  'salary.to': 'up to {to}',
+  'salary.gross': '{range} before tax',
+  'salary.net': '{range} after tax',
+
+  // Вход
+  'auth.defaultName': 'User',
+  'auth.welcome': 'Welcome!',
+  'auth.subtitle': 'Sign in or sign up with a Magic Link',
+  'auth.subtitleSent': 'A sign-in link has been sent to your email',
+  'auth.namePlaceholder': 'Your name',
+  'auth.sending': 'Sending the link...',
+  'auth.getMagicLink': 'Get a Magic Link',
+  'auth.checkMail': 'Check your email! We have sent you a sign-in link.',
+  'auth.invalidEmail': 'Please enter a valid email address',
+  'auth.sendFailed': 'Failed to send the link. Please try again.',
+  'auth.linkSent': 'Link sent!',
+  'auth.followLinkBefore': 'Check',
+  'auth.followLinkAfter': 'and follow the link to sign in',
+  'auth.greetingBefore': 'Hi,',
+  'auth.redirectTo': 'After clicking the link you will be redirected to:',
+  'auth.devRedirect': '✅ Development mode: redirect to localhost is guaranteed',
+  'auth.otherEmail': 'Send to a different email',
+  'auth.testerLogin': 'Sign in as a tester',
+  'auth.magicLinkTitle': '🔗 What is a Magic Link?',
+  'auth.magicLinkSecure': '• Secure sign-in without a password',
+  'auth.magicLinkExpires': '• The link is valid for 1 hour',
+  'auth.magicLinkSignup': '• New users are registered automatically',
+  'auth.magicLinkSpam': '• Check your spam folder if the email has not arrived',
+  'auth.nameWhyTitle': '👤 Why do we need your name?',
+  'auth.nameWhyInterface': '• A personalised app interface',
+  'auth.nameWhyLetters': '• Professional cover letters',
+  'auth.nameWhyExperience': '• A better user experience',
+  'auth.nameWhyChange': '• You can change it later in profile settings',
+  'auth.testTitle': 'Test sign-in',
+  'auth.testSubtitle': 'Enter tester credentials',
+  'auth.testUsername': 'Username',
+  'auth.testKey': 'Access key',
+  'auth.testChecking': 'Checking...',
+  'auth.testSubmit': 'Sign in',
+  'auth.testErrorTitle': 'Sign-in error',
+  'auth.testAccounts': '🧪 Test accounts:',
+  'auth.testFailed': 'Sign-in failed',
+  'auth.testInvalidCredentials': 'Invalid username or access key',
+  'auth.testDevOnly': 'Test sign-in is only available in development mode',
+  'auth.testServerConfig': 'The server is not configured. Contact the administrator',
+
+  // Личный кабинет
+  'steps.dashboard.title': 'Dashboard',
+  'steps.dashboard.description': 'View saved generations and create new ones',
+  'steps.upload.title': 'Resume',
+  'steps.upload.description': 'Upload your resume as PDF or DOCX',
+  'steps.analyze.title': 'Vacancy',
+  'steps.analyze.description': 'Paste a link to a vacancy you like',
+  'steps.generate.title': 'Letter',
+  'steps.generate.description': 'Generate a personalised cover letter',
+  'steps.scoring.title': 'Scoring',
+  'steps.scoring.description': 'Review the match analysis and recommendations',
+  'steps.interview.title': 'Interview',
+  'steps.interview.description': 'Prepare for interview questions',
+  'steps.tailor.title': 'Tailoring',
+  'steps.tailor.description': 'Tailor your resume to the vacancy',
+  'steps.final.title': 'Summary',
+  'steps.final.description': 'Final results and sending',
+  'dashboard.greetingBefore': 'Hi,',
+  'dashboard.defaultName': 'there',
+  'dashboard.profileSettings': 'Profile settings',
+  'dashboard.signOut': 'Sign out',
+  'dashboard.title': 'Dashboard',
+  'dashboard.subtitle': 'Manage your cover letters and scoring results',
+  'dashboard.newLetter': 'Create a new letter',
+  'dashboard.batchAnalysis': 'Batch vacancy analysis',
+  'dashboard.searchPlaceholder': 'Search by position, company...',
+  'dashboard.sortDate': 'By date',
+  'dashboard.sortScore': 'By score',
+  'dashboard.sortCompany': 'By company',
+  'dashboard.viewList': 'List',
+  'dashboard.viewBoard': 'Stage board',
+  'dashboard.loadingGenerations': 'Loading your generations...',
+  'dashboard.loadFailed': 'Failed to load history: {message}',
+  'dashboard.nothingFound': 'Nothing found',
+  'dashboard.empty': 'You have no saved letters yet',
+  'dashboard.changeQuery': 'Try changing your search query',
+  'dashboard.createFirstHint': 'Create your first cover letter',
+  'dashboard.createFirst': 'Create your first letter',
+  'dashboard.viewDetails': 'View details',
+  'dashboard.wizardTitle': 'Creating a letter',
+  'dashboard.stepOf': 'Step {step} of {total}',
+  'dashboard.next': 'Next →',
+  'dashboard.finishStep': 'Finish the current step',
+  'dashboard.loadingDetails': 'Loading details...',
+  'dashboard.detailsFailed': 'Failed to load details: {message}',
+  'dashboard.confirmDelete': 'Are you sure you want to delete this generation? This cannot be undone.',
+  'dashboard.deleteFailed': 'Failed to delete the generation: {message}',
+  'dashboard.stageFailed': 'Failed to change the stage: {message}',
+  'dashboard.variantFailed': 'Failed to select the variant: {message}',
+  'dashboard.pdfFailed': 'Failed to create the PDF: {message}',
+  'dashboard.score': 'Score: {score}%',
+  'dashboard.coverLetter': 'Cover letter',
+  'dashboard.letterCopied': 'The letter has been copied to the clipboard!',
+  'dashboard.copyLetter': 'Copy letter',
+  'dashboard.creatingPdf': 'Creating PDF...',
+  'dashboard.downloadPdf': 'Download PDF',
+  'dashboard.downloadWord': 'Download Word',
+  'dashboard.tailoredResumePdf': 'Tailored resume (PDF)',
+  'dashboard.scoringResults': 'Scoring results',
+  'dashboard.applicationStage': 'Application: {stage}',
+  'dashboard.interviewPrep': 'Interview preparation',
+  'scoring.dimension.hard_skills': '💻 Hard skills',
+  'scoring.dimension.soft_skills': '🤝 Soft skills',
+  'scoring.dimension.experience_match': '💼 Experience match',
+  'scoring.dimension.position_match': '🎯 Position match',
+
+  // Скорринг
+  'scoring.progress.sending': 'Sending data to Gemini AI...',
+  'scoring.progress.hardSkills': 'Analysing hard skills...',
+  'scoring.progress.softSkills': 'Evaluating soft skills...',
+  'scoring.progress.experience': 'Checking experience match...',
+  'scoring.progress.position': 'Analysing position match...',
+  'scoring.progress.recommendations': 'Preparing recommendations...',
+  'scoring.missing.resume': 'resume data',
+  'scoring.missing.job': 'vacancy data',
+  'scoring.missing.user': 'user ID',
+  'scoring.missingData': 'Required data is missing: {items}',
+  'scoring.unknownError': 'An unknown error occurred during the match analysis',
+  'scoring.recommendation.excellent_match': 'Excellent match!',
+  'scoring.recommendation.good_match': 'Good match!',
+  'scoring.recommendation.average_match': 'Average match.',
+  'scoring.recommendation.low_match': 'Low match.',
+  'scoring.title': 'Match scoring',
+  'scoring.subtitle': 'We will analyse how well your resume fits the vacancy with Gemini AI',
+  'scoring.subtitleRunning': 'Detailed analysis with Gemini AI',
+  'scoring.inputTitle': '📊 Data for scoring:',
+  'scoring.inputResume': 'Resume: {name} ({count, plural, one {# skill} other {# skills}})',
+  'scoring.inputJob': 'Vacancy: {position} at {company}',
+  'scoring.start': 'Run the analysis with Gemini AI',
+  'scoring.aboutTitle': '🤖 What Gemini AI analyses:',
+  'scoring.about.hardSkills': 'Hard skills:',
+  'scoring.about.hardSkillsText': 'How well your hard skills match',
+  'scoring.about.softSkills': 'Soft skills:',
+  'scoring.about.softSkillsText': 'Soft skills and communication abilities',
+  'scoring.about.experience': 'Experience match:',
+  'scoring.about.experienceText': 'Relevance of your past work experience',
+  'scoring.about.position': 'Position match:',
+  'scoring.about.positionText': 'Fit for the specific position',
+  'scoring.about.recommendations': 'Recommendations:',
+  'scoring.about.recommendationsText': 'Personal advice for the candidate and the recruiter',
+  'scoring.running': 'Gemini AI is running a detailed analysis',
+  'scoring.progressLabel': 'Analysis progress',
+  'scoring.errorTitle': 'Match analysis error',
+  'scoring.hideError': 'Hide error',
+  'scoring.totalScore': '🎯 Overall match score: {score}%',
+  'scoring.poweredBy': '🤖 Analysis by Gemini AI',
+  'scoring.rerun': '🔄 Run again',
+  'scoring.breakdownTitle': '📊 Match breakdown',
+  'scoring.columnParameter': 'Parameter',
+  'scoring.columnScore': 'Score',
+  'scoring.columnAnalysis': 'Analysis',
+  'scoring.candidateTitle': '👤 Recommendations for you (the candidate)',
+  'scoring.recruiterTitle': '🎯 What the recruiter will see',
+  'scoring.categoryTitle': '🎓 Overall match category',
+
+  // Сопроводительное письмо
+  'letterStyle.neutral': 'Neutral',
+  'letterStyle.creative': 'Creative',
+  'letterStyle.startup': 'Startup',
+  'letterStyle.formal': 'Formal',
+  'letterStyle.neutral.description': 'Classic business style',
+  'letterStyle.creative.description': 'Bright and memorable',
+  'letterStyle.startup.description': 'Modern and flexible',
+  'letterStyle.formal.description': 'Conservative and official',
+  'letterLength.short': 'Short',
+  'letterLength.medium': 'Medium',
+  'letterLength.long': 'Detailed',
+  'letterLanguage.name.en': 'English',
+  'letterLanguage.name.ru': 'Russian',
+  'letterLanguage.name.uk': 'Ukrainian',
+  'letterLanguage.name.kk': 'Kazakh',
+  'letterVariant.merged': 'Merged',
+  'letterRewrite.shorten': 'Shorten',
+  'letterRewrite.formalize': 'More formal',
+  'letterRewrite.add_metric': 'Add a metric',
+  'letterRewrite.emphasize_skill': 'Emphasise a skill',
+  'letterRewrite.translate': 'Translate paragraph',
+  'letterRewrite.tooLong': 'Select a fragment shorter than {max} characters',
+  'letterRewrite.failed': 'Failed to rewrite the fragment',
+  'letterRewrite.hint': 'Select part of the letter to rewrite it with AI',
+  'letterRewrite.clearSelection': 'Clear selection',
+  'letterRewrite.noSkills': 'No skills to emphasise',
+  'letterRewrite.proposal': '{action}: suggested edit',
+  'letterRewrite.accept': 'Accept',
+  'letterRewrite.reject': 'Reject',
+  'letter.title': 'Cover letter generation',
+  'letter.subtitle': 'AI will write a personal letter based on your resume and the vacancy',
+  'letter.aboutTitle': '🤖 What the AI does:',
+  'letter.about.skills': '• Analyses the skills and experience in your resume',
+  'letter.about.company': '• Studies the company requirements and culture',
+  'letter.about.personal': '• Writes a personal letter for the specific vacancy',
+  'letter.about.matches': '• Highlights key matches with the requirements',
+  'letter.about.tone': '• Uses a professional tone and structure',
+  'letter.about.relevant': '• Emphasises relevant skills, experience and education',
+  'letter.about.metadata': '• Returns a structured response with metadata',
+  'letter.languageTitle': '🌐 Letter language',
+  'letter.vacancyLanguage': '• vacancy',
+  'letter.resumeTranslation': 'The resume is in {resumeLanguage}: it will be translated into {letterLanguage} before generation',
+  'letter.styleTitle': '📝 Letter style',
+  'letter.selectedStyle': 'Selected style:',
+  'letter.selectedLength': 'length:',
+  'letter.variantsTitle': '📑 Letter variants',
+  'letter.variantsCount': '{count} of {max}',
+  'letter.variantsHint': 'Generate several variants in parallel, compare them and pick the primary one',
+  'letter.presetLengths': 'This style, different lengths',
+  'letter.presetStyles': 'Different styles',
+  'letter.removeVariant': 'Remove variant',
+  'letter.addVariant': 'Add variant',
+  'letter.highlightsTitle': '🎯 Letter highlights',
+  'letter.resetAll': 'Reset all',
+  'letter.experienceLabel': '💼 Experience to highlight (max {max}):',
+  'letter.educationLabel': '🎓 Education to highlight (max {max}):',
+  'letter.skillsLabel': '🛠️ Skills to highlight (max {max}):',
+  'letter.limitReached': 'Limit reached ({max}/{max})',
+  'letter.noOptions': 'No options available',
+  'letter.selectExperience': 'Choose experience to highlight',
+  'letter.selectEducation': 'Choose education to highlight',
+  'letter.selectSkills': 'Choose skills to highlight',
+  'letter.experienceAt': '{position} at {company}',
+  'letter.selectedHighlights': '✨ Selected highlights:',
+  'letter.experience': 'Experience:',
+  'letter.education': 'Education:',
+  'letter.skills': 'Skills:',
+  'letter.generatingVariants': 'Generating {count, plural, one {# variant} other {# variants}}...',
+  'letter.generating': 'Generating the letter...',
+  'letter.generateVariants': 'Generate {count, plural, one {# variant} other {# variants}}',
+  'letter.generate': 'Generate letter',
+  'letter.ready': 'The letter is ready!',
+  'letter.regenerate': 'Generate a new one',
+  'letter.editTitle': '✏️ Editing the letter',
+  'letter.editPlaceholder': 'Edit the letter text...',
+  'letter.unsavedChanges': 'You have unsaved changes',
+  'letter.primaryVariant': '📝 Primary variant',
+  'letter.coverLetter': '📝 Cover letter',
+  'letter.undo': 'Undo edit',
+  'letter.redo': 'Redo edit',
+  'letter.settingsTitle': '⚙️ Settings used:',
+  'letter.settingsStyle': 'Style:',
+  'letter.settingsLength': 'Length:',
+  'letter.settingsLanguage': 'Language:',
+  'letter.settingsVariants': 'Variants:',
+  'letter.settingsExperience': 'Experience highlighted:',
+  'letter.settingsEducation': 'Education highlighted:',
+  'letter.settingsSkills': 'Skills highlighted:',
+  'letter.errorTitle': 'Generation error',
+  'letter.missingData': 'Resume or vacancy data is missing',
+  'letter.variantsFailed': 'Failed to generate {failed} of {total} variants',
+  'letter.failed': 'Failed to generate the letter: {message}',
+  'letterVariants.count': 'Variants: {count}',
+  'letterVariants.exitMerge': 'Exit merging',
+  'letterVariants.merge': 'Merge from paragraphs',
+  'letterVariants.primary': 'Primary',
+  'letterVariants.makePrimary': 'Make primary',
+  'letterVariants.words': '{count, plural, one {# word} other {# words}}',
+  'letterVariants.coverage': 'Vacancy skills: {coverage}%',
+  'letterVariants.notMentioned': 'Not mentioned: {skills}',
+  'letterVariants.andMore': ' and {count} more',
+  'letterVariants.mergedTitle': 'Merged variant',
+  'letterVariants.mergeHint': 'Select paragraphs in the variants above in the order you need',
+  'letterVariants.addMerged': 'Add as a variant',
+  'letterVariants.resetSelection': 'Reset selection',
+  'letterVariants.limitReached': 'Variant limit reached',
+
+  // Итоги
+  'final.copyUnavailable': 'Copying is not available in your browser',
+  'final.missingData': 'Data required for saving is missing',
+  'final.unknownPosition': 'Unknown position',
+  'final.unknownCompany': 'Unknown company',
+  'final.generationTitle': '{position} at {company}',
+  'final.positionFallback': 'Position',
+  'final.companyFallback': 'a company',
+  'final.saveFailed': 'Failed to save the results: {message}',
+  'final.pdfFailed': 'Failed to create the PDF: {message}',
+  'final.docxFailed': 'Failed to create the DOCX: {message}',
+  'final.matchLevel.excellent': 'Outstanding match',
+  'final.matchLevel.great': 'Excellent match',
+  'final.matchLevel.good': 'Good match',
+  'final.matchLevel.average': 'Average match',
+  'final.matchLevel.low': 'Low match',
+  'final.matchLevel.weak': 'Weak match',
+  'final.letterCopied': 'The cover letter has been copied to the clipboard',
+  'final.saved': 'Results saved!',
+  'final.savedHint': 'The generation has been added to your dashboard',
+  'final.scoringCopied': 'Scoring copied!',
+  'final.scoringCopiedHint': 'The results text has been copied to the clipboard',
+  'final.title': 'Done! 🎉',
+  'final.subtitle': 'Your cover letter and match analysis are ready',
+  'final.match': 'Match',
+  'final.words': 'Words in the letter',
+  'final.pdfTitle': '📄 The PDF contains:',
+  'final.pdf.letter': 'The full cover letter',
+  'final.pdf.letterText': 'with professional formatting',
+  'final.pdf.score': 'Overall match score',
+  'final.pdf.scoreText': 'with colour coding and charts',
+  'final.pdf.metrics': 'Detailed metrics',
+  'final.pdf.metricsText': 'for every criterion with progress bars',
+  'final.pdf.recommendations': 'Personal recommendations',
+  'final.pdf.recommendationsText': 'from Gemini AI for improvement',
+  'final.pdf.candidate': 'Candidate information',
+  'final.pdf.candidateText': 'and analysis metadata',
+  'final.pdf.print': 'Print-ready format',
+  'final.pdf.printText': 'for presenting to an employer',
+  'final.tabLetter': 'Letter',
+  'final.tabScoring': 'Scoring',
+  'final.tabSkills': 'Skills',
+  'final.saving': 'Saving...',
+  'final.includeScoring': 'Add a scoring results page to the PDF',
+  'final.saveErrorTitle': 'Save error',
+  'final.totalScore': '🎯 Overall score: {score}%',
+  'final.poweredBy': '🤖 Analysis by Gemini AI v2.0',
+  'final.copyTitle': '📊 Results to copy',
+  'final.copyText': 'Copy text',
+  'final.copyHint': '💡 You can copy this text into a message to the recruiter or a report',
+  'final.scoringUnavailable': 'Scoring data is unavailable',
+  'final.scoringUnavailableHint': 'Go back to the "Scoring" step to run the match analysis',
+  'final.savedTitle': '💾 What will be saved:',
+  'final.saved.letter': 'The full cover letter',
+  'final.saved.letterText': 'for reuse',
+  'final.saved.scoring': 'Detailed scoring results',
+  'final.saved.scoringText': 'for all 4 parameters',
+  'final.saved.data': 'Resume and vacancy data',
+  'final.saved.dataText': 'for context',
+  'final.saved.interview': 'Interview questions',
+  'final.saved.interviewText': 'with answer outlines',
+  'final.saved.recommendations': 'Personal recommendations',
+  'final.saved.recommendationsText': 'from Gemini AI',
+  'final.saved.history': 'Generation history',
+  'final.saved.historyText': 'in your dashboard',
+  'final.saved.review': 'The ability to review',
+  'final.saved.reviewText': 'and analyse again',
+  'final.skillsUnavailable': 'The skills report is unavailable',
+  'final.skillsUnavailableHint': 'The report needs resume and vacancy data',
+
+  // Измерения скорринга без иконок
+  'scoring.dimensionName.hard_skills': 'Hard skills',
+  'scoring.dimensionName.soft_skills': 'Soft skills',
+  'scoring.dimensionName.experience_match': 'Experience match',
+  'scoring.dimensionName.position_match': 'Position match',
+
+  // Анализ вакансии
+  'jobUrl.empty': 'Enter the vacancy URL',
+  'jobUrl.invalidFormat': 'Invalid URL format. Example: {example}',
+  'jobUrl.invalidProtocol': 'The URL must use HTTP or HTTPS',
+  'jobUrl.unsupportedSite': 'The site "{host}" is not supported. Use one of the supported sites or paste the vacancy text.',
+  'jobUrl.notVacancy': 'Invalid link format for {site}. Make sure it is a direct link to the vacancy.',
+  'jobAnalysis.fileTypeUnsupported': 'Unsupported file type. Use PDF, DOCX or TXT',
+  'jobAnalysis.fileTooLarge': 'The file is too large. Maximum size: {size}MB',
+  'jobAnalysis.textTooShort': 'The vacancy text is too short. Minimum: {min} characters',
+  'jobAnalysis.textTooLong': 'The vacancy text is too long. Maximum: {max} characters',
+  'jobAnalysis.loading.sending': 'Sending data...',
+  'jobAnalysis.loading.processing': 'Processing information...',
+  'jobAnalysis.loading.generating': 'Generating the result...',
+  'jobAnalysis.loading.receiving': 'Receiving the result',
+  'jobAnalysis.failed': 'Could not analyze the vacancy: {message}',
+  'jobAnalysis.invalidText': 'Invalid vacancy text',
+  'jobAnalysis.invalidUrl': 'Invalid vacancy URL',
+  'jobAnalysis.invalidFile': 'Invalid vacancy file',
+  'jobAnalysis.editsSaved': 'Changes saved!',
+  'jobAnalysis.editsSavedHint': 'Vacancy data updated',
+  'jobAnalysis.title': 'Vacancy analysis',
+  'jobAnalysis.subtitle': 'Paste a link to the vacancy, its text or upload a file',
+  'jobAnalysis.mode.url': 'Link',
+  'jobAnalysis.mode.text': 'Text or file',
+  'jobAnalysis.supportedFormats': '🔗 Supported link formats:',
+  'jobAnalysis.urlValid': '✅ {site} - URL is valid',
+  'jobAnalysis.alreadyGenerated': 'You have already created a letter for this vacancy: {title} ({date})',
+  'jobAnalysis.noLinkTitle': '📝 When there is no link:',
+  'jobAnalysis.noLinkText': '• Paste the vacancy text from a Telegram channel, a chat with a recruiter or an email',
+  'jobAnalysis.noLinkFile': '• Or upload a file with the vacancy description: PDF, DOCX or TXT up to {size}MB',
+  'jobAnalysis.removeFile': 'Remove file',
+  'jobAnalysis.textPlaceholder': 'Paste the vacancy text here: position, company, requirements, responsibilities...',
+  'jobAnalysis.dropBefore': 'Drop a file here or',
+  'jobAnalysis.chooseFile': 'choose a file',
+  'jobAnalysis.moreChars': 'Add {count, plural, one {# more character} other {# more characters}} to analyze',
+  'jobAnalysis.analyzing': 'Analyzing the vacancy...',
+  'jobAnalysis.analyze': 'Analyze vacancy',
+  'jobAnalysis.analyzingTitle': 'Analyzing the vacancy',
+  'jobAnalysis.progress': 'Progress',
+  'jobAnalysis.done': 'Vacancy analyzed!',
+  'jobAnalysis.analyzeAnother': 'Analyze another',
+  'jobAnalysis.positionPlaceholder': 'Position title',
+  'jobAnalysis.companyPlaceholder': 'Company name',
+  'jobAnalysis.locationUnknown': 'Location not specified',
+  'jobAnalysis.employmentType': 'Employment type',
+  'jobAnalysis.experience': 'Experience',
+  'jobAnalysis.industry': 'Industry',
+  'jobAnalysis.dataTitle': '📋 Vacancy data',
+  'jobAnalysis.positionLabel': '🎯 Position title:',
+  'jobAnalysis.positionInput': 'Enter the position title',
+  'skills.hard_skills': 'Hard skills',
+  'skills.soft_skills': 'Soft skills',
+  'skills.languages': 'Languages',
+  'jobAnalysis.addTo': 'Add: {category}',
+  'jobAnalysis.positionTitle': '🎯 Position title',
+  'jobAnalysis.notSpecified': 'Not specified',
+  'jobAnalysis.skillsTitle': '🛠️ Skills and requirements',
+  'jobAnalysis.noSkills': 'No skills extracted. Click "Edit" to add them manually.',
+  'jobAnalysis.errorTitle': 'Analysis error',
+  'jobAnalysis.supportedSites': '✅ Supported sites:',
+  'jobAnalysis.parsingTitle': '📊 Flexible data parsing:',
+  'jobAnalysis.parsing.priority': 'Priority:',
+  'jobAnalysis.parsing.priorityText': 'title, skills (hard/soft/languages)',
+  'jobAnalysis.parsing.noData': 'No data:',
+  'jobAnalysis.parsing.noDataText': 'fields stay empty',
+  'jobAnalysis.parsing.manual': 'Manual editing:',
+  'jobAnalysis.parsing.manualText': 'you can add any skills',
+  'jobAnalysis.parsing.lenient': 'No strict validation:',
+  'jobAnalysis.parsing.lenientText': 'any JSON format is accepted',
+  'jobAnalysis.parsing.flexible': 'Flexibility:',
+  'jobAnalysis.parsing.flexibleText': 'works even when the API fails',
+
+  // Загрузка резюме
+  'resume.parsing.uploading': 'Uploading the resume to the server...',
+  'resume.parsing.init': 'Initializing neural networks for analysis...',
+  'resume.parsing.structure': 'Deep analysis of the document structure...',
+  'resume.parsing.personal': 'Extracting personal information...',
+  'resume.parsing.skills': 'Analyzing skills and competencies...',
+  'resume.parsing.experience': 'Processing work experience and education...',
+  'resume.parsing.recommendations': 'Generating career recommendations...',
+  'resume.parsing.finalizing': 'Finalizing and validating data...',
+  'resume.fileTooLarge': 'The file is too large. Maximum size: {size}MB',
+  'resume.fileTypeUnsupported': 'Unsupported file type. Use PDF or DOCX',
+  'resume.fileExtensionUnsupported': 'Unsupported file extension. Use .pdf or .docx',
+  'resume.fileValidationFailed': 'File validation error',
+  'resume.parseFailed': 'An error occurred during deep resume analysis',
+  'resume.notStored': 'The resume was not saved for future generations: {message}',
+  'resume.setDefaultFailed': 'Could not set the default resume: {message}',
+  'resume.deleteConfirm': 'Delete "{label}"? This cannot be undone.',
+  'resume.deleteFailed': 'Could not delete the resume: {message}',
+  'resume.validationFailed': 'Validation error: {errors}',
+  'resume.editNotStored': 'The edit was not saved to the resume history: {message}',
+  'resume.versionSaveFailed': 'Could not save the new version: {message}',
+  'resume.editsSaved': 'Changes saved!',
+  'resume.editsSavedHint': 'Resume data updated and ready to use',
+  'resume.title': 'Upload your resume',
+  'resume.subtitle': 'PDF and DOCX files up to 10MB are supported',
+  'resume.savedTitle': 'Saved resumes',
+  'resume.default': 'default',
+  'resume.noFile': 'No file',
+  'resume.use': 'Use',
+  'resume.makeDefault': 'Make this the default resume',
+  'resume.orUploadNew': 'Or upload a new file below',
+  'resume.dropActive': 'Drop the file here',
+  'resume.analyzing': 'Analyzing the resume...',
+  'resume.dropHere': 'Drag a file here',
+  'resume.or': 'or',
+  'resume.chooseFile': 'choose a file',
+  'resume.deepTitle': 'Deep AI resume analysis',
+  'resume.deepDuration': '⏳ This may take up to 2 minutes',
+  'resume.deepProgress': 'Deep analysis progress',
+  'resume.deepProcess': 'Deep analysis process',
+  'resume.deepProcessText': 'AI analyzes every aspect of your resume in detail.',
+  'resume.deepProcessTime': 'Duration: up to 2 minutes',
+  'resume.deepProcessMin': 'Minimum demo: 32 seconds',
+  'resume.savedResume': 'Saved resume',
+  'resume.processed': '{size} MB • Processed successfully',
+  'resume.loadedFromAccount': 'Loaded from your account',
+  'resume.history': 'Change history',
+  'resume.removeFile': 'Remove file',
+  'resume.editingTitle': 'Editing resume data:',
+  'resume.extractedTitle': 'Key extracted data:',
+  'resume.personalInfo': '👤 Personal information',
+  'resume.firstName': 'First name:',
+  'resume.firstNamePlaceholder': 'Enter your first name',
+  'resume.lastName': 'Last name:',
+  'resume.lastNamePlaceholder': 'Enter your last name',
+  'resume.phone': 'Phone:',
+  'resume.desiredPosition': '🎯 Desired position',
+  'resume.desiredPositionPlaceholder': 'For example: Frontend Developer',
+  'resume.skills': '🛠️ Skills',
+  'resume.addHardSkill': 'Add a hard skill',
+  'resume.addSoftSkill': 'Add a soft skill',
+  'resume.addLanguage': 'Add a language',
+  'resume.summary': '📄 Summary',
+  'resume.summaryPlaceholder': 'Describe your professional goals and key achievements...',
+  'resume.saveAsVersion': '💾 Save as a new version',
+  'resume.unsavedChanges': 'You have unsaved changes. Click "Save changes" before moving to the next step.',
+  'resume.positionUnknown': 'Not specified',
+  'resume.noSkills': 'No skills extracted from the resume',
+  'resume.candidateSummary': '📄 Candidate summary',
+  'resume.fullDataTitle': '📊 Full data saved',
+  'resume.fullDataApi': 'The whole API data object is saved',
+  'resume.fullDataKeyFields': 'Only key fields are shown',
+  'resume.fullDataNextSteps': '✓ Full data is passed to the next steps',
+  'resume.errorTitle': 'Resume processing error',
+  'resume.hideError': 'Hide error',
+  'resume.requirementsTitle': '📋 File requirements:',
+  'resume.requirements.formats': '• Supported formats: PDF, DOCX',
+  'resume.requirements.size': '• Maximum size: 10 MB',
+  'resume.requirements.text': '• The file must contain text',
+  'resume.requirements.structured': '• A structured resume is recommended',
+  'resume.requirements.time': 'Processing time:',
+  'resume.requirements.timeText': 'up to 2 minutes for complex resumes',
+  'resume.animationTitle': 'Simple animation',
+  'resume.animationSteps': '4 simple steps of 1 second each.',
+  'resume.animationWait': 'If the API is faster, we wait for the animation to finish.',
+  'resume.howTitle': '🤖 How processing works:',
+  'resume.how.depth': 'Depth:',
+  'resume.how.depthText': '8 stages of 4 seconds each',
+  'resume.how.quality': 'Quality:',
+  'resume.how.qualityText': 'At least 32 seconds of detailed analysis',
+  'resume.how.ai': 'AI analysis:',
+  'resume.how.aiText': 'Neural networks process every aspect of the resume',
+  'resume.how.patience': 'Patience:',
+  'resume.how.patienceText': 'It may take up to 2 minutes',
+  'resume.how.flexible': 'Flexibility:',
+  'resume.how.flexibleText': 'Data is accepted as is, without strict validation',
+
+  // AI-шлюз
+  'gateway.aborted': 'Request cancelled',
+  'gateway.timeout': 'The request timed out ({seconds} seconds)',
+  'gateway.network': 'Network error: cannot connect to the server',
+  'gateway.invalidJson': 'The server returned invalid JSON',
+  'gateway.notObject': 'Invalid API response format: an object was expected',
+  'gateway.missingField': 'The API response is missing a required field: {field}',
+  'gateway.invalidBreakdown': 'The breakdown field in the API response has an invalid structure',
+  'gateway.noLetterText': 'The letter was not generated: the API response contains no text',
+  'gateway.noFragmentText': 'The fragment was not rewritten: the API response contains no text',
+  'gateway.invalidInterviewPrep': 'Interview questions came back in an unexpected format',
+  'gateway.invalidResume': 'The server returned an invalid response. The file may be damaged or in an unsupported format.',
+  'gateway.vacancySourceRequired': 'Provide a vacancy link, text or file',
+
+  // Профили голоса письма
+  'letterProfile.manage': 'My profiles',
+  'letterProfile.badge': 'Profile',
+  'letterProfile.description': 'Your voice: {samples, plural, one {# sample} other {# samples}}',
+  'letterProfile.loadFailed': 'Failed to load profiles: {message}',
+  'letterProfile.editorTitle': 'Voice profiles',
+  'letterProfile.new': 'New profile',
+  'letterProfile.create': 'Create profile',
+  'letterProfile.name': 'Name',
+  'letterProfile.namePlaceholder': 'For example: My business voice',
+  'letterProfile.samples': 'Sample paragraphs (up to {max}, separate with a blank line)',
+  'letterProfile.samplesPlaceholder': 'Paste paragraphs from letters you wrote yourself',
+  'letterProfile.avoidWords': 'Words to avoid (up to {max}, comma-separated)',
+  'letterProfile.avoidWordsPlaceholder': 'synergy, team player',
+  'letterProfile.greeting': 'Greeting',
+  'letterProfile.greetingPlaceholder': 'Dear hiring team,',
+  'letterProfile.signOff': 'Sign-off',
+  'letterProfile.signOffPlaceholder': 'Best regards,',
+  'letterProfile.maxLength': 'Maximum letter length ({min}–{max} characters)',
+  'letterProfile.maxLengthPlaceholder': 'No limit',
+  'letterProfile.errorTitle': 'Profile not saved',
+  'letterProfile.saveFailed': 'Failed to save the profile: {message}',
+  'letterProfile.deleteFailed': 'Failed to delete the profile: {message}',
+  'letterProfile.deleteConfirm': 'Delete this profile? Saved letters will no longer reference it.',
+  'letterProfile.presetsGroup': 'Presets',
+  'letterProfile.profilesGroup': 'My profiles',
+  'letterProfile.settingsProfile': 'Profile:',
+
+  // Секции и шаблоны адаптированного резюме
+  'resumeSection.summary': 'Summary',
+  'resumeSection.experience': 'Work experience',
+  'resumeSection.skills': 'Skills',
+  'resumeSection.education': 'Education',
+  'resumeSection.languages': 'Languages',
+  'resumeTemplate.classic': 'Classic',
+  'resumeTemplate.classicDescription': 'Strict black-and-white layout',
+  'resumeTemplate.modern': 'Modern',
+  'resumeTemplate.modernDescription': 'Colored header and accent headings',
+  'resumeTemplate.compact': 'Compact',
+  'resumeTemplate.compactDescription': 'Smaller margins to fit on one page',
+
+  // Отчет о недостающих навыках
+  'skillGap.category.programming_language': 'Programming and markup languages',
+  'skillGap.category.framework': 'Frameworks and libraries',
+  'skillGap.category.database': 'Databases',
+  'skillGap.category.infrastructure': 'Infrastructure and DevOps',
+  'skillGap.category.tool': 'Tools',
+  'skillGap.category.other_hard': 'Other hard skills',
+  'skillGap.category.soft': 'Soft skills',
+  'skillGap.category.language': 'Foreign languages',
+  'skillGap.action.languageCourse': 'Take an introductory {skill} course and solve 20-30 practice problems',
+  'skillGap.action.languageRewrite': 'Rewrite a small module of your project in {skill}',
+  'skillGap.action.frameworkProject': 'Build a pet project with {skill} and publish it on GitHub',
+  'skillGap.action.frameworkDocs': 'Work through the official {skill} documentation and examples',
+  'skillGap.action.databaseSchema': 'Design a data schema for your project in {skill}',
+  'skillGap.action.databaseQueries': 'Study indexes, transactions and query optimization in {skill}',
+  'skillGap.action.infrastructureDeploy': 'Deploy your project using {skill}',
+  'skillGap.action.infrastructureCourse': 'Take a hands-on course or labs on {skill}',
+  'skillGap.action.toolPractice': 'Use {skill} in your daily work or a study project',
+  'skillGap.action.otherCourse': 'Find a course or book on "{skill}" and put the knowledge into practice',
+  'skillGap.action.softExample': 'Prepare an example from your experience that shows "{skill}" for the interview',
+  'skillGap.action.softFeedback': 'Ask colleagues for feedback on "{skill}"',
+  'skillGap.action.foreignPractice': 'Practice {skill} regularly: conversation with a tutor or in a speaking club',
+  'skillGap.action.foreignCertificate': 'Confirm your {skill} level with an international certificate',
+  'skillGap.action.addToResume': 'If you already know {skill}, add it to your resume with an example of how you used it',
+  'skillGap.action.highDemand': 'The skill is required in {count} of your vacancies - learn it first',
+  'skillGap.title': 'Skill development plan',
+  'skillGap.vacancyAtCompany': '{title} at {company}',
+  'skillGap.noMissing': 'All skills from the vacancy are in your resume.',
+  'skillGap.missingCount': 'Missing skills: {count}',
+  'skillGap.historyNote': 'Demand is based on {count, plural, one {# saved vacancy} other {# saved vacancies}}.',
+  'skillGap.demand': 'in {count, plural, one {# vacancy} other {# vacancies}}',
+  'skillGap.fileNamePrefix': 'Skill_plan',
+  'skillGap.emptyTitle': 'All skills from the vacancy are in your resume',
+  'skillGap.emptyDescription': 'The missing skills report is empty',
+  'skillGap.historyDemand': 'demand across {count, plural, one {# saved vacancy} other {# saved vacancies}}',
+  'skillGap.download': 'Download plan',
+  'skillGap.summaryTitle': 'Skills you are missing most often',
+  'skillGap.summaryVacancies': 'Across {count, plural, one {# saved vacancy} other {# saved vacancies}}',
+  'skillGap.summaryCount': '{count} of {total}',
+
+  // Быстрая оценка навыков
+  'skillPreScore.title': 'Quick skill check',
+  'skillPreScore.description': 'Direct comparison of resume and vacancy skills with synonyms, without AI',
+  'skillPreScore.hardSkills': 'Hard skills',
+  'skillPreScore.languages': 'Languages',
+  'skillPreScore.noRequirements': 'The vacancy lists no requirements',
+  'skillPreScore.matchedOf': '{matched} of {total}',
+  'skillPreScore.matched': 'In your resume',
+  'skillPreScore.missing': 'Not found in your resume',
+  'skillPreScore.extra': 'Also in your resume',
+  'skillPreScore.localScore': 'Quick hard skills score:',
+  'skillPreScore.aiScore': 'AI score:',
+  'skillPreScore.agreement.agree': 'The scores agree',
+  'skillPreScore.agreement.ai_higher': 'AI scored higher: it probably counted related skills and experience not listed among your skills',
+  'skillPreScore.agreement.ai_lower': 'AI scored lower: the skills are probably listed in the resume but not backed by experience',
+
+  // Адаптированное резюме
+  'tailoredResume.title': 'Tailored resume',
+  'tailoredResume.subtitle': 'We will bring the experience and skills that matter for this vacancy to the top of your resume',
+  'tailoredResume.start': 'Tailor resume to the vacancy',
+  'tailoredResume.changesTitle': 'What will change:',
+  'tailoredResume.changeExperience': 'Work experience bullets will be sorted by relevance to the vacancy',
+  'tailoredResume.changeSkills': 'Matching skills will move to the top of the list',
+  'tailoredResume.changeKeywords': 'Vacancy keywords will be highlighted',
+  'tailoredResume.changeOptional': 'You can skip this step and go straight to the results',
+  'tailoredResume.matches': 'Matches with the vacancy: {count}',
+  'tailoredResume.reset': 'Reset',
+  'tailoredResume.template': 'PDF template',
+  'tailoredResume.sections': 'Sections',
+  'tailoredResume.pin': 'Pin to the top',
+  'tailoredResume.unpin': 'Unpin',
+  'tailoredResume.show': 'Show',
+  'tailoredResume.hide': 'Hide',
+  'tailoredResume.downloadPdf': 'Download resume as PDF',
+  'tailoredResume.savedWithGeneration': 'The tailored resume will be saved with the generation',
+  'tailoredResume.pdfFailed': 'Failed to create PDF: {message}',
+
+  // История этапов отклика
+  'timeline.loading': 'Loading history...',
+  'timeline.empty': 'No stage changes yet',
+  'timeline.delete': 'Delete stage change',
+  'timeline.deleteConfirm': 'Delete this stage change from the history?',
+  'timeline.notePlaceholder': 'Note: who you talked to, what you agreed on...',
+  'timeline.add': 'Add stage change',
+  'timeline.reminderPending': 'We will remind you to follow up on {date} if there is no reply',
+  'timeline.reminderSent': 'Reminder sent to Telegram on {date}',
+  'timeline.cancelReminder': 'Cancel',
+  'timeline.copyFollowUp': 'Copy follow-up email',
+  'timeline.loadFailed': 'Failed to load history: {message}',
+  'timeline.saveFailed': 'Failed to save stage change: {message}',
+  'timeline.deleteFailed': 'Failed to delete stage change: {message}',
+  'timeline.cancelReminderFailed': 'Failed to cancel reminder: {message}',
+
+  // Подготовка к собеседованию
+  'interview.title': 'Interview preparation',
+  'interview.subtitle': 'We will pick likely questions and an answer plan based on your experience',
+  'interview.focusTitle': 'Questions will focus on:',
+  'interview.generate': 'Prepare interview questions',
+  'interview.generating': 'Preparing questions...',
+  'interview.benefitsTitle': 'What you will get:',
+  'interview.benefitQuestions': 'Likely technical and behavioral questions for the vacancy',
+  'interview.benefitOutline': 'An answer plan for each question',
+  'interview.benefitExperience': 'Resume experience points worth building on',
+  'interview.benefitOptional': 'You can skip this step and move on',
+  'interview.questionCount': 'Questions: {count}',
+  'interview.reset': 'Reset',
+  'interview.missingData': 'Preparation needs the resume, the vacancy and the scoring results',
+  'interview.generateFailed': 'Failed to prepare questions: {message}',
+  'interview.weakAreasFocus': 'Focus on weak areas:',
+  'interview.answerOutline': 'Answer plan',
+  'interview.experienceRefs': 'Build on your resume experience',
+  'interview.category.technical': 'Technical',
+  'interview.category.behavioral': 'Behavioral',
+  'interview.category.experience': 'Experience',
+  'interview.category.motivation': 'Motivation',
+
+  // История изменений резюме
+  'resumeHistory.title': 'Change history',
+  'resumeHistory.empty': 'No edits yet',
+  'resumeHistory.version': 'Version {number}',
+  'resumeHistory.current': 'current',
+  'resumeHistory.restoredFrom': 'restored from version {number}',
+  'resumeHistory.compareBefore': 'before',
+  'resumeHistory.compareAfter': 'after',
+  'resumeHistory.compareBeforeTitle': 'Compare: before',
+  'resumeHistory.compareAfterTitle': 'Compare: after',
+  'resumeHistory.restore': 'Restore this version',
+  'resumeHistory.restoreConfirm': 'Restore the version from {date}? The current data will stay in the history.',
+  'resumeHistory.loadFailed': 'Failed to load history: {message}',
+  'resumeHistory.restoreFailed': 'Failed to restore version: {message}',
+  'resumeHistory.noDifferences': 'The versions are identical',
+  'resumeHistory.personalInfo': 'Personal information',
+  'resumeHistory.profile': 'Profile',
+  'resumeHistory.skills': 'Skills',
+  'resumeHistory.hardSkills': 'Hard skills',
+  'resumeHistory.softSkills': 'Soft skills',
+  'resumeHistory.languages': 'Languages',
+  'resumeHistory.experience': 'Work experience',
+  'resumeHistory.added': 'Added',
+  'resumeHistory.removed': 'Removed',
+  'resumeHistory.changed': 'Changed',
+  'resumeHistory.untitled': 'Untitled',
+  'resumeHistory.education': 'Education',
+  'resumeHistory.institutions': 'Institutions',
+  'resumeDiff.field.firstName': 'First name',
+  'resumeDiff.field.lastName': 'Last name',
+  'resumeDiff.field.email': 'Email',
+  'resumeDiff.field.phone': 'Phone',
+  'resumeDiff.field.website': 'Website',
+  'resumeDiff.field.city': 'City',
+  'resumeDiff.field.country': 'Country',
+  'resumeDiff.field.telegram': 'Telegram',
+  'resumeDiff.field.desiredPosition': 'Desired position',
+  'resumeDiff.field.summary': 'About me',
+  'resumeDiff.field.position': 'Position',
+  'resumeDiff.field.company': 'Company',
+  'resumeDiff.field.startDate': 'Start',
+  'resumeDiff.field.endDate': 'End',
+  'resumeDiff.field.industry': 'Industry',
+
+  // Пакетный анализ вакансий
+  'batch.title': 'Batch vacancy analysis',
+  'batch.subtitle': 'Paste up to {max} links - we will score how well your resume matches each vacancy',
+  'batch.dashboard': 'Dashboard',
+  'batch.loadingResumes': 'Loading your resumes...',
+  'batch.noResumes': 'Batch analysis needs a saved resume',
+  'batch.uploadResume': 'Upload resume',
+  'batch.resume': 'Resume',
+  'batch.defaultResume': 'default',
+  'batch.urls': 'Vacancy links (one per line)',
+  'batch.stop': 'Stop',
+  'batch.start': 'Analyze vacancies',
+  'batch.progress': 'Processed {finished} of {total}, scored {scored}',
+  'batch.column.vacancy': 'Vacancy',
+  'batch.column.status': 'Status',
+  'batch.column.total': 'Total',
+  'batch.column.hard': 'Hard',
+  'batch.column.soft': 'Soft',
+  'batch.column.experience': 'Experience',
+  'batch.column.position': 'Position',
+  'batch.column.letter': 'Letter',
+  'batch.continue': 'Continue with unprocessed vacancies',
+  'batch.topLettersBefore': 'Generate letters for the top',
+  'batch.topLettersAfter': 'vacancies',
+  'batch.createLetters': 'Create letters ({count})',
+  'batch.lettersCreated': 'Letters created',
+  'batch.letterSaved': 'The letter is saved in your dashboard',
+  'batch.selectResume': 'Select a resume for the analysis',
+  'batch.noSupportedUrls': 'No supported vacancy links found',
+  'batch.resumesLoadFailed': 'Failed to load resumes: {message}',
+  'batch.analysisFailed': 'Failed to analyze the vacancy',
+  'batch.notAnalyzed': 'The vacancy has not been analyzed yet',
+  'batch.duplicateVacancy': 'the vacancy is already in the list',
+  'batch.tooManyVacancies': 'You can analyze at most {max} vacancies at once, extra links were skipped',
+  'batch.status.queued': 'Queued',
+  'batch.status.analysing': 'Analyzing',
+  'batch.status.scored': 'Scored',
+  'batch.status.failed': 'Error',
+
+  // Проверка и хранение данных
+  'data.notAuthenticated': 'User is not authenticated',
+  'data.resumeNotFound': 'Resume not found',
+  'data.letterVariantNotFound': 'Letter variant not found',
+  'data.letterProfileNotFound': 'Profile not found',
+  'data.unknownStage': 'Unknown application stage: {stage}',
+  'data.noteTooLong': 'The note must not exceed {max} characters',
+  'data.invalidStageDate': 'Invalid transition date',
+  'data.jobTitleRequired': 'Job title is required',
+  'data.companyNameRequired': 'Company name is required',
+  'data.letterTextRequired': 'Letter text is required',
+  'data.scoringResultsRequired': 'Scoring results are required',
+  'data.resumeDataRequired': 'Resume data is required',
+  'data.jobDataRequired': 'Vacancy data is required',
+  'data.interviewPrepNotObject': 'Interview questions must be an object',
+  'data.letterTextMismatch': 'The letter text must match the primary variant',
+  'data.primaryVariantCount': 'Exactly one variant must be marked as primary, marked: {count}',
+  'data.overallScoreRange': 'The overall score must be a number from 0 to 100',
+  'data.letterProfileIdInvalid': 'The letter profile ID must be a non-empty string',
+  'data.scoringResumeMissing': 'Resume data is missing',
+  'data.scoringFirstNameMissing': 'The resume is missing the candidate\'s first name',
+  'data.scoringLastNameMissing': 'The resume is missing the candidate\'s last name',
+  'data.scoringSkillsMissing': 'The resume lists no skills',
+  'data.scoringSkillsInvalid': 'The resume skills are empty or invalid',
+  'data.scoringJobMissing': 'Vacancy data is missing',
+  'data.scoringJobTitleMissing': 'The vacancy has no job title',
+  'data.scoringCompanyMissing': 'The vacancy has no company',
+  'data.scoringUserIdMissing': 'User ID is missing',
+  'data.scoringUserIdInvalid': 'Invalid user ID format',
+  'data.scoringValidationFailed': 'Data validation failed: {errors}',
+
+  // Экспорт в PDF
+  'pdf.fontLoadFailed': 'Failed to load the font: {status}',
+  'pdf.keySkills': 'Key for this vacancy: {skills}',
+  'pdf.otherSkills': 'Also: {skills}',
+  'pdf.resumeFileNamePrefix': 'Resume',
+};
@@ -0,0 +1,864 @@
+/**
+ * Русский каталог сообщений интерфейса - эталон для остальных языков
+ *
+ * Ключи сгруппированы по компонентам. Шаблоны используют подстановки
+ * в стиле ICU: {name}, {count, plural, one {...} few {...} many {...} other {...}}
+ */
+export const ru = {
+  // Общие
+  'common.cancel': 'Отмена',
+  'common.save': 'Сохранить',
+  'common.saveChanges': '✅ Сохранить изменения',
+  'common.add': 'Добавить',
+  'common.close': 'Закрыть',
+  'common.delete': 'Удалить',
+  'common.edit': 'Редактировать',
+  'common.copy': 'Копировать',
+  'common.copied': 'Скопировано!',
+  'common.retry': 'Попробовать снова',
+  'common.loading': 'Загрузка...',
+  'common.back': 'Назад',
+  'common.next': 'Далее',
+  'common.language': 'Язык',
+  'common.copyFailed': 'Не удалось скопировать текст. Попробуйте выделить и скопировать вручную.',
+
+  // Приложение и онбординг
+  'app.initializing': 'Инициализация приложения...',
+  'onboarding.slide1.title': 'Создавайте выигрышные сопроводительные письма за секунды',
+  'onboarding.slide1.description': 'Наш ИИ анализирует вакансию и ваше резюме, создавая персонализированное письмо, которое привлечет внимание HR.',
+  'onboarding.slide2.title': 'Просто загрузите резюме и вставьте ссылку на вакансию',
+  'onboarding.slide2.description': 'Загрузите своё резюме один раз, а затем просто вставляйте ссылки на интересные вакансии. ИИ сделает всё остальное.',
+  'onboarding.slide3.title': 'Проверьте соответствие перед подачей заявки',
+  'onboarding.slide3.description': 'Получите оценку совместимости и рекомендации по улучшению. Перестаньте тратить время на неподходящие вакансии.',
+  'onboarding.slide4.title': 'Вы готовы! Давайте начнём',
+  'onboarding.slide4.description': 'Увеличьте свои шансы на получение работы мечты с JobMatch AI.',
+  'onboarding.start': 'Начать работу',
+  'onboarding.continue': 'Продолжить',
+  'onboarding.skip': 'Пропустить',
+
+  // Статусы генераций и этапы откликов
+  'status.completed': 'Завершено',
+  'status.draft': 'Черновик',
+  'status.archived': 'Архив',
+  'status.prepared': 'Подготовлен',
+  'status.applied': 'Отправлен',
+  'status.recruiter_screen': 'Скрининг с рекрутером',
+  'status.interview': 'Собеседование',
+  'status.offer': 'Оффер',
+  'status.rejected': 'Отказ',
+  'status.withdrawn': 'Отозван',
+  'status.unknown': 'Неизвестно',
+  'vacancySource.url': 'По ссылке',
+  'vacancySource.text': 'Вставленный текст',
+  'vacancySource.file': 'Файл {fileName}',
+  'vacancySource.unknown': 'Источник не указан',
+  'salary.notSpecified': 'Зарплата не указана',
+  'salary.range': 'от {from} до {to}',
+  'salary.from': 'от {from}',
+  'salary.to': 'до {to}',
+  'salary.gross': '{range} до вычета налогов',
+  'salary.net': '{range} на руки',
+
+  // Вход
+  'auth.defaultName': 'Пользователь',
+  'auth.welcome': 'Добро пожаловать!',
+  'auth.subtitle': 'Войдите или зарегистрируйтесь с помощью Magic Link',
+  'auth.subtitleSent': 'Ссылка для входа отправлена на вашу почту',
+  'auth.namePlaceholder': 'Ваше имя',
+  'auth.sending': 'Отправляем ссылку...',
+  'auth.getMagicLink': 'Получить Magic Link',
+  'auth.checkMail': 'Проверьте вашу почту! Мы отправили ссылку для входа.',
+  'auth.invalidEmail': 'Пожалуйста, введите корректный email адрес',
+  'auth.sendFailed': 'Произошла ошибка при отправке ссылки. Попробуйте еще раз.',
+  'auth.linkSent': 'Ссылка отправлена!',
+  'auth.followLinkBefore': 'Проверьте почту',
+  'auth.followLinkAfter': 'и перейдите по ссылке для входа',
+  'auth.greetingBefore': 'Привет,',
+  'auth.redirectTo': 'После клика по ссылке вы будете перенаправлены на:',
+  'auth.devRedirect': '✅ Режим разработки: гарантированный редирект на localhost',
+  'auth.otherEmail': 'Отправить на другой email',
+  'auth.testerLogin': 'Войти как тестер',
+  'auth.magicLinkTitle': '🔗 Что такое Magic Link?',
+  'auth.magicLinkSecure': '• Безопасный вход без пароля',
+  'auth.magicLinkExpires': '• Ссылка действует 1 час',
+  'auth.magicLinkSignup': '• Автоматическая регистрация новых пользователей',
+  'auth.magicLinkSpam': '• Проверьте папку "Спам" если письмо не пришло',
+  'auth.nameWhyTitle': '👤 Зачем нужно имя?',
+  'auth.nameWhyInterface': '• Персонализация интерфейса приложения',
+  'auth.nameWhyLetters': '• Создание профессиональных сопроводительных писем',
+  'auth.nameWhyExperience': '• Улучшение пользовательского опыта',
+  'auth.nameWhyChange': '• Можно изменить позже в настройках профиля',
+  'auth.testTitle': 'Тестовый вход',
+  'auth.testSubtitle': 'Введите учетные данные тестера',
+  'auth.testUsername': 'Имя пользователя',
+  'auth.testKey': 'Ключ доступа',
+  'auth.testChecking': 'Проверяем...',
+  'auth.testSubmit': 'Войти',
+  'auth.testErrorTitle': 'Ошибка входа',
+  'auth.testAccounts': '🧪 Тестовые аккаунты:',
+  'auth.testFailed': 'Произошла ошибка при входе',
+  'auth.testInvalidCredentials': 'Неверное имя пользователя или ключ доступа',
+  'auth.testDevOnly': 'Тестовый вход доступен только в режиме разработки',
+  'auth.testServerConfig': 'Сервер не настроен. Обратитесь к администратору',
+
+  // Личный кабинет
+  'steps.dashboard.title': 'Личный кабинет',
+  'steps.dashboard.description': 'Просмотр сохраненных генераций и создание новых',
+  'steps.upload.title': 'Загрузка Резюме',
+  'steps.upload.description': 'Загрузите ваше резюме в формате PDF или DOCX',
+  'steps.analyze.title': 'Загрузка вакансии',
+  'steps.analyze.description': 'Вставьте ссылку на интересную вакансию',
+  'steps.generate.title': 'Генерация Письма',
+  'steps.generate.description': 'Сгенерируйте персональное сопроводительное письмо',
+  'steps.scoring.title': 'Скорринг',
+  'steps.scoring.description': 'Посмотрите анализ соответствия и рекомендации',
+  'steps.interview.title': 'Собеседование',
+  'steps.interview.description': 'Подготовьтесь к вопросам на собеседовании',
+  'steps.tailor.title': 'Резюме',
+  'steps.tailor.description': 'Адаптируйте резюме под вакансию',
+  'steps.final.title': 'Итого',
+  'steps.final.description': 'Финальные результаты и отправка',
+  'dashboard.greetingBefore': 'Привет,',
+  'dashboard.defaultName': 'пользователь',
+  'dashboard.profileSettings': 'Настройки профиля',
+  'dashboard.signOut': 'Выйти',
+  'dashboard.title': 'Личный кабинет',
+  'dashboard.subtitle': 'Управляйте своими сопроводительными письмами и результатами скорринга',
+  'dashboard.newLetter': 'Создать новое письмо',
+  'dashboard.batchAnalysis': 'Пакетный анализ вакансий',
+  'dashboard.searchPlaceholder': 'Поиск по должности, компании...',
+  'dashboard.sortDate': 'По дате',
+  'dashboard.sortScore': 'По баллу',
+  'dashboard.sortCompany': 'По компании',
+  'dashboard.viewList': 'Список',
+  'dashboard.viewBoard': 'Доска по этапам',
+  'dashboard.loadingGenerations': 'Загружаем ваши генерации...',
+  'dashboard.loadFailed': 'Не удалось загрузить историю: {message}',
+  'dashboard.nothingFound': 'Ничего не найдено',
+  'dashboard.empty': 'У вас пока нет сохраненных писем',
+  'dashboard.changeQuery': 'Попробуйте изменить поисковый запрос',
+  'dashboard.createFirstHint': 'Создайте свое первое сопроводительное письмо',
+  'dashboard.createFirst': 'Создать первое письмо',
+  'dashboard.viewDetails': 'Просмотреть детали',
+  'dashboard.wizardTitle': 'Создание письма',
+  'dashboard.stepOf': 'Шаг {step} из {total}',
+  'dashboard.next': 'Далее →',
+  'dashboard.finishStep': 'Завершите текущий этап',
+  'dashboard.loadingDetails': 'Загружаем детали...',
+  'dashboard.detailsFailed': 'Не удалось загрузить детали: {message}',
+  'dashboard.confirmDelete': 'Вы уверены, что хотите удалить эту генерацию? Это действие нельзя отменить.',
+  'dashboard.deleteFailed': 'Не удалось удалить генерацию: {message}',
+  'dashboard.stageFailed': 'Не удалось сменить этап: {message}',
+  'dashboard.variantFailed': 'Не удалось выбрать вариант: {message}',
+  'dashboard.pdfFailed': 'Не удалось создать PDF: {message}',
+  'dashboard.score': 'Скорринг: {score}%',
+  'dashboard.coverLetter': 'Сопроводительное письмо',
+  'dashboard.letterCopied': 'Письмо скопировано в буфер обмена!',
+  'dashboard.copyLetter': 'Копировать письмо',
+  'dashboard.creatingPdf': 'Создаем PDF...',
+  'dashboard.downloadPdf': 'Скачать PDF',
+  'dashboard.downloadWord': 'Скачать Word',
+  'dashboard.tailoredResumePdf': 'Адаптированное резюме (PDF)',
+  'dashboard.scoringResults': 'Результаты скорринга',
+  'dashboard.applicationStage': 'Отклик: {stage}',
+  'dashboard.interviewPrep': 'Подготовка к собеседованию',
+  'scoring.dimension.hard_skills': '💻 Технические навыки',
+  'scoring.dimension.soft_skills': '🤝 Гибкие навыки',
+  'scoring.dimension.experience_match': '💼 Соответствие опыта',
+  'scoring.dimension.position_match': '🎯 Соответствие должности',
+
+  // Скорринг
+  'scoring.progress.sending': 'Отправляем данные в Gemini AI...',
+  'scoring.progress.hardSkills': 'Анализируем технические навыки...',
+  'scoring.progress.softSkills': 'Оцениваем гибкие навыки...',
+  'scoring.progress.experience': 'Проверяем соответствие опыта...',
+  'scoring.progress.position': 'Анализируем соответствие должности...',
+  'scoring.progress.recommendations': 'Формируем рекомендации...',
+  'scoring.missing.resume': 'данные резюме',
+  'scoring.missing.job': 'данные вакансии',
+  'scoring.missing.user': 'идентификатор пользователя',
+  'scoring.missingData': 'Отсутствуют критически важные данные: {items}',
+  'scoring.unknownError': 'Произошла неизвестная ошибка при анализе соответствия',
+  'scoring.recommendation.excellent_match': 'Превосходное совпадение!',
+  'scoring.recommendation.good_match': 'Хорошее совпадение!',
+  'scoring.recommendation.average_match': 'Среднее совпадение.',
+  'scoring.recommendation.low_match': 'Низкое совпадение.',
+  'scoring.title': 'Скорринг соответствия',
+  'scoring.subtitle': 'Проанализируем совместимость вашего резюме с вакансией через новый Gemini AI',
+  'scoring.subtitleRunning': 'Детализированный анализ с Gemini AI',
+  'scoring.inputTitle': '📊 Данные для нового скорринга:',
+  'scoring.inputResume': 'Резюме: {name} ({count, plural, one {# навык} few {# навыка} many {# навыков} other {# навыка}})',
+  'scoring.inputJob': 'Вакансия: {position} в {company}',
+  'scoring.start': 'Запустить анализ с Gemini AI',
+  'scoring.aboutTitle': '🤖 Что анализирует новый Gemini AI:',
+  'scoring.about.hardSkills': 'Технические навыки:',
+  'scoring.about.hardSkillsText': 'Анализ соответствия hard skills',
+  'scoring.about.softSkills': 'Гибкие навыки:',
+  'scoring.about.softSkillsText': 'Оценка soft skills и коммуникативных способностей',
+  'scoring.about.experience': 'Соответствие опыта:',
+  'scoring.about.experienceText': 'Релевантность прошлого опыта работы',
+  'scoring.about.position': 'Соответствие должности:',
+  'scoring.about.positionText': 'Подходящость для конкретной позиции',
+  'scoring.about.recommendations': 'Рекомендации:',
+  'scoring.about.recommendationsText': 'Персональные советы для кандидата и рекрутера',
+  'scoring.running': 'Новый Gemini AI выполняет детальный анализ',
+  'scoring.progressLabel': 'Прогресс анализа',
+  'scoring.errorTitle': 'Ошибка анализа соответствия',
+  'scoring.hideError': 'Скрыть ошибку',
+  'scoring.totalScore': '🎯 Общий балл соответствия: {score}%',
+  'scoring.poweredBy': '🤖 Анализ выполнен Gemini AI',
+  'scoring.rerun': '🔄 Повторить анализ',
+  'scoring.breakdownTitle': '📊 Детализация соответствия',
+  'scoring.columnParameter': 'Параметр',
+  'scoring.columnScore': 'Балл',
+  'scoring.columnAnalysis': 'Анализ',
+  'scoring.candidateTitle': '👤 Рекомендации для вас (кандидата)',
+  'scoring.recruiterTitle': '🎯 Что увидит рекрутер',
+  'scoring.categoryTitle': '🎓 Общая категория соответствия',
+
+  // Сопроводительное письмо
+  'letterStyle.neutral': 'Нейтральный',
+  'letterStyle.creative': 'Креативный',
+  'letterStyle.startup': 'Стартап',
+  'letterStyle.formal': 'Строгий',
+  'letterStyle.neutral.description': 'Классический деловой стиль',
+  'letterStyle.creative.description': 'Яркий и запоминающийся',
+  'letterStyle.startup.description': 'Современный и гибкий',
+  'letterStyle.formal.description': 'Консервативный и официальный',
+  'letterLength.short': 'Короткое',
+  'letterLength.medium': 'Среднее',
+  'letterLength.long': 'Развернутое',
+  'letterLanguage.name.en': 'английский',
+  'letterLanguage.name.ru': 'русский',
+  'letterLanguage.name.uk': 'украинский',
+  'letterLanguage.name.kk': 'казахский',
+  'letterVariant.merged': 'Сборный',
+  'letterRewrite.shorten': 'Сократить',
+  'letterRewrite.formalize': 'Официальнее',
+  'letterRewrite.add_metric': 'Добавить метрику',
+  'letterRewrite.emphasize_skill': 'Подчеркнуть навык',
+  'letterRewrite.translate': 'Перевести абзац',
+  'letterRewrite.tooLong': 'Выделите фрагмент короче {max} символов',
+  'letterRewrite.failed': 'Не удалось переписать фрагмент',
+  'letterRewrite.hint': 'Выделите фрагмент письма, чтобы переписать его с помощью AI',
+  'letterRewrite.clearSelection': 'Снять выделение',
+  'letterRewrite.noSkills': 'Нет навыков для акцента',
+  'letterRewrite.proposal': '{action}: предложенная правка',
+  'letterRewrite.accept': 'Принять',
+  'letterRewrite.reject': 'Отклонить',
+  'letter.title': 'Генерация сопроводительного письма',
+  'letter.subtitle': 'ИИ создаст персональное письмо на основе вашего резюме и вакансии',
+  'letter.aboutTitle': '🤖 Что делает ИИ:',
+  'letter.about.skills': '• Анализирует ваши навыки и опыт из резюме',
+  'letter.about.company': '• Изучает требования и культуру компании',
+  'letter.about.personal': '• Создает персональное письмо под конкретную вакансию',
+  'letter.about.matches': '• Подчеркивает ключевые совпадения с требованиями',
+  'letter.about.tone': '• Использует профессиональный тон и структуру',
+  'letter.about.relevant': '• Выделяет релевантные навыки, опыт и образование',
+  'letter.about.metadata': '• Возвращает структурированный ответ с метаданными',
+  'letter.languageTitle': '🌐 Язык письма',
+  'letter.vacancyLanguage': '• вакансия',
+  'letter.resumeTranslation': 'Язык резюме - {resumeLanguage}: перед генерацией оно будет переведено на {letterLanguage}',
+  'letter.styleTitle': '📝 Стиль письма',
+  'letter.selectedStyle': 'Выбран стиль:',
+  'letter.selectedLength': 'длина:',
+  'letter.variantsTitle': '📑 Варианты письма',
+  'letter.variantsCount': '{count} из {max}',
+  'letter.variantsHint': 'Сгенерируйте несколько вариантов параллельно, сравните их и выберите основной',
+  'letter.presetLengths': 'Этот стиль, разная длина',
+  'letter.presetStyles': 'Разные стили',
+  'letter.removeVariant': 'Убрать вариант',
+  'letter.addVariant': 'Добавить вариант',
+  'letter.highlightsTitle': '🎯 Акценты в письме',
+  'letter.resetAll': 'Сбросить все',
+  'letter.experienceLabel': '💼 Опыт для акцента (макс. {max}):',
+  'letter.educationLabel': '🎓 Образование для акцента (макс. {max}):',
+  'letter.skillsLabel': '🛠️ Навыки для акцента (макс. {max}):',
+  'letter.limitReached': 'Достигнут лимит ({max}/{max})',
+  'letter.noOptions': 'Нет доступных вариантов',
+  'letter.selectExperience': 'Выберите опыт для акцента',
+  'letter.selectEducation': 'Выберите образование для акцента',
+  'letter.selectSkills': 'Выберите навыки для акцента',
+  'letter.experienceAt': '{position} в {company}',
+  'letter.selectedHighlights': '✨ Выбранные акценты:',
+  'letter.experience': 'Опыт:',
+  'letter.education': 'Образование:',
+  'letter.skills': 'Навыки:',
+  'letter.generatingVariants': 'Генерируем {count, plural, one {# вариант} few {# варианта} other {# вариантов}}...',
+  'letter.generating': 'Генерируем письмо...',
+  'letter.generateVariants': 'Сгенерировать {count, plural, one {# вариант} few {# варианта} other {# вариантов}}',
+  'letter.generate': 'Сгенерировать письмо',
+  'letter.ready': 'Письмо готово!',
+  'letter.regenerate': 'Сгенерировать новое',
+  'letter.editTitle': '✏️ Редактирование письма',
+  'letter.editPlaceholder': 'Редактируйте текст письма...',
+  'letter.unsavedChanges': 'У вас есть несохраненные изменения',
+  'letter.primaryVariant': '📝 Основной вариант',
+  'letter.coverLetter': '📝 Сопроводительное письмо',
+  'letter.undo': 'Отменить правку',
+  'letter.redo': 'Повторить правку',
+  'letter.settingsTitle': '⚙️ Использованные настройки:',
+  'letter.settingsStyle': 'Стиль:',
+  'letter.settingsLength': 'Длина:',
+  'letter.settingsLanguage': 'Язык:',
+  'letter.settingsVariants': 'Вариантов:',
+  'letter.settingsExperience': 'Акцент на опыте:',
+  'letter.settingsEducation': 'Акцент на образовании:',
+  'letter.settingsSkills': 'Акцент на навыках:',
+  'letter.errorTitle': 'Ошибка генерации',
+  'letter.missingData': 'Отсутствуют данные резюме или вакансии',
+  'letter.variantsFailed': 'Не удалось сгенерировать вариантов: {failed} из {total}',
+  'letter.failed': 'Не удалось сгенерировать письмо: {message}',
+  'letterVariants.count': 'Вариантов: {count}',
+  'letterVariants.exitMerge': 'Выйти из сборки',
+  'letterVariants.merge': 'Собрать из абзацев',
+  'letterVariants.primary': 'Основной',
+  'letterVariants.makePrimary': 'Сделать основным',
+  'letterVariants.words': '{count, plural, one {# слово} few {# слова} many {# слов} other {# слова}}',
+  'letterVariants.coverage': 'Навыки вакансии: {coverage}%',
+  'letterVariants.notMentioned': 'Не упомянуто: {skills}',
+  'letterVariants.andMore': ' и еще {count}',
+  'letterVariants.mergedTitle': 'Сборный вариант',
+  'letterVariants.mergeHint': 'Отметьте абзацы в вариантах выше в нужном порядке',
+  'letterVariants.addMerged': 'Добавить как вариант',
+  'letterVariants.resetSelection': 'Сбросить выбор',
+  'letterVariants.limitReached': 'Достигнут лимит вариантов',
+
+  // Итоги
+  'final.copyUnavailable': 'Функция копирования недоступна в вашем браузере',
+  'final.missingData': 'Отсутствуют необходимые данные для сохранения',
+  'final.unknownPosition': 'Неизвестная должность',
+  'final.unknownCompany': 'Неизвестная компания',
+  'final.generationTitle': '{position} в {company}',
+  'final.positionFallback': 'Должность',
+  'final.companyFallback': 'компании',
+  'final.saveFailed': 'Не удалось сохранить результаты: {message}',
+  'final.pdfFailed': 'Не удалось создать PDF: {message}',
+  'final.docxFailed': 'Не удалось создать DOCX: {message}',
+  'final.matchLevel.excellent': 'Превосходное соответствие',
+  'final.matchLevel.great': 'Отличное соответствие',
+  'final.matchLevel.good': 'Хорошее соответствие',
+  'final.matchLevel.average': 'Среднее соответствие',
+  'final.matchLevel.low': 'Низкое соответствие',
+  'final.matchLevel.weak': 'Слабое соответствие',
+  'final.letterCopied': 'Сопроводительное письмо скопировано в буфер обмена',
+  'final.saved': 'Результаты сохранены!',
+  'final.savedHint': 'Генерация добавлена в ваш личный кабинет',
+  'final.scoringCopied': 'Скорринг скопирован!',
+  'final.scoringCopiedHint': 'Текст результатов скопирован в буфер обмена',
+  'final.title': 'Готово! 🎉',
+  'final.subtitle': 'Ваше сопроводительное письмо и анализ соответствия готовы',
+  'final.match': 'Соответствие',
+  'final.words': 'Слов в письме',
+  'final.pdfTitle': '📄 PDF содержит:',
+  'final.pdf.letter': 'Полное сопроводительное письмо',
+  'final.pdf.letterText': 'в профессиональном оформлении',
+  'final.pdf.score': 'Общий балл соответствия',
+  'final.pdf.scoreText': 'с цветовой индикацией и графиками',
+  'final.pdf.metrics': 'Детальные метрики',
+  'final.pdf.metricsText': 'по всем критериям с прогресс-барами',
+  'final.pdf.recommendations': 'Персональные рекомендации',
+  'final.pdf.recommendationsText': 'от Gemini AI для улучшения',
+  'final.pdf.candidate': 'Информация о кандидате',
+  'final.pdf.candidateText': 'и метаданные анализа',
+  'final.pdf.print': 'Готовый к печати формат',
+  'final.pdf.printText': 'для презентации работодателю',
+  'final.tabLetter': 'Письмо',
+  'final.tabScoring': 'Скорринг',
+  'final.tabSkills': 'Навыки',
+  'final.saving': 'Сохраняем...',
+  'final.includeScoring': 'Добавить в PDF страницу с результатами скорринга',
+  'final.saveErrorTitle': 'Ошибка сохранения',
+  'final.totalScore': '🎯 Общий балл: {score}%',
+  'final.poweredBy': '🤖 Анализ выполнен через Gemini AI v2.0',
+  'final.copyTitle': '📊 Результаты для копирования',
+  'final.copyText': 'Копировать текст',
+  'final.copyHint': '💡 Этот текст можно скопировать и вставить в письмо рекрутеру или отчет',
+  'final.scoringUnavailable': 'Данные скорринга недоступны',
+  'final.scoringUnavailableHint': 'Вернитесь к шагу "Скорринг" для выполнения анализа соответствия',
+  'final.savedTitle': '💾 Что будет сохранено:',
+  'final.saved.letter': 'Полное сопроводительное письмо',
+  'final.saved.letterText': 'для повторного использования',
+  'final.saved.scoring': 'Детальные результаты скорринга',
+  'final.saved.scoringText': 'по всем 4 параметрам',
+  'final.saved.data': 'Данные резюме и вакансии',
+  'final.saved.dataText': 'для контекста',
+  'final.saved.interview': 'Вопросы к собеседованию',
+  'final.saved.interviewText': 'с планом ответа',
+  'final.saved.recommendations': 'Персональные рекомендации',
+  'final.saved.recommendationsText': 'от Gemini AI',
+  'final.saved.history': 'История генераций',
+  'final.saved.historyText': 'в личном кабинете',
+  'final.saved.review': 'Возможность повторного просмотра',
+  'final.saved.reviewText': 'и анализа',
+  'final.skillsUnavailable': 'Отчет о навыках недоступен',
+  'final.skillsUnavailableHint': 'Для отчета нужны данные резюме и вакансии',
+
+  // Измерения скорринга без иконок
+  'scoring.dimensionName.hard_skills': 'Технические навыки',
+  'scoring.dimensionName.soft_skills': 'Гибкие навыки',
+  'scoring.dimensionName.experience_match': 'Соответствие опыта',
+  'scoring.dimensionName.position_match': 'Соответствие должности',
+
+  // Анализ вакансии
+  'jobUrl.empty': 'Введите URL вакансии',
+  'jobUrl.invalidFormat': 'Некорректный формат URL. Пример: {example}',
+  'jobUrl.invalidProtocol': 'URL должен использовать протокол HTTP или HTTPS',
+  'jobUrl.unsupportedSite': 'Сайт "{host}" не поддерживается. Используйте один из поддерживаемых сайтов или вставьте текст вакансии.',
+  'jobUrl.notVacancy': 'Некорректный формат ссылки для {site}. Убедитесь, что это прямая ссылка на вакансию.',
+  'jobAnalysis.fileTypeUnsupported': 'Неподдерживаемый тип файла. Используйте PDF, DOCX или TXT',
+  'jobAnalysis.fileTooLarge': 'Файл слишком большой. Максимальный размер: {size}MB',
+  'jobAnalysis.textTooShort': 'Текст вакансии слишком короткий. Минимум: {min} символов',
+  'jobAnalysis.textTooLong': 'Текст вакансии слишком длинный. Максимум: {max} символов',
+  'jobAnalysis.loading.sending': 'Отправляем данные...',
+  'jobAnalysis.loading.processing': 'Обрабатываем информацию...',
+  'jobAnalysis.loading.generating': 'Генерируем результат...',
+  'jobAnalysis.loading.receiving': 'Получаем результат',
+  'jobAnalysis.failed': 'Не удалось проанализировать вакансию: {message}',
+  'jobAnalysis.invalidText': 'Некорректный текст вакансии',
+  'jobAnalysis.invalidUrl': 'Некорректный URL вакансии',
+  'jobAnalysis.invalidFile': 'Некорректный файл вакансии',
+  'jobAnalysis.editsSaved': 'Изменения сохранены!',
+  'jobAnalysis.editsSavedHint': 'Данные вакансии обновлены',
+  'jobAnalysis.title': 'Анализ вакансии',
+  'jobAnalysis.subtitle': 'Вставьте ссылку на вакансию, ее текст или загрузите файл',
+  'jobAnalysis.mode.url': 'Ссылка',
+  'jobAnalysis.mode.text': 'Текст или файл',
+  'jobAnalysis.supportedFormats': '🔗 Поддерживаемые форматы ссылок:',
+  'jobAnalysis.urlValid': '✅ {site} - URL корректен',
+  'jobAnalysis.alreadyGenerated': 'Вы уже создавали письмо для этой вакансии: {title} ({date})',
+  'jobAnalysis.noLinkTitle': '📝 Когда ссылки нет:',
+  'jobAnalysis.noLinkText': '• Вставьте текст вакансии из Telegram канала, чата с рекрутером или письма',
+  'jobAnalysis.noLinkFile': '• Или загрузите файл с описанием вакансии: PDF, DOCX или TXT до {size}MB',
+  'jobAnalysis.removeFile': 'Убрать файл',
+  'jobAnalysis.textPlaceholder': 'Вставьте сюда текст вакансии: должность, компания, требования, обязанности...',
+  'jobAnalysis.dropBefore': 'Перетащите файл сюда или',
+  'jobAnalysis.chooseFile': 'выберите файл',
+  'jobAnalysis.moreChars': 'Добавьте еще {count, plural, one {# символ} few {# символа} many {# символов} other {# символа}} для анализа',
+  'jobAnalysis.analyzing': 'Анализируем вакансию...',
+  'jobAnalysis.analyze': 'Анализировать вакансию',
+  'jobAnalysis.analyzingTitle': 'Анализируем вакансию',
+  'jobAnalysis.progress': 'Прогресс',
+  'jobAnalysis.done': 'Вакансия проанализирована!',
+  'jobAnalysis.analyzeAnother': 'Анализировать другую',
+  'jobAnalysis.positionPlaceholder': 'Название должности',
+  'jobAnalysis.companyPlaceholder': 'Название компании',
+  'jobAnalysis.locationUnknown': 'Локация не указана',
+  'jobAnalysis.employmentType': 'Тип занятости',
+  'jobAnalysis.experience': 'Опыт',
+  'jobAnalysis.industry': 'Отрасль',
+  'jobAnalysis.dataTitle': '📋 Данные вакансии',
+  'jobAnalysis.positionLabel': '🎯 Название должности:',
+  'jobAnalysis.positionInput': 'Введите название должности',
+  'skills.hard_skills': 'Технические навыки',
+  'skills.soft_skills': 'Гибкие навыки',
+  'skills.languages': 'Языки',
+  'jobAnalysis.addTo': 'Добавить: {category}',
+  'jobAnalysis.positionTitle': '🎯 Название должности',
+  'jobAnalysis.notSpecified': 'Не указано',
+  'jobAnalysis.skillsTitle': '🛠️ Навыки и требования',
+  'jobAnalysis.noSkills': 'Навыки не извлечены. Нажмите "Редактировать" для ручного добавления.',
+  'jobAnalysis.errorTitle': 'Ошибка анализа',
+  'jobAnalysis.supportedSites': '✅ Поддерживаемые сайты:',
+  'jobAnalysis.parsingTitle': '📊 Гибкий парсинг данных:',
+  'jobAnalysis.parsing.priority': 'Приоритет:',
+  'jobAnalysis.parsing.priorityText': 'title, skills (hard/soft/languages)',
+  'jobAnalysis.parsing.noData': 'Если нет данных:',
+  'jobAnalysis.parsing.noDataText': 'поля остаются пустыми',
+  'jobAnalysis.parsing.manual': 'Ручное редактирование:',
+  'jobAnalysis.parsing.manualText': 'можно добавить любые навыки',
+  'jobAnalysis.parsing.lenient': 'Без строгой валидации:',
+  'jobAnalysis.parsing.lenientText': 'принимаем любой формат JSON',
+  'jobAnalysis.parsing.flexible': 'Гибкость:',
+  'jobAnalysis.parsing.flexibleText': 'работает даже при ошибках API',
+
+  // Загрузка резюме
+  'resume.parsing.uploading': 'Загружаем резюме на сервер...',
+  'resume.parsing.init': 'Инициализируем нейросети для анализа...',
+  'resume.parsing.structure': 'Глубокий анализ структуры документа...',
+  'resume.parsing.personal': 'Извлечение персональной информации...',
+  'resume.parsing.skills': 'Анализ навыков и компетенций...',
+  'resume.parsing.experience': 'Обработка опыта работы и образования...',
+  'resume.parsing.recommendations': 'Генерация карьерных рекомендаций...',
+  'resume.parsing.finalizing': 'Финализация и валидация данных...',
+  'resume.fileTooLarge': 'Файл слишком большой. Максимальный размер: {size}MB',
+  'resume.fileTypeUnsupported': 'Неподдерживаемый тип файла. Используйте PDF или DOCX',
+  'resume.fileExtensionUnsupported': 'Неподдерживаемое расширение файла. Используйте .pdf или .docx',
+  'resume.fileValidationFailed': 'Ошибка валидации файла',
+  'resume.parseFailed': 'Произошла ошибка при глубоком анализе резюме',
+  'resume.notStored': 'Резюме не сохранено для следующих генераций: {message}',
+  'resume.setDefaultFailed': 'Не удалось назначить резюме по умолчанию: {message}',
+  'resume.deleteConfirm': 'Удалить "{label}"? Это действие нельзя отменить.',
+  'resume.deleteFailed': 'Не удалось удалить резюме: {message}',
+  'resume.validationFailed': 'Ошибка валидации: {errors}',
+  'resume.editNotStored': 'Правка не сохранена в истории резюме: {message}',
+  'resume.versionSaveFailed': 'Не удалось сохранить новую версию: {message}',
+  'resume.editsSaved': 'Изменения сохранены!',
+  'resume.editsSavedHint': 'Данные резюме обновлены и готовы к использованию',
+  'resume.title': 'Загрузите ваше резюме',
+  'resume.subtitle': 'Поддерживаются файлы PDF и DOCX размером до 10MB',
+  'resume.savedTitle': 'Сохраненные резюме',
+  'resume.default': 'по умолчанию',
+  'resume.noFile': 'Без файла',
+  'resume.use': 'Использовать',
+  'resume.makeDefault': 'Сделать резюме по умолчанию',
+  'resume.orUploadNew': 'Или загрузите новый файл ниже',
+  'resume.dropActive': 'Отпустите файл здесь',
+  'resume.analyzing': 'Анализируем резюме...',
+  'resume.dropHere': 'Перетащите файл сюда',
+  'resume.or': 'или',
+  'resume.chooseFile': 'выберите файл',
+  'resume.deepTitle': 'Глубокий анализ резюме с помощью ИИ',
+  'resume.deepDuration': '⏳ Процесс может занять до 2 минут',
+  'resume.deepProgress': 'Прогресс глубокого анализа',
+  'resume.deepProcess': 'Процесс глубокого анализа',
+  'resume.deepProcessText': 'ИИ проводит детальный анализ всех аспектов вашего резюме.',
+  'resume.deepProcessTime': 'Время выполнения: до 2 минут',
+  'resume.deepProcessMin': 'Минимальная демонстрация: 32 секунды',
+  'resume.savedResume': 'Сохраненное резюме',
+  'resume.processed': '{size} MB • Обработано успешно',
+  'resume.loadedFromAccount': 'Загружено из личного кабинета',
+  'resume.history': 'История изменений',
+  'resume.removeFile': 'Удалить файл',
+  'resume.editingTitle': 'Редактирование данных резюме:',
+  'resume.extractedTitle': 'Ключевые извлеченные данные:',
+  'resume.personalInfo': '👤 Персональная информация',
+  'resume.firstName': 'Имя:',
+  'resume.firstNamePlaceholder': 'Введите имя',
+  'resume.lastName': 'Фамилия:',
+  'resume.lastNamePlaceholder': 'Введите фамилию',
+  'resume.phone': 'Телефон:',
+  'resume.desiredPosition': '🎯 Желаемая позиция',
+  'resume.desiredPositionPlaceholder': 'Например: Frontend Developer',
+  'resume.skills': '🛠️ Навыки',
+  'resume.addHardSkill': 'Добавить технический навык',
+  'resume.addSoftSkill': 'Добавить гибкий навык',
+  'resume.addLanguage': 'Добавить язык',
+  'resume.summary': '📄 Краткое описание',
+  'resume.summaryPlaceholder': 'Опишите ваши профессиональные цели и ключевые достижения...',
+  'resume.saveAsVersion': '💾 Сохранить как новую версию',
+  'resume.unsavedChanges': 'У вас есть несохраненные изменения. Нажмите "Сохранить изменения" перед переходом к следующему шагу.',
+  'resume.positionUnknown': 'Не указана',
+  'resume.noSkills': 'Навыки не извлечены из резюме',
+  'resume.candidateSummary': '📄 Резюме кандидата',
+  'resume.fullDataTitle': '📊 Полные данные сохранены',
+  'resume.fullDataApi': 'Весь объект данных от API сохранен',
+  'resume.fullDataKeyFields': 'Отображаются только ключевые поля',
+  'resume.fullDataNextSteps': '✓ Полные данные передаются на следующие шаги',
+  'resume.errorTitle': 'Ошибка обработки резюме',
+  'resume.hideError': 'Скрыть ошибку',
+  'resume.requirementsTitle': '📋 Требования к файлу:',
+  'resume.requirements.formats': '• Поддерживаемые форматы: PDF, DOCX',
+  'resume.requirements.size': '• Максимальный размер: 10 МБ',
+  'resume.requirements.text': '• Файл должен содержать текстовую информацию',
+  'resume.requirements.structured': '• Рекомендуется структурированное резюме',
+  'resume.requirements.time': 'Время обработки:',
+  'resume.requirements.timeText': 'до 2 минут для сложных резюме',
+  'resume.animationTitle': 'Простая анимация',
+  'resume.animationSteps': '4 простых шага по 1 секунде каждый.',
+  'resume.animationWait': 'Если API быстрее - ждем завершения анимации.',
+  'resume.howTitle': '🤖 Как работает обработка:',
+  'resume.how.depth': 'Глубина:',
+  'resume.how.depthText': '8 этапов по 4 секунды каждый',
+  'resume.how.quality': 'Качество:',
+  'resume.how.qualityText': 'Минимум 32 секунды детального анализа',
+  'resume.how.ai': 'ИИ-анализ:',
+  'resume.how.aiText': 'Нейросети обрабатывают все аспекты резюме',
+  'resume.how.patience': 'Терпение:',
+  'resume.how.patienceText': 'Процесс может занять до 2 минут',
+  'resume.how.flexible': 'Гибкость:',
+  'resume.how.flexibleText': 'Принимаем данные как есть, без строгой валидации',
+
+  // AI-шлюз
+  'gateway.aborted': 'Запрос отменен',
+  'gateway.timeout': 'Время ожидания ответа истекло ({seconds} секунд)',
+  'gateway.network': 'Ошибка сети: не удается подключиться к серверу',
+  'gateway.invalidJson': 'Сервер вернул некорректный JSON',
+  'gateway.notObject': 'Некорректный формат ответа API: ожидался объект',
+  'gateway.missingField': 'Ответ API не содержит обязательное поле: {field}',
+  'gateway.invalidBreakdown': 'Некорректная структура поля breakdown в ответе API',
+  'gateway.noLetterText': 'Письмо не сгенерировано: ответ API не содержит текста',
+  'gateway.noFragmentText': 'Фрагмент не переписан: ответ API не содержит текста',
+  'gateway.invalidInterviewPrep': 'Вопросы к собеседованию получены в неожиданном формате',
+  'gateway.invalidResume': 'Сервер вернул некорректный ответ. Возможно, файл поврежден или имеет неподдерживаемый формат.',
+  'gateway.vacancySourceRequired': 'Укажите ссылку, текст или файл вакансии',
+
+  // Профили голоса письма
+  'letterProfile.manage': 'Мои профили',
+  'letterProfile.badge': 'Профиль',
+  'letterProfile.description': 'Ваш голос: {samples, plural, one {# образец} few {# образца} other {# образцов}}',
+  'letterProfile.loadFailed': 'Не удалось загрузить профили: {message}',
+  'letterProfile.editorTitle': 'Профили голоса',
+  'letterProfile.new': 'Новый профиль',
+  'letterProfile.create': 'Создать профиль',
+  'letterProfile.name': 'Название',
+  'letterProfile.namePlaceholder': 'Например: Мой деловой стиль',
+  'letterProfile.samples': 'Образцы абзацев (до {max}, разделяйте пустой строкой)',
+  'letterProfile.samplesPlaceholder': 'Вставьте абзацы из писем, которые вы писали сами',
+  'letterProfile.avoidWords': 'Слова, которых нужно избегать (до {max}, через запятую)',
+  'letterProfile.avoidWordsPlaceholder': 'синергия, стрессоустойчивый',
+  'letterProfile.greeting': 'Приветствие',
+  'letterProfile.greetingPlaceholder': 'Здравствуйте!',
+  'letterProfile.signOff': 'Подпись',
+  'letterProfile.signOffPlaceholder': 'С уважением,',
+  'letterProfile.maxLength': 'Максимальная длина письма ({min}–{max} символов)',
+  'letterProfile.maxLengthPlaceholder': 'Без ограничения',
+  'letterProfile.errorTitle': 'Профиль не сохранен',
+  'letterProfile.saveFailed': 'Не удалось сохранить профиль: {message}',
+  'letterProfile.deleteFailed': 'Не удалось удалить профиль: {message}',
+  'letterProfile.deleteConfirm': 'Удалить профиль? В сохраненных письмах ссылка на него пропадет.',
+  'letterProfile.presetsGroup': 'Пресеты',
+  'letterProfile.profilesGroup': 'Мои профили',
+  'letterProfile.settingsProfile': 'Профиль:',
+
+  // Секции и шаблоны адаптированного резюме
+  'resumeSection.summary': 'О себе',
+  'resumeSection.experience': 'Опыт работы',
+  'resumeSection.skills': 'Навыки',
+  'resumeSection.education': 'Образование',
+  'resumeSection.languages': 'Языки',
+  'resumeTemplate.classic': 'Классический',
+  'resumeTemplate.classicDescription': 'Строгий черно-белый макет',
+  'resumeTemplate.modern': 'Современный',
+  'resumeTemplate.modernDescription': 'Цветная шапка и акцентные заголовки',
+  'resumeTemplate.compact': 'Компактный',
+  'resumeTemplate.compactDescription': 'Уменьшенные отступы, чтобы уместиться на одной странице',
+
+  // Отчет о недостающих навыках
+  'skillGap.category.programming_language': 'Языки программирования и разметки',
+  'skillGap.category.framework': 'Фреймворки и библиотеки',
+  'skillGap.category.database': 'Базы данных',
+  'skillGap.category.infrastructure': 'Инфраструктура и DevOps',
+  'skillGap.category.tool': 'Инструменты',
+  'skillGap.category.other_hard': 'Другие технические навыки',
+  'skillGap.category.soft': 'Гибкие навыки',
+  'skillGap.category.language': 'Иностранные языки',
+  'skillGap.action.languageCourse': 'Пройдите вводный курс по {skill} и решите 20-30 задач на практику',
+  'skillGap.action.languageRewrite': 'Перепишите небольшой модуль из своего проекта на {skill}',
+  'skillGap.action.frameworkProject': 'Сделайте пет-проект на {skill} и выложите его на GitHub',
+  'skillGap.action.frameworkDocs': 'Разберите официальную документацию и примеры {skill}',
+  'skillGap.action.databaseSchema': 'Спроектируйте схему данных для своего проекта на {skill}',
+  'skillGap.action.databaseQueries': 'Разберите индексы, транзакции и оптимизацию запросов в {skill}',
+  'skillGap.action.infrastructureDeploy': 'Разверните свой проект с использованием {skill}',
+  'skillGap.action.infrastructureCourse': 'Пройдите практический курс или лабораторные работы по {skill}',
+  'skillGap.action.toolPractice': 'Используйте {skill} в ежедневной работе или учебном проекте',
+  'skillGap.action.otherCourse': 'Найдите курс или книгу по теме «{skill}» и закрепите знания на практике',
+  'skillGap.action.softExample': 'Подготовьте пример из опыта, где проявился навык «{skill}», для собеседования',
+  'skillGap.action.softFeedback': 'Попросите коллег дать обратную связь по навыку «{skill}»',
+  'skillGap.action.foreignPractice': 'Занимайтесь {skill} регулярно: разговорная практика с преподавателем или в клубе',
+  'skillGap.action.foreignCertificate': 'Подтвердите уровень {skill} международным сертификатом',
+  'skillGap.action.addToResume': 'Если {skill} у вас уже есть, добавьте навык в резюме с примером применения',
+  'skillGap.action.highDemand': 'Навык требуется в {count, plural, one {# вашей вакансии} other {# ваших вакансиях}} - изучите его в первую очередь',
+  'skillGap.title': 'План развития навыков',
+  'skillGap.vacancyAtCompany': '{title} в {company}',
+  'skillGap.noMissing': 'Все навыки из вакансии есть в резюме.',
+  'skillGap.missingCount': 'Недостающих навыков: {count}',
+  'skillGap.historyNote': 'Востребованность посчитана по {count, plural, one {# сохраненной вакансии} other {# сохраненным вакансиям}}.',
+  'skillGap.demand': 'в {count, plural, one {# вакансии} other {# вакансиях}}',
+  'skillGap.fileNamePrefix': 'План_развития',
+  'skillGap.emptyTitle': 'Все навыки из вакансии есть в резюме',
+  'skillGap.emptyDescription': 'Отчет о недостающих навыках пуст',
+  'skillGap.historyDemand': 'востребованность по {count, plural, one {# сохраненной вакансии} other {# сохраненным вакансиям}}',
+  'skillGap.download': 'Скачать план',
+  'skillGap.summaryTitle': 'Каких навыков вам не хватает чаще всего',
+  'skillGap.summaryVacancies': 'По {count, plural, one {# сохраненной вакансии} other {# сохраненным вакансиям}}',
+  'skillGap.summaryCount': '{count} из {total}',
+
+  // Быстрая оценка навыков
+  'skillPreScore.title': 'Быстрая оценка навыков',
+  'skillPreScore.description': 'Прямое сравнение навыков резюме и вакансии с учетом синонимов, без AI',
+  'skillPreScore.hardSkills': 'Технические навыки',
+  'skillPreScore.languages': 'Языки',
+  'skillPreScore.noRequirements': 'Вакансия не указывает требования',
+  'skillPreScore.matchedOf': '{matched} из {total}',
+  'skillPreScore.matched': 'Есть в резюме',
+  'skillPreScore.missing': 'Не найдено в резюме',
+  'skillPreScore.extra': 'Дополнительно в резюме',
+  'skillPreScore.localScore': 'Быстрая оценка технических навыков:',
+  'skillPreScore.aiScore': 'оценка AI:',
+  'skillPreScore.agreement.agree': 'Оценки совпадают',
+  'skillPreScore.agreement.ai_higher': 'AI оценил выше: вероятно, учтены смежные навыки и опыт, не перечисленные в списке навыков',
+  'skillPreScore.agreement.ai_lower': 'AI оценил ниже: вероятно, навыки указаны в резюме, но не подтверждены опытом',
+
+  // Адаптированное резюме
+  'tailoredResume.title': 'Адаптированное резюме',
+  'tailoredResume.subtitle': 'Поднимем в резюме опыт и навыки, которые важны для этой вакансии',
+  'tailoredResume.start': 'Адаптировать резюме под вакансию',
+  'tailoredResume.changesTitle': 'Что изменится:',
+  'tailoredResume.changeExperience': 'Пункты опыта работы отсортируются по релевантности вакансии',
+  'tailoredResume.changeSkills': 'Совпавшие навыки окажутся в начале списка',
+  'tailoredResume.changeKeywords': 'Ключевые слова вакансии будут подсвечены',
+  'tailoredResume.changeOptional': 'Этот шаг можно пропустить и сразу перейти к итогам',
+  'tailoredResume.matches': 'Совпадений с вакансией: {count}',
+  'tailoredResume.reset': 'Сбросить',
+  'tailoredResume.template': 'Шаблон PDF',
+  'tailoredResume.sections': 'Секции',
+  'tailoredResume.pin': 'Закрепить в начале',
+  'tailoredResume.unpin': 'Открепить',
+  'tailoredResume.show': 'Показать',
+  'tailoredResume.hide': 'Скрыть',
+  'tailoredResume.downloadPdf': 'Скачать резюме в PDF',
+  'tailoredResume.savedWithGeneration': 'Адаптированное резюме сохранится вместе с генерацией',
+  'tailoredResume.pdfFailed': 'Не удалось создать PDF: {message}',
+
+  // История этапов отклика
+  'timeline.loading': 'Загружаем историю...',
+  'timeline.empty': 'Переходов пока нет',
+  'timeline.delete': 'Удалить переход',
+  'timeline.deleteConfirm': 'Удалить этот переход из истории?',
+  'timeline.notePlaceholder': 'Заметка: с кем общались, о чем договорились...',
+  'timeline.add': 'Добавить переход',
+  'timeline.reminderPending': 'Напомним о follow-up {date}, если не будет ответа',
+  'timeline.reminderSent': 'Напоминание отправлено в Telegram {date}',
+  'timeline.cancelReminder': 'Отменить',
+  'timeline.copyFollowUp': 'Копировать follow-up письмо',
+  'timeline.loadFailed': 'Не удалось загрузить историю: {message}',
+  'timeline.saveFailed': 'Не удалось сохранить переход: {message}',
+  'timeline.deleteFailed': 'Не удалось удалить переход: {message}',
+  'timeline.cancelReminderFailed': 'Не удалось отменить напоминание: {message}',
+
+  // Подготовка к собеседованию
+  'interview.title': 'Подготовка к собеседованию',
+  'interview.subtitle': 'Подберем вероятные вопросы и план ответа на основе вашего опыта',
+  'interview.focusTitle': 'Вопросы будут сфокусированы на:',
+  'interview.generate': 'Подготовить вопросы к собеседованию',
+  'interview.generating': 'Готовим вопросы...',
+  'interview.benefitsTitle': 'Что вы получите:',
+  'interview.benefitQuestions': 'Вероятные технические и поведенческие вопросы по вакансии',
+  'interview.benefitOutline': 'План ответа на каждый вопрос',
+  'interview.benefitExperience': 'Пункты опыта из резюме, на которые стоит опереться',
+  'interview.benefitOptional': 'Этот шаг можно пропустить и сразу перейти дальше',
+  'interview.questionCount': 'Вопросов: {count}',
+  'interview.reset': 'Сбросить',
+  'interview.missingData': 'Для подготовки нужны данные резюме, вакансии и результаты скорринга',
+  'interview.generateFailed': 'Не удалось подготовить вопросы: {message}',
+  'interview.weakAreasFocus': 'Фокус на слабых зонах:',
+  'interview.answerOutline': 'План ответа',
+  'interview.experienceRefs': 'Опирайтесь на опыт из резюме',
+  'interview.category.technical': 'Технический',
+  'interview.category.behavioral': 'Поведенческий',
+  'interview.category.experience': 'Об опыте',
+  'interview.category.motivation': 'О мотивации',
+
+  // История изменений резюме
+  'resumeHistory.title': 'История изменений',
+  'resumeHistory.empty': 'Правок пока нет',
+  'resumeHistory.version': 'Версия {number}',
+  'resumeHistory.current': 'текущая',
+  'resumeHistory.restoredFrom': 'восстановлена из версии {number}',
+  'resumeHistory.compareBefore': 'было',
+  'resumeHistory.compareAfter': 'стало',
+  'resumeHistory.compareBeforeTitle': 'Сравнить: было',
+  'resumeHistory.compareAfterTitle': 'Сравнить: стало',
+  'resumeHistory.restore': 'Восстановить эту версию',
+  'resumeHistory.restoreConfirm': 'Восстановить версию от {date}? Текущие данные останутся в истории.',
+  'resumeHistory.loadFailed': 'Не удалось загрузить историю: {message}',
+  'resumeHistory.restoreFailed': 'Не удалось восстановить версию: {message}',
+  'resumeHistory.noDifferences': 'Версии не отличаются',
+  'resumeHistory.personalInfo': 'Персональная информация',
+  'resumeHistory.profile': 'Профиль',
+  'resumeHistory.skills': 'Навыки',
+  'resumeHistory.hardSkills': 'Hard skills',
+  'resumeHistory.softSkills': 'Soft skills',
+  'resumeHistory.languages': 'Языки',
+  'resumeHistory.experience': 'Опыт работы',
+  'resumeHistory.added': 'Добавлено',
+  'resumeHistory.removed': 'Удалено',
+  'resumeHistory.changed': 'Изменено',
+  'resumeHistory.untitled': 'Без названия',
+  'resumeHistory.education': 'Образование',
+  'resumeHistory.institutions': 'Учебные заведения',
+  'resumeDiff.field.firstName': 'Имя',
+  'resumeDiff.field.lastName': 'Фамилия',
+  'resumeDiff.field.email': 'Email',
+  'resumeDiff.field.phone': 'Телефон',
+  'resumeDiff.field.website': 'Сайт',
+  'resumeDiff.field.city': 'Город',
+  'resumeDiff.field.country': 'Страна',
+  'resumeDiff.field.telegram': 'Telegram',
+  'resumeDiff.field.desiredPosition': 'Желаемая должность',
+  'resumeDiff.field.summary': 'О себе',
+  'resumeDiff.field.position': 'Должность',
+  'resumeDiff.field.company': 'Компания',
+  'resumeDiff.field.startDate': 'Начало',
+  'resumeDiff.field.endDate': 'Окончание',
+  'resumeDiff.field.industry': 'Отрасль',
+
+  // Пакетный анализ вакансий
+  'batch.title': 'Пакетный анализ вакансий',
+  'batch.subtitle': 'Вставьте до {max} ссылок - мы оценим соответствие резюме каждой вакансии',
+  'batch.dashboard': 'Личный кабинет',
+  'batch.loadingResumes': 'Загружаем ваши резюме...',
+  'batch.noResumes': 'Для пакетного анализа нужно сохраненное резюме',
+  'batch.uploadResume': 'Загрузить резюме',
+  'batch.resume': 'Резюме',
+  'batch.defaultResume': 'по умолчанию',
+  'batch.urls': 'Ссылки на вакансии (по одной на строку)',
+  'batch.stop': 'Остановить',
+  'batch.start': 'Проанализировать вакансии',
+  'batch.progress': 'Обработано {finished} из {total}, оценено {scored}',
+  'batch.column.vacancy': 'Вакансия',
+  'batch.column.status': 'Статус',
+  'batch.column.total': 'Общий',
+  'batch.column.hard': 'Hard',
+  'batch.column.soft': 'Soft',
+  'batch.column.experience': 'Опыт',
+  'batch.column.position': 'Должность',
+  'batch.column.letter': 'Письмо',
+  'batch.continue': 'Продолжить для необработанных вакансий',
+  'batch.topLettersBefore': 'Сгенерировать письма для лучших',
+  'batch.topLettersAfter': 'вакансий',
+  'batch.createLetters': 'Создать письма ({count})',
+  'batch.lettersCreated': 'Письма созданы',
+  'batch.letterSaved': 'Письмо сохранено в личном кабинете',
+  'batch.selectResume': 'Выберите резюме для анализа',
+  'batch.noSupportedUrls': 'Не найдено ни одной поддерживаемой ссылки на вакансию',
+  'batch.resumesLoadFailed': 'Не удалось загрузить резюме: {message}',
+  'batch.analysisFailed': 'Не удалось проанализировать вакансию',
+  'batch.notAnalyzed': 'Вакансия еще не проанализирована',
+  'batch.duplicateVacancy': 'вакансия уже есть в списке',
+  'batch.tooManyVacancies': 'За один раз можно проанализировать не более {max} вакансий, лишние ссылки пропущены',
+  'batch.status.queued': 'В очереди',
+  'batch.status.analysing': 'Анализ',
+  'batch.status.scored': 'Оценено',
+  'batch.status.failed': 'Ошибка',
+
+  // Проверка и хранение данных
+  'data.notAuthenticated': 'Пользователь не аутентифицирован',
+  'data.resumeNotFound': 'Резюме не найдено',
+  'data.letterVariantNotFound': 'Вариант письма не найден',
+  'data.letterProfileNotFound': 'Профиль не найден',
+  'data.unknownStage': 'Неизвестный этап отклика: {stage}',
+  'data.noteTooLong': 'Заметка не должна превышать {max} символов',
+  'data.invalidStageDate': 'Некорректная дата перехода',
+  'data.jobTitleRequired': 'Название должности обязательно',
+  'data.companyNameRequired': 'Название компании обязательно',
+  'data.letterTextRequired': 'Текст письма обязателен',
+  'data.scoringResultsRequired': 'Результаты скорринга обязательны',
+  'data.resumeDataRequired': 'Данные резюме обязательны',
+  'data.jobDataRequired': 'Данные вакансии обязательны',
+  'data.interviewPrepNotObject': 'Вопросы к собеседованию должны быть объектом',
+  'data.letterTextMismatch': 'Текст письма должен совпадать с основным вариантом',
+  'data.primaryVariantCount': 'Основным должен быть отмечен ровно один вариант, отмечено: {count}',
+  'data.overallScoreRange': 'Общий балл должен быть числом от 0 до 100',
+  'data.letterProfileIdInvalid': 'Идентификатор профиля письма должен быть непустой строкой',
+  'data.scoringResumeMissing': 'Отсутствуют данные резюме',
+  'data.scoringFirstNameMissing': 'В резюме отсутствует имя кандидата',
+  'data.scoringLastNameMissing': 'В резюме отсутствует фамилия кандидата',
+  'data.scoringSkillsMissing': 'В резюме не указаны навыки',
+  'data.scoringSkillsInvalid': 'Навыки в резюме пустые или некорректные',
+  'data.scoringJobMissing': 'Отсутствуют данные вакансии',
+  'data.scoringJobTitleMissing': 'В вакансии не указана должность',
+  'data.scoringCompanyMissing': 'В вакансии не указана компания',
+  'data.scoringUserIdMissing': 'Отсутствует идентификатор пользователя',
+  'data.scoringUserIdInvalid': 'Некорректный формат идентификатора пользователя',
+  'data.scoringValidationFailed': 'Ошибка валидации данных: {errors}',
+
+  // Экспорт в PDF
+  'pdf.fontLoadFailed': 'Не удалось загрузить шрифт: {status}',
+  'pdf.keySkills': 'Ключевые для вакансии: {skills}',
+  'pdf.otherSkills': 'Также: {skills}',
+  'pdf.resumeFileNamePrefix': 'Резюме',
+};
+
+export type MessageKey = keyof typeof ru;
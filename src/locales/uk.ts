@@ -0,0 +1,862 @@
+import { MessageKey } from './ru';
+
+/**
+ * Украинский каталог сообщений интерфейса
+ * Набор ключей совпадает с русским каталогом (проверяется типом)
+ */
+export const uk: Record<MessageKey, string> = {
+  // Общие
+  'common.cancel': 'Скасувати',
+  'common.save': 'Зберегти',
+  'common.saveChanges': '✅ Зберегти зміни',
+  'common.add': 'Додати',
+  'common.close': 'Закрити',
+  'common.delete': 'Видалити',
+  'common.edit': 'Редагувати',
+  'common.copy': 'Копіювати',
+  'common.copied': 'Скопійовано!',
+  'common.retry': 'Спробувати знову',
+  'common.loading': 'Завантаження...',
+  'common.back': 'Назад',
+  'common.next': 'Далі',
+  'common.language': 'Мова',
+  'common.copyFailed': 'Не вдалося скопіювати текст. Спробуйте виділити та скопіювати вручну.',
+
+  // Приложение и онбординг
+  'app.initializing': 'Ініціалізація застосунку...',
+  'onboarding.slide1.title': 'Створюйте виграшні супровідні листи за секунди',
+  'onboarding.slide1.description': 'Наш ШІ аналізує вакансію та ваше резюме і створює персоналізований лист, який приверне увагу HR.',
+  'onboarding.slide2.title': 'Просто завантажте резюме та вставте посилання на вакансію',
+  'onboarding.slide2.description': 'Завантажте своє резюме один раз, а потім просто вставляйте посилання на цікаві вакансії. ШІ зробить усе інше.',
+  'onboarding.slide3.title': 'Перевірте відповідність перед поданням заявки',
+  'onboarding.slide3.description': 'Отримайте оцінку сумісності та поради щодо покращення. Перестаньте витрачати час на невідповідні вакансії.',
+  'onboarding.slide4.title': 'Ви готові! Почнімо',
+  'onboarding.slide4.description': 'Збільште свої шанси отримати роботу мрії з JobMatch AI.',
+  'onboarding.start': 'Почати роботу',
+  'onboarding.continue': 'Продовжити',
+  'onboarding.skip': 'Пропустити',
+
+  // Статусы генераций и этапы откликов
+  'status.completed': 'Завершено',
+  'status.draft': 'Чернетка',
+  'status.archived': 'Архів',
+  'status.prepared': 'Підготовлено',
+  'status.applied': 'Надіслано',
+  'status.recruiter_screen': 'Скринінг з рекрутером',
+  'status.interview': 'Співбесіда',
+  'status.offer': 'Офер',
+  'status.rejected': 'Відмова',
+  'status.withdrawn': 'Відкликано',
+  'status.unknown': 'Невідомо',
+  'vacancySource.url': 'За посиланням',
+  'vacancySource.text': 'Вставлений текст',
+  'vacancySource.file': 'Файл {fileName}',
+  'vacancySource.unknown': 'Джерело не вказано',
+  'salary.notSpecified': 'Зарплату не вказано',
+  'salary.range': 'від {from} до {to}',
+  'salary.from': 'від {from}',
+  'salary.to': 'до {to}',
+  'salary.gross': '{range} до сплати податків',
+  'salary.net': '{range} на руки',
+
+  // Вход
+  'auth.defaultName': 'Користувач',
+  'auth.welcome': 'Ласкаво просимо!',
+  'auth.subtitle': 'Увійдіть або зареєструйтеся за допомогою Magic Link',
+  'auth.subtitleSent': 'Посилання для входу надіслано на вашу пошту',
+  'auth.namePlaceholder': 'Ваше ім\'я',
+  'auth.sending': 'Надсилаємо посилання...',
+  'auth.getMagicLink': 'Отримати Magic Link',
+  'auth.checkMail': 'Перевірте пошту! Ми надіслали посилання для входу.',
+  'auth.invalidEmail': 'Будь ласка, введіть коректну email-адресу',
+  'auth.sendFailed': 'Не вдалося надіслати посилання. Спробуйте ще раз.',
+  'auth.linkSent': 'Посилання надіслано!',
+  'auth.followLinkBefore': 'Перевірте пошту',
+  'auth.followLinkAfter': 'і перейдіть за посиланням для входу',
+  'auth.greetingBefore': 'Привіт,',
+  'auth.redirectTo': 'Після переходу за посиланням вас буде перенаправлено на:',
+  'auth.devRedirect': '✅ Режим розробки: гарантоване перенаправлення на localhost',
+  'auth.otherEmail': 'Надіслати на інший email',
+  'auth.testerLogin': 'Увійти як тестувальник',
+  'auth.magicLinkTitle': '🔗 Що таке Magic Link?',
+  'auth.magicLinkSecure': '• Безпечний вхід без пароля',
+  'auth.magicLinkExpires': '• Посилання діє 1 годину',
+  'auth.magicLinkSignup': '• Автоматична реєстрація нових користувачів',
+  'auth.magicLinkSpam': '• Перевірте папку «Спам», якщо лист не надійшов',
+  'auth.nameWhyTitle': '👤 Навіщо потрібне ім\'я?',
+  'auth.nameWhyInterface': '• Персоналізація інтерфейсу застосунку',
+  'auth.nameWhyLetters': '• Створення професійних супровідних листів',
+  'auth.nameWhyExperience': '• Кращий досвід користувача',
+  'auth.nameWhyChange': '• Можна змінити пізніше в налаштуваннях профілю',
+  'auth.testTitle': 'Тестовий вхід',
+  'auth.testSubtitle': 'Введіть облікові дані тестувальника',
+  'auth.testUsername': 'Ім\'я користувача',
+  'auth.testKey': 'Ключ доступу',
+  'auth.testChecking': 'Перевіряємо...',
+  'auth.testSubmit': 'Увійти',
+  'auth.testErrorTitle': 'Помилка входу',
+  'auth.testAccounts': '🧪 Тестові акаунти:',
+  'auth.testFailed': 'Під час входу сталася помилка',
+  'auth.testInvalidCredentials': 'Невірне ім\'я користувача або ключ доступу',
+  'auth.testDevOnly': 'Тестовий вхід доступний лише в режимі розробки',
+  'auth.testServerConfig': 'Сервер не налаштовано. Зверніться до адміністратора',
+
+  // Личный кабинет
+  'steps.dashboard.title': 'Особистий кабінет',
+  'steps.dashboard.description': 'Перегляд збережених генерацій і створення нових',
+  'steps.upload.title': 'Резюме',
+  'steps.upload.description': 'Завантажте резюме у форматі PDF або DOCX',
+  'steps.analyze.title': 'Вакансія',
+  'steps.analyze.description': 'Вставте посилання на цікаву вакансію',
+  'steps.generate.title': 'Лист',
+  'steps.generate.description': 'Згенеруйте персоналізований супровідний лист',
+  'steps.scoring.title': 'Скоринг',
+  'steps.scoring.description': 'Перегляньте аналіз відповідності та рекомендації',
+  'steps.interview.title': 'Співбесіда',
+  'steps.interview.description': 'Підготуйтеся до питань на співбесіді',
+  'steps.tailor.title': 'Адаптація',
+  'steps.tailor.description': 'Адаптуйте резюме під вакансію',
+  'steps.final.title': 'Підсумок',
+  'steps.final.description': 'Фінальні результати та надсилання',
+  'dashboard.greetingBefore': 'Привіт,',
+  'dashboard.defaultName': 'користувачу',
+  'dashboard.profileSettings': 'Налаштування профілю',
+  'dashboard.signOut': 'Вийти',
+  'dashboard.title': 'Особистий кабінет',
+  'dashboard.subtitle': 'Керуйте своїми супровідними листами та результатами скорингу',
+  'dashboard.newLetter': 'Створити новий лист',
+  'dashboard.batchAnalysis': 'Пакетний аналіз вакансій',
+  'dashboard.searchPlaceholder': 'Пошук за посадою, компанією...',
+  'dashboard.sortDate': 'За датою',
+  'dashboard.sortScore': 'За балом',
+  'dashboard.sortCompany': 'За компанією',
+  'dashboard.viewList': 'Список',
+  'dashboard.viewBoard': 'Дошка за етапами',
+  'dashboard.loadingGenerations': 'Завантажуємо ваші генерації...',
+  'dashboard.loadFailed': 'Не вдалося завантажити історію: {message}',
+  'dashboard.nothingFound': 'Нічого не знайдено',
+  'dashboard.empty': 'У вас поки немає збережених листів',
+  'dashboard.changeQuery': 'Спробуйте змінити пошуковий запит',
+  'dashboard.createFirstHint': 'Створіть свій перший супровідний лист',
+  'dashboard.createFirst': 'Створити перший лист',
+  'dashboard.viewDetails': 'Переглянути деталі',
+  'dashboard.wizardTitle': 'Створення листа',
+  'dashboard.stepOf': 'Крок {step} з {total}',
+  'dashboard.next': 'Далі →',
+  'dashboard.finishStep': 'Завершіть поточний етап',
+  'dashboard.loadingDetails': 'Завантажуємо деталі...',
+  'dashboard.detailsFailed': 'Не вдалося завантажити деталі: {message}',
+  'dashboard.confirmDelete': 'Ви впевнені, що хочете видалити цю генерацію? Цю дію не можна скасувати.',
+  'dashboard.deleteFailed': 'Не вдалося видалити генерацію: {message}',
+  'dashboard.stageFailed': 'Не вдалося змінити етап: {message}',
+  'dashboard.variantFailed': 'Не вдалося вибрати варіант: {message}',
+  'dashboard.pdfFailed': 'Не вдалося створити PDF: {message}',
+  'dashboard.score': 'Скоринг: {score}%',
+  'dashboard.coverLetter': 'Супровідний лист',
+  'dashboard.letterCopied': 'Лист скопійовано в буфер обміну!',
+  'dashboard.copyLetter': 'Копіювати лист',
+  'dashboard.creatingPdf': 'Створюємо PDF...',
+  'dashboard.downloadPdf': 'Завантажити PDF',
+  'dashboard.downloadWord': 'Завантажити Word',
+  'dashboard.tailoredResumePdf': 'Адаптоване резюме (PDF)',
+  'dashboard.scoringResults': 'Результати скорингу',
+  'dashboard.applicationStage': 'Відгук: {stage}',
+  'dashboard.interviewPrep': 'Підготовка до співбесіди',
+  'scoring.dimension.hard_skills': '💻 Технічні навички',
+  'scoring.dimension.soft_skills': '🤝 Гнучкі навички',
+  'scoring.dimension.experience_match': '💼 Відповідність досвіду',
+  'scoring.dimension.position_match': '🎯 Відповідність посаді',
+
+  // Скорринг
+  'scoring.progress.sending': 'Надсилаємо дані в Gemini AI...',
+  'scoring.progress.hardSkills': 'Аналізуємо технічні навички...',
+  'scoring.progress.softSkills': 'Оцінюємо гнучкі навички...',
+  'scoring.progress.experience': 'Перевіряємо відповідність досвіду...',
+  'scoring.progress.position': 'Аналізуємо відповідність посаді...',
+  'scoring.progress.recommendations': 'Формуємо рекомендації...',
+  'scoring.missing.resume': 'дані резюме',
+  'scoring.missing.job': 'дані вакансії',
+  'scoring.missing.user': 'ідентифікатор користувача',
+  'scoring.missingData': 'Відсутні критично важливі дані: {items}',
+  'scoring.unknownError': 'Під час аналізу відповідності сталася невідома помилка',
+  'scoring.recommendation.excellent_match': 'Чудовий збіг!',
+  'scoring.recommendation.good_match': 'Добрий збіг!',
+  'scoring.recommendation.average_match': 'Середній збіг.',
+  'scoring.recommendation.low_match': 'Низький збіг.',
+  'scoring.title': 'Скоринг відповідності',
+  'scoring.subtitle': 'Проаналізуємо сумісність вашого резюме з вакансією за допомогою Gemini AI',
+  'scoring.subtitleRunning': 'Детальний аналіз з Gemini AI',
+  'scoring.inputTitle': '📊 Дані для скорингу:',
+  'scoring.inputResume': 'Резюме: {name} ({count, plural, one {# навичка} few {# навички} many {# навичок} other {# навички}})',
+  'scoring.inputJob': 'Вакансія: {position} у {company}',
+  'scoring.start': 'Запустити аналіз з Gemini AI',
+  'scoring.aboutTitle': '🤖 Що аналізує Gemini AI:',
+  'scoring.about.hardSkills': 'Технічні навички:',
+  'scoring.about.hardSkillsText': 'Аналіз відповідності hard skills',
+  'scoring.about.softSkills': 'Гнучкі навички:',
+  'scoring.about.softSkillsText': 'Оцінка soft skills і комунікативних здібностей',
+  'scoring.about.experience': 'Відповідність досвіду:',
+  'scoring.about.experienceText': 'Релевантність попереднього досвіду роботи',
+  'scoring.about.position': 'Відповідність посаді:',
+  'scoring.about.positionText': 'Придатність для конкретної позиції',
+  'scoring.about.recommendations': 'Рекомендації:',
+  'scoring.about.recommendationsText': 'Персональні поради для кандидата та рекрутера',
+  'scoring.running': 'Gemini AI виконує детальний аналіз',
+  'scoring.progressLabel': 'Прогрес аналізу',
+  'scoring.errorTitle': 'Помилка аналізу відповідності',
+  'scoring.hideError': 'Сховати помилку',
+  'scoring.totalScore': '🎯 Загальний бал відповідності: {score}%',
+  'scoring.poweredBy': '🤖 Аналіз виконано Gemini AI',
+  'scoring.rerun': '🔄 Повторити аналіз',
+  'scoring.breakdownTitle': '📊 Деталізація відповідності',
+  'scoring.columnParameter': 'Параметр',
+  'scoring.columnScore': 'Бал',
+  'scoring.columnAnalysis': 'Аналіз',
+  'scoring.candidateTitle': '👤 Рекомендації для вас (кандидата)',
+  'scoring.recruiterTitle': '🎯 Що побачить рекрутер',
+  'scoring.categoryTitle': '🎓 Загальна категорія відповідності',
+
+  // Сопроводительное письмо
+  'letterStyle.neutral': 'Нейтральний',
+  'letterStyle.creative': 'Креативний',
+  'letterStyle.startup': 'Стартап',
+  'letterStyle.formal': 'Суворий',
+  'letterStyle.neutral.description': 'Класичний діловий стиль',
+  'letterStyle.creative.description': 'Яскравий і запам\'ятовуваний',
+  'letterStyle.startup.description': 'Сучасний і гнучкий',
+  'letterStyle.formal.description': 'Консервативний і офіційний',
+  'letterLength.short': 'Короткий',
+  'letterLength.medium': 'Середній',
+  'letterLength.long': 'Розгорнутий',
+  'letterLanguage.name.en': 'англійська',
+  'letterLanguage.name.ru': 'російська',
+  'letterLanguage.name.uk': 'українська',
+  'letterLanguage.name.kk': 'казахська',
+  'letterVariant.merged': 'Збірний',
+  'letterRewrite.shorten': 'Скоротити',
+  'letterRewrite.formalize': 'Офіційніше',
+  'letterRewrite.add_metric': 'Додати метрику',
+  'letterRewrite.emphasize_skill': 'Підкреслити навичку',
+  'letterRewrite.translate': 'Перекласти абзац',
+  'letterRewrite.tooLong': 'Виділіть фрагмент коротший за {max} символів',
+  'letterRewrite.failed': 'Не вдалося переписати фрагмент',
+  'letterRewrite.hint': 'Виділіть фрагмент листа, щоб переписати його за допомогою AI',
+  'letterRewrite.clearSelection': 'Зняти виділення',
+  'letterRewrite.noSkills': 'Немає навичок для акценту',
+  'letterRewrite.proposal': '{action}: запропонована правка',
+  'letterRewrite.accept': 'Прийняти',
+  'letterRewrite.reject': 'Відхилити',
+  'letter.title': 'Генерація супровідного листа',
+  'letter.subtitle': 'ШІ створить персональний лист на основі вашого резюме та вакансії',
+  'letter.aboutTitle': '🤖 Що робить ШІ:',
+  'letter.about.skills': '• Аналізує ваші навички та досвід із резюме',
+  'letter.about.company': '• Вивчає вимоги та культуру компанії',
+  'letter.about.personal': '• Створює персональний лист під конкретну вакансію',
+  'letter.about.matches': '• Підкреслює ключові збіги з вимогами',
+  'letter.about.tone': '• Використовує професійний тон і структуру',
+  'letter.about.relevant': '• Виділяє релевантні навички, досвід і освіту',
+  'letter.about.metadata': '• Повертає структуровану відповідь із метаданими',
+  'letter.languageTitle': '🌐 Мова листа',
+  'letter.vacancyLanguage': '• вакансія',
+  'letter.resumeTranslation': 'Мова резюме - {resumeLanguage}: перед генерацією його буде перекладено, мова листа - {letterLanguage}',
+  'letter.styleTitle': '📝 Стиль листа',
+  'letter.selectedStyle': 'Обраний стиль:',
+  'letter.selectedLength': 'довжина:',
+  'letter.variantsTitle': '📑 Варіанти листа',
+  'letter.variantsCount': '{count} з {max}',
+  'letter.variantsHint': 'Згенеруйте кілька варіантів паралельно, порівняйте їх і оберіть основний',
+  'letter.presetLengths': 'Цей стиль, різна довжина',
+  'letter.presetStyles': 'Різні стилі',
+  'letter.removeVariant': 'Прибрати варіант',
+  'letter.addVariant': 'Додати варіант',
+  'letter.highlightsTitle': '🎯 Акценти в листі',
+  'letter.resetAll': 'Скинути все',
+  'letter.experienceLabel': '💼 Досвід для акценту (макс. {max}):',
+  'letter.educationLabel': '🎓 Освіта для акценту (макс. {max}):',
+  'letter.skillsLabel': '🛠️ Навички для акценту (макс. {max}):',
+  'letter.limitReached': 'Досягнуто ліміту ({max}/{max})',
+  'letter.noOptions': 'Немає доступних варіантів',
+  'letter.selectExperience': 'Оберіть досвід для акценту',
+  'letter.selectEducation': 'Оберіть освіту для акценту',
+  'letter.selectSkills': 'Оберіть навички для акценту',
+  'letter.experienceAt': '{position} у {company}',
+  'letter.selectedHighlights': '✨ Обрані акценти:',
+  'letter.experience': 'Досвід:',
+  'letter.education': 'Освіта:',
+  'letter.skills': 'Навички:',
+  'letter.generatingVariants': 'Генеруємо {count, plural, one {# варіант} few {# варіанти} other {# варіантів}}...',
+  'letter.generating': 'Генеруємо лист...',
+  'letter.generateVariants': 'Згенерувати {count, plural, one {# варіант} few {# варіанти} other {# варіантів}}',
+  'letter.generate': 'Згенерувати лист',
+  'letter.ready': 'Лист готовий!',
+  'letter.regenerate': 'Згенерувати новий',
+  'letter.editTitle': '✏️ Редагування листа',
+  'letter.editPlaceholder': 'Редагуйте текст листа...',
+  'letter.unsavedChanges': 'У вас є незбережені зміни',
+  'letter.primaryVariant': '📝 Основний варіант',
+  'letter.coverLetter': '📝 Супровідний лист',
+  'letter.undo': 'Скасувати правку',
+  'letter.redo': 'Повторити правку',
+  'letter.settingsTitle': '⚙️ Використані налаштування:',
+  'letter.settingsStyle': 'Стиль:',
+  'letter.settingsLength': 'Довжина:',
+  'letter.settingsLanguage': 'Мова:',
+  'letter.settingsVariants': 'Варіантів:',
+  'letter.settingsExperience': 'Акцент на досвіді:',
+  'letter.settingsEducation': 'Акцент на освіті:',
+  'letter.settingsSkills': 'Акцент на навичках:',
+  'letter.errorTitle': 'Помилка генерації',
+  'letter.missingData': 'Відсутні дані резюме або вакансії',
+  'letter.variantsFailed': 'Не вдалося згенерувати варіантів: {failed} з {total}',
+  'letter.failed': 'Не вдалося згенерувати лист: {message}',
+  'letterVariants.count': 'Варіантів: {count}',
+  'letterVariants.exitMerge': 'Вийти зі збирання',
+  'letterVariants.merge': 'Зібрати з абзаців',
+  'letterVariants.primary': 'Основний',
+  'letterVariants.makePrimary': 'Зробити основним',
+  'letterVariants.words': '{count, plural, one {# слово} few {# слова} many {# слів} other {# слова}}',
+  'letterVariants.coverage': 'Навички вакансії: {coverage}%',
+  'letterVariants.notMentioned': 'Не згадано: {skills}',
+  'letterVariants.andMore': ' і ще {count}',
+  'letterVariants.mergedTitle': 'Збірний варіант',
+  'letterVariants.mergeHint': 'Позначте абзаци у варіантах вище в потрібному порядку',
+  'letterVariants.addMerged': 'Додати як варіант',
+  'letterVariants.resetSelection': 'Скинути вибір',
+  'letterVariants.limitReached': 'Досягнуто ліміту варіантів',
+
+  // Итоги
+  'final.copyUnavailable': 'Копіювання недоступне у вашому браузері',
+  'final.missingData': 'Відсутні дані, потрібні для збереження',
+  'final.unknownPosition': 'Невідома посада',
+  'final.unknownCompany': 'Невідома компанія',
+  'final.generationTitle': '{position} у {company}',
+  'final.positionFallback': 'Посада',
+  'final.companyFallback': 'компанії',
+  'final.saveFailed': 'Не вдалося зберегти результати: {message}',
+  'final.pdfFailed': 'Не вдалося створити PDF: {message}',
+  'final.docxFailed': 'Не вдалося створити DOCX: {message}',
+  'final.matchLevel.excellent': 'Чудова відповідність',
+  'final.matchLevel.great': 'Відмінна відповідність',
+  'final.matchLevel.good': 'Добра відповідність',
+  'final.matchLevel.average': 'Середня відповідність',
+  'final.matchLevel.low': 'Низька відповідність',
+  'final.matchLevel.weak': 'Слабка відповідність',
+  'final.letterCopied': 'Супровідний лист скопійовано в буфер обміну',
+  'final.saved': 'Результати збережено!',
+  'final.savedHint': 'Генерацію додано до вашого особистого кабінету',
+  'final.scoringCopied': 'Скоринг скопійовано!',
+  'final.scoringCopiedHint': 'Текст результатів скопійовано в буфер обміну',
+  'final.title': 'Готово! 🎉',
+  'final.subtitle': 'Ваш супровідний лист і аналіз відповідності готові',
+  'final.match': 'Відповідність',
+  'final.words': 'Слів у листі',
+  'final.pdfTitle': '📄 PDF містить:',
+  'final.pdf.letter': 'Повний супровідний лист',
+  'final.pdf.letterText': 'у професійному оформленні',
+  'final.pdf.score': 'Загальний бал відповідності',
+  'final.pdf.scoreText': 'з кольоровою індикацією та графіками',
+  'final.pdf.metrics': 'Детальні метрики',
+  'final.pdf.metricsText': 'за всіма критеріями з прогрес-барами',
+  'final.pdf.recommendations': 'Персональні рекомендації',
+  'final.pdf.recommendationsText': 'від Gemini AI для покращення',
+  'final.pdf.candidate': 'Інформація про кандидата',
+  'final.pdf.candidateText': 'та метадані аналізу',
+  'final.pdf.print': 'Готовий до друку формат',
+  'final.pdf.printText': 'для презентації роботодавцю',
+  'final.tabLetter': 'Лист',
+  'final.tabScoring': 'Скоринг',
+  'final.tabSkills': 'Навички',
+  'final.saving': 'Зберігаємо...',
+  'final.includeScoring': 'Додати до PDF сторінку з результатами скорингу',
+  'final.saveErrorTitle': 'Помилка збереження',
+  'final.totalScore': '🎯 Загальний бал: {score}%',
+  'final.poweredBy': '🤖 Аналіз виконано через Gemini AI v2.0',
+  'final.copyTitle': '📊 Результати для копіювання',
+  'final.copyText': 'Копіювати текст',
+  'final.copyHint': '💡 Цей текст можна скопіювати та вставити в лист рекрутеру або звіт',
+  'final.scoringUnavailable': 'Дані скорингу недоступні',
+  'final.scoringUnavailableHint': 'Поверніться до кроку «Скоринг», щоб виконати аналіз відповідності',
+  'final.savedTitle': '💾 Що буде збережено:',
+  'final.saved.letter': 'Повний супровідний лист',
+  'final.saved.letterText': 'для повторного використання',
+  'final.saved.scoring': 'Детальні результати скорингу',
+  'final.saved.scoringText': 'за всіма 4 параметрами',
+  'final.saved.data': 'Дані резюме та вакансії',
+  'final.saved.dataText': 'для контексту',
+  'final.saved.interview': 'Питання до співбесіди',
+  'final.saved.interviewText': 'з планом відповіді',
+  'final.saved.recommendations': 'Персональні рекомендації',
+  'final.saved.recommendationsText': 'від Gemini AI',
+  'final.saved.history': 'Історія генерацій',
+  'final.saved.historyText': 'в особистому кабінеті',
+  'final.saved.review': 'Можливість повторного перегляду',
+  'final.saved.reviewText': 'та аналізу',
+  'final.skillsUnavailable': 'Звіт про навички недоступний',
+  'final.skillsUnavailableHint': 'Для звіту потрібні дані резюме та вакансії',
+
+  // Измерения скорринга без иконок
+  'scoring.dimensionName.hard_skills': 'Технічні навички',
+  'scoring.dimensionName.soft_skills': 'Гнучкі навички',
+  'scoring.dimensionName.experience_match': 'Відповідність досвіду',
+  'scoring.dimensionName.position_match': 'Відповідність посаді',
+
+  // Анализ вакансии
+  'jobUrl.empty': 'Введіть URL вакансії',
+  'jobUrl.invalidFormat': 'Некоректний формат URL. Приклад: {example}',
+  'jobUrl.invalidProtocol': 'URL має використовувати протокол HTTP або HTTPS',
+  'jobUrl.unsupportedSite': 'Сайт "{host}" не підтримується. Використайте один із підтримуваних сайтів або вставте текст вакансії.',
+  'jobUrl.notVacancy': 'Некоректний формат посилання для {site}. Переконайтеся, що це пряме посилання на вакансію.',
+  'jobAnalysis.fileTypeUnsupported': 'Непідтримуваний тип файлу. Використайте PDF, DOCX або TXT',
+  'jobAnalysis.fileTooLarge': 'Файл занадто великий. Максимальний розмір: {size}MB',
+  'jobAnalysis.textTooShort': 'Текст вакансії занадто короткий. Мінімум: {min} символів',
+  'jobAnalysis.textTooLong': 'Текст вакансії занадто довгий. Максимум: {max} символів',
+  'jobAnalysis.loading.sending': 'Надсилаємо дані...',
+  'jobAnalysis.loading.processing': 'Обробляємо інформацію...',
+  'jobAnalysis.loading.generating': 'Генеруємо результат...',
+  'jobAnalysis.loading.receiving': 'Отримуємо результат',
+  'jobAnalysis.failed': 'Не вдалося проаналізувати вакансію: {message}',
+  'jobAnalysis.invalidText': 'Некоректний текст вакансії',
+  'jobAnalysis.invalidUrl': 'Некоректний URL вакансії',
+  'jobAnalysis.invalidFile': 'Некоректний файл вакансії',
+  'jobAnalysis.editsSaved': 'Зміни збережено!',
+  'jobAnalysis.editsSavedHint': 'Дані вакансії оновлено',
+  'jobAnalysis.title': 'Аналіз вакансії',
+  'jobAnalysis.subtitle': 'Вставте посилання на вакансію, її текст або завантажте файл',
+  'jobAnalysis.mode.url': 'Посилання',
+  'jobAnalysis.mode.text': 'Текст або файл',
+  'jobAnalysis.supportedFormats': '🔗 Підтримувані формати посилань:',
+  'jobAnalysis.urlValid': '✅ {site} - URL коректний',
+  'jobAnalysis.alreadyGenerated': 'Ви вже створювали лист для цієї вакансії: {title} ({date})',
+  'jobAnalysis.noLinkTitle': '📝 Коли посилання немає:',
+  'jobAnalysis.noLinkText': '• Вставте текст вакансії з Telegram-каналу, чату з рекрутером або листа',
+  'jobAnalysis.noLinkFile': '• Або завантажте файл з описом вакансії: PDF, DOCX або TXT до {size}MB',
+  'jobAnalysis.removeFile': 'Прибрати файл',
+  'jobAnalysis.textPlaceholder': 'Вставте сюди текст вакансії: посада, компанія, вимоги, обов\'язки...',
+  'jobAnalysis.dropBefore': 'Перетягніть файл сюди або',
+  'jobAnalysis.chooseFile': 'виберіть файл',
+  'jobAnalysis.moreChars': 'Додайте ще {count, plural, one {# символ} few {# символи} many {# символів} other {# символу}} для аналізу',
+  'jobAnalysis.analyzing': 'Аналізуємо вакансію...',
+  'jobAnalysis.analyze': 'Аналізувати вакансію',
+  'jobAnalysis.analyzingTitle': 'Аналізуємо вакансію',
+  'jobAnalysis.progress': 'Прогрес',
+  'jobAnalysis.done': 'Вакансію проаналізовано!',
+  'jobAnalysis.analyzeAnother': 'Аналізувати іншу',
+  'jobAnalysis.positionPlaceholder': 'Назва посади',
+  'jobAnalysis.companyPlaceholder': 'Назва компанії',
+  'jobAnalysis.locationUnknown': 'Локацію не вказано',
+  'jobAnalysis.employmentType': 'Тип зайнятості',
+  'jobAnalysis.experience': 'Досвід',
+  'jobAnalysis.industry': 'Галузь',
+  'jobAnalysis.dataTitle': '📋 Дані вакансії',
+  'jobAnalysis.positionLabel': '🎯 Назва посади:',
+  'jobAnalysis.positionInput': 'Введіть назву посади',
+  'skills.hard_skills': 'Технічні навички',
+  'skills.soft_skills': 'Гнучкі навички',
+  'skills.languages': 'Мови',
+  'jobAnalysis.addTo': 'Додати: {category}',
+  'jobAnalysis.positionTitle': '🎯 Назва посади',
+  'jobAnalysis.notSpecified': 'Не вказано',
+  'jobAnalysis.skillsTitle': '🛠️ Навички та вимоги',
+  'jobAnalysis.noSkills': 'Навички не знайдено. Натисніть "Редагувати", щоб додати їх вручну.',
+  'jobAnalysis.errorTitle': 'Помилка аналізу',
+  'jobAnalysis.supportedSites': '✅ Підтримувані сайти:',
+  'jobAnalysis.parsingTitle': '📊 Гнучкий парсинг даних:',
+  'jobAnalysis.parsing.priority': 'Пріоритет:',
+  'jobAnalysis.parsing.priorityText': 'title, skills (hard/soft/languages)',
+  'jobAnalysis.parsing.noData': 'Якщо даних немає:',
+  'jobAnalysis.parsing.noDataText': 'поля залишаються порожніми',
+  'jobAnalysis.parsing.manual': 'Ручне редагування:',
+  'jobAnalysis.parsing.manualText': 'можна додати будь-які навички',
+  'jobAnalysis.parsing.lenient': 'Без суворої валідації:',
+  'jobAnalysis.parsing.lenientText': 'приймаємо будь-який формат JSON',
+  'jobAnalysis.parsing.flexible': 'Гнучкість:',
+  'jobAnalysis.parsing.flexibleText': 'працює навіть за помилок API',
+
+  // Загрузка резюме
+  'resume.parsing.uploading': 'Завантажуємо резюме на сервер...',
+  'resume.parsing.init': 'Ініціалізуємо нейромережі для аналізу...',
+  'resume.parsing.structure': 'Глибокий аналіз структури документа...',
+  'resume.parsing.personal': 'Вилучення персональної інформації...',
+  'resume.parsing.skills': 'Аналіз навичок і компетенцій...',
+  'resume.parsing.experience': 'Обробка досвіду роботи та освіти...',
+  'resume.parsing.recommendations': 'Генерація кар\'єрних рекомендацій...',
+  'resume.parsing.finalizing': 'Фіналізація та валідація даних...',
+  'resume.fileTooLarge': 'Файл занадто великий. Максимальний розмір: {size}MB',
+  'resume.fileTypeUnsupported': 'Непідтримуваний тип файлу. Використайте PDF або DOCX',
+  'resume.fileExtensionUnsupported': 'Непідтримуване розширення файлу. Використайте .pdf або .docx',
+  'resume.fileValidationFailed': 'Помилка валідації файлу',
+  'resume.parseFailed': 'Сталася помилка під час глибокого аналізу резюме',
+  'resume.notStored': 'Резюме не збережено для наступних генерацій: {message}',
+  'resume.setDefaultFailed': 'Не вдалося призначити резюме за замовчуванням: {message}',
+  'resume.deleteConfirm': 'Видалити "{label}"? Цю дію не можна скасувати.',
+  'resume.deleteFailed': 'Не вдалося видалити резюме: {message}',
+  'resume.validationFailed': 'Помилка валідації: {errors}',
+  'resume.editNotStored': 'Правку не збережено в історії резюме: {message}',
+  'resume.versionSaveFailed': 'Не вдалося зберегти нову версію: {message}',
+  'resume.editsSaved': 'Зміни збережено!',
+  'resume.editsSavedHint': 'Дані резюме оновлено й готові до використання',
+  'resume.title': 'Завантажте ваше резюме',
+  'resume.subtitle': 'Підтримуються файли PDF і DOCX розміром до 10MB',
+  'resume.savedTitle': 'Збережені резюме',
+  'resume.default': 'за замовчуванням',
+  'resume.noFile': 'Без файлу',
+  'resume.use': 'Використати',
+  'resume.makeDefault': 'Зробити резюме за замовчуванням',
+  'resume.orUploadNew': 'Або завантажте новий файл нижче',
+  'resume.dropActive': 'Відпустіть файл тут',
+  'resume.analyzing': 'Аналізуємо резюме...',
+  'resume.dropHere': 'Перетягніть файл сюди',
+  'resume.or': 'або',
+  'resume.chooseFile': 'виберіть файл',
+  'resume.deepTitle': 'Глибокий аналіз резюме за допомогою ШІ',
+  'resume.deepDuration': '⏳ Процес може тривати до 2 хвилин',
+  'resume.deepProgress': 'Прогрес глибокого аналізу',
+  'resume.deepProcess': 'Процес глибокого аналізу',
+  'resume.deepProcessText': 'ШІ детально аналізує всі аспекти вашого резюме.',
+  'resume.deepProcessTime': 'Час виконання: до 2 хвилин',
+  'resume.deepProcessMin': 'Мінімальна демонстрація: 32 секунди',
+  'resume.savedResume': 'Збережене резюме',
+  'resume.processed': '{size} MB • Оброблено успішно',
+  'resume.loadedFromAccount': 'Завантажено з особистого кабінету',
+  'resume.history': 'Історія змін',
+  'resume.removeFile': 'Видалити файл',
+  'resume.editingTitle': 'Редагування даних резюме:',
+  'resume.extractedTitle': 'Ключові вилучені дані:',
+  'resume.personalInfo': '👤 Персональна інформація',
+  'resume.firstName': 'Ім\'я:',
+  'resume.firstNamePlaceholder': 'Введіть ім\'я',
+  'resume.lastName': 'Прізвище:',
+  'resume.lastNamePlaceholder': 'Введіть прізвище',
+  'resume.phone': 'Телефон:',
+  'resume.desiredPosition': '🎯 Бажана посада',
+  'resume.desiredPositionPlaceholder': 'Наприклад: Frontend Developer',
+  'resume.skills': '🛠️ Навички',
+  'resume.addHardSkill': 'Додати технічну навичку',
+  'resume.addSoftSkill': 'Додати гнучку навичку',
+  'resume.addLanguage': 'Додати мову',
+  'resume.summary': '📄 Короткий опис',
+  'resume.summaryPlaceholder': 'Опишіть ваші професійні цілі та ключові досягнення...',
+  'resume.saveAsVersion': '💾 Зберегти як нову версію',
+  'resume.unsavedChanges': 'У вас є незбережені зміни. Натисніть "Зберегти зміни" перед переходом до наступного кроку.',
+  'resume.positionUnknown': 'Не вказано',
+  'resume.noSkills': 'Навички не вилучено з резюме',
+  'resume.candidateSummary': '📄 Резюме кандидата',
+  'resume.fullDataTitle': '📊 Повні дані збережено',
+  'resume.fullDataApi': 'Увесь об\'єкт даних від API збережено',
+  'resume.fullDataKeyFields': 'Відображаються лише ключові поля',
+  'resume.fullDataNextSteps': '✓ Повні дані передаються на наступні кроки',
+  'resume.errorTitle': 'Помилка обробки резюме',
+  'resume.hideError': 'Сховати помилку',
+  'resume.requirementsTitle': '📋 Вимоги до файлу:',
+  'resume.requirements.formats': '• Підтримувані формати: PDF, DOCX',
+  'resume.requirements.size': '• Максимальний розмір: 10 МБ',
+  'resume.requirements.text': '• Файл має містити текстову інформацію',
+  'resume.requirements.structured': '• Рекомендується структуроване резюме',
+  'resume.requirements.time': 'Час обробки:',
+  'resume.requirements.timeText': 'до 2 хвилин для складних резюме',
+  'resume.animationTitle': 'Проста анімація',
+  'resume.animationSteps': '4 прості кроки по 1 секунді кожен.',
+  'resume.animationWait': 'Якщо API швидший - чекаємо завершення анімації.',
+  'resume.howTitle': '🤖 Як працює обробка:',
+  'resume.how.depth': 'Глибина:',
+  'resume.how.depthText': '8 етапів по 4 секунди кожен',
+  'resume.how.quality': 'Якість:',
+  'resume.how.qualityText': 'Щонайменше 32 секунди детального аналізу',
+  'resume.how.ai': 'ШІ-аналіз:',
+  'resume.how.aiText': 'Нейромережі обробляють усі аспекти резюме',
+  'resume.how.patience': 'Терпіння:',
+  'resume.how.patienceText': 'Процес може тривати до 2 хвилин',
+  'resume.how.flexible': 'Гнучкість:',
+  'resume.how.flexibleText': 'Приймаємо дані як є, без суворої валідації',
+
+  // AI-шлюз
+  'gateway.aborted': 'Запит скасовано',
+  'gateway.timeout': 'Час очікування відповіді минув ({seconds} секунд)',
+  'gateway.network': 'Помилка мережі: не вдається підключитися до сервера',
+  'gateway.invalidJson': 'Сервер повернув некоректний JSON',
+  'gateway.notObject': 'Некоректний формат відповіді API: очікувався об\'єкт',
+  'gateway.missingField': 'Відповідь API не містить обов\'язкового поля: {field}',
+  'gateway.invalidBreakdown': 'Некоректна структура поля breakdown у відповіді API',
+  'gateway.noLetterText': 'Лист не згенеровано: відповідь API не містить тексту',
+  'gateway.noFragmentText': 'Фрагмент не переписано: відповідь API не містить тексту',
+  'gateway.invalidInterviewPrep': 'Питання до співбесіди отримано в неочікуваному форматі',
+  'gateway.invalidResume': 'Сервер повернув некоректну відповідь. Можливо, файл пошкоджено або він має непідтримуваний формат.',
+  'gateway.vacancySourceRequired': 'Вкажіть посилання, текст або файл вакансії',
+
+  // Профили голоса письма
+  'letterProfile.manage': 'Мої профілі',
+  'letterProfile.badge': 'Профіль',
+  'letterProfile.description': 'Ваш голос: {samples, plural, one {# зразок} few {# зразки} other {# зразків}}',
+  'letterProfile.loadFailed': 'Не вдалося завантажити профілі: {message}',
+  'letterProfile.editorTitle': 'Профілі голосу',
+  'letterProfile.new': 'Новий профіль',
+  'letterProfile.create': 'Створити профіль',
+  'letterProfile.name': 'Назва',
+  'letterProfile.namePlaceholder': 'Наприклад: Мій діловий стиль',
+  'letterProfile.samples': 'Зразки абзаців (до {max}, розділяйте порожнім рядком)',
+  'letterProfile.samplesPlaceholder': 'Вставте абзаци з листів, які ви писали самі',
+  'letterProfile.avoidWords': 'Слова, яких слід уникати (до {max}, через кому)',
+  'letterProfile.avoidWordsPlaceholder': 'синергія, стресостійкий',
+  'letterProfile.greeting': 'Привітання',
+  'letterProfile.greetingPlaceholder': 'Добрий день!',
+  'letterProfile.signOff': 'Підпис',
+  'letterProfile.signOffPlaceholder': 'З повагою,',
+  'letterProfile.maxLength': 'Максимальна довжина листа ({min}–{max} символів)',
+  'letterProfile.maxLengthPlaceholder': 'Без обмеження',
+  'letterProfile.errorTitle': 'Профіль не збережено',
+  'letterProfile.saveFailed': 'Не вдалося зберегти профіль: {message}',
+  'letterProfile.deleteFailed': 'Не вдалося видалити профіль: {message}',
+  'letterProfile.deleteConfirm': 'Видалити профіль? У збережених листах посилання на нього зникне.',
+  'letterProfile.presetsGroup': 'Пресети',
+  'letterProfile.profilesGroup': 'Мої профілі',
+  'letterProfile.settingsProfile': 'Профіль:',
+
+  // Секции и шаблоны адаптированного резюме
+  'resumeSection.summary': 'Про себе',
+  'resumeSection.experience': 'Досвід роботи',
+  'resumeSection.skills': 'Навички',
+  'resumeSection.education': 'Освіта',
+  'resumeSection.languages': 'Мови',
+  'resumeTemplate.classic': 'Класичний',
+  'resumeTemplate.classicDescription': 'Строгий чорно-білий макет',
+  'resumeTemplate.modern': 'Сучасний',
+  'resumeTemplate.modernDescription': 'Кольорова шапка та акцентні заголовки',
+  'resumeTemplate.compact': 'Компактний',
+  'resumeTemplate.compactDescription': 'Зменшені відступи, щоб вміститися на одній сторінці',
+
+  // Отчет о недостающих навыках
+  'skillGap.category.programming_language': 'Мови програмування та розмітки',
+  'skillGap.category.framework': 'Фреймворки та бібліотеки',
+  'skillGap.category.database': 'Бази даних',
+  'skillGap.category.infrastructure': 'Інфраструктура та DevOps',
+  'skillGap.category.tool': 'Інструменти',
+  'skillGap.category.other_hard': 'Інші технічні навички',
+  'skillGap.category.soft': 'Гнучкі навички',
+  'skillGap.category.language': 'Іноземні мови',
+  'skillGap.action.languageCourse': 'Пройдіть вступний курс з {skill} і розв\'яжіть 20-30 практичних задач',
+  'skillGap.action.languageRewrite': 'Перепишіть невеликий модуль свого проєкту на {skill}',
+  'skillGap.action.frameworkProject': 'Зробіть пет-проєкт на {skill} і викладіть його на GitHub',
+  'skillGap.action.frameworkDocs': 'Опрацюйте офіційну документацію та приклади {skill}',
+  'skillGap.action.databaseSchema': 'Спроєктуйте схему даних для свого проєкту на {skill}',
+  'skillGap.action.databaseQueries': 'Розберіть індекси, транзакції та оптимізацію запитів у {skill}',
+  'skillGap.action.infrastructureDeploy': 'Розгорніть свій проєкт з використанням {skill}',
+  'skillGap.action.infrastructureCourse': 'Пройдіть практичний курс або лабораторні роботи з {skill}',
+  'skillGap.action.toolPractice': 'Використовуйте {skill} у щоденній роботі або навчальному проєкті',
+  'skillGap.action.otherCourse': 'Знайдіть курс або книгу на тему «{skill}» і закріпіть знання на практиці',
+  'skillGap.action.softExample': 'Підготуйте приклад із досвіду, де проявилася навичка «{skill}», для співбесіди',
+  'skillGap.action.softFeedback': 'Попросіть колег дати зворотний зв\'язок щодо навички «{skill}»',
+  'skillGap.action.foreignPractice': 'Займайтеся {skill} регулярно: розмовна практика з викладачем або в клубі',
+  'skillGap.action.foreignCertificate': 'Підтвердьте рівень {skill} міжнародним сертифікатом',
+  'skillGap.action.addToResume': 'Якщо {skill} у вас уже є, додайте навичку в резюме з прикладом застосування',
+  'skillGap.action.highDemand': 'Навичка потрібна в {count, plural, one {# вашій вакансії} other {# ваших вакансіях}} - вивчіть її в першу чергу',
+  'skillGap.title': 'План розвитку навичок',
+  'skillGap.vacancyAtCompany': '{title} в {company}',
+  'skillGap.noMissing': 'Усі навички з вакансії є в резюме.',
+  'skillGap.missingCount': 'Навичок бракує: {count}',
+  'skillGap.historyNote': 'Затребуваність пораховано за {count, plural, one {# збереженою вакансією} other {# збереженими вакансіями}}.',
+  'skillGap.demand': 'у {count, plural, one {# вакансії} other {# вакансіях}}',
+  'skillGap.fileNamePrefix': 'План_розвитку',
+  'skillGap.emptyTitle': 'Усі навички з вакансії є в резюме',
+  'skillGap.emptyDescription': 'Звіт про відсутні навички порожній',
+  'skillGap.historyDemand': 'затребуваність за {count, plural, one {# збереженою вакансією} other {# збереженими вакансіями}}',
+  'skillGap.download': 'Завантажити план',
+  'skillGap.summaryTitle': 'Яких навичок вам бракує найчастіше',
+  'skillGap.summaryVacancies': 'За {count, plural, one {# збереженою вакансією} other {# збереженими вакансіями}}',
+  'skillGap.summaryCount': '{count} з {total}',
+
+  // Быстрая оценка навыков
+  'skillPreScore.title': 'Швидка оцінка навичок',
+  'skillPreScore.description': 'Пряме порівняння навичок резюме та вакансії з урахуванням синонімів, без AI',
+  'skillPreScore.hardSkills': 'Технічні навички',
+  'skillPreScore.languages': 'Мови',
+  'skillPreScore.noRequirements': 'Вакансія не вказує вимог',
+  'skillPreScore.matchedOf': '{matched} з {total}',
+  'skillPreScore.matched': 'Є в резюме',
+  'skillPreScore.missing': 'Не знайдено в резюме',
+  'skillPreScore.extra': 'Додатково в резюме',
+  'skillPreScore.localScore': 'Швидка оцінка технічних навичок:',
+  'skillPreScore.aiScore': 'оцінка AI:',
+  'skillPreScore.agreement.agree': 'Оцінки збігаються',
+  'skillPreScore.agreement.ai_higher': 'AI оцінив вище: ймовірно, враховано суміжні навички та досвід, не перелічені в списку навичок',
+  'skillPreScore.agreement.ai_lower': 'AI оцінив нижче: ймовірно, навички вказано в резюме, але не підтверджено досвідом',
+
+  // Адаптированное резюме
+  'tailoredResume.title': 'Адаптоване резюме',
+  'tailoredResume.subtitle': 'Піднімемо в резюме досвід і навички, важливі для цієї вакансії',
+  'tailoredResume.start': 'Адаптувати резюме під вакансію',
+  'tailoredResume.changesTitle': 'Що зміниться:',
+  'tailoredResume.changeExperience': 'Пункти досвіду роботи відсортуються за релевантністю вакансії',
+  'tailoredResume.changeSkills': 'Збіжні навички опиняться на початку списку',
+  'tailoredResume.changeKeywords': 'Ключові слова вакансії будуть підсвічені',
+  'tailoredResume.changeOptional': 'Цей крок можна пропустити й одразу перейти до підсумків',
+  'tailoredResume.matches': 'Збігів із вакансією: {count}',
+  'tailoredResume.reset': 'Скинути',
+  'tailoredResume.template': 'Шаблон PDF',
+  'tailoredResume.sections': 'Секції',
+  'tailoredResume.pin': 'Закріпити на початку',
+  'tailoredResume.unpin': 'Відкріпити',
+  'tailoredResume.show': 'Показати',
+  'tailoredResume.hide': 'Приховати',
+  'tailoredResume.downloadPdf': 'Завантажити резюме в PDF',
+  'tailoredResume.savedWithGeneration': 'Адаптоване резюме збережеться разом із генерацією',
+  'tailoredResume.pdfFailed': 'Не вдалося створити PDF: {message}',
+
+  // История этапов отклика
+  'timeline.loading': 'Завантажуємо історію...',
+  'timeline.empty': 'Переходів поки немає',
+  'timeline.delete': 'Видалити перехід',
+  'timeline.deleteConfirm': 'Видалити цей перехід з історії?',
+  'timeline.notePlaceholder': 'Нотатка: з ким спілкувалися, про що домовилися...',
+  'timeline.add': 'Додати перехід',
+  'timeline.reminderPending': 'Нагадаємо про follow-up {date}, якщо не буде відповіді',
+  'timeline.reminderSent': 'Нагадування надіслано в Telegram {date}',
+  'timeline.cancelReminder': 'Скасувати',
+  'timeline.copyFollowUp': 'Копіювати follow-up лист',
+  'timeline.loadFailed': 'Не вдалося завантажити історію: {message}',
+  'timeline.saveFailed': 'Не вдалося зберегти перехід: {message}',
+  'timeline.deleteFailed': 'Не вдалося видалити перехід: {message}',
+  'timeline.cancelReminderFailed': 'Не вдалося скасувати нагадування: {message}',
+
+  // Подготовка к собеседованию
+  'interview.title': 'Підготовка до співбесіди',
+  'interview.subtitle': 'Підберемо ймовірні запитання та план відповіді на основі вашого досвіду',
+  'interview.focusTitle': 'Запитання будуть зосереджені на:',
+  'interview.generate': 'Підготувати запитання до співбесіди',
+  'interview.generating': 'Готуємо запитання...',
+  'interview.benefitsTitle': 'Що ви отримаєте:',
+  'interview.benefitQuestions': 'Ймовірні технічні та поведінкові запитання щодо вакансії',
+  'interview.benefitOutline': 'План відповіді на кожне запитання',
+  'interview.benefitExperience': 'Пункти досвіду з резюме, на які варто спертися',
+  'interview.benefitOptional': 'Цей крок можна пропустити й одразу перейти далі',
+  'interview.questionCount': 'Запитань: {count}',
+  'interview.reset': 'Скинути',
+  'interview.missingData': 'Для підготовки потрібні дані резюме, вакансії та результати скорингу',
+  'interview.generateFailed': 'Не вдалося підготувати запитання: {message}',
+  'interview.weakAreasFocus': 'Фокус на слабких зонах:',
+  'interview.answerOutline': 'План відповіді',
+  'interview.experienceRefs': 'Спирайтеся на досвід із резюме',
+  'interview.category.technical': 'Технічне',
+  'interview.category.behavioral': 'Поведінкове',
+  'interview.category.experience': 'Про досвід',
+  'interview.category.motivation': 'Про мотивацію',
+
+  // История изменений резюме
+  'resumeHistory.title': 'Історія змін',
+  'resumeHistory.empty': 'Правок поки немає',
+  'resumeHistory.version': 'Версія {number}',
+  'resumeHistory.current': 'поточна',
+  'resumeHistory.restoredFrom': 'відновлена з версії {number}',
+  'resumeHistory.compareBefore': 'було',
+  'resumeHistory.compareAfter': 'стало',
+  'resumeHistory.compareBeforeTitle': 'Порівняти: було',
+  'resumeHistory.compareAfterTitle': 'Порівняти: стало',
+  'resumeHistory.restore': 'Відновити цю версію',
+  'resumeHistory.restoreConfirm': 'Відновити версію від {date}? Поточні дані залишаться в історії.',
+  'resumeHistory.loadFailed': 'Не вдалося завантажити історію: {message}',
+  'resumeHistory.restoreFailed': 'Не вдалося відновити версію: {message}',
+  'resumeHistory.noDifferences': 'Версії не відрізняються',
+  'resumeHistory.personalInfo': 'Персональна інформація',
+  'resumeHistory.profile': 'Профіль',
+  'resumeHistory.skills': 'Навички',
+  'resumeHistory.hardSkills': 'Hard skills',
+  'resumeHistory.softSkills': 'Soft skills',
+  'resumeHistory.languages': 'Мови',
+  'resumeHistory.experience': 'Досвід роботи',
+  'resumeHistory.added': 'Додано',
+  'resumeHistory.removed': 'Видалено',
+  'resumeHistory.changed': 'Змінено',
+  'resumeHistory.untitled': 'Без назви',
+  'resumeHistory.education': 'Освіта',
+  'resumeHistory.institutions': 'Навчальні заклади',
+  'resumeDiff.field.firstName': 'Ім\'я',
+  'resumeDiff.field.lastName': 'Прізвище',
+  'resumeDiff.field.email': 'Email',
+  'resumeDiff.field.phone': 'Телефон',
+  'resumeDiff.field.website': 'Сайт',
+  'resumeDiff.field.city': 'Місто',
+  'resumeDiff.field.country': 'Країна',
+  'resumeDiff.field.telegram': 'Telegram',
+  'resumeDiff.field.desiredPosition': 'Бажана посада',
+  'resumeDiff.field.summary': 'Про себе',
+  'resumeDiff.field.position': 'Посада',
+  'resumeDiff.field.company': 'Компанія',
+  'resumeDiff.field.startDate': 'Початок',
+  'resumeDiff.field.endDate': 'Закінчення',
+  'resumeDiff.field.industry': 'Галузь',
+
+  // Пакетный анализ вакансий
+  'batch.title': 'Пакетний аналіз вакансій',
+  'batch.subtitle': 'Вставте до {max} посилань - ми оцінимо відповідність резюме кожній вакансії',
+  'batch.dashboard': 'Особистий кабінет',
+  'batch.loadingResumes': 'Завантажуємо ваші резюме...',
+  'batch.noResumes': 'Для пакетного аналізу потрібне збережене резюме',
+  'batch.uploadResume': 'Завантажити резюме',
+  'batch.resume': 'Резюме',
+  'batch.defaultResume': 'за замовчуванням',
+  'batch.urls': 'Посилання на вакансії (по одному на рядок)',
+  'batch.stop': 'Зупинити',
+  'batch.start': 'Проаналізувати вакансії',
+  'batch.progress': 'Оброблено {finished} з {total}, оцінено {scored}',
+  'batch.column.vacancy': 'Вакансія',
+  'batch.column.status': 'Статус',
+  'batch.column.total': 'Загальний',
+  'batch.column.hard': 'Hard',
+  'batch.column.soft': 'Soft',
+  'batch.column.experience': 'Досвід',
+  'batch.column.position': 'Посада',
+  'batch.column.letter': 'Лист',
+  'batch.continue': 'Продовжити для необроблених вакансій',
+  'batch.topLettersBefore': 'Згенерувати листи для найкращих',
+  'batch.topLettersAfter': 'вакансій',
+  'batch.createLetters': 'Створити листи ({count})',
+  'batch.lettersCreated': 'Листи створено',
+  'batch.letterSaved': 'Лист збережено в особистому кабінеті',
+  'batch.selectResume': 'Оберіть резюме для аналізу',
+  'batch.noSupportedUrls': 'Не знайдено жодного підтримуваного посилання на вакансію',
+  'batch.resumesLoadFailed': 'Не вдалося завантажити резюме: {message}',
+  'batch.analysisFailed': 'Не вдалося проаналізувати вакансію',
+  'batch.notAnalyzed': 'Вакансію ще не проаналізовано',
+  'batch.duplicateVacancy': 'вакансія вже є у списку',
+  'batch.tooManyVacancies': 'За один раз можна проаналізувати не більше {max} вакансій, зайві посилання пропущено',
+  'batch.status.queued': 'У черзі',
+  'batch.status.analysing': 'Аналіз',
+  'batch.status.scored': 'Оцінено',
+  'batch.status.failed': 'Помилка',
+
+  // Проверка и хранение данных
+  'data.notAuthenticated': 'Користувача не автентифіковано',
+  'data.resumeNotFound': 'Резюме не знайдено',
+  'data.letterVariantNotFound': 'Варіант листа не знайдено',
+  'data.letterProfileNotFound': 'Профіль не знайдено',
+  'data.unknownStage': 'Невідомий етап відгуку: {stage}',
+  'data.noteTooLong': 'Нотатка не має перевищувати {max} символів',
+  'data.invalidStageDate': 'Некоректна дата переходу',
+  'data.jobTitleRequired': 'Назва посади обов\'язкова',
+  'data.companyNameRequired': 'Назва компанії обов\'язкова',
+  'data.letterTextRequired': 'Текст листа обов\'язковий',
+  'data.scoringResultsRequired': 'Результати скорингу обов\'язкові',
+  'data.resumeDataRequired': 'Дані резюме обов\'язкові',
+  'data.jobDataRequired': 'Дані вакансії обов\'язкові',
+  'data.interviewPrepNotObject': 'Питання до співбесіди мають бути об\'єктом',
+  'data.letterTextMismatch': 'Текст листа має збігатися з основним варіантом',
+  'data.primaryVariantCount': 'Основним має бути позначено рівно один варіант, позначено: {count}',
+  'data.overallScoreRange': 'Загальний бал має бути числом від 0 до 100',
+  'data.letterProfileIdInvalid': 'Ідентифікатор профілю листа має бути непорожнім рядком',
+  'data.scoringResumeMissing': 'Відсутні дані резюме',
+  'data.scoringFirstNameMissing': 'У резюме відсутнє ім\'я кандидата',
+  'data.scoringLastNameMissing': 'У резюме відсутнє прізвище кандидата',
+  'data.scoringSkillsMissing': 'У резюме не вказано навичок',
+  'data.scoringSkillsInvalid': 'Навички в резюме порожні або некоректні',
+  'data.scoringJobMissing': 'Відсутні дані вакансії',
+  'data.scoringJobTitleMissing': 'У вакансії не вказано посаду',
+  'data.scoringCompanyMissing': 'У вакансії не вказано компанію',
+  'data.scoringUserIdMissing': 'Відсутній ідентифікатор користувача',
+  'data.scoringUserIdInvalid': 'Некоректний формат ідентифікатора користувача',
+  'data.scoringValidationFailed': 'Помилка валідації даних: {errors}',
+
+  // Экспорт в PDF
+  'pdf.fontLoadFailed': 'Не вдалося завантажити шрифт: {status}',
+  'pdf.keySkills': 'Ключові для вакансії: {skills}',
+  'pdf.otherSkills': 'Також: {skills}',
+  'pdf.resumeFileNamePrefix': 'Резюме',
+};
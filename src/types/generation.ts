@@ -7,7 +7,13 @@
  * Версия: 1.0
  */
 
-import { ResumeData } from './resumeData';
+import { RESUME_DATA_SCHEMA, ResumeData } from './resumeData';
+import { TailoredResume } from './tailoredResume';
+import { InterviewPrep } from './interviewPrep';
+import { formatDateTime, formatNumber, getCurrentLocale, Locale, MessageKey, translate } from '../lib/i18n';
+import { LetterVariant, validateLetterVariants } from './letterVariant';
+import { JsonSchema, validateJsonSchema } from '../../supabase/functions/_shared/jsonSchema.ts';
+import { INTERVIEW_PREP_SCHEMA, JOB_DATA_SCHEMA, SCORING_RESULTS_SCHEMA } from '../../supabase/functions/_shared/generationSchemas.ts';
 
 // ============================================================================
 // ОСНОВНЫЕ ТИПЫ
@@ -18,6 +24,83 @@ import { ResumeData } from './resumeData';
  */
 export type GenerationStatus = 'completed' | 'draft' | 'archived';
 
+/**
+ * Этап отклика на вакансию (трекер откликов)
+ */
+export type ApplicationStage =
+  | 'prepared'
+  | 'applied'
+  | 'recruiter_screen'
+  | 'interview'
+  | 'offer'
+  | 'rejected'
+  | 'withdrawn';
+
+/**
+ * Этапы отклика в порядке воронки (колонки доски)
+ */
+export const APPLICATION_STAGES: ApplicationStage[] = [
+  'prepared',
+  'applied',
+  'recruiter_screen',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn',
+];
+
+/**
+ * Переход отклика на этап
+ *
+ * Соответствует схеме таблицы application_events в Supabase
+ */
+export interface ApplicationEvent {
+  /** Уникальный идентификатор события */
+  id: string;
+  /** ID генерации из таблицы generations */
+  generation_id: string;
+  /** ID пользователя из auth.users */
+  user_id: string;
+  /** Этап, на который перешел отклик */
+  stage: ApplicationStage;
+  /** Заметка пользователя */
+  note: string | null;
+  /** Дата перехода */
+  occurred_at: string;
+  /** Дата и время создания записи */
+  created_at: string;
+}
+
+/**
+ * Статус напоминания о follow-up
+ */
+export type ApplicationReminderStatus = 'pending' | 'sent' | 'cancelled' | 'failed';
+
+/**
+ * Напоминание о follow-up по отклику
+ *
+ * Соответствует схеме таблицы application_reminders в Supabase.
+ * Создается триггером при переходе на этап 'applied', отправляется Edge Function send-reminders
+ */
+export interface ApplicationReminder {
+  id: string;
+  generation_id: string;
+  user_id: string;
+  kind: 'follow_up';
+  /** Этап, на котором напоминание актуально */
+  trigger_stage: ApplicationStage;
+  /** Когда напоминание будет отправлено */
+  due_at: string;
+  status: ApplicationReminderStatus;
+  attempts: number;
+  last_error: string | null;
+  /** Черновик follow-up письма, сгенерированный при отправке */
+  follow_up_text: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 /**
  * Полная структура генерации из базы данных
  */
@@ -50,12 +133,22 @@ export interface Generation {
   resume_data_json: ResumeData;
   /** Структурированные данные вакансии */
   job_data_json: JobData;
+  /** Адаптированное под вакансию резюме (если этап не пропущен) */
+  tailored_resume_json: TailoredResume | null;
+  /** Вопросы к собеседованию (если этап не пропущен) */
+  interview_prep_json: InterviewPrep | null;
+  /** Все варианты письма (если генерировалось несколько); основной = cover_letter_text */
+  letter_variants_json: LetterVariant[] | null;
+  /** Профиль голоса основного варианта письма (NULL - пресет стиля или профиль удален) */
+  letter_profile_id: string | null;
   
   // Дополнительные поля
   /** Пользовательское название генерации */
   title: string | null;
   /** Статус генерации */
   status: GenerationStatus;
+  /** Текущий этап отклика (по последнему событию application_events) */
+  application_stage: ApplicationStage;
 }
 
 /**
@@ -69,6 +162,10 @@ export interface CreateGenerationData {
   scoring_results_json: ScoringResults;
   resume_data_json: ResumeData;
   job_data_json: JobData;
+  tailored_resume_json?: TailoredResume | null;
+  interview_prep_json?: InterviewPrep | null;
+  letter_variants_json?: LetterVariant[] | null;
+  letter_profile_id?: string | null;
   title?: string;
   status?: GenerationStatus;
 }
@@ -84,6 +181,9 @@ export interface UpdateGenerationData {
   scoring_results_json?: ScoringResults;
   resume_data_json?: ResumeData;
   job_data_json?: JobData;
+  tailored_resume_json?: TailoredResume | null;
+  interview_prep_json?: InterviewPrep | null;
+  letter_variants_json?: LetterVariant[] | null;
   title?: string;
   status?: GenerationStatus;
 }
@@ -99,6 +199,11 @@ export interface GenerationSummary {
   overall_score: number | null;
   title: string | null;
   status: GenerationStatus;
+  application_stage: ApplicationStage;
+  vacancy_key?: string | null; // Ключ вакансии из job_data_json.source для дедупликации
+  job_skills?: JobData['skills'] | null; // Навыки вакансии для отчета о недостающих навыках
+  job_required_skills?: string[] | null;
+  resume_skills?: ResumeData['skills'] | null; // Навыки резюме на момент генерации
 }
 
 // ============================================================================
@@ -140,6 +245,24 @@ export interface ScoringResults {
   };
 }
 
+/**
+ * Откуда получены данные вакансии
+ */
+export type VacancySource =
+  | { type: 'url'; url: string; vacancy_key?: string }
+  | { type: 'text' }
+  | { type: 'file'; file_name: string };
+
+/**
+ * Зарплатная вилка вакансии; одна из границ может отсутствовать
+ */
+export interface VacancySalary {
+  from: number | null;
+  to: number | null;
+  currency: string; // Код валюты ISO 4217
+  gross?: boolean; // true - до вычета налогов
+}
+
 /**
  * Структура данных вакансии
  */
@@ -160,8 +283,21 @@ export interface JobData {
     languages: string[];
   };
   required_skills?: string[]; // Для обратной совместимости
+  salary?: VacancySalary;
+  /** Источник данных: ссылка, вставленный текст или файл */
+  source?: VacancySource;
 }
 
+// ============================================================================
+// JSON SCHEMA ДЛЯ ВАЛИДАЦИИ
+// ============================================================================
+
+/**
+ * JSON Schema для данных вакансии и результатов скорринга
+ * Объявлены в supabase/functions/_shared, чтобы save-generation проверял данные теми же схемами
+ */
+export { JOB_DATA_SCHEMA, SCORING_RESULTS_SCHEMA };
+
 // ============================================================================
 // УТИЛИТНЫЕ ФУНКЦИИ
 // ============================================================================
@@ -184,17 +320,67 @@ export function isGeneration(data: any): data is Generation {
   );
 }
 
+/**
+ * Текстовое описание источника вакансии
+ */
+export function getVacancySourceText(source: VacancySource | undefined, locale: Locale = getCurrentLocale()): string {
+  switch (source?.type) {
+    case 'url':
+      return translate('vacancySource.url', undefined, locale);
+    case 'text':
+      return translate('vacancySource.text', undefined, locale);
+    case 'file':
+      return translate('vacancySource.file', { fileName: source.file_name }, locale);
+    default:
+      return translate('vacancySource.unknown', undefined, locale);
+  }
+}
+
+/**
+ * Текстовое описание зарплатной вилки: "от 100 000 до 150 000 ₽"
+ */
+export function formatVacancySalary(salary: VacancySalary, locale: Locale = getCurrentLocale()): string {
+  const formatAmount = (amount: number) => formatNumber(amount, {
+    style: 'currency',
+    currency: salary.currency,
+    maximumFractionDigits: 0
+  }, locale);
+
+  let range: string;
+  try {
+    if (salary.from !== null && salary.to !== null) {
+      range = translate('salary.range', { from: formatNumber(salary.from, undefined, locale), to: formatAmount(salary.to) }, locale);
+    } else if (salary.from !== null) {
+      range = translate('salary.from', { from: formatAmount(salary.from) }, locale);
+    } else if (salary.to !== null) {
+      range = translate('salary.to', { to: formatAmount(salary.to) }, locale);
+    } else {
+      return translate('salary.notSpecified', undefined, locale);
+    }
+  } catch {
+    // Неизвестный код валюты - выводим его как есть
+    range = [
+      salary.from !== null ? translate('salary.from', { from: salary.from }, locale) : '',
+      salary.to !== null ? translate('salary.to', { to: salary.to }, locale) : '',
+    ].filter(Boolean).join(' ') + ` ${salary.currency}`;
+  }
+
+  if (salary.gross === true) return translate('salary.gross', { range }, locale);
+  if (salary.gross === false) return translate('salary.net', { range }, locale);
+  return range;
+}
+
 /**
  * Получение отформатированной даты создания
  */
-export function getFormattedCreatedDate(generation: Generation): string {
-  return new Date(generation.created_at).toLocaleDateString('ru-RU', {
+export function getFormattedCreatedDate(generation: Pick<Generation, 'created_at'>, locale: Locale = getCurrentLocale()): string {
+  return formatDateTime(generation.created_at, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
     hour: '2-digit',
     minute: '2-digit'
-  });
+  }, locale);
 }
 
 /**
@@ -208,25 +394,19 @@ export function getScoreColor(score: number | null): string {
 }
 
 /**
- * Получение текстового описания статуса
+ * Получение текстового описания статуса генерации или этапа отклика
  */
-export function getStatusText(status: GenerationStatus): string {
-  switch (status) {
-    case 'completed':
-      return 'Завершено';
-    case 'draft':
-      return 'Черновик';
-    case 'archived':
-      return 'Архив';
-    default:
-      return 'Неизвестно';
-  }
+export function getStatusText(status: GenerationStatus | ApplicationStage, locale: Locale = getCurrentLocale()): string {
+  const key: MessageKey = `status.${status}`;
+  const text = translate(key, undefined, locale);
+  // Значение из базы вне перечня - ключа в каталоге нет
+  return text === key ? translate('status.unknown', undefined, locale) : text;
 }
 
 /**
- * Получение цвета для отображения статуса
+ * Получение цвета для отображения статуса генерации или этапа отклика
  */
-export function getStatusColor(status: GenerationStatus): string {
+export function getStatusColor(status: GenerationStatus | ApplicationStage): string {
   switch (status) {
     case 'completed':
       return 'text-green-400';
@@ -234,6 +414,20 @@ export function getStatusColor(status: GenerationStatus): string {
       return 'text-yellow-400';
     case 'archived':
       return 'text-gray-400';
+    case 'prepared':
+      return 'text-gray-300';
+    case 'applied':
+      return 'text-blue-400';
+    case 'recruiter_screen':
+      return 'text-cyan-400';
+    case 'interview':
+      return 'text-purple-400';
+    case 'offer':
+      return 'text-green-400';
+    case 'rejected':
+      return 'text-red-400';
+    case 'withdrawn':
+      return 'text-gray-400';
     default:
       return 'text-gray-400';
   }
@@ -252,42 +446,68 @@ export function getGenerationPreview(generation: Generation): string {
 /**
  * Подсчет общего количества слов в письме
  */
-export function getLetterWordCount(generation: Generation): number {
+export function getLetterWordCount(generation: Pick<Generation, 'cover_letter_text'>): number {
   return generation.cover_letter_text.split(/\s+/).filter(word => word.length > 0).length;
 }
 
 /**
  * Валидация данных для создания генерации
  */
-export function validateCreateGenerationData(data: any): { isValid: boolean; errors: string[] } {
+export function validateCreateGenerationData(
+  data: any,
+  locale: Locale = getCurrentLocale()
+): { isValid: boolean; errors: string[] } {
   const errors: string[] = [];
 
   if (!data.job_title || typeof data.job_title !== 'string' || data.job_title.trim().length === 0) {
-    errors.push('Название должности обязательно');
+    errors.push(translate('data.jobTitleRequired', undefined, locale));
   }
 
   if (!data.company_name || typeof data.company_name !== 'string' || data.company_name.trim().length === 0) {
-    errors.push('Название компании обязательно');
+    errors.push(translate('data.companyNameRequired', undefined, locale));
   }
 
   if (!data.cover_letter_text || typeof data.cover_letter_text !== 'string' || data.cover_letter_text.trim().length === 0) {
-    errors.push('Текст письма обязателен');
+    errors.push(translate('data.letterTextRequired', undefined, locale));
   }
 
-  if (!data.scoring_results_json || typeof data.scoring_results_json !== 'object') {
-    errors.push('Результаты скорринга обязательны');
-  }
+  // Проверка JSON данных по схемам
+  const checkJson = (value: unknown, schema: JsonSchema, field: string, missingKey: MessageKey) => {
+    if (!value || typeof value !== 'object') {
+      errors.push(translate(missingKey, undefined, locale));
+      return;
+    }
+    for (const error of validateJsonSchema(value, schema).errors) {
+      errors.push(`${field}${error.path}: ${error.message}`);
+    }
+  };
 
-  if (!data.resume_data_json || typeof data.resume_data_json !== 'object') {
-    errors.push('Данные резюме обязательны');
+  checkJson(data.scoring_results_json, SCORING_RESULTS_SCHEMA, 'scoring_results_json', 'data.scoringResultsRequired');
+  checkJson(data.resume_data_json, RESUME_DATA_SCHEMA, 'resume_data_json', 'data.resumeDataRequired');
+  checkJson(data.job_data_json, JOB_DATA_SCHEMA, 'job_data_json', 'data.jobDataRequired');
+
+  if (data.interview_prep_json !== undefined && data.interview_prep_json !== null) {
+    checkJson(data.interview_prep_json, INTERVIEW_PREP_SCHEMA, 'interview_prep_json', 'data.interviewPrepNotObject');
   }
 
-  if (!data.job_data_json || typeof data.job_data_json !== 'object') {
-    errors.push('Данные вакансии обязательны');
+  if (data.letter_variants_json !== undefined && data.letter_variants_json !== null) {
+    const variantsValidation = validateLetterVariants(data.letter_variants_json, locale);
+    errors.push(...variantsValidation.errors.map(error => `letter_variants_json: ${error}`));
+
+    const primary = variantsValidation.isValid
+      ? (data.letter_variants_json as LetterVariant[]).find(variant => variant.is_primary)
+      : undefined;
+    if (primary && primary.letter_text !== data.cover_letter_text) {
+      errors.push(translate('data.letterTextMismatch', undefined, locale));
+    }
   }
 
   if (data.overall_score !== undefined && (typeof data.overall_score !== 'number' || data.overall_score < 0 || data.overall_score > 100)) {
-    errors.push('Общий балл должен быть числом от 0 до 100');
+    errors.push(translate('data.overallScoreRange', undefined, locale));
+  }
+
+  if (data.letter_profile_id !== undefined && data.letter_profile_id !== null && (typeof data.letter_profile_id !== 'string' || data.letter_profile_id.trim().length === 0)) {
+    errors.push(translate('data.letterProfileIdInvalid', undefined, locale));
   }
 
   return {
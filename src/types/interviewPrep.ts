@@ -0,0 +1,131 @@
+/**
+ * Типы для подготовки к собеседованию
+ *
+ * Вопросы генерируются по вакансии, резюме и итогам скорринга
+ * и хранятся вместе с генерацией в колонке generations.interview_prep_json
+ */
+
+import { ScoringResults } from './generation';
+import { MessageKey } from '../lib/i18n';
+import { validateJsonSchema } from '../../supabase/functions/_shared/jsonSchema.ts';
+import { INTERVIEW_PREP_SCHEMA } from '../../supabase/functions/_shared/generationSchemas.ts';
+
+// ============================================================================
+// ОСНОВНЫЕ ТИПЫ
+// ============================================================================
+
+/**
+ * Критерий скорринга из breakdown
+ */
+export type ScoringBreakdownKey = 'hard_skills' | 'soft_skills' | 'experience_match' | 'position_match';
+
+/**
+ * Тип вопроса на собеседовании
+ */
+export type InterviewQuestionCategory = 'technical' | 'behavioral' | 'experience' | 'motivation';
+
+/**
+ * Ссылка на пункт опыта из резюме
+ */
+export interface ExperienceReference {
+  /** Индекс места работы в experience */
+  experience_index: number;
+  /** Индекс пункта в experience[].bullet_list */
+  bullet_index: number;
+  company: string;
+  position: string;
+  /** Текст пункта bullet_list */
+  bullet: string;
+}
+
+/**
+ * Вероятный вопрос на собеседовании с планом ответа
+ */
+export interface InterviewQuestion {
+  question: string;
+  category: InterviewQuestionCategory;
+  /** Критерий скорринга, который проверяет вопрос */
+  focus_area: ScoringBreakdownKey;
+  /** Почему работодатель задаст этот вопрос */
+  why_asked: string;
+  /** План ответа по пунктам */
+  answer_outline: string[];
+  /** Пункты опыта, на которые стоит опереться в ответе */
+  experience_refs: ExperienceReference[];
+}
+
+/**
+ * Подготовка к собеседованию для одной генерации
+ */
+export interface InterviewPrep {
+  questions: InterviewQuestion[];
+  /** Слабые критерии скорринга, на которых сфокусированы вопросы */
+  weak_areas: ScoringBreakdownKey[];
+  /** Дата генерации (ISO 8601) */
+  generated_at: string;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/**
+ * Критерии скорринга в порядке отображения
+ */
+export const SCORING_BREAKDOWN_TITLE_KEYS: Record<ScoringBreakdownKey, MessageKey> = {
+  hard_skills: 'scoring.dimension.hard_skills',
+  soft_skills: 'scoring.dimension.soft_skills',
+  experience_match: 'scoring.dimension.experience_match',
+  position_match: 'scoring.dimension.position_match',
+};
+
+/**
+ * Названия типов вопросов
+ */
+export const INTERVIEW_QUESTION_CATEGORY_TITLE_KEYS: Record<InterviewQuestionCategory, MessageKey> = {
+  technical: 'interview.category.technical',
+  behavioral: 'interview.category.behavioral',
+  experience: 'interview.category.experience',
+  motivation: 'interview.category.motivation',
+};
+
+/**
+ * Балл критерия ниже порога считается слабой зоной
+ */
+export const WEAK_AREA_SCORE_THRESHOLD = 60;
+
+/**
+ * JSON Schema подготовки к собеседованию
+ * Объявлена в supabase/functions/_shared, чтобы save-generation проверял данные той же схемой
+ */
+export { INTERVIEW_PREP_SCHEMA };
+
+// ============================================================================
+// УТИЛИТНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Слабые критерии скорринга, от самого низкого балла к более высокому
+ *
+ * Если все критерии выше порога, возвращается один самый низкий -
+ * вопросы по нему все равно вероятнее всего
+ */
+export function getWeakAreas(scoring: ScoringResults): ScoringBreakdownKey[] {
+  const breakdown = scoring.scoring_result.breakdown;
+  const sorted = (Object.keys(SCORING_BREAKDOWN_TITLE_KEYS) as ScoringBreakdownKey[])
+    .sort((a, b) => breakdown[a].score - breakdown[b].score);
+
+  const weak = sorted.filter(key => breakdown[key].score < WEAK_AREA_SCORE_THRESHOLD);
+  return weak.length > 0 ? weak : sorted.slice(0, 1);
+}
+
+/**
+ * Валидация подготовки к собеседованию по схеме
+ */
+export function validateInterviewPrep(data: unknown): { isValid: boolean; errors: string[] } {
+  const result = validateJsonSchema(data, INTERVIEW_PREP_SCHEMA);
+  return {
+    isValid: result.isValid,
+    errors: result.errors.map(error => `${error.path || '/'}: ${error.message}`),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Типы для профилей голоса сопроводительных писем
+ *
+ * Профиль выбирается вместо пресета стиля (neutral, creative, startup, formal)
+ * и уходит в generate-letter в customization.letter_profile.
+ * Соответствует схеме таблицы letter_profiles в Supabase
+ */
+
+import { validateJsonSchema } from '../../supabase/functions/_shared/jsonSchema.ts';
+import { LETTER_PROFILE_LIMITS, LETTER_PROFILE_SCHEMA } from '../../supabase/functions/_shared/letterProfileSchema.ts';
+
+export { LETTER_PROFILE_LIMITS, LETTER_PROFILE_SCHEMA };
+
+// ============================================================================
+// ОСНОВНЫЕ ТИПЫ
+// ============================================================================
+
+/**
+ * Настройки профиля: редактируются пользователем и отправляются в upstream
+ */
+export interface LetterProfileSettings {
+  /** Название профиля */
+  name: string;
+  /** Абзацы, написанные пользователем, - образец голоса */
+  sample_paragraphs: string[];
+  /** Слова и обороты, которых не должно быть в письме */
+  avoid_words: string[];
+  /** Предпочтительное приветствие */
+  greeting: string | null;
+  /** Предпочтительная подпись */
+  sign_off: string | null;
+  /** Максимальная длина письма в символах */
+  max_length: number | null;
+}
+
+/**
+ * Профиль голоса из базы данных
+ */
+export interface LetterProfile extends LetterProfileSettings {
+  /** Уникальный идентификатор профиля */
+  id: string;
+  /** ID пользователя из auth.users */
+  user_id: string;
+  /** Дата и время создания */
+  created_at: string;
+  /** Дата и время последнего изменения */
+  updated_at: string;
+}
+
+// ============================================================================
+// УТИЛИТНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Настройки нового профиля
+ */
+export function createEmptyLetterProfileSettings(): LetterProfileSettings {
+  return {
+    name: '',
+    sample_paragraphs: [],
+    avoid_words: [],
+    greeting: null,
+    sign_off: null,
+    max_length: null,
+  };
+}
+
+/**
+ * Настройки профиля без служебных полей, с обрезанными пробелами
+ * Пустые абзацы и слова отбрасываются, пустые фразы становятся null
+ */
+export function getLetterProfileSettings(profile: LetterProfileSettings): LetterProfileSettings {
+  const cleanList = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+
+  return {
+    name: profile.name.trim(),
+    sample_paragraphs: cleanList(profile.sample_paragraphs),
+    avoid_words: cleanList(profile.avoid_words),
+    greeting: profile.greeting?.trim() || null,
+    sign_off: profile.sign_off?.trim() || null,
+    max_length: profile.max_length,
+  };
+}
+
+/**
+ * Валидация настроек профиля перед сохранением
+ *
+ * @param settings - настройки после getLetterProfileSettings
+ * @returns объект с результатом валидации и списком ошибок
+ */
+export function validateLetterProfileSettings(settings: unknown): { isValid: boolean; errors: string[] } {
+  const result = validateJsonSchema(settings, LETTER_PROFILE_SCHEMA);
+
+  return {
+    isValid: result.isValid,
+    errors: result.errors.map(error => `${error.label || error.path || '/'}: ${error.message}`),
+  };
+}
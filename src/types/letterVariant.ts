@@ -0,0 +1,129 @@
+/**
+ * Типы для вариантов сопроводительного письма
+ *
+ * Несколько вариантов генерируются параллельно (разные стили или длины)
+ * и хранятся вместе с генерацией в колонке generations.letter_variants_json.
+ * Текст основного варианта дублируется в generations.cover_letter_text
+ */
+
+import { LetterLength, LetterStyle } from '../lib/aiGateway';
+import { LetterProfile } from './letterProfile';
+import { getCurrentLocale, Locale, MessageKey, translate } from '../lib/i18n';
+import { validateJsonSchema } from '../../supabase/functions/_shared/jsonSchema.ts';
+import { LETTER_VARIANTS_SCHEMA } from '../../supabase/functions/_shared/generationSchemas.ts';
+
+// ============================================================================
+// ОСНОВНЫЕ ТИПЫ
+// ============================================================================
+
+/**
+ * Вариант сопроводительного письма
+ */
+export interface LetterVariant {
+  id: string;
+  /** Стиль письма; null у варианта, собранного из абзацев других вариантов */
+  style: LetterStyle | null;
+  /** Длина письма; null у сборного варианта */
+  length: LetterLength | null;
+  letter_text: string;
+  /** Основной вариант - его текст уходит в cover_letter_text */
+  is_primary: boolean;
+  /** Профиль голоса вместо пресета стиля (style у такого варианта - neutral) */
+  profile_id?: string | null;
+  /** Название профиля на момент генерации - профиль могут переименовать или удалить */
+  profile_name?: string | null;
+}
+
+/**
+ * Настройки генерации одного варианта
+ */
+export interface LetterVariantConfig {
+  style: LetterStyle;
+  length: LetterLength;
+  /** Профиль голоса вместо пресета стиля */
+  profile?: LetterProfile | null;
+}
+
+// ============================================================================
+// КОНСТАНТЫ
+// ============================================================================
+
+/** Сколько вариантов можно сгенерировать за один раз */
+export const MIN_LETTER_VARIANTS = 2;
+export const MAX_LETTER_VARIANTS = 4;
+
+/** Сколько вариантов хранится с генерацией (вместе со сборными) */
+export const MAX_STORED_LETTER_VARIANTS = LETTER_VARIANTS_SCHEMA.maxItems;
+
+/**
+ * Ключи названий стилей письма в каталогах локализации
+ */
+export const LETTER_STYLE_TITLE_KEYS: Record<LetterStyle, MessageKey> = {
+  neutral: 'letterStyle.neutral',
+  creative: 'letterStyle.creative',
+  startup: 'letterStyle.startup',
+  formal: 'letterStyle.formal',
+};
+
+/**
+ * Ключи названий длин письма
+ */
+export const LETTER_LENGTH_TITLE_KEYS: Record<LetterLength, MessageKey> = {
+  short: 'letterLength.short',
+  medium: 'letterLength.medium',
+  long: 'letterLength.long',
+};
+
+/**
+ * JSON Schema вариантов письма
+ * Объявлена в supabase/functions/_shared, чтобы save-generation проверял данные той же схемой
+ */
+export { LETTER_VARIANTS_SCHEMA };
+
+// ============================================================================
+// УТИЛИТНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Название варианта для заголовка колонки
+ */
+export function getLetterVariantTitle(variant: LetterVariant, locale: Locale = getCurrentLocale()): string {
+  if (!variant.style || !variant.length) {
+    return translate('letterVariant.merged', undefined, locale);
+  }
+  const style = variant.profile_name || translate(LETTER_STYLE_TITLE_KEYS[variant.style], undefined, locale);
+  const length = translate(LETTER_LENGTH_TITLE_KEYS[variant.length], undefined, locale);
+  return `${style}, ${length.toLowerCase()}`;
+}
+
+/**
+ * Основной вариант (или null, если варианты не хранились)
+ */
+export function getPrimaryLetterVariant(variants: LetterVariant[] | null | undefined): LetterVariant | null {
+  return variants?.find(variant => variant.is_primary) ?? null;
+}
+
+/**
+ * Валидация вариантов письма по схеме
+ *
+ * Дополнительно проверяет, что основной вариант ровно один
+ */
+export function validateLetterVariants(
+  data: unknown,
+  locale: Locale = getCurrentLocale()
+): { isValid: boolean; errors: string[] } {
+  const result = validateJsonSchema(data, LETTER_VARIANTS_SCHEMA);
+  const errors = result.errors.map(error => `${error.path || '/'}: ${error.message}`);
+
+  if (result.isValid) {
+    const primaryCount = (data as LetterVariant[]).filter(variant => variant.is_primary).length;
+    if (primaryCount !== 1) {
+      errors.push(translate('data.primaryVariantCount', { count: primaryCount }, locale));
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
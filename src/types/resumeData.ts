@@ -7,98 +7,25 @@
  * Версия схемы: 1.0
  */
 
+import { JsonSchema, validateJsonSchema, validateWithSchema } from '../../supabase/functions/_shared/jsonSchema.ts';
+import {
+  Education,
+  PersonalInfo,
+  RESUME_DATA_SCHEMA,
+  ResumeData,
+  Skills,
+  WorkExperience
+} from '../../supabase/functions/_shared/resumeDataSchema.ts';
+
 // ============================================================================
 // TYPESCRIPT ТИПЫ
 // ============================================================================
 
 /**
- * Персональная информация кандидата
- */
-export interface PersonalInfo {
-  /** Имя кандидата (обязательно) */
-  first_name: string;
-  /** Фамилия кандидата (обязательно) */
-  last_name: string;
-  /** Основной email (обязательно) */
-  email: string;
-  /** Контактный телефон (обязательно) */
-  phone: string;
-  /** Персональный сайт или портфолио */
-  website?: string;
-  /** Местоположение */
-  location?: {
-    city?: string;
-    country?: string;
-  };
-  /** Идентификатор в Telegram */
-  telegram_id?: string;
-}
-
-/**
- * Навыки кандидата
+ * Типы данных резюме
+ * Объявлены в supabase/functions/_shared рядом со схемой, чтобы Edge Functions использовали те же типы
  */
-export interface Skills {
-  /** Технические/профессиональные навыки (обязательно) */
-  hard_skills: string[];
-  /** Гибкие навыки (обязательно) */
-  soft_skills: string[];
-  /** Владение языками (обязательно) */
-  languages: string[];
-}
-
-/**
- * Образование и курсы
- */
-export interface Education {
-  /** Учебное заведение (обязательно) */
-  institution: string;
-  /** Полученная степень/квалификация */
-  degree?: string;
-  /** Год окончания */
-  graduation_year?: string;
-  /** Специализация */
-  field_of_study?: string;
-  /** Дополнительная информация */
-  additional_info?: string;
-}
-
-/**
- * Опыт работы
- */
-export interface WorkExperience {
-  /** Занимаемая должность (обязательно) */
-  position: string;
-  /** Название компании (обязательно) */
-  company: string;
-  /** Список обязанностей и достижений (обязательно) */
-  bullet_list: string[];
-  /** Дата начала работы (ММ/ГГГГ) */
-  start_date?: string;
-  /** Дата окончания (ММ/ГГГГ или 'настоящее время') */
-  end_date?: string;
-  /** Отрасль компании */
-  industry?: string;
-}
-
-/**
- * Полная структура данных резюме
- */
-export interface ResumeData {
-  /** Персональная информация кандидата */
-  personal_info: PersonalInfo;
-  /** Навыки кандидата */
-  skills: Skills;
-  /** Образование и курсы */
-  education: Education[];
-  /** Опыт работы */
-  experience: WorkExperience[];
-  /** Краткое описание кандидата и карьерных целей */
-  summary: string;
-  /** Желаемая должность, указанная кандидатом */
-  desired_position: string;
-  /** Список из 8 похожих должностей для поиска вакансий */
-  similar_positions: string[];
-}
+export type { Education, PersonalInfo, ResumeData, Skills, WorkExperience };
 
 // ============================================================================
 // JSON SCHEMA ДЛЯ ВАЛИДАЦИИ
@@ -106,165 +33,37 @@ export interface ResumeData {
 
 /**
  * JSON Schema для валидации данных резюме
- * Соответствует API эндпоинту file-upload/resume
+ * Объявлена в supabase/functions/_shared, чтобы Edge Functions проверяли данные той же схемой
+ */
+export { RESUME_DATA_SCHEMA };
+
+/**
+ * Схема для проверки резюме, отредактированного пользователем
+ *
+ * Поля, которые заполняются в форме редактирования, не могут быть пустыми.
+ * similar_positions и дополнительные поля от парсера не проверяются - форма их не меняет.
  */
-export const RESUME_DATA_SCHEMA = {
+export const RESUME_EDIT_SCHEMA = {
   type: "object",
   properties: {
     personal_info: {
-      type: "object",
-      required: ["first_name", "last_name", "email", "phone"],
-      description: "Персональная информация кандидата",
+      ...RESUME_DATA_SCHEMA.properties.personal_info,
       properties: {
-        first_name: {
-          type: "string",
-          description: "Имя кандидата"
-        },
-        last_name: {
-          type: "string", 
-          description: "Фамилия кандидата"
-        },
-        email: {
-          type: "string",
-          format: "email",
-          description: "Основной email"
-        },
-        phone: {
-          type: "string",
-          description: "Контактный телефон"
-        },
-        website: {
-          type: "string",
-          description: "Персональный сайт или портфолио"
-        },
-        location: {
-          type: "object",
-          description: "Местоположение",
-          properties: {
-            city: { type: "string" },
-            country: { type: "string" }
-          }
-        },
-        telegram_id: {
-          type: "string",
-          description: "Идентификатор в Telegram"
-        }
-      }
-    },
-    skills: {
-      type: "object",
-      required: ["hard_skills", "soft_skills", "languages"],
-      description: "Навыки кандидата",
-      properties: {
-        hard_skills: {
-          type: "array",
-          items: { type: "string" },
-          description: "Технические/профессиональные навыки"
-        },
-        soft_skills: {
-          type: "array",
-          items: { type: "string" },
-          description: "Гибкие навыки"
-        },
-        languages: {
-          type: "array",
-          items: { type: "string" },
-          description: "Владение языками"
-        }
-      }
-    },
-    education: {
-      type: "array",
-      description: "Образование и курсы",
-      items: {
-        type: "object",
-        required: ["institution"],
-        properties: {
-          institution: {
-            type: "string",
-            description: "Учебное заведение"
-          },
-          degree: {
-            type: "string",
-            description: "Полученная степень/квалификация"
-          },
-          graduation_year: {
-            type: "string",
-            description: "Год окончания"
-          },
-          field_of_study: {
-            type: "string",
-            description: "Специализация"
-          },
-          additional_info: {
-            type: "string",
-            description: "Дополнительная информация"
-          }
-        }
-      }
-    },
-    experience: {
-      type: "array",
-      description: "Опыт работы",
-      items: {
-        type: "object",
-        required: ["position", "company", "bullet_list"],
-        properties: {
-          position: {
-            type: "string",
-            description: "Занимаемая должность"
-          },
-          company: {
-            type: "string",
-            description: "Название компании"
-          },
-          bullet_list: {
-            type: "array",
-            items: { type: "string" },
-            description: "Список обязанностей и достижений"
-          },
-          start_date: {
-            type: "string",
-            description: "Дата начала работы (ММ/ГГГГ)"
-          },
-          end_date: {
-            type: "string",
-            description: "Дата окончания (ММ/ГГГГ или 'настоящее время')"
-          },
-          industry: {
-            type: "string",
-            description: "Отрасль компании"
-          }
-        }
+        ...RESUME_DATA_SCHEMA.properties.personal_info.properties,
+        first_name: { type: "string", pattern: "\\S", description: "Имя" },
+        last_name: { type: "string", pattern: "\\S", description: "Фамилия" },
+        email: { type: "string", format: "email", description: "Email" },
+        phone: { type: "string", pattern: "\\S", description: "Телефон" }
       }
     },
-    summary: {
-      type: "string",
-      description: "Краткое описание кандидата и карьерных целей"
-    },
-    desired_position: {
-      type: "string",
-      description: "Желаемая должность, указанная кандидатом"
-    },
-    similar_positions: {
-      type: "array",
-      items: { type: "string" },
-      minItems: 8,
-      maxItems: 8,
-      description: "Список из 8 похожих должностей для поиска вакансий"
-    }
+    skills: RESUME_DATA_SCHEMA.properties.skills,
+    education: RESUME_DATA_SCHEMA.properties.education,
+    experience: RESUME_DATA_SCHEMA.properties.experience,
+    summary: { type: "string", pattern: "\\S", description: "Краткое описание" },
+    desired_position: { type: "string", pattern: "\\S", description: "Желаемая позиция" }
   },
-  required: [
-    "personal_info", 
-    "skills", 
-    "education", 
-    "experience", 
-    "summary", 
-    "desired_position", 
-    "similar_positions"
-  ],
-  additionalProperties: false
-} as const;
+  required: ["personal_info", "summary", "desired_position"]
+} as const satisfies JsonSchema;
 
 // ============================================================================
 // УТИЛИТНЫЕ ФУНКЦИИ
@@ -274,152 +73,30 @@ export const RESUME_DATA_SCHEMA = {
  * Типогард для проверки, что объект является ResumeData
  * 
  * @param data - объект для проверки
- * @returns true если объект соответствует интерфейсу ResumeData
+ * @returns true если объект соответствует RESUME_DATA_SCHEMA
  */
-export function isResumeData(data: any): data is ResumeData {
-  return (
-    typeof data === 'object' &&
-    data !== null &&
-    
-    // Проверка personal_info
-    typeof data.personal_info === 'object' &&
-    typeof data.personal_info.first_name === 'string' &&
-    typeof data.personal_info.last_name === 'string' &&
-    typeof data.personal_info.email === 'string' &&
-    typeof data.personal_info.phone === 'string' &&
-    
-    // Проверка skills
-    typeof data.skills === 'object' &&
-    Array.isArray(data.skills.hard_skills) &&
-    Array.isArray(data.skills.soft_skills) &&
-    Array.isArray(data.skills.languages) &&
-    
-    // Проверка массивов
-    Array.isArray(data.education) &&
-    Array.isArray(data.experience) &&
-    Array.isArray(data.similar_positions) &&
-    
-    // Проверка строковых полей
-    typeof data.summary === 'string' &&
-    typeof data.desired_position === 'string' &&
-    
-    // Проверка длины similar_positions
-    data.similar_positions.length === 8
-  );
+export function isResumeData(data: unknown): data is ResumeData {
+  return validateJsonSchema(data, RESUME_DATA_SCHEMA).isValid;
 }
 
 /**
  * Валидация данных резюме с подробной информацией об ошибках
  * 
  * @param data - данные для валидации
- * @returns объект с результатом валидации и списком ошибок
+ * @returns объект с результатом валидации и списком ошибок (с путями JSON Pointer)
  */
-export function validateResumeData(data: any): { isValid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  // Проверка, что data является объектом
-  if (typeof data !== 'object' || data === null) {
-    errors.push('Данные резюме должны быть объектом');
-    return { isValid: false, errors };
-  }
-
-  // Проверка обязательных полей верхнего уровня
-  const requiredTopFields = [
-    'personal_info', 'skills', 'education', 'experience', 
-    'summary', 'desired_position', 'similar_positions'
-  ];
-  
-  for (const field of requiredTopFields) {
-    if (!data[field]) {
-      errors.push(`Отсутствует обязательное поле: ${field}`);
-    }
-  }
-
-  // Проверка personal_info
-  if (data.personal_info) {
-    const requiredPersonalFields = ['first_name', 'last_name', 'email', 'phone'];
-    for (const field of requiredPersonalFields) {
-      if (!data.personal_info[field] || typeof data.personal_info[field] !== 'string') {
-        errors.push(`Отсутствует или некорректное поле в personal_info: ${field}`);
-      }
-    }
-  }
-
-  // Проверка skills
-  if (data.skills) {
-    const requiredSkillsFields = ['hard_skills', 'soft_skills', 'languages'];
-    for (const field of requiredSkillsFields) {
-      if (!data.skills[field] || !Array.isArray(data.skills[field])) {
-        errors.push(`Отсутствует или некорректное поле в skills: ${field} (должен быть массивом)`);
-      }
-    }
-  }
-
-  // Проверка массивов
-  if (data.education && !Array.isArray(data.education)) {
-    errors.push('Поле education должно быть массивом');
-  }
-  
-  if (data.experience && !Array.isArray(data.experience)) {
-    errors.push('Поле experience должно быть массивом');
-  }
-  
-  if (data.similar_positions) {
-    if (!Array.isArray(data.similar_positions)) {
-      errors.push('Поле similar_positions должно быть массивом');
-    } else if (data.similar_positions.length !== 8) {
-      errors.push(`Поле similar_positions должно содержать ровно 8 элементов, получено: ${data.similar_positions.length}`);
-    }
-  }
-
-  // Проверка строковых полей
-  if (data.summary && typeof data.summary !== 'string') {
-    errors.push('Поле summary должно быть строкой');
-  }
-  
-  if (data.desired_position && typeof data.desired_position !== 'string') {
-    errors.push('Поле desired_position должно быть строкой');
-  }
-
-  // Детальная проверка experience
-  if (Array.isArray(data.experience)) {
-    data.experience.forEach((exp: any, index: number) => {
-      if (typeof exp !== 'object' || exp === null) {
-        errors.push(`Элемент опыта работы №${index + 1} должен быть объектом`);
-        return;
-      }
-      
-      const requiredExpFields = ['position', 'company', 'bullet_list'];
-      for (const field of requiredExpFields) {
-        if (!exp[field]) {
-          errors.push(`Отсутствует обязательное поле "${field}" в опыте работы №${index + 1}`);
-        }
-      }
-      
-      if (exp.bullet_list && !Array.isArray(exp.bullet_list)) {
-        errors.push(`Поле bullet_list в опыте работы №${index + 1} должно быть массивом`);
-      }
-    });
-  }
-
-  // Детальная проверка education
-  if (Array.isArray(data.education)) {
-    data.education.forEach((edu: any, index: number) => {
-      if (typeof edu !== 'object' || edu === null) {
-        errors.push(`Элемент образования №${index + 1} должен быть объектом`);
-        return;
-      }
-      
-      if (!edu.institution || typeof edu.institution !== 'string') {
-        errors.push(`Отсутствует или некорректное поле "institution" в образовании №${index + 1}`);
-      }
-    });
-  }
+export function validateResumeData(data: unknown): { isValid: boolean; errors: string[] } {
+  return validateWithSchema(data, RESUME_DATA_SCHEMA);
+}
 
-  return {
-    isValid: errors.length === 0,
-    errors
-  };
+/**
+ * Валидация резюме после редактирования пользователем
+ * 
+ * @param data - отредактированные данные
+ * @returns объект с результатом валидации и списком ошибок
+ */
+export function validateResumeEditData(data: unknown): { isValid: boolean; errors: string[] } {
+  return validateWithSchema(data, RESUME_EDIT_SCHEMA);
 }
 
 /**
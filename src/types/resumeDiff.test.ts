@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest';
+import { diffBullets, diffExperience, diffResumeData } from './resumeDiff';
+import { ResumeData, WorkExperience } from './resumeData';
+
+/**
+ * Тесты сравнения версий резюме: добавленные, удаленные,
+ * измененные и неизмененные элементы
+ */
+
+const baseResume: ResumeData = {
+  personal_info: {
+    first_name: 'Анна',
+    last_name: 'Смирнова',
+    email: 'anna@example.com',
+    phone: '+7 900 000-00-00',
+    location: { city: 'Казань', country: 'Россия' },
+  },
+  skills: {
+    hard_skills: ['TypeScript', 'React'],
+    soft_skills: ['Коммуникация'],
+    languages: ['Английский B2'],
+  },
+  education: [{ institution: 'КФУ', degree: 'Бакалавр', graduation_year: '2018' }],
+  experience: [
+    {
+      position: 'Frontend-разработчик',
+      company: 'Яндекс',
+      start_date: '03/2020',
+      end_date: 'настоящее время',
+      bullet_list: ['Разработала дизайн-систему', 'Ускорила сборку в 2 раза'],
+    },
+    {
+      position: 'Junior-разработчик',
+      company: 'Авито',
+      start_date: '07/2018',
+      end_date: '02/2020',
+      bullet_list: ['Верстала лендинги'],
+    },
+  ],
+  summary: 'Frontend-разработчик с опытом 6 лет',
+  desired_position: 'Senior Frontend-разработчик',
+  similar_positions: [],
+};
+
+const cloneResume = (): ResumeData => structuredClone(baseResume);
+
+const job = (changes: Partial<WorkExperience>): WorkExperience => ({
+  position: 'Разработчик',
+  company: 'Компания',
+  bullet_list: [],
+  ...changes,
+});
+
+describe('diffBullets', () => {
+  it('совпадающие пункты помечаются как неизмененные (без учета пробелов по краям)', () => {
+    expect(diffBullets(['Первый', 'Второй'], ['Первый', '  Второй '])).toEqual([
+      { type: 'unchanged', before: 'Первый', after: 'Первый' },
+      { type: 'unchanged', before: 'Второй', after: '  Второй ' },
+    ]);
+  });
+
+  it('находит добавленные и удаленные пункты', () => {
+    expect(diffBullets(['Первый', 'Второй'], ['Первый', 'Второй', 'Третий'])).toEqual([
+      { type: 'unchanged', before: 'Первый', after: 'Первый' },
+      { type: 'unchanged', before: 'Второй', after: 'Второй' },
+      { type: 'added', after: 'Третий' },
+    ]);
+    expect(diffBullets(['Первый', 'Второй'], ['Второй'])).toEqual([
+      { type: 'removed', before: 'Первый' },
+      { type: 'unchanged', before: 'Второй', after: 'Второй' },
+    ]);
+  });
+
+  it('подряд идущие удаление и добавление считаются изменением с пословным diff', () => {
+    expect(diffBullets(['Ускорила сборку в 2 раза'], ['Ускорила сборку в 3 раза'])).toEqual([
+      {
+        type: 'changed',
+        before: 'Ускорила сборку в 2 раза',
+        after: 'Ускорила сборку в 3 раза',
+        segments: [
+          { type: 'equal', text: 'Ускорила сборку в ' },
+          { type: 'removed', text: '2' },
+          { type: 'added', text: '3' },
+          { type: 'equal', text: ' раза' },
+        ],
+      },
+    ]);
+  });
+
+  it('лишние удаления и добавления блока остаются удаленными и добавленными', () => {
+    const changes = diffBullets(['A', 'B', 'C'], ['A', 'X']);
+
+    expect(changes.map(change => change.type)).toEqual(['unchanged', 'changed', 'removed']);
+    expect(changes[1]).toMatchObject({ before: 'B', after: 'X' });
+    expect(changes[2]).toEqual({ type: 'removed', before: 'C' });
+  });
+
+  it('без пунктов возвращает пустой список', () => {
+    expect(diffBullets()).toEqual([]);
+    expect(diffBullets([], [])).toEqual([]);
+  });
+});
+
+describe('diffExperience', () => {
+  it('неизмененные места работы не попадают в результат', () => {
+    expect(diffExperience(baseResume.experience, cloneResume().experience)).toEqual([]);
+  });
+
+  it('находит добавленное место работы со всеми пунктами', () => {
+    const added = job({ position: 'Стажер', company: 'Сбер', bullet_list: ['Писала тесты'] });
+
+    expect(diffExperience([], [added])).toEqual([
+      { type: 'added', title: 'Стажер, Сбер', after: added, fields: [], bullets: [{ type: 'added', after: 'Писала тесты' }] },
+    ]);
+  });
+
+  it('находит удаленное место работы', () => {
+    const removed = job({ position: 'Стажер', company: 'Сбер' });
+
+    expect(diffExperience([removed], [])).toEqual([
+      { type: 'removed', title: 'Стажер, Сбер', before: removed, fields: [], bullets: [] },
+    ]);
+  });
+
+  it('сопоставляет места работы без учета регистра и сообщает измененные поля и пункты', () => {
+    const before = job({ position: 'Разработчик', company: 'Яндекс', end_date: '01/2024', bullet_list: ['Делала фичи'] });
+    const after = job({ position: 'разработчик', company: 'ЯНДЕКС', end_date: '06/2024', bullet_list: ['Делала фичи', 'Менторила'] });
+
+    const [change, ...rest] = diffExperience([before], [after]);
+
+    expect(rest).toEqual([]);
+    expect(change.type).toBe('changed');
+    expect(change.title).toBe('разработчик, ЯНДЕКС');
+    expect(change.fields.map(({ path, before, after }) => ({ path, before, after }))).toEqual([
+      { path: 'position', before: 'Разработчик', after: 'разработчик' },
+      { path: 'company', before: 'Яндекс', after: 'ЯНДЕКС' },
+      { path: 'end_date', before: '01/2024', after: '06/2024' },
+    ]);
+    expect(change.bullets).toEqual([
+      { type: 'unchanged', before: 'Делала фичи', after: 'Делала фичи' },
+      { type: 'added', after: 'Менторила' },
+    ]);
+  });
+
+  it('при смене должности сопоставляет место работы по компании', () => {
+    const before = job({ position: 'Middle-разработчик', company: 'Яндекс' });
+    const after = job({ position: 'Senior-разработчик', company: 'Яндекс' });
+
+    const changes = diffExperience([before], [after]);
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].type).toBe('changed');
+    expect(changes[0].fields.map(field => field.path)).toEqual(['position']);
+  });
+});
+
+describe('diffResumeData', () => {
+  it('одинаковые версии не содержат изменений', () => {
+    const diff = diffResumeData(baseResume, cloneResume());
+
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.personal_info).toEqual([]);
+    expect(diff.profile).toEqual([]);
+    expect(diff.skills).toEqual({
+      hard_skills: { added: [], removed: [] },
+      soft_skills: { added: [], removed: [] },
+      languages: { added: [], removed: [] },
+    });
+    expect(diff.experience).toEqual([]);
+    expect(diff.education).toEqual({ added: [], removed: [] });
+  });
+
+  it('находит измененные, добавленные и удаленные поля персональной информации', () => {
+    const after = cloneResume();
+    after.personal_info.email = 'anna.smirnova@example.com';
+    after.personal_info.website = 'https://anna.dev';
+    after.personal_info.location = { city: 'Казань' };
+
+    const diff = diffResumeData(baseResume, after);
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.personal_info.map(({ path, before, after }) => ({ path, before, after }))).toEqual([
+      { path: 'personal_info.email', before: 'anna@example.com', after: 'anna.smirnova@example.com' },
+      { path: 'personal_info.website', before: '', after: 'https://anna.dev' },
+      { path: 'personal_info.location.country', before: 'Россия', after: '' },
+    ]);
+  });
+
+  it('находит изменения желаемой должности и summary, игнорируя пробелы по краям', () => {
+    const after = cloneResume();
+    after.desired_position = 'Lead Frontend-разработчик';
+    after.summary = `  ${baseResume.summary}  `;
+
+    const diff = diffResumeData(baseResume, after);
+
+    expect(diff.profile.map(field => field.path)).toEqual(['desired_position']);
+    expect(diff.profile[0]).toMatchObject({ before: 'Senior Frontend-разработчик', after: 'Lead Frontend-разработчик' });
+  });
+
+  it('сравнивает навыки и образование без учета регистра и порядка', () => {
+    const after = cloneResume();
+    after.skills.hard_skills = ['react', 'Vue', 'TypeScript'];
+    after.skills.soft_skills = [];
+    after.education = [...baseResume.education, { institution: 'Яндекс Практикум', graduation_year: '2021' }];
+
+    const diff = diffResumeData(baseResume, after);
+
+    expect(diff.skills.hard_skills).toEqual({ added: ['Vue'], removed: [] });
+    expect(diff.skills.soft_skills).toEqual({ added: [], removed: ['Коммуникация'] });
+    expect(diff.skills.languages).toEqual({ added: [], removed: [] });
+    expect(diff.education).toEqual({ added: ['Яндекс Практикум, 2021'], removed: [] });
+    expect(diff.hasChanges).toBe(true);
+  });
+
+  it('включает изменения опыта работы', () => {
+    const after = cloneResume();
+    after.experience = [after.experience[0]];
+    after.experience[0].bullet_list[1] = 'Ускорила сборку в 3 раза';
+
+    const diff = diffResumeData(baseResume, after);
+
+    expect(diff.hasChanges).toBe(true);
+    expect(diff.experience.map(change => [change.type, change.title])).toEqual([
+      ['changed', 'Frontend-разработчик, Яндекс'],
+      ['removed', 'Junior-разработчик, Авито'],
+    ]);
+    expect(diff.experience[0].bullets.map(bullet => bullet.type)).toEqual(['unchanged', 'changed']);
+  });
+});
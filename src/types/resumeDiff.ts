@@ -0,0 +1,364 @@
+/**
+ * Сравнение двух версий резюме по полям
+ *
+ * Используется в истории версий резюме:
+ * - персональная информация, желаемая должность и summary - изменения полей
+ * - навыки и языки - добавленные и удаленные элементы
+ * - опыт работы - добавленные, удаленные и измененные места работы
+ * - пункты bullet_list - построчное сравнение с пословным diff измененных пунктов
+ */
+
+import { Education, ResumeData, WorkExperience } from './resumeData';
+import { MessageKey } from '../lib/i18n';
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/**
+ * Изменение скалярного поля
+ */
+export interface FieldChange {
+  /** Путь поля, например "personal_info.email" */
+  path: string;
+  /** Ключ названия поля для отображения */
+  labelKey: MessageKey;
+  before: string;
+  after: string;
+}
+
+/**
+ * Изменения списка строк (навыки, языки)
+ */
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Фрагмент пословного сравнения текста
+ */
+export interface TextDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Изменение пункта bullet_list
+ */
+export interface BulletChange {
+  type: 'unchanged' | 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+  /** Пословный diff для измененного пункта */
+  segments?: TextDiffSegment[];
+}
+
+/**
+ * Изменение места работы
+ */
+export interface ExperienceChange {
+  type: 'added' | 'removed' | 'changed';
+  /** Подпись для отображения: "Должность, Компания" */
+  title: string;
+  before?: WorkExperience;
+  after?: WorkExperience;
+  /** Изменения полей (должность, компания, даты, отрасль) */
+  fields: FieldChange[];
+  /** Изменения пунктов bullet_list */
+  bullets: BulletChange[];
+}
+
+/**
+ * Полный результат сравнения двух версий резюме
+ */
+export interface ResumeDiff {
+  personal_info: FieldChange[];
+  /** Желаемая должность и summary */
+  profile: FieldChange[];
+  skills: {
+    hard_skills: ListDiff;
+    soft_skills: ListDiff;
+    languages: ListDiff;
+  };
+  experience: ExperienceChange[];
+  education: ListDiff;
+  /** Есть ли хотя бы одно изменение */
+  hasChanges: boolean;
+}
+
+// ============================================================================
+// АЛГОРИТМ СРАВНЕНИЯ ПОСЛЕДОВАТЕЛЬНОСТЕЙ
+// ============================================================================
+
+type SequenceOp<T> =
+  | { type: 'equal'; before: T; after: T }
+  | { type: 'removed'; before: T }
+  | { type: 'added'; after: T };
+
+/**
+ * Сравнение последовательностей через наибольшую общую подпоследовательность (LCS)
+ *
+ * @returns операции в порядке следования: удаления идут перед добавлениями
+ */
+export function diffSequence<T>(
+  before: T[],
+  after: T[],
+  equals: (a: T, b: T) => boolean = (a, b) => a === b
+): SequenceOp<T>[] {
+  const n = before.length;
+  const m = after.length;
+
+  // lcs[i][j] - длина LCS для before[i..] и after[j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = equals(before[i], after[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: SequenceOp<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (equals(before[i], after[j])) {
+      ops.push({ type: 'equal', before: before[i], after: after[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', before: before[i] });
+      i++;
+    } else {
+      ops.push({ type: 'added', after: after[j] });
+      j++;
+    }
+  }
+  while (i < n) ops.push({ type: 'removed', before: before[i++] });
+  while (j < m) ops.push({ type: 'added', after: after[j++] });
+
+  return ops;
+}
+
+/**
+ * Пословное сравнение двух строк (пробелы сохраняются)
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const tokenize = (text: string) => text.split(/(\s+)/).filter(token => token.length > 0);
+  const segments: TextDiffSegment[] = [];
+
+  for (const op of diffSequence(tokenize(before), tokenize(after))) {
+    const type = op.type;
+    const text = op.type === 'added' ? op.after : op.before;
+    const last = segments[segments.length - 1];
+
+    // Склеиваем соседние фрагменты одного типа
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  }
+
+  return segments;
+}
+
+// ============================================================================
+// СРАВНЕНИЕ РАЗДЕЛОВ РЕЗЮМЕ
+// ============================================================================
+
+const normalize = (value: string | undefined | null) => (value ?? '').trim().toLowerCase();
+
+/**
+ * Сравнение списков строк без учета регистра и порядка
+ */
+export function diffList(before: string[] = [], after: string[] = []): ListDiff {
+  const beforeSet = new Set(before.map(normalize));
+  const afterSet = new Set(after.map(normalize));
+
+  return {
+    added: after.filter(item => !beforeSet.has(normalize(item))),
+    removed: before.filter(item => !afterSet.has(normalize(item))),
+  };
+}
+
+/**
+ * Сравнение набора скалярных полей
+ */
+function diffFields<T>(
+  before: T | undefined,
+  after: T | undefined,
+  fields: { key: string; labelKey: MessageKey; get: (value: T) => string | undefined }[],
+  prefix: string
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of fields) {
+    const oldValue = (before ? field.get(before) : undefined) ?? '';
+    const newValue = (after ? field.get(after) : undefined) ?? '';
+    if (oldValue.trim() !== newValue.trim()) {
+      changes.push({ path: `${prefix}${field.key}`, labelKey: field.labelKey, before: oldValue, after: newValue });
+    }
+  }
+
+  return changes;
+}
+
+const PERSONAL_INFO_FIELDS: { key: string; labelKey: MessageKey; get: (value: ResumeData['personal_info']) => string | undefined }[] = [
+  { key: 'first_name', labelKey: 'resumeDiff.field.firstName', get: info => info.first_name },
+  { key: 'last_name', labelKey: 'resumeDiff.field.lastName', get: info => info.last_name },
+  { key: 'email', labelKey: 'resumeDiff.field.email', get: info => info.email },
+  { key: 'phone', labelKey: 'resumeDiff.field.phone', get: info => info.phone },
+  { key: 'website', labelKey: 'resumeDiff.field.website', get: info => info.website },
+  { key: 'location.city', labelKey: 'resumeDiff.field.city', get: info => info.location?.city },
+  { key: 'location.country', labelKey: 'resumeDiff.field.country', get: info => info.location?.country },
+  { key: 'telegram_id', labelKey: 'resumeDiff.field.telegram', get: info => info.telegram_id },
+];
+
+const PROFILE_FIELDS: { key: string; labelKey: MessageKey; get: (value: ResumeData) => string | undefined }[] = [
+  { key: 'desired_position', labelKey: 'resumeDiff.field.desiredPosition', get: resume => resume.desired_position },
+  { key: 'summary', labelKey: 'resumeDiff.field.summary', get: resume => resume.summary },
+];
+
+const EXPERIENCE_FIELDS: { key: string; labelKey: MessageKey; get: (value: WorkExperience) => string | undefined }[] = [
+  { key: 'position', labelKey: 'resumeDiff.field.position', get: job => job.position },
+  { key: 'company', labelKey: 'resumeDiff.field.company', get: job => job.company },
+  { key: 'start_date', labelKey: 'resumeDiff.field.startDate', get: job => job.start_date },
+  { key: 'end_date', labelKey: 'resumeDiff.field.endDate', get: job => job.end_date },
+  { key: 'industry', labelKey: 'resumeDiff.field.industry', get: job => job.industry },
+];
+
+/**
+ * Сравнение пунктов bullet_list
+ *
+ * Подряд идущие удаленные и добавленные пункты попарно считаются измененными
+ */
+export function diffBullets(before: string[] = [], after: string[] = []): BulletChange[] {
+  const ops = diffSequence(before, after, (a, b) => a.trim() === b.trim());
+  const changes: BulletChange[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    const op = ops[index];
+    if (op.type === 'equal') {
+      changes.push({ type: 'unchanged', before: op.before, after: op.after });
+      index++;
+      continue;
+    }
+
+    // Собираем блок удалений и следующих за ним добавлений
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < ops.length && ops[index].type === 'removed') {
+      removed.push((ops[index] as { before: string }).before);
+      index++;
+    }
+    while (index < ops.length && ops[index].type === 'added') {
+      added.push((ops[index] as { after: string }).after);
+      index++;
+    }
+
+    const pairs = Math.min(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      changes.push({ type: 'changed', before: removed[k], after: added[k], segments: diffText(removed[k], added[k]) });
+    }
+    removed.slice(pairs).forEach(text => changes.push({ type: 'removed', before: text }));
+    added.slice(pairs).forEach(text => changes.push({ type: 'added', after: text }));
+  }
+
+  return changes;
+}
+
+const experienceKey = (job: WorkExperience) => `${normalize(job.company)}|${normalize(job.position)}`;
+const experienceTitle = (job: WorkExperience) => [job.position, job.company].filter(Boolean).join(', ');
+
+/**
+ * Сравнение опыта работы
+ *
+ * Места работы сопоставляются по паре "компания + должность",
+ * оставшиеся - по компании (например, если изменилось название должности)
+ */
+export function diffExperience(before: WorkExperience[] = [], after: WorkExperience[] = []): ExperienceChange[] {
+  const unmatchedAfter = new Set(after.map((_, index) => index));
+  const pairs: { before: WorkExperience; after?: WorkExperience }[] = [];
+
+  const findMatch = (job: WorkExperience, key: (value: WorkExperience) => string) => {
+    for (const index of unmatchedAfter) {
+      if (key(after[index]) === key(job)) {
+        unmatchedAfter.delete(index);
+        return after[index];
+      }
+    }
+    return undefined;
+  };
+
+  for (const job of before) {
+    pairs.push({ before: job, after: findMatch(job, experienceKey) });
+  }
+  for (const pair of pairs) {
+    if (!pair.after) pair.after = findMatch(pair.before, job => normalize(job.company));
+  }
+
+  const changes: ExperienceChange[] = [];
+
+  for (const pair of pairs) {
+    if (!pair.after) {
+      changes.push({ type: 'removed', title: experienceTitle(pair.before), before: pair.before, fields: [], bullets: [] });
+      continue;
+    }
+
+    const fields = diffFields(pair.before, pair.after, EXPERIENCE_FIELDS, '');
+    const bullets = diffBullets(pair.before.bullet_list, pair.after.bullet_list);
+    if (fields.length > 0 || bullets.some(bullet => bullet.type !== 'unchanged')) {
+      changes.push({ type: 'changed', title: experienceTitle(pair.after), before: pair.before, after: pair.after, fields, bullets });
+    }
+  }
+
+  for (const index of unmatchedAfter) {
+    changes.push({
+      type: 'added',
+      title: experienceTitle(after[index]),
+      after: after[index],
+      fields: [],
+      bullets: after[index].bullet_list.map(text => ({ type: 'added' as const, after: text })),
+    });
+  }
+
+  return changes;
+}
+
+const educationLabel = (edu: Education) => [edu.institution, edu.degree, edu.graduation_year].filter(Boolean).join(', ');
+
+/**
+ * Сравнение двух версий резюме
+ *
+ * @param before - старая версия
+ * @param after - новая версия
+ */
+export function diffResumeData(before: ResumeData, after: ResumeData): ResumeDiff {
+  const diff: ResumeDiff = {
+    personal_info: diffFields(before.personal_info, after.personal_info, PERSONAL_INFO_FIELDS, 'personal_info.'),
+    profile: diffFields(before, after, PROFILE_FIELDS, ''),
+    skills: {
+      hard_skills: diffList(before.skills?.hard_skills, after.skills?.hard_skills),
+      soft_skills: diffList(before.skills?.soft_skills, after.skills?.soft_skills),
+      languages: diffList(before.skills?.languages, after.skills?.languages),
+    },
+    experience: diffExperience(before.experience, after.experience),
+    education: diffList((before.education ?? []).map(educationLabel), (after.education ?? []).map(educationLabel)),
+    hasChanges: false,
+  };
+
+  const listChanged = (list: ListDiff) => list.added.length > 0 || list.removed.length > 0;
+  diff.hasChanges =
+    diff.personal_info.length > 0 ||
+    diff.profile.length > 0 ||
+    listChanged(diff.skills.hard_skills) ||
+    listChanged(diff.skills.soft_skills) ||
+    listChanged(diff.skills.languages) ||
+    diff.experience.length > 0 ||
+    listChanged(diff.education);
+
+  return diff;
+}
@@ -0,0 +1,67 @@
+/**
+ * Типы для сохраненных версий резюме
+ *
+ * Соответствует схеме таблицы resumes в Supabase
+ */
+
+import { ResumeData } from './resumeData';
+
+/**
+ * Сохраненная версия резюме из базы данных
+ */
+export interface SavedResume {
+  /** Уникальный идентификатор версии */
+  id: string;
+  /** ID пользователя из auth.users */
+  user_id: string;
+  /** Путь к исходному файлу в bucket resumes (user_id/filename) */
+  file_path: string | null;
+  /** Исходное имя файла */
+  file_name: string | null;
+  /** Распарсенные данные резюме */
+  resume_data_json: ResumeData;
+  /** Название версии */
+  version_label: string;
+  /** Резюме по умолчанию для новых генераций */
+  is_default: boolean;
+  /** Дата и время создания */
+  created_at: string;
+}
+
+/**
+ * Сохраненная правка резюме из истории изменений
+ *
+ * Соответствует схеме таблицы resume_versions в Supabase
+ */
+export interface ResumeVersion {
+  /** Уникальный идентификатор правки */
+  id: string;
+  /** ID резюме из таблицы resumes */
+  resume_id: string;
+  /** ID пользователя из auth.users */
+  user_id: string;
+  /** Данные резюме на момент сохранения */
+  resume_data_json: ResumeData;
+  /** ID правки, из которой восстановлены данные */
+  restored_from: string | null;
+  /** Дата и время сохранения */
+  created_at: string;
+}
+
+/**
+ * Данные для сохранения новой версии резюме
+ */
+export interface CreateSavedResumeData {
+  file_path?: string | null;
+  file_name?: string | null;
+  resume_data: ResumeData;
+  version_label: string;
+  is_default?: boolean;
+}
+
+/**
+ * Название версии по умолчанию, например "Резюме от 19 октября 2026 г."
+ */
+export function getDefaultVersionLabel(date: Date = new Date()): string {
+  return `Резюме от ${date.toLocaleDateString('ru-RU', { year: 'numeric', month: 'long', day: 'numeric' })}`;
+}
@@ -0,0 +1,114 @@
+/**
+ * Типы для адаптированного под вакансию резюме
+ *
+ * Адаптированное резюме хранится вместе с генерацией
+ * в колонке generations.tailored_resume_json
+ */
+
+import { ResumeData } from './resumeData';
+import { getCurrentLocale, Locale, MessageKey, translate } from '../lib/i18n';
+
+// ============================================================================
+// СЕКЦИИ И ШАБЛОНЫ
+// ============================================================================
+
+/**
+ * Секции резюме, которые можно закрепить или скрыть
+ */
+export type ResumeSectionId = 'summary' | 'experience' | 'skills' | 'education' | 'languages';
+
+/**
+ * Шаблоны PDF для адаптированного резюме
+ */
+export type ResumeTemplateId = 'classic' | 'modern' | 'compact';
+
+/**
+ * Секции резюме в порядке по умолчанию
+ */
+export const RESUME_SECTIONS: { id: ResumeSectionId; titleKey: MessageKey }[] = [
+  { id: 'summary', titleKey: 'resumeSection.summary' },
+  { id: 'experience', titleKey: 'resumeSection.experience' },
+  { id: 'skills', titleKey: 'resumeSection.skills' },
+  { id: 'education', titleKey: 'resumeSection.education' },
+  { id: 'languages', titleKey: 'resumeSection.languages' },
+];
+
+/**
+ * Доступные шаблоны PDF
+ */
+export const RESUME_TEMPLATES: { id: ResumeTemplateId; titleKey: MessageKey; descriptionKey: MessageKey }[] = [
+  { id: 'classic', titleKey: 'resumeTemplate.classic', descriptionKey: 'resumeTemplate.classicDescription' },
+  { id: 'modern', titleKey: 'resumeTemplate.modern', descriptionKey: 'resumeTemplate.modernDescription' },
+  { id: 'compact', titleKey: 'resumeTemplate.compact', descriptionKey: 'resumeTemplate.compactDescription' },
+];
+
+// ============================================================================
+// ОСНОВНЫЕ ТИПЫ
+// ============================================================================
+
+/**
+ * Пользовательские настройки адаптации
+ */
+export interface TailoringSettings {
+  /** Выбранный шаблон PDF */
+  template: ResumeTemplateId;
+  /** Секции, которые выводятся первыми */
+  pinned_sections: ResumeSectionId[];
+  /** Секции, которые не выводятся */
+  hidden_sections: ResumeSectionId[];
+}
+
+/**
+ * Адаптированное резюме
+ */
+export interface TailoredResume {
+  /** Резюме с переупорядоченными пунктами опыта и навыками */
+  resume_data: ResumeData;
+  /** Ключевые слова вакансии, найденные в резюме */
+  matched_keywords: string[];
+  /** Настройки, с которыми было собрано резюме */
+  settings: TailoringSettings;
+  /** Дата адаптации (ISO) */
+  tailored_at: string;
+}
+
+// ============================================================================
+// УТИЛИТНЫЕ ФУНКЦИИ
+// ============================================================================
+
+/**
+ * Порядок вывода секций: сначала закрепленные, затем остальные, без скрытых
+ */
+export function getVisibleSections(settings: TailoringSettings): ResumeSectionId[] {
+  const defaultOrder = RESUME_SECTIONS.map(section => section.id);
+  const pinned = defaultOrder.filter(id => settings.pinned_sections.includes(id));
+  const rest = defaultOrder.filter(id => !settings.pinned_sections.includes(id));
+
+  return [...pinned, ...rest].filter(id => !settings.hidden_sections.includes(id));
+}
+
+/**
+ * Название секции для отображения
+ */
+export function getSectionTitle(sectionId: ResumeSectionId, locale: Locale = getCurrentLocale()): string {
+  const section = RESUME_SECTIONS.find(item => item.id === sectionId);
+  return section ? translate(section.titleKey, undefined, locale) : sectionId;
+}
+
+/**
+ * Типогард для проверки, что объект является TailoredResume
+ */
+export function isTailoredResume(data: unknown): data is TailoredResume {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'resume_data' in data &&
+    typeof data.resume_data === 'object' &&
+    data.resume_data !== null &&
+    'matched_keywords' in data &&
+    Array.isArray(data.matched_keywords) &&
+    'settings' in data &&
+    typeof data.settings === 'object' &&
+    data.settings !== null
+  );
+}
@@ -0,0 +1,464 @@
+import { createClient, User } from 'npm:@supabase/supabase-js@2';
+import {
+  DEFAULT_SERVER_LOCALE,
+  getRequestLocale,
+  ServerLocale,
+  ServerMessageKey,
+  ServerMessageParams,
+  translateServerMessage,
+} from './serverMessages.ts';
+import { validateJsonSchema } from './jsonSchema.ts';
+import { RESUME_DATA_SCHEMA } from './resumeDataSchema.ts';
+
+/**
+ * Общая логика серверных прокси для этапов AI пайплайна
+ * (parse-resume, analyze-vacancy, score-match, generate-letter, interview-questions, rewrite-fragment)
+ * и служебных запросов: перевод резюме из generate-letter, follow-up письмо из send-reminders
+ *
+ * Логика работы прокси:
+ * 1. Проверяет JWT токен пользователя (как save-generation)
+ * 2. Подставляет реальный user.id вместо присланного клиентом
+ * 3. Пересылает запрос на upstream из AI_UPSTREAM_URL
+ * 4. Проверяет ответ upstream по форме ResumeData / JobData / ScoringResults
+ * 5. Возвращает нормализованный ответ
+ *
+ * Секреты upstream (AI_UPSTREAM_URL, AI_UPSTREAM_API_KEY) остаются на сервере
+ */
+
+// CORS заголовки для поддержки браузерных запросов
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+/**
+ * Этапы пайплайна и пути upstream
+ */
+export type AiStage =
+  | 'parse-resume'
+  | 'analyze-vacancy'
+  | 'score-match'
+  | 'generate-letter'
+  | 'interview-questions'
+  | 'rewrite-fragment'
+  | 'translate-resume'
+  | 'follow-up-letter';
+
+const UPSTREAM_PATHS: Record<AiStage, string> = {
+  'parse-resume': '/first-resume-upload',
+  'analyze-vacancy': '/second-vacancy-upload',
+  'score-match': '/fouth-scoring',
+  'generate-letter': '/third-cv-generation',
+  'interview-questions': '/fifth-interview-questions',
+  'rewrite-fragment': '/seventh-fragment-rewrite',
+  'translate-resume': '/eighth-resume-translation',
+  'follow-up-letter': '/sixth-follow-up-letter',
+};
+
+const UPSTREAM_TIMEOUTS: Record<AiStage, number> = {
+  'parse-resume': 120000,
+  'analyze-vacancy': 60000,
+  'score-match': 90000,
+  'generate-letter': 90000,
+  'interview-questions': 90000,
+  'rewrite-fragment': 60000,
+  'translate-resume': 90000,
+  'follow-up-letter': 90000,
+};
+
+/**
+ * JSON ответ с CORS заголовками
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Ошибка, которая должна вернуться клиенту с конкретным статусом
+ * messageKey - общая ошибка из каталога serverMessages, переводится на язык запроса
+ */
+export class ProxyError extends Error {
+  readonly status: number;
+  readonly details?: unknown;
+  readonly messageKey?: ServerMessageKey;
+  readonly messageParams?: ServerMessageParams;
+
+  constructor(
+    status: number,
+    message: string,
+    details?: unknown,
+    messageKey?: ServerMessageKey,
+    messageParams?: ServerMessageParams
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+    this.details = details;
+    this.messageKey = messageKey;
+    this.messageParams = messageParams;
+  }
+
+  getLocalizedMessage(locale: ServerLocale): string {
+    return this.messageKey ? translateServerMessage(this.messageKey, locale, this.messageParams) : this.message;
+  }
+}
+
+/**
+ * Общая ошибка из каталога; message остается русским для логов
+ */
+export function serverError(
+  status: number,
+  key: ServerMessageKey,
+  params?: ServerMessageParams,
+  details?: unknown
+): ProxyError {
+  return new ProxyError(status, translateServerMessage(key, DEFAULT_SERVER_LOCALE, params), details, key, params);
+}
+
+/**
+ * Получение пользователя из JWT токена
+ */
+async function authenticate(req: Request): Promise<User> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error('Отсутствуют переменные окружения Supabase');
+    throw serverError(500, 'server.misconfigured');
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    throw serverError(401, 'auth.missingToken');
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+  const { data: { user }, error: userError } = await supabase.auth.getUser(
+    authHeader.replace('Bearer ', '')
+  );
+
+  if (userError || !user) {
+    console.error('Ошибка получения пользователя:', userError);
+    throw serverError(401, 'auth.invalidToken');
+  }
+
+  return user;
+}
+
+/**
+ * Пересылка запроса на upstream с таймаутом
+ * Используется прокси-обработчиками и серверными задачами без пользовательского JWT
+ */
+export async function callUpstream(stage: AiStage, body: BodyInit, contentType?: string): Promise<unknown> {
+  const upstreamUrl = Deno.env.get('AI_UPSTREAM_URL');
+  if (!upstreamUrl) {
+    console.error('AI_UPSTREAM_URL не установлен в переменных окружения');
+    throw serverError(500, 'server.misconfigured');
+  }
+
+  const headers: Record<string, string> = { 'Accept': 'application/json' };
+  if (contentType) headers['Content-Type'] = contentType;
+
+  const apiKey = Deno.env.get('AI_UPSTREAM_API_KEY');
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUTS[stage]);
+
+  try {
+    const response = await fetch(`${upstreamUrl.replace(/\/+$/, '')}${UPSTREAM_PATHS[stage]}`, {
+      method: 'POST',
+      headers,
+      body,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Ошибка upstream (${stage}):`, response.status, errorText);
+      throw serverError(502, 'upstream.error', undefined, { upstream_status: response.status });
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw serverError(502, 'upstream.invalidJson');
+    }
+  } catch (error) {
+    if (error instanceof ProxyError) throw error;
+    if (controller.signal.aborted) {
+      throw serverError(504, 'upstream.timeout');
+    }
+    console.error(`Сетевая ошибка upstream (${stage}):`, error);
+    throw serverError(502, 'upstream.unreachable');
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Описание одного прокси-эндпоинта
+ */
+export interface AiProxyConfig<T> {
+  stage: AiStage;
+  /**
+   * Формирует тело запроса к upstream с реальным user.id
+   * finalize дополняет нормализованный ответ данными, полученными до запроса
+   */
+  buildUpstreamRequest: (req: Request, user: User) => Promise<{
+    body: BodyInit;
+    contentType?: string;
+    finalize?: (data: T) => T;
+  }>;
+  /** Проверяет и нормализует ответ upstream, выбрасывает ProxyError при несоответствии схеме */
+  normalize: (data: unknown) => T;
+}
+
+/**
+ * Создание обработчика Deno.serve для этапа пайплайна
+ */
+export function createAiProxyHandler<T>(config: AiProxyConfig<T>) {
+  return async (req: Request): Promise<Response> => {
+    // Обработка CORS preflight запросов
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    const locale = getRequestLocale(req);
+
+    // Проверка метода запроса
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: translateServerMessage('request.methodNotAllowed', locale) }, 405);
+    }
+
+    try {
+      const user = await authenticate(req);
+      const { body, contentType, finalize } = await config.buildUpstreamRequest(req, user);
+
+      console.log(`🤖 ${config.stage}: запрос пользователя`, user.id);
+      const upstreamData = await callUpstream(config.stage, body, contentType);
+
+      const normalized = config.normalize(upstreamData);
+
+      return jsonResponse(finalize ? finalize(normalized) : normalized);
+    } catch (error) {
+      if (error instanceof ProxyError) {
+        return jsonResponse({ error: error.getLocalizedMessage(locale), details: error.details }, error.status);
+      }
+
+      console.error(`Неожиданная ошибка в ${config.stage} function:`, error);
+      return jsonResponse({
+        error: translateServerMessage('server.internalError', locale),
+        message: translateServerMessage('server.retryLater', locale)
+      }, 500);
+    }
+  };
+}
+
+/**
+ * Чтение JSON тела запроса клиента
+ */
+export async function readJsonBody(req: Request): Promise<Record<string, unknown>> {
+  try {
+    const data = await req.json();
+    if (isObject(data)) return data;
+  } catch {
+    // Обрабатывается ниже
+  }
+  throw serverError(400, 'request.invalidJson');
+}
+
+// ============================================================================
+// ПРОВЕРКА ФОРМЫ ОТВЕТОВ UPSTREAM
+// ============================================================================
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function invalidUpstream(errors: string[]): ProxyError {
+  console.error('Ответ upstream не соответствует схеме:', errors);
+  return serverError(502, 'upstream.invalidShape', undefined, errors);
+}
+
+/**
+ * Проверка ResumeData по RESUME_DATA_SCHEMA
+ * Та же схема проверяется при сохранении резюме и генерации, поэтому распарсенное
+ * резюме, не прошедшее ее, отклоняется сразу, а не при сохранении генерации
+ */
+export function normalizeResumeData(data: unknown): Record<string, unknown> {
+  if (!isObject(data)) {
+    throw invalidUpstream(['Данные резюме должны быть объектом']);
+  }
+
+  const errors = validateJsonSchema(data, RESUME_DATA_SCHEMA).errors
+    .map(error => `${error.path}: ${error.message}`);
+  if (errors.length > 0) throw invalidUpstream(errors);
+
+  return data;
+}
+
+/**
+ * Нормализация JobData
+ * Upstream может вернуть данные как на верхнем уровне, так и внутри job_data
+ */
+export function normalizeJobData(rawData: unknown): Record<string, unknown> {
+  const source = isObject(rawData) && isObject(rawData.job_data) ? rawData.job_data : rawData;
+  if (!isObject(source)) {
+    throw invalidUpstream(['Данные вакансии должны быть объектом']);
+  }
+
+  const skills = isObject(source.skills) ? source.skills : {};
+  const title = typeof source.job_title === 'string' ? source.job_title
+    : typeof source.title === 'string' ? source.title : '';
+  const hardSkills = Array.isArray(skills.hard_skills)
+    ? toStringArray(skills.hard_skills)
+    : toStringArray(source.required_skills);
+
+  return {
+    job_title: title,
+    title,
+    company_name: typeof source.company_name === 'string' ? source.company_name : '',
+    location: isObject(source.location) ? source.location : {},
+    employment_type: typeof source.employment_type === 'string' ? source.employment_type : '',
+    experience_level: typeof source.experience_level === 'string' ? source.experience_level : '',
+    industry: typeof source.industry === 'string' ? source.industry : '',
+    description: typeof source.description === 'string' ? source.description : '',
+    skills: {
+      hard_skills: hardSkills,
+      soft_skills: toStringArray(skills.soft_skills),
+      languages: toStringArray(skills.languages),
+    },
+    required_skills: hardSkills,
+  };
+}
+
+/**
+ * Проверка формы ScoringResults
+ */
+export function normalizeScoringResults(data: unknown): Record<string, unknown> {
+  if (!isObject(data) || !isObject(data.scoring_result)) {
+    throw invalidUpstream(['Ответ не содержит scoring_result']);
+  }
+
+  const result = data.scoring_result;
+  const errors: string[] = [];
+
+  const checkScore = (path: string, value: unknown) => {
+    if (typeof value !== 'number' || value < 0 || value > 100) {
+      errors.push(`${path} должно быть числом от 0 до 100`);
+    }
+  };
+
+  checkScore('scoring_result.total_score', result.total_score);
+
+  for (const field of ['recommendation', 'recruiter_recommendation', 'candidate_recommendation']) {
+    if (typeof result[field] !== 'string') {
+      errors.push(`scoring_result.${field} должно быть строкой`);
+    }
+  }
+
+  const breakdown = result.breakdown;
+  if (!isObject(breakdown)) {
+    errors.push('scoring_result.breakdown должно быть объектом');
+  } else {
+    for (const key of ['hard_skills', 'soft_skills', 'experience_match', 'position_match']) {
+      const item = breakdown[key];
+      if (!isObject(item)) {
+        errors.push(`scoring_result.breakdown.${key} отсутствует`);
+        continue;
+      }
+      checkScore(`scoring_result.breakdown.${key}.score`, item.score);
+      if (typeof item.summary !== 'string' || typeof item.description !== 'string') {
+        errors.push(`scoring_result.breakdown.${key} должно содержать summary и description`);
+      }
+    }
+  }
+
+  if (errors.length > 0) throw invalidUpstream(errors);
+
+  return { scoring_result: result };
+}
+
+/**
+ * Извлечение текста письма
+ * Разные версии upstream возвращают текст под разными ключами
+ */
+export function normalizeLetter(data: unknown): { letter_text: string } {
+  const source = isObject(data) ? data : {};
+  const letter = [source.letter_text, source.cover_letter, source.letter]
+    .find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+
+  if (!letter) {
+    throw invalidUpstream(['Ответ не содержит текста письма']);
+  }
+
+  return { letter_text: letter };
+}
+
+/**
+ * Переписанный фрагмент письма
+ */
+export function normalizeFragment(data: unknown): { fragment_text: string } {
+  const source = isObject(data) ? data : {};
+  const fragment = [source.fragment_text, source.text]
+    .find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+
+  if (!fragment) {
+    throw invalidUpstream(['Ответ не содержит текста фрагмента']);
+  }
+
+  return { fragment_text: fragment };
+}
+
+/**
+ * Ответ interview-questions; weak_areas и generated_at добавляет сама функция
+ */
+export interface InterviewQuestionsResponse {
+  questions: Record<string, unknown>[];
+  weak_areas?: string[];
+  generated_at?: string;
+}
+
+const INTERVIEW_QUESTION_CATEGORIES = ['technical', 'behavioral', 'experience', 'motivation'];
+export const SCORING_BREAKDOWN_KEYS = ['hard_skills', 'soft_skills', 'experience_match', 'position_match'];
+
+/**
+ * Проверка формы вопросов к собеседованию
+ *
+ * Вопросы без текста отбрасываются; неизвестный тип вопроса и критерий
+ * заменяются на experience / experience_match. Ссылки на опыт остаются
+ * индексами - их разрешает interview-questions по резюме из запроса.
+ */
+export function normalizeInterviewQuestions(data: unknown): InterviewQuestionsResponse {
+  const source = isObject(data) ? data.questions : undefined;
+  if (!Array.isArray(source)) {
+    throw invalidUpstream(['Ответ не содержит массива questions']);
+  }
+
+  const questions = source
+    .filter((item): item is Record<string, unknown> =>
+      isObject(item) && typeof item.question === 'string' && item.question.trim().length > 0)
+    .map(item => ({
+      question: (item.question as string).trim(),
+      category: INTERVIEW_QUESTION_CATEGORIES.includes(item.category as string) ? item.category : 'experience',
+      focus_area: SCORING_BREAKDOWN_KEYS.includes(item.focus_area as string) ? item.focus_area : 'experience_match',
+      why_asked: typeof item.why_asked === 'string' ? item.why_asked : '',
+      answer_outline: toStringArray(item.answer_outline),
+      experience_refs: Array.isArray(item.experience_refs) ? item.experience_refs.filter(isObject) : [],
+    }));
+
+  if (questions.length === 0) {
+    throw invalidUpstream(['Ответ не содержит ни одного вопроса']);
+  }
+
+  return { questions };
+}
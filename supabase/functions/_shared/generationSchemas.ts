@@ -0,0 +1,273 @@
+import { JsonSchema } from './jsonSchema.ts';
+
+/**
+ * Схемы данных вакансии (JobData) и результатов скорринга (ScoringResults)
+ *
+ * Общие для фронтенда (src/types/generation.ts) и Edge Functions
+ */
+
+const SKILL_LIST_SCHEMA = {
+  type: "array",
+  items: { type: "string" }
+} as const satisfies JsonSchema;
+
+/**
+ * JSON Schema для валидации данных вакансии
+ * Соответствует ответу этапа analyze-vacancy после normalizeJobData
+ */
+export const JOB_DATA_SCHEMA = {
+  type: "object",
+  properties: {
+    job_title: {
+      type: "string",
+      description: "Название должности"
+    },
+    title: {
+      type: "string",
+      description: "Название должности (дублирует job_title)"
+    },
+    company_name: {
+      type: "string",
+      description: "Название компании"
+    },
+    location: {
+      type: "object",
+      description: "Местоположение",
+      properties: {
+        city: { type: "string" },
+        country: { type: "string" }
+      }
+    },
+    employment_type: {
+      type: "string",
+      description: "Тип занятости"
+    },
+    experience_level: {
+      type: "string",
+      description: "Требуемый уровень опыта"
+    },
+    industry: {
+      type: "string",
+      description: "Отрасль компании"
+    },
+    description: {
+      type: "string",
+      description: "Описание вакансии"
+    },
+    skills: {
+      type: "object",
+      required: ["hard_skills", "soft_skills", "languages"],
+      description: "Требуемые навыки",
+      properties: {
+        hard_skills: { ...SKILL_LIST_SCHEMA, description: "Технические/профессиональные навыки" },
+        soft_skills: { ...SKILL_LIST_SCHEMA, description: "Гибкие навыки" },
+        languages: { ...SKILL_LIST_SCHEMA, description: "Владение языками" }
+      }
+    },
+    required_skills: {
+      ...SKILL_LIST_SCHEMA,
+      description: "Требуемые навыки (устаревшее поле, дублирует skills.hard_skills)"
+    },
+    salary: {
+      type: "object",
+      required: ["from", "to", "currency"],
+      description: "Зарплатная вилка",
+      properties: {
+        from: { type: ["number", "null"], minimum: 0, description: "Нижняя граница" },
+        to: { type: ["number", "null"], minimum: 0, description: "Верхняя граница" },
+        currency: { type: "string", pattern: "^[A-Z]{3}$", description: "Код валюты ISO 4217" },
+        gross: { type: "boolean", description: "Сумма до вычета налогов" }
+      }
+    },
+    source: {
+      type: "object",
+      required: ["type"],
+      description: "Источник данных вакансии",
+      properties: {
+        type: { type: "string", enum: ["url", "text", "file"] },
+        url: { type: "string" },
+        vacancy_key: { type: "string", description: "Ключ вакансии для дедупликации (\"hh:123456\")" },
+        file_name: { type: "string" }
+      }
+    }
+  },
+  required: ["job_title", "company_name"]
+} as const satisfies JsonSchema;
+
+const SCORE_SCHEMA = {
+  type: "number",
+  minimum: 0,
+  maximum: 100
+} as const satisfies JsonSchema;
+
+const BREAKDOWN_ITEM_SCHEMA = {
+  type: "object",
+  required: ["score", "summary", "description"],
+  properties: {
+    score: { ...SCORE_SCHEMA, description: "Балл по критерию (0-100)" },
+    summary: { type: "string", description: "Краткий итог по критерию" },
+    description: { type: "string", description: "Подробное описание по критерию" }
+  }
+} as const satisfies JsonSchema;
+
+/**
+ * JSON Schema для валидации результатов скорринга
+ * Соответствует ответу этапа score-match
+ */
+export const SCORING_RESULTS_SCHEMA = {
+  type: "object",
+  properties: {
+    scoring_result: {
+      type: "object",
+      description: "Результат скорринга",
+      properties: {
+        total_score: { ...SCORE_SCHEMA, description: "Общий балл (0-100)" },
+        breakdown: {
+          type: "object",
+          required: ["hard_skills", "soft_skills", "experience_match", "position_match"],
+          description: "Баллы по критериям",
+          properties: {
+            hard_skills: { ...BREAKDOWN_ITEM_SCHEMA, description: "Hard skills" },
+            soft_skills: { ...BREAKDOWN_ITEM_SCHEMA, description: "Soft skills" },
+            experience_match: { ...BREAKDOWN_ITEM_SCHEMA, description: "Соответствие опыта" },
+            position_match: { ...BREAKDOWN_ITEM_SCHEMA, description: "Соответствие должности" }
+          }
+        },
+        recommendation: {
+          type: "string",
+          description: "Общая рекомендация"
+        },
+        recruiter_recommendation: {
+          type: "string",
+          description: "Рекомендация для рекрутера"
+        },
+        candidate_recommendation: {
+          type: "string",
+          description: "Рекомендация для кандидата"
+        }
+      },
+      required: [
+        "total_score",
+        "breakdown",
+        "recommendation",
+        "recruiter_recommendation",
+        "candidate_recommendation"
+      ]
+    }
+  },
+  required: ["scoring_result"]
+} as const satisfies JsonSchema;
+
+const BREAKDOWN_KEYS = ["hard_skills", "soft_skills", "experience_match", "position_match"] as const;
+
+/**
+ * JSON Schema для подготовки к собеседованию
+ * Соответствует ответу этапа interview-questions
+ */
+export const INTERVIEW_PREP_SCHEMA = {
+  type: "object",
+  properties: {
+    questions: {
+      type: "array",
+      minItems: 1,
+      description: "Вероятные вопросы на собеседовании",
+      items: {
+        type: "object",
+        required: ["question", "category", "focus_area", "why_asked", "answer_outline", "experience_refs"],
+        properties: {
+          question: { type: "string", minLength: 1, description: "Текст вопроса" },
+          category: {
+            type: "string",
+            enum: ["technical", "behavioral", "experience", "motivation"],
+            description: "Тип вопроса"
+          },
+          focus_area: {
+            type: "string",
+            enum: BREAKDOWN_KEYS,
+            description: "Критерий скорринга, который проверяет вопрос"
+          },
+          why_asked: { type: "string", description: "Почему работодатель задаст этот вопрос" },
+          answer_outline: {
+            type: "array",
+            items: { type: "string" },
+            description: "План ответа по пунктам"
+          },
+          experience_refs: {
+            type: "array",
+            description: "Пункты опыта из резюме, на которые стоит опереться в ответе",
+            items: {
+              type: "object",
+              required: ["experience_index", "bullet_index", "company", "position", "bullet"],
+              properties: {
+                experience_index: { type: "integer", minimum: 0, description: "Индекс в experience" },
+                bullet_index: { type: "integer", minimum: 0, description: "Индекс в experience[].bullet_list" },
+                company: { type: "string" },
+                position: { type: "string" },
+                bullet: { type: "string", description: "Текст пункта bullet_list" }
+              }
+            }
+          }
+        }
+      }
+    },
+    weak_areas: {
+      type: "array",
+      items: { type: "string", enum: BREAKDOWN_KEYS },
+      description: "Слабые критерии скорринга, на которых сфокусированы вопросы"
+    },
+    generated_at: { type: "string", format: "date-time", description: "Дата генерации" }
+  },
+  required: ["questions", "weak_areas", "generated_at"]
+} as const satisfies JsonSchema;
+
+/**
+ * JSON Schema вариантов сопроводительного письма
+ * Ровно один вариант отмечен основным - его текст хранится в cover_letter_text
+ */
+export const LETTER_VARIANTS_SCHEMA = {
+  type: "array",
+  minItems: 2,
+  maxItems: 8,
+  description: "Варианты письма, сгенерированные параллельно, и сборные варианты",
+  items: {
+    type: "object",
+    required: ["id", "style", "length", "letter_text", "is_primary"],
+    properties: {
+      id: { type: "string", minLength: 1, description: "Идентификатор варианта" },
+      style: {
+        type: ["string", "null"],
+        enum: ["neutral", "creative", "startup", "formal", null],
+        description: "Стиль письма; null у варианта, собранного из абзацев"
+      },
+      length: {
+        type: ["string", "null"],
+        enum: ["short", "medium", "long", null],
+        description: "Длина письма; null у варианта, собранного из абзацев"
+      },
+      letter_text: { type: "string", minLength: 1, description: "Текст варианта" },
+      is_primary: { type: "boolean", description: "Основной вариант генерации" },
+      profile_id: {
+        type: ["string", "null"],
+        description: "Профиль голоса из letter_profiles, с которым сгенерирован вариант"
+      },
+      profile_name: {
+        type: ["string", "null"],
+        description: "Название профиля на момент генерации"
+      }
+    }
+  }
+} as const satisfies JsonSchema;
+
+/**
+ * Вариант письма в generations.letter_variants_json (элемент LETTER_VARIANTS_SCHEMA)
+ * На фронтенде тот же вариант описывает LetterVariant из src/types/letterVariant.ts
+ */
+export interface StoredLetterVariant {
+  id: string;
+  style: "neutral" | "creative" | "startup" | "formal" | null;
+  length: "short" | "medium" | "long" | null;
+  letter_text: string;
+  is_primary: boolean;
+  profile_id?: string | null;
+  profile_name?: string | null;
+}
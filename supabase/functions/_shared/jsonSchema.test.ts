@@ -0,0 +1,118 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { formatSchemaError, JsonSchema, validateJsonSchema, validateWithSchema } from './jsonSchema.ts';
+import { RESUME_DATA_SCHEMA } from './resumeDataSchema.ts';
+
+/**
+ * Тесты минимального валидатора JSON Schema
+ *
+ * Запуск: deno test supabase/functions
+ */
+
+/** Пары [путь, ключевое слово] ошибок - для сравнения без текстов сообщений */
+const errorKeys = (value: unknown, schema: JsonSchema) =>
+  validateJsonSchema(value, schema).errors.map(error => [error.path, error.keyword]);
+
+const VALID_RESUME = {
+  personal_info: { first_name: 'Анна', last_name: 'Смирнова', email: 'anna@example.com', phone: '+7 900 000-00-00' },
+  skills: { hard_skills: ['React'], soft_skills: ['Коммуникация'], languages: ['Английский B2'] },
+  education: [{ institution: 'КФУ' }],
+  experience: [{ position: 'Frontend-разработчик', company: 'Яндекс', bullet_list: ['Разработка интерфейсов'] }],
+  summary: 'Frontend-разработчик',
+  desired_position: 'Senior Frontend-разработчик',
+  similar_positions: ['1', '2', '3', '4', '5', '6', '7', '8'],
+};
+
+Deno.test('type: одиночный тип, массив типов, integer и конечные числа', () => {
+  deepStrictEqual(errorKeys('a', { type: 'string' }), []);
+  deepStrictEqual(errorKeys(1, { type: 'string' }), [['', 'type']]);
+  deepStrictEqual(errorKeys(null, { type: ['string', 'null'] }), []);
+  deepStrictEqual(errorKeys(1.5, { type: 'integer' }), [['', 'type']]);
+  deepStrictEqual(errorKeys(Number.NaN, { type: 'number' }), [['', 'type']]);
+  deepStrictEqual(errorKeys([], { type: 'object' }), [['', 'type']]);
+  strictEqual(validateJsonSchema(1, { type: ['string', 'null'] }).errors[0].message, 'должно быть строкой или null');
+});
+
+Deno.test('значение неверного типа не проверяется остальными ключевыми словами', () => {
+  deepStrictEqual(errorKeys(5, { type: 'string', minLength: 3, enum: ['abc'] }), [['', 'type']]);
+});
+
+Deno.test('enum, строки, форматы и числа', () => {
+  deepStrictEqual(errorKeys('c', { enum: ['a', 'b'] }), [['', 'enum']]);
+  deepStrictEqual(errorKeys('', { type: 'string', minLength: 1 }), [['', 'minLength']]);
+  deepStrictEqual(errorKeys('abcd', { type: 'string', maxLength: 3 }), [['', 'maxLength']]);
+  deepStrictEqual(errorKeys('   ', { type: 'string', pattern: '\\S' }), [['', 'pattern']]);
+  deepStrictEqual(errorKeys('anna@example', { type: 'string', format: 'email' }), [['', 'format']]);
+  deepStrictEqual(errorKeys('2026-10-19T10:00:00Z', { type: 'string', format: 'date-time' }), []);
+  deepStrictEqual(errorKeys('2026-13-45T10:00:00Z', { type: 'string', format: 'date-time' }), [['', 'format']]);
+  deepStrictEqual(errorKeys('https://hh.ru/vacancy/1', { type: 'string', format: 'uri' }), []);
+  deepStrictEqual(errorKeys('что угодно', { type: 'string', format: 'hostname' }), []);
+  deepStrictEqual(errorKeys(-1, { type: 'number', minimum: 0, maximum: 100 }), [['', 'minimum']]);
+  deepStrictEqual(errorKeys(101, { type: 'number', minimum: 0, maximum: 100 }), [['', 'maximum']]);
+
+  strictEqual(validateJsonSchema('', { type: 'string', minLength: 1 }).errors[0].message, 'не может быть пустым');
+  strictEqual(validateJsonSchema('   ', { type: 'string', pattern: '\\S' }).errors[0].message, 'не может быть пустым');
+});
+
+Deno.test('массивы: количество элементов и проверка каждого элемента', () => {
+  const schema: JsonSchema = { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2 };
+
+  deepStrictEqual(errorKeys(['a', 'b'], schema), []);
+  deepStrictEqual(errorKeys(['a', 1], schema), [['/1', 'type']]);
+  strictEqual(validateJsonSchema(['a'], schema).errors[0].message, 'должно содержать ровно 2 элементов, получено: 1');
+  strictEqual(
+    validateJsonSchema([1, 2, 3], { type: 'array', maxItems: 2 }).errors[0].message,
+    'должно содержать не более 2 элементов, получено: 3'
+  );
+});
+
+Deno.test('объекты: required, additionalProperties и экранирование пути', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: { name: { type: 'string', description: 'Имя' } },
+    required: ['name'],
+    additionalProperties: false,
+  };
+
+  deepStrictEqual(errorKeys({ name: 'Анна' }, schema), []);
+  deepStrictEqual(errorKeys({}, schema), [['/name', 'required']]);
+  deepStrictEqual(errorKeys({ name: 'Анна', 'a/b~c': 1 }, schema), [['/a~1b~0c', 'additionalProperties']]);
+  deepStrictEqual(errorKeys({ name: 'Анна', extra: 1 }, { ...schema, additionalProperties: { type: 'string' } }), [['/extra', 'type']]);
+  deepStrictEqual(errorKeys({ name: 'Анна', extra: 1 }, { ...schema, additionalProperties: true }), []);
+  // Поле со значением undefined считается отсутствующим
+  deepStrictEqual(errorKeys({ name: undefined }, schema), [['/name', 'required']]);
+
+  strictEqual(validateJsonSchema({}, schema).errors[0].label, 'Имя');
+});
+
+Deno.test('formatSchemaError и validateWithSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: { email: { type: 'string', format: 'email', description: 'Email' } },
+  };
+
+  const [error] = validateJsonSchema({ email: 'anna' }, schema).errors;
+  strictEqual(formatSchemaError(error), 'Email (/email): должно быть корректным email адресом');
+  strictEqual(formatSchemaError({ path: '', keyword: 'type', message: 'должно быть объектом' }), '/: должно быть объектом');
+
+  deepStrictEqual(validateWithSchema({ email: 'anna' }, schema), {
+    isValid: false,
+    errors: ['Email (/email): должно быть корректным email адресом'],
+  });
+  deepStrictEqual(validateWithSchema({ email: 'anna@example.com' }, schema), { isValid: true, errors: [] });
+});
+
+Deno.test('RESUME_DATA_SCHEMA: ровно 8 похожих должностей и никаких лишних полей', () => {
+  deepStrictEqual(errorKeys(VALID_RESUME, RESUME_DATA_SCHEMA), []);
+  deepStrictEqual(
+    errorKeys({ ...VALID_RESUME, similar_positions: ['1'] }, RESUME_DATA_SCHEMA),
+    [['/similar_positions', 'minItems']]
+  );
+  deepStrictEqual(
+    errorKeys({ ...VALID_RESUME, photo_url: 'https://example.com/photo.png' }, RESUME_DATA_SCHEMA),
+    [['/photo_url', 'additionalProperties']]
+  );
+  deepStrictEqual(
+    errorKeys({ personal_info: VALID_RESUME.personal_info }, RESUME_DATA_SCHEMA).map(([path]) => path),
+    ['/skills', '/education', '/experience', '/summary', '/desired_position', '/similar_positions']
+  );
+});
@@ -0,0 +1,234 @@
+/**
+ * Минимальный валидатор JSON Schema (подмножество draft-07)
+ *
+ * Общий для фронтенда и Edge Functions: без зависимостей и API Deno/браузера.
+ *
+ * Поддерживаемые ключевые слова:
+ * - type (в том числе массив типов), enum
+ * - properties, required, additionalProperties (boolean или схема)
+ * - items, minItems, maxItems
+ * - minLength, maxLength, pattern, format (email, date-time, uri)
+ * - minimum, maximum
+ *
+ * Ошибки возвращаются с путем в формате JSON Pointer (RFC 6901)
+ * и сообщением на русском языке
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Описание схемы; поля readonly, чтобы подходили объявления `as const`
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  description?: string;
+  enum?: readonly unknown[];
+  properties?: { readonly [key: string]: JsonSchema };
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Ошибка валидации
+ */
+export interface SchemaValidationError {
+  /** JSON Pointer до значения, например "/personal_info/email" ("" - корень) */
+  path: string;
+  /** Ключевое слово схемы, которое не выполнено */
+  keyword: string;
+  /** Сообщение об ошибке */
+  message: string;
+  /** Описание поля из схемы (description), если есть */
+  label?: string;
+}
+
+export interface SchemaValidationResult {
+  isValid: boolean;
+  errors: SchemaValidationError[];
+}
+
+const TYPE_NAMES: Record<JsonSchemaType, string> = {
+  string: 'строкой',
+  number: 'числом',
+  integer: 'целым числом',
+  boolean: 'логическим значением',
+  object: 'объектом',
+  array: 'массивом',
+  null: 'null',
+};
+
+const FORMAT_CHECKS: Record<string, { test: (value: string) => boolean; name: string }> = {
+  email: { test: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value), name: 'email адресом' },
+  'date-time': {
+    test: value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value) && !Number.isNaN(Date.parse(value)),
+    name: 'датой и временем ISO 8601',
+  },
+  uri: { test: value => /^[a-z][a-z\d+.-]*:\/\/\S+$/i.test(value), name: 'URL' },
+};
+
+/**
+ * Экранирование сегмента пути по RFC 6901
+ */
+function escapePointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  const push = (keyword: string, message: string, at: string = path, label: string | undefined = schema.description) => {
+    errors.push({ path: at, keyword, message, ...(label ? { label } : {}) });
+  };
+
+  if (schema.type !== undefined) {
+    const types: readonly JsonSchemaType[] = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    if (!types.some(type => matchesType(value, type))) {
+      push('type', `должно быть ${types.map(type => TYPE_NAMES[type]).join(' или ')}`);
+      // Остальные проверки для значения неверного типа не имеют смысла
+      return;
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some(option => option === value)) {
+    push('enum', `должно быть одним из: ${schema.enum.map(option => String(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      push('minLength', schema.minLength === 1 ? 'не может быть пустым' : `должно содержать не менее ${schema.minLength} символов`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      push('maxLength', `должно содержать не более ${schema.maxLength} символов`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      push('pattern', value.trim().length === 0 ? 'не может быть пустым' : 'имеет неверный формат');
+    }
+    if (schema.format !== undefined) {
+      const check = FORMAT_CHECKS[schema.format];
+      // Неизвестные форматы игнорируются, как в draft-07
+      if (check && !check.test(value)) {
+        push('format', `должно быть корректным ${check.name}`);
+      }
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      push('minimum', `должно быть не меньше ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      push('maximum', `должно быть не больше ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      push('minItems', schema.minItems === schema.maxItems
+        ? `должно содержать ровно ${schema.minItems} элементов, получено: ${value.length}`
+        : `должно содержать не менее ${schema.minItems} элементов, получено: ${value.length}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      push('maxItems', schema.minItems === schema.maxItems
+        ? `должно содержать ровно ${schema.maxItems} элементов, получено: ${value.length}`
+        : `должно содержать не более ${schema.maxItems} элементов, получено: ${value.length}`);
+    }
+    if (schema.items !== undefined) {
+      const items = schema.items;
+      value.forEach((item, index) => validateNode(item, items, `${path}/${index}`, errors));
+    }
+  }
+
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        push('required', 'обязательное поле отсутствует', `${path}/${escapePointerSegment(key)}`, properties[key]?.description);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertyPath = `${path}/${escapePointerSegment(key)}`;
+      const propertySchema = properties[key];
+
+      if (propertySchema) {
+        if (propertyValue !== undefined) {
+          validateNode(propertyValue, propertySchema, propertyPath, errors);
+        }
+      } else if (schema.additionalProperties === false) {
+        push('additionalProperties', 'неизвестное поле', propertyPath, undefined);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, propertyPath, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Проверка значения по схеме
+ *
+ * @param value - проверяемое значение
+ * @param schema - JSON Schema
+ * @returns результат со всеми найденными ошибками
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): SchemaValidationResult {
+  const errors: SchemaValidationError[] = [];
+  validateNode(value, schema, '', errors);
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Текст ошибки для пользователя: "Основной email (/personal_info/email): должно быть корректным email адресом"
+ */
+export function formatSchemaError(error: SchemaValidationError): string {
+  const location = error.path || '/';
+  return error.label ? `${error.label} (${location}): ${error.message}` : `${location}: ${error.message}`;
+}
+
+/**
+ * Список текстов ошибок в формате { isValid, errors: string[] }, принятом в проекте
+ */
+export function validateWithSchema(value: unknown, schema: JsonSchema): { isValid: boolean; errors: string[] } {
+  const result = validateJsonSchema(value, schema);
+
+  return {
+    isValid: result.isValid,
+    errors: result.errors.map(formatSchemaError),
+  };
+}
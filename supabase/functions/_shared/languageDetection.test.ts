@@ -0,0 +1,62 @@
+import { strictEqual } from 'node:assert/strict';
+import { collectResumeText, detectTextLanguage, isLetterLanguage } from './languageDetection.ts';
+
+/**
+ * Тесты определения языка вакансии, резюме и письма
+ *
+ * Запуск: deno test supabase/functions
+ */
+
+Deno.test('detectTextLanguage: русский текст с английскими терминами остается русским', () => {
+  strictEqual(
+    detectTextLanguage('Ищем Frontend-разработчика: React, TypeScript, Redux Toolkit, REST API и CI/CD. Удаленная работа, ДМС.'),
+    'ru'
+  );
+});
+
+Deno.test('detectTextLanguage: английский текст', () => {
+  strictEqual(detectTextLanguage('We are looking for a Senior Backend Engineer with Go and PostgreSQL experience.'), 'en');
+  // Русское название компании в английском тексте не меняет язык
+  strictEqual(detectTextLanguage('Yandex (Яндекс) is hiring a Senior Backend Engineer to build our search platform.'), 'en');
+});
+
+Deno.test('detectTextLanguage: украинский и русский различаются по і ї є ґ и ы э ъ ё', () => {
+  strictEqual(detectTextLanguage('Шукаємо розробника, який має досвід роботи з React і готовий приєднатися до команди.'), 'uk');
+  strictEqual(detectTextLanguage('Мы ищем разработчика, который объединит команду и возьмет на себя архитектуру.'), 'ru');
+  // Без характерных букв кириллица считается русской
+  strictEqual(detectTextLanguage('Компания приглашает программиста на проект'), 'ru');
+});
+
+Deno.test('detectTextLanguage: казахский по буквам ә ғ қ ң ө ұ ү һ', () => {
+  strictEqual(detectTextLanguage('Біз тәжірибелі бағдарламашыны іздейміз, жұмыс кеңседе және қашықтан.'), 'kk');
+});
+
+Deno.test('detectTextLanguage: слишком короткий текст не определяется', () => {
+  strictEqual(detectTextLanguage(''), null);
+  strictEqual(detectTextLanguage('Python, SQL'), null);
+  strictEqual(detectTextLanguage('123 456 — !!!'), null);
+});
+
+Deno.test('collectResumeText: описание, должности и пункты опыта', () => {
+  const text = collectResumeText({
+    summary: 'Frontend-разработчик',
+    desired_position: 'Senior Frontend',
+    skills: { hard_skills: ['не учитывается'] },
+    experience: [
+      { position: 'Разработчик', company: 'Яндекс', bullet_list: ['Разработка интерфейсов', 42] },
+      null,
+      { position: 7 },
+    ],
+  });
+
+  strictEqual(text, 'Frontend-разработчик\nSenior Frontend\nРазработчик\nРазработка интерфейсов');
+  strictEqual(collectResumeText(null), '');
+  strictEqual(collectResumeText('резюме'), '');
+  strictEqual(collectResumeText({ experience: 'не массив' }), '');
+});
+
+Deno.test('isLetterLanguage', () => {
+  strictEqual(isLetterLanguage('kk'), true);
+  strictEqual(isLetterLanguage('de'), false);
+  strictEqual(isLetterLanguage(null), false);
+});
@@ -0,0 +1,81 @@
+/**
+ * Определение языка текста вакансии и резюме
+ *
+ * Общий для фронтенда и Edge Functions: без зависимостей и API Deno/браузера.
+ *
+ * Эвристика по алфавиту, без словарей:
+ * - кириллицы меньше CYRILLIC_MIN_RATIO букв - английский: русские и украинские
+ *   вакансии полны английских терминов (React, REST API), поэтому простого
+ *   большинства латиницы недостаточно
+ * - буквы ә ғ қ ң ө ұ ү һ встречаются только в казахском
+ * - буквы і ї є ґ без казахских букв - украинский, если их больше, чем ы э ъ ё
+ * - остальная кириллица - русский
+ */
+
+/**
+ * Языки, на которых генерируется письмо
+ */
+export const LETTER_LANGUAGES = ['en', 'ru', 'uk', 'kk'] as const;
+
+export type LetterLanguage = typeof LETTER_LANGUAGES[number];
+
+/** Меньше букв - язык не определяется */
+const MIN_LETTERS = 20;
+
+/** Доля кириллицы среди букв, с которой текст считается кириллическим */
+const CYRILLIC_MIN_RATIO = 0.3;
+
+/** Доля казахских букв среди кириллицы, с которой текст считается казахским */
+const KAZAKH_LETTER_RATIO = 0.01;
+
+const LATIN = /[a-z]/g;
+const CYRILLIC = /[а-яёіїєґәғқңөұүһ]/g;
+const KAZAKH_ONLY = /[әғқңөұүһ]/g;
+const UKRAINIAN_ONLY = /[іїєґ]/g;
+const RUSSIAN_ONLY = /[ыэъё]/g;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+export function isLetterLanguage(value: unknown): value is LetterLanguage {
+  return typeof value === 'string' && (LETTER_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Язык текста или null, если текста слишком мало
+ */
+export function detectTextLanguage(text: string): LetterLanguage | null {
+  const normalized = text.toLowerCase();
+  const latin = countMatches(normalized, LATIN);
+  const cyrillic = countMatches(normalized, CYRILLIC);
+
+  if (latin + cyrillic < MIN_LETTERS) return null;
+  if (cyrillic / (latin + cyrillic) < CYRILLIC_MIN_RATIO) return 'en';
+
+  if (countMatches(normalized, KAZAKH_ONLY) / cyrillic >= KAZAKH_LETTER_RATIO) return 'kk';
+  if (countMatches(normalized, UKRAINIAN_ONLY) > countMatches(normalized, RUSSIAN_ONLY)) return 'uk';
+
+  return 'ru';
+}
+
+/**
+ * Текст резюме для определения языка: описание, должности и пункты опыта
+ * Принимает данные без проверки типов - в Edge Functions это JSON из запроса
+ */
+export function collectResumeText(resumeData: unknown): string {
+  if (typeof resumeData !== 'object' || resumeData === null) return '';
+
+  const resume = resumeData as Record<string, unknown>;
+  const parts: unknown[] = [resume.summary, resume.desired_position];
+
+  if (Array.isArray(resume.experience)) {
+    for (const job of resume.experience) {
+      if (typeof job !== 'object' || job === null) continue;
+      const { position, bullet_list: bullets } = job as Record<string, unknown>;
+      parts.push(position, ...(Array.isArray(bullets) ? bullets : []));
+    }
+  }
+
+  return parts.filter((part): part is string => typeof part === 'string').join('\n');
+}
@@ -0,0 +1,76 @@
+import { JsonSchema } from './jsonSchema.ts';
+
+/**
+ * Схема профиля голоса для сопроводительных писем
+ *
+ * Общая для фронтенда (src/types/letterProfile.ts) и generate-letter,
+ * который проверяет customization.letter_profile той же схемой.
+ * Ограничения совпадают с CHECK в таблице letter_profiles.
+ */
+
+export const LETTER_PROFILE_LIMITS = {
+  nameMaxLength: 60,
+  maxSampleParagraphs: 5,
+  sampleParagraphMaxLength: 1500,
+  maxAvoidWords: 30,
+  avoidWordMaxLength: 40,
+  phraseMaxLength: 100,
+  minLetterLength: 300,
+  maxLetterLength: 5000,
+} as const;
+
+/**
+ * JSON Schema настроек профиля, которые уходят в upstream вместе с письмом
+ */
+export const LETTER_PROFILE_SCHEMA = {
+  type: "object",
+  required: ["name", "sample_paragraphs", "avoid_words", "greeting", "sign_off", "max_length"],
+  description: "Профиль голоса пользователя вместо пресета стиля",
+  properties: {
+    name: {
+      type: "string",
+      minLength: 1,
+      maxLength: LETTER_PROFILE_LIMITS.nameMaxLength,
+      pattern: "\\S",
+      description: "Название профиля"
+    },
+    sample_paragraphs: {
+      type: "array",
+      maxItems: LETTER_PROFILE_LIMITS.maxSampleParagraphs,
+      description: "Абзацы пользователя - образец голоса",
+      items: {
+        type: "string",
+        minLength: 1,
+        maxLength: LETTER_PROFILE_LIMITS.sampleParagraphMaxLength,
+        pattern: "\\S"
+      }
+    },
+    avoid_words: {
+      type: "array",
+      maxItems: LETTER_PROFILE_LIMITS.maxAvoidWords,
+      description: "Слова и обороты, которых не должно быть в письме",
+      items: {
+        type: "string",
+        minLength: 1,
+        maxLength: LETTER_PROFILE_LIMITS.avoidWordMaxLength,
+        pattern: "\\S"
+      }
+    },
+    greeting: {
+      type: ["string", "null"],
+      maxLength: LETTER_PROFILE_LIMITS.phraseMaxLength,
+      description: "Предпочтительное приветствие"
+    },
+    sign_off: {
+      type: ["string", "null"],
+      maxLength: LETTER_PROFILE_LIMITS.phraseMaxLength,
+      description: "Предпочтительная подпись"
+    },
+    max_length: {
+      type: ["integer", "null"],
+      minimum: LETTER_PROFILE_LIMITS.minLetterLength,
+      maximum: LETTER_PROFILE_LIMITS.maxLetterLength,
+      description: "Максимальная длина письма в символах"
+    }
+  }
+} as const satisfies JsonSchema;
@@ -0,0 +1,106 @@
+import { deepStrictEqual, rejects, strictEqual, throws } from 'node:assert/strict';
+import {
+  createStubChannel,
+  createTelegramChannel,
+  isLocalRun,
+  resolveDeliveryChannel,
+  TELEGRAM_MESSAGE_LIMIT,
+  truncateTelegramText,
+} from './reminderDelivery.ts';
+
+/**
+ * Тесты каналов доставки напоминаний
+ *
+ * Telegram API не вызывается: fetch подменяется заглушкой.
+ * Запуск: deno test supabase/functions
+ */
+
+/** Переменные окружения из объекта */
+const envOf = (values: Record<string, string>) => ({ get: (key: string) => values[key] });
+
+const LOCAL_URL = 'http://127.0.0.1:54321';
+const DEPLOYED_URL = 'https://abcdefgh.supabase.co';
+
+/** Без вывода заглушки в лог теста */
+function silenceConsole(): () => void {
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  return () => {
+    console.log = log;
+    console.warn = warn;
+  };
+}
+
+Deno.test('truncateTelegramText: обрезает текст до лимита Telegram', () => {
+  strictEqual(truncateTelegramText('Привет'), 'Привет');
+  strictEqual(truncateTelegramText('a'.repeat(TELEGRAM_MESSAGE_LIMIT)).length, TELEGRAM_MESSAGE_LIMIT);
+
+  const truncated = truncateTelegramText('a'.repeat(TELEGRAM_MESSAGE_LIMIT + 10));
+  strictEqual(truncated.length, TELEGRAM_MESSAGE_LIMIT);
+  strictEqual(truncated.endsWith('…'), true);
+});
+
+Deno.test('createTelegramChannel: отправляет sendMessage с обрезанным текстом', async () => {
+  const requests: { url: string; body: Record<string, unknown> }[] = [];
+  const fetchStub = (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({ url: String(input), body: JSON.parse(String(init?.body)) });
+    return Promise.resolve(new Response(JSON.stringify({ ok: true })));
+  };
+
+  const channel = createTelegramChannel('123:token', fetchStub);
+  await channel.send({ telegramUserId: 42, text: 'a'.repeat(TELEGRAM_MESSAGE_LIMIT + 1) });
+
+  strictEqual(channel.name, 'telegram');
+  strictEqual(requests.length, 1);
+  strictEqual(requests[0].url, 'https://api.telegram.org/bot123:token/sendMessage');
+  strictEqual(requests[0].body.chat_id, 42);
+  strictEqual((requests[0].body.text as string).length, TELEGRAM_MESSAGE_LIMIT);
+});
+
+Deno.test('createTelegramChannel: ошибка Telegram API и HTTP-ошибка без тела', async () => {
+  const apiError = createTelegramChannel('123:token', () =>
+    Promise.resolve(new Response(JSON.stringify({ ok: false, description: 'Forbidden: bot was blocked by the user' }), { status: 403 }))
+  );
+  await rejects(apiError.send({ telegramUserId: 42, text: 'Привет' }), { message: 'Telegram API: Forbidden: bot was blocked by the user' });
+
+  const httpError = createTelegramChannel('123:token', () => Promise.resolve(new Response('Bad Gateway', { status: 502 })));
+  await rejects(httpError.send({ telegramUserId: 42, text: 'Привет' }), { message: 'Telegram API: HTTP 502' });
+});
+
+Deno.test('createStubChannel: складывает сообщения в sent', async () => {
+  const restoreConsole = silenceConsole();
+  try {
+    const channel = createStubChannel();
+    await channel.send({ telegramUserId: 42, text: 'Привет' });
+
+    strictEqual(channel.name, 'stub');
+    deepStrictEqual(channel.sent, [{ telegramUserId: 42, text: 'Привет' }]);
+  } finally {
+    restoreConsole();
+  }
+});
+
+Deno.test('isLocalRun: локальный Supabase определяется по SUPABASE_URL', () => {
+  strictEqual(isLocalRun(envOf({ SUPABASE_URL: LOCAL_URL })), true);
+  strictEqual(isLocalRun(envOf({ SUPABASE_URL: 'http://kong:8000' })), true);
+  strictEqual(isLocalRun(envOf({ SUPABASE_URL: DEPLOYED_URL })), false);
+  strictEqual(isLocalRun(envOf({})), false);
+});
+
+Deno.test('resolveDeliveryChannel: telegram по умолчанию, заглушка только локально', () => {
+  const restoreConsole = silenceConsole();
+  try {
+    strictEqual(resolveDeliveryChannel(envOf({ TELEGRAM_BOT_TOKEN: '123:token' })).name, 'telegram');
+    strictEqual(resolveDeliveryChannel(envOf({ REMINDER_DELIVERY_CHANNEL: 'stub', SUPABASE_URL: LOCAL_URL })).name, 'stub');
+
+    throws(() => resolveDeliveryChannel(envOf({})), /TELEGRAM_BOT_TOKEN/);
+    throws(() => resolveDeliveryChannel(envOf({ REMINDER_DELIVERY_CHANNEL: 'email' })), /email/);
+    throws(
+      () => resolveDeliveryChannel(envOf({ REMINDER_DELIVERY_CHANNEL: 'stub', SUPABASE_URL: DEPLOYED_URL })),
+      /локальном запуске/
+    );
+  } finally {
+    restoreConsole();
+  }
+});
@@ -0,0 +1,124 @@
+/**
+ * Каналы доставки напоминаний
+ *
+ * send-reminders не знает, куда уходит сообщение: канал выбирается
+ * переменной окружения REMINDER_DELIVERY_CHANNEL.
+ * - telegram (по умолчанию) - сообщение от бота через Bot API, получатель -
+ *   profiles.telegram_user_id (пользователь должен хотя бы раз запустить бота)
+ * - stub - сообщения только пишутся в лог и сохраняются в памяти,
+ *   для локального запуска и тестов без обращения к Telegram API.
+ *   Разрешен только локально (SUPABASE_URL указывает на локальный хост):
+ *   в развернутой функции заглушка помечала бы напоминания отправленными
+ */
+
+/**
+ * Сообщение напоминания для одного пользователя
+ */
+export interface ReminderMessage {
+  /** ID пользователя Telegram из profiles.telegram_user_id */
+  telegramUserId: number;
+  text: string;
+}
+
+/**
+ * Канал доставки; при неудаче send выбрасывает ошибку с причиной
+ */
+export interface ReminderDeliveryChannel {
+  name: string;
+  send: (message: ReminderMessage) => Promise<void>;
+}
+
+/** Ограничение Telegram на длину текста сообщения */
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+const TELEGRAM_API_URL = 'https://api.telegram.org';
+
+/** Хосты локального Supabase (supabase start и docker-сеть Edge Runtime) */
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', 'kong', 'host.docker.internal']);
+
+/**
+ * Обрезка текста под лимит Telegram
+ */
+export function truncateTelegramText(text: string): string {
+  return text.length > TELEGRAM_MESSAGE_LIMIT
+    ? `${text.slice(0, TELEGRAM_MESSAGE_LIMIT - 1)}…`
+    : text;
+}
+
+/**
+ * Доставка через Telegram Bot API (sendMessage)
+ */
+export function createTelegramChannel(botToken: string, fetchImpl: typeof fetch = fetch): ReminderDeliveryChannel {
+  return {
+    name: 'telegram',
+    send: async ({ telegramUserId, text }) => {
+      const response = await fetchImpl(`${TELEGRAM_API_URL}/bot${botToken}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chat_id: telegramUserId,
+          text: truncateTelegramText(text),
+          disable_web_page_preview: true,
+        }),
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.ok) {
+        throw new Error(`Telegram API: ${result.description || `HTTP ${response.status}`}`);
+      }
+    },
+  };
+}
+
+/**
+ * Локальная заглушка: сообщения складываются в sent и пишутся в лог
+ */
+export function createStubChannel(): ReminderDeliveryChannel & { sent: ReminderMessage[] } {
+  const sent: ReminderMessage[] = [];
+
+  return {
+    name: 'stub',
+    sent,
+    send: async (message) => {
+      sent.push(message);
+      console.log('📨 [stub] Напоминание для Telegram пользователя', message.telegramUserId, '\n', message.text);
+    },
+  };
+}
+
+/**
+ * Запущена ли функция локально: определяется по SUPABASE_URL
+ */
+export function isLocalRun(env: { get: (key: string) => string | undefined }): boolean {
+  try {
+    return LOCAL_HOSTS.has(new URL(env.get('SUPABASE_URL') ?? '').hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Канал доставки по переменным окружения
+ */
+export function resolveDeliveryChannel(env: { get: (key: string) => string | undefined }): ReminderDeliveryChannel {
+  const channel = env.get('REMINDER_DELIVERY_CHANNEL') || 'telegram';
+
+  if (channel === 'stub') {
+    if (!isLocalRun(env)) {
+      throw new Error('Заглушка доставки напоминаний доступна только при локальном запуске');
+    }
+    console.warn('⚠️ Напоминания не доставляются: используется заглушка канала доставки');
+    return createStubChannel();
+  }
+
+  if (channel !== 'telegram') {
+    throw new Error(`Неизвестный канал доставки напоминаний: ${channel}`);
+  }
+
+  const botToken = env.get('TELEGRAM_BOT_TOKEN');
+  if (!botToken) {
+    throw new Error('TELEGRAM_BOT_TOKEN не установлен в переменных окружения');
+  }
+
+  return createTelegramChannel(botToken);
+}
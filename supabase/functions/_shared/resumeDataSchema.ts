@@ -0,0 +1,266 @@
+import { JsonSchema } from './jsonSchema.ts';
+
+/**
+ * Схема данных резюме (ResumeData)
+ *
+ * Общая для фронтенда (src/types/resumeData.ts) и Edge Functions
+ */
+
+// ============================================================================
+// ТИПЫ
+// ============================================================================
+
+/**
+ * Персональная информация кандидата
+ */
+export interface PersonalInfo {
+  /** Имя кандидата (обязательно) */
+  first_name: string;
+  /** Фамилия кандидата (обязательно) */
+  last_name: string;
+  /** Основной email (обязательно) */
+  email: string;
+  /** Контактный телефон (обязательно) */
+  phone: string;
+  /** Персональный сайт или портфолио */
+  website?: string;
+  /** Местоположение */
+  location?: {
+    city?: string;
+    country?: string;
+  };
+  /** Идентификатор в Telegram */
+  telegram_id?: string;
+}
+
+/**
+ * Навыки кандидата
+ */
+export interface Skills {
+  /** Технические/профессиональные навыки (обязательно) */
+  hard_skills: string[];
+  /** Гибкие навыки (обязательно) */
+  soft_skills: string[];
+  /** Владение языками (обязательно) */
+  languages: string[];
+}
+
+/**
+ * Образование и курсы
+ */
+export interface Education {
+  /** Учебное заведение (обязательно) */
+  institution: string;
+  /** Полученная степень/квалификация */
+  degree?: string;
+  /** Год окончания */
+  graduation_year?: string;
+  /** Специализация */
+  field_of_study?: string;
+  /** Дополнительная информация */
+  additional_info?: string;
+}
+
+/**
+ * Опыт работы
+ */
+export interface WorkExperience {
+  /** Занимаемая должность (обязательно) */
+  position: string;
+  /** Название компании (обязательно) */
+  company: string;
+  /** Список обязанностей и достижений (обязательно) */
+  bullet_list: string[];
+  /** Дата начала работы (ММ/ГГГГ) */
+  start_date?: string;
+  /** Дата окончания (ММ/ГГГГ или 'настоящее время') */
+  end_date?: string;
+  /** Отрасль компании */
+  industry?: string;
+}
+
+/**
+ * Полная структура данных резюме
+ */
+export interface ResumeData {
+  /** Персональная информация кандидата */
+  personal_info: PersonalInfo;
+  /** Навыки кандидата */
+  skills: Skills;
+  /** Образование и курсы */
+  education: Education[];
+  /** Опыт работы */
+  experience: WorkExperience[];
+  /** Краткое описание кандидата и карьерных целей */
+  summary: string;
+  /** Желаемая должность, указанная кандидатом */
+  desired_position: string;
+  /** Список из 8 похожих должностей для поиска вакансий */
+  similar_positions: string[];
+}
+
+// ============================================================================
+// JSON SCHEMA
+// ============================================================================
+
+/**
+ * JSON Schema для валидации данных резюме
+ * Соответствует API эндпоинту file-upload/resume
+ */
+export const RESUME_DATA_SCHEMA = {
+  type: "object",
+  properties: {
+    personal_info: {
+      type: "object",
+      required: ["first_name", "last_name", "email", "phone"],
+      description: "Персональная информация кандидата",
+      properties: {
+        first_name: {
+          type: "string",
+          description: "Имя кандидата"
+        },
+        last_name: {
+          type: "string", 
+          description: "Фамилия кандидата"
+        },
+        email: {
+          type: "string",
+          format: "email",
+          description: "Основной email"
+        },
+        phone: {
+          type: "string",
+          description: "Контактный телефон"
+        },
+        website: {
+          type: "string",
+          description: "Персональный сайт или портфолио"
+        },
+        location: {
+          type: "object",
+          description: "Местоположение",
+          properties: {
+            city: { type: "string" },
+            country: { type: "string" }
+          }
+        },
+        telegram_id: {
+          type: "string",
+          description: "Идентификатор в Telegram"
+        }
+      }
+    },
+    skills: {
+      type: "object",
+      required: ["hard_skills", "soft_skills", "languages"],
+      description: "Навыки кандидата",
+      properties: {
+        hard_skills: {
+          type: "array",
+          items: { type: "string" },
+          description: "Технические/профессиональные навыки"
+        },
+        soft_skills: {
+          type: "array",
+          items: { type: "string" },
+          description: "Гибкие навыки"
+        },
+        languages: {
+          type: "array",
+          items: { type: "string" },
+          description: "Владение языками"
+        }
+      }
+    },
+    education: {
+      type: "array",
+      description: "Образование и курсы",
+      items: {
+        type: "object",
+        required: ["institution"],
+        properties: {
+          institution: {
+            type: "string",
+            description: "Учебное заведение"
+          },
+          degree: {
+            type: "string",
+            description: "Полученная степень/квалификация"
+          },
+          graduation_year: {
+            type: "string",
+            description: "Год окончания"
+          },
+          field_of_study: {
+            type: "string",
+            description: "Специализация"
+          },
+          additional_info: {
+            type: "string",
+            description: "Дополнительная информация"
+          }
+        }
+      }
+    },
+    experience: {
+      type: "array",
+      description: "Опыт работы",
+      items: {
+        type: "object",
+        required: ["position", "company", "bullet_list"],
+        properties: {
+          position: {
+            type: "string",
+            description: "Занимаемая должность"
+          },
+          company: {
+            type: "string",
+            description: "Название компании"
+          },
+          bullet_list: {
+            type: "array",
+            items: { type: "string" },
+            description: "Список обязанностей и достижений"
+          },
+          start_date: {
+            type: "string",
+            description: "Дата начала работы (ММ/ГГГГ)"
+          },
+          end_date: {
+            type: "string",
+            description: "Дата окончания (ММ/ГГГГ или 'настоящее время')"
+          },
+          industry: {
+            type: "string",
+            description: "Отрасль компании"
+          }
+        }
+      }
+    },
+    summary: {
+      type: "string",
+      description: "Краткое описание кандидата и карьерных целей"
+    },
+    desired_position: {
+      type: "string",
+      description: "Желаемая должность, указанная кандидатом"
+    },
+    similar_positions: {
+      type: "array",
+      items: { type: "string" },
+      minItems: 8,
+      maxItems: 8,
+      description: "Список из 8 похожих должностей для поиска вакансий"
+    }
+  },
+  required: [
+    "personal_info", 
+    "skills", 
+    "education", 
+    "experience", 
+    "summary", 
+    "desired_position", 
+    "similar_positions"
+  ],
+  additionalProperties: false
+} as const satisfies JsonSchema;
@@ -0,0 +1,34 @@
+import { strictEqual } from 'node:assert/strict';
+import { getRequestLocale, parseAcceptLanguage, translateServerMessage } from './serverMessages.ts';
+
+/**
+ * Тесты сообщений Edge Functions: выбор языка и подстановка параметров
+ *
+ * Запуск: deno test supabase/functions
+ */
+
+Deno.test('parseAcceptLanguage: первый поддерживаемый язык по убыванию q', () => {
+  strictEqual(parseAcceptLanguage(null), 'ru');
+  strictEqual(parseAcceptLanguage('uk-UA,uk;q=0.9,en;q=0.8'), 'uk');
+  strictEqual(parseAcceptLanguage('de-DE,en;q=0.5,ru;q=0.7'), 'ru');
+  strictEqual(parseAcceptLanguage('en;q=0,uk'), 'uk');
+  strictEqual(parseAcceptLanguage('de,fr'), 'ru');
+});
+
+Deno.test('getRequestLocale: язык из заголовка Accept-Language', () => {
+  const req = new Request('http://localhost', { headers: { 'Accept-Language': 'en-US,en;q=0.9' } });
+  strictEqual(getRequestLocale(req), 'en');
+});
+
+Deno.test('translateServerMessage: параметры подставляются на языке клиента', () => {
+  strictEqual(
+    translateServerMessage('request.fileTooLarge', 'en', { maxSize: 10 }),
+    'The file is too large. Maximum size: 10MB'
+  );
+  strictEqual(
+    translateServerMessage('request.mustBeOneOf', 'uk', { field: 'language', values: 'en, ru' }),
+    'language має бути одним із: en, ru'
+  );
+  // Без значения параметр остается в тексте как есть
+  strictEqual(translateServerMessage('request.tooLong', 'ru', { field: 'skill' }), 'skill не должно превышать {max} символов');
+});
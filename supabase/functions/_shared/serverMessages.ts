@@ -0,0 +1,164 @@
+/**
+ * Сообщения об ошибках Edge Functions на языке клиента
+ *
+ * Язык берется из заголовка Accept-Language, который шлет AI-шлюз фронтенда
+ * (язык интерфейса). Без заголовка или для неподдерживаемого языка - русский.
+ */
+
+export const SERVER_LOCALES = ['ru', 'en', 'uk'] as const;
+
+export type ServerLocale = typeof SERVER_LOCALES[number];
+
+export const DEFAULT_SERVER_LOCALE: ServerLocale = 'ru';
+
+const ru = {
+  'request.methodNotAllowed': 'Метод не поддерживается',
+  'request.invalidJson': 'Тело запроса должно быть JSON объектом',
+  'request.multipartResumeExpected': 'Ожидается multipart/form-data с файлом резюме',
+  'request.multipartVacancyExpected': 'Ожидается multipart/form-data с файлом вакансии',
+  'request.missingParam': 'Отсутствует обязательный параметр: {name}',
+  'request.missingVacancySource': 'Отсутствует обязательный параметр: vacancy_url или vacancy_text',
+  'request.fileTooLarge': 'Файл слишком большой. Максимальный размер: {maxSize}MB',
+  'request.unsupportedVacancyFile': 'Неподдерживаемый тип файла. Используйте PDF или DOCX, текст можно вставить напрямую',
+  'request.vacancyTextTooShort': 'Текст вакансии слишком короткий. Минимум: {min} символов',
+  'request.vacancyTextTooLong': 'Текст вакансии слишком длинный. Максимум: {max} символов',
+  'request.resumeAndJobRequired': 'resume_data и job_data обязательны и должны быть объектами',
+  'request.mustBeObject': '{field} должно быть объектом',
+  'request.mustBeString': '{field} должно быть строкой',
+  'request.mustBeOneOf': '{field} должно быть одним из: {values}',
+  'request.tooLong': '{field} не должно превышать {max} символов',
+  'request.required': '{field} обязателен',
+  'request.invalidStructure': '{field} имеет некорректную структуру',
+  'request.skillRequired': 'Для emphasize_skill нужно указать skill',
+  'auth.missingToken': 'Отсутствует токен авторизации',
+  'auth.invalidToken': 'Недействительный токен авторизации',
+  'server.misconfigured': 'Конфигурация сервера не настроена',
+  'server.internalError': 'Внутренняя ошибка сервера',
+  'server.retryLater': 'Не удалось выполнить запрос к AI сервису. Попробуйте еще раз.',
+  'upstream.error': 'AI сервис вернул ошибку',
+  'upstream.invalidJson': 'AI сервис вернул некорректный JSON',
+  'upstream.timeout': 'Время ожидания ответа AI сервиса истекло',
+  'upstream.unreachable': 'Не удается подключиться к AI сервису',
+  'upstream.invalidShape': 'AI сервис вернул данные в неожиданном формате',
+  'reminder.noReply': '⏰ Прошло {days} дн. с отклика, а ответа пока нет',
+  'reminder.draftTitle': 'Черновик follow-up письма:',
+};
+
+export type ServerMessageKey = keyof typeof ru;
+
+export type ServerMessageParams = Record<string, string | number>;
+
+const en: Record<ServerMessageKey, string> = {
+  'request.methodNotAllowed': 'Method not allowed',
+  'request.invalidJson': 'The request body must be a JSON object',
+  'request.multipartResumeExpected': 'Expected multipart/form-data with a resume file',
+  'request.multipartVacancyExpected': 'Expected multipart/form-data with a vacancy file',
+  'request.missingParam': 'Missing required parameter: {name}',
+  'request.missingVacancySource': 'Missing required parameter: vacancy_url or vacancy_text',
+  'request.fileTooLarge': 'The file is too large. Maximum size: {maxSize}MB',
+  'request.unsupportedVacancyFile': 'Unsupported file type. Use PDF or DOCX, or paste the text directly',
+  'request.vacancyTextTooShort': 'The vacancy text is too short. Minimum: {min} characters',
+  'request.vacancyTextTooLong': 'The vacancy text is too long. Maximum: {max} characters',
+  'request.resumeAndJobRequired': 'resume_data and job_data are required and must be objects',
+  'request.mustBeObject': '{field} must be an object',
+  'request.mustBeString': '{field} must be a string',
+  'request.mustBeOneOf': '{field} must be one of: {values}',
+  'request.tooLong': '{field} must not exceed {max} characters',
+  'request.required': '{field} is required',
+  'request.invalidStructure': '{field} has an invalid structure',
+  'request.skillRequired': 'emphasize_skill requires a skill',
+  'auth.missingToken': 'Authorization token is missing',
+  'auth.invalidToken': 'Invalid authorization token',
+  'server.misconfigured': 'Server configuration is incomplete',
+  'server.internalError': 'Internal server error',
+  'server.retryLater': 'The request to the AI service failed. Please try again.',
+  'upstream.error': 'The AI service returned an error',
+  'upstream.invalidJson': 'The AI service returned invalid JSON',
+  'upstream.timeout': 'The AI service did not respond in time',
+  'upstream.unreachable': 'Cannot connect to the AI service',
+  'upstream.invalidShape': 'The AI service returned data in an unexpected format',
+  'reminder.noReply': '⏰ {days} days have passed since you applied, and there is no reply yet',
+  'reminder.draftTitle': 'Follow-up letter draft:',
+};
+
+const uk: Record<ServerMessageKey, string> = {
+  'request.methodNotAllowed': 'Метод не підтримується',
+  'request.invalidJson': 'Тіло запиту має бути JSON-об\'єктом',
+  'request.multipartResumeExpected': 'Очікується multipart/form-data з файлом резюме',
+  'request.multipartVacancyExpected': 'Очікується multipart/form-data з файлом вакансії',
+  'request.missingParam': 'Відсутній обов\'язковий параметр: {name}',
+  'request.missingVacancySource': 'Відсутній обов\'язковий параметр: vacancy_url або vacancy_text',
+  'request.fileTooLarge': 'Файл завеликий. Максимальний розмір: {maxSize}MB',
+  'request.unsupportedVacancyFile': 'Непідтримуваний тип файлу. Використовуйте PDF або DOCX, текст можна вставити напряму',
+  'request.vacancyTextTooShort': 'Текст вакансії закороткий. Мінімум: {min} символів',
+  'request.vacancyTextTooLong': 'Текст вакансії задовгий. Максимум: {max} символів',
+  'request.resumeAndJobRequired': 'resume_data і job_data обов\'язкові та мають бути об\'єктами',
+  'request.mustBeObject': '{field} має бути об\'єктом',
+  'request.mustBeString': '{field} має бути рядком',
+  'request.mustBeOneOf': '{field} має бути одним із: {values}',
+  'request.tooLong': '{field} не має перевищувати {max} символів',
+  'request.required': '{field} обов\'язковий',
+  'request.invalidStructure': '{field} має некоректну структуру',
+  'request.skillRequired': 'Для emphasize_skill потрібно вказати skill',
+  'auth.missingToken': 'Відсутній токен авторизації',
+  'auth.invalidToken': 'Недійсний токен авторизації',
+  'server.misconfigured': 'Конфігурацію сервера не налаштовано',
+  'server.internalError': 'Внутрішня помилка сервера',
+  'server.retryLater': 'Не вдалося виконати запит до AI сервісу. Спробуйте ще раз.',
+  'upstream.error': 'AI сервіс повернув помилку',
+  'upstream.invalidJson': 'AI сервіс повернув некоректний JSON',
+  'upstream.timeout': 'Час очікування відповіді AI сервісу минув',
+  'upstream.unreachable': 'Не вдається підключитися до AI сервісу',
+  'upstream.invalidShape': 'AI сервіс повернув дані в неочікуваному форматі',
+  'reminder.noReply': '⏰ Минуло {days} дн. з відгуку, а відповіді поки немає',
+  'reminder.draftTitle': 'Чернетка follow-up листа:',
+};
+
+const SERVER_MESSAGES: Record<ServerLocale, Record<ServerMessageKey, string>> = { ru, en, uk };
+
+export function isServerLocale(value: string): value is ServerLocale {
+  return (SERVER_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Язык ответа по заголовку Accept-Language ("uk-UA,uk;q=0.9,en;q=0.8")
+ * Языки перебираются по убыванию q, первый поддерживаемый побеждает
+ */
+export function parseAcceptLanguage(header: string | null): ServerLocale {
+  if (!header) return DEFAULT_SERVER_LOCALE;
+
+  const candidates = header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      const q = quality ? Number(quality.slice(2)) : 1;
+      return { language: tag.toLowerCase().split(/[-_]/)[0], q: Number.isNaN(q) ? 0 : q, index };
+    })
+    .filter(candidate => candidate.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { language } of candidates) {
+    if (isServerLocale(language)) return language;
+  }
+
+  return DEFAULT_SERVER_LOCALE;
+}
+
+export function getRequestLocale(req: Request): ServerLocale {
+  return parseAcceptLanguage(req.headers.get('Accept-Language'));
+}
+
+/**
+ * Текст сообщения; {name} заменяется значением из params
+ */
+export function translateServerMessage(
+  key: ServerMessageKey,
+  locale: ServerLocale = DEFAULT_SERVER_LOCALE,
+  params?: ServerMessageParams
+): string {
+  const message = SERVER_MESSAGES[locale][key];
+  return params
+    ? message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match))
+    : message;
+}
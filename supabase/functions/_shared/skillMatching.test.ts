@@ -0,0 +1,102 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { compareSkills, findSkillMentions, getLanguageLevel, normalizeSkill, reconcileHardSkillScore, skillSimilarity } from './skillMatching.ts';
+
+/**
+ * Тесты локального сравнения навыков
+ *
+ * Запуск: deno test supabase/functions
+ */
+
+/** Пары [навык вакансии, способ совпадения] */
+const matchKinds = (candidate: string[], required: string[]) =>
+  compareSkills(candidate, required).matched.map(match => [match.required, match.kind]);
+
+Deno.test('normalizeSkill: синонимы, версии и уровни CEFR', () => {
+  strictEqual(normalizeSkill('JS'), 'javascript');
+  strictEqual(normalizeSkill('Postgres'), 'postgresql');
+  strictEqual(normalizeSkill('Python 3.11'), 'python');
+  strictEqual(normalizeSkill('Английский B2'), 'english');
+  strictEqual(normalizeSkill('English C1+'), 'english');
+  strictEqual(normalizeSkill('Английский — свободно'), 'english');
+});
+
+Deno.test('normalizeSkill: словесный уровень отбрасывается только после разделителя или в скобках', () => {
+  strictEqual(normalizeSkill('English (fluent)'), 'english');
+  strictEqual(normalizeSkill('English: native'), 'english');
+  strictEqual(normalizeSkill('English, upper-intermediate'), 'english');
+  strictEqual(normalizeSkill('React Native'), 'react native');
+  strictEqual(normalizeSkill('Visual Basic'), 'visual basic');
+  strictEqual(normalizeSkill('Advanced Excel'), 'advanced excel');
+});
+
+Deno.test('compareSkills: точные, синонимичные, частичные и нечеткие совпадения', () => {
+  deepStrictEqual(
+    matchKinds(['React', 'JS', 'Docker Compose', 'Kubernets'], ['react', 'JavaScript', 'Docker', 'Kubernetes']),
+    [['react', 'exact'], ['JavaScript', 'alias'], ['Docker', 'partial'], ['Kubernetes', 'fuzzy']]
+  );
+  // Короткие синонимы работают при сравнении списков
+  deepStrictEqual(matchKinds(['Go', 'REST'], ['Golang', 'REST API']), [['Golang', 'alias'], ['REST API', 'alias']]);
+});
+
+Deno.test('compareSkills: React Native - не синоним React, Java не совпадает с Jira', () => {
+  deepStrictEqual(matchKinds(['React Native'], ['React']), [['React', 'partial']]);
+  deepStrictEqual(matchKinds(['React'], ['React Native']), [['React Native', 'partial']]);
+
+  const overlap = compareSkills(['Java'], ['Jira']);
+  deepStrictEqual(overlap.matched, []);
+  deepStrictEqual(overlap.missing, ['Jira']);
+  deepStrictEqual(overlap.extra, ['Java']);
+  strictEqual(overlap.coverage, 0);
+});
+
+Deno.test('compareSkills: дубли схлопываются, пустой список вакансии дает coverage null', () => {
+  const overlap = compareSkills(['Python'], ['Python 3', 'python', 'Django']);
+
+  deepStrictEqual(overlap.missing, ['Django']);
+  strictEqual(overlap.coverage, 50);
+  strictEqual(compareSkills(['Python'], []).coverage, null);
+});
+
+Deno.test('skillSimilarity', () => {
+  strictEqual(skillSimilarity('', ''), 1);
+  strictEqual(skillSimilarity('docker', 'docker'), 1);
+  strictEqual(skillSimilarity('abcd', 'abce'), 0.75);
+});
+
+Deno.test('findSkillMentions: многозначные английские слова не считаются навыками', () => {
+  const letter = 'I am ready to go the extra mile and take the rest of the next tasks while working remotely in the UK.';
+  const mentions = findSkillMentions(letter, ['Golang', 'REST API', 'Next.js', 'Ukrainian', 'TypeScript', 'Machine Learning']);
+
+  deepStrictEqual(mentions.mentioned, []);
+  strictEqual(mentions.coverage, 0);
+});
+
+Deno.test('findSkillMentions: навык находится по написанию из вакансии, канону и однозначным синонимам', () => {
+  const letter = 'Пишу на TypeScript и Golang, настраивал CI/CD и Postgres, знаю Kubernetes (k8s) и Node.js.';
+  const mentions = findSkillMentions(letter, ['TS', 'Go', 'CI/CD', 'PostgreSQL', 'K8s', 'Node', 'Django']);
+
+  deepStrictEqual(mentions.mentioned, ['TS', 'Go', 'CI/CD', 'PostgreSQL', 'K8s', 'Node']);
+  deepStrictEqual(mentions.missing, ['Django']);
+  strictEqual(mentions.coverage, 86);
+  strictEqual(findSkillMentions('Текст', []).coverage, null);
+});
+
+Deno.test('reconcileHardSkillScore', () => {
+  const preScore = { hardSkills: compareSkills(['React'], ['React', 'Redux']), languages: compareSkills([], []) };
+
+  deepStrictEqual(reconcileHardSkillScore(preScore, 60), { local: 50, ai: 60, delta: 10, agreement: 'agree' });
+  strictEqual(reconcileHardSkillScore(preScore, 90)?.agreement, 'ai_higher');
+  strictEqual(reconcileHardSkillScore(preScore, 10)?.agreement, 'ai_lower');
+  strictEqual(reconcileHardSkillScore({ ...preScore, hardSkills: compareSkills([], []) }, 50), null);
+});
+
+Deno.test('getLanguageLevel: уровни CEFR и словесные уровни', () => {
+  strictEqual(getLanguageLevel('English B2'), 3);
+  strictEqual(getLanguageLevel('Английский (C1)'), 4);
+  strictEqual(getLanguageLevel('English — Upper-Intermediate'), 3);
+  strictEqual(getLanguageLevel('English, intermediate'), 2);
+  strictEqual(getLanguageLevel('Английский — свободно'), 4);
+  strictEqual(getLanguageLevel('Немецкий: родной'), 5);
+  strictEqual(getLanguageLevel('English'), null);
+  strictEqual(getLanguageLevel('Lab1'), null);
+});
@@ -0,0 +1,418 @@
+/**
+ * Локальное сравнение навыков резюме и вакансии
+ *
+ * Общий для фронтенда и Edge Functions: без зависимостей и API Deno/браузера.
+ *
+ * Дает мгновенную оценку покрытия hard skills и языков до ответа AI:
+ * - навыки приводятся к каноническому виду по словарю синонимов
+ *   (JS/JavaScript, Postgres/PostgreSQL, русские и английские написания)
+ * - версии и уровни владения отбрасываются ("Python 3", "English B2", "English (fluent)")
+ * - опечатки и близкие написания сравниваются нечетко (расстояние Левенштейна)
+ */
+
+/**
+ * Словарь синонимов: каноническое название → варианты написания
+ *
+ * Короткие и многозначные варианты ("go", "rest", "uk") сопоставляются только
+ * в списках навыков, но не ищутся в свободном тексте - см. isTextSearchable
+ */
+export const SKILL_ALIASES: Record<string, readonly string[]> = {
+  'javascript': ['js', 'ecmascript', 'es6', 'джаваскрипт', 'яваскрипт'],
+  'typescript': ['ts', 'тайпскрипт'],
+  'python': ['питон', 'пайтон', 'py'],
+  'java': ['джава', 'ява'],
+  'golang': ['go', 'го'],
+  'c#': ['csharp', 'c sharp', 'си шарп'],
+  'c++': ['cpp', 'си плюс плюс'],
+  'php': ['пхп'],
+  'ruby': ['руби'],
+  'kotlin': ['котлин'],
+  'swift': ['свифт'],
+  'node.js': ['node', 'nodejs', 'нода'],
+  'react': ['react.js', 'reactjs', 'реакт'],
+  'vue': ['vue.js', 'vuejs', 'вью'],
+  'angular': ['angular.js', 'angularjs', 'ангуляр'],
+  'next.js': ['nextjs', 'next'],
+  'django': ['джанго'],
+  'spring': ['spring boot', 'spring framework'],
+  '.net': ['dotnet', 'asp.net', '.net core'],
+  'html': ['html5'],
+  'css': ['css3'],
+  'sql': ['скл'],
+  'postgresql': ['postgres', 'postgre', 'pg', 'psql', 'постгрес', 'постгрескл'],
+  'mysql': ['май скл'],
+  'mongodb': ['mongo', 'монго'],
+  'redis': ['редис'],
+  'elasticsearch': ['elastic', 'эластик'],
+  'clickhouse': ['кликхаус'],
+  'docker': ['докер'],
+  'kubernetes': ['k8s', 'кубернетес', 'кубер'],
+  'git': ['гит', 'github', 'gitlab'],
+  'ci/cd': ['cicd', 'ci cd', 'continuous integration'],
+  'linux': ['линукс', 'unix'],
+  'aws': ['amazon web services'],
+  'gcp': ['google cloud', 'google cloud platform'],
+  'azure': ['microsoft azure'],
+  'rest api': ['rest', 'restful', 'restful api'],
+  'graphql': ['graph ql'],
+  'machine learning': ['ml', 'машинное обучение'],
+  'data analysis': ['анализ данных'],
+  'excel': ['ms excel', 'microsoft excel', 'эксель'],
+  'figma': ['фигма'],
+  '1c': ['1с', '1c:предприятие', '1с:предприятие'],
+  'english': ['английский', 'английский язык', 'англ', 'eng', 'английский (en)'],
+  'russian': ['русский', 'русский язык', 'ru'],
+  'german': ['немецкий', 'немецкий язык', 'deutsch', 'de'],
+  'french': ['французский', 'французский язык', 'fr'],
+  'spanish': ['испанский', 'испанский язык', 'es'],
+  'chinese': ['китайский', 'китайский язык', 'mandarin', 'zh'],
+  'ukrainian': ['украинский', 'украинский язык', 'uk'],
+};
+
+// Варианты написания → каноническое название
+const ALIAS_INDEX = new Map<string, string>();
+for (const [canonical, aliases] of Object.entries(SKILL_ALIASES)) {
+  ALIAS_INDEX.set(canonical, canonical);
+  for (const alias of aliases) ALIAS_INDEX.set(alias, canonical);
+}
+
+// Варианты написания, которые в обычном тексте чаще означают другое слово:
+// "go the extra mile", "the rest of", "next steps"
+const TEXT_AMBIGUOUS_ALIASES = new Set(['go', 'rest', 'next', 'node', 'elastic']);
+
+// Варианты короче этой длины ("uk", "ts", "ml") в тексте не ищутся
+const TEXT_ALIAS_MIN_LENGTH = 3;
+
+// Уровни владения языком (CEFR) отбрасываются в любом месте: "English B2"
+const CEFR_LEVEL_PATTERN = /(^|\s)[abc][12]\+?(?=\s|$)/g;
+
+// Словесные уровни отбрасываются только после разделителя или в скобках,
+// чтобы не ломать названия вроде "React Native" и "Visual Basic"
+const LEVEL_WORDS = [
+  'beginner', 'elementary', 'pre-intermediate', 'intermediate', 'upper-intermediate', 'advanced',
+  'proficient', 'fluent', 'native', 'basic',
+  'базовый', 'начальный', 'средний', 'выше среднего', 'продвинутый', 'свободный', 'свободно',
+  'разговорный', 'родной', 'технический', 'читаю профессиональную литературу',
+];
+
+const LEVEL_AFTER_COMMA_PATTERN = new RegExp(`,\\s*(${LEVEL_WORDS.map(word => word.replace(/[-]/g, '\\-')).join('|')})(?=[\\s,]|$)`, 'g');
+
+// Уровни CEFR по возрастанию и соответствие им словесных уровней
+const CEFR_LEVELS = ['a1', 'a2', 'b1', 'b2', 'c1', 'c2'];
+const LEVEL_WORD_CEFR: Record<string, string> = {
+  'beginner': 'a1', 'начальный': 'a1',
+  'elementary': 'a2', 'pre-intermediate': 'a2', 'basic': 'a2', 'базовый': 'a2',
+  'intermediate': 'b1', 'средний': 'b1', 'разговорный': 'b1', 'технический': 'b1',
+  'upper-intermediate': 'b2', 'выше среднего': 'b2', 'читаю профессиональную литературу': 'b2',
+  'advanced': 'c1', 'fluent': 'c1', 'продвинутый': 'c1', 'свободный': 'c1', 'свободно': 'c1',
+  'proficient': 'c2', 'native': 'c2', 'родной': 'c2',
+};
+
+// Длинные написания проверяются первыми: "upper-intermediate" раньше "intermediate"
+const LANGUAGE_LEVEL_PATTERN = new RegExp(
+  `(?<![\\p{L}\\p{N}-])(${[...CEFR_LEVELS, ...Object.keys(LEVEL_WORD_CEFR)].sort((a, b) => b.length - a.length).join('|')})(?![\\p{L}\\p{N}-])`,
+  'u'
+);
+
+// Нечеткое сравнение только для достаточно длинных названий, чтобы "Java" не совпадала с "Jira"
+const FUZZY_MIN_LENGTH = 5;
+const FUZZY_MIN_SIMILARITY = 0.85;
+
+/**
+ * Приведение навыка к каноническому виду
+ *
+ * "JS" → "javascript", "Python 3.11" → "python", "Английский — B2" → "english",
+ * "English, fluent" → "english"; уровень без разделителя ("React Native") остается частью названия
+ */
+export function normalizeSkill(skill: string): string {
+  const base = skill
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/\([^)]*\)/g, ' ')
+    .split(/\s[—–-]\s|:/)[0]
+    .replace(LEVEL_AFTER_COMMA_PATTERN, ' ')
+    .replace(/[^\p{L}\p{N}+#./\s-]/gu, ' ')
+    .replace(CEFR_LEVEL_PATTERN, ' ')
+    .replace(/\s+v?\d+(\.\d+)*\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return ALIAS_INDEX.get(base) ?? base;
+}
+
+/**
+ * Уровень владения языком по шкале CEFR: 0 (A1) … 5 (C2)
+ *
+ * "English B2" → 3, "Английский — свободно" → 4 (C1); null, если уровень не указан
+ */
+export function getLanguageLevel(language: string): number | null {
+  const match = language.toLowerCase().replace(/ё/g, 'е').match(LANGUAGE_LEVEL_PATTERN);
+  if (!match) return null;
+
+  return CEFR_LEVELS.indexOf(LEVEL_WORD_CEFR[match[1]] ?? match[1]);
+}
+
+/**
+ * Расстояние Левенштейна
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Похожесть строк от 0 до 1
+ */
+export function skillSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - levenshtein(a, b) / maxLength;
+}
+
+/**
+ * Способ, которым найдено совпадение
+ * - exact: одинаковое написание
+ * - alias: совпадение через словарь синонимов или после отбрасывания версии/уровня
+ * - partial: один навык целиком входит в другой ("Docker" и "Docker Compose")
+ * - fuzzy: близкое написание (опечатки, транслитерация)
+ */
+export type SkillMatchKind = 'exact' | 'alias' | 'partial' | 'fuzzy';
+
+export interface SkillMatch {
+  /** Навык из вакансии */
+  required: string;
+  /** Навык из резюме, который его покрывает */
+  candidate: string;
+  kind: SkillMatchKind;
+}
+
+/**
+ * Результат сравнения одного списка навыков
+ */
+export interface SkillOverlap {
+  matched: SkillMatch[];
+  /** Навыки вакансии, которых нет в резюме */
+  missing: string[];
+  /** Навыки резюме, которые вакансия не требует */
+  extra: string[];
+  /** Доля покрытых навыков вакансии (0-100) или null, если вакансия навыков не указала */
+  coverage: number | null;
+}
+
+/**
+ * Поиск совпадения для навыка вакансии среди навыков резюме
+ */
+function findMatch(
+  required: string,
+  normalizedRequired: string,
+  candidates: { skill: string; normalized: string }[]
+): SkillMatch | null {
+  const exact = candidates.find(candidate => candidate.skill.trim().toLowerCase() === required.trim().toLowerCase());
+  if (exact) return { required, candidate: exact.skill, kind: 'exact' };
+
+  const alias = candidates.find(candidate => candidate.normalized === normalizedRequired);
+  if (alias) return { required, candidate: alias.skill, kind: 'alias' };
+
+  const partial = candidates.find(candidate => {
+    const [shorter, longer] = candidate.normalized.length < normalizedRequired.length
+      ? [candidate.normalized, normalizedRequired]
+      : [normalizedRequired, candidate.normalized];
+    return shorter.length >= 3 && longer.split(' ').length > 1 && ` ${longer} `.includes(` ${shorter} `);
+  });
+  if (partial) return { required, candidate: partial.skill, kind: 'partial' };
+
+  if (normalizedRequired.length >= FUZZY_MIN_LENGTH) {
+    let best: { skill: string; similarity: number } | null = null;
+    for (const candidate of candidates) {
+      if (candidate.normalized.length < FUZZY_MIN_LENGTH) continue;
+      const similarity = skillSimilarity(candidate.normalized, normalizedRequired);
+      if (similarity >= FUZZY_MIN_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { skill: candidate.skill, similarity };
+      }
+    }
+    if (best) return { required, candidate: best.skill, kind: 'fuzzy' };
+  }
+
+  return null;
+}
+
+/**
+ * Сравнение навыков вакансии с навыками резюме
+ *
+ * @param candidateSkills - навыки из резюме
+ * @param requiredSkills - навыки из вакансии
+ */
+export function compareSkills(candidateSkills: readonly string[], requiredSkills: readonly string[]): SkillOverlap {
+  const uniqueByNormalized = (skills: readonly string[]) => {
+    const seen = new Set<string>();
+    return skills
+      .filter(skill => typeof skill === 'string' && skill.trim().length > 0)
+      .map(skill => ({ skill: skill.trim(), normalized: normalizeSkill(skill) }))
+      .filter(({ normalized }) => normalized.length > 0 && !seen.has(normalized) && (seen.add(normalized), true));
+  };
+
+  const candidates = uniqueByNormalized(candidateSkills);
+  const required = uniqueByNormalized(requiredSkills);
+
+  const matched: SkillMatch[] = [];
+  const missing: string[] = [];
+  const usedCandidates = new Set<string>();
+
+  for (const item of required) {
+    const match = findMatch(item.skill, item.normalized, candidates);
+    if (match) {
+      matched.push(match);
+      usedCandidates.add(match.candidate);
+    } else {
+      missing.push(item.skill);
+    }
+  }
+
+  return {
+    matched,
+    missing,
+    extra: candidates.filter(candidate => !usedCandidates.has(candidate.skill)).map(candidate => candidate.skill),
+    coverage: required.length > 0 ? Math.round((matched.length / required.length) * 100) : null,
+  };
+}
+
+/**
+ * Упоминания навыков в свободном тексте (например, в сопроводительном письме)
+ */
+export interface SkillMentions {
+  mentioned: string[];
+  missing: string[];
+  /** Доля упомянутых навыков (0-100) или null, если список навыков пуст */
+  coverage: number | null;
+}
+
+/**
+ * Приведение свободного текста к виду, в котором ищутся навыки
+ */
+function normalizeText(text: string): string {
+  return ` ${text.toLowerCase().replace(/ё/g, 'е').replace(/[^\p{L}\p{N}+#./]+/gu, ' ')} `
+    .replace(/[./]+(?=\s)/g, '');
+}
+
+/**
+ * Можно ли искать написание навыка в свободном тексте
+ *
+ * Каноническое название ищется всегда, синонимы - только достаточно длинные и однозначные
+ */
+function isTextSearchable(spelling: string, canonical: string): boolean {
+  if (spelling === canonical) return true;
+  return spelling.length >= TEXT_ALIAS_MIN_LENGTH && !TEXT_AMBIGUOUS_ALIASES.has(spelling);
+}
+
+/**
+ * Поиск навыков в тексте: по исходному написанию, каноническому названию и синонимам
+ *
+ * Навык считается упомянутым, если любое из написаний встречается отдельным словом.
+ * Короткие и многозначные синонимы пропускаются, даже если навык так и записан в вакансии ("Go"):
+ * такой навык засчитывается только по однозначному написанию ("Golang")
+ */
+export function findSkillMentions(text: string, skills: readonly string[]): SkillMentions {
+  const haystack = normalizeText(text);
+  const seen = new Set<string>();
+  const mentioned: string[] = [];
+  const missing: string[] = [];
+
+  for (const skill of skills) {
+    if (typeof skill !== 'string' || skill.trim().length === 0) continue;
+    const canonical = normalizeSkill(skill);
+    if (!canonical || seen.has(canonical)) continue;
+    seen.add(canonical);
+
+    const spellings = [skill, canonical, ...(SKILL_ALIASES[canonical] ?? [])]
+      .map(spelling => normalizeText(spelling).trim())
+      .filter(spelling => spelling.length > 0 && isTextSearchable(spelling, normalizeText(canonical).trim()));
+
+    if (spellings.some(spelling => haystack.includes(` ${spelling} `))) {
+      mentioned.push(skill.trim());
+    } else {
+      missing.push(skill.trim());
+    }
+  }
+
+  const total = mentioned.length + missing.length;
+  return {
+    mentioned,
+    missing,
+    coverage: total > 0 ? Math.round((mentioned.length / total) * 100) : null,
+  };
+}
+
+/**
+ * Минимальная форма данных с навыками (ResumeData и JobData)
+ */
+export interface SkillsSource {
+  skills?: {
+    hard_skills?: readonly string[];
+    soft_skills?: readonly string[];
+    languages?: readonly string[];
+  };
+  required_skills?: readonly string[];
+}
+
+/**
+ * Мгновенная оценка навыков до ответа AI
+ */
+export interface SkillPreScore {
+  hardSkills: SkillOverlap;
+  languages: SkillOverlap;
+}
+
+/**
+ * Локальная оценка покрытия hard skills и языков вакансии навыками резюме
+ */
+export function computeSkillPreScore(resume: SkillsSource, job: SkillsSource): SkillPreScore {
+  const jobHardSkills = job.skills?.hard_skills?.length ? job.skills.hard_skills : job.required_skills ?? [];
+
+  return {
+    hardSkills: compareSkills(resume.skills?.hard_skills ?? [], jobHardSkills),
+    languages: compareSkills(resume.skills?.languages ?? [], job.skills?.languages ?? []),
+  };
+}
+
+/**
+ * Сверка локальной оценки с оценкой AI
+ * - agree: оценки расходятся не более чем на SCORE_AGREEMENT_THRESHOLD баллов
+ * - ai_higher / ai_lower: AI учел контекст (опыт, смежные навыки) и оценил иначе
+ */
+export type ScoreAgreement = 'agree' | 'ai_higher' | 'ai_lower';
+
+export const SCORE_AGREEMENT_THRESHOLD = 15;
+
+export interface ScoreReconciliation {
+  local: number;
+  ai: number;
+  /** ai - local */
+  delta: number;
+  agreement: ScoreAgreement;
+}
+
+/**
+ * Сравнение локального покрытия hard skills с баллом AI breakdown.hard_skills
+ *
+ * @returns null, если локальная оценка не вычислена (в вакансии нет навыков)
+ */
+export function reconcileHardSkillScore(preScore: SkillPreScore, aiHardSkillsScore: number): ScoreReconciliation | null {
+  const local = preScore.hardSkills.coverage;
+  if (local === null) return null;
+
+  const delta = Math.round(aiHardSkillsScore - local);
+  const agreement: ScoreAgreement = Math.abs(delta) <= SCORE_AGREEMENT_THRESHOLD
+    ? 'agree'
+    : delta > 0 ? 'ai_higher' : 'ai_lower';
+
+  return { local, ai: aiHardSkillsScore, delta, agreement };
+}
@@ -0,0 +1,129 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { extractHhVacancyId, fetchHhVacancy, HttpClient, mapHhVacancy } from './hhApi.ts';
+import { mergeParsedVacancy } from './parsers/index.ts';
+import { JOB_DATA_SCHEMA } from '../_shared/generationSchemas.ts';
+import { validateJsonSchema } from '../_shared/jsonSchema.ts';
+
+/**
+ * Тесты импорта вакансий через API hh.ru на записанных ответах API
+ *
+ * Ответы GET /vacancies/{id} лежат в ./fixtures и отдаются через httpClient без сети.
+ * Запуск: deno test --allow-read supabase/functions
+ */
+
+const readFixture = (name: string) => Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+/** Ответ AI этапа, с которым объединяется вакансия из API */
+const AI_JOB_DATA = {
+  job_title: 'Frontend-разработчик',
+  company_name: 'Ромашка',
+  skills: { hard_skills: ['JavaScript'], soft_skills: ['Коммуникабельность'], languages: ['Английский B2'] },
+};
+
+interface RecordedRequest {
+  url: string;
+  headers: Headers;
+}
+
+/**
+ * HTTP клиент, отдающий записанный ответ и запоминающий запросы
+ */
+function recordedClient(body: string, status = 200): { httpClient: HttpClient; requests: RecordedRequest[] } {
+  const requests: RecordedRequest[] = [];
+  const httpClient: HttpClient = (url, init) => {
+    requests.push({ url, headers: new Headers(init?.headers) });
+    return Promise.resolve(new Response(body, { status, headers: { 'Content-Type': 'application/json' } }));
+  };
+  return { httpClient, requests };
+}
+
+Deno.test('вакансия из API hh.ru преобразуется в данные вакансии', async () => {
+  const { httpClient, requests } = recordedClient(await readFixture('hh-vacancy.json'));
+
+  const vacancy = await fetchHhVacancy('123456', { httpClient, userAgent: 'TestBot/1.0 (test@example.com)' });
+
+  deepStrictEqual(vacancy, {
+    job_title: 'Senior Frontend-разработчик (React)',
+    company_name: 'ООО Ромашка',
+    location: { city: 'Москва' },
+    employment_type: 'Полная занятость, Полный день',
+    experience_level: 'От 3 до 6 лет',
+    description: [
+      'Чем предстоит заниматься:',
+      '',
+      '• Разрабатывать интерфейсы на React и TypeScript',
+      '• Развивать дизайн-систему',
+      'Мы ожидаем:',
+      '',
+      '• Опыт коммерческой разработки от 3 лет',
+    ].join('\n'),
+    key_skills: ['React', 'TypeScript', 'Redux'],
+    salary: { from: 250000, to: 350000, currency: 'RUB', gross: false },
+  });
+
+  strictEqual(requests.length, 1);
+  strictEqual(requests[0].url, 'https://api.hh.ru/vacancies/123456');
+  strictEqual(requests[0].headers.get('HH-User-Agent'), 'TestBot/1.0 (test@example.com)');
+});
+
+Deno.test('зарплата без валюты не сохраняется, а данные вакансии проходят JOB_DATA_SCHEMA', async () => {
+  const { httpClient } = recordedClient(await readFixture('hh-vacancy-salary-without-currency.json'));
+
+  const vacancy = await fetchHhVacancy('654321', { httpClient });
+
+  strictEqual(vacancy?.job_title, 'Тестировщик');
+  strictEqual(vacancy?.location.city, 'Санкт-Петербург');
+  strictEqual(vacancy?.salary, undefined);
+
+  const jobData = mergeParsedVacancy(AI_JOB_DATA, vacancy!);
+  strictEqual('salary' in jobData, false);
+  deepStrictEqual(validateJsonSchema(jobData, JOB_DATA_SCHEMA).errors, []);
+});
+
+Deno.test('зарплата с валютой проходит JOB_DATA_SCHEMA', async () => {
+  const { httpClient } = recordedClient(await readFixture('hh-vacancy.json'));
+
+  const jobData = mergeParsedVacancy(AI_JOB_DATA, (await fetchHhVacancy('123456', { httpClient }))!);
+
+  deepStrictEqual(validateJsonSchema(jobData, JOB_DATA_SCHEMA).errors, []);
+});
+
+Deno.test('зарплата без обеих границ или с некорректным кодом валюты не сохраняется', async () => {
+  const recorded = JSON.parse(await readFixture('hh-vacancy.json'));
+
+  for (const salary of [
+    { from: null, to: null, currency: 'RUR', gross: false },
+    { from: 100000, to: null, currency: '', gross: false },
+    { from: 100000, to: null, currency: 'руб', gross: false },
+  ]) {
+    strictEqual(mapHhVacancy({ ...recorded, salary })?.salary, undefined);
+  }
+
+  deepStrictEqual(mapHhVacancy({ ...recorded, salary: { from: 3000, to: null, currency: 'usd' } })?.salary, {
+    from: 3000,
+    to: null,
+    currency: 'USD',
+  });
+});
+
+Deno.test('недоступная вакансия (404) возвращает null', async () => {
+  const { httpClient } = recordedClient(await readFixture('hh-vacancy-not-found.json'), 404);
+
+  strictEqual(await fetchHhVacancy('999999999', { httpClient }), null);
+});
+
+Deno.test('ответ без названия или описания и сетевая ошибка возвращают null', async () => {
+  const { httpClient } = recordedClient(await readFixture('hh-vacancy-not-found.json'));
+  strictEqual(await fetchHhVacancy('999999999', { httpClient }), null);
+
+  const failingClient: HttpClient = () => Promise.reject(new TypeError('network error'));
+  strictEqual(await fetchHhVacancy('123456', { httpClient: failingClient }), null);
+});
+
+Deno.test('ID вакансии извлекается только из ссылок на вакансию hh.ru', () => {
+  strictEqual(extractHhVacancyId(new URL('https://hh.ru/vacancy/123456')), '123456');
+  strictEqual(extractHhVacancyId(new URL('https://spb.hh.ru/vacancy/123456/?from=main')), '123456');
+  strictEqual(extractHhVacancyId(new URL('https://hh.kz/vacancy/42')), '42');
+  strictEqual(extractHhVacancyId(new URL('https://hh.ru/employer/1234/vacancy/123456')), null);
+  strictEqual(extractHhVacancyId(new URL('https://career.habr.com/vacancy/123456')), null);
+});
@@ -0,0 +1,151 @@
+import { htmlToText } from './parsers/html.ts';
+import { ParsedVacancy, VacancySalary } from './parsers/vacancy.ts';
+
+/**
+ * Импорт вакансий HeadHunter через публичное API (GET /vacancies/{id})
+ *
+ * Для ссылок hh.ru API надежнее разбора страницы: поля приходят структурой,
+ * а страница может отдать капчу. HTTP слой передается параметром,
+ * поэтому маппинг проверяется на записанных ответах API без сети.
+ */
+
+/**
+ * HTTP клиент с интерфейсом fetch
+ */
+export type HttpClient = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface HhApiOptions {
+  /** HTTP клиент, по умолчанию fetch */
+  httpClient?: HttpClient;
+  /** Значение HH-User-Agent (обязательный заголовок API hh.ru) */
+  userAgent?: string;
+  baseUrl?: string;
+  timeout?: number;
+}
+
+const HH_API_BASE_URL = 'https://api.hh.ru';
+const HH_API_TIMEOUT = 15000;
+const DEFAULT_USER_AGENT = 'CoverLetterBot/1.0';
+const HH_DOMAINS = ['hh.ru', 'hh.kz', 'hh.by', 'hh.uz'];
+
+// hh.ru использует устаревший код рубля
+const CURRENCY_CODES: Record<string, string> = {
+  RUR: 'RUB',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Название из справочного поля API ({ id, name })
+ */
+function dictionaryName(value: unknown): string {
+  return isObject(value) ? asString(value.name) : '';
+}
+
+/**
+ * ID вакансии из ссылки hh.ru или null, если это не ссылка на вакансию hh.ru
+ */
+export function extractHhVacancyId(url: URL): string | null {
+  const hostname = url.hostname.toLowerCase();
+  const isHeadHunter = HH_DOMAINS.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+  if (!isHeadHunter) return null;
+
+  return /^\/vacancy\/(\d+)\/?$/.exec(url.pathname)?.[1] ?? null;
+}
+
+/**
+ * Зарплатная вилка из поля salary
+ *
+ * Без кода валюты вилка не сохраняется: JOB_DATA_SCHEMA требует код ISO 4217
+ */
+function mapSalary(value: unknown): VacancySalary | undefined {
+  if (!isObject(value)) return undefined;
+
+  const from = typeof value.from === 'number' ? value.from : null;
+  const to = typeof value.to === 'number' ? value.to : null;
+  if (from === null && to === null) return undefined;
+
+  const code = asString(value.currency).toUpperCase();
+  const currency = CURRENCY_CODES[code] ?? code;
+  if (!/^[A-Z]{3}$/.test(currency)) return undefined;
+
+  return {
+    from,
+    to,
+    currency,
+    ...(typeof value.gross === 'boolean' ? { gross: value.gross } : {}),
+  };
+}
+
+/**
+ * Преобразование ответа GET /vacancies/{id} в данные вакансии
+ *
+ * @returns данные вакансии или null, если ответ не похож на вакансию
+ */
+export function mapHhVacancy(data: unknown): ParsedVacancy | null {
+  if (!isObject(data)) return null;
+
+  const jobTitle = asString(data.name);
+  const description = htmlToText(asString(data.description));
+  if (!jobTitle || !description) return null;
+
+  const address = isObject(data.address) ? data.address : {};
+  const keySkills = Array.isArray(data.key_skills)
+    ? data.key_skills.map(dictionaryName).filter(name => name.length > 0)
+    : [];
+
+  return {
+    job_title: jobTitle,
+    company_name: dictionaryName(data.employer),
+    location: { city: asString(address.city) || dictionaryName(data.area) || undefined },
+    // "Полная занятость, Полный день" - как в шапке страницы вакансии
+    employment_type: [dictionaryName(data.employment), dictionaryName(data.schedule)].filter(Boolean).join(', '),
+    experience_level: dictionaryName(data.experience),
+    description,
+    key_skills: [...new Set(keySkills)],
+    salary: mapSalary(data.salary),
+  };
+}
+
+/**
+ * Загрузка вакансии из API hh.ru
+ *
+ * @param vacancyId - ID вакансии из ссылки
+ * @param options - HTTP клиент и параметры запроса
+ * @returns данные вакансии или null, если вакансия недоступна (архив, 404, лимиты API)
+ */
+export async function fetchHhVacancy(vacancyId: string, options: HhApiOptions = {}): Promise<ParsedVacancy | null> {
+  const httpClient = options.httpClient ?? fetch;
+  const url = `${options.baseUrl ?? HH_API_BASE_URL}/vacancies/${encodeURIComponent(vacancyId)}`;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? HH_API_TIMEOUT);
+
+  try {
+    const response = await httpClient(url, {
+      headers: {
+        'Accept': 'application/json',
+        'HH-User-Agent': options.userAgent ?? DEFAULT_USER_AGENT,
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      console.warn('⚠️ API hh.ru вернуло ошибку:', response.status, vacancyId);
+      return null;
+    }
+
+    return mapHhVacancy(await response.json());
+  } catch (error) {
+    console.warn('⚠️ Не удалось получить вакансию из API hh.ru:', vacancyId, error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,178 @@
+import { createAiProxyHandler, normalizeJobData, readJsonBody, serverError } from '../_shared/aiProxy.ts';
+import { extractHhVacancyId, fetchHhVacancy } from './hhApi.ts';
+import { findVacancyHtmlParser, mergeParsedVacancy, ParsedVacancy, parseVacancyHtml, vacancyToText } from './parsers/index.ts';
+
+/**
+ * Supabase Edge Function - прокси анализа вакансии
+ *
+ * Принимает один из вариантов:
+ * - JSON { vacancy_url } - ссылка на вакансию
+ * - JSON { vacancy_text } - текст вакансии (вставленный или из TXT файла)
+ * - multipart/form-data с полем vacancy_file - файл вакансии PDF или DOCX
+ *
+ * Вакансии hh.ru загружаются через API hh.ru (hhApi.ts), страницы Habr Career
+ * и Djinni (и hh.ru, если API недоступно) разбираются локальными парсерами (parsers/),
+ * AI этапу отправляется только текст вакансии, чтобы дополнить soft skills и языки.
+ * Если страницу не удалось загрузить или разобрать, ссылка уходит на upstream как раньше.
+ *
+ * Подставляет user_id из JWT токена и возвращает нормализованный JobData.
+ */
+
+// Константы для валидации (совпадают с src/lib/aiGateway.ts)
+const VACANCY_TEXT_MIN_LENGTH = 50;
+const VACANCY_TEXT_MAX_LENGTH = 50000;
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB в байтах
+const ALLOWED_FILE_EXTENSIONS = ['.pdf', '.docx'];
+const PAGE_FETCH_TIMEOUT = 15000;
+const PAGE_MAX_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Загрузка и локальный разбор страницы вакансии
+ * Возвращает null, если для сайта нет парсера или страница недоступна
+ */
+async function parseVacancyPage(url: URL): Promise<ParsedVacancy | null> {
+  // Загружаем только страницы сайтов с парсерами
+  if ((url.protocol !== 'https:' && url.protocol !== 'http:') || !findVacancyHtmlParser(url)) {
+    return null;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), PAGE_FETCH_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'text/html',
+        'Accept-Language': 'ru-RU,ru;q=0.9,en;q=0.8',
+        'User-Agent': 'Mozilla/5.0 (compatible; CoverLetterBot/1.0)',
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      console.warn('⚠️ Страница вакансии недоступна:', response.status, url.href);
+      return null;
+    }
+
+    const html = await response.text();
+    if (html.length > PAGE_MAX_SIZE) {
+      console.warn('⚠️ Страница вакансии слишком большая для разбора:', url.href);
+      return null;
+    }
+
+    // После редиректа (капча, страница входа) парсер вернет null
+    return parseVacancyHtml(new URL(response.url || url.href), html);
+  } catch (error) {
+    console.warn('⚠️ Не удалось загрузить страницу вакансии:', url.href, error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Структурированные данные вакансии по ссылке: API hh.ru, затем разбор страницы
+ */
+async function loadVacancy(vacancyUrl: string): Promise<ParsedVacancy | null> {
+  let url: URL;
+  try {
+    url = new URL(vacancyUrl);
+  } catch {
+    return null;
+  }
+
+  const hhVacancyId = extractHhVacancyId(url);
+  if (hhVacancyId) {
+    const vacancy = await fetchHhVacancy(hhVacancyId, { userAgent: Deno.env.get('HH_USER_AGENT') ?? undefined });
+    if (vacancy) return vacancy;
+  }
+
+  return parseVacancyPage(url);
+}
+
+/**
+ * Файл вакансии пересылается на upstream так же, как файл резюме
+ */
+async function buildFileRequest(req: Request, userId: string) {
+  let formData: FormData;
+  try {
+    formData = await req.formData();
+  } catch {
+    throw serverError(400, 'request.multipartVacancyExpected');
+  }
+
+  const file = formData.get('vacancy_file');
+  if (!(file instanceof File)) {
+    throw serverError(400, 'request.missingParam', { name: 'vacancy_file' });
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    throw serverError(400, 'request.fileTooLarge', { maxSize: MAX_FILE_SIZE / 1024 / 1024 });
+  }
+
+  const extension = '.' + file.name.split('.').pop()?.toLowerCase();
+  if (!ALLOWED_FILE_EXTENSIONS.includes(extension)) {
+    throw serverError(400, 'request.unsupportedVacancyFile');
+  }
+
+  const upstreamForm = new FormData();
+  upstreamForm.append('file_itself', file);
+  upstreamForm.append('user_id', userId);
+
+  // Content-Type с boundary выставит fetch
+  return { body: upstreamForm };
+}
+
+Deno.serve(createAiProxyHandler({
+  stage: 'analyze-vacancy',
+  buildUpstreamRequest: async (req, user) => {
+    if (req.headers.get('Content-Type')?.startsWith('multipart/form-data')) {
+      return buildFileRequest(req, user.id);
+    }
+
+    const { vacancy_url, vacancy_text } = await readJsonBody(req);
+
+    if (typeof vacancy_text === 'string') {
+      const text = vacancy_text.trim();
+      if (text.length < VACANCY_TEXT_MIN_LENGTH) {
+        throw serverError(400, 'request.vacancyTextTooShort', { min: VACANCY_TEXT_MIN_LENGTH });
+      }
+      if (text.length > VACANCY_TEXT_MAX_LENGTH) {
+        throw serverError(400, 'request.vacancyTextTooLong', { max: VACANCY_TEXT_MAX_LENGTH });
+      }
+
+      return {
+        body: JSON.stringify({ vacancy_text: text, user_id: user.id }),
+        contentType: 'application/json',
+      };
+    }
+
+    if (typeof vacancy_url !== 'string' || vacancy_url.trim().length === 0) {
+      throw serverError(400, 'request.missingVacancySource');
+    }
+
+    const parsedVacancy = await loadVacancy(vacancy_url.trim());
+    if (parsedVacancy) {
+      console.log('🧩 Вакансия разобрана локально:', {
+        url: vacancy_url.trim(),
+        jobTitle: parsedVacancy.job_title,
+        keySkills: parsedVacancy.key_skills.length
+      });
+
+      return {
+        body: JSON.stringify({
+          vacancy_text: vacancyToText(parsedVacancy, VACANCY_TEXT_MAX_LENGTH),
+          user_id: user.id
+        }),
+        contentType: 'application/json',
+        finalize: jobData => mergeParsedVacancy(jobData, parsedVacancy),
+      };
+    }
+
+    return {
+      body: JSON.stringify({ vacancy_url: vacancy_url.trim(), user_id: user.id }),
+      contentType: 'application/json',
+    };
+  },
+  normalize: normalizeJobData,
+}));
@@ -0,0 +1,35 @@
+import { byClass, byTag, findAllTexts, findElements, findText, getAttribute, htmlToText } from './html.ts';
+import { findJobPosting, parseJobPosting } from './jobPosting.ts';
+import { combineVacancyParts, VacancyHtmlParser } from './vacancy.ts';
+
+// Блок описания в разных версиях разметки Djinni
+const DESCRIPTION_CLASSES = ['job-post__description', 'job-post-description', 'job-description'];
+
+/**
+ * Парсер страниц вакансий Djinni (djinni.co)
+ *
+ * Основные поля берутся из JobPosting, теги навыков - из ссылок
+ * на поиск по ключевому слову
+ */
+export const djinniParser: VacancyHtmlParser = {
+  id: 'djinni',
+  domains: ['djinni.co'],
+  parse: html => {
+    const posting = findJobPosting(html);
+    const descriptionHtml = DESCRIPTION_CLASSES
+      .map(className => findElements(html, byClass(className))[0])
+      .find(element => element !== undefined);
+
+    const skillLinks = findAllTexts(html, (attributes, tagName) => {
+      if (tagName !== 'a') return false;
+      const href = getAttribute(attributes, 'href') ?? '';
+      return href.startsWith('/jobs/') && /[?&](primary_keyword|keywords)=/.test(href);
+    });
+
+    return combineVacancyParts(posting ? parseJobPosting(posting) : {}, {
+      job_title: findText(html, byTag('h1')),
+      description: descriptionHtml ? htmlToText(descriptionHtml) : '',
+      key_skills: skillLinks,
+    });
+  },
+};
@@ -0,0 +1,57 @@
+import { byClass, findAllTexts, findElements, findText, getAttribute, htmlToText } from './html.ts';
+import { findJobPosting, parseJobPosting } from './jobPosting.ts';
+import { combineVacancyParts, VacancyHtmlParser } from './vacancy.ts';
+
+function safeDecodeUri(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Ссылка на поиск вакансий с параметром фильтра
+ * На странице вакансии навыки, квалификация и город - ссылки на такие фильтры
+ */
+function byFilterLink(...params: string[]) {
+  return (attributes: string, tagName: string) => {
+    if (tagName !== 'a') return false;
+    const href = safeDecodeUri(getAttribute(attributes, 'href') ?? '');
+    return href.startsWith('/vacancies?') && params.some(param => href.includes(`${param}=`));
+  };
+}
+
+/**
+ * Парсер страниц вакансий Habr Career (career.habr.com)
+ */
+export const habrCareerParser: VacancyHtmlParser = {
+  id: 'habr',
+  domains: ['career.habr.com'],
+  parse: html => {
+    const posting = findJobPosting(html);
+    const [descriptionHtml] = findElements(html, byClass('vacancy-description__text'));
+
+    // Навыки, квалификация, город и режим работы идут в шапке вакансии до описания;
+    // ниже описания - похожие вакансии со своими ссылками на фильтры
+    const descriptionStart = html.lastIndexOf('<', html.indexOf('vacancy-description__text'));
+    const metaHtml = descriptionStart > 0 ? html.slice(0, descriptionStart) : html;
+    const pageText = htmlToText(metaHtml);
+
+    // Режим работы указан текстом рядом с городом
+    const employment = [
+      /Неполный рабочий день/i.test(pageText) ? 'Неполный рабочий день' : /Полный рабочий день/i.test(pageText) ? 'Полный рабочий день' : '',
+      /Можно удал[её]нно/i.test(pageText) ? 'Можно удаленно' : '',
+    ].filter(Boolean).join(', ');
+
+    return combineVacancyParts(posting ? parseJobPosting(posting) : {}, {
+      job_title: findText(html, byClass('page-title__title')),
+      company_name: findText(html, byClass('company_name')),
+      location: { city: findText(metaHtml, byFilterLink('city_id')) || undefined },
+      employment_type: employment,
+      experience_level: findText(metaHtml, byFilterLink('qid')),
+      description: descriptionHtml ? htmlToText(descriptionHtml) : '',
+      key_skills: findAllTexts(metaHtml, byFilterLink('skills[]')),
+    });
+  },
+};
@@ -0,0 +1,47 @@
+import { byAttribute, findAllTexts, findElements, findText, htmlToText } from './html.ts';
+import { findJobPosting, parseJobPosting } from './jobPosting.ts';
+import { combineVacancyParts, VacancyHtmlParser } from './vacancy.ts';
+
+/**
+ * Текст первого элемента с одним из значений data-qa
+ * (разметка hh.ru меняется, старые и новые варианты перечислены по порядку)
+ */
+function findByQa(html: string, ...values: string[]): string {
+  for (const value of values) {
+    const text = findText(html, byAttribute('data-qa', value));
+    if (text) return text;
+  }
+  return '';
+}
+
+/**
+ * Парсер страниц вакансий HeadHunter (hh.ru, hh.kz, hh.by, hh.uz)
+ *
+ * Блоки страницы размечены атрибутом data-qa
+ */
+export const headhunterParser: VacancyHtmlParser = {
+  id: 'hh',
+  domains: ['hh.ru', 'hh.kz', 'hh.by', 'hh.uz'],
+  parse: html => {
+    const posting = findJobPosting(html);
+    const [descriptionHtml] = findElements(html, byAttribute('data-qa', 'vacancy-description'));
+
+    // Адрес на hh.ru: "Москва, Тверская улица, 1" - город идет первым
+    const address = findByQa(html, 'vacancy-view-location', 'vacancy-view-raw-address');
+
+    return combineVacancyParts(posting ? parseJobPosting(posting) : {}, {
+      job_title: findByQa(html, 'vacancy-title'),
+      company_name: findByQa(html, 'vacancy-company-name', 'bloko-header-2'),
+      location: { city: address.split(',')[0].trim() || undefined },
+      employment_type: findByQa(html, 'common-employment-text', 'vacancy-view-employment-mode'),
+      experience_level: findByQa(html, 'vacancy-experience'),
+      description: descriptionHtml ? htmlToText(descriptionHtml) : '',
+      key_skills: [
+        ...new Set([
+          ...findAllTexts(html, byAttribute('data-qa', 'skills-element')),
+          ...findAllTexts(html, byAttribute('data-qa', 'bloko-tag__text')),
+        ]),
+      ],
+    });
+  },
+};
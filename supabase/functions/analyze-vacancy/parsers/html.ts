@@ -0,0 +1,158 @@
+/**
+ * Утилиты для разбора HTML страниц вакансий
+ *
+ * В Edge Functions нет DOM, поэтому элементы ищутся по открывающему тегу
+ * с балансировкой вложенных тегов того же имени. Этого достаточно для
+ * страниц вакансий, где нужные блоки размечены атрибутами (data-qa, class).
+ */
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  laquo: '«',
+  raquo: '»',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  bull: '•',
+};
+
+/**
+ * Условие отбора элемента по имени тега и строке атрибутов
+ */
+export type ElementPredicate = (attributes: string, tagName: string) => boolean;
+
+/**
+ * Декодирование HTML сущностей (&amp;, &#1055;, &#x41F;)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Значение атрибута из строки атрибутов открывающего тега
+ */
+export function getAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(attributes);
+  if (!match) return null;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+}
+
+/**
+ * Элемент с точным значением атрибута: byAttribute('data-qa', 'vacancy-title')
+ */
+export function byAttribute(name: string, value: string): ElementPredicate {
+  return attributes => getAttribute(attributes, name) === value;
+}
+
+/**
+ * Элемент с CSS классом
+ */
+export function byClass(className: string): ElementPredicate {
+  return attributes => (getAttribute(attributes, 'class') ?? '').split(/\s+/).includes(className);
+}
+
+/**
+ * Элемент с тегом
+ */
+export function byTag(tag: string): ElementPredicate {
+  return (_attributes, tagName) => tagName === tag;
+}
+
+/**
+ * Позиция закрывающего тега с учетом вложенных тегов того же имени
+ */
+function findClosingTag(html: string, tagName: string, from: number): number {
+  const tagPattern = new RegExp(`<(/?)${tagName}(?=[\\s>/])[^>]*>`, 'gi');
+  tagPattern.lastIndex = from;
+
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index;
+  }
+
+  return html.length;
+}
+
+/**
+ * Внутренний HTML всех элементов, подходящих под условие, в порядке появления
+ */
+export function findElements(html: string, predicate: ElementPredicate): string[] {
+  const results: string[] = [];
+  const openTag = /<([a-z][a-z\d-]*)(\s[^>]*)?>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = openTag.exec(html))) {
+    const tagName = match[1].toLowerCase();
+    const attributes = match[2] ?? '';
+    if (!predicate(attributes, tagName)) continue;
+
+    const start = match.index + match[0].length;
+    if (VOID_ELEMENTS.has(tagName) || attributes.trimEnd().endsWith('/')) {
+      results.push('');
+      continue;
+    }
+
+    results.push(html.slice(start, findClosingTag(html, tagName, start)));
+  }
+
+  return results;
+}
+
+/**
+ * Преобразование HTML в текст с сохранением абзацев и пунктов списков
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li(?:\s[^>]*)?>/gi, '\n• ')
+      .replace(/<\/(p|div|h[1-6]|ul|ol|section|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Текст в одну строку (для заголовков, названий, тегов)
+ */
+export function htmlToInlineText(html: string): string {
+  return htmlToText(html).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Текст первого подходящего элемента или пустая строка
+ */
+export function findText(html: string, predicate: ElementPredicate): string {
+  const [element] = findElements(html, predicate);
+  return element === undefined ? '' : htmlToInlineText(element);
+}
+
+/**
+ * Тексты всех подходящих элементов без пустых и повторов
+ */
+export function findAllTexts(html: string, predicate: ElementPredicate): string[] {
+  const texts = findElements(html, predicate).map(htmlToInlineText).filter(text => text.length > 0);
+  return [...new Set(texts)];
+}
@@ -0,0 +1,113 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { findVacancyHtmlParser, parseVacancyHtml } from './index.ts';
+
+/**
+ * Тесты локальных парсеров страниц вакансий на сохраненных страницах
+ *
+ * Фикстуры в ./fixtures - сокращенные страницы hh.ru, Habr Career и Djinni
+ * с оригинальной разметкой нужных блоков и JSON-LD JobPosting.
+ * Запуск: deno test --allow-read supabase/functions
+ */
+
+const readFixture = (name: string) => Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+Deno.test('hh.ru: поля вакансии из разметки data-qa с дополнением из JSON-LD', async () => {
+  const vacancy = parseVacancyHtml(new URL('https://spb.hh.ru/vacancy/123456'), await readFixture('hh.html'));
+
+  deepStrictEqual(vacancy, {
+    job_title: 'Senior Frontend-разработчик (React)',
+    company_name: 'ООО Ромашка',
+    location: { city: 'Москва', country: 'RU' },
+    employment_type: 'Полная занятость',
+    experience_level: '3–6 лет',
+    description: [
+      'Чем предстоит заниматься:',
+      '',
+      '• Разрабатывать интерфейсы личного кабинета на React и TypeScript',
+      '',
+      '• Развивать дизайн-систему & библиотеку компонентов',
+      '',
+      'Мы ожидаем:',
+      '',
+      '• Опыт коммерческой разработки от 3 лет',
+      '',
+      '• Уверенное знание React, Redux и Webpack',
+      '',
+      'Условия: ДМС, гибкий график.',
+    ].join('\n'),
+    key_skills: ['React', 'TypeScript', 'Redux', 'Webpack'],
+  });
+});
+
+Deno.test('Habr Career: навыки и город только из шапки вакансии, без похожих вакансий', async () => {
+  const vacancy = parseVacancyHtml(new URL('https://career.habr.com/vacancies/1000123456'), await readFixture('habrCareer.html'));
+
+  deepStrictEqual(vacancy, {
+    job_title: 'Backend-разработчик (Go)',
+    company_name: 'Яндекс',
+    location: { city: 'Санкт-Петербург', country: 'Россия' },
+    employment_type: 'Полный рабочий день, Можно удаленно',
+    experience_level: 'Старший (Senior)',
+    description: [
+      'Команда Яндекс Go ищет backend-разработчика.',
+      '',
+      'Задачи',
+      '',
+      '• Проектировать высоконагруженные сервисы на Go',
+      '',
+      '• Оптимизировать запросы к PostgreSQL',
+      '',
+      'Будет плюсом: опыт с Kubernetes.',
+    ].join('\n'),
+    key_skills: ['Go', 'PostgreSQL', 'gRPC'],
+  });
+});
+
+Deno.test('Djinni: JobPosting, заголовок h1 и теги навыков из ссылок на поиск', async () => {
+  const vacancy = parseVacancyHtml(new URL('https://djinni.co/jobs/123456-python-developer'), await readFixture('djinni.html'));
+
+  deepStrictEqual(vacancy, {
+    job_title: 'Python Developer',
+    company_name: 'Acme & Co',
+    location: { city: 'Kyiv', country: 'UA' },
+    employment_type: 'Полная занятость',
+    experience_level: 'от 2 лет',
+    description: [
+      'Acme is building a logistics platform.',
+      '',
+      'Requirements:',
+      '',
+      '• 2+ years of experience with Python',
+      '',
+      '• Django, PostgreSQL, Celery',
+      '',
+      'We offer: remote work, paid vacation.',
+    ].join('\n'),
+    key_skills: ['Python', 'Django', 'Celery'],
+  });
+});
+
+Deno.test('без разметки страницы вакансия собирается из JSON-LD', async () => {
+  const html = await readFixture('djinni.html');
+  const jsonLdOnly = html.slice(0, html.indexOf('<body>'));
+
+  const vacancy = parseVacancyHtml(new URL('https://djinni.co/jobs/123456'), jsonLdOnly);
+
+  strictEqual(vacancy?.job_title, 'Python Developer');
+  strictEqual(vacancy?.description, 'We are looking for a Python Developer.');
+  deepStrictEqual(vacancy?.key_skills, ['Python', 'Django']);
+});
+
+Deno.test('страница без названия или описания вакансии не разбирается', () => {
+  strictEqual(parseVacancyHtml(new URL('https://hh.ru/vacancy/1'), '<html><body><h1>Ошибка 404</h1></body></html>'), null);
+  strictEqual(parseVacancyHtml(new URL('https://career.habr.com/vacancies/1'), ''), null);
+});
+
+Deno.test('парсер выбирается по домену и поддоменам', () => {
+  strictEqual(findVacancyHtmlParser(new URL('https://spb.hh.ru/vacancy/1'))?.id, 'hh');
+  strictEqual(findVacancyHtmlParser(new URL('https://hh.kz/vacancy/1'))?.id, 'hh');
+  strictEqual(findVacancyHtmlParser(new URL('https://career.habr.com/vacancies/1'))?.id, 'habr');
+  strictEqual(findVacancyHtmlParser(new URL('https://djinni.co/jobs/1'))?.id, 'djinni');
+  strictEqual(findVacancyHtmlParser(new URL('https://www.linkedin.com/jobs/view/1')), undefined);
+  strictEqual(parseVacancyHtml(new URL('https://notahh.ru/vacancy/1'), '<h1>Вакансия</h1>'), null);
+});
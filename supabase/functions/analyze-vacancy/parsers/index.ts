@@ -0,0 +1,47 @@
+import { djinniParser } from './djinni.ts';
+import { habrCareerParser } from './habrCareer.ts';
+import { headhunterParser } from './headhunter.ts';
+import { ParsedVacancy, VacancyHtmlParser } from './vacancy.ts';
+
+export type { ParsedVacancy, VacancyHtmlParser, VacancySalary } from './vacancy.ts';
+export { mergeParsedVacancy, vacancyToText } from './vacancy.ts';
+
+/**
+ * Локальные парсеры страниц вакансий
+ *
+ * Для остальных сайтов вакансия разбирается AI этапом по ссылке
+ */
+export const VACANCY_HTML_PARSERS: VacancyHtmlParser[] = [
+  headhunterParser,
+  habrCareerParser,
+  djinniParser,
+];
+
+/**
+ * Парсер для ссылки на вакансию или undefined, если сайт не поддерживается
+ */
+export function findVacancyHtmlParser(url: URL): VacancyHtmlParser | undefined {
+  const hostname = url.hostname.toLowerCase();
+  return VACANCY_HTML_PARSERS.find(parser =>
+    parser.domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`))
+  );
+}
+
+/**
+ * Разбор HTML страницы вакансии
+ *
+ * @param url - ссылка, с которой получен HTML
+ * @param html - HTML страницы
+ * @returns данные вакансии или null, если сайт не поддерживается или страница не разобрана
+ */
+export function parseVacancyHtml(url: URL, html: string): ParsedVacancy | null {
+  const parser = findVacancyHtmlParser(url);
+  if (!parser) return null;
+
+  try {
+    return parser.parse(html);
+  } catch (error) {
+    console.error(`Ошибка локального парсера ${parser.id}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,123 @@
+import { decodeEntities, findElements, getAttribute, htmlToText } from './html.ts';
+import { ParsedVacancy } from './vacancy.ts';
+
+/**
+ * Разбор микроразметки schema.org JobPosting (JSON-LD)
+ *
+ * hh.ru, Habr Career и Djinni публикуют JobPosting для поисковиков,
+ * поэтому она служит базой, а разметка страницы уточняет поля
+ */
+
+const EMPLOYMENT_TYPES: Record<string, string> = {
+  FULL_TIME: 'Полная занятость',
+  PART_TIME: 'Частичная занятость',
+  CONTRACTOR: 'Проектная работа',
+  TEMPORARY: 'Временная работа',
+  INTERN: 'Стажировка',
+  VOLUNTEER: 'Волонтерство',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function asArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return value === undefined || value === null ? [] : [value];
+}
+
+function hasJobPostingType(value: Record<string, unknown>): boolean {
+  return asArray(value['@type']).includes('JobPosting');
+}
+
+/**
+ * Поиск JobPosting в JSON-LD (в том числе внутри массивов и @graph)
+ */
+function findJobPostingNode(value: unknown): Record<string, unknown> | null {
+  for (const item of asArray(value)) {
+    if (!isObject(item)) continue;
+    if (hasJobPostingType(item)) return item;
+
+    const nested = findJobPostingNode(item['@graph']);
+    if (nested) return nested;
+  }
+  return null;
+}
+
+/**
+ * JobPosting со страницы или null, если микроразметки нет
+ */
+export function findJobPosting(html: string): Record<string, unknown> | null {
+  const scripts = findElements(html, attributes => getAttribute(attributes, 'type') === 'application/ld+json');
+
+  for (const script of scripts) {
+    try {
+      const posting = findJobPostingNode(JSON.parse(script));
+      if (posting) return posting;
+    } catch {
+      // Битый JSON-LD не мешает разбору остальной страницы
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Опыт из experienceRequirements: строка или { monthsOfExperience }
+ */
+function formatExperience(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (!isObject(value)) return '';
+
+  const months = Number(value.monthsOfExperience);
+  if (!Number.isFinite(months)) return asString(value.description);
+  if (months <= 0) return 'Без опыта';
+  if (months < 12) return `от ${months} мес.`;
+
+  const years = Math.floor(months / 12);
+  return `от ${years} ${years === 1 ? 'года' : 'лет'}`;
+}
+
+/**
+ * Навыки из поля skills: массив строк или строка через запятую
+ */
+export function splitSkills(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value.map(asString)
+    : asString(value).split(/[,;\n]/).map(item => item.trim());
+  return [...new Set(items.filter(item => item.length > 0))];
+}
+
+/**
+ * Поля вакансии из JobPosting
+ */
+export function parseJobPosting(posting: Record<string, unknown>): Partial<ParsedVacancy> {
+  const organization = isObject(posting.hiringOrganization) ? posting.hiringOrganization : {};
+  const place = asArray(posting.jobLocation).find(isObject);
+  const address = place && isObject(place.address) ? place.address : {};
+  const country = isObject(address.addressCountry) ? address.addressCountry.name : address.addressCountry;
+
+  const employmentTypes = asArray(posting.employmentType)
+    .map(type => EMPLOYMENT_TYPES[asString(type).toUpperCase()] ?? asString(type))
+    .filter(Boolean);
+
+  // В JSON-LD описание часто закодировано повторно (&lt;p&gt;)
+  const description = asString(posting.description);
+
+  return {
+    job_title: decodeEntities(asString(posting.title)),
+    company_name: decodeEntities(asString(organization.name)),
+    location: {
+      city: asString(address.addressLocality) || undefined,
+      country: asString(country) || undefined,
+    },
+    employment_type: employmentTypes.join(', '),
+    experience_level: formatExperience(posting.experienceRequirements),
+    description: description ? htmlToText(decodeEntities(description)) : '',
+    key_skills: splitSkills(posting.skills),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Зарплатная вилка; одна из границ может отсутствовать
+ */
+export interface VacancySalary {
+  from: number | null;
+  to: number | null;
+  /** Код валюты ISO 4217 */
+  currency: string;
+  /** true - до вычета налогов */
+  gross?: boolean;
+}
+
+/**
+ * Данные вакансии, извлеченные локальным парсером со страницы сайта
+ *
+ * Парсер заполняет все, что есть в разметке. Soft skills, языки и отрасль
+ * на страницах не размечены - их дополняет AI этап по тексту вакансии.
+ */
+export interface ParsedVacancy {
+  job_title: string;
+  company_name: string;
+  location: { city?: string; country?: string };
+  employment_type: string;
+  experience_level: string;
+  description: string;
+  /** Теги ключевых навыков со страницы */
+  key_skills: string[];
+  salary?: VacancySalary;
+}
+
+/**
+ * Парсер страниц вакансий одного сайта
+ */
+export interface VacancyHtmlParser {
+  /** Идентификатор сайта, совпадает с id адаптера в src/lib/jobSites */
+  id: string;
+  /** Домены сайта; поддомены совпадают автоматически */
+  domains: string[];
+  /** Разбор HTML страницы вакансии; null, если страница не похожа на вакансию */
+  parse: (html: string) => ParsedVacancy | null;
+}
+
+/**
+ * Сборка вакансии из частей: более поздние непустые значения побеждают
+ *
+ * Обычно первая часть - JSON-LD JobPosting, вторая - разметка страницы.
+ * Без названия должности или описания вакансия считается неразобранной.
+ */
+export function combineVacancyParts(...parts: Partial<ParsedVacancy>[]): ParsedVacancy | null {
+  const vacancy: ParsedVacancy = {
+    job_title: '',
+    company_name: '',
+    location: {},
+    employment_type: '',
+    experience_level: '',
+    description: '',
+    key_skills: [],
+  };
+
+  for (const part of parts) {
+    if (part.job_title) vacancy.job_title = part.job_title;
+    if (part.company_name) vacancy.company_name = part.company_name;
+    if (part.location?.city) vacancy.location = { ...vacancy.location, city: part.location.city };
+    if (part.location?.country) vacancy.location = { ...vacancy.location, country: part.location.country };
+    if (part.employment_type) vacancy.employment_type = part.employment_type;
+    if (part.experience_level) vacancy.experience_level = part.experience_level;
+    if (part.description) vacancy.description = part.description;
+    if (part.key_skills?.length) vacancy.key_skills = part.key_skills;
+    if (part.salary) vacancy.salary = part.salary;
+  }
+
+  if (!vacancy.job_title || !vacancy.description) return null;
+
+  return vacancy;
+}
+
+/**
+ * Вилка в виде "от 100000 до 150000 RUB"
+ */
+function formatSalary(salary: VacancySalary): string {
+  const range = [
+    salary.from !== null ? `от ${salary.from}` : '',
+    salary.to !== null ? `до ${salary.to}` : '',
+  ].filter(Boolean);
+  return `${range.join(' ')} ${salary.currency}`.trim();
+}
+
+/**
+ * Текст вакансии для AI этапа
+ * Содержит размеченные поля, чтобы AI не противоречил локальному разбору
+ */
+export function vacancyToText(vacancy: ParsedVacancy, maxLength: number): string {
+  const location = [vacancy.location.city, vacancy.location.country].filter(Boolean).join(', ');
+  const lines = [
+    `Должность: ${vacancy.job_title}`,
+    vacancy.company_name && `Компания: ${vacancy.company_name}`,
+    location && `Местоположение: ${location}`,
+    vacancy.employment_type && `Занятость: ${vacancy.employment_type}`,
+    vacancy.experience_level && `Опыт: ${vacancy.experience_level}`,
+    vacancy.key_skills.length > 0 && `Ключевые навыки: ${vacancy.key_skills.join(', ')}`,
+    vacancy.salary && `Зарплата: ${formatSalary(vacancy.salary)}`,
+    '',
+    vacancy.description,
+  ].filter((line): line is string => typeof line === 'string');
+
+  return lines.join('\n').slice(0, maxLength);
+}
+
+/**
+ * Объединение ответа AI с локальным разбором
+ *
+ * Поля со страницы или API сайта важнее ответа AI; от AI берутся soft skills, языки,
+ * отрасль и hard skills, если на странице нет тегов навыков.
+ */
+export function mergeParsedVacancy(
+  jobData: Record<string, unknown>,
+  vacancy: ParsedVacancy
+): Record<string, unknown> {
+  const aiSkills = (jobData.skills ?? {}) as Record<string, unknown>;
+  const hardSkills = vacancy.key_skills.length > 0 ? vacancy.key_skills : aiSkills.hard_skills;
+
+  return {
+    ...jobData,
+    job_title: vacancy.job_title,
+    title: vacancy.job_title,
+    company_name: vacancy.company_name || jobData.company_name,
+    location: vacancy.location.city || vacancy.location.country ? vacancy.location : jobData.location,
+    employment_type: vacancy.employment_type || jobData.employment_type,
+    experience_level: vacancy.experience_level || jobData.experience_level,
+    description: vacancy.description,
+    skills: { ...aiSkills, hard_skills: hardSkills },
+    required_skills: hardSkills,
+    ...(vacancy.salary ? { salary: vacancy.salary } : {}),
+  };
+}
@@ -0,0 +1,77 @@
+import {
+  callUpstream,
+  createAiProxyHandler,
+  isObject,
+  normalizeLetter,
+  normalizeResumeData,
+  readJsonBody,
+  serverError,
+} from '../_shared/aiProxy.ts';
+import { collectResumeText, detectTextLanguage, isLetterLanguage, LETTER_LANGUAGES } from '../_shared/languageDetection.ts';
+import { validateJsonSchema } from '../_shared/jsonSchema.ts';
+import { LETTER_PROFILE_SCHEMA } from '../_shared/letterProfileSchema.ts';
+
+/**
+ * Supabase Edge Function - прокси генерации сопроводительного письма
+ *
+ * Принимает { resume_data, job_data, customization }, подставляет user_id
+ * из JWT токена и возвращает { letter_text }.
+ *
+ * customization.letter_language - язык письма (по умолчанию предлагается
+ * по языку вакансии). Если резюме написано на другом языке, оно сначала
+ * переводится на язык письма отдельным запросом к upstream.
+ *
+ * customization.letter_profile - профиль голоса пользователя (образцы абзацев,
+ * стоп-слова, приветствие, подпись, максимальная длина) вместо пресета стиля.
+ */
+
+Deno.serve(createAiProxyHandler({
+  stage: 'generate-letter',
+  buildUpstreamRequest: async (req, user) => {
+    const { resume_data, job_data, customization } = await readJsonBody(req);
+
+    if (!isObject(resume_data) || !isObject(job_data)) {
+      throw serverError(400, 'request.resumeAndJobRequired');
+    }
+
+    if (customization !== undefined && !isObject(customization)) {
+      throw serverError(400, 'request.mustBeObject', { field: 'customization' });
+    }
+
+    const letterLanguage = customization?.letter_language;
+    if (letterLanguage !== undefined && !isLetterLanguage(letterLanguage)) {
+      throw serverError(400, 'request.mustBeOneOf', {
+        field: 'customization.letter_language',
+        values: LETTER_LANGUAGES.join(', '),
+      });
+    }
+
+    const letterProfile = customization?.letter_profile;
+    if (letterProfile !== undefined) {
+      const profileErrors = validateJsonSchema(letterProfile, LETTER_PROFILE_SCHEMA).errors;
+      if (profileErrors.length > 0) {
+        throw serverError(400, 'request.invalidStructure', { field: 'customization.letter_profile' },
+          profileErrors.map(error => `customization.letter_profile${error.path}: ${error.message}`));
+      }
+    }
+
+    let resumeData = resume_data;
+    const resumeLanguage = detectTextLanguage(collectResumeText(resume_data));
+
+    if (letterLanguage && resumeLanguage && resumeLanguage !== letterLanguage) {
+      console.log(`🌐 generate-letter: перевод резюме ${resumeLanguage} → ${letterLanguage}`);
+      const translated = await callUpstream('translate-resume', JSON.stringify({
+        resume_data,
+        target_language: letterLanguage,
+        user_id: user.id,
+      }), 'application/json');
+      resumeData = normalizeResumeData(translated);
+    }
+
+    return {
+      body: JSON.stringify({ resume_data: resumeData, job_data, customization: customization ?? {}, user_id: user.id }),
+      contentType: 'application/json',
+    };
+  },
+  normalize: normalizeLetter,
+}));
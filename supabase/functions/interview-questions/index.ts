@@ -0,0 +1,90 @@
+import {
+  createAiProxyHandler,
+  isObject,
+  normalizeInterviewQuestions,
+  readJsonBody,
+  SCORING_BREAKDOWN_KEYS,
+  serverError,
+} from '../_shared/aiProxy.ts';
+
+/**
+ * Supabase Edge Function - прокси генерации вопросов к собеседованию
+ *
+ * Принимает { resume_data, job_data, scoring_breakdown, weak_areas },
+ * подставляет user_id из JWT токена и возвращает InterviewPrep.
+ *
+ * Upstream ссылается на опыт кандидата индексами experience / bullet_list;
+ * прокси заменяет их текстом пунктов из resume_data и отбрасывает ссылки
+ * на несуществующие пункты, чтобы план ответа опирался только на резюме.
+ */
+
+const MAX_OUTLINE_REFS = 3;
+
+/**
+ * Разрешение ссылок на опыт по резюме из запроса
+ */
+function resolveExperienceRefs(refs: unknown[], resumeData: Record<string, unknown>): Record<string, unknown>[] {
+  const experience = Array.isArray(resumeData.experience) ? resumeData.experience : [];
+  const resolved: Record<string, unknown>[] = [];
+
+  for (const ref of refs) {
+    if (!isObject(ref)) continue;
+    const { experience_index: experienceIndex, bullet_index: bulletIndex } = ref;
+    if (!Number.isInteger(experienceIndex) || !Number.isInteger(bulletIndex)) continue;
+
+    const job = experience[experienceIndex as number];
+    const bullet = isObject(job) && Array.isArray(job.bullet_list) ? job.bullet_list[bulletIndex as number] : undefined;
+    if (!isObject(job) || typeof bullet !== 'string') continue;
+
+    if (resolved.some(item => item.experience_index === experienceIndex && item.bullet_index === bulletIndex)) continue;
+
+    resolved.push({
+      experience_index: experienceIndex,
+      bullet_index: bulletIndex,
+      company: typeof job.company === 'string' ? job.company : '',
+      position: typeof job.position === 'string' ? job.position : '',
+      bullet,
+    });
+  }
+
+  return resolved.slice(0, MAX_OUTLINE_REFS);
+}
+
+Deno.serve(createAiProxyHandler({
+  stage: 'interview-questions',
+  buildUpstreamRequest: async (req, user) => {
+    const { resume_data, job_data, scoring_breakdown, weak_areas } = await readJsonBody(req);
+
+    if (!isObject(resume_data) || !isObject(job_data)) {
+      throw serverError(400, 'request.resumeAndJobRequired');
+    }
+
+    if (scoring_breakdown !== undefined && !isObject(scoring_breakdown)) {
+      throw serverError(400, 'request.mustBeObject', { field: 'scoring_breakdown' });
+    }
+
+    const weakAreas = Array.isArray(weak_areas)
+      ? weak_areas.filter((area): area is string => typeof area === 'string' && SCORING_BREAKDOWN_KEYS.includes(area))
+      : [];
+
+    return {
+      body: JSON.stringify({
+        resume_data,
+        job_data,
+        scoring_breakdown: scoring_breakdown ?? {},
+        weak_areas: weakAreas,
+        user_id: user.id,
+      }),
+      contentType: 'application/json',
+      finalize: data => ({
+        questions: data.questions.map(question => ({
+          ...question,
+          experience_refs: resolveExperienceRefs(question.experience_refs as unknown[], resume_data),
+        })),
+        weak_areas: weakAreas,
+        generated_at: new Date().toISOString(),
+      }),
+    };
+  },
+  normalize: normalizeInterviewQuestions,
+}));
@@ -0,0 +1,42 @@
+import { createAiProxyHandler, normalizeResumeData, serverError } from '../_shared/aiProxy.ts';
+
+/**
+ * Supabase Edge Function - прокси парсинга резюме
+ *
+ * Принимает multipart/form-data с полем file_itself, подставляет
+ * user_id из JWT токена и пересылает файл на AI upstream.
+ * Ответ проверяется по форме ResumeData.
+ */
+
+// Константы для валидации (совпадают с upload-resume)
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB в байтах
+
+Deno.serve(createAiProxyHandler({
+  stage: 'parse-resume',
+  buildUpstreamRequest: async (req, user) => {
+    let formData: FormData;
+    try {
+      formData = await req.formData();
+    } catch {
+      throw serverError(400, 'request.multipartResumeExpected');
+    }
+
+    const file = formData.get('file_itself');
+    if (!(file instanceof File)) {
+      throw serverError(400, 'request.missingParam', { name: 'file_itself' });
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      throw serverError(400, 'request.fileTooLarge', { maxSize: MAX_FILE_SIZE / 1024 / 1024 });
+    }
+
+    const upstreamForm = new FormData();
+    upstreamForm.append('file_itself', file);
+    upstreamForm.append('user_id', user.id);
+    upstreamForm.append('File_path', `${user.id}/resume_${Date.now()}_${file.name}`);
+
+    // Content-Type с boundary выставит fetch
+    return { body: upstreamForm };
+  },
+  normalize: normalizeResumeData,
+}));
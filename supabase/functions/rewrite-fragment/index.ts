@@ -0,0 +1,72 @@
+import { createAiProxyHandler, normalizeFragment, readJsonBody, serverError } from '../_shared/aiProxy.ts';
+import { isLetterLanguage, LETTER_LANGUAGES } from '../_shared/languageDetection.ts';
+
+/**
+ * Supabase Edge Function - прокси переписывания фрагмента письма
+ *
+ * Принимает { action, fragment, context_before, context_after, skill?, target_language? },
+ * подставляет user_id из JWT токена и возвращает { fragment_text }.
+ *
+ * В upstream уходит только выделенный фрагмент и текст вокруг него:
+ * резюме и вакансия для правки одного абзаца не нужны.
+ */
+
+const REWRITE_ACTIONS = ['shorten', 'formalize', 'add_metric', 'emphasize_skill', 'translate'];
+
+// Ограничения совпадают с клиентом (src/lib/letterRewrite.ts)
+const MAX_FRAGMENT_LENGTH = 3000;
+const MAX_CONTEXT_LENGTH = 1000;
+const MAX_SKILL_LENGTH = 100;
+
+/**
+ * Необязательная строка из тела запроса
+ */
+function readOptionalString(value: unknown, field: string, maxLength: number): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') {
+    throw serverError(400, 'request.mustBeString', { field });
+  }
+  if (value.length > maxLength) {
+    throw serverError(400, 'request.tooLong', { field, max: maxLength });
+  }
+  return value;
+}
+
+Deno.serve(createAiProxyHandler({
+  stage: 'rewrite-fragment',
+  buildUpstreamRequest: async (req, user) => {
+    const { action, fragment, context_before, context_after, skill, target_language } = await readJsonBody(req);
+
+    if (typeof action !== 'string' || !REWRITE_ACTIONS.includes(action)) {
+      throw serverError(400, 'request.mustBeOneOf', { field: 'action', values: REWRITE_ACTIONS.join(', ') });
+    }
+
+    const fragmentText = readOptionalString(fragment, 'fragment', MAX_FRAGMENT_LENGTH);
+    if (!fragmentText.trim()) {
+      throw serverError(400, 'request.required', { field: 'fragment' });
+    }
+
+    const skillName = readOptionalString(skill, 'skill', MAX_SKILL_LENGTH).trim();
+    if (action === 'emphasize_skill' && !skillName) {
+      throw serverError(400, 'request.skillRequired');
+    }
+
+    if (action === 'translate' && !isLetterLanguage(target_language)) {
+      throw serverError(400, 'request.mustBeOneOf', { field: 'target_language', values: LETTER_LANGUAGES.join(', ') });
+    }
+
+    return {
+      body: JSON.stringify({
+        action,
+        fragment: fragmentText,
+        context_before: readOptionalString(context_before, 'context_before', MAX_CONTEXT_LENGTH),
+        context_after: readOptionalString(context_after, 'context_after', MAX_CONTEXT_LENGTH),
+        skill: action === 'emphasize_skill' ? skillName : null,
+        target_language: action === 'translate' ? target_language : null,
+        user_id: user.id,
+      }),
+      contentType: 'application/json',
+    };
+  },
+  normalize: normalizeFragment,
+}));
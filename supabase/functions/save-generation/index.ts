@@ -1,4 +1,13 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { JsonSchema, validateJsonSchema } from '../_shared/jsonSchema.ts';
+import { RESUME_DATA_SCHEMA } from '../_shared/resumeDataSchema.ts';
+import {
+  INTERVIEW_PREP_SCHEMA,
+  JOB_DATA_SCHEMA,
+  LETTER_VARIANTS_SCHEMA,
+  SCORING_RESULTS_SCHEMA,
+  StoredLetterVariant,
+} from '../_shared/generationSchemas.ts';
 
 /**
  * Supabase Edge Function для сохранения генерации письма и скорринга
@@ -34,10 +43,23 @@ interface SaveGenerationRequest {
   scoring_results_json: any;
   resume_data_json: any;
   job_data_json: any;
+  tailored_resume_json?: any;
+  interview_prep_json?: any;
+  letter_variants_json?: StoredLetterVariant[] | null;
+  letter_profile_id?: string | null;
   title?: string;
   status?: string;
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Проверка вариантов письма по LETTER_VARIANTS_SCHEMA
+ */
+function isLetterVariantList(value: unknown): value is StoredLetterVariant[] {
+  return validateJsonSchema(value, LETTER_VARIANTS_SCHEMA).isValid;
+}
+
 /**
  * Валидация входных данных
  */
@@ -57,26 +79,61 @@ function validateGenerationData(data: any): { isValid: boolean; errors: string[]
     errors.push('cover_letter_text обязательно и должно быть непустой строкой');
   }
 
-  // Проверка JSON объектов
-  if (!data.scoring_results_json || typeof data.scoring_results_json !== 'object') {
-    errors.push('scoring_results_json обязательно и должно быть объектом');
+  // Проверка JSON объектов по схемам, пути ошибок - относительно поля запроса
+  const checkJson = (field: string, schema: JsonSchema) => {
+    const value = data[field];
+    if (!value || typeof value !== 'object') {
+      errors.push(`${field} обязательно и должно быть объектом`);
+      return;
+    }
+    for (const error of validateJsonSchema(value, schema).errors) {
+      errors.push(`${field}${error.path}: ${error.message}`);
+    }
+  };
+
+  checkJson('scoring_results_json', SCORING_RESULTS_SCHEMA);
+  checkJson('resume_data_json', RESUME_DATA_SCHEMA);
+  checkJson('job_data_json', JOB_DATA_SCHEMA);
+
+  // Проверка опциональных полей
+  if (data.tailored_resume_json !== undefined && data.tailored_resume_json !== null) {
+    if (typeof data.tailored_resume_json !== 'object' || typeof data.tailored_resume_json.resume_data !== 'object') {
+      errors.push('tailored_resume_json должно быть объектом с полем resume_data');
+    }
   }
 
-  if (!data.resume_data_json || typeof data.resume_data_json !== 'object') {
-    errors.push('resume_data_json обязательно и должно быть объектом');
+  if (data.interview_prep_json !== undefined && data.interview_prep_json !== null) {
+    checkJson('interview_prep_json', INTERVIEW_PREP_SCHEMA);
   }
 
-  if (!data.job_data_json || typeof data.job_data_json !== 'object') {
-    errors.push('job_data_json обязательно и должно быть объектом');
+  // Варианты письма: ровно один основной, его текст совпадает с cover_letter_text
+  const letterVariants: unknown = data.letter_variants_json;
+  if (letterVariants !== undefined && letterVariants !== null) {
+    checkJson('letter_variants_json', LETTER_VARIANTS_SCHEMA);
+
+    if (isLetterVariantList(letterVariants)) {
+      const primary = letterVariants.filter(variant => variant.is_primary);
+      if (primary.length !== 1) {
+        errors.push('letter_variants_json: основным должен быть отмечен ровно один вариант');
+      } else if (primary[0].letter_text !== data.cover_letter_text) {
+        errors.push('letter_variants_json: текст основного варианта должен совпадать с cover_letter_text');
+      }
+    }
   }
 
-  // Проверка опциональных полей
   if (data.overall_score !== undefined) {
     if (typeof data.overall_score !== 'number' || data.overall_score < 0 || data.overall_score > 100) {
       errors.push('overall_score должно быть числом от 0 до 100');
     }
   }
 
+  // Профиль основного варианта; принадлежность пользователю проверяется отдельно
+  if (data.letter_profile_id !== undefined && data.letter_profile_id !== null) {
+    if (typeof data.letter_profile_id !== 'string' || !UUID_PATTERN.test(data.letter_profile_id)) {
+      errors.push('letter_profile_id должно быть UUID или null');
+    }
+  }
+
   if (data.title !== undefined && (typeof data.title !== 'string' || data.title.length > 200)) {
     errors.push('title должно быть строкой длиной не более 200 символов');
   }
@@ -177,6 +234,30 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Запрос выполняется service role ключом, поэтому RLS не защищает ссылку на чужой профиль
+    if (requestData.letter_profile_id) {
+      const { data: profile, error: profileError } = await supabase
+        .from('letter_profiles')
+        .select('id')
+        .eq('id', requestData.letter_profile_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (profileError || !profile) {
+        console.error('Профиль письма не найден:', requestData.letter_profile_id, profileError);
+        return new Response(
+          JSON.stringify({ 
+            error: 'Ошибка валидации данных',
+            details: ['letter_profile_id: профиль письма не найден']
+          }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+    }
+
     console.log('💾 Сохранение генерации для пользователя:', user.id);
     console.log('📊 Данные генерации:', {
       job_title: requestData.job_title,
@@ -185,7 +266,11 @@ Deno.serve(async (req: Request) => {
       letter_length: requestData.cover_letter_text.length,
       has_scoring: !!requestData.scoring_results_json,
       has_resume: !!requestData.resume_data_json,
-      has_job_data: !!requestData.job_data_json
+      has_job_data: !!requestData.job_data_json,
+      has_tailored_resume: !!requestData.tailored_resume_json,
+      interview_questions: requestData.interview_prep_json?.questions?.length || 0,
+      letter_variants: requestData.letter_variants_json?.length || 0,
+      letter_profile_id: requestData.letter_profile_id || null
     });
 
     // Подготовка данных для вставки
@@ -198,6 +283,13 @@ Deno.serve(async (req: Request) => {
       scoring_results_json: requestData.scoring_results_json,
       resume_data_json: requestData.resume_data_json,
       job_data_json: requestData.job_data_json,
+      tailored_resume_json: requestData.tailored_resume_json || null,
+      interview_prep_json: requestData.interview_prep_json || null,
+      // Текст вариантов обрезается так же, как cover_letter_text, чтобы основной вариант совпадал с письмом
+      letter_variants_json: requestData.letter_variants_json
+        ? requestData.letter_variants_json.map(variant => ({ ...variant, letter_text: variant.letter_text.trim() }))
+        : null,
+      letter_profile_id: requestData.letter_profile_id || null,
       title: requestData.title?.trim() || null,
       status: requestData.status || 'completed'
     };
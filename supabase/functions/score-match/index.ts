@@ -0,0 +1,31 @@
+import { createAiProxyHandler, isObject, normalizeScoringResults, readJsonBody, serverError } from '../_shared/aiProxy.ts';
+import { isLetterLanguage, LETTER_LANGUAGES } from '../_shared/languageDetection.ts';
+
+/**
+ * Supabase Edge Function - прокси скорринга соответствия
+ *
+ * Принимает { resume_data, job_data, language? }, подставляет user_id из JWT токена
+ * и возвращает ScoringResults с проверенными диапазонами баллов.
+ * language - язык письма: на нем upstream пишет выводы и рекомендации скорринга.
+ */
+
+Deno.serve(createAiProxyHandler({
+  stage: 'score-match',
+  buildUpstreamRequest: async (req, user) => {
+    const { resume_data, job_data, language } = await readJsonBody(req);
+
+    if (!isObject(resume_data) || !isObject(job_data)) {
+      throw serverError(400, 'request.resumeAndJobRequired');
+    }
+
+    if (language !== undefined && !isLetterLanguage(language)) {
+      throw serverError(400, 'request.mustBeOneOf', { field: 'language', values: LETTER_LANGUAGES.join(', ') });
+    }
+
+    return {
+      body: JSON.stringify({ resume_data, job_data, language: language ?? 'ru', user_id: user.id }),
+      contentType: 'application/json',
+    };
+  },
+  normalize: normalizeScoringResults,
+}));
@@ -0,0 +1,167 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { callUpstream, corsHeaders, jsonResponse, normalizeLetter } from '../_shared/aiProxy.ts';
+import { ReminderDeliveryChannel, resolveDeliveryChannel } from '../_shared/reminderDelivery.ts';
+import { DueReminder, getDaysSinceApplied, processReminder, ReminderGeneration } from './utils.ts';
+
+/**
+ * Supabase Edge Function - отправка напоминаний о follow-up по расписанию
+ *
+ * Логика работы:
+ * 1. Проверяет секрет планировщика (REMINDERS_CRON_SECRET)
+ * 2. Выбирает ожидающие напоминания с наступившим due_at
+ * 3. Для каждого напоминания (processReminder в utils.ts):
+ *    - отменяет его, если отклик уже ушел с этапа trigger_stage
+ *      или генерация принадлежит другому пользователю
+ *    - генерирует follow-up письмо по исходному cover_letter_text и JobData
+ *    - отправляет его через канал доставки (Telegram или локальная заглушка)
+ *    - неудачные попытки откладывает на час, после MAX_ATTEMPTS помечает failed
+ *
+ * Пользовательского JWT нет: функция работает с service role ключом
+ */
+
+const BATCH_SIZE = 50;
+
+interface ReminderRunSummary {
+  channel: string;
+  processed: number;
+  sent: number;
+  cancelled: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Проверка секрета планировщика
+ */
+function isAuthorized(req: Request): boolean {
+  const secret = Deno.env.get('REMINDERS_CRON_SECRET');
+  if (!secret) {
+    console.error('REMINDERS_CRON_SECRET не установлен в переменных окружения');
+    return false;
+  }
+  return req.headers.get('Authorization') === `Bearer ${secret}`;
+}
+
+/**
+ * Генерация follow-up письма по исходному письму и вакансии
+ */
+async function generateFollowUpText(reminder: DueReminder, generation: ReminderGeneration): Promise<string> {
+  const data = await callUpstream('follow-up-letter', JSON.stringify({
+    cover_letter_text: generation.cover_letter_text,
+    job_data: generation.job_data_json,
+    days_since_applied: getDaysSinceApplied(reminder),
+    user_id: reminder.user_id,
+  }), 'application/json');
+
+  return normalizeLetter(data).letter_text;
+}
+
+Deno.serve(async (req: Request) => {
+  // Обработка CORS preflight запросов
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  // Проверка метода запроса
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Метод не поддерживается' }, 405);
+  }
+
+  if (!isAuthorized(req)) {
+    return jsonResponse({ error: 'Недействительный секрет планировщика' }, 401);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error('Отсутствуют переменные окружения Supabase');
+    return jsonResponse({ error: 'Конфигурация сервера не настроена' }, 500);
+  }
+
+  let channel: ReminderDeliveryChannel;
+  try {
+    channel = resolveDeliveryChannel(Deno.env);
+  } catch (error) {
+    console.error('❌ Канал доставки напоминаний не настроен:', error);
+    return jsonResponse({ error: 'Конфигурация сервера не настроена' }, 500);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const { data: reminders, error: remindersError } = await supabase
+      .from('application_reminders')
+      .select(`
+        id,
+        user_id,
+        trigger_stage,
+        due_at,
+        attempts,
+        follow_up_text,
+        generation:generations(user_id, job_title, company_name, cover_letter_text, job_data_json, application_stage)
+      `)
+      .eq('status', 'pending')
+      .lte('due_at', new Date().toISOString())
+      .order('due_at', { ascending: true })
+      .limit(BATCH_SIZE)
+      .returns<DueReminder[]>();
+
+    if (remindersError) {
+      console.error('❌ Ошибка выборки напоминаний:', remindersError);
+      throw remindersError;
+    }
+
+    const summary: ReminderRunSummary = {
+      channel: channel.name,
+      processed: 0,
+      sent: 0,
+      cancelled: 0,
+      retried: 0,
+      failed: 0,
+    };
+
+    if (!reminders || reminders.length === 0) {
+      return jsonResponse(summary);
+    }
+
+    // Telegram ID получателей одним запросом
+    const userIds = [...new Set(reminders.map(reminder => reminder.user_id))];
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('user_id, telegram_user_id')
+      .in('user_id', userIds);
+
+    if (profilesError) {
+      console.error('❌ Ошибка выборки профилей:', profilesError);
+      throw profilesError;
+    }
+
+    const telegramIds = new Map<string, number | null>(
+      (profiles || []).map(profile => [profile.user_id, profile.telegram_user_id])
+    );
+
+    const updateReminder = async (id: string, changes: Record<string, unknown>) => {
+      const { error } = await supabase.from('application_reminders').update(changes).eq('id', id);
+      if (error) console.error('❌ Ошибка обновления напоминания:', id, error);
+    };
+
+    for (const reminder of reminders) {
+      summary.processed++;
+      const outcome = await processReminder(reminder, {
+        channel,
+        telegramUserId: telegramIds.get(reminder.user_id),
+        generateFollowUpText,
+        updateReminder,
+      });
+      summary[outcome]++;
+    }
+
+    console.log('📬 Обработка напоминаний завершена:', summary);
+    return jsonResponse(summary);
+
+  } catch (error) {
+    console.error('Неожиданная ошибка в send-reminders function:', error);
+    return jsonResponse({ error: 'Внутренняя ошибка сервера' }, 500);
+  }
+});
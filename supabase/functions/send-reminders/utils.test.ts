@@ -0,0 +1,196 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { createStubChannel } from '../_shared/reminderDelivery.ts';
+import {
+  buildReminderText,
+  DueReminder,
+  getDaysSinceApplied,
+  getReminderLocale,
+  MAX_ATTEMPTS,
+  processReminder,
+  ReminderProcessingContext,
+  RETRY_DELAY_MS,
+} from './utils.ts';
+
+/**
+ * Тесты обработки напоминаний: отмена, отправка, повторы и исчерпание попыток
+ *
+ * Канал доставки - заглушка, база данных и AI сервис подменяются функциями.
+ * Запуск: deno test supabase/functions
+ */
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COVER_LETTER = 'Здравствуйте! Меня заинтересовала вакансия Frontend-разработчика в вашей компании.';
+
+function createReminder(overrides: Partial<DueReminder> = {}): DueReminder {
+  return {
+    id: 'reminder-1',
+    user_id: 'user-1',
+    trigger_stage: 'applied',
+    due_at: new Date(NOW - 2 * DAY_MS).toISOString(),
+    attempts: 0,
+    follow_up_text: null,
+    generation: {
+      user_id: 'user-1',
+      job_title: 'Frontend-разработчик',
+      company_name: 'Яндекс',
+      cover_letter_text: COVER_LETTER,
+      job_data_json: {},
+      application_stage: 'applied',
+    },
+    ...overrides,
+  };
+}
+
+/**
+ * Контекст обработки с заглушками и журналом изменений напоминания
+ */
+function createContext(overrides: Partial<ReminderProcessingContext> = {}) {
+  const updates: Record<string, unknown>[] = [];
+  const channel = createStubChannel();
+  const context: ReminderProcessingContext = {
+    channel,
+    telegramUserId: 42,
+    generateFollowUpText: () => Promise.resolve('Добрый день! Хотел уточнить статус моего отклика.'),
+    updateReminder: (_id, changes) => {
+      updates.push(changes);
+      return Promise.resolve();
+    },
+    now: NOW,
+    ...overrides,
+  };
+  return { context, channel, updates };
+}
+
+/** Выполнение с заглушенным console, чтобы логи функции не смешивались с выводом тестов */
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await run();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+Deno.test('getDaysSinceApplied: 7 дней задержки плюс просрочка', () => {
+  strictEqual(getDaysSinceApplied({ due_at: new Date(NOW).toISOString() }, NOW), 7);
+  strictEqual(getDaysSinceApplied({ due_at: new Date(NOW - 2 * DAY_MS).toISOString() }, NOW), 9);
+  strictEqual(getDaysSinceApplied({ due_at: new Date(NOW + DAY_MS).toISOString() }, NOW), 7);
+});
+
+Deno.test('buildReminderText: язык сообщения - язык исходного письма', () => {
+  const reminder = createReminder();
+  const generation = reminder.generation!;
+
+  strictEqual(
+    buildReminderText(reminder, generation, 'Черновик', NOW),
+    '⏰ Прошло 9 дн. с отклика, а ответа пока нет\n\nFrontend-разработчик — Яндекс\n\nЧерновик follow-up письма:\n\nЧерновик'
+  );
+
+  const english = { ...generation, cover_letter_text: 'Dear hiring manager, I am excited to apply for this position.' };
+  strictEqual(buildReminderText(reminder, english, 'Draft', NOW).startsWith('⏰ 9 days have passed since you applied'), true);
+
+  strictEqual(getReminderLocale({ cover_letter_text: 'Доброго дня! Мене зацікавила ваша вакансія, і я хочу приєднатися до команди.' }), 'uk');
+  // Казахский и слишком короткий текст - язык по умолчанию
+  strictEqual(getReminderLocale({ cover_letter_text: 'Сәлеметсіз бе! Маған сіздің компанияңыздағы бос орын қызық.' }), 'ru');
+  strictEqual(getReminderLocale({ cover_letter_text: '' }), 'ru');
+});
+
+Deno.test('processReminder: генерирует текст, сохраняет его и отправляет сообщение', async () => {
+  const { context, channel, updates } = createContext();
+
+  strictEqual(await quietly(() => processReminder(createReminder(), context)), 'sent');
+
+  strictEqual(channel.sent.length, 1);
+  strictEqual(channel.sent[0].telegramUserId, 42);
+  strictEqual(channel.sent[0].text.endsWith('Добрый день! Хотел уточнить статус моего отклика.'), true);
+  deepStrictEqual(updates, [
+    { follow_up_text: 'Добрый день! Хотел уточнить статус моего отклика.' },
+    { status: 'sent', sent_at: new Date(NOW).toISOString(), attempts: 1, last_error: null },
+  ]);
+});
+
+Deno.test('processReminder: сохраненный текст не генерируется повторно', async () => {
+  let generated = 0;
+  const { context, updates } = createContext({
+    generateFollowUpText: () => {
+      generated++;
+      return Promise.resolve('Новый текст');
+    },
+  });
+
+  strictEqual(await quietly(() => processReminder(createReminder({ follow_up_text: 'Сохраненный текст' }), context)), 'sent');
+  strictEqual(generated, 0);
+  strictEqual(updates.length, 1);
+});
+
+Deno.test('processReminder: отменяет напоминание, если отклик ушел с этапа или генерация удалена', async () => {
+  const moved = createContext();
+  const reminder = createReminder();
+  reminder.generation!.application_stage = 'interview';
+
+  strictEqual(await processReminder(reminder, moved.context), 'cancelled');
+  deepStrictEqual(moved.updates, [{ status: 'cancelled' }]);
+  strictEqual(moved.channel.sent.length, 0);
+
+  const deleted = createContext();
+  strictEqual(await processReminder(createReminder({ generation: null }), deleted.context), 'cancelled');
+  deepStrictEqual(deleted.updates, [{ status: 'cancelled' }]);
+});
+
+Deno.test('processReminder: не отправляет данные генерации другого пользователя', async () => {
+  let generated = 0;
+  const { context, channel, updates } = createContext({
+    generateFollowUpText: () => {
+      generated++;
+      return Promise.resolve('Текст');
+    },
+  });
+  const reminder = createReminder();
+  reminder.generation!.user_id = 'user-2';
+
+  strictEqual(await quietly(() => processReminder(reminder, context)), 'cancelled');
+  deepStrictEqual(updates, [{ status: 'cancelled' }]);
+  strictEqual(channel.sent.length, 0);
+  strictEqual(generated, 0);
+});
+
+Deno.test('processReminder: без Telegram напоминание сразу помечается failed', async () => {
+  const { context, updates } = createContext({ telegramUserId: null });
+
+  strictEqual(await processReminder(createReminder(), context), 'failed');
+  strictEqual(updates.length, 1);
+  strictEqual(updates[0].status, 'failed');
+});
+
+Deno.test('processReminder: неудачная отправка откладывается, после MAX_ATTEMPTS - failed', async () => {
+  const failingChannel = {
+    name: 'failing',
+    send: () => Promise.reject(new Error('Telegram API: HTTP 502')),
+  };
+
+  const retry = createContext({ channel: failingChannel });
+  strictEqual(await quietly(() => processReminder(createReminder({ follow_up_text: 'Текст' }), retry.context)), 'retried');
+  deepStrictEqual(retry.updates, [{
+    attempts: 1,
+    last_error: 'Telegram API: HTTP 502',
+    due_at: new Date(NOW + RETRY_DELAY_MS).toISOString(),
+  }]);
+
+  const last = createContext({ channel: failingChannel });
+  const reminder = createReminder({ follow_up_text: 'Текст', attempts: MAX_ATTEMPTS - 1 });
+  strictEqual(await quietly(() => processReminder(reminder, last.context)), 'failed');
+  deepStrictEqual(last.updates, [{ status: 'failed', attempts: MAX_ATTEMPTS, last_error: 'Telegram API: HTTP 502' }]);
+});
+
+Deno.test('processReminder: ошибка генерации текста тоже уходит в повтор', async () => {
+  const { context, updates } = createContext({
+    generateFollowUpText: () => Promise.reject(new Error('AI сервис вернул ошибку')),
+  });
+
+  strictEqual(await quietly(() => processReminder(createReminder(), context)), 'retried');
+  strictEqual(updates.length, 1);
+  strictEqual(updates[0].last_error, 'AI сервис вернул ошибку');
+});
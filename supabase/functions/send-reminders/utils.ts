@@ -0,0 +1,165 @@
+import { ReminderDeliveryChannel } from '../_shared/reminderDelivery.ts';
+import { detectTextLanguage } from '../_shared/languageDetection.ts';
+import { DEFAULT_SERVER_LOCALE, isServerLocale, ServerLocale, translateServerMessage } from '../_shared/serverMessages.ts';
+
+/**
+ * Обработка одного напоминания о follow-up
+ *
+ * Вынесена из Deno.serve, чтобы логику отмены, повторов и отправки можно было
+ * проверить тестами с заглушками канала, генерации и базы данных
+ */
+
+export const MAX_ATTEMPTS = 3;
+export const RETRY_DELAY_MS = 60 * 60 * 1000;
+/** Задержка follow-up после отклика, задана в триггере schedule_application_reminders */
+export const FOLLOW_UP_DELAY_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReminderGeneration {
+  user_id: string;
+  job_title: string;
+  company_name: string;
+  cover_letter_text: string;
+  job_data_json: Record<string, unknown>;
+  application_stage: string;
+}
+
+export interface DueReminder {
+  id: string;
+  user_id: string;
+  trigger_stage: string;
+  due_at: string;
+  attempts: number;
+  follow_up_text: string | null;
+  generation: ReminderGeneration | null;
+}
+
+/**
+ * Итог обработки напоминания
+ * - sent: сообщение доставлено
+ * - cancelled: отклик ушел с этапа trigger_stage или генерация чужая
+ * - retried: попытка не удалась, напоминание отложено на RETRY_DELAY_MS
+ * - failed: попытки исчерпаны или у пользователя нет Telegram
+ */
+export type ReminderOutcome = 'sent' | 'cancelled' | 'retried' | 'failed';
+
+/**
+ * Зависимости обработки: в функции - Supabase и AI сервис, в тестах - заглушки
+ */
+export interface ReminderProcessingContext {
+  channel: ReminderDeliveryChannel;
+  /** Telegram ID получателя из profiles.telegram_user_id */
+  telegramUserId: number | null | undefined;
+  generateFollowUpText: (reminder: DueReminder, generation: ReminderGeneration) => Promise<string>;
+  updateReminder: (id: string, changes: Record<string, unknown>) => Promise<void>;
+  /** Текущее время в мс, по умолчанию Date.now() */
+  now?: number;
+}
+
+/**
+ * Сколько дней прошло с отклика
+ */
+export function getDaysSinceApplied(reminder: Pick<DueReminder, 'due_at'>, now: number = Date.now()): number {
+  const overdueDays = Math.floor((now - new Date(reminder.due_at).getTime()) / DAY_MS);
+  return FOLLOW_UP_DELAY_DAYS + Math.max(0, overdueDays);
+}
+
+/**
+ * Язык сообщения - язык исходного письма; казахский и неопределенный - язык по умолчанию
+ */
+export function getReminderLocale(generation: Pick<ReminderGeneration, 'cover_letter_text'>): ServerLocale {
+  const language = detectTextLanguage(generation.cover_letter_text || '');
+  return language && isServerLocale(language) ? language : DEFAULT_SERVER_LOCALE;
+}
+
+/**
+ * Текст сообщения с черновиком follow-up письма
+ */
+export function buildReminderText(
+  reminder: Pick<DueReminder, 'due_at'>,
+  generation: ReminderGeneration,
+  followUpText: string,
+  now: number = Date.now()
+): string {
+  const locale = getReminderLocale(generation);
+
+  return [
+    translateServerMessage('reminder.noReply', locale, { days: getDaysSinceApplied(reminder, now) }),
+    `${generation.job_title} — ${generation.company_name}`,
+    translateServerMessage('reminder.draftTitle', locale),
+    followUpText,
+  ].join('\n\n');
+}
+
+/**
+ * Обработка одного напоминания: отмена, генерация текста, отправка и повторы
+ */
+export async function processReminder(
+  reminder: DueReminder,
+  context: ReminderProcessingContext
+): Promise<ReminderOutcome> {
+  const { channel, telegramUserId, updateReminder } = context;
+  const now = context.now ?? Date.now();
+  const generation = reminder.generation;
+
+  // Данные чужой генерации не отправляются, даже если напоминание на нее ссылается
+  if (generation && generation.user_id !== reminder.user_id) {
+    console.warn('⚠️ Напоминание ссылается на генерацию другого пользователя:', reminder.id);
+    await updateReminder(reminder.id, { status: 'cancelled' });
+    return 'cancelled';
+  }
+
+  // Отклик сдвинулся по воронке - напоминание больше не актуально
+  if (!generation || generation.application_stage !== reminder.trigger_stage) {
+    await updateReminder(reminder.id, { status: 'cancelled' });
+    return 'cancelled';
+  }
+
+  if (!telegramUserId) {
+    await updateReminder(reminder.id, {
+      status: 'failed',
+      last_error: 'К профилю не привязан Telegram',
+    });
+    return 'failed';
+  }
+
+  let followUpText = reminder.follow_up_text;
+
+  try {
+    // Текст сохраняется до отправки, чтобы повторная попытка не генерировала его заново
+    if (!followUpText) {
+      followUpText = await context.generateFollowUpText(reminder, generation);
+      await updateReminder(reminder.id, { follow_up_text: followUpText });
+    }
+
+    await channel.send({
+      telegramUserId,
+      text: buildReminderText(reminder, generation, followUpText, now),
+    });
+
+    await updateReminder(reminder.id, {
+      status: 'sent',
+      sent_at: new Date(now).toISOString(),
+      attempts: reminder.attempts + 1,
+      last_error: null,
+    });
+    console.log('✅ Напоминание отправлено:', reminder.id);
+    return 'sent';
+  } catch (error) {
+    const attempts = reminder.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Ошибка отправки напоминания ${reminder.id} (попытка ${attempts}):`, message);
+
+    if (attempts >= MAX_ATTEMPTS) {
+      await updateReminder(reminder.id, { status: 'failed', attempts, last_error: message });
+      return 'failed';
+    }
+
+    await updateReminder(reminder.id, {
+      attempts,
+      last_error: message,
+      due_at: new Date(now + RETRY_DELAY_MS).toISOString(),
+    });
+    return 'retried';
+  }
+}
@@ -1,6 +1,6 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { verifyTelegramWebAppSignature } from './utils.ts';
+import { verifyTelegramWebAppSignature, TelegramVerificationFailureReason } from './utils.ts';
 
 /**
  * Supabase Edge Function для аутентификации через Telegram WebApp
@@ -21,6 +21,19 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
+/**
+ * Коды ошибок, которые получает клиент при отклонении initData
+ * Каждой причине отказа соответствует отдельный ответ 401
+ */
+const verificationErrorCodes: Record<TelegramVerificationFailureReason, string> = {
+  missing_hash: 'TELEGRAM_HASH_MISSING',
+  invalid_signature: 'TELEGRAM_SIGNATURE_INVALID',
+  missing_auth_date: 'TELEGRAM_AUTH_DATE_MISSING',
+  invalid_auth_date: 'TELEGRAM_AUTH_DATE_INVALID',
+  expired: 'TELEGRAM_INIT_DATA_EXPIRED',
+  malformed: 'TELEGRAM_INIT_DATA_MALFORMED',
+};
+
 /**
  * Генерация уникального email для Telegram пользователей
  * Используется когда Telegram не предоставляет email
@@ -108,13 +121,16 @@ serve(async (req) => {
 
     // КРИТИЧЕСКИ ВАЖНО: Верификация подписи Telegram
     // Это предотвращает подделку данных злоумышленниками
-    const isValid = verifyTelegramWebAppSignature(initData, BOT_TOKEN);
-    if (!isValid) {
-      console.error('Неверная подпись Telegram initData для пользователя:', telegramUserId);
+    const verification = await verifyTelegramWebAppSignature(initData, BOT_TOKEN);
+    if (!verification.isValid) {
+      console.error(`Отклонены Telegram initData (${verification.reason}) для пользователя:`, telegramUserId);
       return new Response(
-        JSON.stringify({ error: 'Неверная подпись Telegram данных' }),
+        JSON.stringify({
+          error: verification.message,
+          code: verificationErrorCodes[verification.reason]
+        }),
         { 
-          status: 403, 
+          status: 401, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       );
@@ -123,6 +139,21 @@ serve(async (req) => {
     // Извлечение данных пользователя из initData
     const telegramUserData = parseTelegramUserData(initData);
 
+    // Подписанные данные должны принадлежать тому же пользователю, что и telegramUserId
+    if (String(telegramUserData.id) !== String(telegramUserId)) {
+      console.error('telegramUserId не совпадает с пользователем из initData:', telegramUserId);
+      return new Response(
+        JSON.stringify({
+          error: 'Данные Telegram принадлежат другому пользователю',
+          code: 'TELEGRAM_USER_MISMATCH'
+        }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
     // Инициализация Supabase клиента с административными правами
     const supabaseAdmin = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
@@ -0,0 +1,138 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { TelegramVerificationFailureReason, verifyTelegramDataAge, verifyTelegramWebAppSignature } from './utils.ts';
+
+/**
+ * Тесты верификации Telegram initData
+ *
+ * Данные подписаны фиктивным токеном бота. Эталонная строка подписана
+ * независимо от utils.ts (node:crypto), остальные фикстуры - хелпером signInitData.
+ * Запуск: deno test supabase/functions
+ */
+
+const BOT_TOKEN = '123456:TEST-fake-bot-token';
+
+const TELEGRAM_USER = JSON.stringify({
+  id: 279058397,
+  first_name: 'Ivan',
+  last_name: 'Petrov',
+  username: 'ivanpetrov',
+  language_code: 'ru',
+});
+
+/** auth_date эталонной строки */
+const KNOWN_GOOD_AUTH_DATE = 1760000000;
+
+const KNOWN_GOOD_INIT_DATA = 'auth_date=1760000000&query_id=AAHdF6IQAAAAAN0XohDhrOrc'
+  + '&user=%7B%22id%22%3A279058397%2C%22first_name%22%3A%22Ivan%22%2C%22last_name%22%3A%22Petrov%22'
+  + '%2C%22username%22%3A%22ivanpetrov%22%2C%22language_code%22%3A%22ru%22%7D'
+  + '&hash=53d5eaa19cf8ae26bb9a3763e3a6975e4469cbcf83ce55fd5df0c2d6ca12c484';
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+/** maxAgeSeconds, при котором эталонная строка еще свежая */
+const knownGoodMaxAge = () => nowSeconds() - KNOWN_GOOD_AUTH_DATE + 3600;
+
+async function hmac(key: BufferSource, data: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+}
+
+/**
+ * Подпись полей так, как это делает Telegram
+ */
+async function signInitData(fields: Record<string, string>, botToken: string = BOT_TOKEN): Promise<string> {
+  const dataCheckString = Object.keys(fields).sort().map(key => `${key}=${fields[key]}`).join('\n');
+  const secretKey = await hmac(new TextEncoder().encode('WebAppData'), botToken);
+  const hash = Array.from(new Uint8Array(await hmac(secretKey, dataCheckString)))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return new URLSearchParams({ ...fields, hash }).toString();
+}
+
+function assertRejected(
+  result: Awaited<ReturnType<typeof verifyTelegramWebAppSignature>>,
+  reason: TelegramVerificationFailureReason
+) {
+  strictEqual(result.isValid, false);
+  if (!result.isValid) {
+    strictEqual(result.reason, reason);
+  }
+}
+
+Deno.test('эталонные initData проходят проверку', async () => {
+  const result = await verifyTelegramWebAppSignature(KNOWN_GOOD_INIT_DATA, BOT_TOKEN, knownGoodMaxAge());
+  deepStrictEqual(result, { isValid: true });
+});
+
+Deno.test('свежие initData, подписанные хелпером, проходят проверку', async () => {
+  const initData = await signInitData({ auth_date: String(nowSeconds()), user: TELEGRAM_USER });
+  deepStrictEqual(await verifyTelegramWebAppSignature(initData, BOT_TOKEN), { isValid: true });
+});
+
+Deno.test('hash в верхнем регистре принимается', async () => {
+  const initData = KNOWN_GOOD_INIT_DATA.replace(/hash=([0-9a-f]+)$/, (_, hash: string) => `hash=${hash.toUpperCase()}`);
+  deepStrictEqual(await verifyTelegramWebAppSignature(initData, BOT_TOKEN, knownGoodMaxAge()), { isValid: true });
+});
+
+Deno.test('подмененные данные пользователя отклоняются: invalid_signature', async () => {
+  const tampered = KNOWN_GOOD_INIT_DATA.replace('279058397', '279058398');
+  assertRejected(await verifyTelegramWebAppSignature(tampered, BOT_TOKEN, knownGoodMaxAge()), 'invalid_signature');
+});
+
+Deno.test('подмененный hash отклоняется: invalid_signature', async () => {
+  const tampered = KNOWN_GOOD_INIT_DATA.replace(/hash=[0-9a-f]+$/, `hash=${'0'.repeat(64)}`);
+  assertRejected(await verifyTelegramWebAppSignature(tampered, BOT_TOKEN, knownGoodMaxAge()), 'invalid_signature');
+});
+
+Deno.test('данные, подписанные другим токеном, отклоняются: invalid_signature', async () => {
+  const initData = await signInitData({ auth_date: String(nowSeconds()), user: TELEGRAM_USER }, '654321:OTHER-bot-token');
+  assertRejected(await verifyTelegramWebAppSignature(initData, BOT_TOKEN), 'invalid_signature');
+});
+
+Deno.test('initData без hash отклоняются: missing_hash', async () => {
+  const withoutHash = KNOWN_GOOD_INIT_DATA.replace(/&hash=[0-9a-f]+$/, '');
+  assertRejected(await verifyTelegramWebAppSignature(withoutHash, BOT_TOKEN, knownGoodMaxAge()), 'missing_hash');
+  assertRejected(await verifyTelegramWebAppSignature('', BOT_TOKEN), 'missing_hash');
+});
+
+Deno.test('подписанные initData без auth_date отклоняются: missing_auth_date', async () => {
+  const initData = await signInitData({ user: TELEGRAM_USER });
+  assertRejected(await verifyTelegramWebAppSignature(initData, BOT_TOKEN), 'missing_auth_date');
+});
+
+Deno.test('подписанные initData с нечисловым auth_date отклоняются: invalid_auth_date', async () => {
+  for (const authDate of ['yesterday', '-100', '1.5']) {
+    const initData = await signInitData({ auth_date: authDate, user: TELEGRAM_USER });
+    assertRejected(await verifyTelegramWebAppSignature(initData, BOT_TOKEN), 'invalid_auth_date');
+  }
+});
+
+Deno.test('устаревшие initData отклоняются: expired', async () => {
+  const twoDaysAgo = nowSeconds() - 2 * 86400;
+  const initData = await signInitData({ auth_date: String(twoDaysAgo), user: TELEGRAM_USER });
+  assertRejected(await verifyTelegramWebAppSignature(initData, BOT_TOKEN), 'expired');
+
+  // Эталонная строка с коротким сроком жизни тоже устарела
+  assertRejected(await verifyTelegramWebAppSignature(KNOWN_GOOD_INIT_DATA, BOT_TOKEN, 60), 'expired');
+});
+
+Deno.test('hash не в формате hex-строки отклоняется: malformed', async () => {
+  for (const hash of ['not-a-hash', 'abc123', 'z'.repeat(64)]) {
+    const malformed = KNOWN_GOOD_INIT_DATA.replace(/hash=[0-9a-f]+$/, `hash=${hash}`);
+    assertRejected(await verifyTelegramWebAppSignature(malformed, BOT_TOKEN, knownGoodMaxAge()), 'malformed');
+  }
+});
+
+Deno.test('initData не строкой отклоняются: malformed', async () => {
+  for (const initData of [null, 42, { hash: 'abc' }, [['hash']]]) {
+    assertRejected(await verifyTelegramWebAppSignature(initData as unknown as string, BOT_TOKEN), 'malformed');
+  }
+});
+
+Deno.test('verifyTelegramDataAge считает возраст от переданного времени', () => {
+  const initData = `auth_date=${KNOWN_GOOD_AUTH_DATE}`;
+
+  deepStrictEqual(verifyTelegramDataAge(initData, 86400, KNOWN_GOOD_AUTH_DATE + 86400), { isValid: true });
+  strictEqual(verifyTelegramDataAge(initData, 86400, KNOWN_GOOD_AUTH_DATE + 86401).isValid, false);
+});
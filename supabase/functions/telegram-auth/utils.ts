@@ -1,172 +1,197 @@
 /**
  * Утилиты для верификации данных Telegram WebApp
- * 
+ *
  * КРИТИЧЕСКИ ВАЖНО ДЛЯ БЕЗОПАСНОСТИ:
  * Эти функции проверяют, что данные действительно пришли от Telegram
  * и не были подделаны злоумышленниками
  */
 
+/**
+ * Максимальный возраст initData по умолчанию (24 часа)
+ */
+export const DEFAULT_MAX_AGE_SECONDS = 86400;
+
+/**
+ * Причина, по которой initData не прошли проверку
+ */
+export type TelegramVerificationFailureReason =
+  | 'missing_hash'
+  | 'invalid_signature'
+  | 'missing_auth_date'
+  | 'invalid_auth_date'
+  | 'expired'
+  | 'malformed';
+
+/**
+ * Результат верификации initData
+ */
+export type TelegramVerificationResult =
+  | { isValid: true }
+  | { isValid: false; reason: TelegramVerificationFailureReason; message: string };
+
 /**
  * Верификация подписи Telegram WebApp initData
- * 
+ *
  * Алгоритм верификации согласно документации Telegram:
  * 1. Извлекаем hash из initData
  * 2. Удаляем hash из параметров
  * 3. Сортируем оставшиеся параметры по ключу
  * 4. Формируем строку для проверки
- * 5. Вычисляем секретный ключ из токена бота
- * 6. Вычисляем HMAC-SHA256 подпись
- * 7. Сравниваем с переданным hash
- * 
+ * 5. Вычисляем секретный ключ: HMAC-SHA256(key = "WebAppData", data = токен бота)
+ * 6. Вычисляем HMAC-SHA256 подпись строки проверки секретным ключом
+ * 7. Сравниваем с переданным hash за постоянное время
+ * 8. Проверяем свежесть auth_date через verifyTelegramDataAge
+ *
  * @param initData - строка initData от Telegram WebApp
  * @param botToken - токен Telegram бота
- * @returns true если подпись валидна, false если нет
+ * @param maxAgeSeconds - максимальный возраст данных в секундах (по умолчанию 24 часа)
+ * @returns структурированный результат с причиной отказа
  */
-export function verifyTelegramWebAppSignature(initData: string, botToken: string): boolean {
+export async function verifyTelegramWebAppSignature(
+  initData: string,
+  botToken: string,
+  maxAgeSeconds: number = DEFAULT_MAX_AGE_SECONDS
+): Promise<TelegramVerificationResult> {
+  // initData приходит из JSON тела запроса и может оказаться не строкой
+  if (typeof initData !== 'string') {
+    console.error('initData не является строкой:', typeof initData);
+    return { isValid: false, reason: 'malformed', message: 'Некорректный формат initData' };
+  }
+
+  let params: URLSearchParams;
+  try {
+    params = new URLSearchParams(initData);
+  } catch (error) {
+    console.error('Ошибка разбора initData:', error);
+    return { isValid: false, reason: 'malformed', message: 'Некорректный формат initData' };
+  }
+
+  const hash = params.get('hash');
+
+  // Проверяем наличие hash
+  if (!hash) {
+    console.error('Отсутствует hash в initData');
+    return { isValid: false, reason: 'missing_hash', message: 'Отсутствует подпись в initData' };
+  }
+
+  // Подпись - hex-строка HMAC-SHA256 (64 символа)
+  if (!/^[0-9a-f]{64}$/i.test(hash)) {
+    console.error('Некорректный формат hash в initData');
+    return { isValid: false, reason: 'malformed', message: 'Некорректный формат подписи initData' };
+  }
+
+  // Удаляем hash из параметров для формирования строки проверки
+  params.delete('hash');
+
+  // Сортируем параметры по ключу и формируем строку для проверки
+  const dataCheckString = Array.from(params.entries())
+    .sort(([keyA], [keyB]) => (keyA < keyB ? -1 : keyA > keyB ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+
   try {
-    // Парсим параметры из initData
-    const params = new URLSearchParams(initData);
-    const hash = params.get('hash');
-    
-    // Проверяем наличие hash
-    if (!hash) {
-      console.error('Отсутствует hash в initData');
-      return false;
-    }
-    
-    // Удаляем hash из параметров для формирования строки проверки
-    params.delete('hash');
-    
-    // Сортируем параметры по ключу и формируем строку для проверки
-    const dataCheckString = Array.from(params.entries())
-      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
-      .map(([key, value]) => `${key}=${value}`)
-      .join('\n');
-    
     // Вычисляем секретный ключ из токена бота
-    const secretKey = hmacSha256('WebAppData', botToken);
-    
+    const secretKey = await hmacSha256(new TextEncoder().encode('WebAppData'), botToken);
+
     // Вычисляем HMAC-SHA256 подпись для данных
-    const computedHash = hmacSha256(dataCheckString, secretKey);
-    
+    const computedHash = toHex(await hmacSha256(secretKey, dataCheckString));
+
     // Сравниваем вычисленный hash с переданным
-    const isValid = computedHash === hash;
-    
-    if (!isValid) {
+    if (!timingSafeEqual(computedHash, hash.toLowerCase())) {
       console.error('Несоответствие подписи Telegram initData');
-      console.error('Ожидаемый hash:', hash);
-      console.error('Вычисленный hash:', computedHash);
+      return { isValid: false, reason: 'invalid_signature', message: 'Неверная подпись Telegram данных' };
     }
-    
-    return isValid;
-    
   } catch (error) {
     console.error('Ошибка при верификации подписи Telegram:', error);
-    return false;
+    return { isValid: false, reason: 'malformed', message: 'Не удалось проверить подпись initData' };
   }
+
+  return verifyTelegramDataAge(initData, maxAgeSeconds);
 }
 
 /**
  * Вычисление HMAC-SHA256 подписи
  * Использует Web Crypto API, доступный в Deno
- * 
+ *
+ * @param key - ключ для подписи
  * @param data - данные для подписи (строка)
- * @param key - ключ для подписи (строка или Uint8Array)
- * @returns hex-строка подписи
+ * @returns сырые байты подписи
  */
-async function hmacSha256(data: string, key: string | Uint8Array): Promise<string> {
-  // Преобразуем ключ в Uint8Array если это строка
-  const keyData = typeof key === 'string' ? new TextEncoder().encode(key) : key;
-  
+async function hmacSha256(key: BufferSource, data: string): Promise<ArrayBuffer> {
   // Импортируем ключ для HMAC
   const cryptoKey = await crypto.subtle.importKey(
     'raw',
-    keyData,
+    key,
     { name: 'HMAC', hash: 'SHA-256' },
     false,
     ['sign']
   );
-  
+
   // Вычисляем подпись
-  const signature = await crypto.subtle.sign(
+  return await crypto.subtle.sign(
     'HMAC',
     cryptoKey,
     new TextEncoder().encode(data)
   );
-  
-  // Преобразуем в hex-строку
-  return Array.from(new Uint8Array(signature))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('');
 }
 
 /**
- * Синхронная версия hmacSha256 для совместимости
- * Использует асинхронную версию внутри
+ * Преобразование байтов в hex-строку
  */
-function hmacSha256(data: string, key: string | Uint8Array): string {
-  // В реальном коде это должно быть асинхронно
-  // Для упрощения примера используем синхронную обертку
-  // В продакшене рекомендуется переписать verifyTelegramWebAppSignature как async функцию
-  
-  // Временное решение: используем простую реализацию без crypto.subtle
-  // ЭТО НЕ БЕЗОПАСНО ДЛЯ ПРОДАКШЕНА!
-  // Необходимо использовать правильную HMAC-SHA256 реализацию
-  
-  console.warn('ВНИМАНИЕ: Используется упрощенная реализация HMAC. Не подходит для продакшена!');
-  
-  // Для демонстрации возвращаем простой hash
-  // В реальном приложении ОБЯЗАТЕЛЬНО используйте правильную HMAC-SHA256 реализацию
-  const keyStr = typeof key === 'string' ? key : new TextDecoder().decode(key);
-  return simpleHash(data + keyStr);
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
 }
 
 /**
- * ВРЕМЕННАЯ функция для демонстрации
- * В ПРОДАКШЕНЕ ОБЯЗАТЕЛЬНО замените на правильную HMAC-SHA256 реализацию!
+ * Сравнение строк за постоянное время
+ * Не позволяет подобрать подпись по времени ответа
  */
-function simpleHash(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32bit integer
+function timingSafeEqual(a: string, b: string): boolean {
+  const length = Math.max(a.length, b.length);
+  let diff = a.length ^ b.length;
+
+  for (let i = 0; i < length; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
   }
-  return Math.abs(hash).toString(16);
+
+  return diff === 0;
 }
 
 /**
  * Проверка временной метки в initData
  * Telegram добавляет auth_date - время создания initData
  * Рекомендуется проверять, что данные не старше 24 часов
- * 
+ *
  * @param initData - строка initData от Telegram WebApp
  * @param maxAgeSeconds - максимальный возраст данных в секундах (по умолчанию 24 часа)
- * @returns true если данные актуальны, false если устарели
+ * @param nowSeconds - текущее время в секундах (для детерминированных проверок)
+ * @returns структурированный результат с причиной отказа
  */
-export function verifyTelegramDataAge(initData: string, maxAgeSeconds: number = 86400): boolean {
-  try {
-    const params = new URLSearchParams(initData);
-    const authDate = params.get('auth_date');
-    
-    if (!authDate) {
-      console.error('Отсутствует auth_date в initData');
-      return false;
-    }
-    
-    const authTimestamp = parseInt(authDate, 10);
-    const currentTimestamp = Math.floor(Date.now() / 1000);
-    const age = currentTimestamp - authTimestamp;
-    
-    if (age > maxAgeSeconds) {
-      console.error(`Данные Telegram устарели: возраст ${age} секунд, максимум ${maxAgeSeconds}`);
-      return false;
-    }
-    
-    return true;
-    
-  } catch (error) {
-    console.error('Ошибка при проверке возраста данных Telegram:', error);
-    return false;
+export function verifyTelegramDataAge(
+  initData: string,
+  maxAgeSeconds: number = DEFAULT_MAX_AGE_SECONDS,
+  nowSeconds: number = Math.floor(Date.now() / 1000)
+): TelegramVerificationResult {
+  const authDate = new URLSearchParams(initData).get('auth_date');
+
+  if (!authDate) {
+    console.error('Отсутствует auth_date в initData');
+    return { isValid: false, reason: 'missing_auth_date', message: 'Отсутствует auth_date в initData' };
+  }
+
+  if (!/^\d+$/.test(authDate)) {
+    console.error('Некорректный auth_date в initData:', authDate);
+    return { isValid: false, reason: 'invalid_auth_date', message: 'Некорректный auth_date в initData' };
   }
-}
\ No newline at end of file
+
+  const age = nowSeconds - parseInt(authDate, 10);
+
+  if (age > maxAgeSeconds) {
+    console.error(`Данные Telegram устарели: возраст ${age} секунд, максимум ${maxAgeSeconds}`);
+    return { isValid: false, reason: 'expired', message: 'Данные Telegram устарели, перезапустите приложение' };
+  }
+
+  return { isValid: true };
+}
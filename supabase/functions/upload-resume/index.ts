@@ -1,9 +1,17 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { RESUME_DATA_SCHEMA, ResumeData } from '../_shared/resumeDataSchema.ts';
+import { validateJsonSchema } from '../_shared/jsonSchema.ts';
 
 /**
  * Supabase Edge Function для безопасной загрузки резюме
  * Выполняет серверную валидацию и генерирует подписанные URL
+ *
+ * Действия (поле action в теле запроса):
+ * - create_upload_url (по умолчанию) - подписанный URL для загрузки файла в bucket resumes
+ * - save_resume - сохранение распарсенного резюме как новой версии в таблицу resumes
+ *
+ * Пользователь определяется по JWT токену, файлы хранятся в папке user_id/
+ * в соответствии с RLS политиками bucket resumes
  */
 
 // Константы для валидации
@@ -64,21 +72,141 @@ function validateFileMetadata(fileName: string, fileSize: number, contentType: s
 }
 
 /**
- * Генерация уникального имени файла для предотвращения конфликтов
+ * Генерация уникального пути файла для предотвращения конфликтов
+ * Файл кладется в папку пользователя: user_id/имя_timestamp_suffix.ext
  */
-function generateUniqueFileName(originalName: string, userId?: string): string {
+function generateUniqueFilePath(originalName: string, userId: string): string {
   const timestamp = Date.now();
   const randomSuffix = Math.random().toString(36).substring(2, 8);
   const extension = originalName.split('.').pop();
   const baseName = originalName.replace(/\.[^/.]+$/, '').substring(0, 50); // Ограничиваем длину
   
-  // Включаем userId если доступен для лучшей организации файлов
-  const userPrefix = userId ? `${userId}_` : '';
-  
-  return `${userPrefix}${baseName}_${timestamp}_${randomSuffix}.${extension}`;
+  return `${userId}/${baseName}_${timestamp}_${randomSuffix}.${extension}`;
+}
+
+/**
+ * Данные новой версии резюме от фронтенда (action = save_resume)
+ */
+interface SaveResumeRequest {
+  action: 'save_resume';
+  resume_data: ResumeData;
+  version_label: string;
+  file_path?: string | null;
+  file_name?: string | null;
+  is_default?: boolean;
+}
+
+/**
+ * Результат сохранения версии в формате ответов supabase-js
+ */
+type SaveResumeResult =
+  | { data: Record<string, unknown>; error: null }
+  | { data: null; error: { message: string } };
+
+/**
+ * Валидация данных новой версии резюме
+ * resume_data проверяется по RESUME_DATA_SCHEMA - той же схемой, что и при сохранении генерации,
+ * чтобы сохраненное резюме не ломало последующие генерации
+ */
+function validateSaveResumeData(data: Partial<SaveResumeRequest>, userId: string): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!data.resume_data || typeof data.resume_data !== 'object') {
+    errors.push('resume_data обязательно и должно быть объектом');
+  } else {
+    for (const error of validateJsonSchema(data.resume_data, RESUME_DATA_SCHEMA).errors) {
+      errors.push(`resume_data${error.path}: ${error.message}`);
+    }
+  }
+
+  if (!data.version_label || typeof data.version_label !== 'string' || data.version_label.trim().length === 0) {
+    errors.push('version_label обязательно и должно быть непустой строкой');
+  } else if (data.version_label.trim().length > 100) {
+    errors.push('version_label должно быть не длиннее 100 символов');
+  }
+
+  // Файл можно привязать только из своей папки
+  if (data.file_path !== undefined && data.file_path !== null) {
+    if (typeof data.file_path !== 'string' || !data.file_path.startsWith(`${userId}/`)) {
+      errors.push('file_path должен указывать на файл в папке пользователя');
+    }
+  }
+
+  if (data.is_default !== undefined && typeof data.is_default !== 'boolean') {
+    errors.push('is_default должно быть булевым значением');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * Сохранение новой версии резюме
+ *
+ * Первая версия пользователя сразу становится резюме по умолчанию.
+ * Иначе версия вставляется без флага, а переключение выполняет RPC set_default_resume
+ * в одной транзакции: если вставка или переключение не удались, прежнее резюме
+ * по умолчанию остается на месте.
+ *
+ * @param supabaseClient - клиент с service role для вставки
+ * @param userClient - клиент с JWT пользователя: set_default_resume работает от auth.uid()
+ */
+async function saveResumeVersion(
+  supabaseClient: SupabaseClient,
+  userClient: SupabaseClient,
+  userId: string,
+  data: SaveResumeRequest
+): Promise<SaveResumeResult> {
+  const { count, error: countError } = await supabaseClient
+    .from('resumes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+
+  if (countError) {
+    return { data: null, error: countError };
+  }
+
+  const isFirstVersion = !count;
+
+  const { data: savedResume, error: insertError } = await supabaseClient
+    .from('resumes')
+    .insert({
+      user_id: userId,
+      file_path: data.file_path || null,
+      file_name: data.file_name?.trim() || null,
+      resume_data_json: data.resume_data,
+      version_label: data.version_label.trim(),
+      is_default: isFirstVersion
+    })
+    .select('*')
+    .single();
+
+  if (insertError || !savedResume) {
+    return { data: null, error: insertError ?? { message: 'Резюме не сохранено' } };
+  }
+
+  if (data.is_default !== true || isFirstVersion) {
+    return { data: savedResume, error: null };
+  }
+
+  const { data: switched, error: switchError } = await userClient.rpc('set_default_resume', {
+    resume_id: savedResume.id
+  });
+
+  if (switchError || switched !== true) {
+    console.error('Не удалось сделать резюме основным:', savedResume.id, switchError);
+    return {
+      data: null,
+      error: { message: `Резюме сохранено, но не стало основным: ${switchError?.message ?? 'нет доступа к резюме'}` }
+    };
+  }
+
+  return { data: { ...savedResume, is_default: true }, error: null };
 }
 
-serve(async (req) => {
+Deno.serve(async (req) => {
   // Обработка CORS preflight запросов
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -102,8 +230,91 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
+    // Получение пользователя из JWT токена
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Отсутствует токен авторизации' }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (userError || !user) {
+      console.error('Ошибка получения пользователя:', userError);
+      return new Response(
+        JSON.stringify({ error: 'Недействительный токен авторизации' }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
     // Парсинг тела запроса
-    const { fileName, fileSize, contentType, userId } = await req.json();
+    const body = await req.json();
+
+    // Сохранение распарсенного резюме как новой версии
+    if (body.action === 'save_resume') {
+      const saveValidation = validateSaveResumeData(body, user.id);
+      if (!saveValidation.isValid) {
+        return new Response(
+          JSON.stringify({ 
+            error: 'Ошибка валидации данных',
+            details: saveValidation.errors
+          }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      // Клиент от имени пользователя: RPC проверяют владельца через auth.uid()
+      const userClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data: savedResume, error: insertError } = await saveResumeVersion(
+        supabaseClient,
+        userClient,
+        user.id,
+        body as SaveResumeRequest
+      );
+
+      if (insertError) {
+        console.error('Ошибка при сохранении резюме:', insertError);
+        return new Response(
+          JSON.stringify({ 
+            error: 'Ошибка при сохранении резюме',
+            details: insertError.message
+          }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        );
+      }
+
+      console.log(`Сохранена версия резюме ${savedResume.id} для пользователя ${user.id}`);
+
+      return new Response(
+        JSON.stringify({ success: true, resume: savedResume }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const { fileName, fileSize, contentType } = body;
 
     // Проверка обязательных параметров
     if (!fileName || !fileSize || !contentType) {
@@ -130,8 +341,8 @@ serve(async (req) => {
       );
     }
 
-    // Генерация уникального имени файла
-    const uniqueFileName = generateUniqueFileName(fileName, userId);
+    // Генерация уникального пути файла в папке пользователя
+    const uniqueFileName = generateUniqueFilePath(fileName, user.id);
 
     // Генерация подписанного URL для загрузки
     const { data: signedUrlData, error: signedUrlError } = await supabaseClient
@@ -162,6 +373,7 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         signedUrl: signedUrlData.signedUrl,
+        token: signedUrlData.token,
         fileName: uniqueFileName,
         path: signedUrlData.path
       }),
@@ -0,0 +1,16 @@
+/*
+  # Хранение адаптированного резюме вместе с генерацией
+
+  1. Изменения в таблице generations
+    - Добавляем колонку `tailored_resume_json` (jsonb, nullable)
+      - резюме с переупорядоченными под вакансию пунктами опыта и навыками
+      - найденные ключевые слова вакансии
+      - настройки секций и шаблона PDF
+    - NULL, если пользователь пропустил этап адаптации
+
+  2. Безопасность
+    - Существующие RLS политики generations распространяются на новую колонку
+*/
+
+ALTER TABLE generations
+  ADD COLUMN IF NOT EXISTS tailored_resume_json jsonb;
@@ -0,0 +1,113 @@
+/*
+  # Создание таблицы resumes для повторного использования резюме
+
+  1. Новые таблицы
+    - `resumes`
+      - `id` (uuid, primary key) - Уникальный идентификатор версии резюме
+      - `user_id` (uuid, foreign key) - Связь с пользователем из auth.users
+      - `file_path` (text, nullable) - Путь к исходному файлу в bucket `resumes` (user_id/filename)
+      - `file_name` (text, nullable) - Исходное имя файла
+      - `resume_data_json` (jsonb) - Распарсенные данные резюме (ResumeData)
+      - `version_label` (text) - Название версии для отображения
+      - `is_default` (boolean) - Резюме по умолчанию для новых генераций
+      - `created_at` (timestamptz) - Дата и время создания
+
+  2. Безопасность
+    - Включить RLS для таблицы `resumes`
+    - Политики для CRUD операций только для владельца записи
+    - Не более одного резюме по умолчанию на пользователя (частичный уникальный индекс)
+
+  3. Функции
+    - `set_default_resume(resume_id)` - атомарно переключает резюме по умолчанию
+*/
+
+-- Создание таблицы resumes если её ещё нет
+CREATE TABLE IF NOT EXISTS resumes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_path text,
+  file_name text,
+  resume_data_json jsonb NOT NULL,
+  version_label text NOT NULL CHECK (char_length(version_label) BETWEEN 1 AND 100),
+  is_default boolean DEFAULT false NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Включение Row Level Security
+ALTER TABLE resumes ENABLE ROW LEVEL SECURITY;
+
+-- Политики безопасности: доступ только к своим резюме
+DROP POLICY IF EXISTS "Users can read their own resume versions" ON resumes;
+CREATE POLICY "Users can read their own resume versions"
+  ON resumes
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own resume versions" ON resumes;
+CREATE POLICY "Users can insert their own resume versions"
+  ON resumes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own resume versions" ON resumes;
+CREATE POLICY "Users can update their own resume versions"
+  ON resumes
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own resume versions" ON resumes;
+CREATE POLICY "Users can delete their own resume versions"
+  ON resumes
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Создание индексов для оптимизации запросов
+CREATE INDEX IF NOT EXISTS idx_resumes_user_created
+  ON resumes(user_id, created_at DESC);
+
+-- Не более одного резюме по умолчанию у пользователя
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resumes_one_default_per_user
+  ON resumes(user_id)
+  WHERE is_default;
+
+-- Функция для переключения резюме по умолчанию
+CREATE OR REPLACE FUNCTION public.set_default_resume(resume_id uuid)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+BEGIN
+  -- Получаем ID текущего пользователя
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Проверяем, что резюме принадлежит пользователю
+  IF NOT EXISTS (
+    SELECT 1 FROM public.resumes
+    WHERE id = resume_id
+    AND user_id = current_user_id
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Снимаем флаг с остальных резюме и ставим на выбранное
+  UPDATE public.resumes
+  SET is_default = false
+  WHERE user_id = current_user_id
+  AND is_default
+  AND id != resume_id;
+
+  UPDATE public.resumes
+  SET is_default = true
+  WHERE id = resume_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
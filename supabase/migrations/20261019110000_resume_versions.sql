@@ -0,0 +1,127 @@
+/*
+  # История правок сохраненного резюме
+
+  1. Новые таблицы
+    - `resume_versions`
+      - `id` (uuid, primary key) - Уникальный идентификатор версии
+      - `resume_id` (uuid, foreign key) - Связь с резюме из таблицы resumes
+      - `user_id` (uuid, foreign key) - Связь с пользователем из auth.users
+      - `resume_data_json` (jsonb) - Данные резюме на момент сохранения (ResumeData)
+      - `restored_from` (uuid, nullable) - Версия, из которой восстановлены данные
+      - `created_at` (timestamptz) - Дата и время сохранения
+
+  2. Безопасность
+    - Включить RLS для таблицы `resume_versions`
+    - Политики чтения и добавления только для владельца записи
+    - Версии не редактируются и удаляются только вместе с резюме
+
+  3. Функции и триггеры
+    - При создании резюме его исходные данные записываются первой версией
+    - `save_resume_edit(resume_id, resume_data, restored_from)` - атомарно обновляет
+      данные резюме и добавляет новую версию в историю
+
+  4. Данные
+    - Для уже сохраненных резюме создается первая версия
+*/
+
+-- Создание таблицы resume_versions если её ещё нет
+CREATE TABLE IF NOT EXISTS resume_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  resume_id uuid NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  resume_data_json jsonb NOT NULL,
+  restored_from uuid REFERENCES resume_versions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Включение Row Level Security
+ALTER TABLE resume_versions ENABLE ROW LEVEL SECURITY;
+
+-- Политики безопасности: доступ только к своим версиям
+DROP POLICY IF EXISTS "Users can read their own resume edits" ON resume_versions;
+CREATE POLICY "Users can read their own resume edits"
+  ON resume_versions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own resume edits" ON resume_versions;
+CREATE POLICY "Users can insert their own resume edits"
+  ON resume_versions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+-- Создание индексов для оптимизации запросов
+CREATE INDEX IF NOT EXISTS idx_resume_versions_resume_created
+  ON resume_versions(resume_id, created_at DESC);
+
+-- Первая версия для уже сохраненных резюме
+INSERT INTO resume_versions (resume_id, user_id, resume_data_json, created_at)
+SELECT r.id, r.user_id, r.resume_data_json, r.created_at
+FROM resumes r
+WHERE NOT EXISTS (
+  SELECT 1 FROM resume_versions v WHERE v.resume_id = r.id
+);
+
+-- Функция для записи исходных данных нового резюме первой версией
+CREATE OR REPLACE FUNCTION record_initial_resume_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO resume_versions (resume_id, user_id, resume_data_json, created_at)
+  VALUES (NEW.id, NEW.user_id, NEW.resume_data_json, NEW.created_at);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Триггер для записи первой версии при создании резюме
+DROP TRIGGER IF EXISTS record_resumes_initial_version ON resumes;
+CREATE TRIGGER record_resumes_initial_version
+  AFTER INSERT ON resumes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_initial_resume_version();
+
+-- Функция для сохранения правки резюме
+CREATE OR REPLACE FUNCTION public.save_resume_edit(
+  resume_id uuid,
+  resume_data jsonb,
+  restored_from uuid DEFAULT NULL
+)
+RETURNS public.resume_versions AS $$
+DECLARE
+  current_user_id UUID;
+  saved_version public.resume_versions;
+BEGIN
+  -- Получаем ID текущего пользователя
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Восстанавливать можно только из версий этого же резюме
+  IF restored_from IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.resume_versions
+    WHERE id = save_resume_edit.restored_from
+    AND resume_versions.resume_id = save_resume_edit.resume_id
+  ) THEN
+    RAISE EXCEPTION 'Version % does not belong to resume %', restored_from, resume_id;
+  END IF;
+
+  -- Обновляем данные резюме (только своего)
+  UPDATE public.resumes
+  SET resume_data_json = resume_data
+  WHERE id = save_resume_edit.resume_id
+  AND user_id = current_user_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.resume_versions (resume_id, user_id, resume_data_json, restored_from)
+  VALUES (save_resume_edit.resume_id, current_user_id, resume_data, save_resume_edit.restored_from)
+  RETURNING * INTO saved_version;
+
+  RETURN saved_version;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,16 @@
+/*
+  # Хранение подготовки к собеседованию вместе с генерацией
+
+  1. Изменения в таблице generations
+    - Добавляем колонку `interview_prep_json` (jsonb, nullable)
+      - вероятные вопросы с планом ответа
+      - ссылки на пункты опыта из резюме
+      - слабые критерии скорринга, на которых сфокусированы вопросы
+    - NULL, если пользователь пропустил этап подготовки
+
+  2. Безопасность
+    - Существующие RLS политики generations распространяются на новую колонку
+*/
+
+ALTER TABLE generations
+  ADD COLUMN IF NOT EXISTS interview_prep_json jsonb;
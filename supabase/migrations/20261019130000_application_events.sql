@@ -0,0 +1,152 @@
+/*
+  # Трекер откликов: этапы найма для генераций
+
+  1. Изменения в таблице generations
+    - Добавляем колонку `application_stage` (text, NOT NULL, по умолчанию 'prepared')
+      - текущий этап отклика: prepared, applied, recruiter_screen, interview,
+        offer, rejected, withdrawn
+      - вычисляется из последнего события в `application_events`, вручную не меняется
+
+  2. Новые таблицы
+    - `application_events`
+      - `id` (uuid, primary key) - Уникальный идентификатор события
+      - `generation_id` (uuid, foreign key) - Связь с генерацией из таблицы generations
+      - `user_id` (uuid, foreign key) - Связь с пользователем из auth.users
+      - `stage` (text) - Этап, на который перешел отклик
+      - `note` (text, nullable) - Заметка пользователя (имя рекрутера, итоги звонка и т.п.)
+      - `occurred_at` (timestamptz) - Дата перехода, может быть задана задним числом
+      - `created_at` (timestamptz) - Дата и время создания записи
+
+  3. Безопасность
+    - Включить RLS для таблицы `application_events`
+    - Политики CRUD только для владельца записи
+    - Добавлять события можно только к своим генерациям
+
+  4. Функции и триггеры
+    - При создании генерации записывается событие 'prepared'
+    - После изменения событий `generations.application_stage` пересчитывается
+      по последнему событию (по occurred_at)
+
+  5. Данные
+    - Для уже сохраненных генераций создается событие 'prepared' с датой генерации
+*/
+
+-- Текущий этап отклика в generations
+ALTER TABLE generations
+  ADD COLUMN IF NOT EXISTS application_stage text DEFAULT 'prepared' NOT NULL
+  CHECK (application_stage IN ('prepared', 'applied', 'recruiter_screen', 'interview', 'offer', 'rejected', 'withdrawn'));
+
+CREATE INDEX IF NOT EXISTS idx_generations_user_stage
+  ON generations(user_id, application_stage);
+
+-- Создание таблицы application_events если её ещё нет
+CREATE TABLE IF NOT EXISTS application_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  generation_id uuid NOT NULL REFERENCES generations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stage text NOT NULL CHECK (stage IN ('prepared', 'applied', 'recruiter_screen', 'interview', 'offer', 'rejected', 'withdrawn')),
+  note text CHECK (note IS NULL OR char_length(note) <= 2000),
+  occurred_at timestamptz DEFAULT now() NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Включение Row Level Security
+ALTER TABLE application_events ENABLE ROW LEVEL SECURITY;
+
+-- Политики безопасности: доступ только к своим событиям
+DROP POLICY IF EXISTS "Users can read their own application events" ON application_events;
+CREATE POLICY "Users can read their own application events"
+  ON application_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert events for their own generations" ON application_events;
+CREATE POLICY "Users can insert events for their own generations"
+  ON application_events
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM generations g
+      WHERE g.id = generation_id
+      AND g.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update their own application events" ON application_events;
+CREATE POLICY "Users can update their own application events"
+  ON application_events
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own application events" ON application_events;
+CREATE POLICY "Users can delete their own application events"
+  ON application_events
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Создание индексов для оптимизации запросов
+CREATE INDEX IF NOT EXISTS idx_application_events_generation_occurred
+  ON application_events(generation_id, occurred_at DESC);
+
+-- Событие 'prepared' для уже сохраненных генераций
+INSERT INTO application_events (generation_id, user_id, stage, occurred_at, created_at)
+SELECT g.id, g.user_id, 'prepared', g.created_at, g.created_at
+FROM generations g
+WHERE NOT EXISTS (
+  SELECT 1 FROM application_events e WHERE e.generation_id = g.id
+);
+
+-- Функция для записи первого события при создании генерации
+CREATE OR REPLACE FUNCTION record_initial_application_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO application_events (generation_id, user_id, stage, occurred_at, created_at)
+  VALUES (NEW.id, NEW.user_id, 'prepared', NEW.created_at, NEW.created_at);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Триггер для записи первого события при создании генерации
+DROP TRIGGER IF EXISTS record_generations_initial_application_event ON generations;
+CREATE TRIGGER record_generations_initial_application_event
+  AFTER INSERT ON generations
+  FOR EACH ROW
+  EXECUTE FUNCTION record_initial_application_event();
+
+-- Функция для пересчета текущего этапа генерации по последнему событию
+-- SECURITY DEFINER: у пользователей нет права менять generations напрямую,
+-- этап меняется только через события своей генерации (проверяется RLS событий)
+CREATE OR REPLACE FUNCTION public.sync_generation_application_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_generation_id UUID;
+  latest_stage TEXT;
+BEGIN
+  target_generation_id := COALESCE(NEW.generation_id, OLD.generation_id);
+
+  SELECT e.stage INTO latest_stage
+  FROM public.application_events e
+  WHERE e.generation_id = target_generation_id
+  ORDER BY e.occurred_at DESC, e.created_at DESC
+  LIMIT 1;
+
+  UPDATE public.generations
+  SET application_stage = COALESCE(latest_stage, 'prepared')
+  WHERE id = target_generation_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Триггер для пересчета этапа после добавления, изменения или удаления события
+DROP TRIGGER IF EXISTS sync_application_events_stage ON application_events;
+CREATE TRIGGER sync_application_events_stage
+  AFTER INSERT OR UPDATE OR DELETE ON application_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_generation_application_stage();
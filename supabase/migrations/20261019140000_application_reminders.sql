@@ -0,0 +1,120 @@
+/*
+  # Напоминания о follow-up по откликам
+
+  1. Новые таблицы
+    - `application_reminders`
+      - `id` (uuid, primary key) - Уникальный идентификатор напоминания
+      - `generation_id` (uuid, foreign key) - Связь с генерацией из таблицы generations
+      - `user_id` (uuid, foreign key) - Связь с пользователем из auth.users
+      - `kind` (text) - Тип напоминания (пока только follow_up)
+      - `trigger_stage` (text) - Этап отклика, на котором напоминание актуально
+      - `due_at` (timestamptz) - Когда напоминание должно быть отправлено
+      - `status` (text) - pending, sent, cancelled, failed
+      - `attempts` (integer) - Количество попыток отправки
+      - `last_error` (text, nullable) - Ошибка последней попытки
+      - `follow_up_text` (text, nullable) - Сгенерированный текст follow-up письма
+      - `sent_at` (timestamptz, nullable) - Дата отправки
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Безопасность
+    - Включить RLS для таблицы `application_reminders`
+    - Пользователь может читать, отменять (обновлять) и удалять свои напоминания
+    - Создает напоминания триггер, отправляет - Edge Function send-reminders (service role)
+
+  3. Функции и триггеры
+    - Переход отклика на этап 'applied' планирует follow-up через 7 дней
+      (прежнее ожидающее напоминание отменяется)
+    - Переход на любой другой этап отменяет ожидающие напоминания:
+      работодатель ответил или отклик закрыт
+    - Автоматическое обновление updated_at
+
+  4. Расписание
+    - send-reminders вызывается по расписанию (pg_cron + pg_net или Scheduled Functions)
+      с заголовком Authorization: Bearer <REMINDERS_CRON_SECRET>
+*/
+
+-- Создание таблицы application_reminders если её ещё нет
+CREATE TABLE IF NOT EXISTS application_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  generation_id uuid NOT NULL REFERENCES generations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text DEFAULT 'follow_up' NOT NULL CHECK (kind IN ('follow_up')),
+  trigger_stage text NOT NULL CHECK (trigger_stage IN ('prepared', 'applied', 'recruiter_screen', 'interview', 'offer', 'rejected', 'withdrawn')),
+  due_at timestamptz NOT NULL,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'sent', 'cancelled', 'failed')),
+  attempts integer DEFAULT 0 NOT NULL,
+  last_error text,
+  follow_up_text text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Включение Row Level Security
+ALTER TABLE application_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Политики безопасности: доступ только к своим напоминаниям
+DROP POLICY IF EXISTS "Users can read their own reminders" ON application_reminders;
+CREATE POLICY "Users can read their own reminders"
+  ON application_reminders
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own reminders" ON application_reminders;
+CREATE POLICY "Users can update their own reminders"
+  ON application_reminders
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own reminders" ON application_reminders;
+CREATE POLICY "Users can delete their own reminders"
+  ON application_reminders
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Создание индексов для оптимизации запросов
+CREATE INDEX IF NOT EXISTS idx_application_reminders_due
+  ON application_reminders(due_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_application_reminders_generation
+  ON application_reminders(generation_id);
+
+-- Триггер для автоматического обновления updated_at
+DROP TRIGGER IF EXISTS update_application_reminders_updated_at ON application_reminders;
+CREATE TRIGGER update_application_reminders_updated_at
+  BEFORE UPDATE ON application_reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Функция планирования напоминаний по переходам отклика
+-- SECURITY DEFINER: у пользователей нет права создавать напоминания напрямую
+CREATE OR REPLACE FUNCTION public.schedule_application_reminders()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Любой новый переход отменяет ожидающие напоминания генерации
+  UPDATE public.application_reminders
+  SET status = 'cancelled'
+  WHERE generation_id = NEW.generation_id
+  AND status = 'pending';
+
+  -- Нет ответа через 7 дней после отклика - пора напомнить о себе
+  IF NEW.stage = 'applied' THEN
+    INSERT INTO public.application_reminders (generation_id, user_id, kind, trigger_stage, due_at)
+    VALUES (NEW.generation_id, NEW.user_id, 'follow_up', 'applied', NEW.occurred_at + interval '7 days');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Триггер для планирования напоминаний после нового перехода
+DROP TRIGGER IF EXISTS schedule_application_events_reminders ON application_events;
+CREATE TRIGGER schedule_application_events_reminders
+  AFTER INSERT ON application_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.schedule_application_reminders();
@@ -0,0 +1,70 @@
+/*
+  # Варианты сопроводительного письма
+
+  1. Изменения в таблице generations
+    - Добавляем колонку `letter_variants_json` (jsonb, nullable)
+      - массив вариантов { id, style, length, letter_text, is_primary }
+      - ровно один вариант отмечен основным, его текст хранится в `cover_letter_text`
+    - NULL, если генерировался один вариант письма
+
+  2. Функции
+    - `set_primary_letter_variant(generation_id, variant_id)` - переключает основной
+      вариант и копирует его текст в `cover_letter_text` одной операцией
+
+  3. Безопасность
+    - Существующие RLS политики generations распространяются на новую колонку
+    - Функция выполняется с правами вызывающего и проверяет владельца генерации
+*/
+
+ALTER TABLE generations
+  ADD COLUMN IF NOT EXISTS letter_variants_json jsonb;
+
+-- Функция для выбора основного варианта письма
+CREATE OR REPLACE FUNCTION public.set_primary_letter_variant(generation_id uuid, variant_id text)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+  variants JSONB;
+  primary_text TEXT;
+BEGIN
+  -- Получаем ID текущего пользователя
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Варианты генерации, которая принадлежит пользователю
+  SELECT g.letter_variants_json INTO variants
+  FROM public.generations g
+  WHERE g.id = set_primary_letter_variant.generation_id
+  AND g.user_id = current_user_id;
+
+  IF variants IS NULL OR jsonb_typeof(variants) <> 'array' THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT v.value->>'letter_text' INTO primary_text
+  FROM jsonb_array_elements(variants) AS v(value)
+  WHERE v.value->>'id' = set_primary_letter_variant.variant_id;
+
+  IF primary_text IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Переставляем флаг is_primary, сохраняя порядок вариантов
+  UPDATE public.generations g
+  SET
+    cover_letter_text = primary_text,
+    letter_variants_json = (
+      SELECT jsonb_agg(
+        v.value || jsonb_build_object('is_primary', v.value->>'id' = set_primary_letter_variant.variant_id)
+        ORDER BY v.ordinality
+      )
+      FROM jsonb_array_elements(variants) WITH ORDINALITY AS v(value, ordinality)
+    )
+  WHERE g.id = set_primary_letter_variant.generation_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,150 @@
+/*
+  # Профили голоса для сопроводительных писем
+
+  1. Новые таблицы
+    - `letter_profiles`
+      - `id` (uuid, primary key) - Уникальный идентификатор профиля
+      - `user_id` (uuid, foreign key) - Связь с пользователем из auth.users
+      - `name` (text) - Название профиля, показывается рядом со стилями письма
+      - `sample_paragraphs` (text[]) - Абзацы, написанные пользователем, - образец голоса
+      - `avoid_words` (text[]) - Слова и обороты, которых не должно быть в письме
+      - `greeting` (text, nullable) - Предпочтительное приветствие
+      - `sign_off` (text, nullable) - Предпочтительная подпись
+      - `max_length` (integer, nullable) - Максимальная длина письма в символах
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Изменения в таблице generations
+    - Добавляем колонку `letter_profile_id` (uuid, nullable) - профиль основного
+      варианта письма; при удалении профиля становится NULL
+
+  3. Безопасность
+    - Включить RLS для таблицы `letter_profiles`
+    - Пользователь может читать, создавать, изменять и удалять только свои профили
+
+  4. Функции
+    - `set_primary_letter_variant` дополнительно переносит в `letter_profile_id`
+      профиль выбранного варианта (profile_id в letter_variants_json)
+*/
+
+-- Создание таблицы letter_profiles если её ещё нет
+CREATE TABLE IF NOT EXISTS letter_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  sample_paragraphs text[] DEFAULT '{}' NOT NULL CHECK (cardinality(sample_paragraphs) <= 5),
+  avoid_words text[] DEFAULT '{}' NOT NULL CHECK (cardinality(avoid_words) <= 30),
+  greeting text CHECK (char_length(greeting) <= 100),
+  sign_off text CHECK (char_length(sign_off) <= 100),
+  max_length integer CHECK (max_length BETWEEN 300 AND 5000),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- Включение Row Level Security
+ALTER TABLE letter_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Политики безопасности: доступ только к своим профилям
+DROP POLICY IF EXISTS "Users can read their own letter profiles" ON letter_profiles;
+CREATE POLICY "Users can read their own letter profiles"
+  ON letter_profiles
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert their own letter profiles" ON letter_profiles;
+CREATE POLICY "Users can insert their own letter profiles"
+  ON letter_profiles
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own letter profiles" ON letter_profiles;
+CREATE POLICY "Users can update their own letter profiles"
+  ON letter_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own letter profiles" ON letter_profiles;
+CREATE POLICY "Users can delete their own letter profiles"
+  ON letter_profiles
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Создание индексов для оптимизации запросов
+CREATE INDEX IF NOT EXISTS idx_letter_profiles_user_created
+  ON letter_profiles(user_id, created_at);
+
+-- Триггер для автоматического обновления updated_at
+DROP TRIGGER IF EXISTS update_letter_profiles_updated_at ON letter_profiles;
+CREATE TRIGGER update_letter_profiles_updated_at
+  BEFORE UPDATE ON letter_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Профиль, с которым сгенерировано письмо
+ALTER TABLE generations
+  ADD COLUMN IF NOT EXISTS letter_profile_id uuid REFERENCES letter_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_generations_letter_profile
+  ON generations(letter_profile_id)
+  WHERE letter_profile_id IS NOT NULL;
+
+-- Функция для выбора основного варианта письма (вместе с профилем варианта)
+CREATE OR REPLACE FUNCTION public.set_primary_letter_variant(generation_id uuid, variant_id text)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+  variants JSONB;
+  primary_text TEXT;
+  primary_profile_id TEXT;
+BEGIN
+  -- Получаем ID текущего пользователя
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Варианты генерации, которая принадлежит пользователю
+  SELECT g.letter_variants_json INTO variants
+  FROM public.generations g
+  WHERE g.id = set_primary_letter_variant.generation_id
+  AND g.user_id = current_user_id;
+
+  IF variants IS NULL OR jsonb_typeof(variants) <> 'array' THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT v.value->>'letter_text', v.value->>'profile_id' INTO primary_text, primary_profile_id
+  FROM jsonb_array_elements(variants) AS v(value)
+  WHERE v.value->>'id' = set_primary_letter_variant.variant_id;
+
+  IF primary_text IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Переставляем флаг is_primary, сохраняя порядок вариантов
+  -- Удаленный с тех пор профиль не восстанавливается: ссылка остается NULL
+  UPDATE public.generations g
+  SET
+    cover_letter_text = primary_text,
+    letter_profile_id = (
+      SELECT p.id FROM public.letter_profiles p
+      WHERE p.id::text = primary_profile_id
+      AND p.user_id = current_user_id
+    ),
+    letter_variants_json = (
+      SELECT jsonb_agg(
+        v.value || jsonb_build_object('is_primary', v.value->>'id' = set_primary_letter_variant.variant_id)
+        ORDER BY v.ordinality
+      )
+      FROM jsonb_array_elements(variants) WITH ORDINALITY AS v(value, ordinality)
+    )
+  WHERE g.id = set_primary_letter_variant.generation_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,64 @@
+/*
+  # Трекер откликов: проверка генерации при изменении событий
+
+  1. Безопасность
+    - Политика UPDATE для `application_events` теперь, как и INSERT, проверяет,
+      что `generation_id` указывает на генерацию пользователя. Раньше событие
+      можно было перенести на чужую генерацию, и триггер с SECURITY DEFINER
+      менял `application_stage` чужой генерации
+
+  2. Функции и триггеры
+    - `sync_generation_application_stage` пересчитывает и старую, и новую генерацию,
+      если событие перенесено на другую генерацию
+*/
+
+-- Политика изменения: событие остается привязанным к своей генерации
+DROP POLICY IF EXISTS "Users can update their own application events" ON application_events;
+CREATE POLICY "Users can update their own application events"
+  ON application_events
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM generations g
+      WHERE g.id = generation_id
+      AND g.user_id = auth.uid()
+    )
+  );
+
+-- Функция для пересчета текущего этапа генерации по последнему событию
+-- SECURITY DEFINER: у пользователей нет права менять generations напрямую,
+-- этап меняется только через события своей генерации (проверяется RLS событий)
+CREATE OR REPLACE FUNCTION public.sync_generation_application_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_generation_ids UUID[];
+  target_generation_id UUID;
+  latest_stage TEXT;
+BEGIN
+  -- При переносе события на другую генерацию пересчитываются обе
+  IF TG_OP = 'INSERT' THEN
+    target_generation_ids := ARRAY[NEW.generation_id];
+  ELSIF TG_OP = 'DELETE' OR NEW.generation_id = OLD.generation_id THEN
+    target_generation_ids := ARRAY[OLD.generation_id];
+  ELSE
+    target_generation_ids := ARRAY[OLD.generation_id, NEW.generation_id];
+  END IF;
+
+  FOREACH target_generation_id IN ARRAY target_generation_ids LOOP
+    SELECT e.stage INTO latest_stage
+    FROM public.application_events e
+    WHERE e.generation_id = target_generation_id
+    ORDER BY e.occurred_at DESC, e.created_at DESC
+    LIMIT 1;
+
+    UPDATE public.generations
+    SET application_stage = COALESCE(latest_stage, 'prepared')
+    WHERE id = target_generation_id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
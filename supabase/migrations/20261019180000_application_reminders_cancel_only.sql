@@ -0,0 +1,29 @@
+/*
+  # Напоминания о follow-up: пользователь может только отменить напоминание
+
+  1. Безопасность
+    - Право UPDATE на `application_reminders` для роли authenticated оставлено
+      только для колонки `status`. Раньше пользователь мог поменять в своем
+      напоминании `generation_id`, `due_at`, `attempts` и `follow_up_text`:
+      направить send-reminders на чужую генерацию (функция читает ее с
+      service role ключом) или повторно запускать платную генерацию follow-up
+    - Политика UPDATE разрешает только перевод ожидающего напоминания
+      в статус 'cancelled'
+    - Триггер update_updated_at_column меняет updated_at в NEW и права на
+      колонку не требует; send-reminders работает с service role и ограничение
+      не затрагивает
+*/
+
+-- Пользователь меняет только статус напоминания
+REVOKE UPDATE ON application_reminders FROM authenticated;
+GRANT UPDATE (status) ON application_reminders TO authenticated;
+
+-- Политика изменения: только отмена своего ожидающего напоминания
+DROP POLICY IF EXISTS "Users can update their own reminders" ON application_reminders;
+DROP POLICY IF EXISTS "Users can cancel their own pending reminders" ON application_reminders;
+CREATE POLICY "Users can cancel their own pending reminders"
+  ON application_reminders
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND status = 'pending')
+  WITH CHECK (auth.uid() = user_id AND status = 'cancelled');
@@ -0,0 +1,76 @@
+/*
+  # Варианты письма: выбор основного варианта с правами владельца функции
+
+  1. Функции
+    - `set_primary_letter_variant` выполняется как SECURITY DEFINER.
+      Раньше она выполнялась с правами вызывающего и зависела от политики
+      UPDATE на `generations`, которой нет: у пользователей нет права менять
+      generations напрямую. UPDATE не затрагивал ни одной строки, а функция
+      все равно возвращала TRUE, и клиент сообщал об успехе
+    - Функция возвращает FOUND после UPDATE: FALSE, если генерация не обновлена
+
+  2. Безопасность
+    - Владелец генерации по-прежнему проверяется явно (auth.uid() = user_id),
+      в том числе в самом UPDATE
+    - search_path зафиксирован, как у остальных функций с SECURITY DEFINER
+*/
+
+-- Функция для выбора основного варианта письма (вместе с профилем варианта)
+-- SECURITY DEFINER: у пользователей нет права менять generations напрямую
+CREATE OR REPLACE FUNCTION public.set_primary_letter_variant(generation_id uuid, variant_id text)
+RETURNS BOOLEAN AS $$
+DECLARE
+  current_user_id UUID;
+  variants JSONB;
+  primary_text TEXT;
+  primary_profile_id TEXT;
+BEGIN
+  -- Получаем ID текущего пользователя
+  current_user_id := auth.uid();
+
+  IF current_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Варианты генерации, которая принадлежит пользователю
+  SELECT g.letter_variants_json INTO variants
+  FROM public.generations g
+  WHERE g.id = set_primary_letter_variant.generation_id
+  AND g.user_id = current_user_id;
+
+  IF variants IS NULL OR jsonb_typeof(variants) <> 'array' THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT v.value->>'letter_text', v.value->>'profile_id' INTO primary_text, primary_profile_id
+  FROM jsonb_array_elements(variants) AS v(value)
+  WHERE v.value->>'id' = set_primary_letter_variant.variant_id;
+
+  IF primary_text IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Переставляем флаг is_primary, сохраняя порядок вариантов
+  -- Удаленный с тех пор профиль не восстанавливается: ссылка остается NULL
+  UPDATE public.generations g
+  SET
+    cover_letter_text = primary_text,
+    letter_profile_id = (
+      SELECT p.id FROM public.letter_profiles p
+      WHERE p.id::text = primary_profile_id
+      AND p.user_id = current_user_id
+    ),
+    letter_variants_json = (
+      SELECT jsonb_agg(
+        v.value || jsonb_build_object('is_primary', v.value->>'id' = set_primary_letter_variant.variant_id)
+        ORDER BY v.ordinality
+      )
+      FROM jsonb_array_elements(variants) WITH ORDINALITY AS v(value, ordinality)
+    )
+  WHERE g.id = set_primary_letter_variant.generation_id
+  AND g.user_id = current_user_id;
+
+  -- FALSE, если генерация не обновлена (например, удалена между запросами)
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
@@ -33,4 +34,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    // Тесты Edge Functions (supabase/functions) запускаются через deno test
+    include: ['src/**/*.test.ts'],
+  },
 });
\ No newline at end of file